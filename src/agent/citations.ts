@@ -12,7 +12,7 @@
  * Source type for citations.
  * Extends gather.ts ContextSource types with additional source types.
  */
-export type CitationType = 'thread' | 'file' | 'web' | 'confluence' | 'slack';
+export type CitationType = 'thread' | 'file' | 'attachment' | 'resource' | 'web' | 'confluence' | 'slack';
 
 /**
  * Citation for a source used in a response.
@@ -9,6 +9,7 @@ import type Anthropic from '@anthropic-ai/sdk';
 import {
   shouldTriggerCompaction,
   compactThreadHistory,
+  summarizeMessages,
   estimateTokens,
   estimateContextTokens,
   resolveMaxContextTokens,
@@ -434,5 +435,44 @@ describe('compaction', () => {
       expect(result.compactedEstimatedTokens).toBeLessThan(result.originalEstimatedTokens);
     });
   });
-});
 
+  describe('summarizeMessages', () => {
+    it('should append extra instructions to the summarization prompt', async () => {
+      const create = vi.fn().mockResolvedValue({
+        content: [{ type: 'text', text: 'Summary.\nTopics: release' }],
+      });
+      const anthropic = { messages: { create } } as unknown as Anthropic;
+
+      const text = await summarizeMessages({
+        messages: [
+          { role: 'user', content: 'When do we ship?' },
+          { role: 'assistant', content: 'Thursday.' },
+        ],
+        anthropic,
+        model: 'claude-sonnet-4-20250514',
+        maxSummaryTokens: 500,
+        instructions: 'List topics on the last line.',
+      });
+
+      expect(text).toBe('Summary.\nTopics: release');
+      const request = create.mock.calls[0][0];
+      expect(request.system).toMatch(/List topics on the last line\.$/);
+      expect(request.messages[0].content).toContain('USER: When do we ship?\n\nASSISTANT: Thursday.');
+    });
+
+    it('should throw when the response has no text', async () => {
+      const anthropic = {
+        messages: { create: vi.fn().mockResolvedValue({ content: [] }) },
+      } as unknown as Anthropic;
+
+      await expect(
+        summarizeMessages({
+          messages: [{ role: 'user', content: 'Hi' }],
+          anthropic,
+          model: 'claude-sonnet-4-20250514',
+          maxSummaryTokens: 500,
+        })
+      ).rejects.toThrow('No text content');
+    });
+  });
+});
@@ -178,6 +178,58 @@ Be comprehensive but concise. Use bullet points. Preserve exact values (IDs, pat
 Do NOT include conversational filler or pleasantries.
 Do NOT summarize the most recent messages - only summarize what you're given.`;
 
+/**
+ * Arguments for summarizeMessages.
+ */
+export interface SummarizeMessagesArgs {
+  /** Messages to summarize, oldest first */
+  messages: HistoryMessage[];
+  /** Anthropic SDK client */
+  anthropic: Anthropic;
+  /** Model to use for summarization */
+  model: string;
+  /** Maximum tokens for the summary */
+  maxSummaryTokens: number;
+  /** Extra instructions appended to the summarization prompt */
+  instructions?: string;
+}
+
+/**
+ * Summarize messages with the compaction summarization prompt.
+ *
+ * Shared by context compaction and end-of-thread conversation summaries.
+ *
+ * @returns Summary text
+ * @throws Error if the API call fails or returns no text
+ */
+export async function summarizeMessages(args: SummarizeMessagesArgs): Promise<string> {
+  const { messages, anthropic, model, maxSummaryTokens, instructions } = args;
+
+  const conversationText = messages
+    .map((msg) => `${msg.role.toUpperCase()}: ${msg.content}`)
+    .join('\n\n');
+
+  const response = await anthropic.messages.create({
+    model,
+    max_tokens: maxSummaryTokens,
+    system: instructions ? `${SUMMARIZATION_PROMPT}\n\n${instructions}` : SUMMARIZATION_PROMPT,
+    messages: [
+      {
+        role: 'user',
+        content: `Summarize this conversation history:\n\n${conversationText}`,
+      },
+    ],
+  });
+
+  // Extract text from response
+  const summaryContent = response.content.find((block) => block.type === 'text');
+  if (!summaryContent || summaryContent.type !== 'text') {
+    throw new Error('No text content in summarization response');
+  }
+
+  return summaryContent.text;
+}
+
 /**
  * Compact conversation history by summarizing older messages.
  *
@@ -229,11 +281,6 @@ export async function compactThreadHistory(
   const messagesToSummarize = threadHistory.slice(0, -keepLastN);
   const messagesToKeep = threadHistory.slice(-keepLastN);
 
-  // Format messages for summarization
-  const conversationText = messagesToSummarize
-    .map((msg) => `${msg.role.toUpperCase()}: ${msg.content}`)
-    .join('\n\n');
-
   try {
     logger.info({
       event: 'compaction.summarizing',
@@ -243,27 +290,13 @@ export async function compactThreadHistory(
       ...(traceId && { traceId }),
     });
 
-    // Call Anthropic to generate summary
-    const response = await anthropic.messages.create({
+    const summary = await summarizeMessages({
+      messages: messagesToSummarize,
+      anthropic,
       model,
-      max_tokens: maxSummaryTokens,
-      system: SUMMARIZATION_PROMPT,
-      messages: [
-        {
-          role: 'user',
-          content: `Summarize this conversation history:\n\n${conversationText}`,
-        },
-      ],
+      maxSummaryTokens,
     });
 
-    // Extract text from response
-    const summaryContent = response.content.find((block) => block.type === 'text');
-    if (!summaryContent || summaryContent.type !== 'text') {
-      throw new Error('No text content in summarization response');
-    }
-
-    const summary = summaryContent.text;
-
     // Build compacted history with summary as first message
     const summaryMessage: HistoryMessage = {
       role: 'assistant',
@@ -18,7 +18,12 @@ const fsMocks = vi.hoisted(() => ({
 
 vi.mock('node:fs/promises', () => fsMocks);
 
+vi.mock('../tools/mcp/resources.js', () => ({
+  findRelevantMcpResources: vi.fn(async () => []),
+}));
+
 import { gatherContext } from './gather.js';
+import { findRelevantMcpResources } from '../tools/mcp/resources.js';
 
 describe('gatherContext', () => {
   beforeEach(() => {
@@ -85,6 +90,57 @@ describe('gatherContext', () => {
     expect(fileSources.length).toBeGreaterThan(0);
     expect(res.contextText).toContain('config.yaml');
   });
-});
 
+  it('should rank files that share meaning but not exact keywords', async () => {
+    fsMocks.readdir.mockResolvedValueOnce([
+      { name: 'runbook.md', isDirectory: () => false, isFile: () => true },
+      { name: 'hiring.md', isDirectory: () => false, isFile: () => true },
+    ] as MockDirent[]);
+
+    fsMocks.stat.mockResolvedValue({ size: 100 });
+
+    fsMocks.readFile
+      .mockResolvedValueOnce('Deployment runbook: steps for deploying services to production\n')
+      .mockResolvedValueOnce('Weekly notes about hiring and budget\n');
+
+    const res = await gatherContext({
+      userMessage: 'how do we deploy',
+      threadHistory: [],
+      orionContextRoot: 'semantic-context',
+    });
+
+    const fileSources = res.sources.filter((s) => s.type === 'file');
+    expect(fileSources.map((s) => s.title)).toEqual(['runbook.md']);
+  });
+
+  it('should cite relevant MCP resources', async () => {
+    fsMocks.readdir.mockResolvedValueOnce([] as MockDirent[]);
+    vi.mocked(findRelevantMcpResources).mockResolvedValueOnce([
+      {
+        serverName: 'ops',
+        resource: { uri: 'https://runbooks.internal/db-failover', name: 'db-failover', title: 'DB failover' },
+        text: 'Runbook: promote the replica, then update the connection string.',
+      },
+    ]);
 
+    const res = await gatherContext({
+      userMessage: 'how do we fail over the database replica',
+      threadHistory: [],
+      orionContextRoot: 'orion-context',
+    });
+
+    expect(findRelevantMcpResources).toHaveBeenCalledWith(
+      expect.objectContaining({ query: 'how do we fail over the database replica', limit: 3 })
+    );
+    expect(res.contextText).toContain('MCP resources (most relevant):');
+    expect(res.contextText).toContain('promote the replica');
+    expect(res.sources).toEqual([
+      expect.objectContaining({
+        type: 'resource',
+        title: 'DB failover',
+        reference: 'ops:https://runbooks.internal/db-failover',
+        url: 'https://runbooks.internal/db-failover',
+      }),
+    ]);
+  });
+});
@@ -1,7 +1,10 @@
 /**
- * Gather phase: select relevant thread snippets + scan local `orion-context/`.
+ * Gather phase: select relevant thread snippets + scan local `orion-context/`,
+ * plus relevant resources published by MCP servers (see tools/mcp/resources.ts).
  *
- * NOTE: This is intentionally lightweight (no embeddings) and bounded for speed.
+ * Ranking uses hybrid BM25 + embedding similarity (see src/retrieval/), so a query
+ * can match documents that share meaning rather than exact keywords. The file scan
+ * stays bounded for speed; unchanged files are not re-embedded between requests.
  *
  * @see Story 2.2 - Agent Loop Implementation
  * @see AC#3 - Gather from threadHistory + orion-context/ with relevance ranking
@@ -9,9 +12,15 @@
 
 import { readdir, readFile, stat } from 'node:fs/promises';
 import { resolve, relative, join, basename } from 'node:path';
+import { rankDocuments, tokenize } from '../retrieval/index.js';
+import { findRelevantMcpResources } from '../tools/mcp/resources.js';
 
 export interface ContextSource {
-  type: 'thread' | 'file';
+  /**
+   * `attachment` = file shared with the current Slack message (see slack/attachments.ts);
+   * `resource` = MCP server resource (see tools/mcp/resources.ts)
+   */
+  type: 'thread' | 'file' | 'attachment' | 'resource';
   /** Human-readable source title (shown to users) */
   title: string;
   /** Stable reference (debuggable, not necessarily user-friendly) */
@@ -43,79 +52,30 @@ export interface GatherContextParams {
   maxExcerpts?: number;
   /** Max directory depth under orionContextRoot (default 6). */
   maxDepth?: number;
+  /** Max MCP resources to read (default 3, 0 disables). */
+  maxResources?: number;
+  /** Trace ID for retrieval logs */
+  traceId?: string;
 }
 
-const STOPWORDS = new Set([
-  'a',
-  'an',
-  'and',
-  'are',
-  'as',
-  'at',
-  'be',
-  'but',
-  'by',
-  'do',
-  'for',
-  'from',
-  'how',
-  'i',
-  'in',
-  'is',
-  'it',
-  'of',
-  'on',
-  'or',
-  'so',
-  'that',
-  'the',
-  'then',
-  'to',
-  'we',
-  'what',
-  'when',
-  'where',
-  'why',
-  'with',
-  'you',
-  'your',
-]);
-
-function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, ' ')
-    .split(/\s+/)
-    .map((t) => t.trim())
-    .filter((t) => t.length >= 3 && !STOPWORDS.has(t));
-}
-
-function scoreOverlap(queryTokens: Set<string>, candidateText: string): number {
-  if (queryTokens.size === 0) return 0;
-  const tokens = new Set(tokenize(candidateText));
-  let score = 0;
-  for (const t of queryTokens) {
-    if (tokens.has(t)) score += 1;
-  }
-  return score;
-}
-
-function buildThreadContext(params: {
+async function buildThreadContext(params: {
   userMessage: string;
   threadHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
   maxThreadSnippets: number;
-}): { text: string; sources: ContextSource[] } {
-  const queryTokens = new Set(tokenize(params.userMessage));
-  const scored = params.threadHistory
-    .map((m, idx) => ({
-      idx,
-      role: m.role,
-      content: m.content,
-      score: scoreOverlap(queryTokens, m.content),
-    }))
-    .filter((m) => m.content.trim().length > 0 && m.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, params.maxThreadSnippets);
+  traceId?: string;
+}): Promise<{ text: string; sources: ContextSource[] }> {
+  const ranked = await rankDocuments(
+    params.userMessage,
+    params.threadHistory
+      .map((m, idx) => ({ id: `threadHistory[${idx}]`, text: m.content, metadata: { idx, role: m.role } }))
+      .filter((d) => d.text.trim().length > 0),
+    { transient: true, limit: params.maxThreadSnippets, traceId: params.traceId }
+  );
+  const scored = ranked.map((r) => ({
+    idx: r.document.metadata?.idx ?? 0,
+    role: r.document.metadata?.role ?? 'user',
+    content: r.document.text,
+  }));
 
   if (scored.length === 0) {
     return { text: '', sources: [] };
@@ -161,14 +121,16 @@ function findExcerpt(params: { content: string; tokens: string[] }): string {
 
 async function scanOrionContext(params: {
   rootDir: string;
+  query: string;
   queryTokens: Set<string>;
   maxFiles: number;
   maxFileBytes: number;
   maxTotalBytes: number;
   maxExcerpts: number;
   maxDepth: number;
+  traceId?: string;
 }): Promise<{ text: string; sources: ContextSource[] }> {
-  const results: Array<{ score: number; filePath: string; excerpt: string }> = [];
+  const documents: Array<{ id: string; text: string }> = [];
   let filesRead = 0;
   let bytesRead = 0;
 
@@ -226,24 +188,23 @@ async function scanOrionContext(params: {
       filesRead += 1;
       bytesRead += size;
 
-      const score = scoreOverlap(params.queryTokens, content);
-      if (score <= 0) continue;
-
-      const excerpt = findExcerpt({
-        content,
-        tokens: Array.from(params.queryTokens),
-      });
-
-      results.push({ score, filePath: fullPath, excerpt });
+      documents.push({ id: fullPath, text: content });
     }
   }
 
-  if (results.length === 0) {
+  const ranked = await rankDocuments(params.query, documents, {
+    limit: params.maxExcerpts,
+    traceId: params.traceId,
+  });
+
+  if (ranked.length === 0) {
     return { text: '', sources: [] };
   }
 
-  results.sort((a, b) => b.score - a.score);
-  const top = results.slice(0, params.maxExcerpts);
+  const top = ranked.map((r) => ({
+    filePath: r.document.id,
+    excerpt: findExcerpt({ content: r.document.text, tokens: Array.from(params.queryTokens) }),
+  }));
 
   const lines: string[] = ['Local context (most relevant):'];
   const sources: ContextSource[] = [];
@@ -262,6 +223,38 @@ async function scanOrionContext(params: {
   return { text: lines.join('\n'), sources };
 }
 
+async function buildMcpResourceContext(params: {
+  query: string;
+  queryTokens: Set<string>;
+  maxResources: number;
+  traceId?: string;
+}): Promise<{ text: string; sources: ContextSource[] }> {
+  const matches = await findRelevantMcpResources({
+    query: params.query,
+    limit: params.maxResources,
+    traceId: params.traceId,
+  });
+  if (matches.length === 0) {
+    return { text: '', sources: [] };
+  }
+
+  const lines: string[] = ['MCP resources (most relevant):'];
+  const sources: ContextSource[] = [];
+  for (const m of matches) {
+    const title = m.resource.title ?? m.resource.name;
+    lines.push(`- ${title} (${m.serverName}: ${m.resource.uri})\n${m.text.trim()}`);
+    sources.push({
+      type: 'resource',
+      title,
+      reference: `${m.serverName}:${m.resource.uri}`,
+      url: /^https?:\/\//.test(m.resource.uri) ? m.resource.uri : undefined,
+      excerpt: findExcerpt({ content: m.text, tokens: Array.from(params.queryTokens) }),
+    });
+  }
+
+  return { text: lines.join('\n'), sources };
+}
+
 export async function gatherContext(params: GatherContextParams): Promise<GatherResult> {
   const maxThreadSnippets = params.maxThreadSnippets ?? 5;
   const maxFiles = params.maxFiles ?? 50;
@@ -269,32 +262,43 @@ export async function gatherContext(params: GatherContextParams): Promise<Gather
   const maxTotalBytes = params.maxTotalBytes ?? 250_000;
   const maxExcerpts = params.maxExcerpts ?? 5;
   const maxDepth = params.maxDepth ?? 6;
+  const maxResources = params.maxResources ?? 3;
 
   const queryTokens = new Set(tokenize(params.userMessage));
 
-  const thread = buildThreadContext({
+  const thread = await buildThreadContext({
     userMessage: params.userMessage,
     threadHistory: params.threadHistory,
     maxThreadSnippets,
+    traceId: params.traceId,
   });
 
   const root = resolve(process.cwd(), params.orionContextRoot ?? 'orion-context');
   const local = await scanOrionContext({
     rootDir: root,
+    query: params.userMessage,
     queryTokens,
     maxFiles,
     maxFileBytes,
     maxTotalBytes,
     maxExcerpts,
     maxDepth,
+    traceId: params.traceId,
+  });
+
+  const resources = await buildMcpResourceContext({
+    query: params.userMessage,
+    queryTokens,
+    maxResources,
+    traceId: params.traceId,
   });
 
-  const parts = [thread.text, local.text].filter((p) => p.trim().length > 0);
+  const parts = [thread.text, local.text, resources.text].filter((p) => p.trim().length > 0);
   const contextText = parts.join('\n\n');
 
   return {
     contextText,
-    sources: [...thread.sources, ...local.sources],
+    sources: [...thread.sources, ...local.sources, ...resources.sources],
   };
 }
 
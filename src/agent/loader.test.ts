@@ -30,6 +30,8 @@ vi.mock('../utils/logger.js', () => ({
 // Import after mocks
 import {
   loadAgentPrompt,
+  loadAgentDefinition,
+  listAgentNames,
   clearAgentCache,
   type AgentDefinition,
 } from './loader.js';
@@ -172,3 +174,92 @@ Updated content.`,
   });
 });
 
+
+describe('loadAgentDefinition', () => {
+  beforeEach(() => {
+    vol.reset();
+    clearAgentCache();
+  });
+
+  it('should parse model, tools and keywords lists', async () => {
+    vol.fromJSON({
+      '/test-project/.orion/agents/release-manager.md': `---
+name: release-manager
+description: Release agent
+model: claude-opus-4-20250514
+pin_model: true
+tools: search_docs, rube__github_*
+keywords: release, deploy,changelog
+---
+
+Release prompt.`,
+    });
+
+    const definition: AgentDefinition = await loadAgentDefinition('release-manager');
+
+    expect(definition.model).toBe('claude-opus-4-20250514');
+    expect(definition.pinModel).toBe(true);
+    expect(definition.tools).toEqual(['search_docs', 'rube__github_*']);
+    expect(definition.keywords).toEqual(['release', 'deploy', 'changelog']);
+  });
+
+  it('should leave tools undefined when frontmatter omits them', async () => {
+    vol.fromJSON({
+      '/test-project/.orion/agents/plain.md': `---
+name: plain
+tools:
+---
+
+Plain prompt.`,
+    });
+
+    const definition = await loadAgentDefinition('plain');
+
+    expect(definition.tools).toBeUndefined();
+    expect(definition.keywords).toBeUndefined();
+    expect(definition.thinkingBudget).toBeUndefined();
+    expect(definition.pinModel).toBe(false);
+  });
+
+  it('should parse a thinking budget and ignore invalid ones', async () => {
+    vol.fromJSON({
+      '/test-project/.orion/agents/debugger.md': `---
+name: debugger
+thinking_budget: 4096
+---
+
+Debug prompt.`,
+      '/test-project/.orion/agents/broken.md': `---
+name: broken
+thinking_budget: lots
+---
+
+Broken prompt.`,
+    });
+
+    expect((await loadAgentDefinition('debugger')).thinkingBudget).toBe(4096);
+    expect((await loadAgentDefinition('broken')).thinkingBudget).toBeUndefined();
+  });
+});
+
+describe('listAgentNames', () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  it('should list markdown agents sorted by name', async () => {
+    vol.fromJSON({
+      '/test-project/.orion/agents/orion.md': 'Orion',
+      '/test-project/.orion/agents/oncall.md': 'Oncall',
+      '/test-project/.orion/agents/README.txt': 'ignored',
+    });
+
+    await expect(listAgentNames()).resolves.toEqual(['oncall', 'orion']);
+  });
+
+  it('should return empty list when the agents directory is missing', async () => {
+    vol.fromJSON({});
+
+    await expect(listAgentNames()).resolves.toEqual([]);
+  });
+});
@@ -9,7 +9,7 @@
  * @see AC#2 - System prompt constructed from .orion/agents/orion.md
  */
 
-import { readFile } from 'fs/promises';
+import { readFile, readdir } from 'fs/promises';
 import { join } from 'path';
 import { logger } from '../utils/logger.js';
 
@@ -27,6 +27,14 @@ export interface AgentDefinition {
   tools?: string[];
   /** Optional model override */
   model?: string;
+  /** Keep `model` even when model routing is enabled */
+  pinModel?: boolean;
+  /** Optional routing keywords for the agent classifier */
+  keywords?: string[];
+  /** Optional response delivery mode (`verified` | `passthrough`) */
+  responseMode?: string;
+  /** Optional extended thinking budget in tokens */
+  thinkingBudget?: number;
 }
 
 // Cache loaded agents in memory
@@ -80,8 +88,12 @@ export async function loadAgentPrompt(agentName: string): Promise<string> {
  * Supports YAML frontmatter for metadata:
  * - name: Agent name
  * - description: Agent description
- * - model: Optional model override
- * - tools: Comma-separated list of tools
+ * - model: Optional model override (model routing, when enabled, still picks per request)
+ * - pin_model: `true` to always use `model` and skip model routing
+ * - tools: Comma-separated list of tools (supports `*` wildcards, e.g. `rube__github_*`)
+ * - keywords: Comma-separated routing keywords
+ * - response_mode: `verified` (default) or `passthrough`
+ * - thinking_budget: Extended thinking budget in tokens (omit to disable)
  *
  * @param content - Raw markdown file content
  * @returns Parsed agent definition
@@ -120,11 +132,36 @@ function parseAgentFile(content: string): AgentDefinition {
     name: frontmatter.name || 'unknown',
     description: frontmatter.description || '',
     prompt: promptLines.join('\n').trim(),
-    tools: frontmatter.tools?.split(',').map((t) => t.trim()),
+    tools: splitList(frontmatter.tools),
     model: frontmatter.model,
+    pinModel: frontmatter.pin_model === 'true',
+    keywords: splitList(frontmatter.keywords),
+    responseMode: frontmatter.response_mode,
+    thinkingBudget: parsePositiveInt(frontmatter.thinking_budget),
   };
 }
 
+/**
+ * Parse a positive integer frontmatter value (undefined if absent or invalid).
+ */
+function parsePositiveInt(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const n = Number.parseInt(value, 10);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Split a comma-separated frontmatter value, dropping empty entries.
+ */
+function splitList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  const items = value
+    .split(',')
+    .map((t) => t.trim())
+    .filter((t) => t.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
 /**
  * Load full agent definition with all metadata.
  *
@@ -174,3 +211,21 @@ export function getCachedAgentNames(): string[] {
   return Array.from(agentCache.keys());
 }
 
+/**
+ * List agent names available in .orion/agents/.
+ *
+ * @returns Sorted agent names (file names without .md), or [] if the directory is missing
+ */
+export async function listAgentNames(): Promise<string[]> {
+  const agentsDir = join(process.cwd(), '.orion', 'agents');
+
+  try {
+    const entries = await readdir(agentsDir);
+    return entries
+      .filter((entry) => entry.endsWith('.md'))
+      .map((entry) => entry.slice(0, -'.md'.length))
+      .sort();
+  } catch {
+    return [];
+  }
+}
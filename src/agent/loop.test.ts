@@ -7,7 +7,7 @@
  * @see AC#2 - Direct Anthropic messages.create({ stream: true }) with bounded tool loop
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 const { messagesCreateMock } = vi.hoisted(() => ({
   messagesCreateMock: vi.fn(),
@@ -37,6 +37,44 @@ vi.mock('./tools.js', () => ({
   refreshMcpTools: vi.fn(async () => ({ success: true, data: { registered: 0 } })),
 }));
 
+// Mock run journal (imported by loop.ts; only used when options.journal is set)
+const { journalHandle } = vi.hoisted(() => ({
+  journalHandle: {
+    checkpoint: vi.fn(async (_update: { iteration: number; messages: unknown[] }) => undefined),
+    complete: vi.fn(async () => undefined),
+    stop: vi.fn(),
+  },
+}));
+vi.mock('./run-journal.js', () => ({
+  startRun: vi.fn(async () => journalHandle),
+}));
+
+// In-memory KV, for tests that run the real journal (with KV_REST_API_URL set)
+const { kvRuns } = vi.hoisted(() => ({ kvRuns: new Map<string, unknown>() }));
+vi.mock('../memory/vercel-kv-storage.js', () => ({
+  saveToKV: vi.fn(async (_type: string, key: string, data: unknown) => {
+    kvRuns.set(key, { data, createdAt: '', updatedAt: '' });
+  }),
+  loadFromKV: vi.fn(async (_type: string, key: string) => kvRuns.get(key) ?? null),
+  deleteFromKV: vi.fn(async (_type: string, key: string) => kvRuns.delete(key)),
+  listKVKeys: vi.fn(async () => [...kvRuns.keys()]),
+}));
+
+// Mock .orion/config.yaml (model routing and verification rules read it; off by default)
+vi.mock('../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({})),
+}));
+
+// Mock cost ledger (imported by loop.ts; records every completed run)
+vi.mock('../observability/costs.js', () => ({
+  recordRunCost: vi.fn(async () => undefined),
+}));
+
+// Mock approval policy (imported by loop.ts; no tool requires approval by default)
+vi.mock('../tools/approval-policy.js', () => ({
+  requiresToolApproval: vi.fn(() => false),
+}));
+
 // Mock Anthropic SDK (imported by loop.ts)
 vi.mock('@anthropic-ai/sdk', () => {
   const MockAnthropic = vi.fn().mockImplementation(() => ({
@@ -70,7 +108,10 @@ function createMockMessageStream(params: {
 }
 
 // Import after mocks
-import { executeAgentLoop, type AgentLoopOptions } from './loop.js';
+import { executeAgentLoop, type AgentLoopOptions, type AgentLoopResult } from './loop.js';
+import { loadOrionConfig } from '../config/orion-config.js';
+import { recordRunCost } from '../observability/costs.js';
+import { routeAgent } from './router.js';
 
 describe('executeAgentLoop', () => {
   const baseOptions: AgentLoopOptions = {
@@ -231,6 +272,79 @@ describe('executeAgentLoop', () => {
     expect(anyToolResultContainsCallbackOutput).toBe(true);
   });
 
+  it('should use the agent model override and only expose allowlisted tools', async () => {
+    const { getToolDefinitions } = await import('./tools.js');
+    vi.mocked(getToolDefinitions).mockReturnValueOnce([
+      { name: 'search_docs', description: 'd', input_schema: { type: 'object' } },
+      { name: 'rube__jira_create_issue', description: 'd', input_schema: { type: 'object' } },
+    ] as never);
+    const executeTool = vi.fn(async () => ({ ok: true }));
+
+    messagesCreateMock
+      .mockImplementationOnce(async () =>
+        createMockMessageStream({
+          events: [
+            { type: 'message_start', message: { model: 'claude-opus-4-20250514' } },
+            {
+              type: 'content_block_start',
+              index: 0,
+              content_block: {
+                type: 'tool_use',
+                id: 'toolu_1',
+                name: 'rube__jira_create_issue',
+                input: {},
+              },
+            },
+            {
+              type: 'message_delta',
+              delta: { stop_reason: 'tool_use', stop_sequence: null },
+              usage: { input_tokens: 10, output_tokens: 0 },
+            },
+            { type: 'message_stop' },
+          ],
+        })
+      )
+      .mockImplementationOnce(async () =>
+        createMockMessageStream({
+          events: [
+            { type: 'message_start', message: { model: 'claude-opus-4-20250514' } },
+            { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Done' } },
+            {
+              type: 'message_delta',
+              delta: { stop_reason: 'end_turn', stop_sequence: null },
+              usage: { input_tokens: 20, output_tokens: 5 },
+            },
+            { type: 'message_stop' },
+          ],
+        })
+      );
+
+    const gen = executeAgentLoop('Hi', {
+      ...baseOptions,
+      executeTool,
+      model: 'claude-opus-4-20250514',
+      allowedTools: ['search_*'],
+    });
+    while (true) {
+      const next = await gen.next();
+      if (next.done) break;
+    }
+
+    const firstCallArgs = messagesCreateMock.mock.calls[0][0] as {
+      model: string;
+      tools: Array<{ name: string }>;
+    };
+    expect(firstCallArgs.model).toBe('claude-opus-4-20250514');
+    expect(firstCallArgs.tools.map((t) => t.name)).toEqual(['search_docs']);
+
+    // Disallowed tool calls are rejected without reaching the executor.
+    expect(executeTool).not.toHaveBeenCalled();
+    const secondCallArgs = messagesCreateMock.mock.calls[1][0] as {
+      messages: Array<{ role: string; content: unknown }>;
+    };
+    expect(JSON.stringify(secondCallArgs.messages)).toContain('TOOL_NOT_FOUND');
+  });
+
   it('should warn when max tool loop count is reached (safety)', async () => {
     // Always requests a tool; never returns a final answer.
     messagesCreateMock.mockImplementation(async () =>
@@ -371,6 +485,107 @@ describe('executeAgentLoop', () => {
       expect(result.verificationAttempts).toBe(2);
     });
 
+    it('should stream first-attempt deltas live in passthrough mode and skip replacement on pass', async () => {
+      messagesCreateMock.mockImplementationOnce(async () =>
+        createMockMessageStream({
+          events: [
+            { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+            { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hello ' } },
+            { type: 'content_block_delta', delta: { type: 'text_delta', text: 'there, *friend*.' } },
+            { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { input_tokens: 10, output_tokens: 10 } },
+            { type: 'message_stop' },
+          ],
+        })
+      );
+      const replaceResponse = vi.fn();
+
+      const chunks: string[] = [];
+      const gen = executeAgentLoop('Hi', { ...baseOptions, responseMode: 'passthrough', replaceResponse });
+      let result;
+      while (true) {
+        const next = await gen.next();
+        if (next.done) {
+          result = next.value;
+          break;
+        }
+        chunks.push(next.value);
+      }
+
+      expect(chunks).toEqual(['Hello ', 'there, *friend*.']);
+      expect(replaceResponse).not.toHaveBeenCalled();
+      expect(result.responseMode).toBe('passthrough');
+      expect(result.responseReplaced).toBe(false);
+    });
+
+    it('should replace streamed text with the verified retry in passthrough mode', async () => {
+      messagesCreateMock
+        .mockImplementationOnce(async () =>
+          createMockMessageStream({
+            events: [
+              { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+              { type: 'content_block_delta', delta: { type: 'text_delta', text: 'This is **bold** which fails verification' } },
+              { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { input_tokens: 10, output_tokens: 10 } },
+              { type: 'message_stop' },
+            ],
+          })
+        )
+        .mockImplementationOnce(async () =>
+          createMockMessageStream({
+            events: [
+              { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+              { type: 'content_block_delta', delta: { type: 'text_delta', text: 'This is *bold* which passes verification' } },
+              { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { input_tokens: 20, output_tokens: 10 } },
+              { type: 'message_stop' },
+            ],
+          })
+        );
+      const replaceResponse = vi.fn();
+
+      const chunks: string[] = [];
+      const gen = executeAgentLoop('Hi', { ...baseOptions, responseMode: 'passthrough', replaceResponse });
+      let result;
+      while (true) {
+        const next = await gen.next();
+        if (next.done) {
+          result = next.value;
+          break;
+        }
+        chunks.push(next.value);
+      }
+
+      // Only the first attempt is streamed; the retry arrives via replaceResponse.
+      expect(chunks.join('')).toBe('This is **bold** which fails verification');
+      expect(replaceResponse).toHaveBeenCalledTimes(1);
+      expect(replaceResponse).toHaveBeenCalledWith('This is *bold* which passes verification');
+      expect(result.responseReplaced).toBe(true);
+      expect(result.verificationAttempts).toBe(2);
+    });
+
+    it('should fall back to verified mode when passthrough has no replaceResponse hook', async () => {
+      messagesCreateMock.mockImplementationOnce(async () =>
+        createMockMessageStream({
+          events: [
+            { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+            { type: 'content_block_delta', delta: { type: 'text_delta', text: 'All *good* here.' } },
+            { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { input_tokens: 10, output_tokens: 10 } },
+            { type: 'message_stop' },
+          ],
+        })
+      );
+
+      const gen = executeAgentLoop('Hi', { ...baseOptions, responseMode: 'passthrough' });
+      let result;
+      while (true) {
+        const next = await gen.next();
+        if (next.done) {
+          result = next.value;
+          break;
+        }
+      }
+
+      expect(result.responseMode).toBe('verified');
+    });
+
     it('should not yield unverified content to caller (AC#2)', async () => {
       // Response fails verification
       messagesCreateMock
@@ -586,5 +801,945 @@ describe('executeAgentLoop', () => {
       );
     });
   });
-});
 
+  describe('prompt caching and token budget', () => {
+    const searchTool = {
+      name: 'search_api',
+      description: 'Search',
+      input_schema: { type: 'object', properties: {} },
+    };
+
+    function toolUseStream(usage: Record<string, number>): ReturnType<typeof createMockMessageStream> {
+      return createMockMessageStream({
+        events: [
+          { type: 'message_start', message: { model: 'claude-sonnet-4-20250514', usage } },
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'tool_use', id: 'toolu_1', name: 'search_api', input: {} },
+          },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use', stop_sequence: null },
+            usage: { output_tokens: 50 },
+          },
+          { type: 'message_stop' },
+        ],
+      });
+    }
+
+    function textStream(text: string, usage: Record<string, number>): ReturnType<typeof createMockMessageStream> {
+      return createMockMessageStream({
+        events: [
+          { type: 'message_start', message: { model: 'claude-sonnet-4-20250514', usage } },
+          { type: 'content_block_delta', delta: { type: 'text_delta', text } },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'end_turn', stop_sequence: null },
+            usage: { output_tokens: 10 },
+          },
+          { type: 'message_stop' },
+        ],
+      });
+    }
+
+    async function drain(
+      gen: ReturnType<typeof executeAgentLoop>
+    ): Promise<Awaited<ReturnType<typeof gen.next>>['value']> {
+      while (true) {
+        const next = await gen.next();
+        if (next.done) return next.value;
+      }
+    }
+
+    it('should add cache_control breakpoints and report cache tokens', async () => {
+      const { getToolDefinitions } = await import('./tools.js');
+      vi.mocked(getToolDefinitions).mockReturnValueOnce([searchTool] as never);
+
+      messagesCreateMock
+        .mockImplementationOnce(async () =>
+          toolUseStream({ input_tokens: 100, cache_creation_input_tokens: 2000 })
+        )
+        .mockImplementationOnce(async () =>
+          textStream('Search results are in for Hi', {
+            input_tokens: 40,
+            cache_read_input_tokens: 2000,
+          })
+        );
+
+      const result = await drain(
+        executeAgentLoop('Hi', {
+          ...baseOptions,
+          promptCaching: true,
+          executeTool: vi.fn(async () => ({ ok: true })),
+        })
+      );
+
+      const firstCall = messagesCreateMock.mock.calls[0][0];
+      expect(firstCall.system[0]).toEqual(
+        expect.objectContaining({ text: baseOptions.systemPrompt, cache_control: { type: 'ephemeral' } })
+      );
+      expect(firstCall.tools.at(-1).cache_control).toEqual({ type: 'ephemeral' });
+      expect(firstCall.messages.at(-1).content.at(-1).cache_control).toEqual({ type: 'ephemeral' });
+
+      // The breakpoint moves to the newest tool_result on the next iteration.
+      const secondCall = messagesCreateMock.mock.calls[1][0];
+      const lastMessage = secondCall.messages.at(-1);
+      expect(lastMessage.content.at(-1)).toEqual(
+        expect.objectContaining({ type: 'tool_result', cache_control: { type: 'ephemeral' } })
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          inputTokens: 140,
+          cacheCreationInputTokens: 2000,
+          cacheReadInputTokens: 2000,
+          tokenBudgetExhausted: false,
+        })
+      );
+    });
+
+    it('should send plain system text when prompt caching is disabled', async () => {
+      messagesCreateMock.mockImplementationOnce(async () =>
+        textStream('Hello there, Hi back', { input_tokens: 10 })
+      );
+
+      await drain(executeAgentLoop('Hi', { ...baseOptions, promptCaching: false }));
+
+      expect(messagesCreateMock.mock.calls[0][0].system).toBe(baseOptions.systemPrompt);
+    });
+
+    it('should force a final answer without tools when nearing the token budget', async () => {
+      const { getToolDefinitions } = await import('./tools.js');
+      vi.mocked(getToolDefinitions).mockReturnValueOnce([searchTool] as never);
+
+      messagesCreateMock
+        .mockImplementationOnce(async () => toolUseStream({ input_tokens: 850 }))
+        .mockImplementationOnce(async () => textStream('Final answer for Hi', { input_tokens: 50 }));
+
+      const result = await drain(
+        executeAgentLoop('Hi', {
+          ...baseOptions,
+          tokenBudget: 1000,
+          maxToolLoops: 5,
+          executeTool: vi.fn(async () => ({ ok: true })),
+        })
+      );
+
+      expect(messagesCreateMock).toHaveBeenCalledTimes(2);
+      expect(messagesCreateMock.mock.calls[0][0].max_tokens).toBe(1000);
+      expect(messagesCreateMock.mock.calls[0][0].tool_choice).toBeUndefined();
+      const finalCall = messagesCreateMock.mock.calls[1][0];
+      expect(finalCall.tool_choice).toEqual({ type: 'none' });
+      expect(finalCall.max_tokens).toBe(256);
+      expect(result).toEqual(expect.objectContaining({ tokenBudget: 1000 }));
+    });
+
+    it('should skip verification retries once the token budget is spent', async () => {
+      messagesCreateMock.mockImplementation(async () =>
+        textStream('This is **bold** which fails verification', { input_tokens: 600 })
+      );
+
+      const result = await drain(executeAgentLoop('Hi', { ...baseOptions, tokenBudget: 500 }));
+
+      expect(messagesCreateMock).toHaveBeenCalledTimes(1);
+      expect(result).toEqual(
+        expect.objectContaining({
+          tokenBudgetExhausted: true,
+          gracefulFailure: true,
+          verificationAttempts: 1,
+        })
+      );
+    });
+  });
+
+  describe('run journal', () => {
+    const delivery = { channelId: 'C456', threadTs: '111.222' };
+
+    function toolThenText(): void {
+      messagesCreateMock
+        .mockImplementationOnce(async () =>
+          createMockMessageStream({
+            events: [
+              { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+              {
+                type: 'content_block_start',
+                index: 0,
+                content_block: { type: 'tool_use', id: 'toolu_1', name: 'search_api', input: {} },
+              },
+              { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 1 } },
+              { type: 'message_stop' },
+            ],
+          })
+        )
+        .mockImplementationOnce(async () =>
+          createMockMessageStream({
+            events: [
+              { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+              { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi, search is done' } },
+              { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 5 } },
+              { type: 'message_stop' },
+            ],
+          })
+        );
+    }
+
+    it('should checkpoint each tool-loop iteration and complete the journal entry', async () => {
+      const { startRun } = await import('./run-journal.js');
+      toolThenText();
+
+      const gen = executeAgentLoop('Hi', {
+        ...baseOptions,
+        agentName: 'oncall',
+        journal: { delivery },
+        executeTool: vi.fn(async () => ({ ok: true })),
+      });
+      while (!(await gen.next()).done) {
+        // drain
+      }
+
+      expect(startRun).toHaveBeenCalledWith(
+        expect.objectContaining({
+          traceId: 'trace-abc',
+          delivery,
+          agentName: 'oncall',
+          systemPrompt: baseOptions.systemPrompt,
+          verificationAttempt: 1,
+        })
+      );
+      expect(journalHandle.checkpoint).toHaveBeenCalledTimes(1);
+      const checkpoint = journalHandle.checkpoint.mock.calls[0][0];
+      expect(checkpoint.iteration).toBe(1);
+      expect(checkpoint.messages.at(-1)).toEqual(
+        expect.objectContaining({
+          role: 'user',
+          content: [expect.objectContaining({ type: 'tool_result', tool_use_id: 'toolu_1' })],
+        })
+      );
+      expect(journalHandle.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop the heartbeat so a failed run stays out of the journal', async () => {
+      const { startRun } = await import('./run-journal.js');
+      const actual = await vi.importActual<typeof import('./run-journal.js')>('./run-journal.js');
+      vi.mocked(startRun).mockImplementationOnce(actual.startRun);
+      messagesCreateMock.mockRejectedValueOnce(new Error('stream aborted'));
+      vi.useFakeTimers();
+      process.env.KV_REST_API_URL = 'https://kv.example.com';
+
+      try {
+        const gen = executeAgentLoop('Hi', { ...baseOptions, journal: { delivery } });
+        await expect(
+          (async (): Promise<void> => {
+            while (!(await gen.next()).done) {
+              // drain
+            }
+          })()
+        ).rejects.toThrow('stream aborted');
+
+        // runOrionAgent removes failed runs from the journal
+        await actual.removeRun('trace-abc');
+        await vi.advanceTimersByTimeAsync(actual.RUN_HEARTBEAT_INTERVAL_MS * 3);
+
+        expect(await actual.loadRun('trace-abc')).toBeNull();
+        expect(vi.getTimerCount()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+        delete process.env.KV_REST_API_URL;
+        kvRuns.clear();
+      }
+    });
+
+    it('should not journal runs without a journal option', async () => {
+      const { startRun } = await import('./run-journal.js');
+      messagesCreateMock.mockImplementationOnce(async () =>
+        createMockMessageStream({
+          events: [
+            { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+            { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi there' } },
+            { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 2 } },
+            { type: 'message_stop' },
+          ],
+        })
+      );
+
+      const gen = executeAgentLoop('Hi', baseOptions);
+      while (!(await gen.next()).done) {
+        // drain
+      }
+
+      expect(startRun).not.toHaveBeenCalled();
+    });
+
+    it('should resume from checkpointed messages and attempt', async () => {
+      messagesCreateMock.mockImplementationOnce(async () =>
+        createMockMessageStream({
+          events: [
+            { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+            { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi, resumed answer' } },
+            { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 2 } },
+            { type: 'message_stop' },
+          ],
+        })
+      );
+      const checkpointMessages = [
+        { role: 'user' as const, content: 'Hi' },
+        {
+          role: 'assistant' as const,
+          content: [{ type: 'tool_use' as const, id: 'toolu_1', name: 'search_api', input: {} }],
+        },
+        {
+          role: 'user' as const,
+          content: [{ type: 'tool_result' as const, tool_use_id: 'toolu_1', content: '{"ok":true}' }],
+        },
+      ];
+
+      const gen = executeAgentLoop('Hi', {
+        ...baseOptions,
+        resumeFrom: {
+          traceId: 'trace-abc',
+          userId: 'U123',
+          userMessage: 'Hi',
+          threadHistory: [],
+          delivery,
+          systemPrompt: baseOptions.systemPrompt,
+          verificationAttempt: 2,
+          iteration: 1,
+          messages: checkpointMessages,
+          toolCount: 1,
+          resumeCount: 1,
+          instanceId: 'dead',
+          startedAt: '2025-01-01T00:00:00.000Z',
+          updatedAt: '2025-01-01T00:00:00.000Z',
+        },
+      });
+      let next = await gen.next();
+      while (!next.done) next = await gen.next();
+
+      expect(messagesCreateMock.mock.calls[0][0].messages).toEqual(checkpointMessages);
+      expect(next.value).toEqual(
+        expect.objectContaining({ verificationAttempts: 2, toolCount: 1 })
+      );
+    });
+  });
+
+  describe('tool approval', () => {
+    function deleteThenText(): void {
+      messagesCreateMock
+        .mockImplementationOnce(async () =>
+          createMockMessageStream({
+            events: [
+              { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+              {
+                type: 'content_block_start',
+                index: 0,
+                content_block: {
+                  type: 'tool_use',
+                  id: 'toolu_1',
+                  name: 'jira__delete_issue',
+                  input: { key: 'ABC-1' },
+                },
+              },
+              { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 1 } },
+              { type: 'message_stop' },
+            ],
+          })
+        )
+        .mockImplementationOnce(async () =>
+          createMockMessageStream({
+            events: [
+              { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+              { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi, all set' } },
+              { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 5 } },
+              { type: 'message_stop' },
+            ],
+          })
+        );
+    }
+
+    async function drainAndGetToolResult(options: AgentLoopOptions): Promise<string> {
+      const gen = executeAgentLoop('Delete ABC-1', options);
+      while (!(await gen.next()).done) {
+        // drain
+      }
+      const secondCall = messagesCreateMock.mock.calls[1][0] as {
+        messages: Array<{ role: string; content: unknown }>;
+      };
+      return JSON.stringify(secondCall.messages.at(-1)?.content);
+    }
+
+    beforeEach(async () => {
+      const { requiresToolApproval } = await import('../tools/approval-policy.js');
+      vi.mocked(requiresToolApproval).mockImplementation((name) => name === 'jira__delete_issue');
+    });
+
+    it('should run the tool only after it is approved', async () => {
+      deleteThenText();
+      const executeTool = vi.fn(async () => ({ deleted: true }));
+      const requestApproval = vi.fn(async () => ({ outcome: 'approved' as const, decidedBy: 'U123' }));
+
+      const toolResult = await drainAndGetToolResult({ ...baseOptions, executeTool, requestApproval });
+
+      expect(requestApproval).toHaveBeenCalledWith({
+        toolName: 'jira__delete_issue',
+        toolUseId: 'toolu_1',
+        input: { key: 'ABC-1' },
+        traceId: 'trace-abc',
+      });
+      expect(executeTool).toHaveBeenCalledTimes(1);
+      expect(toolResult).toContain('deleted');
+    });
+
+    it('should return the denial to Claude as the tool_result without running the tool', async () => {
+      deleteThenText();
+      const executeTool = vi.fn(async () => ({ deleted: true }));
+      const requestApproval = vi.fn(async () => ({ outcome: 'denied' as const, decidedBy: 'U123' }));
+
+      const toolResult = await drainAndGetToolResult({ ...baseOptions, executeTool, requestApproval });
+
+      expect(executeTool).not.toHaveBeenCalled();
+      expect(toolResult).toContain('TOOL_APPROVAL_DENIED');
+    });
+
+    it('should report a timeout as not approved', async () => {
+      deleteThenText();
+      const executeTool = vi.fn(async () => ({ deleted: true }));
+      const requestApproval = vi.fn(async () => ({ outcome: 'timeout' as const }));
+
+      const toolResult = await drainAndGetToolResult({ ...baseOptions, executeTool, requestApproval });
+
+      expect(executeTool).not.toHaveBeenCalled();
+      expect(toolResult).toContain('TOOL_APPROVAL_TIMEOUT');
+    });
+
+    it('should not report an approval that could not be requested as a denial', async () => {
+      deleteThenText();
+      const executeTool = vi.fn(async () => ({ deleted: true }));
+      const requestApproval = vi.fn(async () => ({ outcome: 'unavailable' as const }));
+
+      const toolResult = await drainAndGetToolResult({ ...baseOptions, executeTool, requestApproval });
+
+      expect(executeTool).not.toHaveBeenCalled();
+      expect(toolResult).toContain('TOOL_UNAVAILABLE');
+      expect(toolResult).not.toContain('denied');
+    });
+
+    it('should refuse tools that require approval when no approval hook is provided', async () => {
+      deleteThenText();
+      const executeTool = vi.fn(async () => ({ deleted: true }));
+
+      const toolResult = await drainAndGetToolResult({ ...baseOptions, executeTool });
+
+      expect(executeTool).not.toHaveBeenCalled();
+      expect(toolResult).toContain('TOOL_APPROVAL_REQUIRED');
+    });
+  });
+
+  describe('model routing', () => {
+    const searchTool = {
+      name: 'search_api',
+      description: 'Search',
+      input_schema: { type: 'object', properties: {} },
+    };
+
+    function textStream(text: string, model = 'claude-sonnet-4-20250514'): ReturnType<typeof createMockMessageStream> {
+      return createMockMessageStream({
+        events: [
+          { type: 'message_start', message: { model } },
+          { type: 'content_block_delta', delta: { type: 'text_delta', text } },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'end_turn', stop_sequence: null },
+            usage: { input_tokens: 10, output_tokens: 5 },
+          },
+          { type: 'message_stop' },
+        ],
+      });
+    }
+
+    function toolUseStream(): ReturnType<typeof createMockMessageStream> {
+      return createMockMessageStream({
+        events: [
+          { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'tool_use', id: 'toolu_1', name: 'search_api', input: {} },
+          },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use', stop_sequence: null },
+            usage: { input_tokens: 10, output_tokens: 5 },
+          },
+          { type: 'message_stop' },
+        ],
+      });
+    }
+
+    async function drain(gen: ReturnType<typeof executeAgentLoop>): Promise<AgentLoopResult> {
+      while (true) {
+        const next = await gen.next();
+        if (next.done) return next.value;
+      }
+    }
+
+    function calledModels(): string[] {
+      return messagesCreateMock.mock.calls.map((call) => (call[0] as { model: string }).model);
+    }
+
+    beforeEach(() => {
+      vi.mocked(loadOrionConfig).mockReturnValue({ model_routing: { enabled: true } });
+    });
+
+    afterEach(() => {
+      vi.mocked(loadOrionConfig).mockReturnValue({});
+    });
+
+    it('should start simple questions on Haiku and record the decision in the trace', async () => {
+      messagesCreateMock.mockImplementationOnce(async () => textStream('Standup is at 9:30.'));
+      const startObservation = vi.fn(() => ({ update: vi.fn(), end: vi.fn() }));
+
+      const result = await drain(
+        executeAgentLoop('When is standup?', {
+          ...baseOptions,
+          trace: { startObservation } as unknown as AgentLoopOptions['trace'],
+        })
+      );
+
+      expect(calledModels()).toEqual(['claude-3-5-haiku-20241022']);
+      expect(result.modelRouting).toEqual({
+        complexity: 'simple',
+        signals: [],
+        initialModel: 'claude-3-5-haiku-20241022',
+        escalations: [],
+      });
+      expect(startObservation).toHaveBeenCalledWith('agent.model_route', {
+        input: { complexity: 'simple', signals: [] },
+      });
+    });
+
+    it('should route the default agent cheap-first even though it names a model', async () => {
+      messagesCreateMock.mockImplementationOnce(async () => textStream('Standup is at 9:30.'));
+      const route = await routeAgent({ messageText: 'When is standup?', channelId: 'C456' });
+
+      await drain(
+        executeAgentLoop(route.messageText, {
+          ...baseOptions,
+          systemPrompt: route.systemPrompt,
+          model: route.model,
+          pinModel: route.pinModel,
+        })
+      );
+
+      expect(route).toEqual(expect.objectContaining({ agentName: 'orion', model: 'claude-sonnet-4-20250514' }));
+      expect(calledModels()).toEqual(['claude-3-5-haiku-20241022']);
+    });
+
+    it('should escalate to the next tier when verification fails', async () => {
+      messagesCreateMock
+        .mockImplementationOnce(async () => textStream('This is **bold** which fails verification'))
+        .mockImplementationOnce(async () => textStream('This is *bold* which passes verification'));
+
+      const result = await drain(executeAgentLoop('When is standup?', baseOptions));
+
+      expect(calledModels()).toEqual(['claude-3-5-haiku-20241022', 'claude-sonnet-4-20250514']);
+      expect(result.modelRouting?.escalations).toEqual([
+        {
+          from: 'claude-3-5-haiku-20241022',
+          to: 'claude-sonnet-4-20250514',
+          reason: 'verification_failed',
+          verificationAttempt: 1,
+        },
+      ]);
+    });
+
+    it('should record run cost under every model the run used', async () => {
+      messagesCreateMock
+        .mockImplementationOnce(async () =>
+          textStream('This is **bold** which fails verification', 'claude-3-5-haiku-20241022')
+        )
+        .mockImplementationOnce(async () => textStream('This is *bold* which passes verification'));
+
+      const result = await drain(executeAgentLoop('When is standup?', baseOptions));
+
+      const { byModel, costUsd } = vi.mocked(recordRunCost).mock.calls[0][0];
+      expect(Object.keys(byModel)).toEqual(['claude-3-5-haiku-20241022', 'claude-sonnet-4-20250514']);
+      expect(byModel['claude-3-5-haiku-20241022'].usage).toMatchObject({ inputTokens: 10, outputTokens: 5 });
+      expect(byModel['claude-3-5-haiku-20241022'].costUsd).toBeLessThan(byModel['claude-sonnet-4-20250514'].costUsd);
+      expect(costUsd).toBeCloseTo(
+        byModel['claude-3-5-haiku-20241022'].costUsd + byModel['claude-sonnet-4-20250514'].costUsd
+      );
+      expect(costUsd).toBeCloseTo(result.cost.total);
+    });
+
+    it('should escalate once an attempt exceeds the tool loop threshold', async () => {
+      vi.mocked(loadOrionConfig).mockReturnValue({
+        model_routing: { enabled: true, escalate_after_tool_loops: 1 },
+      });
+      const { getToolDefinitions } = await import('./tools.js');
+      vi.mocked(getToolDefinitions).mockReturnValueOnce([searchTool] as never);
+      messagesCreateMock
+        .mockImplementationOnce(async () => toolUseStream())
+        .mockImplementationOnce(async () => textStream('Found it.'));
+
+      const result = await drain(
+        executeAgentLoop('Search the wiki for the deploy runbook', {
+          ...baseOptions,
+          executeTool: vi.fn(async () => ({ ok: true })),
+        })
+      );
+
+      expect(result.modelRouting?.complexity).toBe('tool_heavy');
+      expect(calledModels()).toEqual(['claude-sonnet-4-20250514', 'claude-opus-4-20250514']);
+      expect(result.modelRouting?.escalations[0]?.reason).toBe('tool_loops');
+    });
+
+    it('should not route agents that pin a model', async () => {
+      messagesCreateMock.mockImplementationOnce(async () => textStream('Hello'));
+
+      const result = await drain(
+        executeAgentLoop('Hi', { ...baseOptions, model: 'claude-sonnet-4-20250514', pinModel: true })
+      );
+
+      expect(calledModels()).toEqual(['claude-sonnet-4-20250514']);
+      expect(result.modelRouting).toBeUndefined();
+    });
+  });
+
+  describe('extended thinking', () => {
+    const searchTool = {
+      name: 'search_api',
+      description: 'Search',
+      input_schema: { type: 'object', properties: {} },
+    };
+
+    async function drain(gen: ReturnType<typeof executeAgentLoop>): Promise<AgentLoopResult> {
+      while (true) {
+        const next = await gen.next();
+        if (next.done) return next.value;
+      }
+    }
+
+    function thinkingThenToolUse(): ReturnType<typeof createMockMessageStream> {
+      return createMockMessageStream({
+        events: [
+          { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'thinking', thinking: '', signature: '' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'thinking_delta', thinking: 'The error mentions a missing env var. ' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'thinking_delta', thinking: 'I should search the runbook.' },
+          },
+          { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'sig-1' } },
+          { type: 'content_block_stop', index: 0 },
+          {
+            type: 'content_block_start',
+            index: 1,
+            content_block: { type: 'redacted_thinking', data: 'encrypted' },
+          },
+          { type: 'content_block_stop', index: 1 },
+          {
+            type: 'content_block_start',
+            index: 2,
+            content_block: { type: 'tool_use', id: 'toolu_1', name: 'search_api', input: {} },
+          },
+          {
+            type: 'content_block_delta',
+            index: 2,
+            delta: { type: 'input_json_delta', partial_json: '{"query":' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 2,
+            delta: { type: 'input_json_delta', partial_json: '"DATABASE_URL"}' },
+          },
+          { type: 'content_block_stop', index: 2 },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use', stop_sequence: null },
+            usage: { input_tokens: 10, output_tokens: 50 },
+          },
+          { type: 'message_stop' },
+        ],
+      });
+    }
+
+    function textStream(text: string): ReturnType<typeof createMockMessageStream> {
+      return createMockMessageStream({
+        events: [
+          { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+          { type: 'content_block_delta', delta: { type: 'text_delta', text } },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'end_turn', stop_sequence: null },
+            usage: { input_tokens: 20, output_tokens: 5 },
+          },
+          { type: 'message_stop' },
+        ],
+      });
+    }
+
+    it('should send the thinking budget and keep thinking blocks in the tool_use turn', async () => {
+      const { getToolDefinitions } = await import('./tools.js');
+      vi.mocked(getToolDefinitions).mockReturnValueOnce([searchTool] as never);
+      messagesCreateMock
+        .mockImplementationOnce(async () => thinkingThenToolUse())
+        .mockImplementationOnce(async () => textStream('Set DATABASE_URL and redeploy.'));
+      const executeTool = vi.fn(async () => ({ ok: true }));
+      const setStatus = vi.fn();
+
+      const result = await drain(
+        executeAgentLoop('Why does the deploy fail?', {
+          ...baseOptions,
+          executeTool,
+          setStatus,
+          thinkingBudget: 2048,
+        })
+      );
+
+      const firstCall = messagesCreateMock.mock.calls[0][0] as {
+        max_tokens: number;
+        thinking: unknown;
+      };
+      expect(firstCall.thinking).toEqual({ type: 'enabled', budget_tokens: 2048 });
+      expect(firstCall.max_tokens).toBeGreaterThan(2048);
+
+      // Streamed tool input JSON is assembled before the tool runs
+      expect(executeTool).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'search_api', input: { query: 'DATABASE_URL' } })
+      );
+
+      const secondCall = messagesCreateMock.mock.calls[1][0] as {
+        messages: Array<{ role: string; content: unknown }>;
+      };
+      const assistantTurn = secondCall.messages.find((m) => m.role === 'assistant');
+      expect(assistantTurn?.content).toEqual([
+        {
+          type: 'thinking',
+          thinking: 'The error mentions a missing env var. I should search the runbook.',
+          signature: 'sig-1',
+        },
+        { type: 'redacted_thinking', data: 'encrypted' },
+        { type: 'tool_use', id: 'toolu_1', name: 'search_api', input: { query: 'DATABASE_URL' } },
+      ]);
+
+      expect(setStatus).toHaveBeenCalledWith({
+        phase: 'thinking',
+        reasoning: 'The error mentions a missing env var.',
+      });
+      expect(result.reasoningSummary).toBe('The error mentions a missing env var.');
+    });
+
+    it('should not send thinking params when no budget is set', async () => {
+      messagesCreateMock.mockImplementationOnce(async () => textStream('Hello'));
+
+      const result = await drain(executeAgentLoop('Hi', baseOptions));
+
+      expect(messagesCreateMock.mock.calls[0][0]).not.toHaveProperty('thinking');
+      expect(result.reasoningSummary).toBeUndefined();
+    });
+
+    it('should skip thinking on models that do not support it', async () => {
+      messagesCreateMock.mockImplementationOnce(async () => textStream('Hello'));
+
+      await drain(
+        executeAgentLoop('Hi', {
+          ...baseOptions,
+          model: 'claude-3-5-haiku-20241022',
+          thinkingBudget: 2048,
+        })
+      );
+
+      expect(messagesCreateMock.mock.calls[0][0]).not.toHaveProperty('thinking');
+    });
+  });
+
+  describe('attachments', () => {
+    function textStream(text: string): ReturnType<typeof createMockMessageStream> {
+      return createMockMessageStream({
+        events: [
+          { type: 'message_start', message: { model: 'claude-sonnet-4-20250514' } },
+          { type: 'content_block_delta', delta: { type: 'text_delta', text } },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'end_turn', stop_sequence: null },
+            usage: { input_tokens: 10, output_tokens: 5 },
+          },
+          { type: 'message_stop' },
+        ],
+      });
+    }
+
+    async function drain(gen: ReturnType<typeof executeAgentLoop>): Promise<AgentLoopResult> {
+      for (;;) {
+        const next = await gen.next();
+        if (next.done) return next.value;
+      }
+    }
+
+    it('should send attachment blocks ahead of the text and list them as sources', async () => {
+      messagesCreateMock.mockImplementationOnce(async () =>
+        textStream('The screenshot shows a 502 from the gateway.')
+      );
+      const image = {
+        type: 'image' as const,
+        source: { type: 'base64' as const, media_type: 'image/png' as const, data: 'aW1n' },
+      };
+      const source = {
+        type: 'attachment' as const,
+        title: 'error.png',
+        reference: 'slack-file:F1',
+      };
+
+      const result = await drain(
+        executeAgentLoop('What does this error mean?', {
+          ...baseOptions,
+          attachments: { content: [image], sources: [source] },
+        })
+      );
+
+      const messages = messagesCreateMock.mock.calls[0][0].messages;
+      expect(messages[messages.length - 1]).toEqual({
+        role: 'user',
+        content: [image, { type: 'text', text: 'What does this error mean?' }],
+      });
+      expect(result.sources[0]).toEqual(source);
+    });
+
+    it('should journal attachment sources without a second copy of their content', async () => {
+      const { startRun } = await import('./run-journal.js');
+      messagesCreateMock.mockImplementationOnce(async () => textStream('A 502.'));
+      const image = {
+        type: 'image' as const,
+        source: { type: 'base64' as const, media_type: 'image/png' as const, data: 'aW1n' },
+      };
+      const source = { type: 'attachment' as const, title: 'error.png', reference: 'slack-file:F1' };
+
+      await drain(
+        executeAgentLoop('What does this error mean?', {
+          ...baseOptions,
+          attachments: { content: [image], sources: [source] },
+          journal: { delivery: { channelId: 'C456', threadTs: '111.222' } },
+        })
+      );
+
+      const entry = vi.mocked(startRun).mock.calls[0][0];
+      expect(entry.attachmentSources).toEqual([source]);
+      expect(entry).not.toHaveProperty('attachments');
+      expect(JSON.stringify(entry).split('aW1n')).toHaveLength(2);
+    });
+  });
+
+  describe('tool selection', () => {
+    // More MCP tools than the default selection limit
+    const catalog = [
+      ...Array.from({ length: 30 }, (_, i) => ({
+        name: `rube__widget_${i}`,
+        description: `Manage widget number ${i}`,
+        input_schema: { type: 'object', properties: {} },
+      })),
+      {
+        name: 'rube__jira_create_issue',
+        description: 'Create an issue in a Jira project',
+        input_schema: { type: 'object', properties: { summary: { type: 'string' } } },
+      },
+    ];
+
+    function searchToolsStream(query: string): ReturnType<typeof createMockMessageStream> {
+      return createMockMessageStream({
+        events: [
+          { type: 'message_start', message: { model: 'claude-sonnet-4-20250514', usage: { input_tokens: 10 } } },
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'tool_use', id: 'toolu_search', name: 'search_tools', input: {} },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'input_json_delta', partial_json: JSON.stringify({ query }) },
+          },
+          { type: 'content_block_stop', index: 0 },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use', stop_sequence: null },
+            usage: { output_tokens: 5 },
+          },
+          { type: 'message_stop' },
+        ],
+      });
+    }
+
+    function textStream(text: string): ReturnType<typeof createMockMessageStream> {
+      return createMockMessageStream({
+        events: [
+          { type: 'message_start', message: { model: 'claude-sonnet-4-20250514', usage: { input_tokens: 10 } } },
+          { type: 'content_block_delta', delta: { type: 'text_delta', text } },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'end_turn', stop_sequence: null },
+            usage: { output_tokens: 10 },
+          },
+          { type: 'message_stop' },
+        ],
+      });
+    }
+
+    it('sends the most relevant tools and loads more with search_tools', async () => {
+      const { getToolDefinitions } = await import('./tools.js');
+      vi.mocked(getToolDefinitions).mockReturnValueOnce(catalog as never);
+      const executeTool = vi.fn();
+
+      messagesCreateMock
+        .mockImplementationOnce(async () => searchToolsStream('create jira issue'))
+        .mockImplementation(async () => textStream('Here is how to file the bug in Jira.'));
+
+      const gen = executeAgentLoop('Please file a bug about the login page', {
+        ...baseOptions,
+        executeTool,
+      });
+      for (;;) {
+        const next = await gen.next();
+        if (next.done) break;
+      }
+
+      const firstTools = messagesCreateMock.mock.calls[0][0].tools.map((t: { name: string }) => t.name);
+      expect(firstTools.length).toBeLessThan(catalog.length);
+      expect(firstTools).toContain('search_tools');
+      expect(firstTools).not.toContain('rube__jira_create_issue');
+
+      const secondTools = messagesCreateMock.mock.calls[1][0].tools.map((t: { name: string }) => t.name);
+      expect(secondTools).toContain('rube__jira_create_issue');
+
+      // search_tools runs inside the loop, not through the tool executor
+      expect(executeTool).not.toHaveBeenCalled();
+      const toolResult = messagesCreateMock.mock.calls[1][0].messages.at(-1).content[0];
+      expect(JSON.parse(toolResult.content).data.tools[0].name).toBe('rube__jira_create_issue');
+    });
+
+    it('sends every tool when the catalog is small', async () => {
+      const { getToolDefinitions } = await import('./tools.js');
+      vi.mocked(getToolDefinitions).mockReturnValueOnce(catalog.slice(0, 3) as never);
+      messagesCreateMock.mockImplementation(async () => textStream('Hello there, Hi back'));
+
+      const gen = executeAgentLoop('Hi', baseOptions);
+      for (;;) {
+        const next = await gen.next();
+        if (next.done) break;
+      }
+
+      expect(messagesCreateMock.mock.calls[0][0].tools.map((t: { name: string }) => t.name)).toEqual(
+        catalog.slice(0, 3).map((t) => t.name)
+      );
+    });
+  });
+});
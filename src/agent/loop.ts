@@ -14,11 +14,13 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { config } from '../config/environment.js';
+import { calculateCost, supportsExtendedThinking, type CostBreakdown } from '../config/models.js';
 import { logger } from '../utils/logger.js';
 import { getToolDefinitions, refreshMcpTools } from './tools.js';
-import type { AgentContext, AgentResult } from './orion.js';
+import { filterToolsByAllowlist, isToolAllowed } from './tool-allowlist.js';
+import { DEFAULT_RESPONSE_MODE, type ResponseMode } from './response-mode.js';
+import type { AgentContext, AgentResult, MessageAttachments } from './orion.js';
 import { gatherContext, type ContextSource } from './gather.js';
-import { verify } from './verify.js';
 import {
   verifyResponse,
   createGracefulFailureResponse,
@@ -27,8 +29,35 @@ import {
   type VerificationContext,
   type VerificationResult,
 } from './verification.js';
+import { registerConfiguredVerificationRules } from './verification-config.js';
+import {
+  buildCachedSystem,
+  readCacheUsage,
+  withMessagesCacheBreakpoint,
+  withToolsCacheBreakpoint,
+} from './prompt-cache.js';
+import { startRun, type RunDelivery, type RunJournalEntry } from './run-journal.js';
+import {
+  escalateModel,
+  getModelRoutingPolicy,
+  getModelTier,
+  routeModel,
+  type EscalationReason,
+  type ModelRoutingSummary,
+} from './model-routing.js';
+import {
+  buildThinkingParams,
+  resolveThinkingBudget,
+  summarizeReasoning,
+  type ThinkingBlock,
+} from './thinking.js';
+import { requiresToolApproval } from '../tools/approval-policy.js';
+import type { RequestToolApproval } from '../tools/approvals.js';
+import { SEARCH_TOOLS_NAME, searchToolCatalog, selectTools } from '../tools/tool-index.js';
+import type { ToolResult } from '../utils/tool-result.js';
 import type { NewLangfuseSpan } from '../observability/tracing.js';
 import { type LangfuseTrace, getLangfuse } from '../observability/langfuse.js';
+import { recordRunCost, type ModelCost } from '../observability/costs.js';
 
 // Union type for trace - accepts both legacy and new SDK types
 type TraceType = LangfuseTrace | NewLangfuseSpan;
@@ -73,6 +102,24 @@ export interface AgentLoopResult extends AgentResult {
   verificationAttempts: number;
   /** Whether graceful failure was returned after exhausting attempts (Story 2.3) */
   gracefulFailure: boolean;
+  /** Delivery mode actually used for this run */
+  responseMode: ResponseMode;
+  /** Whether streamed passthrough text was replaced via `replaceResponse` */
+  responseReplaced: boolean;
+  /** Input tokens written to the prompt cache (billed at the cache-write rate) */
+  cacheCreationInputTokens: number;
+  /** Input tokens served from the prompt cache (billed at the cache-read rate) */
+  cacheReadInputTokens: number;
+  /** Estimated USD cost of every LLM call in the run, by token tier */
+  cost: CostBreakdown;
+  /** Token budget applied to this run (undefined = unlimited) */
+  tokenBudget?: number;
+  /** Whether the token budget cut the tool loop or verification retries short */
+  tokenBudgetExhausted: boolean;
+  /** Model routing decision and escalations (undefined when routing is off or the agent pins a model) */
+  modelRouting?: ModelRoutingSummary;
+  /** One-line summary of the latest extended thinking (undefined when thinking is off) */
+  reasoningSummary?: string;
 }
 
 export interface AgentLoopOptions {
@@ -84,7 +131,12 @@ export interface AgentLoopOptions {
    * Optional status updater hook.
    * The Slack handler can provide an implementation that calls `setStatus({ status, loading_messages })`.
    */
-  setStatus?: (params: { phase: 'gather' | 'act' | 'tool' | 'verify' | 'final'; toolName?: string | null }) => void | Promise<void>;
+  setStatus?: (params: {
+    phase: 'gather' | 'act' | 'thinking' | 'tool' | 'verify' | 'final';
+    toolName?: string | null;
+    /** Reasoning summary (phase `thinking`) */
+    reasoning?: string;
+  }) => void | Promise<void>;
   /**
    * Optional tool executor. If omitted, tool calls return TOOL_NOT_IMPLEMENTED.
    * (Tool execution is expanded in Epic 3.)
@@ -95,8 +147,58 @@ export interface AgentLoopOptions {
     input: unknown;
     traceId?: string;
   }) => Promise<unknown>;
+  /**
+   * Ask a human to approve a tool call that requires approval (see approval-policy.ts).
+   * The decision is returned to Claude as the tool_result; without this hook such calls
+   * are refused.
+   */
+  requestApproval?: RequestToolApproval;
   /** Override the max tool loop count (default 10) */
   maxToolLoops?: number;
+  /**
+   * Per-request token budget (input incl. cached + output, across all calls).
+   * Near the budget the loop forces a final answer without tools; once spent it stops
+   * calling the model and skips further verification retries. Default: config.agentTokenBudget.
+   */
+  tokenBudget?: number;
+  /** Add cache_control breakpoints to tools/system/history (default: config.anthropicPromptCaching) */
+  promptCaching?: boolean;
+  /**
+   * Journal this run for crash recovery (see run-journal.ts). Requires `context.traceId`;
+   * checkpoints after each tool-loop iteration and clears the entry on completion.
+   */
+  journal?: { delivery: RunDelivery };
+  /** Resume an interrupted run from its last journal checkpoint */
+  resumeFrom?: RunJournalEntry;
+  /**
+   * Model from the routed agent (default: config.anthropicModel). When `model_routing`
+   * is enabled (see model-routing.ts) it picks the model instead, unless `pinModel` is set.
+   */
+  model?: string;
+  /** Always use `model` and skip model routing (`pin_model` agent frontmatter) */
+  pinModel?: boolean;
+  /** Tool allowlist from the routed agent (undefined = all tools) */
+  allowedTools?: string[];
+  /**
+   * Extended thinking budget in tokens (min 1024; undefined = off). See thinking.ts;
+   * ignored on models without extended thinking.
+   */
+  thinkingBudget?: number;
+  /**
+   * Files shared with the message. Their blocks precede the text in the user turn and
+   * their sources are listed ahead of the gathered ones.
+   */
+  attachments?: MessageAttachments;
+  /** Routed agent name (scopes agent-specific verification rules) */
+  agentName?: string;
+  /** Response delivery mode (default 'verified') */
+  responseMode?: ResponseMode;
+  /**
+   * Replace text already streamed in passthrough mode.
+   * Called at most once, with the full corrected response, when the streamed attempt fails
+   * verification. Passthrough mode falls back to `verified` when this hook is omitted.
+   */
+  replaceResponse?: (text: string) => void | Promise<void>;
 }
 
 // Initialize Anthropic client (uses ANTHROPIC_API_KEY env var automatically)
@@ -105,10 +207,20 @@ const anthropic = new Anthropic({
 });
 
 const DEFAULT_MAX_TOOL_LOOPS = 10;
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+
+/** Fraction of the token budget after which the next call must answer without tools */
+const TOKEN_BUDGET_FINALIZE_RATIO = 0.8;
+
+/** Floor for max_tokens when the remaining budget is small */
+const MIN_OUTPUT_TOKENS = 256;
 
 /**
  * Execute the canonical agent loop and stream text deltas to the caller.
  *
+ * In `verified` mode (default) text is yielded only after verification; in `passthrough`
+ * mode it is yielded live and corrected afterwards via `replaceResponse` (see ResponseMode).
+ *
  * NOTE: This function currently keeps gather/verify minimal; later tasks in Story 2.2
  * enrich those phases and add Langfuse spans + dynamic status updates.
  */
@@ -151,6 +263,11 @@ export async function* executeAgentLoop(
   const startTime = Date.now();
   const { context, systemPrompt } = options;
   const trace = options.trace;
+  const responseMode: ResponseMode =
+    options.responseMode === 'passthrough' && options.replaceResponse
+      ? 'passthrough'
+      : DEFAULT_RESPONSE_MODE;
+  let responseReplaced = false;
 
   logger.info({
     event: 'agent.loop.start',
@@ -158,6 +275,7 @@ export async function* executeAgentLoop(
     channelId: context.channelId,
     traceId: context.traceId,
     messageLength: userMessage.length,
+    responseMode,
   });
 
   // Story 3.2: best-effort MCP discovery + registry refresh (lazy + TTL).
@@ -171,17 +289,79 @@ export async function* executeAgentLoop(
     });
   }
 
-  const tools = getToolDefinitions();
+  // Send the most relevant tools; Claude loads more with search_tools (see tools/tool-index.ts)
+  const toolCatalog = filterToolsByAllowlist(getToolDefinitions(), options.allowedTools);
+  const toolSelection = await selectTools({
+    userMessage,
+    threadHistory: context.threadHistory,
+    tools: toolCatalog,
+    traceId: context.traceId,
+  });
+  let tools = toolSelection.tools;
+  const requestedThinkingBudget = resolveThinkingBudget(options.thinkingBudget);
+
+  // Cheap-first model routing; an agent that pins its model is never routed
+  const routingPolicy = options.pinModel ? null : getModelRoutingPolicy();
+  let model = options.model ?? config.anthropicModel;
+  let modelRouting: ModelRoutingSummary | undefined;
+  if (routingPolicy) {
+    const decision = routeModel(
+      {
+        userMessage,
+        threadHistoryLength: context.threadHistory.length,
+        toolsAvailable: tools.length,
+        extendedThinking: requestedThinkingBudget !== undefined,
+      },
+      routingPolicy
+    );
+    model = decision.model;
+    modelRouting = {
+      complexity: decision.complexity,
+      signals: decision.signals,
+      initialModel: decision.model,
+      escalations: [],
+    };
+    createAgentSpan(trace, 'agent.model_route', {
+      complexity: decision.complexity,
+      signals: decision.signals,
+    })?.end({ model, tier: getModelTier(model) });
+    logger.info({
+      event: 'agent.model.routed',
+      userId: context.userId,
+      channelId: context.channelId,
+      complexity: decision.complexity,
+      signals: decision.signals,
+      model,
+      traceId: context.traceId,
+    });
+  }
+
+  // Escalation only moves up, so a model that supports thinking keeps supporting it
+  const thinkingBudget = supportsExtendedThinking(model) ? requestedThinkingBudget : undefined;
+  if (requestedThinkingBudget !== undefined && thinkingBudget === undefined) {
+    logger.warn({
+      event: 'agent.thinking.unsupported_model',
+      userId: context.userId,
+      channelId: context.channelId,
+      model,
+      thinkingBudget: requestedThinkingBudget,
+      traceId: context.traceId,
+    });
+  }
   void options.setStatus?.({ phase: 'gather' });
   const gatherSpan = createAgentSpan(trace, 'agent.gather', {
     messageLength: userMessage.length,
     historyLength: context.threadHistory.length,
   });
 
-  const { contextText, sources } = await gatherContext({
+  const gathered = await gatherContext({
     userMessage,
     threadHistory: context.threadHistory,
+    traceId: context.traceId,
   });
+  const contextText = gathered.contextText;
+  const attachments = options.attachments;
+  const sources: ContextSource[] = [...(attachments?.sources ?? []), ...gathered.sources];
 
   gatherSpan?.end({
     output: {
@@ -189,6 +369,8 @@ export async function* executeAgentLoop(
       sourcesCount: sources.length,
       threadSourcesCount: sources.filter((s) => s.type === 'thread').length,
       fileSourcesCount: sources.filter((s) => s.type === 'file').length,
+      attachmentSourcesCount: sources.filter((s) => s.type === 'attachment').length,
+      resourceSourcesCount: sources.filter((s) => s.type === 'resource').length,
     },
   });
 
@@ -197,21 +379,41 @@ export async function* executeAgentLoop(
       ? `${systemPrompt}\n\nContext:\n${contextText}`
       : systemPrompt;
 
+  const promptCaching = options.promptCaching ?? config.anthropicPromptCaching ?? false;
+  const system = promptCaching ? buildCachedSystem(systemPrompt, contextText) : effectiveSystemPrompt;
+  let requestTools = promptCaching ? withToolsCacheBreakpoint(tools) : tools;
+  const maxOutputTokens = config.anthropicMaxTokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+  const tokenBudget = options.tokenBudget ?? config.agentTokenBudget;
+
   // Build messages array from thread history + current message.
   // gatherContext does NOT mutate messages; it only affects the system prompt for now.
   const messages: Anthropic.MessageParam[] = [
     ...context.threadHistory,
-    { role: 'user', content: userMessage },
+    {
+      role: 'user',
+      content: attachments?.content.length
+        ? [...attachments.content, { type: 'text', text: userMessage }]
+        : userMessage,
+    },
   ];
 
   const MAX_TOOL_LOOPS = options.maxToolLoops ?? DEFAULT_MAX_TOOL_LOOPS;
 
   let totalInputTokens = 0;
   let totalOutputTokens = 0;
+  let totalCacheCreationTokens = 0;
+  let totalCacheReadTokens = 0;
+  const cost: CostBreakdown = { input: 0, output: 0, cacheWrite: 0, cacheRead: 0, total: 0 };
+  const costByModel: Record<string, ModelCost> = {};
+  let tokenBudgetExhausted = false;
+  // Budget counts every input token (uncached, cache write and cache read) plus output.
+  const tokensUsed = (): number =>
+    totalInputTokens + totalCacheCreationTokens + totalCacheReadTokens + totalOutputTokens;
   let lastModel: string | undefined;
   let lastStopReason: string | null | undefined;
   let toolCount = 0;
   let maxToolLoopsReached = false;
+  let reasoningSummary: string | undefined;
 
   // Story 2.3: Verification retry state
   let verificationAttempts = 0;
@@ -221,400 +423,802 @@ export async function* executeAgentLoop(
   const verificationContext: VerificationContext = {
     userMessage,
     hasSources: sources.length > 0,
+    sources,
+    channelId: context.channelId,
+    agentName: options.agentName,
+    traceId: context.traceId,
+  };
+  registerConfiguredVerificationRules({ anthropic, defaultModel: config.anthropicModel });
+
+  /** Move the rest of the run to the next stronger model, if routing allows one */
+  const escalate = (reason: EscalationReason): void => {
+    if (!routingPolicy || !modelRouting) return;
+    const next = escalateModel(model, routingPolicy.maxModel);
+    if (!next) return;
+
+    modelRouting.escalations.push({
+      from: model,
+      to: next,
+      reason,
+      verificationAttempt: verificationAttempts,
+    });
+    createAgentSpan(trace, 'agent.model_escalation', {
+      from: model,
+      reason,
+      verificationAttempt: verificationAttempts,
+    })?.end({ to: next, tier: getModelTier(next) });
+    logger.info({
+      event: 'agent.model.escalated',
+      userId: context.userId,
+      channelId: context.channelId,
+      from: model,
+      to: next,
+      reason,
+      verificationAttempt: verificationAttempts,
+      traceId: context.traceId,
+    });
+    model = next;
   };
 
   // Clone messages for retry attempts (we may need to reset between attempts)
   const baseMessages = [...messages];
 
-  // Story 2.3: Verification retry loop (AC#3 - max 3 attempts)
-  for (
-    verificationAttempts = 1;
-    verificationAttempts <= MAX_VERIFICATION_ATTEMPTS;
-    // Increment only if we'll retry (handled at end of loop body)
-  ) {
-    // Reset messages for this attempt (keep base + any retry feedback)
-    const attemptMessages: Anthropic.MessageParam[] = [...baseMessages];
-
-    // Add retry feedback from previous attempt if this is a retry
-    if (verificationAttempts > 1 && verification.feedback) {
-      const retryPrompt = buildRetryPrompt(
-        verifiedResponse,
-        verification.feedback,
-        verificationAttempts
-      );
-      attemptMessages.push({ role: 'user', content: retryPrompt });
+  const resumeFrom = options.resumeFrom;
+  // Consumed by the first attempt only; later attempts rebuild from baseMessages.
+  let resumeMessages = resumeFrom?.messages;
+  const journal =
+    options.journal && context.traceId
+      ? await startRun({
+          traceId: context.traceId,
+          userId: context.userId,
+          userMessage,
+          threadHistory: context.threadHistory,
+          delivery: options.journal.delivery,
+          systemPrompt,
+          agentName: options.agentName,
+          model: options.model,
+          pinModel: options.pinModel,
+          allowedTools: options.allowedTools,
+          thinkingBudget: options.thinkingBudget,
+          attachmentSources: attachments?.sources,
+          verificationAttempt: resumeFrom?.verificationAttempt ?? 1,
+          iteration: resumeFrom?.iteration ?? 0,
+          messages: resumeMessages ?? baseMessages,
+          toolCount: resumeFrom?.toolCount ?? 0,
+          resumeCount: resumeFrom?.resumeCount ?? 0,
+          startedAt: resumeFrom?.startedAt,
+        })
+      : null;
+
+  try {
+    /** search_tools: add matching catalog tools to the rest of the run */
+    const loadMoreTools = async (input: unknown): Promise<ToolResult<unknown>> => {
+      let found: Anthropic.Tool[];
+      try {
+        found = await searchToolCatalog({
+          input,
+          catalog: toolCatalog,
+          loaded: new Set(tools.map((t) => t.name)),
+          traceId: context.traceId,
+        });
+      } catch (error) {
+        return {
+          success: false,
+          error: {
+            code: 'TOOL_EXECUTION_FAILED',
+            message: `Tool search failed: ${error instanceof Error ? error.message : String(error)}`,
+            retryable: false,
+          },
+        };
+      }
+      // Re-check: parallel search_tools calls may have loaded the same tools
+      const current = new Set(tools.map((t) => t.name));
+      const added = found.filter((t) => !current.has(t.name));
+      if (added.length > 0) {
+        tools = [...tools, ...added];
+        requestTools = promptCaching ? withToolsCacheBreakpoint(tools) : tools;
+      }
+      return {
+        success: true,
+        data: {
+          tools: found.map((t) => ({ name: t.name, description: t.description ?? '' })),
+          note:
+            found.length > 0
+              ? 'These tools are now available.'
+              : 'No matching tools. Try different words, or answer without a tool.',
+        },
+      };
+    };
+
+    /**
+     * Gate tool calls that require human approval.
+     * @returns Tool error to return to Claude, or null when the call may run
+     */
+    const checkToolApproval = async (toolUse: {
+      id: string;
+      name: string;
+      input: unknown;
+    }): Promise<{ success: false; error: { code: string; message: string; retryable: false } } | null> => {
+      if (!requiresToolApproval(toolUse.name)) return null;
+
+      if (!options.requestApproval) {
+        return {
+          success: false,
+          error: {
+            code: 'TOOL_APPROVAL_REQUIRED',
+            message: `Tool '${toolUse.name}' requires user approval, which cannot be requested here. Tell the user what you would have done instead.`,
+            retryable: false,
+          },
+        };
+      }
+
+      const decision = await options.requestApproval({
+        toolName: toolUse.name,
+        toolUseId: toolUse.id,
+        input: toolUse.input,
+        traceId: context.traceId,
+      });
+
+      getLangfuse()?.event?.({
+        name: 'tool_approval',
+        metadata: {
+          traceId: context.traceId,
+          toolName: toolUse.name,
+          outcome: decision.outcome,
+          decidedBy: decision.decidedBy,
+          channelId: context.channelId,
+        },
+      });
+
+      if (decision.outcome === 'approved') return null;
+
+      return {
+        success: false,
+        error:
+          decision.outcome === 'denied'
+            ? {
+                code: 'TOOL_APPROVAL_DENIED',
+                message: `The user denied running '${toolUse.name}'. Do not retry it; acknowledge and continue without it.`,
+                retryable: false,
+              }
+            : decision.outcome === 'unavailable'
+            ? {
+                code: 'TOOL_UNAVAILABLE',
+                message: `Approval for '${toolUse.name}' could not be requested, so it did not run and the user was not asked. Tell the user it needs approval, which is unavailable right now.`,
+                retryable: false,
+              }
+            : {
+                code: 'TOOL_APPROVAL_TIMEOUT',
+                message: `No one approved '${toolUse.name}' in time, so it did not run. Tell the user it needs approval to proceed.`,
+                retryable: false,
+              },
+      };
+    };
+
+    if (resumeFrom) {
+      toolCount = resumeFrom.toolCount;
+      logger.info({
+        event: 'agent.loop.resumed',
+        userId: context.userId,
+        channelId: context.channelId,
+        verificationAttempt: resumeFrom.verificationAttempt,
+        iteration: resumeFrom.iteration,
+        resumeCount: resumeFrom.resumeCount,
+        traceId: context.traceId,
+      });
     }
 
-    // Buffer for this attempt's response (AC#2 - unverified content never delivered)
-    let attemptResponse = '';
+    // Story 2.3: Verification retry loop (AC#3 - max 3 attempts)
+    for (
+      verificationAttempts = resumeFrom?.verificationAttempt ?? 1;
+      verificationAttempts <= MAX_VERIFICATION_ATTEMPTS;
+      // Increment only if we'll retry (handled at end of loop body)
+    ) {
+      // Reset messages for this attempt (keep base + any retry feedback)
+      const attemptMessages: Anthropic.MessageParam[] = [...(resumeMessages ?? baseMessages)];
+      const resumedAttempt = resumeMessages !== undefined;
+      resumeMessages = undefined;
+
+      // Add retry feedback from previous attempt if this is a retry
+      // (a resumed attempt's checkpointed messages already contain it)
+      if (!resumedAttempt && verificationAttempts > 1 && verification.feedback) {
+        const retryPrompt = buildRetryPrompt(
+          verifiedResponse,
+          verification.feedback,
+          verificationAttempts
+        );
+        attemptMessages.push({ role: 'user', content: retryPrompt });
+        await journal?.checkpoint({
+          verificationAttempt: verificationAttempts,
+          iteration: 0,
+          messages: attemptMessages,
+          toolCount,
+        });
+      }
 
-    void options.setStatus?.({ phase: 'act' });
-    const actSpan = createAgentSpan(trace, 'agent.act', {
-      promptLength: effectiveSystemPrompt.length,
-      toolsCount: tools.length,
-      maxToolLoops: MAX_TOOL_LOOPS,
-      verificationAttempt: verificationAttempts,
-    });
+      // Buffer for this attempt's response (AC#2 - unverified content never delivered in verified mode)
+      let attemptResponse = '';
 
-    // Inner tool loop for this verification attempt
-    for (let iteration = 0; iteration < MAX_TOOL_LOOPS; iteration++) {
-      // Create a span for this LLM call (per-call visibility)
-      const llmSpan = createAgentSpan(trace, `llm.anthropic.${iteration}`, {
-        model: config.anthropicModel,
-        iteration,
-        messagesCount: attemptMessages.length,
+      void options.setStatus?.({ phase: 'act' });
+      const actSpan = createAgentSpan(trace, 'agent.act', {
+        promptLength: effectiveSystemPrompt.length,
+        toolsCount: tools.length,
+        toolCatalogCount: toolSelection.totalCount,
+        maxToolLoops: MAX_TOOL_LOOPS,
+        verificationAttempt: verificationAttempts,
       });
 
-      const stream = (await anthropic.messages.create({
-        model: config.anthropicModel,
-        max_tokens: 8192,
-        system: effectiveSystemPrompt,
-        messages: attemptMessages,
-        stream: true,
-        ...(tools.length > 0 ? { tools } : {}),
-      } as unknown as Anthropic.MessageCreateParams)) as unknown as AsyncIterable<Anthropic.RawMessageStreamEvent>;
-
-      let inputTokensThisCall = 0;
-      let outputTokensThisCall = 0;
-      let stopReasonThisCall: string | null | undefined;
-      let modelThisCall: string | undefined;
-      const toolUsesThisCall: Array<{ id: string; name: string; input: unknown }> = [];
-
-      for await (const event of stream) {
-        if (event.type === 'message_start') {
-          modelThisCall = event.message?.model;
-          continue;
+      // Set when the budget is nearly spent: the next call must answer without tools.
+      let finalizeForBudget = false;
+
+      // Inner tool loop for this verification attempt
+      for (let iteration = 0; iteration < MAX_TOOL_LOOPS; iteration++) {
+        const remainingBudget = tokenBudget !== undefined ? tokenBudget - tokensUsed() : undefined;
+        if (remainingBudget !== undefined && remainingBudget <= 0) {
+          tokenBudgetExhausted = true;
+          logger.warn({
+            event: 'agent.loop.token_budget_exhausted',
+            userId: context.userId,
+            channelId: context.channelId,
+            tokenBudget,
+            tokensUsed: tokensUsed(),
+            iteration,
+            traceId: context.traceId,
+          });
+          break;
         }
 
-        if (event.type === 'content_block_start') {
-          if (event.content_block?.type === 'tool_use') {
-            toolUsesThisCall.push({
-              id: event.content_block.id,
-              name: event.content_block.name,
-              input: event.content_block.input,
-            });
+        const maxTokens =
+          remainingBudget !== undefined
+            ? Math.max(MIN_OUTPUT_TOKENS, Math.min(maxOutputTokens, remainingBudget))
+            : maxOutputTokens;
+        const thinkingParams =
+          thinkingBudget !== undefined
+            ? buildThinkingParams(thinkingBudget, maxTokens, MIN_OUTPUT_TOKENS)
+            : undefined;
+
+        // Create a span for this LLM call (per-call visibility)
+        const llmSpan = createAgentSpan(trace, `llm.anthropic.${iteration}`, {
+          model,
+          iteration,
+          messagesCount: attemptMessages.length,
+          maxTokens: thinkingParams?.max_tokens ?? maxTokens,
+          thinkingBudget: thinkingParams?.thinking.budget_tokens,
+          promptCaching,
+          finalizeForBudget,
+        });
+
+        const stream = (await anthropic.messages.create({
+          model,
+          max_tokens: thinkingParams?.max_tokens ?? maxTokens,
+          ...(thinkingParams ? { thinking: thinkingParams.thinking } : {}),
+          system,
+          messages: promptCaching ? withMessagesCacheBreakpoint(attemptMessages) : attemptMessages,
+          stream: true,
+          ...(tools.length > 0 ? { tools: requestTools } : {}),
+          ...(tools.length > 0 && finalizeForBudget ? { tool_choice: { type: 'none' } } : {}),
+        } as unknown as Anthropic.MessageCreateParams)) as unknown as AsyncIterable<Anthropic.RawMessageStreamEvent>;
+
+        let inputTokensThisCall = 0;
+        let outputTokensThisCall = 0;
+        let cacheCreationTokensThisCall = 0;
+        let cacheReadTokensThisCall = 0;
+        let stopReasonThisCall: string | null | undefined;
+        let modelThisCall: string | undefined;
+        const toolUsesThisCall: Array<{ id: string; name: string; input: unknown }> = [];
+        // Streamed tool input JSON, by content block index
+        const toolInputJson = new Map<number, { toolUse: { input: unknown }; json: string }>();
+        // Thinking blocks go back unchanged (with signatures) in the tool_use turn
+        const thinkingBlocksThisCall: ThinkingBlock[] = [];
+        const thinkingByIndex = new Map<number, Anthropic.ThinkingBlockParam>();
+
+        for await (const event of stream) {
+          if (event.type === 'message_start') {
+            modelThisCall = event.message?.model;
+            inputTokensThisCall = event.message?.usage?.input_tokens ?? 0;
+            const cacheUsage = readCacheUsage(event.message?.usage);
+            cacheCreationTokensThisCall = cacheUsage.cacheCreationInputTokens;
+            cacheReadTokensThisCall = cacheUsage.cacheReadInputTokens;
+            continue;
+          }
+
+          if (event.type === 'content_block_start') {
+            const block = event.content_block;
+            if (block?.type === 'tool_use') {
+              const toolUse = { id: block.id, name: block.name, input: block.input };
+              toolUsesThisCall.push(toolUse);
+              toolInputJson.set(event.index, { toolUse, json: '' });
+            } else if (block?.type === 'thinking') {
+              const thinkingBlock: Anthropic.ThinkingBlockParam = {
+                type: 'thinking',
+                thinking: block.thinking ?? '',
+                signature: block.signature ?? '',
+              };
+              thinkingBlocksThisCall.push(thinkingBlock);
+              thinkingByIndex.set(event.index, thinkingBlock);
+            } else if (block?.type === 'redacted_thinking') {
+              thinkingBlocksThisCall.push({ type: 'redacted_thinking', data: block.data });
+            }
+            continue;
+          }
+
+          if (event.type === 'content_block_stop') {
+            const thinkingBlock = thinkingByIndex.get(event.index);
+            const summary = thinkingBlock ? summarizeReasoning(thinkingBlock.thinking) : undefined;
+            if (summary) {
+              reasoningSummary = summary;
+              void options.setStatus?.({ phase: 'thinking', reasoning: summary });
+            }
+            continue;
+          }
+
+          if (event.type === 'content_block_delta') {
+            if (event.delta?.type === 'thinking_delta') {
+              const thinkingBlock = thinkingByIndex.get(event.index);
+              if (thinkingBlock) thinkingBlock.thinking += event.delta.thinking;
+              continue;
+            }
+            if (event.delta?.type === 'signature_delta') {
+              const thinkingBlock = thinkingByIndex.get(event.index);
+              if (thinkingBlock) thinkingBlock.signature = event.delta.signature;
+              continue;
+            }
+            if (event.delta?.type === 'input_json_delta') {
+              const pending = toolInputJson.get(event.index);
+              if (pending) pending.json += event.delta.partial_json;
+              continue;
+            }
+            if (event.delta?.type === 'text_delta') {
+              const text = event.delta.text ?? '';
+              // Story 2.3: Buffer instead of yielding immediately (AC#2)
+              attemptResponse += text;
+              // Passthrough: stream the first attempt live; retries are delivered via replaceResponse.
+              if (responseMode === 'passthrough' && verificationAttempts === 1 && text.length > 0) {
+                yield text;
+              }
+            }
+            continue;
+          }
+
+          if (event.type === 'message_delta') {
+            stopReasonThisCall = event.delta?.stop_reason ?? undefined;
+            inputTokensThisCall = Math.max(
+              inputTokensThisCall,
+              event.usage?.input_tokens ?? 0
+            );
+            outputTokensThisCall = Math.max(
+              outputTokensThisCall,
+              event.usage?.output_tokens ?? 0
+            );
+            continue;
           }
-          continue;
         }
 
-        if (event.type === 'content_block_delta') {
-          if (event.delta?.type === 'text_delta') {
-            const text = event.delta.text ?? '';
-            // Story 2.3: Buffer instead of yielding immediately (AC#2)
-            attemptResponse += text;
+        for (const pending of toolInputJson.values()) {
+          if (pending.json.length === 0) continue;
+          try {
+            pending.toolUse.input = JSON.parse(pending.json);
+          } catch {
+            logger.warn({
+              event: 'agent.loop.tool_input_invalid_json',
+              userId: context.userId,
+              channelId: context.channelId,
+              traceId: context.traceId,
+            });
           }
-          continue;
         }
 
-        if (event.type === 'message_delta') {
-          stopReasonThisCall = event.delta?.stop_reason ?? undefined;
-          inputTokensThisCall = Math.max(
-            inputTokensThisCall,
-            event.usage?.input_tokens ?? 0
-          );
-          outputTokensThisCall = Math.max(
-            outputTokensThisCall,
-            event.usage?.output_tokens ?? 0
-          );
-          continue;
+        totalInputTokens += inputTokensThisCall;
+        totalOutputTokens += outputTokensThisCall;
+        totalCacheCreationTokens += cacheCreationTokensThisCall;
+        totalCacheReadTokens += cacheReadTokensThisCall;
+        lastModel = modelThisCall ?? lastModel;
+        lastStopReason = stopReasonThisCall ?? lastStopReason;
+
+        // Priced per call: routing and retries may mix models within a run
+        const callModel = modelThisCall ?? model;
+        const callCost = calculateCost(callModel, {
+          inputTokens: inputTokensThisCall,
+          outputTokens: outputTokensThisCall,
+          cacheCreationInputTokens: cacheCreationTokensThisCall,
+          cacheReadInputTokens: cacheReadTokensThisCall,
+        });
+        cost.input += callCost.input;
+        cost.output += callCost.output;
+        cost.cacheWrite += callCost.cacheWrite;
+        cost.cacheRead += callCost.cacheRead;
+        cost.total += callCost.total;
+
+        const modelCost = (costByModel[callModel] ??= {
+          usage: { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 },
+          costUsd: 0,
+        });
+        const modelUsage = modelCost.usage;
+        modelUsage.inputTokens += inputTokensThisCall;
+        modelUsage.outputTokens += outputTokensThisCall;
+        modelUsage.cacheCreationInputTokens = (modelUsage.cacheCreationInputTokens ?? 0) + cacheCreationTokensThisCall;
+        modelUsage.cacheReadInputTokens = (modelUsage.cacheReadInputTokens ?? 0) + cacheReadTokensThisCall;
+        modelCost.costUsd += callCost.total;
+
+        // End LLM span with token usage, cost and outcome
+        llmSpan?.end({
+          inputTokens: inputTokensThisCall,
+          outputTokens: outputTokensThisCall,
+          cacheCreationInputTokens: cacheCreationTokensThisCall,
+          cacheReadInputTokens: cacheReadTokensThisCall,
+          costUsd: callCost.total,
+          stopReason: stopReasonThisCall,
+          toolCount: toolUsesThisCall.length,
+          thinkingBlocks: thinkingBlocksThisCall.length,
+          model: modelThisCall,
+        });
+
+        const wantsToolUse =
+          stopReasonThisCall === 'tool_use' || toolUsesThisCall.length > 0;
+
+        if (!wantsToolUse) {
+          break;
+        }
+
+        if (iteration === MAX_TOOL_LOOPS - 1) {
+          maxToolLoopsReached = true;
         }
-      }
 
-      totalInputTokens += inputTokensThisCall;
-      totalOutputTokens += outputTokensThisCall;
-      lastModel = modelThisCall ?? lastModel;
-      lastStopReason = stopReasonThisCall ?? lastStopReason;
-
-      // End LLM span with token usage and outcome
-      llmSpan?.end({
-        inputTokens: inputTokensThisCall,
-        outputTokens: outputTokensThisCall,
-        stopReason: stopReasonThisCall,
-        toolCount: toolUsesThisCall.length,
-        model: modelThisCall,
-      });
+        if (toolUsesThisCall.length === 0) {
+          logger.warn({
+            event: 'agent.loop.tool_use_missing_blocks',
+            userId: context.userId,
+            channelId: context.channelId,
+            traceId: context.traceId,
+          });
+          break;
+        }
 
-      const wantsToolUse =
-        stopReasonThisCall === 'tool_use' || toolUsesThisCall.length > 0;
+        toolCount += toolUsesThisCall.length;
+        void options.setStatus?.({ phase: 'tool', toolName: toolUsesThisCall[0]?.name ?? null });
+
+        // Append assistant message containing tool_use blocks, preceded by any thinking blocks
+        // (the API rejects a thinking-enabled tool_use turn without them).
+        attemptMessages.push({
+          role: 'assistant',
+          content: [
+            ...thinkingBlocksThisCall,
+            ...toolUsesThisCall.map(
+              (t): Anthropic.ToolUseBlockParam => ({
+                type: 'tool_use',
+                id: t.id,
+                name: t.name,
+                input: t.input,
+              })
+            ),
+          ],
+        });
 
-      if (!wantsToolUse) {
-        break;
-      }
+        const toolResults = await Promise.all(
+          toolUsesThisCall.map(async (toolUse) => {
+            // Create a span for this tool call (full input/output visibility)
+            const toolSpan = createAgentSpan(trace, `tool.${toolUse.name}`, {
+              toolName: toolUse.name,
+              input: toolUse.input,
+            });
+
+            const startMs = Date.now();
+            const isToolSearch = toolSelection.limited && toolUse.name === SEARCH_TOOLS_NAME;
+            const allowed = isToolSearch || isToolAllowed(toolUse.name, options.allowedTools);
+            const approvalError =
+              allowed && !isToolSearch ? await checkToolApproval(toolUse) : null;
+            const result = isToolSearch
+              ? await loadMoreTools(toolUse.input)
+              : !allowed
+              ? {
+                  success: false,
+                  error: {
+                    code: 'TOOL_NOT_FOUND',
+                    message: `Tool '${toolUse.name}' is not available to this agent`,
+                    retryable: false,
+                  },
+                }
+              : approvalError
+              ? approvalError
+              : options.executeTool
+              ? await options.executeTool({
+                  name: toolUse.name,
+                  toolUseId: toolUse.id,
+                  input: toolUse.input,
+                  traceId: context.traceId,
+                })
+              : {
+                  success: false,
+                  error: {
+                    code: 'TOOL_NOT_IMPLEMENTED',
+                    message: `Tool '${toolUse.name}' is not available yet`,
+                    retryable: false,
+                  },
+                };
+
+            // End tool span with output and duration
+            toolSpan?.end({
+              output: result,
+              durationMs: Date.now() - startMs,
+            });
 
-      if (iteration === MAX_TOOL_LOOPS - 1) {
-        maxToolLoopsReached = true;
+            return {
+              type: 'tool_result',
+              tool_use_id: toolUse.id,
+              content:
+                typeof result === 'string' ? result : JSON.stringify(result),
+            };
+          })
+        );
+
+        attemptMessages.push({
+          role: 'user',
+          content: toolResults as unknown as Anthropic.ContentBlockParam[],
+        });
+
+        await journal?.checkpoint({
+          verificationAttempt: verificationAttempts,
+          iteration: iteration + 1,
+          messages: attemptMessages,
+          toolCount,
+        });
+
+        if (routingPolicy && iteration + 1 === routingPolicy.escalateAfterToolLoops) {
+          escalate('tool_loops');
+        }
+
+        if (
+          tokenBudget !== undefined &&
+          !finalizeForBudget &&
+          tokensUsed() >= tokenBudget * TOKEN_BUDGET_FINALIZE_RATIO
+        ) {
+          finalizeForBudget = true;
+          logger.info({
+            event: 'agent.loop.token_budget_finalize',
+            userId: context.userId,
+            channelId: context.channelId,
+            tokenBudget,
+            tokensUsed: tokensUsed(),
+            iteration,
+            traceId: context.traceId,
+          });
+        }
       }
 
-      if (toolUsesThisCall.length === 0) {
+      if (maxToolLoopsReached) {
         logger.warn({
-          event: 'agent.loop.tool_use_missing_blocks',
+          event: 'agent.loop.max_tool_loops_reached',
           userId: context.userId,
           channelId: context.channelId,
+          maxToolLoops: MAX_TOOL_LOOPS,
+          toolCount,
           traceId: context.traceId,
         });
-        break;
       }
 
-      toolCount += toolUsesThisCall.length;
-      void options.setStatus?.({ phase: 'tool', toolName: toolUsesThisCall[0]?.name ?? null });
-
-      // Append assistant message containing tool_use blocks.
-      attemptMessages.push({
-        role: 'assistant',
-        content: toolUsesThisCall.map((t) => ({
-          type: 'tool_use',
-          id: t.id,
-          name: t.name,
-          input: t.input,
-        })),
+      actSpan?.end({
+        output: {
+          responseLength: attemptResponse.length,
+          toolCount,
+          inputTokens: totalInputTokens,
+          outputTokens: totalOutputTokens,
+          cacheCreationInputTokens: totalCacheCreationTokens,
+          cacheReadInputTokens: totalCacheReadTokens,
+          stopReason: lastStopReason,
+          maxToolLoopsReached,
+          verificationAttempt: verificationAttempts,
+        },
       });
 
-      const toolResults = await Promise.all(
-        toolUsesThisCall.map(async (toolUse) => {
-          // Create a span for this tool call (full input/output visibility)
-          const toolSpan = createAgentSpan(trace, `tool.${toolUse.name}`, {
-            toolName: toolUse.name,
-            input: toolUse.input,
-          });
-
-          const startMs = Date.now();
-          const result = options.executeTool
-            ? await options.executeTool({
-                name: toolUse.name,
-                toolUseId: toolUse.id,
-                input: toolUse.input,
-                traceId: context.traceId,
-              })
-            : {
-                success: false,
-                error: {
-                  code: 'TOOL_NOT_IMPLEMENTED',
-                  message: `Tool '${toolUse.name}' is not available yet`,
-                  retryable: false,
-                },
-              };
+      // Story 2.3: Verify the buffered response
+      const verifySpan = createAgentSpan(trace, 'agent.verify', {
+        responseLength: attemptResponse.length,
+        attempt: verificationAttempts,
+      });
 
-          // End tool span with output and duration
-          toolSpan?.end({
-            output: result,
-            durationMs: Date.now() - startMs,
-          });
+      void options.setStatus?.({ phase: 'verify' });
 
-          return {
-            type: 'tool_result',
-            tool_use_id: toolUse.id,
-            content:
-              typeof result === 'string' ? result : JSON.stringify(result),
-          };
-        })
-      );
+      // Registry rules: built-ins + legacy verify() + config-defined rules (incl. LLM judge)
+      verification = await verifyResponse(attemptResponse, {
+        ...verificationContext,
+        attempt: verificationAttempts,
+      });
 
-      attemptMessages.push({
-        role: 'user',
-        content: toolResults as unknown as Anthropic.ContentBlockParam[],
+      verifySpan?.end({
+        output: {
+          passed: verification.passed,
+          issuesCount: verification.issues.length,
+          attempt: verificationAttempts,
+          issueCodes: verification.issues.map((i) => i.code),
+        },
       });
-    }
 
-    if (maxToolLoopsReached) {
-      logger.warn({
-        event: 'agent.loop.max_tool_loops_reached',
+      // Story 2.3 AC#5: Emit Langfuse event for verification tracking (dashboards)
+      const langfuseClient = getLangfuse();
+      if (langfuseClient?.event) {
+        langfuseClient.event({
+          name: 'verification_result',
+          metadata: {
+            traceId: context.traceId,
+            attempt: verificationAttempts,
+            passed: verification.passed,
+            issueCodes: verification.issues.map((i) => i.code),
+            responseLength: attemptResponse.length,
+            userMessageLength: userMessage.length,
+          },
+        });
+      }
+
+      logger.info({
+        event: 'agent.verify.attempt',
         userId: context.userId,
         channelId: context.channelId,
-        maxToolLoops: MAX_TOOL_LOOPS,
-        toolCount,
+        attempt: verificationAttempts,
+        passed: verification.passed,
+        issueCodes: verification.issues.map((i) => i.code),
+        responseLength: attemptResponse.length,
         traceId: context.traceId,
       });
-    }
-
-    actSpan?.end({
-      output: {
-        responseLength: attemptResponse.length,
-        toolCount,
-        inputTokens: totalInputTokens,
-        outputTokens: totalOutputTokens,
-        stopReason: lastStopReason,
-        maxToolLoopsReached,
-        verificationAttempt: verificationAttempts,
-      },
-    });
 
-    // Story 2.3: Verify the buffered response
-    const verifySpan = createAgentSpan(trace, 'agent.verify', {
-      responseLength: attemptResponse.length,
-      attempt: verificationAttempts,
-    });
+      // Store the response for potential retry feedback
+      verifiedResponse = attemptResponse;
 
-    void options.setStatus?.({ phase: 'verify' });
-
-    // Use enhanced verification (Story 2.3)
-    verification = verifyResponse(attemptResponse, verificationContext);
-    // Also run legacy verify for backwards compatibility
-    const legacyVerification = verify(attemptResponse);
-    // Merge issues if legacy finds additional problems
-    if (!legacyVerification.passed) {
-      verification = {
-        passed: verification.passed && legacyVerification.passed,
-        issues: [
-          ...verification.issues,
-          ...legacyVerification.issues.map((msg) => ({
-            code: 'LEGACY',
-            message: msg,
-            severity: 'error' as const,
-          })),
-        ],
-        feedback:
-          verification.feedback +
-          (legacyVerification.feedback !== 'OK'
-            ? '\n' + legacyVerification.feedback
-            : ''),
-      };
-    }
+      // If verification passed, break out of retry loop
+      if (verification.passed) {
+        break;
+      }
 
-    verifySpan?.end({
-      output: {
-        passed: verification.passed,
-        issuesCount: verification.issues.length,
-        attempt: verificationAttempts,
-        issueCodes: verification.issues.map((i) => i.code),
-      },
-    });
+      // Retries resend the full context; don't start one once the budget is spent.
+      if (tokenBudget !== undefined && tokensUsed() >= tokenBudget) {
+        tokenBudgetExhausted = true;
+        break;
+      }
 
-    // Story 2.3 AC#5: Emit Langfuse event for verification tracking (dashboards)
-    const langfuseClient = getLangfuse();
-    if (langfuseClient?.event) {
-      langfuseClient.event({
-        name: 'verification_result',
-        metadata: {
-          traceId: context.traceId,
+      // Log retry if not last attempt
+      if (verificationAttempts < MAX_VERIFICATION_ATTEMPTS) {
+        logger.info({
+          event: 'agent.verify.retry',
+          userId: context.userId,
+          channelId: context.channelId,
           attempt: verificationAttempts,
-          passed: verification.passed,
-          issueCodes: verification.issues.map((i) => i.code),
-          responseLength: attemptResponse.length,
-          userMessageLength: userMessage.length,
-        },
-      });
+          nextAttempt: verificationAttempts + 1,
+          feedback: verification.feedback.slice(0, 200),
+          traceId: context.traceId,
+        });
+        if (routingPolicy?.escalateOnVerificationFailure) {
+          escalate('verification_failed');
+        }
+        verificationAttempts++;
+      } else {
+        // Don't increment on last attempt - we're done
+        break;
+      }
     }
 
-    logger.info({
-      event: 'agent.verify.attempt',
-      userId: context.userId,
-      channelId: context.channelId,
-      attempt: verificationAttempts,
-      passed: verification.passed,
-      issueCodes: verification.issues.map((i) => i.code),
-      responseLength: attemptResponse.length,
-      traceId: context.traceId,
-    });
-
-    // Store the response for potential retry feedback
-    verifiedResponse = attemptResponse;
-
-    // If verification passed, break out of retry loop
-    if (verification.passed) {
-      break;
+    // Story 2.3: Deliver verified content OR graceful failure (AC#2, AC#4)
+    gracefulFailure = !verification.passed;
+    const finalResponse = verification.passed
+      ? verifiedResponse
+      : createGracefulFailureResponse(verificationAttempts, verification.issues);
+
+    if (responseMode === 'passthrough') {
+      // The first attempt was already streamed; replace it if it was not the one that passed.
+      if (verificationAttempts > 1 || gracefulFailure) {
+        responseReplaced = true;
+        await options.replaceResponse?.(finalResponse);
+        logger.info({
+          event: 'agent.response.replaced',
+          userId: context.userId,
+          channelId: context.channelId,
+          attempts: verificationAttempts,
+          gracefulFailure,
+          traceId: context.traceId,
+        });
+      }
+    } else {
+      // Yield the final response to the caller (chunked for Slack streaming)
+      const chunks = chunkVerifiedOutput(finalResponse);
+      const pacingMs =
+        chunks.length <= 1 ? 0 : Math.min(300, Math.ceil(300 / (chunks.length - 1)));
+      for (let idx = 0; idx < chunks.length; idx++) {
+        yield chunks[idx] ?? '';
+        if (pacingMs > 0 && idx < chunks.length - 1) {
+          await new Promise<void>((resolve) => setTimeout(resolve, pacingMs));
+        }
+      }
     }
 
-    // Log retry if not last attempt
-    if (verificationAttempts < MAX_VERIFICATION_ATTEMPTS) {
-      logger.info({
-        event: 'agent.verify.retry',
+    if (gracefulFailure) {
+      logger.warn({
+        event: 'agent.verify.exhausted',
         userId: context.userId,
         channelId: context.channelId,
-        attempt: verificationAttempts,
-        nextAttempt: verificationAttempts + 1,
-        feedback: verification.feedback.slice(0, 200),
+        attempts: verificationAttempts,
+        finalIssueCodes: verification.issues.map((i) => i.code),
         traceId: context.traceId,
       });
-      verificationAttempts++;
-    } else {
-      // Don't increment on last attempt - we're done
-      break;
-    }
-  }
 
-  // Story 2.3: Yield verified content OR graceful failure (AC#2, AC#4)
-  if (verification.passed) {
-    // Yield the verified response to the caller (chunked for Slack streaming)
-    const chunks = chunkVerifiedOutput(verifiedResponse);
-    const pacingMs =
-      chunks.length <= 1 ? 0 : Math.min(300, Math.ceil(300 / (chunks.length - 1)));
-    for (let idx = 0; idx < chunks.length; idx++) {
-      yield chunks[idx] ?? '';
-      if (pacingMs > 0 && idx < chunks.length - 1) {
-        await new Promise<void>((resolve) => setTimeout(resolve, pacingMs));
-      }
-    }
-  } else {
-    // All attempts failed - yield graceful failure response
-    gracefulFailure = true;
-    const failureResponse = createGracefulFailureResponse(
-      verificationAttempts,
-      verification.issues
-    );
-    const chunks = chunkVerifiedOutput(failureResponse);
-    const pacingMs =
-      chunks.length <= 1 ? 0 : Math.min(300, Math.ceil(300 / (chunks.length - 1)));
-    for (let idx = 0; idx < chunks.length; idx++) {
-      yield chunks[idx] ?? '';
-      if (pacingMs > 0 && idx < chunks.length - 1) {
-        await new Promise<void>((resolve) => setTimeout(resolve, pacingMs));
+      // Story 2.3 AC#5: Emit Langfuse event for verification exhausted (dashboards)
+      const exhaustedClient = getLangfuse();
+      if (exhaustedClient?.event) {
+        exhaustedClient.event({
+          name: 'verification_exhausted',
+          metadata: {
+            traceId: context.traceId,
+            maxAttempts: MAX_VERIFICATION_ATTEMPTS,
+            finalIssueCodes: verification.issues.map((i) => i.code),
+          },
+        });
       }
     }
 
-    logger.warn({
-      event: 'agent.verify.exhausted',
+    const durationMs = Date.now() - startTime;
+    const nfr1Met = durationMs < 3000;
+
+    logger.info({
+      event: 'agent.loop.complete',
       userId: context.userId,
       channelId: context.channelId,
-      attempts: verificationAttempts,
-      finalIssueCodes: verification.issues.map((i) => i.code),
+      durationMs,
+      inputTokens: totalInputTokens,
+      outputTokens: totalOutputTokens,
+      cacheCreationInputTokens: totalCacheCreationTokens,
+      cacheReadInputTokens: totalCacheReadTokens,
+      costUsd: cost.total,
+      tokenBudget,
+      tokenBudgetExhausted,
+      model: lastModel,
+      modelEscalations: modelRouting?.escalations.length,
+      stopReason: lastStopReason,
+      toolCount,
+      verificationPassed: verification.passed,
+      verificationAttempts,
+      gracefulFailure,
+      responseMode,
+      responseReplaced,
       traceId: context.traceId,
     });
 
-    // Story 2.3 AC#5: Emit Langfuse event for verification exhausted (dashboards)
-    const exhaustedClient = getLangfuse();
-    if (exhaustedClient?.event) {
-      exhaustedClient.event({
-        name: 'verification_exhausted',
-        metadata: {
-          traceId: context.traceId,
-          maxAttempts: MAX_VERIFICATION_ATTEMPTS,
-          finalIssueCodes: verification.issues.map((i) => i.code),
-        },
-      });
-    }
-  }
-
-  const durationMs = Date.now() - startTime;
-  const nfr1Met = durationMs < 3000;
+    await journal?.complete();
 
-  logger.info({
-    event: 'agent.loop.complete',
-    userId: context.userId,
-    channelId: context.channelId,
-    durationMs,
-    inputTokens: totalInputTokens,
-    outputTokens: totalOutputTokens,
-    model: lastModel,
-    stopReason: lastStopReason,
-    toolCount,
-    verificationPassed: verification.passed,
-    verificationAttempts,
-    gracefulFailure,
-    traceId: context.traceId,
-  });
+    void recordRunCost({
+      traceId: context.traceId,
+      userId: context.userId,
+      channelId: context.channelId,
+      usage: {
+        inputTokens: totalInputTokens,
+        outputTokens: totalOutputTokens,
+        cacheCreationInputTokens: totalCacheCreationTokens,
+        cacheReadInputTokens: totalCacheReadTokens,
+      },
+      costUsd: cost.total,
+      byModel: costByModel,
+    });
 
-  void options.setStatus?.({ phase: 'final' });
-  return {
-    inputTokens: totalInputTokens,
-    outputTokens: totalOutputTokens,
-    durationMs,
-    nfr1Met,
-    sources,
-    verification,
-    toolCount,
-    verificationAttempts,
-    gracefulFailure,
-  };
+    void options.setStatus?.({ phase: 'final' });
+    return {
+      inputTokens: totalInputTokens,
+      outputTokens: totalOutputTokens,
+      durationMs,
+      nfr1Met,
+      sources,
+      verification,
+      toolCount,
+      verificationAttempts,
+      gracefulFailure,
+      responseMode,
+      responseReplaced,
+      cacheCreationInputTokens: totalCacheCreationTokens,
+      cacheReadInputTokens: totalCacheReadTokens,
+      cost,
+      tokenBudget,
+      tokenBudgetExhausted,
+      model: lastModel ?? model,
+      modelRouting,
+      reasoningSummary,
+    };
+  } finally {
+    // Stop the heartbeat on every exit (errors, aborts, abandoned generators)
+    journal?.stop();
+  }
 }
-
-
@@ -0,0 +1,140 @@
+/**
+ * Model Routing Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({})),
+}));
+
+import {
+  DEFAULT_MODEL_ROUTING,
+  classifyRequest,
+  escalateModel,
+  getModelRoutingPolicy,
+  getModelTier,
+  routeModel,
+} from './model-routing.js';
+import { loadOrionConfig } from '../config/orion-config.js';
+import { ANTHROPIC_MODELS } from '../config/models.js';
+
+function classify(userMessage: string, overrides: { history?: number; tools?: number } = {}) {
+  return classifyRequest({
+    userMessage,
+    threadHistoryLength: overrides.history ?? 0,
+    toolsAvailable: overrides.tools ?? 3,
+  });
+}
+
+describe('agent/model-routing', () => {
+  describe('getModelRoutingPolicy', () => {
+    it('is off without a model_routing section', () => {
+      expect(getModelRoutingPolicy()).toBeNull();
+    });
+
+    it('is off when disabled', () => {
+      vi.mocked(loadOrionConfig).mockReturnValueOnce({ model_routing: { enabled: false } });
+      expect(getModelRoutingPolicy()).toBeNull();
+    });
+
+    it('applies defaults to a partial section', () => {
+      vi.mocked(loadOrionConfig).mockReturnValueOnce({
+        model_routing: {
+          models: { long_reasoning: ANTHROPIC_MODELS.SONNET_4 },
+          escalate_after_tool_loops: 0,
+        },
+      });
+
+      expect(getModelRoutingPolicy()).toEqual({
+        ...DEFAULT_MODEL_ROUTING,
+        models: { ...DEFAULT_MODEL_ROUTING.models, long_reasoning: ANTHROPIC_MODELS.SONNET_4 },
+        escalateAfterToolLoops: 0,
+      });
+    });
+  });
+
+  describe('classifyRequest', () => {
+    it('treats short questions without signals as simple', () => {
+      expect(classify('When is standup?')).toEqual({ complexity: 'simple', signals: [] });
+    });
+
+    it('treats requests that need tools as tool-heavy', () => {
+      expect(classify('Find the Jira ticket for the login bug')).toEqual({
+        complexity: 'tool_heavy',
+        signals: ['tool_keywords'],
+      });
+    });
+
+    it('ignores tool keywords when no tools are available', () => {
+      expect(classify('Find the Jira ticket for the login bug', { tools: 0 }).complexity).toBe(
+        'simple'
+      );
+    });
+
+    it('treats long threads as more than simple', () => {
+      expect(classify('And then?', { history: 30 })).toEqual({
+        complexity: 'tool_heavy',
+        signals: ['long_thread'],
+      });
+    });
+
+    it('treats long or analytical requests as long reasoning', () => {
+      const analysis = `Compare the two caching designs below and recommend one. ${'Details. '.repeat(40)}`;
+      expect(classify(analysis).complexity).toBe('long_reasoning');
+      expect(classify('word '.repeat(400)).signals).toContain('long_message');
+    });
+
+    it('keeps short questions with a reasoning keyword off the top tier', () => {
+      expect(classify('Can you compare these?').complexity).toBe('tool_heavy');
+    });
+  });
+
+  describe('routeModel', () => {
+    it('starts on the model configured for the class', () => {
+      const decision = routeModel(
+        { userMessage: 'When is standup?', threadHistoryLength: 0, toolsAvailable: 0 },
+        DEFAULT_MODEL_ROUTING
+      );
+      expect(decision.model).toBe(ANTHROPIC_MODELS.HAIKU_3_5);
+    });
+
+    it('starts extended thinking requests on a model that supports it', () => {
+      const decision = routeModel(
+        {
+          userMessage: 'When is standup?',
+          threadHistoryLength: 0,
+          toolsAvailable: 0,
+          extendedThinking: true,
+        },
+        DEFAULT_MODEL_ROUTING
+      );
+      expect(decision.model).toBe(ANTHROPIC_MODELS.SONNET_4);
+      expect(decision.signals).toEqual(['extended_thinking']);
+    });
+  });
+
+  describe('escalateModel', () => {
+    it('moves up one tier at a time', () => {
+      expect(escalateModel(ANTHROPIC_MODELS.HAIKU_3_5, ANTHROPIC_MODELS.OPUS_4)).toBe(
+        ANTHROPIC_MODELS.SONNET_4
+      );
+      expect(escalateModel(ANTHROPIC_MODELS.SONNET_4, ANTHROPIC_MODELS.OPUS_4)).toBe(
+        ANTHROPIC_MODELS.OPUS_4
+      );
+    });
+
+    it('stops at the ceiling', () => {
+      expect(escalateModel(ANTHROPIC_MODELS.OPUS_4, ANTHROPIC_MODELS.OPUS_4)).toBeNull();
+      expect(escalateModel(ANTHROPIC_MODELS.SONNET_4, ANTHROPIC_MODELS.SONNET_4)).toBeNull();
+    });
+
+    it('ranks unlisted snapshots by family and ignores unknown models', () => {
+      expect(getModelTier('claude-sonnet-4-5-20250929')).toBe(2);
+      expect(escalateModel('claude-sonnet-4-5-20250929', ANTHROPIC_MODELS.OPUS_4)).toBe(
+        ANTHROPIC_MODELS.OPUS_4
+      );
+      expect(escalateModel('gpt-4o', ANTHROPIC_MODELS.OPUS_4)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Model routing: cheap-first model selection with escalation.
+ *
+ * Each request is classified (simple Q&A, tool-heavy, long reasoning) and
+ * starts on the model configured for its class — Haiku for simple questions
+ * by default. The agent loop escalates to the next stronger model in the
+ * catalog (MODEL_INFO `tier`) when verification fails or a tool loop runs
+ * long, up to `max_model`.
+ *
+ * Configured under `model_routing` in .orion/config.yaml. Without that section
+ * every request uses `config.anthropicModel`, and agents with a `model` in
+ * their frontmatter are never routed.
+ */
+
+import { loadOrionConfig } from '../config/orion-config.js';
+import {
+  ANTHROPIC_MODELS,
+  MODEL_INFO,
+  supportsExtendedThinking,
+  toCatalogModel,
+  type AnthropicModel,
+} from '../config/models.js';
+
+/**
+ * Request classes, cheapest first.
+ *
+ * - `simple`: short question with no tool or reasoning signals
+ * - `tool_heavy`: likely needs tools (or is too involved to count as simple)
+ * - `long_reasoning`: long request, or analysis/design work
+ */
+export type RequestComplexity = 'simple' | 'tool_heavy' | 'long_reasoning';
+
+/**
+ * Why the loop moved to a stronger model
+ */
+export type EscalationReason = 'verification_failed' | 'tool_loops';
+
+/**
+ * One move to a stronger model
+ */
+export interface ModelEscalation {
+  from: string;
+  to: string;
+  reason: EscalationReason;
+  /** Verification attempt that triggered it */
+  verificationAttempt: number;
+}
+
+/**
+ * Routing outcome for a run (reported on the loop result and the trace)
+ */
+export interface ModelRoutingSummary {
+  complexity: RequestComplexity;
+  signals: string[];
+  initialModel: string;
+  escalations: ModelEscalation[];
+}
+
+/**
+ * Resolved `model_routing` section
+ */
+export interface ModelRoutingPolicy {
+  models: Record<RequestComplexity, string>;
+  maxModel: string;
+  /** 0 = never escalate on tool loops */
+  escalateAfterToolLoops: number;
+  escalateOnVerificationFailure: boolean;
+}
+
+/**
+ * Classification of one request
+ */
+export interface RequestClassification {
+  complexity: RequestComplexity;
+  /** Heuristics that fired (for the trace) */
+  signals: string[];
+}
+
+/**
+ * Starting model for one request
+ */
+export interface ModelRoutingDecision extends RequestClassification {
+  model: string;
+}
+
+export const DEFAULT_MODEL_ROUTING: ModelRoutingPolicy = {
+  models: {
+    simple: ANTHROPIC_MODELS.HAIKU_3_5,
+    tool_heavy: ANTHROPIC_MODELS.SONNET_4,
+    long_reasoning: ANTHROPIC_MODELS.OPUS_4,
+  },
+  maxModel: ANTHROPIC_MODELS.OPUS_4,
+  escalateAfterToolLoops: 4,
+  escalateOnVerificationFailure: true,
+};
+
+/** Longest message still considered simple */
+const SIMPLE_MAX_CHARS = 280;
+
+/** Messages at least this long are treated as long reasoning */
+const LONG_MESSAGE_CHARS = 1500;
+
+/** Thread history length beyond which a request is no longer simple */
+const LONG_THREAD_MESSAGES = 20;
+
+const REASONING_PATTERN =
+  /\b(analy[sz]e|compare|trade-?offs?|design|architect(ure)?|root cause|investigate|strategy|step[- ]by[- ]step|prove|optimi[sz]e|refactor|pros and cons)\b/i;
+
+const TOOL_PATTERN =
+  /\b(search|look up|find|fetch|create|update|open|send|schedule|latest|status of|jira|github|ticket|pull request|deploy(ment)?|calendar|email|https?:\/\/)/i;
+
+/**
+ * Read the `model_routing` section.
+ *
+ * @returns Policy with defaults applied, or null when routing is disabled
+ */
+export function getModelRoutingPolicy(): ModelRoutingPolicy | null {
+  const section = loadOrionConfig().model_routing;
+  if (!section || section.enabled === false) return null;
+
+  const toolLoops = section.escalate_after_tool_loops;
+  return {
+    models: { ...DEFAULT_MODEL_ROUTING.models, ...section.models },
+    maxModel: section.max_model ?? DEFAULT_MODEL_ROUTING.maxModel,
+    escalateAfterToolLoops:
+      typeof toolLoops === 'number' && toolLoops >= 0
+        ? toolLoops
+        : DEFAULT_MODEL_ROUTING.escalateAfterToolLoops,
+    escalateOnVerificationFailure:
+      section.escalate_on_verification_failure ??
+      DEFAULT_MODEL_ROUTING.escalateOnVerificationFailure,
+  };
+}
+
+/**
+ * Classify a request with cheap heuristics (no LLM call).
+ */
+export function classifyRequest(params: {
+  userMessage: string;
+  threadHistoryLength: number;
+  toolsAvailable: number;
+}): RequestClassification {
+  const { userMessage, threadHistoryLength, toolsAvailable } = params;
+  const signals: string[] = [];
+
+  const longMessage = userMessage.length >= LONG_MESSAGE_CHARS;
+  const shortMessage = userMessage.length <= SIMPLE_MAX_CHARS;
+  if (longMessage) signals.push('long_message');
+  if (REASONING_PATTERN.test(userMessage)) signals.push('reasoning_keywords');
+  if (toolsAvailable > 0 && TOOL_PATTERN.test(userMessage)) signals.push('tool_keywords');
+  if (threadHistoryLength > LONG_THREAD_MESSAGES) signals.push('long_thread');
+
+  if (longMessage || (signals.includes('reasoning_keywords') && !shortMessage)) {
+    return { complexity: 'long_reasoning', signals };
+  }
+  if (signals.length > 0 || !shortMessage) {
+    return { complexity: 'tool_heavy', signals };
+  }
+  return { complexity: 'simple', signals };
+}
+
+/**
+ * Pick the starting model for a request.
+ *
+ * Requests with extended thinking start on the cheapest model at or above
+ * their class's model that supports it (signal `extended_thinking`).
+ */
+export function routeModel(
+  params: Parameters<typeof classifyRequest>[0] & { extendedThinking?: boolean },
+  policy: ModelRoutingPolicy
+): ModelRoutingDecision {
+  const classification = classifyRequest(params);
+  const model = policy.models[classification.complexity];
+  if (!params.extendedThinking || supportsExtendedThinking(model)) {
+    return { ...classification, model };
+  }
+
+  let candidate = escalateModel(model, policy.maxModel);
+  while (candidate && !supportsExtendedThinking(candidate)) {
+    candidate = escalateModel(candidate, policy.maxModel);
+  }
+  if (!candidate) return { ...classification, model };
+  return {
+    complexity: classification.complexity,
+    signals: [...classification.signals, 'extended_thinking'],
+    model: candidate,
+  };
+}
+
+/**
+ * Capability tier of a model (MODEL_INFO `tier`), undefined if unrecognized
+ */
+export function getModelTier(model: string): number | undefined {
+  const catalogModel = toCatalogModel(model);
+  return catalogModel ? MODEL_INFO[catalogModel].tier : undefined;
+}
+
+/**
+ * Next stronger catalog model, capped at `maxModel`.
+ *
+ * @returns The model to escalate to, or null when already at the ceiling
+ */
+export function escalateModel(model: string, maxModel: string): AnthropicModel | null {
+  const tier = getModelTier(model);
+  const maxTier = getModelTier(maxModel);
+  if (tier === undefined || maxTier === undefined) return null;
+
+  const candidates = (Object.keys(MODEL_INFO) as AnthropicModel[])
+    .filter((m) => MODEL_INFO[m].tier > tier && MODEL_INFO[m].tier <= maxTier)
+    .sort((a, b) => MODEL_INFO[a].tier - MODEL_INFO[b].tier);
+  return candidates[0] ?? null;
+}
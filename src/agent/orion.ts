@@ -12,13 +12,20 @@
  * @see AC#5 - Response time 1-3 seconds (NFR1)
  */
 
+import type Anthropic from '@anthropic-ai/sdk';
 import { executeAgentLoop } from './loop.js';
+import type { ResponseMode } from './response-mode.js';
+import { removeRun, type RunDelivery, type RunJournalEntry } from './run-journal.js';
 import type { LangfuseTrace } from '../observability/langfuse.js';
 import type { NewLangfuseSpan } from '../observability/tracing.js';
 import type { ContextSource } from './gather.js';
+import type { CostBreakdown } from '../config/models.js';
+import type { RequestToolApproval } from '../tools/approvals.js';
 import { randomUUID } from 'node:crypto';
 import { executeTool as executeToolWithPolicies } from '../tools/executor.js';
 import { executeToolCall } from '../tools/router.js';
+import { parseMcpToolName } from '../tools/registry.js';
+import { getMcpServerConfig } from '../config/mcp-servers.js';
 
 /**
  * Context for agent execution.
@@ -35,6 +42,17 @@ export interface AgentContext {
   traceId?: string;
 }
 
+/**
+ * Files shared with the current message, already converted to content blocks
+ * (see slack/attachments.ts).
+ */
+export interface MessageAttachments {
+  /** Blocks sent ahead of the message text */
+  content: Anthropic.ContentBlockParam[];
+  /** One source per attachment read, for citations */
+  sources: ContextSource[];
+}
+
 /**
  * Options for running the Orion agent.
  */
@@ -47,9 +65,35 @@ export interface AgentOptions {
   trace?: LangfuseTrace | NewLangfuseSpan;
   /** Optional status hook (Story 2.2 FR47) */
   setStatus?: (params: {
-    phase: 'gather' | 'act' | 'tool' | 'verify' | 'final';
+    phase: 'gather' | 'act' | 'thinking' | 'tool' | 'verify' | 'final';
     toolName?: string | null;
+    /** Reasoning summary (phase `thinking`, see thinking.ts) */
+    reasoning?: string;
   }) => void | Promise<void>;
+  /** Model override from the routed agent (default: config.anthropicModel) */
+  model?: string;
+  /** Skip model routing and always use `model` (see AgentLoopOptions) */
+  pinModel?: boolean;
+  /** Tool allowlist from the routed agent (undefined = all tools) */
+  allowedTools?: string[];
+  /** Extended thinking budget from the routed agent or request (undefined = off); see thinking.ts */
+  thinkingBudget?: number;
+  /** Files shared with the message (images, PDFs, text files) */
+  attachments?: MessageAttachments;
+  /** Routed agent name (scopes agent-specific verification rules) */
+  agentName?: string;
+  /** Per-request token budget (default: config.agentTokenBudget); see AgentLoopOptions */
+  tokenBudget?: number;
+  /** Journal the run for crash recovery, delivering to this Slack thread (see run-journal.ts) */
+  journal?: { delivery: RunDelivery };
+  /** Resume an interrupted run from its journal checkpoint */
+  resumeFrom?: RunJournalEntry;
+  /** Ask a human before running tools that require approval (see approval-policy.ts) */
+  requestApproval?: RequestToolApproval;
+  /** Response delivery mode (default 'verified'); see ResponseMode in loop.ts */
+  responseMode?: ResponseMode;
+  /** Replace already-streamed text when a passthrough response fails verification */
+  replaceResponse?: (text: string) => void | Promise<void>;
 }
 
 /**
@@ -71,8 +115,19 @@ export interface AgentResult {
   durationMs: number;
   /** Whether NFR1 (1-3s response time) was met */
   nfr1Met: boolean;
+  /** Tool calls executed during the run */
+  toolCount?: number;
   /** Sources gathered during the gather phase (Story 2.7) */
   sources?: ContextSource[];
+  /** Whether streamed passthrough text was replaced after verification */
+  responseReplaced?: boolean;
+  /** Input tokens written to / read from the prompt cache */
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+  /** Estimated USD cost of the run's LLM calls (see MODEL_PRICING) */
+  cost?: CostBreakdown;
+  /** Model that produced the final response (may differ from the requested one after routing) */
+  model?: string;
 }
 
 /**
@@ -108,6 +163,18 @@ export async function* runOrionAgent(
     systemPrompt: options.systemPrompt,
     trace: options.trace,
     setStatus: options.setStatus,
+    model: options.model,
+    pinModel: options.pinModel,
+    allowedTools: options.allowedTools,
+    thinkingBudget: options.thinkingBudget,
+    attachments: options.attachments,
+    agentName: options.agentName,
+    tokenBudget: options.tokenBudget,
+    journal: options.journal,
+    resumeFrom: options.resumeFrom,
+    requestApproval: options.requestApproval,
+    responseMode: options.responseMode,
+    replaceResponse: options.replaceResponse,
     executeTool: async ({ name, toolUseId, input }) => {
       const args =
         input && typeof input === 'object' && !Array.isArray(input)
@@ -125,12 +192,24 @@ export async function* runOrionAgent(
         });
       }
 
+      // MCP tools use their server's request timeout (mcp_servers.<name>.request_timeout_ms).
+      const mcp = parseMcpToolName(name);
+      const timeoutMs = mcp ? getMcpServerConfig(mcp.serverName)?.requestTimeoutMs : undefined;
+
       const result = await executeToolWithPolicies(
         name,
         toolUseId,
         args,
         executeToolCall,
-        { traceId: effectiveTraceId }
+        {
+          traceId: effectiveTraceId,
+          timeoutMs,
+          context: {
+            userId: options.context.userId,
+            channelId: options.context.channelId,
+            traceId: effectiveTraceId,
+          },
+        }
       );
 
       // The agent loop expects tool_result.content to always be a string.
@@ -141,12 +220,20 @@ export async function* runOrionAgent(
 
   // NOTE: for-await-of does NOT expose the generator's return value.
   // We manually consume to preserve the AgentResult return value contract.
-  while (true) {
-    const next = await loop.next();
-    if (next.done) {
-      return next.value;
+  try {
+    while (true) {
+      const next = await loop.next();
+      if (next.done) {
+        return next.value;
+      }
+      yield next.value;
+    }
+  } catch (error) {
+    // The handler reports thrown errors itself; don't let recovery replay this run.
+    if (options.journal || options.resumeFrom) {
+      await removeRun(effectiveTraceId);
     }
-    yield next.value;
+    throw error;
   }
 }
 
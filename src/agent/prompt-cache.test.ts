@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type Anthropic from '@anthropic-ai/sdk';
+import {
+  buildCachedSystem,
+  readCacheUsage,
+  withMessagesCacheBreakpoint,
+  withToolsCacheBreakpoint,
+} from './prompt-cache.js';
+
+describe('prompt-cache', () => {
+  it('caches the agent prompt and leaves gathered context uncached', () => {
+    expect(buildCachedSystem('You are Orion.', 'Thread: hi')).toEqual([
+      { type: 'text', text: 'You are Orion.', cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: 'Context:\nThread: hi' },
+    ]);
+    expect(buildCachedSystem('You are Orion.', '')).toHaveLength(1);
+  });
+
+  it('marks only the last tool without mutating the input', () => {
+    const tools = [
+      { name: 'a', input_schema: { type: 'object' } },
+      { name: 'b', input_schema: { type: 'object' } },
+    ] as Anthropic.Tool[];
+
+    const cached = withToolsCacheBreakpoint(tools);
+
+    expect(cached[0]).not.toHaveProperty('cache_control');
+    expect(cached[1].cache_control).toEqual({ type: 'ephemeral' });
+    expect(tools[1]).not.toHaveProperty('cache_control');
+    expect(withToolsCacheBreakpoint([])).toEqual([]);
+  });
+
+  it('marks the last block of the last message, converting string content', () => {
+    const messages: Anthropic.MessageParam[] = [
+      { role: 'user', content: 'first' },
+      { role: 'assistant', content: 'reply' },
+      { role: 'user', content: 'latest' },
+    ];
+
+    const cached = withMessagesCacheBreakpoint(messages);
+
+    expect(cached[0]).toBe(messages[0]);
+    expect(cached[2].content).toEqual([
+      { type: 'text', text: 'latest', cache_control: { type: 'ephemeral' } },
+    ]);
+    expect(messages[2].content).toBe('latest');
+  });
+
+  it('reads cache usage with zero defaults', () => {
+    expect(readCacheUsage({ cache_read_input_tokens: 5, cache_creation_input_tokens: null })).toEqual({
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 5,
+    });
+    expect(readCacheUsage(undefined)).toEqual({ cacheCreationInputTokens: 0, cacheReadInputTokens: 0 });
+  });
+});
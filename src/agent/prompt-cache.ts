@@ -0,0 +1,83 @@
+/**
+ * Anthropic prompt caching helpers for the agent loop.
+ *
+ * Cache prefixes are ordered tools → system → messages, so the loop places up to
+ * three `cache_control` breakpoints:
+ * 1. Last tool definition (tool schemas rarely change between calls)
+ * 2. Agent system prompt (stable per agent; gathered context follows it uncached)
+ * 3. Last block of the message history (the growing prefix reused by the next
+ *    tool-loop iteration and by verification retries)
+ *
+ * Helpers return copies; callers keep their un-annotated message arrays.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+
+const EPHEMERAL = { type: 'ephemeral' } as const;
+
+/** Cache token counts reported by the Messages API usage block */
+export interface CacheUsage {
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+/**
+ * Build the system prompt as text blocks, caching the agent prompt and leaving
+ * the per-request gathered context after the breakpoint.
+ */
+export function buildCachedSystem(
+  systemPrompt: string,
+  contextText: string
+): Anthropic.TextBlockParam[] {
+  const blocks: Anthropic.TextBlockParam[] = [
+    { type: 'text', text: systemPrompt, cache_control: EPHEMERAL },
+  ];
+  if (contextText.length > 0) {
+    blocks.push({ type: 'text', text: `Context:\n${contextText}` });
+  }
+  return blocks;
+}
+
+/**
+ * Copy tool definitions with a breakpoint on the last tool.
+ */
+export function withToolsCacheBreakpoint(tools: Anthropic.Tool[]): Anthropic.Tool[] {
+  if (tools.length === 0) return tools;
+  const last = tools[tools.length - 1];
+  return [...tools.slice(0, -1), { ...last, cache_control: EPHEMERAL }];
+}
+
+/**
+ * Copy messages with a breakpoint on the last content block of the last message.
+ */
+export function withMessagesCacheBreakpoint(
+  messages: Anthropic.MessageParam[]
+): Anthropic.MessageParam[] {
+  if (messages.length === 0) return messages;
+  const last = messages[messages.length - 1];
+
+  const content: Anthropic.ContentBlockParam[] =
+    typeof last.content === 'string'
+      ? [{ type: 'text', text: last.content }]
+      : [...last.content];
+  if (content.length === 0) return messages;
+
+  const lastBlock = content[content.length - 1];
+  content[content.length - 1] = { ...lastBlock, cache_control: EPHEMERAL } as Anthropic.ContentBlockParam;
+
+  return [...messages.slice(0, -1), { ...last, content }];
+}
+
+/**
+ * Read cache token counts from a usage object (fields are absent when caching is off).
+ */
+export function readCacheUsage(usage: unknown): CacheUsage {
+  const u = (usage ?? {}) as {
+    cache_creation_input_tokens?: number | null;
+    cache_read_input_tokens?: number | null;
+  };
+  return {
+    cacheCreationInputTokens: u.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: u.cache_read_input_tokens ?? 0,
+  };
+}
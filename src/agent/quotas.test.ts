@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../memory/vercel-kv-storage.js', () => ({
+  loadFromKV: vi.fn(),
+  saveToKV: vi.fn(),
+}));
+
+vi.mock('../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({})),
+}));
+
+import {
+  checkQuota,
+  clearQuotaUsage,
+  countQuotaLedgers,
+  formatQuotaExceededMessage,
+  recordQuotaUsage,
+} from './quotas.js';
+import { loadFromKV, saveToKV } from '../memory/vercel-kv-storage.js';
+import { loadOrionConfig, type QuotasConfig } from '../config/orion-config.js';
+import { logger } from '../utils/logger.js';
+
+const NOW = Date.UTC(2026, 0, 1, 12, 0, 0);
+const subject = { userId: 'U1', channelId: 'C1', teamId: 'T1' };
+
+describe('quotas', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearQuotaUsage();
+    delete process.env.KV_REST_API_URL;
+  });
+
+  afterEach(() => {
+    delete process.env.KV_REST_API_URL;
+  });
+
+  describe('checkQuota', () => {
+    const quotas: QuotasConfig = { user: [{ window_seconds: 3600, requests: 2 }] };
+
+    it('allows everything when no quotas are configured or they are disabled', async () => {
+      expect(await checkQuota(subject)).toEqual({ allowed: true });
+      expect(await checkQuota(subject, { quotas: { ...quotas, enabled: false } })).toEqual({ allowed: true });
+    });
+
+    it('reads limits from .orion/config.yaml by default', async () => {
+      vi.mocked(loadOrionConfig).mockReturnValue({ quotas: { user: [{ window_seconds: 60, requests: 1 }] } });
+
+      expect((await checkQuota(subject, { now: NOW })).allowed).toBe(true);
+      expect((await checkQuota(subject, { now: NOW })).allowed).toBe(false);
+    });
+
+    it('counts requests and blocks once the window limit is reached', async () => {
+      expect((await checkQuota(subject, { quotas, now: NOW })).allowed).toBe(true);
+      expect((await checkQuota(subject, { quotas, now: NOW + 60_000 })).allowed).toBe(true);
+
+      const blocked = await checkQuota(subject, { quotas, now: NOW + 120_000 });
+
+      expect(blocked).toEqual({
+        allowed: false,
+        scope: 'user',
+        metric: 'requests',
+        limit: 2,
+        used: 2,
+        windowSeconds: 3600,
+        // The first request leaves the window one hour after its minute bucket ends.
+        retryAfterMs: 3600_000 + 60_000 - 120_000,
+      });
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'quota_exceeded', scope: 'user', id: 'U1' })
+      );
+    });
+
+    it('slides the window so old usage stops counting', async () => {
+      await checkQuota(subject, { quotas, now: NOW });
+      await checkQuota(subject, { quotas, now: NOW });
+
+      expect((await checkQuota(subject, { quotas, now: NOW + 3600_000 })).allowed).toBe(false);
+      expect((await checkQuota(subject, { quotas, now: NOW + 3660_000 })).allowed).toBe(true);
+    });
+
+    it('does not count blocked requests', async () => {
+      await checkQuota(subject, { quotas, now: NOW });
+      await checkQuota(subject, { quotas, now: NOW });
+      await checkQuota(subject, { quotas, now: NOW });
+
+      const blocked = await checkQuota(subject, { quotas, now: NOW });
+      expect(blocked.allowed === false && blocked.used).toBe(2);
+    });
+
+    it('keys usage separately per user, channel and team', async () => {
+      const shared: QuotasConfig = {
+        user: [{ window_seconds: 3600, requests: 5 }],
+        channel: [{ window_seconds: 3600, requests: 2 }],
+      };
+
+      await checkQuota({ userId: 'U1', channelId: 'C1' }, { quotas: shared, now: NOW });
+      await checkQuota({ userId: 'U2', channelId: 'C1' }, { quotas: shared, now: NOW });
+
+      const blocked = await checkQuota({ userId: 'U3', channelId: 'C1' }, { quotas: shared, now: NOW });
+      expect(blocked.allowed === false && blocked.scope).toBe('channel');
+      expect((await checkQuota({ userId: 'U3', channelId: 'C2' }, { quotas: shared, now: NOW })).allowed).toBe(true);
+    });
+
+    it('never limits exempt users', async () => {
+      const exempt = { ...quotas, exempt_users: ['U1'] };
+      for (let i = 0; i < 5; i++) {
+        expect((await checkQuota(subject, { quotas: exempt, now: NOW })).allowed).toBe(true);
+      }
+    });
+
+    it('blocks on recorded token and tool usage', async () => {
+      const tokenQuotas: QuotasConfig = {
+        team: [{ window_seconds: 86400, output_tokens: 1000, tool_calls: 10 }],
+      };
+
+      expect((await checkQuota(subject, { quotas: tokenQuotas, now: NOW })).allowed).toBe(true);
+      await recordQuotaUsage(
+        subject,
+        { inputTokens: 5000, outputTokens: 1200, toolCalls: 3 },
+        { quotas: tokenQuotas, now: NOW }
+      );
+
+      const blocked = await checkQuota(subject, { quotas: tokenQuotas, now: NOW + 60_000 });
+      expect(blocked).toEqual(
+        expect.objectContaining({ allowed: false, scope: 'team', metric: 'output_tokens', used: 1200 })
+      );
+    });
+
+    it('drops in-memory ledgers once their usage leaves the window', async () => {
+      await checkQuota({ userId: 'U1' }, { quotas, now: NOW });
+      await checkQuota({ userId: 'U2' }, { quotas, now: NOW });
+      expect(countQuotaLedgers()).toBe(2);
+
+      await checkQuota({ userId: 'U3' }, { quotas, now: NOW + 3660_000 });
+
+      expect(countQuotaLedgers()).toBe(1);
+    });
+
+    it('stores usage in Vercel KV when configured', async () => {
+      process.env.KV_REST_API_URL = 'https://kv.example.com';
+      vi.mocked(loadFromKV).mockResolvedValue({
+        data: { buckets: [{ start: NOW, requests: 1, input_tokens: 0, output_tokens: 0, tool_calls: 0 }] },
+        createdAt: '',
+        updatedAt: '',
+      });
+
+      const decision = await checkQuota(subject, { quotas, now: NOW });
+
+      expect(decision.allowed).toBe(true);
+      expect(loadFromKV).toHaveBeenCalledWith('quota', 'user:U1');
+      expect(saveToKV).toHaveBeenCalledWith('quota', 'user:U1', {
+        buckets: [{ start: NOW, requests: 2, input_tokens: 0, output_tokens: 0, tool_calls: 0 }],
+      });
+    });
+
+    it('fails open when storage is unavailable', async () => {
+      process.env.KV_REST_API_URL = 'https://kv.example.com';
+      vi.mocked(saveToKV).mockRejectedValue(new Error('KV down'));
+      vi.mocked(loadFromKV).mockResolvedValue(null);
+
+      expect(await checkQuota(subject, { quotas, now: NOW })).toEqual({ allowed: true });
+      expect(logger.warn).toHaveBeenCalledWith(expect.objectContaining({ event: 'quota_check_failed' }));
+    });
+  });
+
+  describe('formatQuotaExceededMessage', () => {
+    it('describes the limit and when to retry', () => {
+      expect(
+        formatQuotaExceededMessage({
+          scope: 'user',
+          metric: 'requests',
+          limit: 30,
+          used: 30,
+          windowSeconds: 3600,
+          retryAfterMs: 11.5 * 60_000,
+        })
+      ).toBe("You've reached the limit of 30 requests per hour. Please try again in about 12 minutes.");
+
+      expect(
+        formatQuotaExceededMessage({
+          scope: 'channel',
+          metric: 'input_tokens',
+          limit: 5_000_000,
+          used: 5_100_000,
+          windowSeconds: 86400,
+          retryAfterMs: 3 * 3600_000,
+        })
+      ).toBe(
+        'This channel has reached the limit of 5,000,000 input tokens per day. Please try again in about 3 hours.'
+      );
+    });
+  });
+});
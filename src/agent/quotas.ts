@@ -0,0 +1,380 @@
+/**
+ * Usage Quotas
+ *
+ * Per-user, per-channel and per-team limits on agent usage (`quotas` in
+ * .orion/config.yaml). Each scope can declare several sliding-window limits
+ * over requests, input/output tokens and tool calls.
+ *
+ * Handlers call `checkQuota()` before `runOrionAgent` (which also counts the
+ * request) and `recordQuotaUsage()` with the run's token and tool totals.
+ *
+ * ## Storage Backend
+ * - **Vercel/KV configured**: Vercel KV (`orion:quota:{scope}:{id}`)
+ * - **Otherwise**: in-memory, per process
+ *
+ * Usage is kept in one-minute buckets, so windows slide with minute
+ * granularity. Updates are read-modify-write and best-effort: concurrent runs
+ * may under-count slightly, and storage failures fail open (the run proceeds).
+ */
+
+import { loadOrionConfig, type QuotaLimitConfig, type QuotasConfig } from '../config/orion-config.js';
+import { loadFromKV, saveToKV } from '../memory/vercel-kv-storage.js';
+import { logger } from '../utils/logger.js';
+
+/** Bucket size for sliding-window accounting */
+export const QUOTA_BUCKET_MS = 60_000;
+
+export type QuotaScope = 'user' | 'channel' | 'team';
+
+export type QuotaMetric = 'requests' | 'input_tokens' | 'output_tokens' | 'tool_calls';
+
+const QUOTA_SCOPES: QuotaScope[] = ['user', 'channel', 'team'];
+const QUOTA_METRICS: QuotaMetric[] = ['requests', 'input_tokens', 'output_tokens', 'tool_calls'];
+
+/**
+ * Who a run is accounted to.
+ */
+export interface QuotaSubject {
+  userId?: string;
+  channelId?: string;
+  teamId?: string;
+}
+
+/**
+ * Usage added after a run completes.
+ */
+export interface QuotaUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  toolCalls?: number;
+}
+
+/**
+ * Usage within one bucket.
+ */
+interface QuotaBucket {
+  /** Bucket start (epoch ms, multiple of QUOTA_BUCKET_MS) */
+  start: number;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  tool_calls: number;
+}
+
+/**
+ * Stored usage for one scope/id.
+ */
+interface QuotaLedger {
+  buckets: QuotaBucket[];
+}
+
+/**
+ * Limit that blocked a request.
+ */
+export interface QuotaViolation {
+  scope: QuotaScope;
+  metric: QuotaMetric;
+  limit: number;
+  used: number;
+  windowSeconds: number;
+  /** When enough usage leaves the window for the next request to pass */
+  retryAfterMs: number;
+}
+
+export type QuotaDecision = { allowed: true } | ({ allowed: false } & QuotaViolation);
+
+/**
+ * In-memory ledger, kept until its newest bucket leaves the longest window.
+ */
+interface MemoryLedgerEntry {
+  ledger: QuotaLedger;
+  expiresAt: number;
+}
+
+const memoryLedgers = new Map<string, MemoryLedgerEntry>();
+
+/**
+ * Check if running with Vercel KV (same switch as the memory modules)
+ */
+function isVercelKVAvailable(): boolean {
+  return Boolean(process.env.KV_REST_API_URL);
+}
+
+function ledgerKey(scope: QuotaScope, id: string): string {
+  return `${scope}:${id}`;
+}
+
+async function loadLedger(key: string): Promise<QuotaLedger> {
+  if (isVercelKVAvailable()) {
+    const stored = await loadFromKV<QuotaLedger>('quota', key);
+    return stored?.data ?? { buckets: [] };
+  }
+  return memoryLedgers.get(key)?.ledger ?? { buckets: [] };
+}
+
+async function saveLedger(key: string, ledger: QuotaLedger, maxWindowMs: number, now: number): Promise<void> {
+  if (isVercelKVAvailable()) {
+    await saveToKV('quota', key, ledger);
+    return;
+  }
+
+  // Drop ledgers whose usage has aged out, so ids that stop sending requests don't accumulate.
+  for (const [other, entry] of memoryLedgers) {
+    if (entry.expiresAt <= now) memoryLedgers.delete(other);
+  }
+  if (ledger.buckets.length === 0) {
+    memoryLedgers.delete(key);
+    return;
+  }
+  const newest = Math.max(...ledger.buckets.map((b) => b.start));
+  memoryLedgers.set(key, { ledger, expiresAt: newest + QUOTA_BUCKET_MS + maxWindowMs });
+}
+
+function subjectId(subject: QuotaSubject, scope: QuotaScope): string | undefined {
+  if (scope === 'user') return subject.userId;
+  if (scope === 'channel') return subject.channelId;
+  return subject.teamId;
+}
+
+function limitsFor(quotas: QuotasConfig, scope: QuotaScope): QuotaLimitConfig[] {
+  return (quotas[scope] ?? []).filter((l) => Number.isFinite(l?.window_seconds) && l.window_seconds > 0);
+}
+
+/**
+ * Scopes (with ids) that have limits for this subject, or [] when quotas don't apply.
+ */
+function activeScopes(
+  subject: QuotaSubject,
+  quotas: QuotasConfig | undefined
+): Array<{ scope: QuotaScope; id: string; limits: QuotaLimitConfig[] }> {
+  if (!quotas || quotas.enabled === false) return [];
+  if (subject.userId && quotas.exempt_users?.includes(subject.userId)) return [];
+
+  return QUOTA_SCOPES.flatMap((scope) => {
+    const id = subjectId(subject, scope);
+    const limits = limitsFor(quotas, scope);
+    return id && limits.length > 0 ? [{ scope, id, limits }] : [];
+  });
+}
+
+/**
+ * Drop buckets older than the longest window.
+ */
+function pruneLedger(ledger: QuotaLedger, maxWindowMs: number, now: number): QuotaLedger {
+  return { buckets: ledger.buckets.filter((b) => b.start + QUOTA_BUCKET_MS > now - maxWindowMs) };
+}
+
+function addToLedger(ledger: QuotaLedger, delta: Partial<Record<QuotaMetric, number>>, now: number): QuotaLedger {
+  const start = Math.floor(now / QUOTA_BUCKET_MS) * QUOTA_BUCKET_MS;
+  const current = ledger.buckets.find((b) => b.start === start) ?? {
+    start,
+    requests: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    tool_calls: 0,
+  };
+  const bucket = { ...current };
+  for (const metric of QUOTA_METRICS) {
+    bucket[metric] += delta[metric] ?? 0;
+  }
+  return { buckets: [...ledger.buckets.filter((b) => b.start !== start), bucket] };
+}
+
+/**
+ * Evaluate one limit against a ledger.
+ *
+ * A limit is reached when usage in the window is at or above it, so the
+ * request being checked would exceed it.
+ *
+ * @returns Violation, or null when under the limit
+ */
+function evaluateLimit(
+  scope: QuotaScope,
+  limit: QuotaLimitConfig,
+  buckets: ReadonlyArray<QuotaBucket>,
+  now: number
+): QuotaViolation | null {
+  const windowMs = limit.window_seconds * 1000;
+  const inWindow = buckets
+    .filter((b) => b.start + QUOTA_BUCKET_MS > now - windowMs)
+    .sort((a, b) => a.start - b.start);
+
+  for (const metric of QUOTA_METRICS) {
+    const max = limit[metric];
+    if (typeof max !== 'number') continue;
+
+    const used = inWindow.reduce((sum, b) => sum + b[metric], 0);
+    if (used < max) continue;
+
+    // Oldest buckets leave the window first; find when usage drops below the limit.
+    let remaining = used;
+    let retryAfterMs = windowMs;
+    for (const bucket of inWindow) {
+      remaining -= bucket[metric];
+      retryAfterMs = Math.max(0, bucket.start + QUOTA_BUCKET_MS + windowMs - now);
+      if (remaining < max) break;
+    }
+
+    return { scope, metric, limit: max, used, windowSeconds: limit.window_seconds, retryAfterMs };
+  }
+
+  return null;
+}
+
+/**
+ * Check a subject's quotas and, if allowed, count the request.
+ *
+ * @param subject - Slack user/channel/team of the run
+ * @param options.quotas - Quota config (default: .orion/config.yaml)
+ * @returns `{ allowed: true }`, or the first limit that was reached
+ */
+export async function checkQuota(
+  subject: QuotaSubject,
+  options: { quotas?: QuotasConfig; traceId?: string; now?: number } = {}
+): Promise<QuotaDecision> {
+  const quotas = 'quotas' in options ? options.quotas : loadOrionConfig().quotas;
+  const scopes = activeScopes(subject, quotas);
+  if (scopes.length === 0) return { allowed: true };
+
+  const now = options.now ?? Date.now();
+
+  try {
+    const ledgers = await Promise.all(
+      scopes.map(async ({ scope, id, limits }) => {
+        const maxWindowMs = Math.max(...limits.map((l) => l.window_seconds * 1000));
+        const ledger = pruneLedger(await loadLedger(ledgerKey(scope, id)), maxWindowMs, now);
+        return { scope, id, limits, maxWindowMs, ledger };
+      })
+    );
+
+    for (const { scope, id, limits, ledger } of ledgers) {
+      for (const limit of limits) {
+        const violation = evaluateLimit(scope, limit, ledger.buckets, now);
+        if (violation) {
+          logger.info({
+            event: 'quota_exceeded',
+            scope,
+            id,
+            metric: violation.metric,
+            limit: violation.limit,
+            used: violation.used,
+            windowSeconds: violation.windowSeconds,
+            retryAfterMs: violation.retryAfterMs,
+            traceId: options.traceId,
+          });
+          return { allowed: false, ...violation };
+        }
+      }
+    }
+
+    await Promise.all(
+      ledgers.map(({ scope, id, maxWindowMs, ledger }) =>
+        saveLedger(ledgerKey(scope, id), addToLedger(ledger, { requests: 1 }, now), maxWindowMs, now)
+      )
+    );
+  } catch (error) {
+    logger.warn({
+      event: 'quota_check_failed',
+      error: error instanceof Error ? error.message : String(error),
+      traceId: options.traceId,
+    });
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Add a completed run's tokens and tool calls to the subject's quotas.
+ *
+ * Best-effort: failures are logged and never thrown.
+ */
+export async function recordQuotaUsage(
+  subject: QuotaSubject,
+  usage: QuotaUsage,
+  options: { quotas?: QuotasConfig; traceId?: string; now?: number } = {}
+): Promise<void> {
+  const quotas = 'quotas' in options ? options.quotas : loadOrionConfig().quotas;
+  const scopes = activeScopes(subject, quotas);
+  if (scopes.length === 0) return;
+
+  const now = options.now ?? Date.now();
+  const delta = {
+    input_tokens: usage.inputTokens ?? 0,
+    output_tokens: usage.outputTokens ?? 0,
+    tool_calls: usage.toolCalls ?? 0,
+  };
+
+  try {
+    await Promise.all(
+      scopes.map(async ({ scope, id, limits }) => {
+        const key = ledgerKey(scope, id);
+        const maxWindowMs = Math.max(...limits.map((l) => l.window_seconds * 1000));
+        const ledger = pruneLedger(await loadLedger(key), maxWindowMs, now);
+        await saveLedger(key, addToLedger(ledger, delta, now), maxWindowMs, now);
+      })
+    );
+  } catch (error) {
+    logger.warn({
+      event: 'quota_record_failed',
+      error: error instanceof Error ? error.message : String(error),
+      traceId: options.traceId,
+    });
+  }
+}
+
+const METRIC_LABELS: Record<QuotaMetric, string> = {
+  requests: 'requests',
+  input_tokens: 'input tokens',
+  output_tokens: 'output tokens',
+  tool_calls: 'tool calls',
+};
+
+const SCOPE_SUBJECTS: Record<QuotaScope, string> = {
+  user: "You've",
+  channel: 'This channel has',
+  team: 'Your workspace has',
+};
+
+function formatWindow(seconds: number): string {
+  if (seconds === 60) return 'minute';
+  if (seconds === 3600) return 'hour';
+  if (seconds === 86400) return 'day';
+  if (seconds % 86400 === 0) return `${seconds / 86400} days`;
+  if (seconds % 3600 === 0) return `${seconds / 3600} hours`;
+  return `${Math.ceil(seconds / 60)} minutes`;
+}
+
+function formatWait(ms: number): string {
+  const minutes = Math.max(1, Math.ceil(ms / 60_000));
+  if (minutes < 60) return minutes === 1 ? 'about a minute' : `about ${minutes} minutes`;
+  const hours = Math.ceil(minutes / 60);
+  return hours === 1 ? 'about an hour' : `about ${hours} hours`;
+}
+
+/**
+ * Friendly Slack message for a blocked request.
+ *
+ * @example
+ * "You've reached the limit of 30 requests per hour. Please try again in about 12 minutes."
+ */
+export function formatQuotaExceededMessage(violation: QuotaViolation): string {
+  return (
+    `${SCOPE_SUBJECTS[violation.scope]} reached the limit of ${violation.limit.toLocaleString('en-US')} ` +
+    `${METRIC_LABELS[violation.metric]} per ${formatWindow(violation.windowSeconds)}. ` +
+    `Please try again in ${formatWait(violation.retryAfterMs)}.`
+  );
+}
+
+/**
+ * Clear in-memory usage (for testing)
+ */
+export function clearQuotaUsage(): void {
+  memoryLedgers.clear();
+}
+
+/**
+ * Number of in-memory ledgers (for testing)
+ */
+export function countQuotaLedgers(): number {
+  return memoryLedgers.size;
+}
@@ -0,0 +1,26 @@
+/**
+ * Response delivery modes for the agent loop.
+ *
+ * Selected per channel (`response_mode` in .orion/config.yaml) or per agent
+ * (`response_mode` frontmatter); see `resolveResponseMode` in router.ts.
+ */
+
+/**
+ * How the loop delivers response text to the caller.
+ *
+ * - `verified` (default): each attempt is buffered; only text that passed verification
+ *   (or the graceful failure message) is yielded.
+ * - `passthrough`: first-attempt text deltas are yielded as they arrive. Verification runs
+ *   on the final text; if it fails, the corrected retry (or graceful failure) is handed to
+ *   `replaceResponse` so the caller can edit the already-posted message in place.
+ */
+export type ResponseMode = 'verified' | 'passthrough';
+
+export const DEFAULT_RESPONSE_MODE: ResponseMode = 'verified';
+
+/**
+ * Type guard for response mode values read from config/frontmatter.
+ */
+export function isResponseMode(value: unknown): value is ResponseMode {
+  return value === 'verified' || value === 'passthrough';
+}
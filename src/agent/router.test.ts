@@ -0,0 +1,207 @@
+/**
+ * Tests for Agent Router
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AgentDefinition } from './loader.js';
+
+const agents: Record<string, AgentDefinition> = {
+  orion: { name: 'orion', description: 'Default', prompt: 'You are Orion.' },
+  'release-manager': {
+    name: 'release-manager',
+    description: 'Releases',
+    prompt: 'You are the release manager.',
+    model: 'claude-opus-4-20250514',
+    pinModel: true,
+    tools: ['search_docs', 'rube__github_*'],
+    keywords: ['release', 'deploy', 'changelog', 'rollback'],
+  },
+  oncall: {
+    name: 'oncall',
+    description: 'Incidents',
+    prompt: 'You are the on-call responder.',
+    keywords: ['incident', 'outage', 'pager', 'rollback'],
+  },
+};
+
+vi.mock('./loader.js', () => ({
+  listAgentNames: vi.fn(async () => Object.keys(agents).sort()),
+  loadAgentDefinition: vi.fn(async (name: string) => {
+    const agent = agents[name];
+    if (!agent) throw new Error(`Failed to load agent: ${name}`);
+    return agent;
+  }),
+}));
+
+vi.mock('../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({})),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { routeAgent, parseExplicitAgent, classifyAgent, resolveResponseMode } from './router.js';
+import { loadOrionConfig } from '../config/orion-config.js';
+import { logger } from '../utils/logger.js';
+
+describe('parseExplicitAgent', () => {
+  it('parses a leading "as <agent>" directive', () => {
+    expect(parseExplicitAgent('as release-manager: what shipped today?')).toEqual({
+      agentName: 'release-manager',
+      rest: 'what shipped today?',
+    });
+  });
+
+  it('is case-insensitive on the agent name', () => {
+    expect(parseExplicitAgent('As OnCall who is paged?')?.agentName).toBe('oncall');
+  });
+
+  it('returns null without a directive', () => {
+    expect(parseExplicitAgent('what is the release status?')).toBeNull();
+  });
+});
+
+describe('classifyAgent', () => {
+  const candidates = [agents['release-manager'], agents.oncall];
+
+  it('picks the agent with the most keyword hits', () => {
+    expect(classifyAgent('Can we deploy the release with a changelog?', candidates)).toBe(
+      'release-manager'
+    );
+  });
+
+  it('returns null below the minimum score', () => {
+    expect(classifyAgent('Should we rollback?', candidates)).toBeNull();
+  });
+
+  it('honours a custom minimum score', () => {
+    expect(classifyAgent('Is there an incident?', candidates, 1)).toBe('oncall');
+  });
+});
+
+describe('routeAgent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(loadOrionConfig).mockReturnValue({});
+  });
+
+  it('routes explicit "as <agent>" requests and strips the directive', async () => {
+    const route = await routeAgent({
+      messageText: 'as release-manager what shipped?',
+      channelId: 'C1',
+    });
+
+    expect(route).toEqual({
+      agentName: 'release-manager',
+      reason: 'explicit',
+      systemPrompt: 'You are the release manager.',
+      model: 'claude-opus-4-20250514',
+      pinModel: true,
+      tools: ['search_docs', 'rube__github_*'],
+      responseMode: 'verified',
+      messageText: 'what shipped?',
+    });
+  });
+
+  it('ignores "as <word>" when no such agent exists', async () => {
+    const route = await routeAgent({ messageText: 'as expected, it works', channelId: 'C1' });
+
+    expect(route.agentName).toBe('orion');
+    expect(route.messageText).toBe('as expected, it works');
+  });
+
+  it('uses the channel mapping from routing config', async () => {
+    vi.mocked(loadOrionConfig).mockReturnValue({
+      routing: { channels: { C0INCIDENTS: 'oncall' } },
+    });
+
+    const route = await routeAgent({ messageText: 'hello', channelId: 'C0INCIDENTS' });
+
+    expect(route.agentName).toBe('oncall');
+    expect(route.reason).toBe('channel');
+  });
+
+  it('prefers explicit syntax over channel mapping', async () => {
+    vi.mocked(loadOrionConfig).mockReturnValue({
+      routing: { channels: { C0INCIDENTS: 'oncall' } },
+    });
+
+    const route = await routeAgent({
+      messageText: 'as release-manager status?',
+      channelId: 'C0INCIDENTS',
+    });
+
+    expect(route.agentName).toBe('release-manager');
+  });
+
+  it('falls back to the classifier, then the default agent', async () => {
+    const classified = await routeAgent({
+      messageText: 'We have an outage, who holds the pager?',
+      channelId: 'C1',
+    });
+    expect(classified.agentName).toBe('oncall');
+    expect(classified.reason).toBe('classifier');
+
+    const fallback = await routeAgent({ messageText: 'hi there', channelId: 'C1' });
+    expect(fallback.agentName).toBe('orion');
+    expect(fallback.reason).toBe('default');
+    expect(fallback.model).toBeUndefined();
+  });
+
+  it('skips the classifier when disabled', async () => {
+    vi.mocked(loadOrionConfig).mockReturnValue({
+      routing: { classifier: { enabled: false } },
+    });
+
+    const route = await routeAgent({ messageText: 'incident outage pager', channelId: 'C1' });
+
+    expect(route.agentName).toBe('orion');
+  });
+
+  it('falls back to the default agent when the mapped agent is missing', async () => {
+    vi.mocked(loadOrionConfig).mockReturnValue({
+      routing: { channels: { C1: 'ghost' } },
+    });
+
+    const route = await routeAgent({ messageText: 'hello', channelId: 'C1', traceId: 't-1' });
+
+    expect(route.agentName).toBe('orion');
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'agent.route.fallback', agentName: 'ghost', traceId: 't-1' })
+    );
+  });
+
+  it('throws when the default agent cannot be loaded', async () => {
+    vi.mocked(loadOrionConfig).mockReturnValue({
+      routing: { default_agent: 'missing' },
+    });
+
+    await expect(routeAgent({ messageText: 'hello', channelId: 'C1' })).rejects.toThrow(
+      'Failed to load agent: missing'
+    );
+  });
+});
+
+describe('resolveResponseMode', () => {
+  it('defaults to verified', () => {
+    expect(resolveResponseMode({}, 'C1')).toBe('verified');
+  });
+
+  it('prefers channel override, then agent frontmatter, then config default', () => {
+    const config = {
+      response_mode: {
+        default: 'passthrough' as const,
+        channels: { C0FAST: 'passthrough' as const, C0SAFE: 'verified' as const },
+      },
+    };
+
+    expect(resolveResponseMode(config, 'C0SAFE', 'passthrough')).toBe('verified');
+    expect(resolveResponseMode(config, 'C0OTHER', 'verified')).toBe('verified');
+    expect(resolveResponseMode(config, 'C0OTHER')).toBe('passthrough');
+  });
+
+  it('ignores invalid values', () => {
+    expect(resolveResponseMode({}, 'C1', 'streaming')).toBe('verified');
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Agent Router
+ *
+ * Picks which `.orion/agents/*.md` persona handles a request, in priority order:
+ * 1. Explicit syntax: `@orion as release-manager <question>` (or `as oncall: ...` in DMs)
+ * 2. Channel mapping: `routing.channels` in .orion/config.yaml
+ * 3. Keyword classifier: agent `keywords` frontmatter scored against the message
+ * 4. Default agent (`routing.default_agent`, falls back to `orion`)
+ *
+ * The resolved route carries the agent's system prompt, model override, tool
+ * allowlist, thinking budget and response mode so handlers can pass them straight
+ * into `runOrionAgent`.
+ */
+
+import { loadAgentDefinition, listAgentNames, type AgentDefinition } from './loader.js';
+import { loadOrionConfig, type OrionConfigFile } from '../config/orion-config.js';
+import { DEFAULT_RESPONSE_MODE, isResponseMode, type ResponseMode } from './response-mode.js';
+import { logger } from '../utils/logger.js';
+
+/** Agent used when routing config does not name one */
+export const DEFAULT_AGENT_NAME = 'orion';
+
+/** Default keyword hits required before the classifier picks a specialist */
+const DEFAULT_CLASSIFIER_MIN_SCORE = 2;
+
+/** Matches a leading `as <agent>` directive, e.g. `as release-manager: ship it` */
+const EXPLICIT_AGENT_PATTERN = /^as\s+([a-z0-9][a-z0-9_-]*)\s*[:,]?\s*/i;
+
+export type AgentRouteReason = 'explicit' | 'channel' | 'classifier' | 'default';
+
+/**
+ * Result of routing a message to an agent.
+ */
+export interface AgentRoute {
+  /** Name of the selected agent (file name without .md) */
+  agentName: string;
+  /** How the agent was selected */
+  reason: AgentRouteReason;
+  /** System prompt from the agent definition */
+  systemPrompt: string;
+  /** Model override from frontmatter (undefined = global default) */
+  model?: string;
+  /** Whether the agent pins `model` (no model routing) */
+  pinModel?: boolean;
+  /** Tool allowlist from frontmatter (undefined = all tools) */
+  tools?: string[];
+  /** Extended thinking budget from frontmatter (undefined = off) */
+  thinkingBudget?: number;
+  /** Response delivery mode (channel override > agent frontmatter > default) */
+  responseMode: ResponseMode;
+  /** Message text with any `as <agent>` directive removed */
+  messageText: string;
+}
+
+export interface RouteAgentParams {
+  messageText: string;
+  channelId: string;
+  traceId?: string;
+}
+
+/**
+ * Parse a leading `as <agent>` directive.
+ *
+ * @returns Requested agent name and remaining text, or null if absent
+ */
+export function parseExplicitAgent(text: string): { agentName: string; rest: string } | null {
+  const match = text.trim().match(EXPLICIT_AGENT_PATTERN);
+  if (!match) return null;
+  return {
+    agentName: match[1].toLowerCase(),
+    rest: text.trim().slice(match[0].length).trim(),
+  };
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9-]+/g, ' ')
+      .split(/\s+/)
+      .filter((t) => t.length > 0)
+  );
+}
+
+/**
+ * Score candidate agents by keyword hits in the message.
+ *
+ * @returns Best-scoring agent name, or null if none reaches `minScore`
+ */
+export function classifyAgent(
+  messageText: string,
+  candidates: AgentDefinition[],
+  minScore: number = DEFAULT_CLASSIFIER_MIN_SCORE
+): string | null {
+  const messageTokens = tokenize(messageText);
+  let best: { name: string; score: number } | null = null;
+
+  for (const agent of candidates) {
+    if (!agent.keywords?.length) continue;
+    const score = agent.keywords.filter((k) => messageTokens.has(k.toLowerCase())).length;
+    if (score >= minScore && (!best || score > best.score)) {
+      best = { name: agent.name, score };
+    }
+  }
+
+  return best?.name ?? null;
+}
+
+/**
+ * Resolve the response mode for a channel/agent pair.
+ *
+ * Invalid values are ignored so a typo falls back to the safe `verified` default.
+ */
+export function resolveResponseMode(
+  config: OrionConfigFile,
+  channelId: string,
+  agentResponseMode?: string
+): ResponseMode {
+  const channelMode = config.response_mode?.channels?.[channelId];
+  if (isResponseMode(channelMode)) return channelMode;
+  if (isResponseMode(agentResponseMode)) return agentResponseMode;
+  const defaultMode = config.response_mode?.default;
+  return isResponseMode(defaultMode) ? defaultMode : DEFAULT_RESPONSE_MODE;
+}
+
+async function loadCandidates(names: string[], exclude: string): Promise<AgentDefinition[]> {
+  const candidates: AgentDefinition[] = [];
+  for (const name of names) {
+    if (name === exclude) continue;
+    try {
+      const definition = await loadAgentDefinition(name);
+      // Route by file name so `keywords` map back to a loadable agent.
+      candidates.push({ ...definition, name });
+    } catch {
+      // Unreadable agents are simply not routable.
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Resolve which agent should answer a message.
+ *
+ * Falls back to the default agent if the selected agent cannot be loaded.
+ *
+ * @throws Error if the default agent itself cannot be loaded
+ */
+export async function routeAgent(params: RouteAgentParams): Promise<AgentRoute> {
+  const orionConfig = loadOrionConfig();
+  const routing = orionConfig.routing ?? {};
+  const defaultAgent = routing.default_agent ?? DEFAULT_AGENT_NAME;
+  const available = await listAgentNames();
+
+  let agentName = defaultAgent;
+  let reason: AgentRouteReason = 'default';
+  let messageText = params.messageText;
+
+  const explicit = parseExplicitAgent(params.messageText);
+  const channelAgent = routing.channels?.[params.channelId];
+
+  if (explicit && available.includes(explicit.agentName)) {
+    agentName = explicit.agentName;
+    reason = 'explicit';
+    messageText = explicit.rest.length > 0 ? explicit.rest : params.messageText;
+  } else if (channelAgent) {
+    agentName = channelAgent;
+    reason = 'channel';
+  } else if (routing.classifier?.enabled !== false) {
+    const candidates = await loadCandidates(available, defaultAgent);
+    const classified = classifyAgent(
+      params.messageText,
+      candidates,
+      routing.classifier?.min_score ?? DEFAULT_CLASSIFIER_MIN_SCORE
+    );
+    if (classified) {
+      agentName = classified;
+      reason = 'classifier';
+    }
+  }
+
+  let definition: AgentDefinition;
+  try {
+    definition = await loadAgentDefinition(agentName);
+  } catch (error) {
+    if (agentName === defaultAgent) throw error;
+
+    logger.warn({
+      event: 'agent.route.fallback',
+      agentName,
+      fallbackAgent: defaultAgent,
+      reason,
+      traceId: params.traceId,
+    });
+    agentName = defaultAgent;
+    reason = 'default';
+    definition = await loadAgentDefinition(defaultAgent);
+  }
+
+  const responseMode = resolveResponseMode(orionConfig, params.channelId, definition.responseMode);
+
+  logger.info({
+    event: 'agent.routed',
+    agentName,
+    reason,
+    model: definition.model,
+    toolAllowlistSize: definition.tools?.length ?? 0,
+    responseMode,
+    channelId: params.channelId,
+    traceId: params.traceId,
+  });
+
+  return {
+    agentName,
+    reason,
+    systemPrompt: definition.prompt,
+    model: definition.model,
+    pinModel: definition.pinModel,
+    tools: definition.tools,
+    thinkingBudget: definition.thinkingBudget,
+    responseMode,
+    messageText,
+  };
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { files } = vi.hoisted(() => ({ files: new Map<string, string>() }));
+
+vi.mock('fs/promises', () => ({
+  mkdir: vi.fn(async () => undefined),
+  writeFile: vi.fn(async (path: string, data: string) => {
+    files.set(path, data);
+  }),
+  readFile: vi.fn(async (path: string) => {
+    const data = files.get(path);
+    if (data === undefined) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+    return data;
+  }),
+  readdir: vi.fn(async () => [...files.keys()].map((p) => p.split('/').pop())),
+  rm: vi.fn(async (path: string) => {
+    files.delete(path);
+  }),
+}));
+
+vi.mock('../memory/vercel-kv-storage.js', () => ({
+  saveToKV: vi.fn(async () => undefined),
+  loadFromKV: vi.fn(async () => null),
+  deleteFromKV: vi.fn(async () => true),
+  listKVKeys: vi.fn(async () => []),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  RUN_HEARTBEAT_INTERVAL_MS,
+  RUN_JOURNAL_INSTANCE_ID,
+  RUN_STALE_AFTER_MS,
+  claimRun,
+  getJournaledAttachments,
+  listOrphanedRuns,
+  listRuns,
+  listUnconfirmedRuns,
+  loadRun,
+  startRun,
+  type RunJournalEntry,
+} from './run-journal.js';
+import { saveToKV } from '../memory/vercel-kv-storage.js';
+
+const baseRun = {
+  traceId: 'trace-1',
+  userId: 'U123',
+  userMessage: 'Deploy status?',
+  threadHistory: [],
+  delivery: { channelId: 'C1', threadTs: '111.222' },
+  systemPrompt: 'You are Orion.',
+  verificationAttempt: 1,
+  iteration: 0,
+  messages: [{ role: 'user' as const, content: 'Deploy status?' }],
+  toolCount: 0,
+  resumeCount: 0,
+};
+
+function orphan(overrides: Partial<RunJournalEntry> = {}): RunJournalEntry {
+  return {
+    ...baseRun,
+    instanceId: 'other-instance',
+    startedAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('run journal (file storage)', () => {
+  beforeEach(() => {
+    files.clear();
+    vi.clearAllMocks();
+    delete process.env.KV_REST_API_URL;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('journals checkpoints and removes the entry on completion', async () => {
+    const handle = await startRun(baseRun);
+
+    expect(await loadRun('trace-1')).toEqual(
+      expect.objectContaining({ instanceId: RUN_JOURNAL_INSTANCE_ID, iteration: 0 })
+    );
+
+    await handle.checkpoint({
+      verificationAttempt: 2,
+      iteration: 1,
+      messages: [...baseRun.messages, { role: 'assistant', content: 'checking' }],
+      toolCount: 1,
+    });
+    expect(await loadRun('trace-1')).toEqual(
+      expect.objectContaining({ verificationAttempt: 2, iteration: 1, toolCount: 1 })
+    );
+
+    await handle.complete();
+    expect(await loadRun('trace-1')).toBeNull();
+    expect(await listRuns()).toEqual([]);
+  });
+
+  it('refreshes updatedAt on the heartbeat', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+    const handle = await startRun(baseRun);
+
+    await vi.advanceTimersByTimeAsync(RUN_HEARTBEAT_INTERVAL_MS);
+
+    expect((await loadRun('trace-1'))?.updatedAt).toBe('2025-01-01T00:00:30.000Z');
+    await handle.complete();
+  });
+
+  it('lists only stale runs owned by other instances as orphaned', async () => {
+    const now = Date.parse('2025-01-01T00:00:00.000Z') + RUN_STALE_AFTER_MS;
+    files.set('orion-context/runs/stale.json', JSON.stringify(orphan({ traceId: 'stale' })));
+    files.set(
+      'orion-context/runs/fresh.json',
+      JSON.stringify(orphan({ traceId: 'fresh', updatedAt: new Date(now - 1000).toISOString() }))
+    );
+    files.set(
+      'orion-context/runs/mine.json',
+      JSON.stringify(orphan({ traceId: 'mine', instanceId: RUN_JOURNAL_INSTANCE_ID }))
+    );
+
+    const orphaned = await listOrphanedRuns(now);
+
+    expect(orphaned.map((r) => r.traceId)).toEqual(['stale']);
+  });
+
+  it('lists fresh runs of other instances that have not checked in since startup', async () => {
+    const startedAt = Date.parse('2025-01-01T00:01:00.000Z');
+    files.set(
+      'orion-context/runs/interrupted.json',
+      JSON.stringify(orphan({ traceId: 'interrupted', updatedAt: '2025-01-01T00:00:55.000Z' }))
+    );
+    files.set(
+      'orion-context/runs/live.json',
+      JSON.stringify(orphan({ traceId: 'live', updatedAt: '2025-01-01T00:01:05.000Z' }))
+    );
+    files.set(
+      'orion-context/runs/stale.json',
+      JSON.stringify(orphan({ traceId: 'stale', updatedAt: '2024-12-31T23:58:00.000Z' }))
+    );
+
+    const unconfirmed = await listUnconfirmedRuns(startedAt, startedAt + 10_000);
+
+    expect(unconfirmed.map((r) => r.traceId)).toEqual(['interrupted']);
+  });
+
+  it('rebuilds attachments from the journaled user turn', () => {
+    const image = {
+      type: 'image' as const,
+      source: { type: 'base64' as const, media_type: 'image/png' as const, data: 'aW1n' },
+    };
+    const source = { type: 'attachment' as const, title: 'error.png', reference: 'slack-file:F1' };
+    const run = orphan({
+      attachmentSources: [source],
+      messages: [
+        { role: 'user', content: 'Earlier question' },
+        { role: 'assistant', content: 'Earlier answer' },
+        { role: 'user', content: [image, { type: 'text', text: 'Deploy status?' }] },
+      ],
+    });
+
+    expect(getJournaledAttachments(run)).toEqual({ content: [image], sources: [source] });
+    expect(getJournaledAttachments(orphan())).toBeUndefined();
+  });
+
+  it('claims a run for this instance and bumps resumeCount', async () => {
+    const claimed = await claimRun(orphan());
+
+    expect(claimed).toEqual(
+      expect.objectContaining({ instanceId: RUN_JOURNAL_INSTANCE_ID, resumeCount: 1 })
+    );
+    expect((await loadRun('trace-1'))?.instanceId).toBe(RUN_JOURNAL_INSTANCE_ID);
+  });
+});
+
+describe('run journal (Vercel KV storage)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.KV_REST_API_URL = 'https://kv.example.com';
+  });
+
+  afterEach(() => {
+    delete process.env.KV_REST_API_URL;
+  });
+
+  it('writes entries under the run KV type', async () => {
+    const handle = await startRun(baseRun);
+
+    expect(saveToKV).toHaveBeenCalledWith(
+      'run',
+      'trace-1',
+      expect.objectContaining({ traceId: 'trace-1', systemPrompt: 'You are Orion.' })
+    );
+    await handle.complete();
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Run Journal
+ *
+ * Checkpoints in-flight agent runs so a run interrupted by a process restart
+ * (Cloud Run instance recycle, crash, OOM) can be resumed or reported to the
+ * user instead of leaving the Slack thread "thinking" forever.
+ *
+ * `executeAgentLoop` writes a checkpoint after every tool-loop iteration
+ * (messages so far, verification attempt) keyed by the run's traceId, and
+ * deletes it when the run finishes. A heartbeat keeps `updatedAt` fresh while
+ * the owning process is alive, so the recovery sweep (see
+ * src/slack/run-recovery.ts) only picks up runs whose owner is gone.
+ *
+ * ## Storage Backend
+ * - **Vercel/KV configured**: Vercel KV (`orion:run:{traceId}`)
+ * - **Local / Cloud Run without KV**: JSON files in orion-context/runs/
+ *
+ * Journal writes are best-effort: failures are logged and never fail the run.
+ */
+
+import { mkdir, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type Anthropic from '@anthropic-ai/sdk';
+import { ORION_CONTEXT_ROOT } from '../memory/storage.js';
+import { saveToKV, loadFromKV, deleteFromKV, listKVKeys } from '../memory/vercel-kv-storage.js';
+import { logger } from '../utils/logger.js';
+import type { ContextSource } from './gather.js';
+import type { MessageAttachments } from './orion.js';
+
+/** Directory for run journal files (local storage) */
+const RUNS_DIR = join(ORION_CONTEXT_ROOT, 'runs');
+
+/** How often a live run refreshes `updatedAt` */
+export const RUN_HEARTBEAT_INTERVAL_MS = 30_000;
+
+/** A run whose heartbeat is older than this is considered orphaned */
+export const RUN_STALE_AFTER_MS = 2 * 60_000;
+
+/** Identifies this process as the owner of the runs it starts */
+export const RUN_JOURNAL_INSTANCE_ID = randomUUID();
+
+/**
+ * Where the run's output is delivered in Slack.
+ */
+export interface RunDelivery {
+  channelId: string;
+  threadTs: string;
+  /** Placeholder ("thinking") message to update instead of posting a new reply */
+  statusMessageTs?: string;
+}
+
+/**
+ * Journaled state of one agent run.
+ */
+export interface RunJournalEntry {
+  traceId: string;
+  userId: string;
+  userMessage: string;
+  /** Thread history passed to the agent (needed to rebuild context on resume) */
+  threadHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
+  delivery: RunDelivery;
+  /** System prompt the run started with */
+  systemPrompt: string;
+  /** Routed agent name, model and tool allowlist */
+  agentName?: string;
+  model?: string;
+  pinModel?: boolean;
+  allowedTools?: string[];
+  /** Extended thinking budget the run started with */
+  thinkingBudget?: number;
+  /**
+   * Sources of files shared with the message. Their content blocks are already
+   * in the user turn of `messages`; see getJournaledAttachments.
+   */
+  attachmentSources?: ContextSource[];
+  /** Verification attempt in progress (1-indexed) */
+  verificationAttempt: number;
+  /** Completed tool-loop iterations within the current attempt */
+  iteration: number;
+  /** Attempt messages as of the last checkpoint (history, user turn, tool_use/tool_result pairs) */
+  messages: Anthropic.MessageParam[];
+  toolCount: number;
+  /** How many times recovery has resumed this run */
+  resumeCount: number;
+  instanceId: string;
+  startedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Rebuild a run's attachments from its journaled user turn (the message that
+ * ends with the user's text, preceded by the attachment blocks).
+ *
+ * @returns Attachments, or undefined if the run had none
+ */
+export function getJournaledAttachments(run: RunJournalEntry): MessageAttachments | undefined {
+  if (!run.attachmentSources?.length) return undefined;
+
+  const userTurn = run.messages.find((message) => {
+    if (message.role !== 'user' || !Array.isArray(message.content)) return false;
+    const last = message.content[message.content.length - 1];
+    return last?.type === 'text' && last.text === run.userMessage;
+  });
+  const content = Array.isArray(userTurn?.content) ? userTurn.content.slice(0, -1) : [];
+  return { content, sources: run.attachmentSources };
+}
+
+/**
+ * Check if running with Vercel KV (same switch as the memory modules)
+ */
+function isVercelKVAvailable(): boolean {
+  return Boolean(process.env.KV_REST_API_URL);
+}
+
+function getRunPath(traceId: string): string {
+  // traceIds are UUIDs/hex; strip anything that could escape the directory.
+  return join(RUNS_DIR, `${traceId.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+}
+
+async function writeEntry(entry: RunJournalEntry): Promise<void> {
+  if (isVercelKVAvailable()) {
+    await saveToKV('run', entry.traceId, entry);
+    return;
+  }
+  await mkdir(RUNS_DIR, { recursive: true });
+  await writeFile(getRunPath(entry.traceId), JSON.stringify(entry));
+}
+
+/**
+ * Load a journal entry by traceId.
+ *
+ * @returns Entry, or null if missing/unreadable
+ */
+export async function loadRun(traceId: string): Promise<RunJournalEntry | null> {
+  try {
+    if (isVercelKVAvailable()) {
+      const stored = await loadFromKV<RunJournalEntry>('run', traceId);
+      return stored?.data ?? null;
+    }
+    const raw = await readFile(getRunPath(traceId), 'utf-8');
+    return JSON.parse(raw) as RunJournalEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List every journaled (unfinished) run.
+ */
+export async function listRuns(): Promise<RunJournalEntry[]> {
+  let traceIds: string[];
+  try {
+    if (isVercelKVAvailable()) {
+      traceIds = await listKVKeys('run');
+    } else {
+      const files = await readdir(RUNS_DIR);
+      traceIds = files.filter((f) => f.endsWith('.json')).map((f) => f.slice(0, -'.json'.length));
+    }
+  } catch {
+    // Directory may not exist yet
+    return [];
+  }
+
+  const entries = await Promise.all(traceIds.map((id) => loadRun(id)));
+  return entries.filter((e): e is RunJournalEntry => e !== null);
+}
+
+/**
+ * List runs whose owning process is gone (stale heartbeat, other instance).
+ */
+export async function listOrphanedRuns(now: number = Date.now()): Promise<RunJournalEntry[]> {
+  const runs = await listRuns();
+  return runs.filter(
+    (run) =>
+      run.instanceId !== RUN_JOURNAL_INSTANCE_ID &&
+      now - Date.parse(run.updatedAt) >= RUN_STALE_AFTER_MS
+  );
+}
+
+/**
+ * List runs of other instances with no heartbeat since `since` that are not
+ * stale yet. Right after a restart these are usually the previous process's
+ * runs, which only read as orphaned once their heartbeat goes stale.
+ */
+export async function listUnconfirmedRuns(
+  since: number,
+  now: number = Date.now()
+): Promise<RunJournalEntry[]> {
+  const runs = await listRuns();
+  return runs.filter((run) => {
+    const updatedAt = Date.parse(run.updatedAt);
+    return (
+      run.instanceId !== RUN_JOURNAL_INSTANCE_ID &&
+      updatedAt < since &&
+      now - updatedAt < RUN_STALE_AFTER_MS
+    );
+  });
+}
+
+/**
+ * Delete a run from the journal.
+ */
+export async function removeRun(traceId: string): Promise<void> {
+  try {
+    if (isVercelKVAvailable()) {
+      await deleteFromKV('run', traceId);
+      return;
+    }
+    await rm(getRunPath(traceId), { force: true });
+  } catch (error) {
+    logger.warn({
+      event: 'run_journal.remove_failed',
+      traceId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Handle for a journaled run, owned by the process executing it.
+ */
+export interface RunJournalHandle {
+  /** Record progress after a tool-loop iteration */
+  checkpoint: (
+    update: Pick<RunJournalEntry, 'verificationAttempt' | 'iteration' | 'messages' | 'toolCount'>
+  ) => Promise<void>;
+  /** Remove the entry (run finished, successfully or not) and stop the heartbeat */
+  complete: () => Promise<void>;
+  /** Stop the heartbeat and further writes without touching the entry (idempotent) */
+  stop: () => void;
+}
+
+/**
+ * Journal a new (or resumed) run and start its heartbeat.
+ *
+ * @param entry - Initial run state (instanceId/timestamps are filled in)
+ */
+export async function startRun(
+  entry: Omit<RunJournalEntry, 'instanceId' | 'startedAt' | 'updatedAt'> & { startedAt?: string }
+): Promise<RunJournalHandle> {
+  const now = new Date().toISOString();
+  let current: RunJournalEntry = {
+    ...entry,
+    instanceId: RUN_JOURNAL_INSTANCE_ID,
+    startedAt: entry.startedAt ?? now,
+    updatedAt: now,
+  };
+  let completed = false;
+
+  const persist = async (): Promise<void> => {
+    if (completed) return;
+    current = { ...current, updatedAt: new Date().toISOString() };
+    try {
+      await writeEntry(current);
+    } catch (error) {
+      logger.warn({
+        event: 'run_journal.write_failed',
+        traceId: current.traceId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  await persist();
+
+  const heartbeat = setInterval(() => void persist(), RUN_HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref?.();
+
+  const stop = (): void => {
+    completed = true;
+    clearInterval(heartbeat);
+  };
+
+  return {
+    checkpoint: async (update): Promise<void> => {
+      current = { ...current, ...update };
+      await persist();
+    },
+    complete: async (): Promise<void> => {
+      stop();
+      await removeRun(current.traceId);
+    },
+    stop,
+  };
+}
+
+/**
+ * Take ownership of an orphaned run before recovering it.
+ *
+ * Best-effort guard against two instances recovering the same run: writes this
+ * instance as owner, then re-reads to confirm the write won.
+ *
+ * @returns Claimed entry (resumeCount incremented), or null if another instance owns it
+ */
+export async function claimRun(run: RunJournalEntry): Promise<RunJournalEntry | null> {
+  const claimed: RunJournalEntry = {
+    ...run,
+    instanceId: RUN_JOURNAL_INSTANCE_ID,
+    resumeCount: run.resumeCount + 1,
+    updatedAt: new Date().toISOString(),
+  };
+  try {
+    await writeEntry(claimed);
+    const reread = await loadRun(run.traceId);
+    return reread?.instanceId === RUN_JOURNAL_INSTANCE_ID ? claimed : null;
+  } catch (error) {
+    logger.warn({
+      event: 'run_journal.claim_failed',
+      traceId: run.traceId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
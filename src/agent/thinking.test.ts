@@ -0,0 +1,64 @@
+/**
+ * Extended Thinking Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MIN_THINKING_BUDGET,
+  buildThinkingParams,
+  resolveThinkingBudget,
+  summarizeReasoning,
+} from './thinking.js';
+
+describe('agent/thinking', () => {
+  describe('resolveThinkingBudget', () => {
+    it('is off for missing or non-positive budgets', () => {
+      expect(resolveThinkingBudget(undefined)).toBeUndefined();
+      expect(resolveThinkingBudget(0)).toBeUndefined();
+      expect(resolveThinkingBudget(Number.NaN)).toBeUndefined();
+    });
+
+    it('raises small budgets to the API minimum', () => {
+      expect(resolveThinkingBudget(100)).toBe(MIN_THINKING_BUDGET);
+      expect(resolveThinkingBudget(4096.7)).toBe(4096);
+    });
+  });
+
+  describe('buildThinkingParams', () => {
+    it('keeps the budget when max_tokens leaves room for the answer', () => {
+      expect(buildThinkingParams(4096, 8192, 256)).toEqual({
+        max_tokens: 8192,
+        thinking: { type: 'enabled', budget_tokens: 4096 },
+      });
+    });
+
+    it('shrinks the budget below max_tokens', () => {
+      expect(buildThinkingParams(16000, 8192, 256).thinking.budget_tokens).toBe(7936);
+    });
+
+    it('raises max_tokens when even the minimum budget does not fit', () => {
+      expect(buildThinkingParams(4096, 512, 256)).toEqual({
+        max_tokens: MIN_THINKING_BUDGET + 256,
+        thinking: { type: 'enabled', budget_tokens: MIN_THINKING_BUDGET },
+      });
+    });
+  });
+
+  describe('summarizeReasoning', () => {
+    it('returns the first sentence of the last paragraph', () => {
+      const thinking =
+        'The user wants the failing job.\n\nThe logs show a timeout in step 3. I should check the runner.';
+      expect(summarizeReasoning(thinking)).toBe('The logs show a timeout in step 3.');
+    });
+
+    it('truncates long sentences', () => {
+      const summary = summarizeReasoning('word '.repeat(100));
+      expect(summary?.length).toBeLessThanOrEqual(150);
+      expect(summary?.endsWith('…')).toBe(true);
+    });
+
+    it('returns undefined for empty reasoning', () => {
+      expect(summarizeReasoning('  \n\n ')).toBeUndefined();
+    });
+  });
+});
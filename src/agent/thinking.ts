@@ -0,0 +1,72 @@
+/**
+ * Extended thinking for the agent loop.
+ *
+ * Opt-in per agent (`thinking_budget` frontmatter) or per request
+ * (`thinkingBudget` option). When enabled, each Anthropic call carries
+ * `thinking: { type: 'enabled', budget_tokens }`; thinking blocks (with their
+ * signatures) are sent back unchanged with the tool_use turn that followed
+ * them, as the API requires. A short summary of the latest reasoning is
+ * surfaced through the loop's `setStatus` hook.
+ *
+ * Models without extended thinking (MODEL_INFO `extendedThinking`) run
+ * without it; model routing starts thinking requests on a capable model.
+ *
+ * @see https://docs.anthropic.com/en/docs/build-with-claude/extended-thinking
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+
+/** Smallest budget the API accepts */
+export const MIN_THINKING_BUDGET = 1024;
+
+/** Longest reasoning summary shown in Slack status */
+const MAX_SUMMARY_CHARS = 150;
+
+/** Thinking content kept in the assistant turn */
+export type ThinkingBlock = Anthropic.ThinkingBlockParam | Anthropic.RedactedThinkingBlockParam;
+
+/**
+ * Normalize a requested budget.
+ *
+ * @returns Budget of at least MIN_THINKING_BUDGET, or undefined when thinking is off
+ */
+export function resolveThinkingBudget(budget: number | undefined): number | undefined {
+  if (budget === undefined || !Number.isFinite(budget) || budget <= 0) return undefined;
+  return Math.max(MIN_THINKING_BUDGET, Math.floor(budget));
+}
+
+/**
+ * Request params for one call with thinking enabled.
+ *
+ * `max_tokens` must exceed the thinking budget, so the budget is shrunk to
+ * leave `minOutputTokens` for the answer — or `max_tokens` is raised when the
+ * budget is already at the API minimum.
+ */
+export function buildThinkingParams(
+  budget: number,
+  maxTokens: number,
+  minOutputTokens: number
+): { max_tokens: number; thinking: Anthropic.ThinkingConfigEnabled } {
+  const budgetTokens = Math.max(MIN_THINKING_BUDGET, Math.min(budget, maxTokens - minOutputTokens));
+  return {
+    max_tokens: Math.max(maxTokens, budgetTokens + minOutputTokens),
+    thinking: { type: 'enabled', budget_tokens: budgetTokens },
+  };
+}
+
+/**
+ * One-line summary of reasoning for Slack: the start of its last paragraph.
+ */
+export function summarizeReasoning(thinking: string): string | undefined {
+  const paragraphs = thinking
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter((p) => p.length > 0);
+  const last = paragraphs[paragraphs.length - 1];
+  if (!last) return undefined;
+
+  const sentence = last.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? last;
+  return sentence.length > MAX_SUMMARY_CHARS
+    ? `${sentence.slice(0, MAX_SUMMARY_CHARS - 1).trimEnd()}…`
+    : sentence;
+}
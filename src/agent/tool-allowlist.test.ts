@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import type Anthropic from '@anthropic-ai/sdk';
+import { isToolAllowed, filterToolsByAllowlist } from './tool-allowlist.js';
+
+const tool = (name: string): Anthropic.Tool => ({
+  name,
+  description: name,
+  input_schema: { type: 'object', properties: {} },
+});
+
+describe('isToolAllowed', () => {
+  it('allows everything without an allowlist', () => {
+    expect(isToolAllowed('anything')).toBe(true);
+    expect(isToolAllowed('anything', [])).toBe(true);
+  });
+
+  it('matches exact names', () => {
+    expect(isToolAllowed('search_docs', ['search_docs'])).toBe(true);
+    expect(isToolAllowed('search_docs_v2', ['search_docs'])).toBe(false);
+  });
+
+  it('matches * wildcards', () => {
+    expect(isToolAllowed('rube__github_list_prs', ['rube__github_*'])).toBe(true);
+    expect(isToolAllowed('rube__jira_create_issue', ['rube__github_*'])).toBe(false);
+  });
+});
+
+describe('filterToolsByAllowlist', () => {
+  it('filters tool definitions by allowlist', () => {
+    const tools = [tool('search_docs'), tool('rube__github_list_prs'), tool('rube__slack_post')];
+
+    expect(filterToolsByAllowlist(tools, ['search_docs', 'rube__github_*']).map((t) => t.name)).toEqual([
+      'search_docs',
+      'rube__github_list_prs',
+    ]);
+    expect(filterToolsByAllowlist(tools)).toBe(tools);
+  });
+});
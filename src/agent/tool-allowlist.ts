@@ -0,0 +1,41 @@
+/**
+ * Per-agent tool allowlists.
+ *
+ * Agents declare `tools:` in their frontmatter (see loader.ts). Entries are exact
+ * Claude tool names (`search_docs`, `rube__jira_create_issue`) or `*` wildcards
+ * (`rube__github_*`). An absent or empty allowlist means "all tools".
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Check whether a tool name is permitted by an allowlist.
+ *
+ * @param toolName - Claude-facing tool name
+ * @param allowlist - Agent allowlist (undefined/empty = allow all)
+ */
+export function isToolAllowed(toolName: string, allowlist?: readonly string[]): boolean {
+  if (!allowlist || allowlist.length === 0) return true;
+  return allowlist.some((pattern) =>
+    pattern.includes('*') ? patternToRegExp(pattern).test(toolName) : pattern === toolName
+  );
+}
+
+/**
+ * Filter tool definitions down to those permitted by an allowlist.
+ *
+ * @param tools - All registered tools
+ * @param allowlist - Agent allowlist (undefined/empty = allow all)
+ */
+export function filterToolsByAllowlist(
+  tools: Anthropic.Tool[],
+  allowlist?: readonly string[]
+): Anthropic.Tool[] {
+  if (!allowlist || allowlist.length === 0) return tools;
+  return tools.filter((t) => isToolAllowed(t.name, allowlist));
+}
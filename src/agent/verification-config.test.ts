@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({})),
+}));
+
+import {
+  buildVerificationRule,
+  loadConfiguredVerificationRules,
+  registerConfiguredVerificationRules,
+  resetConfiguredVerificationRules,
+} from './verification-config.js';
+import { listVerificationRules, type VerificationRule } from './verification-rules.js';
+import type { VerificationContext } from './verification.js';
+import { loadOrionConfig } from '../config/orion-config.js';
+import { logger } from '../utils/logger.js';
+
+const deps = { anthropic: { messages: { create: vi.fn() } } as never, defaultModel: 'default-model' };
+const ctx: VerificationContext = { userMessage: 'question', hasSources: false };
+
+async function passes(rule: VerificationRule | null, response: string): Promise<boolean> {
+  const result = await rule!.check(response, ctx);
+  return typeof result === 'boolean' ? result : result.passed;
+}
+
+describe('buildVerificationRule', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('builds forbid and require regex rules', async () => {
+    const forbid = buildVerificationRule({ type: 'regex', code: 'NO_HOSTS', pattern: '\\.corp\\.internal' }, deps);
+    const require = buildVerificationRule(
+      { type: 'regex', code: 'HAS_TICKET', pattern: 'INC-\\d+', match: 'require' },
+      deps
+    );
+
+    expect(forbid?.code).toBe('NO_HOSTS');
+    expect(forbid?.severity).toBe('error');
+    expect(await passes(forbid, 'see db1.corp.internal')).toBe(false);
+    expect(await passes(forbid, 'see the dashboard')).toBe(true);
+    expect(await passes(require, 'Tracking in INC-42')).toBe(true);
+    expect(await passes(require, 'No ticket yet')).toBe(false);
+  });
+
+  it('builds length limit rules', async () => {
+    const max = buildVerificationRule({ type: 'max_length', max: 10 }, deps);
+    const min = buildVerificationRule({ type: 'min_length', min: 5, severity: 'warning' }, deps);
+
+    expect(max?.code).toBe('MAX_LENGTH');
+    expect(await passes(max, 'short')).toBe(true);
+    expect(await passes(max, 'this is far too long')).toBe(false);
+    expect(min?.severity).toBe('warning');
+    expect(await passes(min, 'hey')).toBe(false);
+  });
+
+  it('reports which banned phrases matched', async () => {
+    const rule = buildVerificationRule(
+      { type: 'banned_phrases', phrases: ['guaranteed uptime', '100% secure'] },
+      deps
+    );
+
+    const result = await rule!.check('We offer Guaranteed  Uptime for all plans', ctx);
+
+    expect(result).toEqual(
+      expect.objectContaining({ passed: false, message: expect.stringContaining('"guaranteed uptime"') })
+    );
+  });
+
+  it('requires disclaimers case-insensitively', async () => {
+    const rule = buildVerificationRule(
+      { type: 'required_disclaimer', text: 'This is not legal advice.', scope: { channels: ['C_LEGAL'] } },
+      deps
+    );
+
+    expect(rule?.scope).toEqual({ channels: ['C_LEGAL'] });
+    expect(await passes(rule, 'Answer.\n\n_this is not legal advice._')).toBe(true);
+    expect(await passes(rule, 'Answer.')).toBe(false);
+  });
+
+  it('builds groundedness rules with the default judge model', () => {
+    const rule = buildVerificationRule({ type: 'groundedness', severity: 'error', min_score: 0.8 }, deps);
+
+    expect(rule?.code).toBe('UNGROUNDED');
+    expect(rule?.name).toBe('groundedness');
+    expect(rule?.severity).toBe('error');
+  });
+
+  it('rejects invalid entries with a warning', () => {
+    expect(buildVerificationRule({ type: 'regex', pattern: '(' }, deps)).toBeNull();
+    expect(buildVerificationRule({ type: 'max_length' }, deps)).toBeNull();
+    expect(buildVerificationRule({ type: 'bogus' } as never, deps)).toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'verification.rule_invalid' })
+    );
+  });
+});
+
+describe('loadConfiguredVerificationRules', () => {
+  it('skips duplicate codes', () => {
+    const rules = loadConfiguredVerificationRules(
+      {
+        verification: {
+          rules: [
+            { type: 'max_length', max: 100 },
+            { type: 'max_length', max: 200 },
+          ],
+        },
+      },
+      deps
+    );
+
+    expect(rules).toHaveLength(1);
+  });
+});
+
+describe('registerConfiguredVerificationRules', () => {
+  afterEach(() => {
+    resetConfiguredVerificationRules();
+  });
+
+  it('registers config rules once and removes them on reset', () => {
+    vi.mocked(loadOrionConfig).mockReturnValue({
+      verification: { rules: [{ type: 'banned_phrases', code: 'NO_GUARANTEES', phrases: ['guaranteed'] }] },
+    });
+
+    expect(registerConfiguredVerificationRules(deps)).toBe(1);
+    expect(registerConfiguredVerificationRules(deps)).toBe(1);
+    expect(loadOrionConfig).toHaveBeenCalledTimes(1);
+    expect(listVerificationRules().map((r) => r.code)).toContain('NO_GUARANTEES');
+
+    resetConfiguredVerificationRules();
+    expect(listVerificationRules().map((r) => r.code)).not.toContain('NO_GUARANTEES');
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Config-defined verification rules (`verification.rules` in .orion/config.yaml).
+ *
+ * Supported rule types:
+ * - `regex`: `pattern` (+ `flags`) must not match, or must match with `match: require`
+ * - `max_length` / `min_length`: bounds on trimmed response length (`max` / `min`)
+ * - `banned_phrases`: none of `phrases` may appear (case-insensitive)
+ * - `required_disclaimer`: `text` must appear (case-insensitive)
+ * - `groundedness`: LLM-as-judge check against gathered sources (`model`, `min_score`)
+ *
+ * Every rule accepts `code`, `name`, `severity`, `feedback` and `scope`. Invalid
+ * entries are logged and skipped so a config typo never disables verification.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import {
+  loadOrionConfig,
+  type OrionConfigFile,
+  type VerificationRuleConfig,
+} from '../config/orion-config.js';
+import { logger } from '../utils/logger.js';
+import { createGroundednessRule } from './verification-judge.js';
+import {
+  registerVerificationRule,
+  unregisterVerificationRule,
+  type VerificationCheckResult,
+  type VerificationRule,
+} from './verification-rules.js';
+
+/** Dependencies for model-graded rules */
+export interface VerificationRuleDeps {
+  anthropic: Pick<Anthropic, 'messages'>;
+  /** Judge model when a rule does not set `model` */
+  defaultModel: string;
+}
+
+/** Codes registered from config, so a reload can remove them */
+let configuredCodes: string[] | null = null;
+
+function invalid(ruleConfig: VerificationRuleConfig, index: number, reason: string): null {
+  logger.warn({
+    event: 'verification.rule_invalid',
+    index,
+    type: ruleConfig.type,
+    code: ruleConfig.code,
+    reason,
+  });
+  return null;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Build a verification rule from one config entry.
+ *
+ * @returns Rule, or null if the entry is invalid
+ */
+export function buildVerificationRule(
+  ruleConfig: VerificationRuleConfig,
+  deps: VerificationRuleDeps,
+  index = 0
+): VerificationRule | null {
+  const code = ruleConfig.code ?? String(ruleConfig.type ?? '').toUpperCase();
+  const base = {
+    code,
+    name: ruleConfig.name ?? code.toLowerCase(),
+    severity: ruleConfig.severity === 'warning' ? ('warning' as const) : ('error' as const),
+    scope: ruleConfig.scope,
+  };
+
+  switch (ruleConfig.type) {
+    case 'regex': {
+      if (!ruleConfig.pattern) return invalid(ruleConfig, index, 'missing pattern');
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(ruleConfig.pattern, ruleConfig.flags ?? 'i');
+      } catch (error) {
+        return invalid(ruleConfig, index, error instanceof Error ? error.message : String(error));
+      }
+      const required = ruleConfig.match === 'require';
+      return {
+        ...base,
+        feedback:
+          ruleConfig.feedback ??
+          (required
+            ? `Response must match ${ruleConfig.pattern}`
+            : `Response must not match ${ruleConfig.pattern}`),
+        check: (r) => pattern.test(r) === required,
+      };
+    }
+
+    case 'max_length':
+    case 'min_length': {
+      const isMax = ruleConfig.type === 'max_length';
+      const limit = isMax ? ruleConfig.max : ruleConfig.min;
+      if (typeof limit !== 'number' || limit < 0) {
+        return invalid(ruleConfig, index, `missing ${isMax ? 'max' : 'min'}`);
+      }
+      return {
+        ...base,
+        feedback:
+          ruleConfig.feedback ??
+          (isMax
+            ? `Response is too long (max ${limit} characters); be more concise`
+            : `Response is too short (min ${limit} characters)`),
+        check: (r) => (isMax ? r.trim().length <= limit : r.trim().length >= limit),
+      };
+    }
+
+    case 'banned_phrases': {
+      const phrases = (ruleConfig.phrases ?? []).filter((p) => p.trim().length > 0);
+      if (phrases.length === 0) return invalid(ruleConfig, index, 'missing phrases');
+      return {
+        ...base,
+        feedback: ruleConfig.feedback ?? 'Response contains banned phrases',
+        check: (r): VerificationCheckResult => {
+          const text = normalize(r);
+          const found = phrases.filter((p) => text.includes(normalize(p)));
+          return {
+            passed: found.length === 0,
+            message:
+              found.length > 0
+                ? `${ruleConfig.feedback ?? 'Response contains banned phrases'}: ${found.map((p) => `"${p}"`).join(', ')}`
+                : undefined,
+            details: { matchedCount: found.length },
+          };
+        },
+      };
+    }
+
+    case 'required_disclaimer': {
+      const disclaimer = ruleConfig.text?.trim();
+      if (!disclaimer) return invalid(ruleConfig, index, 'missing text');
+      return {
+        ...base,
+        feedback:
+          ruleConfig.feedback ?? `Response must include this disclaimer verbatim: "${disclaimer}"`,
+        check: (r) => normalize(r).includes(normalize(disclaimer)),
+      };
+    }
+
+    case 'groundedness':
+      return createGroundednessRule({
+        anthropic: deps.anthropic,
+        model: ruleConfig.model ?? deps.defaultModel,
+        minScore: ruleConfig.min_score,
+        code: ruleConfig.code,
+        severity: ruleConfig.severity,
+        scope: ruleConfig.scope,
+      });
+
+    default:
+      return invalid(ruleConfig, index, 'unknown type');
+  }
+}
+
+/**
+ * Build all valid rules from the `verification.rules` config section.
+ */
+export function loadConfiguredVerificationRules(
+  orionConfig: OrionConfigFile,
+  deps: VerificationRuleDeps
+): VerificationRule[] {
+  const entries = orionConfig.verification?.rules ?? [];
+  const rules: VerificationRule[] = [];
+  const seen = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const rule = buildVerificationRule(entry, deps, index);
+    if (!rule) return;
+    if (seen.has(rule.code)) {
+      invalid(entry, index, `duplicate code ${rule.code}`);
+      return;
+    }
+    seen.add(rule.code);
+    rules.push(rule);
+  });
+
+  return rules;
+}
+
+/**
+ * Register config-defined rules once per process (no-op on later calls).
+ *
+ * @returns Number of rules registered from config
+ */
+export function registerConfiguredVerificationRules(deps: VerificationRuleDeps): number {
+  if (configuredCodes) return configuredCodes.length;
+
+  const rules = loadConfiguredVerificationRules(loadOrionConfig(), deps);
+  for (const rule of rules) {
+    registerVerificationRule(rule);
+  }
+  configuredCodes = rules.map((r) => r.code);
+
+  if (rules.length > 0) {
+    logger.info({
+      event: 'verification.rules_loaded',
+      count: rules.length,
+      codes: configuredCodes,
+    });
+  }
+
+  return rules.length;
+}
+
+/**
+ * Unregister config-defined rules so the next call re-reads config (for testing or config reload)
+ */
+export function resetConfiguredVerificationRules(): void {
+  for (const code of configuredCodes ?? []) {
+    unregisterVerificationRule(code);
+  }
+  configuredCodes = null;
+}
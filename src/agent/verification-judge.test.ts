@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { createGroundednessRule, parseGroundednessVerdict } from './verification-judge.js';
+import type { VerificationCheckOutcome } from './verification-rules.js';
+import type { VerificationContext } from './verification.js';
+import { logger } from '../utils/logger.js';
+
+const context: VerificationContext = {
+  userMessage: 'When is the release?',
+  hasSources: true,
+  traceId: 'trace-1',
+  sources: [
+    {
+      type: 'file',
+      title: 'release.md',
+      reference: 'orion-context/release.md',
+      excerpt: 'The release train leaves every Tuesday.',
+    },
+  ],
+};
+
+function judgeReply(text: string): { content: Array<{ type: 'text'; text: string }> } {
+  return { content: [{ type: 'text', text }] };
+}
+
+describe('parseGroundednessVerdict', () => {
+  it('parses JSON wrapped in prose or code fences', () => {
+    expect(
+      parseGroundednessVerdict('```json\n{"score": 0.5, "unsupported_claims": ["x"]}\n```')
+    ).toEqual({ score: 0.5, unsupportedClaims: ['x'] });
+  });
+
+  it('clamps scores and rejects invalid output', () => {
+    expect(parseGroundednessVerdict('{"score": 3}')?.score).toBe(1);
+    expect(parseGroundednessVerdict('no json here')).toBeNull();
+    expect(parseGroundednessVerdict('{"score": "high"}')).toBeNull();
+  });
+});
+
+describe('createGroundednessRule', () => {
+  const create = vi.fn();
+  const rule = createGroundednessRule({ anthropic: { messages: { create } } as never, model: 'judge-model' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('passes when the judge score meets the threshold', async () => {
+    create.mockResolvedValueOnce(judgeReply('{"score": 0.9, "unsupported_claims": []}'));
+
+    const outcome = (await rule.check('Releases go out on Tuesdays.', context)) as VerificationCheckOutcome;
+
+    expect(outcome.passed).toBe(true);
+    expect(outcome.details).toEqual(expect.objectContaining({ score: 0.9, judgeModel: 'judge-model' }));
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'judge-model',
+        messages: [
+          expect.objectContaining({
+            content: expect.stringContaining('The release train leaves every Tuesday.'),
+          }),
+        ],
+      })
+    );
+  });
+
+  it('fails with the unsupported claims when the score is too low', async () => {
+    create.mockResolvedValueOnce(
+      judgeReply('{"score": 0.2, "unsupported_claims": ["Releases ship on Fridays"]}')
+    );
+
+    const outcome = (await rule.check('Releases ship on Fridays.', context)) as VerificationCheckOutcome;
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.message).toContain('Releases ship on Fridays');
+    expect(rule.code).toBe('UNGROUNDED');
+    expect(rule.severity).toBe('warning');
+  });
+
+  it('skips the judge when no sources were gathered', async () => {
+    const outcome = (await rule.check('Anything', {
+      ...context,
+      sources: [],
+    })) as VerificationCheckOutcome;
+
+    expect(outcome).toEqual({ passed: true, details: { skipped: true } });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('fails open when the judge call errors', async () => {
+    create.mockRejectedValueOnce(new Error('overloaded'));
+
+    const outcome = (await rule.check('Releases go out on Tuesdays.', context)) as VerificationCheckOutcome;
+
+    expect(outcome.passed).toBe(true);
+    expect(outcome.details).toEqual(expect.objectContaining({ judgeError: 'overloaded' }));
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'verification.judge_failed', traceId: 'trace-1' })
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Model-graded verification rules (LLM-as-judge).
+ *
+ * `createGroundednessRule` asks a model whether the response is supported by
+ * the sources gathered for this turn. The judge fails open: if the model call
+ * or its output cannot be parsed, the rule passes and the error is recorded
+ * on the rule's Langfuse event so a judge outage never blocks responses.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { logger } from '../utils/logger.js';
+import type { ContextSource } from './gather.js';
+import type { VerificationSeverity } from './verification.js';
+import type {
+  VerificationCheckOutcome,
+  VerificationRule,
+  VerificationRuleScope,
+} from './verification-rules.js';
+
+/** Minimum groundedness score (0-1) required to pass by default */
+export const DEFAULT_GROUNDEDNESS_MIN_SCORE = 0.7;
+
+/** Output budget for the judge's JSON verdict */
+const JUDGE_MAX_TOKENS = 512;
+
+/** Per-source excerpt cap to keep the judge prompt small */
+const MAX_SOURCE_EXCERPT_CHARS = 1500;
+
+const GROUNDEDNESS_SYSTEM_PROMPT = `You grade whether an assistant's answer is grounded in the provided sources.
+A claim is grounded if a source states or directly implies it. General knowledge, greetings and
+suggestions for next steps do not need support.
+
+Reply with JSON only, no prose:
+{"score": <0.0-1.0 fraction of factual claims supported>, "unsupported_claims": ["<claim>", ...]}`;
+
+export interface GroundednessRuleOptions {
+  anthropic: Pick<Anthropic, 'messages'>;
+  /** Judge model */
+  model: string;
+  /** Minimum score to pass (default 0.7) */
+  minScore?: number;
+  /** Issue code (default UNGROUNDED) */
+  code?: string;
+  severity?: VerificationSeverity;
+  scope?: VerificationRuleScope;
+}
+
+interface GroundednessVerdict {
+  score: number;
+  unsupportedClaims: string[];
+}
+
+function formatSources(sources: ContextSource[]): string {
+  return sources
+    .map((source, idx) => {
+      const excerpt = (source.excerpt ?? '').slice(0, MAX_SOURCE_EXCERPT_CHARS);
+      return `[${idx + 1}] ${source.title} (${source.reference})\n${excerpt}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Parse the judge's JSON verdict, tolerating surrounding prose or code fences.
+ *
+ * @returns Verdict, or null if no valid JSON object was found
+ */
+export function parseGroundednessVerdict(text: string): GroundednessVerdict | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1)) as {
+      score?: unknown;
+      unsupported_claims?: unknown;
+    };
+    if (typeof parsed.score !== 'number' || !Number.isFinite(parsed.score)) return null;
+    const unsupportedClaims = Array.isArray(parsed.unsupported_claims)
+      ? parsed.unsupported_claims.filter((c): c is string => typeof c === 'string')
+      : [];
+    return { score: Math.min(1, Math.max(0, parsed.score)), unsupportedClaims };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a rule that grades the response's groundedness against gathered sources.
+ *
+ * Responses with no gathered sources (or no excerpts) are skipped.
+ */
+export function createGroundednessRule(options: GroundednessRuleOptions): VerificationRule {
+  const minScore = options.minScore ?? DEFAULT_GROUNDEDNESS_MIN_SCORE;
+
+  return {
+    code: options.code ?? 'UNGROUNDED',
+    name: 'groundedness',
+    severity: options.severity ?? 'warning',
+    scope: options.scope,
+    feedback: 'Response makes claims that are not supported by the gathered sources',
+    check: async (response, context): Promise<VerificationCheckOutcome> => {
+      const sources = (context.sources ?? []).filter((s) => s.excerpt);
+      if (sources.length === 0 || response.trim().length === 0) {
+        return { passed: true, details: { skipped: true } };
+      }
+
+      try {
+        const result = await options.anthropic.messages.create({
+          model: options.model,
+          max_tokens: JUDGE_MAX_TOKENS,
+          system: GROUNDEDNESS_SYSTEM_PROMPT,
+          messages: [
+            {
+              role: 'user',
+              content:
+                `Sources:\n${formatSources(sources)}\n\n` +
+                `Question:\n${context.userMessage}\n\n` +
+                `Answer to grade:\n${response}`,
+            },
+          ],
+        });
+
+        const text = result.content
+          .map((block) => (block.type === 'text' ? block.text : ''))
+          .join('');
+        const verdict = parseGroundednessVerdict(text);
+        if (!verdict) {
+          throw new Error('Judge returned no parseable verdict');
+        }
+
+        const passed = verdict.score >= minScore;
+        return {
+          passed,
+          message: passed
+            ? undefined
+            : `Response makes claims not supported by the gathered sources: ${verdict.unsupportedClaims
+                .slice(0, 3)
+                .join('; ') || 'unspecified'}. Remove them or cite a source.`,
+          details: {
+            judgeModel: options.model,
+            score: verdict.score,
+            minScore,
+            unsupportedClaimsCount: verdict.unsupportedClaims.length,
+          },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn({
+          event: 'verification.judge_failed',
+          rule: 'groundedness',
+          model: options.model,
+          error: message,
+          traceId: context.traceId,
+        });
+        return { passed: true, details: { judgeModel: options.model, judgeError: message } };
+      }
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  BUILT_IN_VERIFICATION_RULES,
+  getVerificationRules,
+  isRuleInScope,
+  listVerificationRules,
+  registerVerificationRule,
+  resetVerificationRules,
+  unregisterVerificationRule,
+  type VerificationRule,
+} from './verification-rules.js';
+import { verifyResponse } from './verification.js';
+
+const customRule: VerificationRule = {
+  code: 'NO_TODO',
+  name: 'no_todo',
+  check: (r) => !/TODO/.test(r),
+  feedback: 'Remove TODO markers',
+  severity: 'error',
+};
+
+describe('verification rule registry', () => {
+  afterEach(() => {
+    resetVerificationRules();
+  });
+
+  it('registers built-in rules including the legacy verify contract', () => {
+    const codes = listVerificationRules().map((r) => r.code);
+    expect(codes).toEqual(BUILT_IN_VERIFICATION_RULES.map((r) => r.code));
+    expect(codes).toContain('LEGACY');
+  });
+
+  it('runs registered custom rules in verifyResponse', async () => {
+    registerVerificationRule(customRule);
+
+    const result = await verifyResponse('TODO: finish the weather answer', {
+      userMessage: 'weather',
+      hasSources: false,
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.issues).toContainEqual(
+      expect.objectContaining({ code: 'NO_TODO', message: 'Remove TODO markers' })
+    );
+  });
+
+  it('replaces rules by code and unregisters them', () => {
+    registerVerificationRule(customRule);
+    registerVerificationRule({ ...customRule, severity: 'warning' });
+
+    expect(listVerificationRules().filter((r) => r.code === 'NO_TODO')).toHaveLength(1);
+    expect(unregisterVerificationRule('NO_TODO')).toBe(true);
+    expect(unregisterVerificationRule('NO_TODO')).toBe(false);
+  });
+
+  it('reports legacy verify issues as a single LEGACY issue', async () => {
+    const result = await verifyResponse('> quoted text about the weather', {
+      userMessage: 'weather',
+      hasSources: false,
+    });
+
+    const legacy = result.issues.find((i) => i.code === 'LEGACY');
+    expect(legacy?.severity).toBe('error');
+    expect(legacy?.message).toContain('blockquotes');
+  });
+
+  describe('scope', () => {
+    const scoped: VerificationRule = {
+      ...customRule,
+      scope: { channels: ['C_LEGAL'], agents: ['oncall'] },
+    };
+
+    it('applies unscoped rules everywhere', () => {
+      expect(isRuleInScope(customRule, { userMessage: '', hasSources: false })).toBe(true);
+    });
+
+    it('requires both channel and agent to match when both are set', () => {
+      const base = { userMessage: '', hasSources: false };
+      expect(isRuleInScope(scoped, { ...base, channelId: 'C_LEGAL', agentName: 'oncall' })).toBe(true);
+      expect(isRuleInScope(scoped, { ...base, channelId: 'C_LEGAL', agentName: 'orion' })).toBe(false);
+      expect(isRuleInScope(scoped, { ...base, channelId: 'C_OTHER', agentName: 'oncall' })).toBe(false);
+    });
+
+    it('filters out-of-scope rules from getVerificationRules', () => {
+      registerVerificationRule({ ...customRule, scope: { channels: ['C_LEGAL'] } });
+
+      const inScope = getVerificationRules({ userMessage: '', hasSources: false, channelId: 'C_LEGAL' });
+      const outOfScope = getVerificationRules({ userMessage: '', hasSources: false, channelId: 'C1' });
+
+      expect(inScope.map((r) => r.code)).toContain('NO_TODO');
+      expect(outOfScope.map((r) => r.code)).not.toContain('NO_TODO');
+    });
+  });
+});
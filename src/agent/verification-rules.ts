@@ -0,0 +1,231 @@
+/**
+ * Verification Rule Registry
+ *
+ * Holds the rules `verifyResponse` runs against every attempt. Built-in Slack
+ * formatting/quality rules (Story 2.3) and the legacy `verify()` contract are
+ * registered at load; deployments add their own via `registerVerificationRule`
+ * or the `verification.rules` section of .orion/config.yaml (see verification-config.ts).
+ *
+ * Rules may be scoped to specific channels and/or agents. A rule with no scope
+ * applies everywhere.
+ */
+
+import { detectUncitedClaims } from './citations.js';
+import { verify } from './verify.js';
+import type { VerificationContext, VerificationSeverity } from './verification.js';
+
+/**
+ * Where a rule applies. Both lists are optional; when both are set a response
+ * must match a listed channel AND a listed agent.
+ */
+export interface VerificationRuleScope {
+  /** Slack channel IDs */
+  channels?: string[];
+  /** Agent names (file name without .md) */
+  agents?: string[];
+}
+
+/** Detailed rule outcome (lets a rule override its feedback or attach trace metadata) */
+export interface VerificationCheckOutcome {
+  passed: boolean;
+  /** Overrides the rule's static feedback when the rule fails */
+  message?: string;
+  /** Extra metadata attached to the rule's Langfuse event */
+  details?: Record<string, unknown>;
+}
+
+export type VerificationCheckResult = boolean | VerificationCheckOutcome;
+
+/**
+ * Verification rule definition.
+ * Each rule checks a specific aspect of the response.
+ */
+export interface VerificationRule {
+  /** Issue code reported on failure (e.g. MARKDOWN_BOLD) */
+  code: string;
+  /** snake_case rule name, used for the Langfuse event name */
+  name: string;
+  check: (
+    response: string,
+    context: VerificationContext
+  ) => VerificationCheckResult | Promise<VerificationCheckResult>;
+  feedback: string;
+  severity: VerificationSeverity;
+  scope?: VerificationRuleScope;
+  /** Langfuse event emitted for each evaluation (default: `verification_rule.<name>`) */
+  eventName?: string;
+}
+
+/**
+ * Extract keywords from user message for relevance checking.
+ * Filters common stop words and returns significant terms.
+ */
+function extractKeywords(text: string): string[] {
+  const stopWords = new Set([
+    'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been',
+    'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will',
+    'would', 'could', 'should', 'may', 'might', 'must', 'can',
+    'to', 'of', 'in', 'for', 'on', 'with', 'at', 'by', 'from',
+    'as', 'into', 'through', 'during', 'before', 'after', 'above',
+    'below', 'between', 'under', 'again', 'further', 'then', 'once',
+    'here', 'there', 'when', 'where', 'why', 'how', 'all', 'each',
+    'few', 'more', 'most', 'other', 'some', 'such', 'no', 'nor',
+    'not', 'only', 'own', 'same', 'so', 'than', 'too', 'very',
+    'just', 'also', 'now', 'and', 'but', 'or', 'if', 'what',
+    'which', 'who', 'whom', 'this', 'that', 'these', 'those',
+    'am', 'it', 'its', 'i', 'me', 'my', 'you', 'your', 'he',
+    'she', 'they', 'them', 'we', 'us', 'our', 'hi', 'hello',
+    'please', 'thanks', 'thank',
+  ]);
+
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 2 && !stopWords.has(word));
+}
+
+/**
+ * Built-in rules for response quality (Story 2.3), in evaluation order.
+ */
+export const BUILT_IN_VERIFICATION_RULES: readonly VerificationRule[] = [
+  {
+    code: 'EMPTY_RESPONSE',
+    name: 'not_empty',
+    check: (r) => r.trim().length > 0,
+    feedback: 'Response cannot be empty',
+    severity: 'error',
+  },
+  {
+    code: 'MINIMUM_LENGTH',
+    name: 'minimum_length',
+    check: (r, ctx): boolean => {
+      // Response should be at least as long as a reasonable answer
+      const minLength = Math.min(ctx.userMessage.length, 50);
+      return r.trim().length >= minLength;
+    },
+    feedback: 'Response is too short for the question asked',
+    severity: 'warning',
+  },
+  {
+    code: 'MARKDOWN_BOLD',
+    name: 'no_markdown_bold',
+    check: (r) => !/\*\*[^*]+\*\*/.test(r),
+    feedback: 'Use Slack mrkdwn (*bold*) not markdown (**bold**)',
+    severity: 'error',
+  },
+  {
+    code: 'MARKDOWN_LINK',
+    name: 'no_markdown_links',
+    check: (r) => !/\[[^\]]+\]\([^)]+\)/.test(r),
+    feedback: 'Use Slack mrkdwn (<url|text>) not markdown ([text](url))',
+    severity: 'error',
+  },
+  {
+    code: 'BLOCKQUOTE',
+    name: 'no_blockquotes',
+    check: (r) => !/^>\s?/m.test(r),
+    feedback: 'Do not use blockquotes (>), use bullet points instead',
+    severity: 'error',
+  },
+  {
+    code: 'ADDRESSES_QUESTION',
+    name: 'addresses_question',
+    check: (r, ctx): boolean => {
+      const keywords = extractKeywords(ctx.userMessage);
+      if (keywords.length === 0) return true; // No keywords to check
+      const responseWords = r.toLowerCase();
+      // At least one keyword should appear in response
+      return keywords.some((k) => responseWords.includes(k));
+    },
+    feedback: 'Response does not appear to address the question asked',
+    severity: 'warning',
+  },
+  {
+    code: 'CITES_SOURCES',
+    name: 'cites_sources',
+    check: (r, ctx): boolean => {
+      if (!ctx.hasSources) return true; // No sources to cite
+      // Prefer explicit citation markers or a sources footer.
+      // This aligns with FR6 + Story 2.7: cite sources inline ([1]) or at the end (_Sources:_).
+      const hasFooter =
+        /_Sources:_/i.test(r) ||
+        /📎\s*\*Sources:\*/i.test(r) ||
+        /\bSources:\b/i.test(r);
+      const uncited = detectUncitedClaims(r, [
+        // We only need a non-empty array to activate the "sources gathered" branch.
+        { id: 1, type: 'slack', title: 'dummy' },
+      ]);
+      const hasInlineMarkers = uncited.citationCount > 0;
+      return hasInlineMarkers || hasFooter;
+    },
+    feedback: 'Context was gathered but sources are not cited in the response',
+    severity: 'warning',
+  },
+  {
+    // Story 2.2 verify() contract, kept as a rule for backwards compatibility.
+    code: 'LEGACY',
+    name: 'legacy_verify',
+    check: (r): VerificationCheckResult => {
+      const legacy = verify(r);
+      return { passed: legacy.passed, message: legacy.feedback };
+    },
+    feedback: 'Response failed legacy verification',
+    severity: 'error',
+  },
+];
+
+const registry = new Map<string, VerificationRule>();
+
+/**
+ * Register (or replace, by code) a verification rule.
+ */
+export function registerVerificationRule(rule: VerificationRule): void {
+  registry.set(rule.code, rule);
+}
+
+/**
+ * Remove a rule by code.
+ *
+ * @returns true if a rule was removed
+ */
+export function unregisterVerificationRule(code: string): boolean {
+  return registry.delete(code);
+}
+
+/**
+ * All registered rules, in registration order.
+ */
+export function listVerificationRules(): VerificationRule[] {
+  return [...registry.values()];
+}
+
+/**
+ * Whether a rule applies to the given channel/agent.
+ */
+export function isRuleInScope(rule: VerificationRule, context: VerificationContext): boolean {
+  const { scope } = rule;
+  if (!scope) return true;
+  if (scope.channels?.length && !scope.channels.includes(context.channelId ?? '')) return false;
+  if (scope.agents?.length && !scope.agents.includes(context.agentName ?? '')) return false;
+  return true;
+}
+
+/**
+ * Rules that apply to a verification context, in registration order.
+ */
+export function getVerificationRules(context: VerificationContext): VerificationRule[] {
+  return listVerificationRules().filter((rule) => isRuleInScope(rule, context));
+}
+
+/**
+ * Restore the registry to the built-in rules (for testing or config reload)
+ */
+export function resetVerificationRules(): void {
+  registry.clear();
+  for (const rule of BUILT_IN_VERIFICATION_RULES) {
+    registerVerificationRule(rule);
+  }
+}
+
+resetVerificationRules();
@@ -6,7 +6,7 @@
  * @see AC#4 - Graceful failure response
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 
 import {
   verifyResponse,
@@ -23,16 +23,16 @@ describe('verifyResponse', () => {
   };
 
   describe('EMPTY_RESPONSE rule', () => {
-    it('should fail empty responses', () => {
-      const result = verifyResponse('', baseContext);
+    it('should fail empty responses', async () => {
+      const result = await verifyResponse('', baseContext);
       expect(result.passed).toBe(false);
       expect(result.issues).toContainEqual(
         expect.objectContaining({ code: 'EMPTY_RESPONSE', severity: 'error' })
       );
     });
 
-    it('should fail whitespace-only responses', () => {
-      const result = verifyResponse('   \n\t  ', baseContext);
+    it('should fail whitespace-only responses', async () => {
+      const result = await verifyResponse('   \n\t  ', baseContext);
       expect(result.passed).toBe(false);
       expect(result.issues).toContainEqual(
         expect.objectContaining({ code: 'EMPTY_RESPONSE' })
@@ -41,16 +41,16 @@ describe('verifyResponse', () => {
   });
 
   describe('MARKDOWN_BOLD rule', () => {
-    it('should fail Markdown bold (**bold**)', () => {
-      const result = verifyResponse('This is **bold** text', baseContext);
+    it('should fail Markdown bold (**bold**)', async () => {
+      const result = await verifyResponse('This is **bold** text', baseContext);
       expect(result.passed).toBe(false);
       expect(result.issues).toContainEqual(
         expect.objectContaining({ code: 'MARKDOWN_BOLD', severity: 'error' })
       );
     });
 
-    it('should pass Slack mrkdwn bold (*bold*)', () => {
-      const result = verifyResponse(
+    it('should pass Slack mrkdwn bold (*bold*)', async () => {
+      const result = await verifyResponse(
         'This is *bold* and _italic_ text about weather today',
         baseContext
       );
@@ -61,8 +61,8 @@ describe('verifyResponse', () => {
   });
 
   describe('MARKDOWN_LINK rule', () => {
-    it('should fail Markdown links [text](url)', () => {
-      const result = verifyResponse(
+    it('should fail Markdown links [text](url)', async () => {
+      const result = await verifyResponse(
         'See [docs](https://example.com) for weather info',
         baseContext
       );
@@ -72,8 +72,8 @@ describe('verifyResponse', () => {
       );
     });
 
-    it('should pass Slack mrkdwn links <url|text>', () => {
-      const result = verifyResponse(
+    it('should pass Slack mrkdwn links <url|text>', async () => {
+      const result = await verifyResponse(
         'See <https://example.com|docs> for weather info today',
         baseContext
       );
@@ -84,8 +84,8 @@ describe('verifyResponse', () => {
   });
 
   describe('BLOCKQUOTE rule', () => {
-    it('should fail blockquotes (lines starting with >)', () => {
-      const result = verifyResponse(
+    it('should fail blockquotes (lines starting with >)', async () => {
+      const result = await verifyResponse(
         'Here is a quote:\n> This is quoted weather text',
         baseContext
       );
@@ -97,8 +97,8 @@ describe('verifyResponse', () => {
   });
 
   describe('ADDRESSES_QUESTION rule', () => {
-    it('should warn when response does not address the question', () => {
-      const result = verifyResponse(
+    it('should warn when response does not address the question', async () => {
+      const result = await verifyResponse(
         'Hello! I am here to help you with anything.',
         { userMessage: 'How do I configure the database connection?', hasSources: false }
       );
@@ -107,8 +107,8 @@ describe('verifyResponse', () => {
       );
     });
 
-    it('should pass when response contains question keywords', () => {
-      const result = verifyResponse(
+    it('should pass when response contains question keywords', async () => {
+      const result = await verifyResponse(
         'To configure the database connection, you need to set the DB_HOST variable.',
         { userMessage: 'How do I configure the database connection?', hasSources: false }
       );
@@ -119,8 +119,8 @@ describe('verifyResponse', () => {
   });
 
   describe('CITES_SOURCES rule', () => {
-    it('should warn when sources exist but are not cited', () => {
-      const result = verifyResponse(
+    it('should warn when sources exist but are not cited', async () => {
+      const result = await verifyResponse(
         'The weather is sunny today with temperatures around 75F.',
         { userMessage: 'What is the weather?', hasSources: true }
       );
@@ -129,8 +129,8 @@ describe('verifyResponse', () => {
       );
     });
 
-    it('should pass when sources are cited', () => {
-      const result = verifyResponse(
+    it('should pass when sources are cited', async () => {
+      const result = await verifyResponse(
         'It is sunny today [1].',
         { userMessage: 'What is the weather?', hasSources: true }
       );
@@ -139,8 +139,8 @@ describe('verifyResponse', () => {
       );
     });
 
-    it('should pass when no sources exist', () => {
-      const result = verifyResponse(
+    it('should pass when no sources exist', async () => {
+      const result = await verifyResponse(
         'The weather is typically sunny in California.',
         { userMessage: 'What is the weather?', hasSources: false }
       );
@@ -151,8 +151,8 @@ describe('verifyResponse', () => {
   });
 
   describe('overall verification', () => {
-    it('should pass valid Slack-formatted responses', () => {
-      const result = verifyResponse(
+    it('should pass valid Slack-formatted responses', async () => {
+      const result = await verifyResponse(
         'This is *bold* and _italic_ with <https://example.com|a link> about the weather today',
         baseContext
       );
@@ -160,13 +160,13 @@ describe('verifyResponse', () => {
       expect(result.issues.filter((i) => i.severity === 'error')).toHaveLength(0);
     });
 
-    it('should include structured feedback in result', () => {
-      const result = verifyResponse('**bad** formatting', baseContext);
+    it('should include structured feedback in result', async () => {
+      const result = await verifyResponse('**bad** formatting', baseContext);
       expect(result.feedback).toContain('MARKDOWN_BOLD');
     });
 
-    it('should pass when only warnings exist (no errors)', () => {
-      const result = verifyResponse(
+    it('should pass when only warnings exist (no errors)', async () => {
+      const result = await verifyResponse(
         'ok', // Short but not empty
         { userMessage: 'Tell me about quantum physics', hasSources: false }
       );
@@ -177,6 +177,45 @@ describe('verifyResponse', () => {
   });
 });
 
+describe('verifyResponse Langfuse rule events', () => {
+  it('emits one event per evaluated rule', async () => {
+    const eventMock = vi.fn();
+    const langfuseModule = await import('../observability/langfuse.js');
+    const spy = vi.spyOn(langfuseModule, 'getLangfuse').mockReturnValue({
+      trace: vi.fn(),
+      flushAsync: vi.fn(),
+      shutdownAsync: vi.fn(),
+      score: vi.fn(),
+      event: eventMock,
+    } as never);
+
+    await verifyResponse('This is **bold** about the weather today', {
+      userMessage: 'What is the weather today?',
+      hasSources: false,
+      attempt: 2,
+      traceId: 'trace-1',
+    });
+
+    expect(eventMock).toHaveBeenCalledWith({
+      name: 'verification_rule.no_markdown_bold',
+      metadata: expect.objectContaining({
+        code: 'MARKDOWN_BOLD',
+        severity: 'error',
+        passed: false,
+        attempt: 2,
+        traceId: 'trace-1',
+      }),
+    });
+    expect(eventMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'verification_rule.not_empty',
+        metadata: expect.objectContaining({ passed: true }),
+      })
+    );
+    spy.mockRestore();
+  });
+});
+
 describe('createGracefulFailureResponse', () => {
   it('should return UX-spec compliant error message (Story 2.4)', () => {
     const response = createGracefulFailureResponse(3, [
@@ -3,6 +3,8 @@
  *
  * Verifies agent responses before delivery to users.
  * Returns structured feedback for retry attempts when verification fails.
+ * Rules live in the registry (verification-rules.ts); config-defined and
+ * model-graded rules are added by verification-config.ts.
  *
  * @see Story 2.3 - Response Verification & Retry
  * @see AC#1 - Retry with structured feedback from verification
@@ -42,9 +44,21 @@
  *   GROUP BY trace_id
  * ) t
  * ```
+ *
+ * ### rule_failure_rate (per rule)
+ * ```sql
+ * SELECT name,
+ *   COUNT(CASE WHEN passed = false THEN 1 END)::float / COUNT(*) as rule_failure_rate
+ * FROM events
+ * WHERE name LIKE 'verification_rule.%'
+ *   AND created_at > NOW() - INTERVAL '7 days'
+ * GROUP BY name
+ * ```
  */
 
-import { detectUncitedClaims } from './citations.js';
+import { getLangfuse } from '../observability/langfuse.js';
+import type { ContextSource } from './gather.js';
+import { getVerificationRules, type VerificationCheckResult } from './verification-rules.js';
 
 /** Verification rule severity */
 export type VerificationSeverity = 'error' | 'warning';
@@ -69,153 +83,63 @@ export interface VerificationContext {
   userMessage: string;
   /** Whether sources were gathered */
   hasSources: boolean;
+  /** Gathered sources (used by model-graded rules) */
+  sources?: ContextSource[];
+  /** Slack channel ID (for rule scoping) */
+  channelId?: string;
+  /** Routed agent name (for rule scoping) */
+  agentName?: string;
+  /** Verification attempt number (reported on rule events) */
+  attempt?: number;
+  traceId?: string;
 }
 
 /**
- * Verification rule definition.
- * Each rule checks a specific aspect of the response.
- */
-interface VerificationRule {
-  code: string;
-  name: string;
-  check: (response: string, context: VerificationContext) => boolean;
-  feedback: string;
-  severity: VerificationSeverity;
-}
-
-/**
- * Extract keywords from user message for relevance checking.
- * Filters common stop words and returns significant terms.
- */
-function extractKeywords(text: string): string[] {
-  const stopWords = new Set([
-    'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been',
-    'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will',
-    'would', 'could', 'should', 'may', 'might', 'must', 'can',
-    'to', 'of', 'in', 'for', 'on', 'with', 'at', 'by', 'from',
-    'as', 'into', 'through', 'during', 'before', 'after', 'above',
-    'below', 'between', 'under', 'again', 'further', 'then', 'once',
-    'here', 'there', 'when', 'where', 'why', 'how', 'all', 'each',
-    'few', 'more', 'most', 'other', 'some', 'such', 'no', 'nor',
-    'not', 'only', 'own', 'same', 'so', 'than', 'too', 'very',
-    'just', 'also', 'now', 'and', 'but', 'or', 'if', 'what',
-    'which', 'who', 'whom', 'this', 'that', 'these', 'those',
-    'am', 'it', 'its', 'i', 'me', 'my', 'you', 'your', 'he',
-    'she', 'they', 'them', 'we', 'us', 'our', 'hi', 'hello',
-    'please', 'thanks', 'thank',
-  ]);
-
-  return text
-    .toLowerCase()
-    .replace(/[^\w\s]/g, ' ')
-    .split(/\s+/)
-    .filter((word) => word.length > 2 && !stopWords.has(word));
-}
-
-/**
- * Verification rules for response quality.
- * Rules are checked in order; first 'error' severity failure stops verification.
- */
-const VERIFICATION_RULES: VerificationRule[] = [
-  {
-    code: 'EMPTY_RESPONSE',
-    name: 'not_empty',
-    check: (r) => r.trim().length > 0,
-    feedback: 'Response cannot be empty',
-    severity: 'error',
-  },
-  {
-    code: 'MINIMUM_LENGTH',
-    name: 'minimum_length',
-    check: (r, ctx): boolean => {
-      // Response should be at least as long as a reasonable answer
-      const minLength = Math.min(ctx.userMessage.length, 50);
-      return r.trim().length >= minLength;
-    },
-    feedback: 'Response is too short for the question asked',
-    severity: 'warning',
-  },
-  {
-    code: 'MARKDOWN_BOLD',
-    name: 'no_markdown_bold',
-    check: (r) => !/\*\*[^*]+\*\*/.test(r),
-    feedback: 'Use Slack mrkdwn (*bold*) not markdown (**bold**)',
-    severity: 'error',
-  },
-  {
-    code: 'MARKDOWN_LINK',
-    name: 'no_markdown_links',
-    check: (r) => !/\[[^\]]+\]\([^)]+\)/.test(r),
-    feedback: 'Use Slack mrkdwn (<url|text>) not markdown ([text](url))',
-    severity: 'error',
-  },
-  {
-    code: 'BLOCKQUOTE',
-    name: 'no_blockquotes',
-    check: (r) => !/^>\s?/m.test(r),
-    feedback: 'Do not use blockquotes (>), use bullet points instead',
-    severity: 'error',
-  },
-  {
-    code: 'ADDRESSES_QUESTION',
-    name: 'addresses_question',
-    check: (r, ctx): boolean => {
-      const keywords = extractKeywords(ctx.userMessage);
-      if (keywords.length === 0) return true; // No keywords to check
-      const responseWords = r.toLowerCase();
-      // At least one keyword should appear in response
-      return keywords.some((k) => responseWords.includes(k));
-    },
-    feedback: 'Response does not appear to address the question asked',
-    severity: 'warning',
-  },
-  {
-    code: 'CITES_SOURCES',
-    name: 'cites_sources',
-    check: (r, ctx): boolean => {
-      if (!ctx.hasSources) return true; // No sources to cite
-      // Prefer explicit citation markers or a sources footer.
-      // This aligns with FR6 + Story 2.7: cite sources inline ([1]) or at the end (_Sources:_).
-      const hasFooter =
-        /_Sources:_/i.test(r) ||
-        /📎\s*\*Sources:\*/i.test(r) ||
-        /\bSources:\b/i.test(r);
-      const uncited = detectUncitedClaims(r, [
-        // We only need a non-empty array to activate the "sources gathered" branch.
-        { id: 1, type: 'slack', title: 'dummy' },
-      ]);
-      const hasInlineMarkers = uncited.citationCount > 0;
-      return hasInlineMarkers || hasFooter;
-    },
-    feedback: 'Context was gathered but sources are not cited in the response',
-    severity: 'warning',
-  },
-];
-
-/**
- * Verify a response against all rules.
+ * Verify a response against every registered rule in scope.
+ *
+ * Each evaluated rule emits its own Langfuse event (`verification_rule.<name>`
+ * unless the rule sets `eventName`) so rule pass rates can be charted per rule.
  *
  * @param responseText - The agent's response text
- * @param context - Verification context (user message, sources)
+ * @param context - Verification context (user message, sources, scope)
  * @returns Verification result with pass/fail, issues, and structured feedback
  *
  * @see AC#1 - Returns structured feedback suitable for retry prompt injection
  */
-export function verifyResponse(
+export async function verifyResponse(
   responseText: string,
   context: VerificationContext
-): VerificationResult {
+): Promise<VerificationResult> {
   const issues: VerificationIssue[] = [];
+  const langfuseClient = getLangfuse();
+
+  for (const rule of getVerificationRules(context)) {
+    const startedAt = Date.now();
+    const result: VerificationCheckResult = await rule.check(responseText, context);
+    const outcome = typeof result === 'boolean' ? { passed: result } : result;
 
-  for (const rule of VERIFICATION_RULES) {
-    const passes = rule.check(responseText, context);
-    if (!passes) {
+    if (!outcome.passed) {
       issues.push({
         code: rule.code,
-        message: rule.feedback,
+        message: outcome.message ?? rule.feedback,
         severity: rule.severity,
       });
     }
+
+    langfuseClient?.event?.({
+      name: rule.eventName ?? `verification_rule.${rule.name}`,
+      metadata: {
+        traceId: context.traceId,
+        code: rule.code,
+        severity: rule.severity,
+        passed: outcome.passed,
+        attempt: context.attempt,
+        channelId: context.channelId,
+        agentName: context.agentName,
+        durationMs: Date.now() - startedAt,
+        ...outcome.details,
+      },
+    });
   }
 
   // Fail if any 'error' severity issues exist
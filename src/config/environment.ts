@@ -43,6 +43,13 @@ export const config = {
   anthropicModel: process.env.ANTHROPIC_MODEL ?? defaultAnthropicModel,
   // Optional: used for compaction threshold calculations (Story 2.6)
   anthropicMaxContextTokens: parseOptionalInt('ANTHROPIC_MAX_CONTEXT_TOKENS'),
+  // Agent loop output cap per call (default 8192) and optional per-request token budget
+  anthropicMaxTokens: parseOptionalInt('ANTHROPIC_MAX_TOKENS'),
+  agentTokenBudget: parseOptionalInt('AGENT_TOKEN_BUDGET'),
+  // Tools sent per request, ranked by relevance (default 25; 0 sends every tool)
+  toolSelectionLimit: parseOptionalInt('TOOL_SELECTION_LIMIT'),
+  // Prompt caching (cache_control breakpoints) - on unless explicitly disabled
+  anthropicPromptCaching: process.env.ANTHROPIC_PROMPT_CACHING !== 'false',
 
   // Context compaction (Story 2.6) - all optional; handler applies safe defaults
   compactionThreshold: parseOptionalFloat('COMPACTION_THRESHOLD'),
@@ -50,10 +57,25 @@ export const config = {
   compactionMaxSummaryTokens: parseOptionalInt('COMPACTION_MAX_SUMMARY_TOKENS'),
   compactionTimeoutMs: parseOptionalInt('COMPACTION_TIMEOUT_MS'),
 
+  // End-of-thread conversation summaries: minutes without activity before a thread is summarized
+  threadSummaryIdleMinutes: parseOptionalInt('THREAD_SUMMARY_IDLE_MINUTES'),
+
   // Thread history context (Slack) - optional overrides
   threadHistoryLimit: parseOptionalInt('THREAD_HISTORY_LIMIT'),
   threadHistoryMaxTokens: parseOptionalInt('THREAD_HISTORY_MAX_TOKENS'),
 
+  // Retrieval embeddings - 'local' (hashed n-grams, offline) or 'http' (OpenAI-compatible endpoint)
+  embeddingProvider: process.env.EMBEDDING_PROVIDER ?? 'local',
+  embeddingApiUrl: process.env.EMBEDDING_API_URL ?? '',
+  embeddingApiKey: process.env.EMBEDDING_API_KEY ?? '',
+  embeddingModel: process.env.EMBEDDING_MODEL ?? '',
+  embeddingMinSimilarity: parseOptionalFloat('EMBEDDING_MIN_SIMILARITY'),
+
+  // Memory backend - 'fs' (orion-context/ files), 'kv' (Vercel KV) or 'sqlite' (single file);
+  // defaults to 'kv' when Vercel KV is configured
+  memoryBackend: process.env.MEMORY_BACKEND ?? (process.env.KV_REST_API_URL ? 'kv' : 'fs'),
+  memorySqlitePath: process.env.MEMORY_SQLITE_PATH ?? './orion-context/memory.db',
+
   // GCS
   gcsMemoriesBucket: process.env.GCS_MEMORIES_BUCKET ?? '',
 
@@ -62,6 +84,14 @@ export const config = {
   langfuseSecretKey: process.env.LANGFUSE_SECRET_KEY ?? '',
   langfuseBaseUrl: process.env.LANGFUSE_BASEURL ?? 'https://cloud.langfuse.com',
 
+  // Per-user MCP OAuth - public base URL of this app (callback is {url}/mcp/oauth/callback)
+  // and the secret that encrypts stored tokens
+  publicUrl: process.env.ORION_PUBLIC_URL ?? '',
+  mcpOAuthEncryptionKey: process.env.MCP_OAUTH_ENCRYPTION_KEY ?? '',
+
+  // Bearer token for admin endpoints (/health/costs); unset disables them
+  adminApiToken: process.env.ORION_ADMIN_TOKEN ?? '',
+
   // Application
   nodeEnv: process.env.NODE_ENV ?? 'development',
   port: parseInt(process.env.PORT ?? '3000', 10),
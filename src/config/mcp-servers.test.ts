@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+
+vi.mock('fs');
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  clearMcpServerConfigCache,
+  getMcpServerConfig,
+  getMcpServerConfigs,
+  interpolateEnv,
+  resolveMcpServerConfig,
+} from './mcp-servers.js';
+import { logger } from '../utils/logger.js';
+
+describe('mcp-servers config', () => {
+  beforeEach(() => {
+    clearMcpServerConfigCache();
+    vi.resetAllMocks();
+  });
+
+  describe('interpolateEnv', () => {
+    it('replaces ${VAR} and ${VAR:-default} in nested values', () => {
+      const missing = new Set<string>();
+      const result = interpolateEnv(
+        {
+          url: 'https://${HOST}/mcp',
+          headers: { 'X-Api-Key': '${KEY:-none}' },
+          args: ['--token', '${TOKEN}'],
+          timeout: 5,
+        },
+        { HOST: 'mcp.example.com' },
+        missing
+      );
+
+      expect(result).toEqual({
+        url: 'https://mcp.example.com/mcp',
+        headers: { 'X-Api-Key': 'none' },
+        args: ['--token', ''],
+        timeout: 5,
+      });
+      expect([...missing]).toEqual(['TOKEN']);
+    });
+
+    it('treats empty variables as unset', () => {
+      expect(interpolateEnv('${A:-fallback}', { A: '' })).toBe('fallback');
+    });
+  });
+
+  describe('resolveMcpServerConfig', () => {
+    it('resolves an http server with secrets, headers and timeouts', () => {
+      const server = resolveMcpServerConfig(
+        'github',
+        {
+          type: 'http',
+          enabled: '${GITHUB_MCP_ENABLED:-false}',
+          url: '${GITHUB_MCP_URL}',
+          bearer_token: '${GITHUB_MCP_TOKEN}',
+          headers: { 'X-Team': 'platform' },
+          request_timeout_ms: 60000,
+        },
+        { GITHUB_MCP_ENABLED: 'true', GITHUB_MCP_URL: 'https://gh.internal/mcp', GITHUB_MCP_TOKEN: 'tok' }
+      );
+
+      expect(server).toEqual({
+        name: 'github',
+        type: 'http',
+        enabled: true,
+        description: undefined,
+        url: 'https://gh.internal/mcp',
+        headers: { 'X-Team': 'platform' },
+        bearerToken: 'tok',
+        connectionTimeoutMs: 5000,
+        requestTimeoutMs: 60000,
+      });
+    });
+
+    it('resolves a stdio server', () => {
+      const server = resolveMcpServerConfig(
+        'files',
+        { type: 'stdio', enabled: true, command: 'npx', args: ['-y', 'server-fs'], env: { ROOT: '/data' } },
+        {}
+      );
+
+      expect(server).toEqual(
+        expect.objectContaining({
+          type: 'stdio',
+          enabled: true,
+          command: 'npx',
+          args: ['-y', 'server-fs'],
+          env: { ROOT: '/data' },
+        })
+      );
+    });
+
+    it('resolves circuit breaker settings, leaving invalid values to the defaults', () => {
+      const server = resolveMcpServerConfig(
+        'flaky',
+        {
+          type: 'http',
+          enabled: true,
+          url: 'https://flaky.internal/mcp',
+          circuit_breaker: { failure_threshold: 5, cooldown_ms: -1 },
+        },
+        {}
+      );
+
+      expect(server?.circuitBreaker).toEqual({ failureThreshold: 5, cooldownMs: undefined });
+    });
+
+    it('resolves the resources and prompts switches', () => {
+      const server = resolveMcpServerConfig(
+        'docs',
+        {
+          type: 'http',
+          enabled: true,
+          url: 'https://docs.internal/mcp',
+          resources: '${DOCS_RESOURCES:-true}',
+          prompts: false,
+        },
+        {}
+      );
+
+      expect(server).toMatchObject({ resources: true, prompts: false });
+    });
+
+    it('resolves per-user OAuth settings', () => {
+      const server = resolveMcpServerConfig(
+        'github',
+        {
+          type: 'http',
+          enabled: true,
+          url: 'https://mcp.internal/github',
+          oauth: {
+            authorization_url: 'https://github.com/login/oauth/authorize',
+            token_url: 'https://github.com/login/oauth/access_token',
+            client_id: '${GH_CLIENT_ID}',
+            client_secret: '${GH_CLIENT_SECRET}',
+          },
+        },
+        { GH_CLIENT_ID: 'Iv1.abc' }
+      );
+
+      expect(server?.oauth).toEqual({
+        authorizationUrl: 'https://github.com/login/oauth/authorize',
+        tokenUrl: 'https://github.com/login/oauth/access_token',
+        clientId: 'Iv1.abc',
+        clientSecret: undefined,
+        scopes: [],
+        authorizationParams: undefined,
+      });
+    });
+
+    it('ignores incomplete OAuth settings with a warning', () => {
+      const server = resolveMcpServerConfig(
+        'google',
+        {
+          type: 'http',
+          enabled: true,
+          url: 'https://mcp.internal/google',
+          oauth: { authorization_url: '', token_url: 'https://oauth2.googleapis.com/token', client_id: '' },
+        },
+        {}
+      );
+
+      expect(server?.oauth).toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'mcp_config_oauth_incomplete', server: 'google' })
+      );
+    });
+
+    it('warns about missing variables only for enabled servers', () => {
+      resolveMcpServerConfig('off', { type: 'http', enabled: false, url: '${MISSING_URL}' }, {});
+      expect(logger.warn).not.toHaveBeenCalled();
+
+      resolveMcpServerConfig('on', { type: 'http', enabled: true, url: '${MISSING_URL}' }, {});
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'mcp_config_env_missing', variables: ['MISSING_URL'] })
+      );
+    });
+
+    it('skips entries with an invalid type', () => {
+      expect(
+        resolveMcpServerConfig('bad', { type: 'carrier-pigeon', enabled: true } as never, {})
+      ).toBeNull();
+    });
+  });
+
+  describe('getMcpServerConfigs', () => {
+    it('returns every declared server, including disabled ones', () => {
+      vi.mocked(readFileSync).mockReturnValue(`
+mcp_servers:
+  pagerduty:
+    type: sse
+    enabled: true
+    url: https://pd.internal/mcp
+  docs:
+    type: http
+    enabled: false
+    url: https://docs.internal/mcp
+`);
+
+      const servers = getMcpServerConfigs();
+
+      expect(servers.map((s) => [s.name, s.type, s.enabled])).toEqual([
+        ['pagerduty', 'sse', true],
+        ['docs', 'http', false],
+      ]);
+      expect(getMcpServerConfig('docs')?.url).toBe('https://docs.internal/mcp');
+      expect(readFileSync).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves servers once per load and again only when a referenced variable changes', () => {
+      vi.mocked(readFileSync).mockReturnValue(`
+mcp_servers:
+  github:
+    type: http
+    enabled: true
+    url: \${GITHUB_MCP_URL}
+    bearer_token: \${GITHUB_MCP_TOKEN}
+`);
+      delete process.env.GITHUB_MCP_TOKEN;
+      process.env.GITHUB_MCP_URL = 'https://github.internal/mcp';
+
+      try {
+        const first = getMcpServerConfigs();
+        expect(getMcpServerConfig('github')).toBe(first[0]);
+        expect(getMcpServerConfigs()).toBe(first);
+
+        process.env.GITHUB_MCP_URL = 'https://github-2.internal/mcp';
+        expect(getMcpServerConfig('github')?.url).toBe('https://github-2.internal/mcp');
+
+        const missingWarnings = vi
+          .mocked(logger.warn)
+          .mock.calls.filter(([entry]) => (entry as { event: string }).event === 'mcp_config_env_missing');
+        expect(missingWarnings).toHaveLength(1);
+      } finally {
+        delete process.env.GITHUB_MCP_URL;
+      }
+    });
+
+    it('returns no servers when the file is missing or malformed', () => {
+      vi.mocked(readFileSync).mockImplementation(() => {
+        throw new Error('ENOENT');
+      });
+      expect(getMcpServerConfigs()).toEqual([]);
+
+      clearMcpServerConfigCache();
+      vi.mocked(readFileSync).mockReturnValue('mcp_servers: [unclosed');
+      expect(getMcpServerConfigs()).toEqual([]);
+    });
+  });
+});
@@ -1,43 +1,317 @@
 /**
- * MCP server configuration (env-driven MVP).
+ * MCP server configuration (`mcp_servers` in .orion/config.yaml).
  *
- * Story 3.2: Tool Discovery & Registration
+ * Single source of MCP server definitions for discovery (src/tools/mcp/discovery.ts),
+ * tool routing (src/tools/router.ts) and the Claude SDK view (src/tools/mcp/config.ts).
  *
- * Env surface (MVP):
- * - RUBE_MCP_URL
- * - RUBE_API_KEY
- * - RUBE_MCP_ENABLED
- */
-export type McpServerConfig = {
-  name: string;
-  url: string;
-  enabled: boolean;
-  bearerToken?: string;
-  connectionTimeoutMs?: number;
-  requestTimeoutMs?: number;
-};
-
-function parseEnabled(value: string | undefined): boolean {
-  if (!value) return false;
+ * String values may reference environment variables so secrets stay out of the file:
+ * - `${VAR}` — value of VAR (empty string when unset, logged for enabled servers)
+ * - `${VAR:-default}` — value of VAR, or `default` when unset/empty
+ *
+ * The parsed YAML and the resolved servers are cached. Servers are resolved again
+ * only when a referenced variable changes, and each missing variable is logged once
+ * per server. Call `clearMcpServerConfigCache()` when the file changes.
+ *
+ * @example
+ * mcp_servers:
+ *   rube:
+ *     type: http
+ *     enabled: ${RUBE_MCP_ENABLED:-false}
+ *     url: ${RUBE_MCP_URL}
+ *     bearer_token: ${RUBE_API_KEY}
+ *   github:
+ *     type: http
+ *     enabled: true
+ *     url: https://mcp.internal.example.com/github
+ *     headers:
+ *       X-Api-Key: ${GITHUB_MCP_KEY}
+ *     request_timeout_ms: 60000
+ *     circuit_breaker:
+ *       failure_threshold: 3
+ *       cooldown_ms: 30000
+ *     resources: true   # runbooks etc. as gather-phase context
+ *     prompts: false    # don't offer this server's prompts as suggested prompts
+ *     oauth:            # tool calls act as each Slack user (see src/tools/mcp/oauth.ts)
+ *       authorization_url: https://github.com/login/oauth/authorize
+ *       token_url: https://github.com/login/oauth/access_token
+ *       client_id: ${GITHUB_OAUTH_CLIENT_ID}
+ *       client_secret: ${GITHUB_OAUTH_CLIENT_SECRET}
+ *       scopes: [repo, read:org]
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { logger } from '../utils/logger.js';
+import type {
+  McpServerConfig as McpServerYamlConfig,
+  McpServersConfig,
+  ResolvedMcpServerConfig,
+} from '../tools/mcp/types.js';
+
+/** Runtime server config (env interpolated, defaults applied) */
+export type McpServerConfig = ResolvedMcpServerConfig;
+
+// Defaults aligned with src/tools/mcp/client.ts
+const DEFAULT_CONNECTION_TIMEOUT_MS = 5000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+const TRANSPORTS = new Set(['stdio', 'http', 'sse']);
+
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+let cachedEntries: Record<string, McpServerYamlConfig> | null = null;
+
+/**
+ * Servers resolved from one load of the `mcp_servers` section.
+ */
+interface ResolvedServersCache {
+  entries: Record<string, McpServerYamlConfig>;
+  /** Referenced variables and the values the servers were resolved with */
+  env: Map<string, string | undefined>;
+  servers: McpServerConfig[];
+}
+
+let resolvedServers: ResolvedServersCache | null = null;
+
+/** `server:VAR` pairs already reported as missing */
+const reportedMissingEnv = new Set<string>();
+
+/**
+ * Replace `${VAR}` / `${VAR:-default}` references in every string of a value.
+ *
+ * @param value - String, array or object (other values are returned unchanged)
+ * @param env - Variables to read (default: process.env)
+ * @param missing - Collects names of referenced variables that are unset
+ */
+export function interpolateEnv<T>(
+  value: T,
+  env: NodeJS.ProcessEnv = process.env,
+  missing: Set<string> = new Set()
+): T {
+  if (typeof value === 'string') {
+    return value.replace(ENV_REFERENCE, (_match, name: string, fallback?: string) => {
+      const resolved = env[name];
+      if (resolved !== undefined && resolved !== '') return resolved;
+      if (fallback !== undefined) return fallback;
+      missing.add(name);
+      return '';
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolateEnv(item, env, missing)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env, missing)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Parse a boolean-ish config value (`true`, `"1"`, `"yes"`, `"on"`).
+ */
+export function parseEnabled(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return false;
   const v = value.trim().toLowerCase();
   return v === 'true' || v === '1' || v === 'yes' || v === 'on';
 }
 
+function parsePositiveInt(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? Number.parseInt(value, 10) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function parseTimeout(value: unknown, fallback: number): number {
+  return parsePositiveInt(value) ?? fallback;
+}
+
+/**
+ * Read the raw `mcp_servers` section (cached; no env interpolation).
+ *
+ * @param basePath - Project root (defaults to process.cwd())
+ */
+export function readMcpServerEntries(
+  basePath: string = process.cwd()
+): Record<string, McpServerYamlConfig> {
+  if (cachedEntries) {
+    return cachedEntries;
+  }
+
+  const configPath = join(basePath, '.orion', 'config.yaml');
+
+  let content: string;
+  try {
+    content = readFileSync(configPath, 'utf-8');
+  } catch {
+    logger.warn({
+      event: 'mcp_config_not_found',
+      path: configPath,
+      message: 'MCP config not found, using empty config',
+    });
+    cachedEntries = {};
+    return cachedEntries;
+  }
+
+  let parsed: Partial<McpServersConfig> | null;
+  try {
+    parsed = parseYaml(content) as Partial<McpServersConfig> | null;
+  } catch (error) {
+    logger.error({
+      event: 'mcp_config_invalid',
+      path: configPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    cachedEntries = {};
+    return cachedEntries;
+  }
+
+  if (!parsed?.mcp_servers) {
+    logger.warn({
+      event: 'mcp_config_empty',
+      message: 'No mcp_servers section in .orion/config.yaml',
+    });
+    cachedEntries = {};
+    return cachedEntries;
+  }
+
+  cachedEntries = parsed.mcp_servers;
+  return cachedEntries;
+}
+
+/**
+ * Resolve one `mcp_servers` entry.
+ *
+ * @returns Runtime config, or null if the entry has no valid `type`
+ */
+export function resolveMcpServerConfig(
+  name: string,
+  entry: McpServerYamlConfig,
+  env: NodeJS.ProcessEnv = process.env
+): McpServerConfig | null {
+  const missing = new Set<string>();
+  const raw = interpolateEnv(entry, env, missing) as McpServerYamlConfig & Record<string, unknown>;
+
+  if (!raw || !TRANSPORTS.has(raw.type)) {
+    logger.warn({
+      event: 'mcp_config_server_invalid',
+      server: name,
+      reason: `invalid type: ${String(raw?.type)}`,
+    });
+    return null;
+  }
+
+  const enabled = parseEnabled(raw.enabled);
+  const unreported = [...missing].filter(
+    (variable) => !reportedMissingEnv.has(`${name}:${variable}`)
+  );
+  if (enabled && unreported.length > 0) {
+    unreported.forEach((variable) => reportedMissingEnv.add(`${name}:${variable}`));
+    logger.warn({
+      event: 'mcp_config_env_missing',
+      server: name,
+      variables: unreported,
+    });
+  }
+
+  const resolved: McpServerConfig = {
+    name,
+    type: raw.type,
+    enabled,
+    description: raw.description,
+    connectionTimeoutMs: parseTimeout(raw.connection_timeout_ms, DEFAULT_CONNECTION_TIMEOUT_MS),
+    requestTimeoutMs: parseTimeout(raw.request_timeout_ms, DEFAULT_REQUEST_TIMEOUT_MS),
+  };
+
+  if (raw.circuit_breaker) {
+    resolved.circuitBreaker = {
+      failureThreshold: parsePositiveInt(raw.circuit_breaker.failure_threshold),
+      cooldownMs: parsePositiveInt(raw.circuit_breaker.cooldown_ms),
+    };
+  }
+  if (raw.resources !== undefined) resolved.resources = parseEnabled(raw.resources);
+  if (raw.prompts !== undefined) resolved.prompts = parseEnabled(raw.prompts);
+
+  if (raw.type === 'stdio') {
+    resolved.command = raw.command;
+    resolved.args = raw.args;
+    resolved.env = raw.env;
+  } else {
+    resolved.url = raw.url ?? '';
+    resolved.headers = raw.headers;
+    resolved.bearerToken = raw.bearer_token || undefined;
+    if (raw.oauth) {
+      const { authorization_url, token_url, client_id } = raw.oauth;
+      if (authorization_url && token_url && client_id) {
+        resolved.oauth = {
+          authorizationUrl: authorization_url,
+          tokenUrl: token_url,
+          clientId: client_id,
+          clientSecret: raw.oauth.client_secret || undefined,
+          scopes: raw.oauth.scopes ?? [],
+          authorizationParams: raw.oauth.authorization_params,
+        };
+      } else if (enabled) {
+        logger.warn({
+          event: 'mcp_config_oauth_incomplete',
+          server: name,
+          reason: 'oauth needs authorization_url, token_url and client_id',
+        });
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * All declared MCP servers (enabled and disabled, so discovery can remove
+ * tools of servers that were switched off).
+ */
 export function getMcpServerConfigs(): McpServerConfig[] {
-  const rubeEnabled = parseEnabled(process.env.RUBE_MCP_ENABLED);
+  const entries = readMcpServerEntries();
+  if (resolvedServers?.entries === entries && !envChanged(resolvedServers.env)) {
+    return resolvedServers.servers;
+  }
 
-  // Return configured servers with enabled flag so discovery can remove disabled servers' tools.
-  return [
-    {
-      name: 'rube',
-      url: process.env.RUBE_MCP_URL ?? '',
-      enabled: rubeEnabled,
-      bearerToken: process.env.RUBE_API_KEY ?? '',
-      // Defaults aligned with src/tools/mcp/client.ts
-      connectionTimeoutMs: 5000,
-      requestTimeoutMs: 30000,
-    },
-  ];
+  const servers = Object.entries(entries)
+    .map(([name, entry]) => resolveMcpServerConfig(name, entry))
+    .filter((server): server is McpServerConfig => server !== null);
+  resolvedServers = { entries, env: snapshotEnv(entries), servers };
+  return servers;
 }
 
+/**
+ * Look up one declared server by name.
+ */
+export function getMcpServerConfig(name: string): McpServerConfig | undefined {
+  return getMcpServerConfigs().find((server) => server.name === name);
+}
 
+/**
+ * Current values of every variable the entries reference.
+ */
+function snapshotEnv(
+  entries: Record<string, McpServerYamlConfig>
+): Map<string, string | undefined> {
+  const names = [...JSON.stringify(entries).matchAll(ENV_REFERENCE)].map((match) => match[1]);
+  return new Map(names.map((name) => [name, process.env[name]]));
+}
+
+function envChanged(snapshot: Map<string, string | undefined>): boolean {
+  for (const [name, value] of snapshot) {
+    if (process.env[name] !== value) return true;
+  }
+  return false;
+}
+
+/**
+ * Clear the cached `mcp_servers` section (for testing or config reload)
+ */
+export function clearMcpServerConfigCache(): void {
+  cachedEntries = null;
+  resolvedServers = null;
+  reportedMissingEnv.clear();
+}
@@ -9,6 +9,9 @@ import {
   ANTHROPIC_MODELS,
   DEFAULT_MODEL,
   MODEL_INFO,
+  MODEL_PRICING,
+  calculateCost,
+  getModelPricing,
   isValidModel,
   type AnthropicModel,
 } from './models.js';
@@ -59,6 +62,15 @@ describe('models config', () => {
     it('should have correct info for HAIKU_3_5', () => {
       expect(MODEL_INFO[ANTHROPIC_MODELS.HAIKU_3_5].name).toBe('Haiku 3.5');
     });
+
+    it('should rank models by capability tier', () => {
+      expect(MODEL_INFO[ANTHROPIC_MODELS.HAIKU_3_5].tier).toBeLessThan(
+        MODEL_INFO[ANTHROPIC_MODELS.SONNET_4].tier
+      );
+      expect(MODEL_INFO[ANTHROPIC_MODELS.SONNET_4].tier).toBeLessThan(
+        MODEL_INFO[ANTHROPIC_MODELS.OPUS_4].tier
+      );
+    });
   });
 
   describe('isValidModel', () => {
@@ -80,5 +92,55 @@ describe('models config', () => {
       expect(isValidModel('claude-opus-4-20250515')).toBe(false);
     });
   });
-});
 
+  describe('MODEL_PRICING', () => {
+    it('should price every model', () => {
+      for (const model of Object.values(ANTHROPIC_MODELS)) {
+        expect(MODEL_PRICING[model].input).toBeGreaterThan(0);
+      }
+    });
+
+    it('should price cache writes above and cache reads below input', () => {
+      for (const pricing of Object.values(MODEL_PRICING)) {
+        expect(pricing.cacheWrite).toBeGreaterThan(pricing.input);
+        expect(pricing.cacheRead).toBeLessThan(pricing.input);
+      }
+    });
+  });
+
+  describe('getModelPricing', () => {
+    it('should fall back to the model family for unlisted versions', () => {
+      expect(getModelPricing('claude-opus-4-1-20250805')).toEqual(
+        MODEL_PRICING[ANTHROPIC_MODELS.OPUS_4]
+      );
+      expect(getModelPricing('claude-3-haiku-20240307')).toEqual(
+        MODEL_PRICING[ANTHROPIC_MODELS.HAIKU_3_5]
+      );
+    });
+
+    it('should return undefined for unknown models', () => {
+      expect(getModelPricing('gpt-4o')).toBeUndefined();
+    });
+  });
+
+  describe('calculateCost', () => {
+    it('should price each token tier separately', () => {
+      const cost = calculateCost(ANTHROPIC_MODELS.SONNET_4, {
+        inputTokens: 1_000_000,
+        outputTokens: 100_000,
+        cacheCreationInputTokens: 200_000,
+        cacheReadInputTokens: 1_000_000,
+      });
+
+      expect(cost.input).toBeCloseTo(3);
+      expect(cost.output).toBeCloseTo(1.5);
+      expect(cost.cacheWrite).toBeCloseTo(0.75);
+      expect(cost.cacheRead).toBeCloseTo(0.3);
+      expect(cost.total).toBeCloseTo(5.55);
+    });
+
+    it('should cost nothing for unknown models', () => {
+      expect(calculateCost('gpt-4o', { inputTokens: 1000, outputTokens: 1000 }).total).toBe(0);
+    });
+  });
+});
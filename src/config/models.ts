@@ -1,10 +1,11 @@
 /**
  * Anthropic Model Configuration
  *
- * Single source of truth for all Claude model identifiers.
- * Update model versions here when new releases are available.
+ * Single source of truth for all Claude model identifiers and their pricing.
+ * Update model versions (and MODEL_PRICING) here when new releases are available.
  *
  * @see https://docs.anthropic.com/en/docs/about-claude/models
+ * @see https://docs.anthropic.com/en/docs/about-claude/pricing
  */
 
 /**
@@ -31,21 +32,39 @@ export type AnthropicModel = (typeof ANTHROPIC_MODELS)[keyof typeof ANTHROPIC_MO
  */
 export const DEFAULT_MODEL: AnthropicModel = ANTHROPIC_MODELS.SONNET_4;
 
+/**
+ * Model description for documentation/logging
+ */
+export interface ModelInfo {
+  name: string;
+  description: string;
+  /** Capability (and price) rank; model routing starts low and escalates up */
+  tier: number;
+  /** Supports extended thinking (`thinking` request param) */
+  extendedThinking: boolean;
+}
+
 /**
  * Model descriptions for documentation/logging
  */
-export const MODEL_INFO: Record<AnthropicModel, { name: string; description: string }> = {
+export const MODEL_INFO: Record<AnthropicModel, ModelInfo> = {
   [ANTHROPIC_MODELS.SONNET_4]: {
     name: 'Sonnet 4',
     description: 'Balanced performance and cost - recommended default',
+    tier: 2,
+    extendedThinking: true,
   },
   [ANTHROPIC_MODELS.OPUS_4]: {
     name: 'Opus 4',
     description: 'Most capable model for complex reasoning tasks',
+    tier: 3,
+    extendedThinking: true,
   },
   [ANTHROPIC_MODELS.HAIKU_3_5]: {
     name: 'Haiku 3.5',
     description: 'Fastest and most cost-effective for simple tasks',
+    tier: 1,
+    extendedThinking: false,
   },
 };
 
@@ -56,3 +75,99 @@ export function isValidModel(model: string): model is AnthropicModel {
   return Object.values(ANTHROPIC_MODELS).includes(model as AnthropicModel);
 }
 
+/**
+ * Token prices in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Prompt cache writes (5-minute TTL, 1.25x input) */
+  cacheWrite: number;
+  /** Prompt cache reads (0.1x input) */
+  cacheRead: number;
+}
+
+/**
+ * Pricing per model (USD per million tokens)
+ */
+export const MODEL_PRICING: Record<AnthropicModel, ModelPricing> = {
+  [ANTHROPIC_MODELS.SONNET_4]: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  [ANTHROPIC_MODELS.OPUS_4]: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  [ANTHROPIC_MODELS.HAIKU_3_5]: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+/**
+ * Token usage of one or more LLM calls
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+}
+
+/**
+ * Cost of token usage in USD
+ */
+export interface CostBreakdown {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+  total: number;
+}
+
+/**
+ * Map a model ID to its catalog entry.
+ *
+ * Unknown IDs fall back to the catalog model of the same family (`opus`,
+ * `haiku`, `sonnet`), so newer snapshots are still priced and ranked
+ * approximately.
+ *
+ * @returns Catalog model, or undefined if the model is not recognized
+ */
+export function toCatalogModel(model: string): AnthropicModel | undefined {
+  if (isValidModel(model)) return model;
+  if (model.includes('opus')) return ANTHROPIC_MODELS.OPUS_4;
+  if (model.includes('haiku')) return ANTHROPIC_MODELS.HAIKU_3_5;
+  if (model.includes('sonnet')) return ANTHROPIC_MODELS.SONNET_4;
+  return undefined;
+}
+
+/**
+ * Whether a model supports extended thinking (see `toCatalogModel` for unknown IDs)
+ */
+export function supportsExtendedThinking(model: string): boolean {
+  const catalogModel = toCatalogModel(model);
+  return catalogModel ? MODEL_INFO[catalogModel].extendedThinking : false;
+}
+
+/**
+ * Look up pricing for a model ID (see `toCatalogModel` for unknown IDs).
+ *
+ * @returns Pricing, or undefined if the model is not recognized
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  const catalogModel = toCatalogModel(model);
+  return catalogModel ? MODEL_PRICING[catalogModel] : undefined;
+}
+
+/**
+ * Calculate the USD cost of token usage.
+ *
+ * `inputTokens` excludes cached tokens (as reported by the API), so each
+ * input tier is billed separately. Unknown models cost 0.
+ */
+export function calculateCost(model: string, usage: TokenUsage): CostBreakdown {
+  const pricing = getModelPricing(model);
+  if (!pricing) return { input: 0, output: 0, cacheWrite: 0, cacheRead: 0, total: 0 };
+
+  const perToken = (pricePerMillion: number, tokens = 0): number =>
+    (tokens * pricePerMillion) / 1_000_000;
+  const input = perToken(pricing.input, usage.inputTokens);
+  const output = perToken(pricing.output, usage.outputTokens);
+  const cacheWrite = perToken(pricing.cacheWrite, usage.cacheCreationInputTokens);
+  const cacheRead = perToken(pricing.cacheRead, usage.cacheReadInputTokens);
+
+  return { input, output, cacheWrite, cacheRead, total: input + output + cacheWrite + cacheRead };
+}
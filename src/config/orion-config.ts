@@ -0,0 +1,355 @@
+/**
+ * Orion YAML configuration (.orion/config.yaml)
+ *
+ * Shared, cached reader for the optional sections of `.orion/config.yaml`
+ * that modules consume at runtime (agent routing, model routing, response mode, verification rules, tool approvals, quotas, memory retention, etc.).
+ *
+ * Missing or malformed files resolve to an empty config — callers apply their
+ * own defaults so the bot keeps working without a config file.
+ *
+ * `watchOrionConfig()` polls the file and, on change, clears this cache and
+ * notifies `onOrionConfigChange` listeners so modules with derived state
+ * (MCP servers, verification rules) can reload without a restart.
+ */
+
+import { readFileSync, unwatchFile, watchFile, type Stats } from 'node:fs';
+import { join } from 'node:path';
+import YAML from 'yaml';
+import { logger } from '../utils/logger.js';
+import type { ResponseMode } from '../agent/response-mode.js';
+import type { RequestComplexity } from '../agent/model-routing.js';
+import type { MemoryTypeValue } from '../memory/index.js';
+
+/**
+ * Agent routing section.
+ *
+ * @example
+ * routing:
+ *   default_agent: orion
+ *   channels:
+ *     C0123RELEASE: release-manager
+ *   classifier:
+ *     enabled: true
+ *     min_score: 2
+ */
+export interface RoutingConfig {
+  /** Agent used when nothing else matches (default: orion) */
+  default_agent?: string;
+  /** Slack channel ID → agent name */
+  channels?: Record<string, string>;
+  /** Keyword classifier over agent `keywords` frontmatter */
+  classifier?: {
+    enabled?: boolean;
+    /** Minimum keyword hits required to pick a specialist (default: 2) */
+    min_score?: number;
+  };
+}
+
+/**
+ * Model routing section (see src/agent/model-routing.ts).
+ *
+ * Agents with a `model` in their frontmatter are never routed.
+ *
+ * @example
+ * model_routing:
+ *   enabled: true
+ *   models:
+ *     simple: claude-3-5-haiku-20241022
+ *     tool_heavy: claude-sonnet-4-20250514
+ *     long_reasoning: claude-opus-4-20250514
+ *   max_model: claude-opus-4-20250514
+ *   escalate_after_tool_loops: 4
+ *   escalate_on_verification_failure: true
+ */
+export interface ModelRoutingConfig {
+  /** Default: true when the section is present */
+  enabled?: boolean;
+  /** Starting model per request class */
+  models?: Partial<Record<RequestComplexity, string>>;
+  /** Strongest model escalation may reach (default: Opus) */
+  max_model?: string;
+  /** Escalate once a verification attempt has run this many tool loops (default: 4, 0 = never) */
+  escalate_after_tool_loops?: number;
+  /** Retry failed verification on the next stronger model (default: true) */
+  escalate_on_verification_failure?: boolean;
+}
+
+/**
+ * Response delivery section (see ResponseMode in src/agent/loop.ts).
+ *
+ * Precedence: channel override > agent `response_mode` frontmatter > default.
+ *
+ * @example
+ * response_mode:
+ *   default: verified
+ *   channels:
+ *     C0123ENGCHAT: passthrough
+ */
+export interface ResponseModeConfig {
+  default?: ResponseMode;
+  /** Slack channel ID → response mode */
+  channels?: Record<string, ResponseMode>;
+}
+
+/**
+ * One config-defined verification rule (see src/agent/verification-config.ts).
+ *
+ * @example
+ * verification:
+ *   rules:
+ *     - type: banned_phrases
+ *       code: NO_GUARANTEES
+ *       phrases: ["guaranteed uptime"]
+ *       scope:
+ *         channels: [C0123SUPPORT]
+ */
+export interface VerificationRuleConfig {
+  type: 'regex' | 'max_length' | 'min_length' | 'banned_phrases' | 'required_disclaimer' | 'groundedness';
+  /** Issue code (default: upper-cased type) */
+  code?: string;
+  name?: string;
+  /** error blocks delivery and triggers a retry; warning is reported only (default: error) */
+  severity?: 'error' | 'warning';
+  feedback?: string;
+  scope?: { channels?: string[]; agents?: string[] };
+  /** regex */
+  pattern?: string;
+  flags?: string;
+  match?: 'forbid' | 'require';
+  /** max_length / min_length */
+  max?: number;
+  min?: number;
+  /** banned_phrases */
+  phrases?: string[];
+  /** required_disclaimer */
+  text?: string;
+  /** groundedness: judge model (default: global model) and pass threshold (0-1) */
+  model?: string;
+  min_score?: number;
+}
+
+/**
+ * Verification section (rules run in addition to the built-in rules).
+ */
+export interface VerificationConfig {
+  rules?: VerificationRuleConfig[];
+}
+
+/**
+ * Tool approval section (see src/tools/approval-policy.ts).
+ *
+ * Patterns match registered tool names (`server__tool` for MCP) with `*` wildcards.
+ *
+ * @example
+ * approvals:
+ *   require: ["rube__*SEND*", "jira__create_issue"]
+ *   exempt: ["rube__*SEARCH*"]
+ *   mcp_destructive_hint: true
+ *   timeout_seconds: 300
+ */
+export interface ApprovalsConfig {
+  /** Tools that always require approval */
+  require?: string[];
+  /** Tools that never require approval (wins over `require` and annotations) */
+  exempt?: string[];
+  /** Require approval for MCP tools annotated `destructiveHint: true` (default: true) */
+  mcp_destructive_hint?: boolean;
+  /** How long to wait for a decision before treating it as denied (default: 300) */
+  timeout_seconds?: number;
+  /** Slack user IDs allowed to decide besides the requesting user */
+  approvers?: string[];
+}
+
+/**
+ * One sliding-window limit (see src/agent/quotas.ts).
+ *
+ * Omitted metrics are unlimited.
+ */
+export interface QuotaLimitConfig {
+  /** Window length in seconds (e.g. 3600 for "per hour") */
+  window_seconds: number;
+  requests?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+  tool_calls?: number;
+}
+
+/**
+ * Usage quota section, keyed by Slack user, channel and team.
+ *
+ * @example
+ * quotas:
+ *   enabled: true
+ *   user:
+ *     - window_seconds: 3600
+ *       requests: 30
+ *       tool_calls: 200
+ *   channel:
+ *     - window_seconds: 86400
+ *       input_tokens: 5000000
+ *   exempt_users: [U0123ADMIN]
+ */
+export interface QuotasConfig {
+  /** Default: true when the section is present */
+  enabled?: boolean;
+  user?: QuotaLimitConfig[];
+  channel?: QuotaLimitConfig[];
+  team?: QuotaLimitConfig[];
+  /** Slack user IDs never limited */
+  exempt_users?: string[];
+}
+
+/**
+ * Memory section (see src/memory/retention.ts).
+ *
+ * @example
+ * memory:
+ *   retention_days:
+ *     conversation: 90
+ *     feedback: 365
+ */
+export interface MemoryConfig {
+  /** Maximum age in days (since last update) per memory type; omitted types never expire */
+  retention_days?: Partial<Record<MemoryTypeValue, number>>;
+}
+
+/**
+ * Directories for agent components (relative to the project root).
+ */
+export interface PathsConfig {
+  agents?: string;
+  /** Step-file workflows (see src/workflows/loader.ts) */
+  workflows?: string;
+  context?: string;
+  [key: string]: string | undefined;
+}
+
+/**
+ * Parsed `.orion/config.yaml` (only the sections consumed by src/).
+ */
+export interface OrionConfigFile {
+  name?: string;
+  model?: { provider?: string; default?: string };
+  routing?: RoutingConfig;
+  model_routing?: ModelRoutingConfig;
+  response_mode?: ResponseModeConfig;
+  verification?: VerificationConfig;
+  approvals?: ApprovalsConfig;
+  quotas?: QuotasConfig;
+  memory?: MemoryConfig;
+  /** Slack user IDs allowed to export or erase other users' data */
+  admins?: string[];
+  paths?: PathsConfig;
+  [section: string]: unknown;
+}
+
+let cachedConfig: OrionConfigFile | null = null;
+
+/**
+ * Load `.orion/config.yaml`, cached after the first read.
+ *
+ * @param basePath - Project root (defaults to process.cwd())
+ * @returns Parsed config, or `{}` when the file is missing/invalid
+ */
+export function loadOrionConfig(basePath: string = process.cwd()): OrionConfigFile {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = join(basePath, '.orion', 'config.yaml');
+
+  try {
+    const raw = readFileSync(configPath, 'utf-8');
+    const parsed = YAML.parse(raw) as unknown;
+    cachedConfig =
+      parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as OrionConfigFile)
+        : {};
+  } catch (error) {
+    logger.warn({
+      event: 'orion_config_unavailable',
+      path: configPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    cachedConfig = {};
+  }
+
+  return cachedConfig;
+}
+
+/**
+ * Clear cached config (for testing or config reload)
+ */
+export function clearOrionConfigCache(): void {
+  cachedConfig = null;
+}
+
+type OrionConfigListener = () => void;
+
+const listeners = new Set<OrionConfigListener>();
+let watchedPath: string | null = null;
+
+/** Poll interval for config changes */
+const CONFIG_WATCH_INTERVAL_MS = 2000;
+
+/**
+ * Register a callback run after `.orion/config.yaml` changes.
+ *
+ * @returns Unsubscribe function
+ */
+export function onOrionConfigChange(listener: OrionConfigListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Clear the cache and notify listeners (also used by the file watcher).
+ */
+export function reloadOrionConfig(): void {
+  clearOrionConfigCache();
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (error) {
+      logger.error({
+        event: 'orion_config_listener_failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Watch `.orion/config.yaml` for changes (idempotent).
+ *
+ * Uses stat polling so edits, atomic renames and mounted ConfigMap updates
+ * are all picked up. The watcher does not keep the process alive.
+ *
+ * @param basePath - Project root (defaults to process.cwd())
+ */
+export function watchOrionConfig(basePath: string = process.cwd()): void {
+  if (watchedPath) return;
+  watchedPath = join(basePath, '.orion', 'config.yaml');
+
+  const watcher = watchFile(
+    watchedPath,
+    { interval: CONFIG_WATCH_INTERVAL_MS, persistent: false },
+    (curr: Stats, prev: Stats) => {
+      if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+      logger.info({ event: 'orion_config_reloaded', path: watchedPath });
+      reloadOrionConfig();
+    }
+  );
+  watcher.unref?.();
+}
+
+/**
+ * Stop watching `.orion/config.yaml`
+ */
+export function unwatchOrionConfig(): void {
+  if (!watchedPath) return;
+  unwatchFile(watchedPath);
+  watchedPath = null;
+}
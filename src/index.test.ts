@@ -17,6 +17,7 @@ const mockApp = {
   assistant: vi.fn(),
   event: vi.fn(),
   start: vi.fn().mockResolvedValue(undefined),
+  client: {},
 };
 
 const mockReceiver = {
@@ -36,7 +37,38 @@ vi.mock('./slack/assistant.js', () => ({
   assistant: mockAssistant,
 }));
 
+// Mock the run recovery sweep
+vi.mock('./slack/run-recovery.js', () => ({
+  startRunRecovery: vi.fn(() => vi.fn()),
+}));
+
 // Mock the logger
+// Mock config hot reload (avoid watching the real config file)
+vi.mock('./config/orion-config.js', () => ({
+  onOrionConfigChange: vi.fn(),
+  watchOrionConfig: vi.fn(),
+}));
+
+vi.mock('./tools/mcp/discovery.js', () => ({
+  reloadMcpServers: vi.fn(),
+}));
+
+vi.mock('./slack/mcp-connect.js', () => ({
+  registerMcpConnectLinks: vi.fn(),
+}));
+
+vi.mock('./slack/thread-summarizer.js', () => ({
+  startThreadSummarizer: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('./memory/retention.js', () => ({
+  startRetentionSweeper: vi.fn(() => vi.fn()),
+}));
+
+vi.mock('./tools/memory-tools.js', () => ({
+  registerMemoryTools: vi.fn(),
+}));
+
 vi.mock('./utils/logger.js', () => ({
   logger: {
     debug: vi.fn(),
@@ -95,4 +127,62 @@ describe('Application Startup', () => {
       })
     );
   });
+
+  it('should start the idle thread summarizer', async () => {
+    const { startApp } = await import('./index.js');
+    const { startThreadSummarizer } = await import('./slack/thread-summarizer.js');
+
+    await startApp();
+
+    expect(startThreadSummarizer).toHaveBeenCalledWith(mockApp.client);
+  });
+
+  it('should send MCP connect links through the Slack client', async () => {
+    const { startApp } = await import('./index.js');
+    const { registerMcpConnectLinks } = await import('./slack/mcp-connect.js');
+
+    await startApp();
+
+    expect(registerMcpConnectLinks).toHaveBeenCalledWith(mockApp.client);
+  });
+
+  it('should start the memory retention sweeper', async () => {
+    const { startApp } = await import('./index.js');
+    const { startRetentionSweeper } = await import('./memory/retention.js');
+
+    await startApp();
+
+    expect(startRetentionSweeper).toHaveBeenCalled();
+  });
+
+  it('should register the memory tools', async () => {
+    const { startApp } = await import('./index.js');
+    const { registerMemoryTools } = await import('./tools/memory-tools.js');
+
+    await startApp();
+
+    expect(registerMemoryTools).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sweep interrupted agent runs after starting', async () => {
+    const { startApp } = await import('./index.js');
+    const { startRunRecovery } = await import('./slack/run-recovery.js');
+
+    await startApp();
+
+    expect(startRunRecovery).toHaveBeenCalledTimes(1);
+  });
+
+  it('should watch .orion/config.yaml and reload MCP servers on change', async () => {
+    const { startApp } = await import('./index.js');
+    const { onOrionConfigChange, watchOrionConfig } = await import('./config/orion-config.js');
+    const { reloadMcpServers } = await import('./tools/mcp/discovery.js');
+
+    await startApp();
+
+    expect(watchOrionConfig).toHaveBeenCalledTimes(1);
+    const listener = vi.mocked(onOrionConfigChange).mock.calls[0][0];
+    listener();
+    expect(reloadMcpServers).toHaveBeenCalledTimes(1);
+  });
 });
@@ -18,6 +18,15 @@ import { pathToFileURL } from 'node:url';
 import { createSlackApp, isSocketMode } from './slack/app.js';
 import { assistant } from './slack/assistant.js';
 import { handleAppMention } from './slack/handlers/app-mention.js';
+import { startRunRecovery } from './slack/run-recovery.js';
+import { startThreadSummarizer } from './slack/thread-summarizer.js';
+import { registerMcpConnectLinks } from './slack/mcp-connect.js';
+import { startRetentionSweeper } from './memory/retention.js';
+import { onOrionConfigChange, watchOrionConfig } from './config/orion-config.js';
+import { reloadMcpServers } from './tools/mcp/discovery.js';
+import { closeStdioTransports } from './tools/mcp/stdio-transport.js';
+import { registerMemoryTools } from './tools/memory-tools.js';
+import { resetConfiguredVerificationRules } from './agent/verification-config.js';
 import { config } from './config/environment.js';
 import { logger } from './utils/logger.js';
 import { shutdown as shutdownLangfuse } from './observability/langfuse.js';
@@ -35,6 +44,9 @@ export async function startApp(): Promise<void> {
     nodeEnv: config.nodeEnv,
   });
 
+  // Static tools the agent can call alongside MCP tools
+  registerMemoryTools();
+
   // Create and configure Slack app with ExpressReceiver
   const { app } = createSlackApp();
 
@@ -57,12 +69,38 @@ export async function startApp(): Promise<void> {
     assistant: 'registered',
   });
 
+  // Resume (or report) agent runs interrupted by a previous instance's shutdown.
+  // Runs in the background so startup is not blocked by long resumes.
+  const stopRunRecovery = startRunRecovery(app.client);
+
+  // DM per-user MCP OAuth connect links (see src/tools/mcp/oauth.ts)
+  registerMcpConnectLinks(app.client);
+
+  // Summarize idle threads into conversation memory
+  const stopThreadSummarizer = startThreadSummarizer(app.client);
+
+  // Delete memories past their retention policy (memory.retention_days)
+  const stopRetentionSweeper = startRetentionSweeper();
+
+  // Hot-reload .orion/config.yaml: MCP servers and config-defined verification rules
+  // are rebuilt on next use; other sections are re-read through loadOrionConfig().
+  onOrionConfigChange(() => {
+    reloadMcpServers();
+    resetConfiguredVerificationRules();
+  });
+  watchOrionConfig();
+
   // Register centralized graceful shutdown handler
   // Coordinates shutdown of Langfuse client and OpenTelemetry SDK
   process.on('SIGTERM', async () => {
     logger.info({ event: 'server.shutdown.started' });
+    stopRunRecovery();
+    stopThreadSummarizer();
+    stopRetentionSweeper();
     // Shutdown Langfuse client first (flushes pending traces)
     await shutdownLangfuse();
+    // Stop local (stdio) MCP server processes
+    closeStdioTransports();
     // Then shutdown OTel SDK (stops span processor)
     await shutdownInstrumentation();
     logger.info({ event: 'server.shutdown.complete' });
@@ -4,31 +4,19 @@
  * Handles storage and retrieval of thread conversation summaries.
  *
  * ## Storage Backend
- * - **Vercel Production**: Uses Vercel KV (Redis) for persistence across function invocations
- * - **Local Development**: Uses Markdown files in orion-context/conversations/
+ * Summaries live in the configured memory store (see getMemoryStore), keyed by
+ * `{channelId}_{threadTs}` - Markdown files in orion-context/conversations/ on the
+ * file backend.
  *
  * @see Story 2.8 - File-Based Memory
  * @see AC#4 - Conversation summaries stored in orion-context/conversations/
  * @see Task 11: Migrate Conversations to Vercel KV
  */
 
-import { mkdir, readFile, writeFile, readdir } from 'fs/promises';
-import { join, dirname } from 'path';
-import matter from 'gray-matter';
-import { ORION_CONTEXT_ROOT } from './index.js';
+import { getMemoryStore, type Memory } from './index.js';
+import { getMemoryFilePath } from './storage.js';
+import { removeDocument } from '../retrieval/index.js';
 import { logger } from '../utils/logger.js';
-import { saveToKV, loadFromKV, listKVKeys } from './vercel-kv-storage.js';
-
-/**
- * Check if running on Vercel (production)
- * Vercel KV requires KV_REST_API_URL to be set
- */
-function isVercelKVAvailable(): boolean {
-  return Boolean(process.env.KV_REST_API_URL);
-}
-
-/** Directory for conversation summary files */
-const CONVERSATIONS_DIR = join(ORION_CONTEXT_ROOT, 'conversations');
 
 /**
  * Conversation summary data structure
@@ -49,19 +37,18 @@ export interface ConversationSummary {
 }
 
 /**
- * Get the file path for a conversation summary
+ * Get the file path for a conversation summary (file backend)
  *
  * @param channelId - Slack channel ID
  * @param threadTs - Thread timestamp
  * @returns Path to the summary file
  */
 export function getConversationPath(channelId: string, threadTs: string): string {
-  const filename = `${channelId}_${threadTs}.md`;
-  return join(CONVERSATIONS_DIR, filename);
+  return getMemoryFilePath('conversation', buildConversationKey(channelId, threadTs));
 }
 
 /**
- * Build the KV key for a conversation
+ * Build the memory key for a conversation
  */
 function buildConversationKey(channelId: string, threadTs: string): string {
   return `${channelId}_${threadTs}`;
@@ -70,59 +57,23 @@ function buildConversationKey(channelId: string, threadTs: string): string {
 /**
  * Save a conversation summary
  *
- * Uses Vercel KV on production, file-based storage locally.
- *
  * @param summary - Conversation summary to save
  */
 export async function saveConversationSummary(summary: ConversationSummary): Promise<void> {
-  if (isVercelKVAvailable()) {
-    return saveConversationToKV(summary);
-  }
-  return saveConversationToFile(summary);
-}
-
-/**
- * Save conversation summary to Vercel KV
- */
-async function saveConversationToKV(summary: ConversationSummary): Promise<void> {
-  const key = buildConversationKey(summary.channelId, summary.threadTs);
-
-  await saveToKV('conversation', key, summary);
-
-  logger.info({
-    event: 'conversation_summary_saved',
-    channelId: summary.channelId,
-    threadTs: summary.threadTs,
-    topicsCount: summary.topics.length,
-    participantsCount: summary.participants.length,
-    storage: 'vercel-kv',
-  });
-}
+  const store = getMemoryStore();
 
-/**
- * Save conversation summary to file (local development)
- */
-async function saveConversationToFile(summary: ConversationSummary): Promise<void> {
-  const path = getConversationPath(summary.channelId, summary.threadTs);
-
-  // Build frontmatter
-  const frontmatter = {
+  await store.put({
     type: 'conversation',
-    channelId: summary.channelId,
-    threadTs: summary.threadTs,
-    participants: summary.participants,
-    topics: summary.topics,
-    createdAt: summary.createdAt,
-  };
-
-  // Create markdown content with frontmatter
-  const content = matter.stringify(summary.summary, frontmatter);
-
-  // Ensure directory exists
-  await mkdir(dirname(path), { recursive: true });
-
-  // Write file
-  await writeFile(path, content);
+    key: buildConversationKey(summary.channelId, summary.threadTs),
+    content: summary.summary,
+    metadata: {
+      channelId: summary.channelId,
+      threadTs: summary.threadTs,
+      participants: summary.participants,
+      topics: summary.topics,
+      createdAt: summary.createdAt,
+    },
+  });
 
   logger.info({
     event: 'conversation_summary_saved',
@@ -130,15 +81,13 @@ async function saveConversationToFile(summary: ConversationSummary): Promise<voi
     threadTs: summary.threadTs,
     topicsCount: summary.topics.length,
     participantsCount: summary.participants.length,
-    path,
+    backend: store.backend,
   });
 }
 
 /**
  * Load a conversation summary by channel and thread
  *
- * Uses Vercel KV on production, file-based storage locally.
- *
  * @param channelId - Slack channel ID
  * @param threadTs - Thread timestamp
  * @returns Conversation summary or null if not found
@@ -147,101 +96,54 @@ export async function loadConversationSummary(
   channelId: string,
   threadTs: string
 ): Promise<ConversationSummary | null> {
-  if (isVercelKVAvailable()) {
-    return loadConversationFromKV(channelId, threadTs);
-  }
-  return loadConversationFromFile(channelId, threadTs);
-}
-
-/**
- * Load conversation summary from Vercel KV
- */
-async function loadConversationFromKV(
-  channelId: string,
-  threadTs: string
-): Promise<ConversationSummary | null> {
-  const key = buildConversationKey(channelId, threadTs);
-  const result = await loadFromKV<ConversationSummary>('conversation', key);
-
-  if (!result) return null;
-
-  return {
-    channelId: result.data.channelId || channelId,
-    threadTs: result.data.threadTs || threadTs,
-    summary: result.data.summary,
-    participants: result.data.participants || [],
-    topics: result.data.topics || [],
-    createdAt: result.createdAt,
-  };
-}
-
-/**
- * Load conversation summary from file (local development)
- */
-async function loadConversationFromFile(
-  channelId: string,
-  threadTs: string
-): Promise<ConversationSummary | null> {
-  const path = getConversationPath(channelId, threadTs);
-
-  try {
-    const fileContent = await readFile(path, 'utf-8');
-    const { data: frontmatter, content: body } = matter(fileContent);
-
-    return {
-      channelId: frontmatter.channelId || channelId,
-      threadTs: frontmatter.threadTs || threadTs,
-      summary: body,
-      participants: frontmatter.participants || [],
-      topics: frontmatter.topics || [],
-      createdAt: frontmatter.createdAt || new Date().toISOString(),
-    };
-  } catch {
-    return null;
-  }
+  const memory = await getMemoryStore().get(
+    'conversation',
+    buildConversationKey(channelId, threadTs)
+  );
+  return memory ? toConversationSummary(memory, channelId, threadTs) : null;
 }
 
 /**
  * List all conversation summaries for a channel
  *
- * Uses Vercel KV on production, file-based storage locally.
- *
  * @param channelId - Slack channel ID
  * @returns Array of conversation summaries
  */
 export async function listConversationsByChannel(
   channelId: string
 ): Promise<ConversationSummary[]> {
-  if (isVercelKVAvailable()) {
-    return listConversationsFromKV(channelId);
+  const store = getMemoryStore();
+  const keys = await store.list('conversation', `${channelId}_`);
+
+  const summaries: ConversationSummary[] = [];
+  for (const key of keys) {
+    const memory = await store.get('conversation', key);
+    if (memory) {
+      // Keys are {channelId}_{threadTs}
+      summaries.push(toConversationSummary(memory, channelId, key.slice(channelId.length + 1)));
+    }
   }
-  return listConversationsFromFile(channelId);
+
+  return summaries;
 }
 
 /**
- * List conversations from Vercel KV
+ * List conversation summaries a user took part in or is mentioned in
+ *
+ * @param userId - Slack user ID
+ * @returns Matching summaries across all channels
  */
-async function listConversationsFromKV(channelId: string): Promise<ConversationSummary[]> {
-  // List keys with channel prefix
-  const keys = await listKVKeys('conversation', `${channelId}_`);
+export async function listConversationsWithUser(userId: string): Promise<ConversationSummary[]> {
+  const store = getMemoryStore();
 
   const summaries: ConversationSummary[] = [];
+  for (const key of await store.list('conversation')) {
+    const memory = await store.get('conversation', key);
+    if (!memory) continue;
 
-  for (const key of keys) {
-    // Parse channelId and threadTs from key
-    const parts = key.split('_');
-    const threadTs = parts.slice(1).join('_'); // Handle timestamps with underscores
-
-    const result = await loadFromKV<ConversationSummary>('conversation', key);
-    if (result) {
-      summaries.push({
-        channelId: result.data.channelId || channelId,
-        threadTs: result.data.threadTs || threadTs,
-        summary: result.data.summary,
-        participants: result.data.participants || [],
-        topics: result.data.topics || [],
-        createdAt: result.createdAt,
-      });
+    const summary = toConversationSummary(memory, '', '');
+    if (summary.participants.includes(userId) || summary.summary.includes(userId)) {
+      summaries.push(summary);
     }
   }
 
@@ -249,39 +151,44 @@ async function listConversationsFromKV(channelId: string): Promise<ConversationS
 }
 
 /**
- * List conversations from file (local development)
+ * Delete a conversation summary
+ *
+ * @param channelId - Slack channel ID
+ * @param threadTs - Thread timestamp
  */
-async function listConversationsFromFile(channelId: string): Promise<ConversationSummary[]> {
-  try {
-    const entries = await readdir(CONVERSATIONS_DIR, { withFileTypes: true });
-    const channelFiles = entries.filter(
-      (e) => e.isFile() && e.name.startsWith(`${channelId}_`) && e.name.endsWith('.md')
-    );
-
-    const summaries: ConversationSummary[] = [];
-
-    for (const file of channelFiles) {
-      const filepath = join(CONVERSATIONS_DIR, file.name);
-      try {
-        const content = await readFile(filepath, 'utf-8');
-        const { data: frontmatter, content: body } = matter(content);
+export async function deleteConversationSummary(
+  channelId: string,
+  threadTs: string
+): Promise<void> {
+  const store = getMemoryStore();
+  const key = buildConversationKey(channelId, threadTs);
 
-        summaries.push({
-          channelId: frontmatter.channelId || channelId,
-          threadTs: frontmatter.threadTs || '',
-          summary: body,
-          participants: frontmatter.participants || [],
-          topics: frontmatter.topics || [],
-          createdAt: frontmatter.createdAt || new Date().toISOString(),
-        });
-      } catch {
-        // Skip invalid files
-      }
-    }
+  await store.delete('conversation', key);
+  removeDocument(store.documentId('conversation', key));
 
-    return summaries;
-  } catch {
-    return [];
-  }
+  logger.info({
+    event: 'conversation_summary_deleted',
+    channelId,
+    threadTs,
+    backend: store.backend,
+  });
 }
 
+/**
+ * Map a stored memory to a conversation summary
+ */
+function toConversationSummary(
+  memory: Memory,
+  channelId: string,
+  threadTs: string
+): ConversationSummary {
+  const { metadata } = memory;
+  return {
+    channelId: typeof metadata.channelId === 'string' ? metadata.channelId : channelId,
+    threadTs: typeof metadata.threadTs === 'string' ? metadata.threadTs : threadTs,
+    summary: memory.content,
+    participants: Array.isArray(metadata.participants) ? metadata.participants : [],
+    topics: Array.isArray(metadata.topics) ? metadata.topics : [],
+    createdAt: metadata.createdAt,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * MCP Credentials Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../config/environment.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../config/environment.js')>();
+  return { config: { ...actual.config, mcpOAuthEncryptionKey: 'test-encryption-secret' } };
+});
+
+const kvData = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('@vercel/kv', () => ({
+  kv: {
+    get: async (key: string) => kvData.get(key) ?? null,
+    set: async (key: string, value: unknown) => {
+      kvData.set(key, value);
+      return 'OK';
+    },
+    del: async (key: string) => (kvData.delete(key) ? 1 : 0),
+    scanIterator: async function* ({ match }: { match: string }) {
+      const prefix = match.replace(/\*$/, '');
+      for (const key of kvData.keys()) {
+        if (key.startsWith(prefix)) yield key;
+      }
+    },
+  },
+}));
+
+import {
+  deleteMcpCredential,
+  deleteUserMcpCredentials,
+  listUserMcpConnections,
+  loadMcpCredential,
+  saveMcpCredential,
+  type McpCredential,
+} from './credentials.js';
+import { searchMemory, setMemoryStore } from './index.js';
+import { SqliteMemoryStore } from './sqlite-store.js';
+import { VercelKVMemoryStore } from './kv-store.js';
+import { sealSecret } from '../utils/secret-box.js';
+
+const github: McpCredential = {
+  userId: 'U1',
+  serverName: 'github',
+  accessToken: 'gho_access',
+  refreshToken: 'ghr_refresh',
+  expiresAt: '2025-01-01T08:00:00.000Z',
+  scope: 'repo',
+  createdAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('memory/credentials', () => {
+  let store: SqliteMemoryStore;
+
+  beforeEach(() => {
+    store = new SqliteMemoryStore(':memory:');
+    setMemoryStore(store);
+  });
+
+  afterEach(() => {
+    setMemoryStore(null);
+    store.close();
+  });
+
+  it('stores tokens encrypted and reads them back', async () => {
+    await saveMcpCredential(github);
+
+    const stored = await store.get('credential', 'U1/github');
+    expect(stored?.content).not.toContain('gho_access');
+    expect(stored?.content).not.toContain('ghr_refresh');
+    expect(stored?.metadata).toMatchObject({ userId: 'U1', serverName: 'github' });
+
+    expect(await loadMcpCredential('U1', 'github')).toEqual(github);
+    expect(await loadMcpCredential('U2', 'github')).toBeNull();
+  });
+
+  it('treats credentials sealed with another key as missing', async () => {
+    await store.put({
+      type: 'credential',
+      key: 'U1/google',
+      content: sealSecret(JSON.stringify({ accessToken: 'ya29' }), 'old-secret'),
+      metadata: { createdAt: '2025-01-01T00:00:00.000Z' },
+    });
+
+    expect(await loadMcpCredential('U1', 'google')).toBeNull();
+  });
+
+  it('never surfaces credentials in memory search', async () => {
+    await saveMcpCredential(github);
+
+    expect(await searchMemory('github')).toEqual([]);
+  });
+
+  it("lists and deletes a user's connections", async () => {
+    await saveMcpCredential(github);
+    await saveMcpCredential({ ...github, serverName: 'google' });
+    await saveMcpCredential({ ...github, userId: 'U2' });
+
+    expect(await listUserMcpConnections('U1')).toEqual([
+      { serverName: 'github', connectedAt: github.createdAt },
+      { serverName: 'google', connectedAt: github.createdAt },
+    ]);
+
+    await deleteMcpCredential('U1', 'google');
+    expect(await deleteUserMcpCredentials('U1')).toBe(1);
+    expect(await store.list('credential')).toEqual(['U2/github']);
+  });
+
+  describe('on Vercel KV', () => {
+    beforeEach(() => {
+      kvData.clear();
+      setMemoryStore(new VercelKVMemoryStore());
+    });
+
+    it("lists and erases a user's connections", async () => {
+      await saveMcpCredential(github);
+      await saveMcpCredential({ ...github, userId: 'U2' });
+
+      expect(await listUserMcpConnections('U1')).toEqual([
+        { serverName: 'github', connectedAt: github.createdAt },
+      ]);
+      expect(await deleteUserMcpCredentials('U1')).toBe(1);
+      expect(await loadMcpCredential('U1', 'github')).toBeNull();
+      expect(await loadMcpCredential('U2', 'github')).toMatchObject({ accessToken: 'gho_access' });
+    });
+  });
+});
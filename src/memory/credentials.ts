@@ -0,0 +1,153 @@
+/**
+ * MCP Credentials Module
+ *
+ * Per-user OAuth tokens for MCP servers (see src/tools/mcp/oauth.ts), so each
+ * Slack user calls GitHub, Google, etc. with their own identity.
+ *
+ * ## Storage Backend
+ * Credentials live in the configured memory store (see getMemoryStore), keyed by
+ * `{userId}/{serverName}`. Tokens are encrypted with MCP_OAUTH_ENCRYPTION_KEY
+ * (see utils/secret-box.ts); only the user and server names are stored in the
+ * clear. Credentials that cannot be decrypted (e.g. after a key change) read as
+ * missing, so the user is asked to connect again.
+ */
+
+import { getMemoryStore } from './index.js';
+import { openSecret, sealSecret } from '../utils/secret-box.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * OAuth tokens a user granted for an MCP server
+ */
+export interface McpCredential {
+  /** Slack user ID */
+  userId: string;
+  /** `mcp_servers` entry name */
+  serverName: string;
+  accessToken: string;
+  refreshToken?: string;
+  /** Access token expiry (ISO 8601), if the provider reported one */
+  expiresAt?: string;
+  /** Scopes granted by the provider */
+  scope?: string;
+  /** When the user first connected */
+  createdAt: string;
+}
+
+type SealedTokens = Pick<McpCredential, 'accessToken' | 'refreshToken' | 'expiresAt' | 'scope'>;
+
+/**
+ * Build the memory key for a credential
+ */
+function buildCredentialKey(userId: string, serverName: string): string {
+  return `${userId}/${serverName}`;
+}
+
+/**
+ * Save (or replace) a user's credential for a server
+ *
+ * @throws Error when MCP_OAUTH_ENCRYPTION_KEY is not set
+ */
+export async function saveMcpCredential(credential: McpCredential): Promise<void> {
+  const store = getMemoryStore();
+  const tokens: SealedTokens = {
+    accessToken: credential.accessToken,
+    refreshToken: credential.refreshToken,
+    expiresAt: credential.expiresAt,
+    scope: credential.scope,
+  };
+
+  await store.put({
+    type: 'credential',
+    key: buildCredentialKey(credential.userId, credential.serverName),
+    content: sealSecret(JSON.stringify(tokens)),
+    metadata: {
+      userId: credential.userId,
+      serverName: credential.serverName,
+      createdAt: credential.createdAt,
+      updatedAt: new Date().toISOString(),
+    },
+  });
+
+  logger.info({
+    event: 'mcp_credential_saved',
+    userId: credential.userId,
+    serverName: credential.serverName,
+    hasRefreshToken: Boolean(credential.refreshToken),
+    backend: store.backend,
+  });
+}
+
+/**
+ * Load a user's credential for a server
+ *
+ * @returns The credential, or null if missing or unreadable
+ */
+export async function loadMcpCredential(
+  userId: string,
+  serverName: string
+): Promise<McpCredential | null> {
+  const memory = await getMemoryStore().get('credential', buildCredentialKey(userId, serverName));
+  if (!memory) return null;
+
+  const opened = openSecret(memory.content.trim());
+  if (opened === null) {
+    logger.warn({ event: 'mcp_credential_unreadable', userId, serverName });
+    return null;
+  }
+
+  const tokens = JSON.parse(opened) as SealedTokens;
+  return { userId, serverName, ...tokens, createdAt: memory.metadata.createdAt };
+}
+
+/**
+ * Delete a user's credential for a server (no-op if missing)
+ */
+export async function deleteMcpCredential(userId: string, serverName: string): Promise<void> {
+  await getMemoryStore().delete('credential', buildCredentialKey(userId, serverName));
+  logger.info({ event: 'mcp_credential_deleted', userId, serverName });
+}
+
+/**
+ * List the servers a user has connected, without decrypting anything
+ */
+export async function listUserMcpConnections(
+  userId: string
+): Promise<Array<{ serverName: string; connectedAt: string }>> {
+  const store = getMemoryStore();
+  const keys = await store.list('credential', `${userId}/`);
+
+  const connections: Array<{ serverName: string; connectedAt: string }> = [];
+  for (const key of keys) {
+    const memory = await store.get('credential', key);
+    if (memory) {
+      connections.push({
+        serverName: key.slice(userId.length + 1),
+        connectedAt: memory.metadata.createdAt,
+      });
+    }
+  }
+  return connections;
+}
+
+/**
+ * Delete all of a user's credentials
+ *
+ * @returns Number of credentials deleted
+ */
+export async function deleteUserMcpCredentials(userId: string): Promise<number> {
+  const store = getMemoryStore();
+  const keys = await store.list('credential', `${userId}/`);
+
+  for (const key of keys) {
+    await store.delete('credential', key);
+  }
+
+  logger.info({
+    event: 'mcp_credentials_deleted',
+    userId,
+    count: keys.length,
+    backend: store.backend,
+  });
+  return keys.length;
+}
@@ -0,0 +1,95 @@
+/**
+ * Feedback Records Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { deleteUserFeedback, listUserFeedback, saveFeedback } from './feedback.js';
+import { searchMemory, setMemoryStore } from './index.js';
+import { SqliteMemoryStore } from './sqlite-store.js';
+
+describe('memory/feedback', () => {
+  let store: SqliteMemoryStore;
+
+  beforeEach(() => {
+    store = new SqliteMemoryStore(':memory:');
+    setMemoryStore(store);
+  });
+
+  afterEach(() => {
+    setMemoryStore(null);
+    store.close();
+  });
+
+  it('keeps one record per user and message, oldest first', async () => {
+    await saveFeedback({
+      userId: 'U1',
+      channelId: 'C1',
+      messageTs: '2.2',
+      traceId: null,
+      isPositive: true,
+      createdAt: '2025-01-02T00:00:00.000Z',
+    });
+    await saveFeedback({
+      userId: 'U1',
+      channelId: 'C1',
+      messageTs: '1.1',
+      traceId: 'trace-1',
+      isPositive: true,
+      createdAt: '2025-01-01T00:00:00.000Z',
+    });
+    await saveFeedback({
+      userId: 'U1',
+      channelId: 'C1',
+      messageTs: '1.1',
+      traceId: 'trace-1',
+      isPositive: false,
+      createdAt: '2025-01-01T00:00:00.000Z',
+    });
+
+    expect(await listUserFeedback('U1')).toEqual([
+      {
+        userId: 'U1',
+        channelId: 'C1',
+        messageTs: '1.1',
+        traceId: 'trace-1',
+        isPositive: false,
+        createdAt: '2025-01-01T00:00:00.000Z',
+      },
+      expect.objectContaining({ messageTs: '2.2', traceId: null, isPositive: true }),
+    ]);
+  });
+
+  it("deletes only the user's records", async () => {
+    const record = {
+      channelId: 'C1',
+      messageTs: '1.1',
+      traceId: null,
+      isPositive: true,
+      createdAt: '2025-01-01T00:00:00.000Z',
+    };
+    await saveFeedback({ ...record, userId: 'U1' });
+    await saveFeedback({ ...record, userId: 'U2' });
+
+    expect(await deleteUserFeedback('U1')).toBe(1);
+    expect(await listUserFeedback('U1')).toEqual([]);
+    expect(await listUserFeedback('U2')).toHaveLength(1);
+  });
+
+  it('is not returned by memory search', async () => {
+    await saveFeedback({
+      userId: 'U1',
+      channelId: 'C1',
+      messageTs: '1.1',
+      traceId: null,
+      isPositive: true,
+      createdAt: '2025-01-01T00:00:00.000Z',
+    });
+
+    expect(await searchMemory('positive')).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Feedback Records Module
+ *
+ * Keeps a local copy of each thumbs up/down a user gives, so feedback can be
+ * included in (and erased with) a user-data export. Scores are still sent to
+ * Langfuse by the feedback handler; this is the record Orion itself holds.
+ *
+ * ## Storage Backend
+ * Records live in the configured memory store (see getMemoryStore), keyed by
+ * `{userId}/{channelId}_{messageTs}` - one per user and message, so changing a
+ * vote replaces it. Markdown files in orion-context/feedback/ on the file backend.
+ */
+
+import { getMemoryStore, type Memory } from './index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Feedback record data structure
+ */
+export interface FeedbackRecord {
+  /** Slack user ID who gave the feedback */
+  userId: string;
+  /** Slack channel ID of the rated message */
+  channelId: string;
+  /** Timestamp of the rated message */
+  messageTs: string;
+  /** Langfuse trace ID of the rated response, if known */
+  traceId: string | null;
+  /** Thumbs up (true) or down (false) */
+  isPositive: boolean;
+  /** When the feedback was given */
+  createdAt: string;
+}
+
+/**
+ * Build the memory key for a feedback record
+ */
+function buildFeedbackKey(userId: string, channelId: string, messageTs: string): string {
+  return `${userId}/${channelId}_${messageTs}`;
+}
+
+/**
+ * Save a feedback record
+ *
+ * @param record - Feedback to save
+ */
+export async function saveFeedback(record: FeedbackRecord): Promise<void> {
+  const store = getMemoryStore();
+
+  await store.put({
+    type: 'feedback',
+    key: buildFeedbackKey(record.userId, record.channelId, record.messageTs),
+    content: record.isPositive ? 'positive' : 'negative',
+    metadata: {
+      userId: record.userId,
+      channelId: record.channelId,
+      messageTs: record.messageTs,
+      traceId: record.traceId ?? undefined,
+      createdAt: record.createdAt,
+    },
+  });
+
+  logger.info({
+    event: 'feedback_saved',
+    userId: record.userId,
+    channelId: record.channelId,
+    isPositive: record.isPositive,
+    backend: store.backend,
+  });
+}
+
+/**
+ * List a user's feedback, oldest first
+ *
+ * @param userId - Slack user ID
+ * @returns Feedback records
+ */
+export async function listUserFeedback(userId: string): Promise<FeedbackRecord[]> {
+  const store = getMemoryStore();
+  const keys = await store.list('feedback', `${userId}/`);
+
+  const records: FeedbackRecord[] = [];
+  for (const key of keys) {
+    const memory = await store.get('feedback', key);
+    if (memory) {
+      records.push(toFeedbackRecord(memory, userId));
+    }
+  }
+
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Delete all of a user's feedback records
+ *
+ * @param userId - Slack user ID
+ * @returns Number of records deleted
+ */
+export async function deleteUserFeedback(userId: string): Promise<number> {
+  const store = getMemoryStore();
+  const keys = await store.list('feedback', `${userId}/`);
+
+  for (const key of keys) {
+    await store.delete('feedback', key);
+  }
+
+  logger.info({
+    event: 'feedback_deleted',
+    userId,
+    count: keys.length,
+    backend: store.backend,
+  });
+  return keys.length;
+}
+
+/**
+ * Map a stored memory to a feedback record
+ */
+function toFeedbackRecord(memory: Memory, userId: string): FeedbackRecord {
+  const { metadata } = memory;
+  return {
+    userId: typeof metadata.userId === 'string' ? metadata.userId : userId,
+    channelId: typeof metadata.channelId === 'string' ? metadata.channelId : '',
+    messageTs: typeof metadata.messageTs === 'string' ? metadata.messageTs : '',
+    traceId: typeof metadata.traceId === 'string' ? metadata.traceId : null,
+    isPositive: memory.content.trim() === 'positive',
+    createdAt: metadata.createdAt,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Filesystem Memory Store Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { vol } from 'memfs';
+
+vi.mock('fs/promises', async () => {
+  const memfs = await import('memfs');
+  return memfs.fs.promises;
+});
+
+import { FileMemoryStore } from './file-store.js';
+import type { Memory } from './index.js';
+
+const note: Memory = {
+  type: 'knowledge',
+  key: 'notes/U1-1',
+  content: 'Standup is at 9:30',
+  metadata: { createdAt: '2025-01-01T00:00:00.000Z', userId: 'U1', tags: ['user-note'] },
+};
+
+describe('FileMemoryStore', () => {
+  let store: FileMemoryStore;
+
+  beforeEach(() => {
+    vol.reset();
+    store = new FileMemoryStore();
+  });
+
+  it('writes knowledge as Markdown with frontmatter and reads it back', async () => {
+    await store.put(note);
+
+    const raw = vol.toJSON()[`${process.cwd()}/orion-context/knowledge/notes/U1-1.md`];
+    expect(raw).toContain('type: knowledge');
+    expect(raw).toContain('Standup is at 9:30');
+    expect((await store.get('knowledge', 'notes/U1-1'))?.content.trim()).toBe('Standup is at 9:30');
+  });
+
+  it('writes preferences as YAML', async () => {
+    await store.put({
+      type: 'preference',
+      key: 'U1',
+      content: JSON.stringify({ tone: 'concise' }),
+      metadata: { createdAt: '2025-01-01T00:00:00.000Z', userId: 'U1' },
+    });
+
+    const raw = vol.toJSON()[`${process.cwd()}/orion-context/user-preferences/U1.yaml`];
+    expect(raw).toContain('preferences:\n  tone: concise');
+  });
+
+  it('lists keys by prefix, including nested keys', async () => {
+    await store.put(note);
+    await store.put({ ...note, key: 'notes/U2-1' });
+    await store.put({ ...note, key: 'runbook' });
+
+    expect(await store.list('knowledge')).toEqual(['notes/U1-1', 'notes/U2-1', 'runbook']);
+    expect(await store.list('knowledge', 'notes/U1-')).toEqual(['notes/U1-1']);
+  });
+
+  it('deletes memories', async () => {
+    await store.put(note);
+
+    await store.delete('knowledge', 'notes/U1-1');
+    await store.delete('knowledge', 'missing');
+
+    expect(await store.get('knowledge', 'notes/U1-1')).toBeNull();
+  });
+
+  it('only searches files in memory directories', async () => {
+    vol.fromJSON({
+      './orion-context/knowledge/deploys.md': '---\ntype: knowledge\n---\nDeploys freeze on Friday',
+      './orion-context/workflows/C1_1.1.yaml': 'note: deploys freeze on Friday\n',
+    });
+
+    const results = await store.search('deploys freeze');
+
+    expect(results.map((r) => [r.memory.type, r.memory.key])).toEqual([['knowledge', 'deploys']]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Filesystem Memory Store
+ *
+ * Stores memories as files in orion-context/ (the default backend for local
+ * development and single-host deployments):
+ * - preferences: user-preferences/{key}.yaml
+ * - conversations: conversations/{key}.md (frontmatter + summary)
+ * - knowledge: knowledge/{key}.md (frontmatter + content)
+ * - feedback: feedback/{key}.md (frontmatter + rating)
+ *
+ * A memory's type comes from the directory it is in, so other files under
+ * orion-context/ (agent runs, workflow state) are never treated as memories.
+ */
+
+import { rm } from 'fs/promises';
+import { relative, resolve, sep } from 'path';
+import matter from 'gray-matter';
+import YAML from 'yaml';
+import type { Memory, MemorySearchResult, MemoryTypeValue } from './index.js';
+import {
+  ORION_CONTEXT_ROOT,
+  TYPE_DIRECTORIES,
+  getMemoryFileExtension,
+  getMemoryFilePath,
+  getTypeDirectory,
+  listMemoryFiles,
+  readMemoryFile,
+  writeMemoryFile,
+} from './storage.js';
+import {
+  MEMORY_TYPES,
+  SEARCHABLE_MEMORY_TYPES,
+  fromDocument,
+  rankMemories,
+  toDocument,
+  toFrontmatter,
+  type MemoryStore,
+} from './store.js';
+
+/**
+ * Memory store backed by files in orion-context/
+ */
+export class FileMemoryStore implements MemoryStore {
+  readonly backend = 'fs' as const;
+
+  async list(type: MemoryTypeValue, prefix = ''): Promise<string[]> {
+    const files = await listMemoryFiles(getTypeDirectory(type));
+    return files
+      .map((file) => locateMemoryFile(file))
+      .filter((location): location is MemoryLocation => location?.type === type)
+      .map((location) => location.key)
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+  }
+
+  async get(type: MemoryTypeValue, key: string): Promise<Memory | null> {
+    const raw = await readMemoryFile(getMemoryFilePath(type, key));
+    if (raw === null) return null;
+
+    try {
+      return parseMemory(type, key, raw);
+    } catch {
+      // Invalid YAML / frontmatter
+      return null;
+    }
+  }
+
+  async put(memory: Memory): Promise<void> {
+    await writeMemoryFile(getMemoryFilePath(memory.type, memory.key), formatMemory(memory));
+  }
+
+  async delete(type: MemoryTypeValue, key: string): Promise<void> {
+    await rm(getMemoryFilePath(type, key), { force: true });
+  }
+
+  async search(query: string, type?: MemoryTypeValue): Promise<MemorySearchResult[]> {
+    // One scan of the whole tree when searching every type
+    const files = await listMemoryFiles(type ? getTypeDirectory(type) : ORION_CONTEXT_ROOT);
+    const memories: Memory[] = [];
+
+    for (const file of files) {
+      const location = locateMemoryFile(file);
+      if (!location) continue;
+      if (type ? location.type !== type : !SEARCHABLE_MEMORY_TYPES.includes(location.type)) continue;
+
+      const memory = await this.get(location.type, location.key);
+      if (memory) memories.push(memory);
+    }
+
+    return rankMemories(this, query, memories);
+  }
+
+  documentId(type: MemoryTypeValue, key: string): string {
+    return `memory:${resolve(getMemoryFilePath(type, key))}`;
+  }
+}
+
+interface MemoryLocation {
+  type: MemoryTypeValue;
+  key: string;
+}
+
+/**
+ * Map a file path under orion-context/ to the memory it stores
+ *
+ * @returns Type and key, or null if the file is not in a memory directory
+ */
+function locateMemoryFile(file: string): MemoryLocation | null {
+  const [dir, ...rest] = relative(ORION_CONTEXT_ROOT, file).split(sep);
+  const type = MEMORY_TYPES.find((t) => TYPE_DIRECTORIES[t] === dir);
+  const ext = type ? getMemoryFileExtension(type) : '';
+  const path = rest.join('/');
+
+  if (!type || rest.length === 0 || !path.endsWith(ext)) return null;
+  return { type, key: path.slice(0, -ext.length) };
+}
+
+function parseMemory(type: MemoryTypeValue, key: string, raw: string): Memory {
+  if (type === 'preference') {
+    return fromDocument(type, key, YAML.parse(raw) ?? {});
+  }
+
+  const { data: frontmatter, content: body } = matter(raw);
+  return { ...fromDocument(type, key, frontmatter), content: body };
+}
+
+function formatMemory(memory: Memory): string {
+  if (memory.type === 'preference') {
+    return YAML.stringify(toDocument(memory));
+  }
+  return matter.stringify(memory.content, toFrontmatter(memory));
+}
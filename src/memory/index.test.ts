@@ -18,6 +18,7 @@ vi.mock('fs/promises', () => ({
   writeFile: vi.fn().mockResolvedValue(undefined),
   readFile: vi.fn().mockResolvedValue(''),
   readdir: vi.fn().mockResolvedValue([]),
+  rm: vi.fn().mockResolvedValue(undefined),
 }));
 
 // Mock Vercel KV storage
@@ -124,6 +125,23 @@ describe('memory/index', () => {
       expect(writeFile).toHaveBeenCalled();
     });
 
+    it('should re-index the saved memory for retrieval', async () => {
+      const { saveMemory, getMemoryPath, MemoryType } = await import('./index.js');
+      const { getRetrievalIndex } = await import('../retrieval/index.js');
+      const { resolve } = await import('path');
+
+      const memory = {
+        type: MemoryType.KNOWLEDGE,
+        key: 'indexed-knowledge',
+        content: 'Release train runs every Tuesday',
+        metadata: { createdAt: '2025-01-01T00:00:00.000Z' },
+      };
+
+      await saveMemory(memory);
+
+      expect(getRetrievalIndex().has(`memory:${resolve(getMemoryPath(memory))}`)).toBe(true);
+    });
+
     it('should create directory if it does not exist', async () => {
       const { mkdir } = await import('fs/promises');
       const { saveMemory, MemoryType } = await import('./index.js');
@@ -438,32 +456,58 @@ basic information`); // 0 matches
 
       const results = await searchMemoryWithScores('audience segments');
 
-      // First result should have higher relevance (more matches)
+      // Unrelated memory is excluded; the match reports both keywords
       expect(results.length).toBe(1); // Only one should match
-      expect(results[0].relevance).toBe(1.0); // 2/2 keywords matched
       expect(results[0].rawScore).toBe(2);
+      expect(results[0].relevance).toBeGreaterThan(0.5);
+      expect(results[0].relevance).toBeLessThanOrEqual(1);
     });
 
-    it('should calculate relevance as ratio of matched keywords', async () => {
+    it('should rank full keyword matches above partial matches', async () => {
       const { readdir, readFile } = await import('fs/promises');
       const { searchMemoryWithScores } = await import('./index.js');
 
       vi.mocked(readdir).mockResolvedValue([
         { name: 'partial.md', isFile: () => true, parentPath: './orion-context/knowledge' },
+        { name: 'full.md', isFile: () => true, parentPath: './orion-context/knowledge' },
       ] as unknown as import('fs').Dirent[]);
 
-      // Only matches "audience" but not "segments" or "targeting"
-      vi.mocked(readFile).mockResolvedValue(`---
+      vi.mocked(readFile)
+        .mockResolvedValueOnce(`---
+type: knowledge
+---
+content about audience only`) // matches "audience" only
+        .mockResolvedValueOnce(`---
 type: knowledge
 ---
-content about audience only`);
+audience segments and targeting rules`);
 
       const results = await searchMemoryWithScores('audience segments targeting');
 
+      expect(results.length).toBe(2);
+      expect(results[0].rawScore).toBe(3);
+      expect(results[1].rawScore).toBe(1);
+      expect(results[0].relevance).toBeGreaterThan(results[1].relevance);
+    });
+
+    it('should match related wording without exact keyword overlap', async () => {
+      const { readdir, readFile } = await import('fs/promises');
+      const { searchMemoryWithScores } = await import('./index.js');
+
+      vi.mocked(readdir).mockResolvedValue([
+        { name: 'runbook.md', isFile: () => true, parentPath: './orion-context/knowledge' },
+      ] as unknown as Awaited<ReturnType<typeof readdir>>);
+
+      vi.mocked(readFile).mockResolvedValue(`---
+type: knowledge
+---
+Deployment runbook: steps for deploying services to production`);
+
+      const results = await searchMemoryWithScores('how do we deploy');
+
       expect(results.length).toBe(1);
-      // 1 out of 3 keywords matched = 0.333...
-      expect(results[0].rawScore).toBe(1);
-      expect(results[0].relevance).toBeCloseTo(1/3, 2);
+      expect(results[0].rawScore).toBe(0);
+      expect(results[0].vectorScore).toBeGreaterThan(0);
     });
   });
 
@@ -484,6 +528,7 @@ content about audience only`);
 
       mockListKVKeys.mockResolvedValueOnce(['U123']); // preference keys
       mockListKVKeys.mockResolvedValueOnce([]); // conversation keys
+      mockListKVKeys.mockResolvedValueOnce([]); // knowledge keys
       mockLoadFromKV.mockResolvedValueOnce({
         data: { preferences: { theme: 'dark mode enabled' } },
         createdAt: '2025-01-01T00:00:00.000Z',
@@ -492,7 +537,7 @@ content about audience only`);
       const { searchMemoryWithScores } = await import('./index.js');
       const results = await searchMemoryWithScores('dark mode');
 
-      expect(mockListKVKeys).toHaveBeenCalledWith('preference');
+      expect(mockListKVKeys).toHaveBeenCalledWith('preference', undefined);
       expect(results.length).toBe(1);
       expect(results[0].memory.type).toBe('preference');
     });
@@ -502,6 +547,7 @@ content about audience only`);
 
       mockListKVKeys.mockResolvedValueOnce([]); // preference keys
       mockListKVKeys.mockResolvedValueOnce(['C123_ts1']); // conversation keys
+      mockListKVKeys.mockResolvedValueOnce([]); // knowledge keys
       mockLoadFromKV.mockResolvedValueOnce({
         data: { summary: 'Discussion about project timeline' },
         createdAt: '2025-01-01T00:00:00.000Z',
@@ -513,7 +559,7 @@ content about audience only`);
       const { searchMemoryWithScores } = await import('./index.js');
       const results = await searchMemoryWithScores('project timeline');
 
-      expect(mockListKVKeys).toHaveBeenCalledWith('conversation');
+      expect(mockListKVKeys).toHaveBeenCalledWith('conversation', undefined);
       expect(results.length).toBe(1);
       expect(results[0].memory.type).toBe('conversation');
     });
@@ -523,6 +569,7 @@ content about audience only`);
 
       mockListKVKeys.mockResolvedValueOnce([]); // preference keys
       mockListKVKeys.mockResolvedValueOnce([]); // conversation keys
+      mockListKVKeys.mockResolvedValueOnce([]); // knowledge keys
 
       const { readdir, readFile } = await import('fs/promises');
       vi.mocked(readdir).mockResolvedValue([
@@ -574,5 +621,109 @@ audience targeting information`);
       expect(results.length).toBe(1);
     });
   });
-});
 
+  describe('user notes', () => {
+    const notesDir = './orion-context/knowledge/notes';
+    const noteFiles: Record<string, string> = {
+      'U1-1.md': '---\ntype: knowledge\ncreatedAt: 2025-01-01T00:00:00.000Z\nuserId: U1\ntags:\n  - user-note\n---\nI prefer TypeScript examples\n',
+      'U1-2.md': '---\ntype: knowledge\ncreatedAt: 2025-01-02T00:00:00.000Z\nuserId: U1\ntags:\n  - user-note\n---\nMy team ships on Thursdays\n',
+      'U2-1.md': '---\ntype: knowledge\ncreatedAt: 2025-01-03T00:00:00.000Z\nuserId: U2\ntags:\n  - user-note\n---\nI prefer Python examples\n',
+    };
+
+    beforeEach(async () => {
+      const { readdir, readFile } = await import('fs/promises');
+      vi.mocked(readdir).mockResolvedValue(
+        Object.keys(noteFiles).map((name) => ({ name, isFile: () => true, parentPath: notesDir })) as never
+      );
+      vi.mocked(readFile).mockImplementation((async (path: string) => noteFiles[path.split('/').pop() ?? '']) as never);
+    });
+
+    it('should save a note as knowledge owned by the user', async () => {
+      const { writeFile } = await import('fs/promises');
+      const { rememberForUser, USER_NOTE_TAG } = await import('./index.js');
+
+      const memory = await rememberForUser('U1', 'Standup is at 9:30', 'C1');
+
+      expect(memory.key).toMatch(/^notes\/U1-\d+$/);
+      expect(memory.metadata).toEqual(expect.objectContaining({ userId: 'U1', channelId: 'C1', tags: [USER_NOTE_TAG] }));
+      expect(writeFile).toHaveBeenCalledWith(
+        expect.stringContaining(join('knowledge', 'notes', 'U1-')),
+        expect.stringContaining('Standup is at 9:30')
+      );
+    });
+
+    it("should list only the user's notes, newest first", async () => {
+      const { listUserMemories } = await import('./index.js');
+
+      const notes = await listUserMemories('U1');
+
+      expect(notes.map((n) => n.content.trim())).toEqual(['My team ships on Thursdays', 'I prefer TypeScript examples']);
+    });
+
+    it("should delete the user's best-matching note and never another user's", async () => {
+      const { rm } = await import('fs/promises');
+      const { forgetUserMemory } = await import('./index.js');
+
+      const forgotten = await forgetUserMemory('U1', 'prefer examples');
+
+      expect(forgotten?.content.trim()).toBe('I prefer TypeScript examples');
+      expect(rm).toHaveBeenCalledWith(join(notesDir, 'U1-1.md'), { force: true });
+    });
+
+    it('should return null when nothing matches', async () => {
+      const { rm } = await import('fs/promises');
+      const { forgetUserMemory } = await import('./index.js');
+
+      expect(await forgetUserMemory('U3', 'prefer examples')).toBeNull();
+      expect(rm).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createMemoryStore', () => {
+    it('should create the store for each backend', async () => {
+      const { createMemoryStore } = await import('./index.js');
+      const { SqliteMemoryStore } = await import('./sqlite-store.js');
+
+      const sqlite = createMemoryStore('sqlite', { sqlitePath: ':memory:' });
+
+      expect(createMemoryStore('fs').backend).toBe('fs');
+      expect(createMemoryStore('KV').backend).toBe('kv');
+      expect(sqlite).toBeInstanceOf(SqliteMemoryStore);
+      (sqlite as InstanceType<typeof SqliteMemoryStore>).close();
+    });
+
+    it('should reject unknown backends', async () => {
+      const { createMemoryStore } = await import('./index.js');
+
+      expect(() => createMemoryStore('redis')).toThrow('Unknown memory backend "redis"');
+    });
+
+    it('should save through the configured store', async () => {
+      const { saveMemory, setMemoryStore, getMemoryStore } = await import('./index.js');
+      const store = {
+        backend: 'sqlite' as const,
+        list: vi.fn(),
+        get: vi.fn(),
+        put: vi.fn().mockResolvedValue(undefined),
+        delete: vi.fn(),
+        search: vi.fn(),
+        documentId: vi.fn(() => 'sqlite:knowledge:k'),
+      };
+      setMemoryStore(store);
+
+      try {
+        await saveMemory({
+          type: 'knowledge',
+          key: 'k',
+          content: 'Release train runs Tuesdays',
+          metadata: { createdAt: '2025-01-01T00:00:00.000Z' },
+        });
+
+        expect(getMemoryStore()).toBe(store);
+        expect(store.put).toHaveBeenCalledWith(expect.objectContaining({ key: 'k' }));
+      } finally {
+        setMemoryStore(null);
+      }
+    });
+  });
+});
@@ -1,8 +1,12 @@
 /**
  * Memory Layer Module
  *
- * Implements file-based persistent memory for Orion agent.
- * Stores user preferences, conversation summaries, and knowledge in orion-context/.
+ * Implements persistent memory for Orion agent.
+ * Stores user preferences, conversation summaries, knowledge and feedback through a
+ * pluggable MemoryStore (store.ts), selected by MEMORY_BACKEND:
+ * - `fs` (default locally): files in orion-context/
+ * - `kv` (default when KV_REST_API_URL is set): Vercel KV
+ * - `sqlite`: a single SQLite file (MEMORY_SQLITE_PATH)
  *
  * @see Story 2.8 - File-Based Memory
  * @see AC#1 - Information saved to orion-context/ as files
@@ -10,30 +14,24 @@
  * @see AR31 - File-based persistent memory in orion-context/
  */
 
-import { mkdir, writeFile } from 'fs/promises';
-import { join, dirname } from 'path';
-import matter from 'gray-matter';
-import YAML from 'yaml';
+import { config } from '../config/environment.js';
 import { logger } from '../utils/logger.js';
+import { ORION_CONTEXT_ROOT, getMemoryFilePath } from './storage.js';
+import { FileMemoryStore } from './file-store.js';
+import { VercelKVMemoryStore } from './kv-store.js';
+import { SqliteMemoryStore } from './sqlite-store.js';
 import {
-  ORION_CONTEXT_ROOT,
-  TYPE_DIRECTORIES,
-  getTypeDirectory,
-  listMemoryFiles,
-  parseMemoryFile,
-} from './storage.js';
-import { listKVKeys, loadFromKV } from './vercel-kv-storage.js';
+  SEARCHABLE_MEMORY_TYPES,
+  parseMemoryBackend,
+  rankMemories,
+  type MemoryBackend,
+  type MemoryStore,
+} from './store.js';
+import { indexDocument, removeDocument, tokenize } from '../retrieval/index.js';
 
 // Re-export for other modules (preferences.ts, conversations.ts, knowledge.ts)
-export { ORION_CONTEXT_ROOT };
-
-/**
- * Check if running on Vercel (production)
- * Vercel KV requires KV_REST_API_URL to be set
- */
-function isVercelKVAvailable(): boolean {
-  return Boolean(process.env.KV_REST_API_URL);
-}
+export { ORION_CONTEXT_ROOT, SEARCHABLE_MEMORY_TYPES };
+export type { MemoryBackend, MemoryStore };
 
 /**
  * Memory types supported by the system
@@ -42,6 +40,8 @@ export const MemoryType = {
   CONVERSATION: 'conversation',
   PREFERENCE: 'preference',
   KNOWLEDGE: 'knowledge',
+  FEEDBACK: 'feedback',
+  CREDENTIAL: 'credential',
 } as const;
 
 export type MemoryTypeValue = (typeof MemoryType)[keyof typeof MemoryType];
@@ -58,10 +58,14 @@ export interface MemoryMetadata {
   channelId?: string;
   /** Tags for categorization */
   tags?: string[];
+  /** Last update timestamp (ISO 8601) */
+  updatedAt?: string;
+  /** Type-specific fields (e.g. a conversation's threadTs, participants and topics) */
+  [field: string]: unknown;
 }
 
 /**
- * A memory item stored in orion-context/
+ * A memory item, keyed by type + key within the memory store
  */
 export interface Memory {
   /** Type of memory */
@@ -75,87 +79,76 @@ export interface Memory {
 }
 
 /**
- * Get the file extension for a memory type
- */
-function getFileExtension(type: MemoryTypeValue): string {
-  return type === MemoryType.PREFERENCE ? '.yaml' : '.md';
-}
-
-/**
- * Get the full path for a memory item
+ * Get the file path for a memory item (file backend)
  *
  * @param memory - Memory item to get path for
  * @returns Full file path for the memory
  */
 export function getMemoryPath(memory: Memory): string {
-  const dir = TYPE_DIRECTORIES[memory.type];
-  const ext = getFileExtension(memory.type);
-  const filename = `${memory.key}${ext}`;
-  return join(ORION_CONTEXT_ROOT, dir, filename);
+  return getMemoryFilePath(memory.type, memory.key);
 }
 
 /**
- * Format memory content for storage
+ * Create a memory store for a backend
  *
- * @param memory - Memory to format
- * @returns Formatted content string
+ * @param backend - Backend name (`fs`, `kv` or `sqlite`)
+ * @param options - Backend options (SQLite file path)
+ * @throws Error if the backend is unknown
  */
-function formatMemoryContent(memory: Memory): string {
-  if (memory.type === MemoryType.PREFERENCE) {
-    // Preferences are stored as YAML
-    const data = {
-      type: memory.type,
-      userId: memory.metadata.userId,
-      createdAt: memory.metadata.createdAt,
-      ...safeParseJSON(memory.content),
-    };
-    return YAML.stringify(data);
+export function createMemoryStore(
+  backend: string,
+  options: { sqlitePath?: string } = {}
+): MemoryStore {
+  switch (parseMemoryBackend(backend)) {
+    case 'fs':
+      return new FileMemoryStore();
+    case 'kv':
+      // Knowledge files bundled at deploy time stay searchable on Vercel
+      return new VercelKVMemoryStore({ bundledKnowledge: new FileMemoryStore() });
+    case 'sqlite':
+      return new SqliteMemoryStore(options.sqlitePath ?? config.memorySqlitePath);
+    default:
+      throw new Error(`Unknown memory backend "${backend}" (expected fs, kv or sqlite)`);
   }
+}
 
-  // Conversations and Knowledge use Markdown with frontmatter
-  const frontmatter: Record<string, unknown> = {
-    type: memory.type,
-    createdAt: memory.metadata.createdAt,
-  };
-
-  if (memory.metadata.userId) frontmatter.userId = memory.metadata.userId;
-  if (memory.metadata.channelId) frontmatter.channelId = memory.metadata.channelId;
-  if (memory.metadata.tags) frontmatter.tags = memory.metadata.tags;
+let memoryStore: MemoryStore | null = null;
 
-  return matter.stringify(memory.content, frontmatter);
+/**
+ * Get the configured memory store (created on first use from MEMORY_BACKEND)
+ */
+export function getMemoryStore(): MemoryStore {
+  if (!memoryStore) {
+    memoryStore = createMemoryStore(config.memoryBackend);
+    logger.info({ event: 'memory_store_selected', backend: memoryStore.backend });
+  }
+  return memoryStore;
 }
 
 /**
- * Safely parse JSON content
+ * Replace the memory store (tests, or null to re-read config on next use)
  */
-function safeParseJSON(content: string): Record<string, unknown> {
-  try {
-    return JSON.parse(content);
-  } catch {
-    return { value: content };
-  }
+export function setMemoryStore(store: MemoryStore | null): void {
+  memoryStore = store;
 }
 
 /**
- * Save a memory to orion-context/ (AC#1)
+ * Save a memory to the memory store (AC#1)
  *
  * @param memory - Memory item to save
  */
 export async function saveMemory(memory: Memory): Promise<void> {
-  const path = getMemoryPath(memory);
-  const content = formatMemoryContent(memory);
-
-  // Ensure directory exists
-  await mkdir(dirname(path), { recursive: true });
+  const store = getMemoryStore();
+  await store.put(memory);
 
-  // Write the file
-  await writeFile(path, content);
+  // Incremental re-index so the memory is immediately searchable
+  await indexDocument({ id: store.documentId(memory.type, memory.key), text: memory.content });
 
   logger.info({
     event: 'memory_saved',
     type: memory.type,
     key: memory.key,
-    path,
+    backend: store.backend,
   });
 }
 
@@ -165,19 +158,20 @@ export async function saveMemory(memory: Memory): Promise<void> {
 export interface MemorySearchResult {
   /** The matched memory */
   memory: Memory;
-  /** Relevance score (0-1, normalized by keyword count) */
+  /** Relevance score (0-1, hybrid BM25 + embedding similarity) */
   relevance: number;
-  /** Raw keyword match count */
+  /** Number of distinct query keywords found in the memory */
   rawScore: number;
+  /** Embedding cosine similarity (0-1) */
+  vectorScore: number;
 }
 
 /**
- * Search memory files using keyword matching with scores (AC#2)
+ * Search memories using hybrid keyword + semantic ranking with scores (AC#2)
  *
- * On Vercel: Searches KV for preferences/conversations, files for knowledge.
- * Locally: Scans files in orion-context/.
- *
- * Ranks by keyword matches, returns top 10 with scores.
+ * Candidates come from the configured memory store and are ranked by
+ * BM25 + embedding similarity (src/retrieval/), so a memory can match on
+ * meaning without sharing exact keywords. Returns top 10 with scores.
  *
  * @param query - Search query string
  * @param type - Optional memory type to filter by
@@ -189,149 +183,130 @@ export async function searchMemoryWithScores(
   query: string,
   type?: MemoryTypeValue
 ): Promise<MemorySearchResult[]> {
-  // Extract keywords (words > 2 chars)
-  const keywords = query
-    .toLowerCase()
-    .split(/\s+/)
-    .filter((k) => k.length > 2);
-
-  if (keywords.length === 0) {
+  if (tokenize(query).length === 0) {
     return [];
   }
-
-  const results: Array<{ memory: Memory; score: number }> = [];
-
-  if (isVercelKVAvailable()) {
-    // On Vercel: search KV for preferences and conversations
-    const kvResults = await searchKVMemories(keywords, type);
-    results.push(...kvResults);
-
-    // Knowledge is always file-based (bundled at deploy time)
-    if (!type || type === MemoryType.KNOWLEDGE) {
-      const knowledgeResults = await searchFileMemories(keywords, MemoryType.KNOWLEDGE);
-      results.push(...knowledgeResults);
-    }
-  } else {
-    // Locally: scan all files
-    const fileResults = await searchFileMemories(keywords, type);
-    results.push(...fileResults);
-  }
-
-  // Sort by relevance score, return top 10 with normalized scores
-  const maxScore = keywords.length;
-  return results
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 10)
-    .map((r) => ({
-      memory: r.memory,
-      relevance: r.score / maxScore,
-      rawScore: r.score,
-    }));
+  return getMemoryStore().search(query, type);
 }
 
 /**
- * Search Vercel KV for matching memories
+ * Search memories using hybrid keyword + semantic ranking (AC#2)
+ *
+ * Searches the configured memory store, ranks by relevance, returns top 10.
+ * Use searchMemoryWithScores for relevance scores.
+ *
+ * @param query - Search query string
+ * @param type - Optional memory type to filter by
+ * @returns Array of matching Memory objects, ranked by relevance
  */
-async function searchKVMemories(
-  keywords: string[],
+export async function searchMemory(
+  query: string,
   type?: MemoryTypeValue
-): Promise<Array<{ memory: Memory; score: number }>> {
-  const results: Array<{ memory: Memory; score: number }> = [];
-
-  // Search preferences
-  if (!type || type === MemoryType.PREFERENCE) {
-    const prefKeys = await listKVKeys('preference');
-    for (const key of prefKeys) {
-      const result = await loadFromKV<Record<string, unknown>>('preference', key);
-      if (!result) continue;
-
-      const content = JSON.stringify(result.data).toLowerCase();
-      const score = keywords.reduce((acc, kw) => acc + (content.includes(kw) ? 1 : 0), 0);
+): Promise<Memory[]> {
+  const results = await searchMemoryWithScores(query, type);
+  return results.map((r) => r.memory);
+}
 
-      if (score > 0) {
-        results.push({
-          memory: {
-            type: MemoryType.PREFERENCE,
-            key: `preference:${key}`,
-            content: JSON.stringify(result.data),
-            metadata: { createdAt: result.createdAt },
-          },
-          score,
-        });
-      }
-    }
-  }
+/** Tag on facts users asked Orion to remember */
+export const USER_NOTE_TAG = 'user-note';
 
-  // Search conversations
-  if (!type || type === MemoryType.CONVERSATION) {
-    const convKeys = await listKVKeys('conversation');
-    for (const key of convKeys) {
-      const result = await loadFromKV<{ summary: string }>('conversation', key);
-      if (!result) continue;
+/** Key prefix for user notes within knowledge */
+const USER_NOTES_PREFIX = 'notes/';
 
-      const content = (result.data.summary || '').toLowerCase();
-      const score = keywords.reduce((acc, kw) => acc + (content.includes(kw) ? 1 : 0), 0);
+/**
+ * Save a fact a user asked Orion to remember (e.g. `/orion remember ...`).
+ *
+ * Stored as knowledge under `notes/` (orion-context/knowledge/notes/ on the file
+ * backend), owned by the user.
+ *
+ * @param userId - Slack user ID (owner)
+ * @param content - Fact to remember
+ * @param channelId - Channel it was saved from
+ * @returns The saved memory
+ */
+export async function rememberForUser(
+  userId: string,
+  content: string,
+  channelId?: string
+): Promise<Memory> {
+  const memory: Memory = {
+    type: MemoryType.KNOWLEDGE,
+    key: `${USER_NOTES_PREFIX}${userId}-${Date.now()}`,
+    content,
+    metadata: {
+      createdAt: new Date().toISOString(),
+      userId,
+      channelId,
+      tags: [USER_NOTE_TAG],
+    },
+  };
+  await saveMemory(memory);
+  return memory;
+}
 
-      if (score > 0) {
-        results.push({
-          memory: {
-            type: MemoryType.CONVERSATION,
-            key: `conversation:${key}`,
-            content: result.data.summary || '',
-            metadata: { createdAt: result.createdAt },
-          },
-          score,
-        });
-      }
+/**
+ * List facts a user asked Orion to remember, newest first.
+ */
+export async function listUserMemories(userId: string): Promise<Memory[]> {
+  const store = getMemoryStore();
+  const keys = await store.list(MemoryType.KNOWLEDGE, `${USER_NOTES_PREFIX}${userId}-`);
+
+  const notes: Memory[] = [];
+  for (const key of keys) {
+    const memory = await store.get(MemoryType.KNOWLEDGE, key);
+    if (memory?.metadata.userId === userId && memory.metadata.tags?.includes(USER_NOTE_TAG)) {
+      notes.push(memory);
     }
   }
 
-  return results;
+  return notes.sort((a, b) => b.metadata.createdAt.localeCompare(a.metadata.createdAt));
 }
 
 /**
- * Search file-based memories (used locally and for knowledge on Vercel)
+ * Delete the user's remembered fact that best matches a query.
+ *
+ * Only the user's own notes are candidates.
+ *
+ * @returns The deleted memory, or null if nothing matched
  */
-async function searchFileMemories(
-  keywords: string[],
-  type?: MemoryTypeValue
-): Promise<Array<{ memory: Memory; score: number }>> {
-  const searchDir = type ? getTypeDirectory(type) : ORION_CONTEXT_ROOT;
-  const files = await listMemoryFiles(searchDir);
-  const results: Array<{ memory: Memory; score: number }> = [];
+export async function forgetUserMemory(userId: string, query: string): Promise<Memory | null> {
+  const store = getMemoryStore();
+  const memories = await listUserMemories(userId);
+  const match = (await rankMemories(store, query, memories))[0]?.memory;
+  if (!match) return null;
 
-  for (const file of files) {
-    const memory = await parseMemoryFile(file);
-    if (!memory) continue;
+  await store.delete(match.type, match.key);
+  removeDocument(store.documentId(match.type, match.key));
 
-    const content = memory.content.toLowerCase();
-    const score = keywords.reduce((acc, keyword) => {
-      return acc + (content.includes(keyword) ? 1 : 0);
-    }, 0);
-
-    if (score > 0) {
-      results.push({ memory, score });
-    }
-  }
+  logger.info({
+    event: 'memory_forgotten',
+    userId,
+    key: match.key,
+    backend: store.backend,
+  });
 
-  return results;
+  return match;
 }
 
 /**
- * Search memory files using keyword matching (AC#2)
- *
- * Scans files in orion-context/, ranks by keyword matches, returns top 10.
- * Use searchMemoryWithScores for relevance scores.
+ * Delete every fact a user asked Orion to remember.
  *
- * @param query - Search query string
- * @param type - Optional memory type to filter by
- * @returns Array of matching Memory objects, ranked by relevance
+ * @returns Number of notes deleted
  */
-export async function searchMemory(
-  query: string,
-  type?: MemoryTypeValue
-): Promise<Memory[]> {
-  const results = await searchMemoryWithScores(query, type);
-  return results.map((r) => r.memory);
-}
+export async function forgetAllUserMemories(userId: string): Promise<number> {
+  const store = getMemoryStore();
+  const notes = await listUserMemories(userId);
 
+  for (const note of notes) {
+    await store.delete(note.type, note.key);
+    removeDocument(store.documentId(note.type, note.key));
+  }
+
+  logger.info({
+    event: 'memories_forgotten',
+    userId,
+    count: notes.length,
+    backend: store.backend,
+  });
+  return notes.length;
+}
@@ -4,28 +4,27 @@
  * Handles storage and retrieval of domain-specific knowledge.
  * Knowledge is stored as Markdown files in orion-context/knowledge/.
  *
+ * Knowledge lives in the configured memory store (see getMemoryStore), keyed by
+ * name - Markdown files in orion-context/knowledge/ on the file backend.
+ *
  * ## Vercel Compatibility (Story 2.8 Task 8)
  *
- * Knowledge files are **READ-ONLY** in Vercel production:
+ * Bundled knowledge files are **READ-ONLY** in Vercel production:
  * - Files in `orion-context/knowledge/` are bundled at deploy time
- * - `loadKnowledge()` and `listKnowledge()` work on deployed functions
- * - `saveKnowledge()` writes are **ephemeral** (lost after function exit)
+ * - On the KV backend they are listed, loaded and searched alongside knowledge saved to KV
+ * - File writes on a deployed function are **ephemeral**, so `saveKnowledge()` needs the
+ *   KV backend there (the file backend would lose them after function exit)
  *
- * To add new knowledge, commit files to git and redeploy.
+ * To add bundled knowledge, commit files to git and redeploy.
  *
  * @see Story 2.8 - File-Based Memory
  * @see AC#5 - Knowledge stored in orion-context/knowledge/
  */
 
-import { mkdir, readFile, writeFile, readdir } from 'fs/promises';
-import { join, dirname } from 'path';
-import matter from 'gray-matter';
-import { ORION_CONTEXT_ROOT } from './index.js';
+import { getMemoryStore, type Memory } from './index.js';
+import { getMemoryFilePath } from './storage.js';
 import { logger } from '../utils/logger.js';
 
-/** Directory for knowledge files */
-const KNOWLEDGE_DIR = join(ORION_CONTEXT_ROOT, 'knowledge');
-
 /**
  * Knowledge item data structure
  */
@@ -45,13 +44,13 @@ export interface Knowledge {
 }
 
 /**
- * Get the file path for a knowledge item
+ * Get the file path for a knowledge item (file backend)
  *
  * @param name - Knowledge item name
  * @returns Path to the knowledge file
  */
 export function getKnowledgePath(name: string): string {
-  return join(KNOWLEDGE_DIR, `${name}.md`);
+  return getMemoryFilePath('knowledge', name);
 }
 
 /**
@@ -60,33 +59,27 @@ export function getKnowledgePath(name: string): string {
  * @param knowledge - Knowledge item to save
  */
 export async function saveKnowledge(knowledge: Knowledge): Promise<void> {
-  const path = getKnowledgePath(knowledge.name);
+  const store = getMemoryStore();
 
-  // Build frontmatter
-  const frontmatter = {
+  await store.put({
     type: 'knowledge',
-    name: knowledge.name,
-    category: knowledge.category,
-    tags: knowledge.tags,
-    createdAt: knowledge.createdAt,
-    updatedAt: knowledge.updatedAt,
-  };
-
-  // Create markdown content with frontmatter
-  const content = matter.stringify(knowledge.content, frontmatter);
-
-  // Ensure directory exists
-  await mkdir(dirname(path), { recursive: true });
-
-  // Write file
-  await writeFile(path, content);
+    key: knowledge.name,
+    content: knowledge.content,
+    metadata: {
+      name: knowledge.name,
+      category: knowledge.category,
+      tags: knowledge.tags,
+      createdAt: knowledge.createdAt,
+      updatedAt: knowledge.updatedAt,
+    },
+  });
 
   logger.info({
     event: 'knowledge_saved',
     name: knowledge.name,
     category: knowledge.category,
     tagsCount: knowledge.tags.length,
-    path,
+    backend: store.backend,
   });
 }
 
@@ -97,23 +90,8 @@ export async function saveKnowledge(knowledge: Knowledge): Promise<void> {
  * @returns Knowledge item or null if not found
  */
 export async function loadKnowledge(name: string): Promise<Knowledge | null> {
-  const path = getKnowledgePath(name);
-
-  try {
-    const fileContent = await readFile(path, 'utf-8');
-    const { data: frontmatter, content: body } = matter(fileContent);
-
-    return {
-      name: frontmatter.name || name,
-      content: body,
-      category: frontmatter.category || 'general',
-      tags: frontmatter.tags || [],
-      createdAt: frontmatter.createdAt || new Date().toISOString(),
-      updatedAt: frontmatter.updatedAt || new Date().toISOString(),
-    };
-  } catch {
-    return null;
-  }
+  const memory = await getMemoryStore().get('knowledge', name);
+  return memory ? toKnowledge(memory, name) : null;
 }
 
 /**
@@ -123,40 +101,40 @@ export async function loadKnowledge(name: string): Promise<Knowledge | null> {
  * @returns Array of knowledge items
  */
 export async function listKnowledge(category?: string): Promise<Knowledge[]> {
-  try {
-    const entries = await readdir(KNOWLEDGE_DIR, { withFileTypes: true });
-    const mdFiles = entries.filter((e) => e.isFile() && e.name.endsWith('.md'));
-
-    const items: Knowledge[] = [];
-
-    for (const file of mdFiles) {
-      const filepath = join(KNOWLEDGE_DIR, file.name);
-      try {
-        const content = await readFile(filepath, 'utf-8');
-        const { data: frontmatter, content: body } = matter(content);
-
-        const knowledge: Knowledge = {
-          name: frontmatter.name || file.name.replace('.md', ''),
-          content: body,
-          category: frontmatter.category || 'general',
-          tags: frontmatter.tags || [],
-          createdAt: frontmatter.createdAt || new Date().toISOString(),
-          updatedAt: frontmatter.updatedAt || new Date().toISOString(),
-        };
-
-        // Filter by category if specified
-        if (!category || knowledge.category === category) {
-          items.push(knowledge);
-        }
-      } catch {
-        // Skip invalid files
-      }
-    }
+  const store = getMemoryStore();
+  // Nested keys (e.g. notes/) hold user notes, not knowledge items
+  const keys = (await store.list('knowledge')).filter((key) => !key.includes('/'));
 
-    return items;
-  } catch {
-    return [];
+  const items: Knowledge[] = [];
+
+  for (const key of keys) {
+    const memory = await store.get('knowledge', key);
+    if (!memory) continue;
+
+    const knowledge = toKnowledge(memory, key);
+
+    // Filter by category if specified
+    if (!category || knowledge.category === category) {
+      items.push(knowledge);
+    }
   }
+
+  return items;
+}
+
+/**
+ * Map a stored memory to a knowledge item
+ */
+function toKnowledge(memory: Memory, name: string): Knowledge {
+  const { metadata } = memory;
+  return {
+    name: typeof metadata.name === 'string' ? metadata.name : name,
+    content: memory.content,
+    category: typeof metadata.category === 'string' ? metadata.category : 'general',
+    tags: metadata.tags ?? [],
+    createdAt: metadata.createdAt,
+    updatedAt: metadata.updatedAt ?? metadata.createdAt,
+  };
 }
 
 /** Minimum relevance threshold (30% of keywords must match) */
@@ -0,0 +1,109 @@
+/**
+ * Vercel KV Memory Store Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('./vercel-kv-storage.js', () => ({
+  saveToKV: vi.fn(async () => undefined),
+  loadFromKV: vi.fn(async () => null),
+  deleteFromKV: vi.fn(async () => true),
+  listKVKeys: vi.fn(async () => []),
+}));
+
+import { VercelKVMemoryStore } from './kv-store.js';
+import type { MemoryStore } from './store.js';
+import { deleteFromKV, listKVKeys, loadFromKV, saveToKV } from './vercel-kv-storage.js';
+
+function createBundledKnowledge(): MemoryStore {
+  return {
+    backend: 'fs',
+    list: vi.fn(async () => ['runbook', 'style-guide']),
+    get: vi.fn(async (type, key) => ({
+      type,
+      key,
+      content: `bundled ${key}`,
+      metadata: { createdAt: '2024-01-01T00:00:00.000Z' },
+    })),
+    put: vi.fn(),
+    delete: vi.fn(),
+    search: vi.fn(),
+    documentId: vi.fn(),
+  };
+}
+
+describe('VercelKVMemoryStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('saves conversations in the existing KV document shape', async () => {
+    const store = new VercelKVMemoryStore();
+
+    await store.put({
+      type: 'conversation',
+      key: 'C1_1.1',
+      content: 'Summary',
+      metadata: { createdAt: '2025-01-01T00:00:00.000Z', channelId: 'C1', threadTs: '1.1' },
+    });
+
+    expect(saveToKV).toHaveBeenCalledWith('conversation', 'C1_1.1', {
+      createdAt: '2025-01-01T00:00:00.000Z',
+      channelId: 'C1',
+      threadTs: '1.1',
+      summary: 'Summary',
+    });
+  });
+
+  it('loads memories using the KV envelope timestamps as fallback', async () => {
+    vi.mocked(loadFromKV).mockResolvedValueOnce({
+      data: { userId: 'U1', preferences: { tone: 'concise' } },
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-02T00:00:00.000Z',
+    });
+
+    const memory = await new VercelKVMemoryStore().get('preference', 'U1');
+
+    expect(memory).toEqual({
+      type: 'preference',
+      key: 'U1',
+      content: '{"tone":"concise"}',
+      metadata: {
+        userId: 'U1',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-02T00:00:00.000Z',
+      },
+    });
+  });
+
+  it('merges bundled knowledge with knowledge saved to KV', async () => {
+    vi.mocked(listKVKeys).mockResolvedValueOnce(['notes/U1-1', 'runbook']);
+    vi.mocked(loadFromKV).mockResolvedValueOnce({
+      data: { content: 'kv runbook' },
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    });
+    const store = new VercelKVMemoryStore({ bundledKnowledge: createBundledKnowledge() });
+
+    expect(await store.list('knowledge')).toEqual(['notes/U1-1', 'runbook', 'style-guide']);
+    expect((await store.get('knowledge', 'runbook'))?.content).toBe('kv runbook');
+    expect((await store.get('knowledge', 'style-guide'))?.content).toBe('bundled style-guide');
+  });
+
+  it('does not consult bundled knowledge for other types', async () => {
+    const bundled = createBundledKnowledge();
+    const store = new VercelKVMemoryStore({ bundledKnowledge: bundled });
+
+    expect(await store.list('conversation', 'C1_')).toEqual([]);
+    expect(await store.get('preference', 'U1')).toBeNull();
+    expect(listKVKeys).toHaveBeenCalledWith('conversation', 'C1_');
+    expect(bundled.list).not.toHaveBeenCalled();
+    expect(bundled.get).not.toHaveBeenCalled();
+  });
+
+  it('deletes from KV', async () => {
+    await new VercelKVMemoryStore().delete('knowledge', 'notes/U1-1');
+
+    expect(deleteFromKV).toHaveBeenCalledWith('knowledge', 'notes/U1-1');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Vercel KV Memory Store
+ *
+ * Stores memories in Vercel KV as `orion:{type}:{key}` (see vercel-kv-storage.ts),
+ * for serverless deployments where the filesystem is ephemeral.
+ *
+ * Knowledge files in orion-context/knowledge/ are bundled at deploy time, so the
+ * store can fall back to a read-only store for knowledge: bundled items are listed,
+ * loaded and searched alongside knowledge saved to KV (KV wins on key conflicts).
+ */
+
+import type { Memory, MemorySearchResult, MemoryTypeValue } from './index.js';
+import { SEARCHABLE_MEMORY_TYPES, fromDocument, rankMemories, toDocument, type MemoryStore } from './store.js';
+import { deleteFromKV, listKVKeys, loadFromKV, saveToKV } from './vercel-kv-storage.js';
+
+export interface VercelKVMemoryStoreOptions {
+  /** Read-only store with knowledge bundled at deploy time */
+  bundledKnowledge?: MemoryStore;
+}
+
+/**
+ * Memory store backed by Vercel KV
+ */
+export class VercelKVMemoryStore implements MemoryStore {
+  readonly backend = 'kv' as const;
+  private readonly bundledKnowledge?: MemoryStore;
+
+  constructor(options: VercelKVMemoryStoreOptions = {}) {
+    this.bundledKnowledge = options.bundledKnowledge;
+  }
+
+  async list(type: MemoryTypeValue, prefix?: string): Promise<string[]> {
+    const keys = await listKVKeys(type, prefix);
+    if (type !== 'knowledge' || !this.bundledKnowledge) return keys;
+
+    const bundled = await this.bundledKnowledge.list(type, prefix);
+    return [...new Set([...keys, ...bundled])].sort();
+  }
+
+  async get(type: MemoryTypeValue, key: string): Promise<Memory | null> {
+    const result = await loadFromKV<Record<string, unknown>>(type, key);
+    if (result) {
+      return fromDocument(type, key, result.data ?? {}, {
+        createdAt: result.createdAt,
+        updatedAt: result.updatedAt,
+      });
+    }
+
+    if (type === 'knowledge' && this.bundledKnowledge) {
+      return this.bundledKnowledge.get(type, key);
+    }
+    return null;
+  }
+
+  async put(memory: Memory): Promise<void> {
+    await saveToKV(memory.type, memory.key, toDocument(memory));
+  }
+
+  async delete(type: MemoryTypeValue, key: string): Promise<void> {
+    // Bundled knowledge is read-only; only the KV copy can be deleted
+    await deleteFromKV(type, key);
+  }
+
+  async search(query: string, type?: MemoryTypeValue): Promise<MemorySearchResult[]> {
+    const memories: Memory[] = [];
+
+    for (const t of type ? [type] : SEARCHABLE_MEMORY_TYPES) {
+      for (const key of await this.list(t)) {
+        const memory = await this.get(t, key);
+        if (memory) memories.push(memory);
+      }
+    }
+
+    return rankMemories(this, query, memories);
+  }
+
+  documentId(type: MemoryTypeValue, key: string): string {
+    return `kv:${type}:${key}`;
+  }
+}
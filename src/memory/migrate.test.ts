@@ -0,0 +1,102 @@
+/**
+ * Memory Migration Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { migrateMemories, parseMigrateArgs } from './migrate.js';
+import { SqliteMemoryStore } from './sqlite-store.js';
+
+describe('memory migration', () => {
+  const stores: SqliteMemoryStore[] = [];
+
+  function createStore(): SqliteMemoryStore {
+    const store = new SqliteMemoryStore(':memory:');
+    stores.push(store);
+    return store;
+  }
+
+  afterEach(() => {
+    stores.splice(0).forEach((store) => store.close());
+  });
+
+  async function seed(store: SqliteMemoryStore): Promise<void> {
+    await store.put({
+      type: 'preference',
+      key: 'U1',
+      content: '{"tone":"concise"}',
+      metadata: { createdAt: '2024-01-01T00:00:00.000Z', userId: 'U1' },
+    });
+    await store.put({
+      type: 'conversation',
+      key: 'C1_1.1',
+      content: 'Summary',
+      metadata: { createdAt: '2024-02-01T00:00:00.000Z', channelId: 'C1' },
+    });
+    await store.put({
+      type: 'knowledge',
+      key: 'notes/U1-1',
+      content: 'Standup is at 9:30',
+      metadata: { createdAt: '2024-03-01T00:00:00.000Z', userId: 'U1', tags: ['user-note'] },
+    });
+  }
+
+  it('copies every memory, preserving timestamps', async () => {
+    const source = createStore();
+    const target = createStore();
+    await seed(source);
+
+    const result = await migrateMemories(source, target);
+
+    expect(result.copied).toEqual({
+      preference: 1,
+      conversation: 1,
+      knowledge: 1,
+      feedback: 0,
+      credential: 0,
+    });
+    expect(await target.get('knowledge', 'notes/U1-1')).toEqual(
+      await source.get('knowledge', 'notes/U1-1')
+    );
+    expect((await target.get('preference', 'U1'))?.metadata.createdAt).toBe(
+      '2024-01-01T00:00:00.000Z'
+    );
+  });
+
+  it('only counts on a dry run', async () => {
+    const source = createStore();
+    const target = createStore();
+    await seed(source);
+
+    const result = await migrateMemories(source, target, { dryRun: true });
+
+    expect(result.copied.knowledge).toBe(1);
+    expect(await target.list('knowledge')).toEqual([]);
+  });
+
+  describe('parseMigrateArgs', () => {
+    it('parses backends and options', () => {
+      expect(
+        parseMigrateArgs([
+          '--from',
+          'kv',
+          '--to',
+          'sqlite',
+          '--sqlite-path',
+          '/data/m.db',
+          '--dry-run',
+        ])
+      ).toEqual({ from: 'kv', to: 'sqlite', sqlitePath: '/data/m.db', dryRun: true });
+    });
+
+    it('rejects missing, unknown or identical backends', () => {
+      expect(() => parseMigrateArgs(['--from', 'fs'])).toThrow('Usage');
+      expect(() => parseMigrateArgs(['--from', 'fs', '--to', 'redis'])).toThrow('Usage');
+      expect(() => parseMigrateArgs(['--from', 'fs', '--to', 'fs'])).toThrow('both "fs"');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Memory Migration
+ *
+ * Copies memories between backends, e.g. to move a deployment from
+ * orion-context/ files or Vercel KV onto a single SQLite file.
+ *
+ * Usage: pnpm memory:migrate --from fs --to sqlite [--sqlite-path ./orion-context/memory.db] [--dry-run]
+ *
+ * Memories are copied as-is (timestamps preserved) and existing keys in the
+ * target are overwritten. Nothing is deleted from the source.
+ */
+
+import { pathToFileURL } from 'url';
+import { resolve } from 'path';
+import { createMemoryStore, type MemoryStore, type MemoryTypeValue } from './index.js';
+import { MEMORY_TYPES, parseMemoryBackend, type MemoryBackend } from './store.js';
+import { SqliteMemoryStore } from './sqlite-store.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Result of a migration
+ */
+export interface MigrationResult {
+  /** Memories copied (or that would be copied, on a dry run), per type */
+  copied: Record<MemoryTypeValue, number>;
+}
+
+/**
+ * Copy every memory from one store to another
+ *
+ * @param source - Store to read from
+ * @param target - Store to write to
+ * @param options - `dryRun` counts memories without writing
+ */
+export async function migrateMemories(
+  source: MemoryStore,
+  target: MemoryStore,
+  options: { dryRun?: boolean } = {}
+): Promise<MigrationResult> {
+  const copied: Record<MemoryTypeValue, number> = {
+    preference: 0,
+    conversation: 0,
+    knowledge: 0,
+    feedback: 0,
+    credential: 0,
+  };
+
+  for (const type of MEMORY_TYPES) {
+    for (const key of await source.list(type)) {
+      const memory = await source.get(type, key);
+      if (!memory) continue;
+
+      if (!options.dryRun) await target.put(memory);
+      copied[type] += 1;
+    }
+  }
+
+  logger.info({
+    event: 'memory_migrated',
+    from: source.backend,
+    to: target.backend,
+    dryRun: Boolean(options.dryRun),
+    ...copied,
+  });
+
+  return { copied };
+}
+
+/**
+ * Parsed migration command arguments
+ */
+export interface MigrateArgs {
+  from: MemoryBackend;
+  to: MemoryBackend;
+  sqlitePath?: string;
+  dryRun: boolean;
+}
+
+/**
+ * Parse `--from <backend> --to <backend> [--sqlite-path <file>] [--dry-run]`
+ *
+ * @throws Error with usage if the arguments are invalid
+ */
+export function parseMigrateArgs(argv: string[]): MigrateArgs {
+  const usage =
+    'Usage: memory:migrate --from <fs|kv|sqlite> --to <fs|kv|sqlite> [--sqlite-path <file>] [--dry-run]';
+  const valueOf = (flag: string): string | undefined => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  const from = parseMemoryBackend(valueOf('--from') ?? '');
+  const to = parseMemoryBackend(valueOf('--to') ?? '');
+  if (!from || !to) throw new Error(usage);
+  if (from === to) throw new Error(`Source and target are both "${from}". ${usage}`);
+
+  return { from, to, sqlitePath: valueOf('--sqlite-path'), dryRun: argv.includes('--dry-run') };
+}
+
+async function main(): Promise<void> {
+  const args = parseMigrateArgs(process.argv.slice(2));
+  const source = createMemoryStore(args.from, { sqlitePath: args.sqlitePath });
+  const target = createMemoryStore(args.to, { sqlitePath: args.sqlitePath });
+
+  try {
+    const { copied } = await migrateMemories(source, target, { dryRun: args.dryRun });
+    const verb = args.dryRun ? 'Would copy' : 'Copied';
+    console.log(
+      `${verb} ${copied.preference} preferences, ${copied.conversation} conversations, ${copied.knowledge} knowledge items, ${copied.feedback} feedback records and ${copied.credential} credentials from ${args.from} to ${args.to}.`
+    );
+  } finally {
+    for (const store of [source, target]) {
+      if (store instanceof SqliteMemoryStore) store.close();
+    }
+  }
+}
+
+function isMainModule(): boolean {
+  const entry = process.argv[1];
+  if (!entry) return false;
+  return import.meta.url === pathToFileURL(resolve(entry)).href;
+}
+
+if (isMainModule()) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  });
+}
@@ -4,31 +4,17 @@
  * Handles storage and retrieval of per-user preferences.
  *
  * ## Storage Backend
- * - **Vercel Production**: Uses Vercel KV (Redis) for persistence across function invocations
- * - **Local Development**: Uses YAML files in orion-context/user-preferences/
+ * Preferences live in the configured memory store (see getMemoryStore), keyed by
+ * user ID - YAML files in orion-context/user-preferences/ on the file backend.
  *
  * @see Story 2.8 - File-Based Memory
  * @see AC#3 - User preferences stored in orion-context/user-preferences/
  * @see Task 10: Migrate Preferences to Vercel KV
  */
 
-import { mkdir, readFile, writeFile } from 'fs/promises';
-import { join, dirname } from 'path';
-import YAML from 'yaml';
-import { ORION_CONTEXT_ROOT } from './index.js';
+import { getMemoryStore } from './index.js';
+import { getMemoryFilePath } from './storage.js';
 import { logger } from '../utils/logger.js';
-import { saveToKV, loadFromKV } from './vercel-kv-storage.js';
-
-/**
- * Check if running on Vercel (production)
- * Vercel KV requires KV_REST_API_URL to be set
- */
-function isVercelKVAvailable(): boolean {
-  return Boolean(process.env.KV_REST_API_URL);
-}
-
-/** Directory for user preference files */
-const PREFERENCES_DIR = join(ORION_CONTEXT_ROOT, 'user-preferences');
 
 /**
  * User preference data structure
@@ -45,75 +31,37 @@ export interface UserPreference {
 }
 
 /**
- * Get the file path for a user's preferences
+ * Get the file path for a user's preferences (file backend)
  *
  * @param userId - Slack user ID
  * @returns Path to the user's preference file
  */
 export function getPreferencePath(userId: string): string {
-  return join(PREFERENCES_DIR, `${userId}.yaml`);
+  return getMemoryFilePath('preference', userId);
 }
 
 /**
  * Load a user's preferences
  *
- * Uses Vercel KV on production, file-based storage locally.
- *
  * @param userId - Slack user ID
  * @returns User preference object or null if not found
  */
 export async function loadUserPreference(userId: string): Promise<UserPreference | null> {
-  // Use Vercel KV on production
-  if (isVercelKVAvailable()) {
-    return loadUserPreferenceFromKV(userId);
-  }
-
-  // Fall back to file-based storage locally
-  return loadUserPreferenceFromFile(userId);
-}
-
-/**
- * Load preferences from Vercel KV
- */
-async function loadUserPreferenceFromKV(userId: string): Promise<UserPreference | null> {
-  const result = await loadFromKV<UserPreference>('preference', userId);
-  if (!result) return null;
+  const memory = await getMemoryStore().get('preference', userId);
+  if (!memory) return null;
 
   return {
-    userId: result.data.userId || userId,
-    preferences: result.data.preferences || {},
-    createdAt: result.createdAt,
-    updatedAt: result.updatedAt,
+    userId: typeof memory.metadata.userId === 'string' ? memory.metadata.userId : userId,
+    preferences: JSON.parse(memory.content),
+    createdAt: memory.metadata.createdAt,
+    updatedAt: memory.metadata.updatedAt ?? memory.metadata.createdAt,
   };
 }
 
-/**
- * Load preferences from file (local development)
- */
-async function loadUserPreferenceFromFile(userId: string): Promise<UserPreference | null> {
-  const path = getPreferencePath(userId);
-
-  try {
-    const content = await readFile(path, 'utf-8');
-    const data = YAML.parse(content);
-
-    return {
-      userId: data.userId || userId,
-      preferences: data.preferences || {},
-      createdAt: data.createdAt || new Date().toISOString(),
-      updatedAt: data.updatedAt || new Date().toISOString(),
-    };
-  } catch {
-    // File doesn't exist or is invalid
-    return null;
-  }
-}
-
 /**
  * Save or update a user's preferences
  *
  * Merges with existing preferences if they exist.
- * Uses Vercel KV on production, file-based storage locally.
  *
  * @param userId - Slack user ID
  * @param newPreferences - Preferences to save/update
@@ -122,22 +70,9 @@ export async function saveUserPreference(
   userId: string,
   newPreferences: Record<string, string | number | boolean>
 ): Promise<void> {
-  // Use Vercel KV on production
-  if (isVercelKVAvailable()) {
-    return saveUserPreferenceToKV(userId, newPreferences);
-  }
-
-  // Fall back to file-based storage locally
-  return saveUserPreferenceToFile(userId, newPreferences);
-}
+  const store = getMemoryStore();
+  const now = new Date().toISOString();
 
-/**
- * Save preferences to Vercel KV
- */
-async function saveUserPreferenceToKV(
-  userId: string,
-  newPreferences: Record<string, string | number | boolean>
-): Promise<void> {
   // Load existing preferences if they exist
   const existing = await loadUserPreference(userId);
 
@@ -147,56 +82,43 @@ async function saveUserPreferenceToKV(
       ...(existing?.preferences || {}),
       ...newPreferences,
     },
-    createdAt: existing?.createdAt || new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
   };
 
-  await saveToKV('preference', userId, preference);
+  await store.put({
+    type: 'preference',
+    key: userId,
+    content: JSON.stringify(preference.preferences),
+    metadata: {
+      userId,
+      createdAt: preference.createdAt,
+      updatedAt: preference.updatedAt,
+    },
+  });
 
   logger.info({
     event: 'user_preference_saved',
     userId,
     preferencesCount: Object.keys(preference.preferences).length,
-    storage: 'vercel-kv',
+    backend: store.backend,
   });
 }
 
 /**
- * Save preferences to file (local development)
+ * Delete a user's preferences
+ *
+ * @param userId - Slack user ID
+ * @returns Whether the user had preferences saved
  */
-async function saveUserPreferenceToFile(
-  userId: string,
-  newPreferences: Record<string, string | number | boolean>
-): Promise<void> {
-  const path = getPreferencePath(userId);
-  const now = new Date().toISOString();
+export async function deleteUserPreference(userId: string): Promise<boolean> {
+  const store = getMemoryStore();
+  if (!(await store.get('preference', userId))) return false;
 
-  // Load existing preferences if they exist
-  const existing = await loadUserPreference(userId);
+  await store.delete('preference', userId);
 
-  const preference: UserPreference = {
-    userId,
-    preferences: {
-      ...(existing?.preferences || {}),
-      ...newPreferences,
-    },
-    createdAt: existing?.createdAt || now,
-    updatedAt: now,
-  };
-
-  // Ensure directory exists
-  await mkdir(dirname(path), { recursive: true });
-
-  // Write YAML file
-  const content = YAML.stringify(preference);
-  await writeFile(path, content);
-
-  logger.info({
-    event: 'user_preference_saved',
-    userId,
-    preferencesCount: Object.keys(preference.preferences).length,
-    path,
-  });
+  logger.info({ event: 'user_preference_deleted', userId, backend: store.backend });
+  return true;
 }
 
 /**
@@ -0,0 +1,99 @@
+/**
+ * Memory Retention Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({})),
+}));
+
+import { getRetentionPolicies, pruneExpiredMemories } from './retention.js';
+import { setMemoryStore } from './index.js';
+import { SqliteMemoryStore } from './sqlite-store.js';
+import { loadOrionConfig } from '../config/orion-config.js';
+
+const NOW = Date.parse('2025-06-01T00:00:00.000Z');
+
+describe('memory/retention', () => {
+  let store: SqliteMemoryStore;
+
+  beforeEach(() => {
+    store = new SqliteMemoryStore(':memory:');
+    setMemoryStore(store);
+  });
+
+  afterEach(() => {
+    setMemoryStore(null);
+    store.close();
+  });
+
+  describe('getRetentionPolicies', () => {
+    it('reads positive day counts for known types', () => {
+      vi.mocked(loadOrionConfig).mockReturnValueOnce({
+        memory: {
+          retention_days: {
+            conversation: 90,
+            feedback: 0,
+            knowledge: 'forever',
+            runs: 7,
+          } as unknown as Record<string, number>,
+        },
+      });
+
+      expect(getRetentionPolicies()).toEqual({ conversation: 90 });
+    });
+
+    it('keeps everything without a memory section', () => {
+      expect(getRetentionPolicies()).toEqual({});
+    });
+  });
+
+  describe('pruneExpiredMemories', () => {
+    it('deletes memories last updated before the cutoff', async () => {
+      await store.put({
+        type: 'conversation',
+        key: 'C1_old',
+        content: 'Old thread',
+        metadata: { createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z' },
+      });
+      await store.put({
+        type: 'conversation',
+        key: 'C1_new',
+        content: 'Recent thread',
+        metadata: { createdAt: '2025-05-01T00:00:00.000Z', updatedAt: '2025-05-01T00:00:00.000Z' },
+      });
+      await store.put({
+        type: 'conversation',
+        key: 'C1_updated',
+        content: 'Old thread, recently updated',
+        metadata: { createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-05-20T00:00:00.000Z' },
+      });
+
+      const pruned = await pruneExpiredMemories({ policies: { conversation: 90 }, now: NOW });
+
+      expect(pruned).toEqual({ conversation: 1 });
+      expect(await store.list('conversation')).toEqual(['C1_new', 'C1_updated']);
+    });
+
+    it('leaves types without a policy alone', async () => {
+      await store.put({
+        type: 'preference',
+        key: 'U1',
+        content: '{"tone":"concise"}',
+        metadata: {
+          createdAt: '2020-01-01T00:00:00.000Z',
+          updatedAt: '2020-01-01T00:00:00.000Z',
+          userId: 'U1',
+        },
+      });
+
+      expect(await pruneExpiredMemories({ policies: { conversation: 90 }, now: NOW })).toEqual({});
+      expect(await store.list('preference')).toEqual(['U1']);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Memory Retention
+ *
+ * Deletes memories older than the retention policy for their type
+ * (`memory.retention_days` in .orion/config.yaml), e.g. conversation summaries
+ * after 90 days. Age is measured from a memory's last update, falling back to
+ * its creation time. Types without a policy are kept forever.
+ *
+ * Runs as a background sweep on every backend, so the same policy applies to
+ * files, Vercel KV and SQLite.
+ */
+
+import { loadOrionConfig } from '../config/orion-config.js';
+import { removeDocument } from '../retrieval/index.js';
+import { logger } from '../utils/logger.js';
+import { getMemoryStore, type MemoryTypeValue } from './index.js';
+import { MEMORY_TYPES } from './store.js';
+
+/** Maximum age in days per memory type */
+export type RetentionPolicies = Partial<Record<MemoryTypeValue, number>>;
+
+/** How often expired memories are swept */
+export const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read retention policies from .orion/config.yaml, ignoring invalid values
+ */
+export function getRetentionPolicies(): RetentionPolicies {
+  const configured = loadOrionConfig().memory?.retention_days ?? {};
+  const policies: RetentionPolicies = {};
+
+  for (const type of MEMORY_TYPES) {
+    const days = configured[type];
+    if (typeof days === 'number' && Number.isFinite(days) && days > 0) {
+      policies[type] = days;
+    }
+  }
+
+  return policies;
+}
+
+/**
+ * Delete memories older than their type's retention policy
+ *
+ * @param options.policies - Policies to apply (default: getRetentionPolicies())
+ * @param options.now - Current time in ms (for testing)
+ * @returns Number of memories deleted per type
+ */
+export async function pruneExpiredMemories(
+  options: { policies?: RetentionPolicies; now?: number } = {}
+): Promise<Partial<Record<MemoryTypeValue, number>>> {
+  const policies = options.policies ?? getRetentionPolicies();
+  const now = options.now ?? Date.now();
+  const store = getMemoryStore();
+  const pruned: Partial<Record<MemoryTypeValue, number>> = {};
+
+  for (const type of MEMORY_TYPES) {
+    const days = policies[type];
+    if (!days) continue;
+    const cutoff = now - days * DAY_MS;
+
+    for (const key of await store.list(type)) {
+      const memory = await store.get(type, key);
+      if (!memory) continue;
+
+      const lastTouched = Date.parse(memory.metadata.updatedAt ?? memory.metadata.createdAt);
+      if (Number.isNaN(lastTouched) || lastTouched >= cutoff) continue;
+
+      await store.delete(type, key);
+      removeDocument(store.documentId(type, key));
+      pruned[type] = (pruned[type] ?? 0) + 1;
+    }
+  }
+
+  if (Object.keys(pruned).length > 0) {
+    logger.info({ event: 'memory_retention_pruned', pruned, backend: store.backend });
+  }
+  return pruned;
+}
+
+/**
+ * Start the background retention sweep (runs once immediately).
+ *
+ * @returns Function that stops the sweep
+ */
+export function startRetentionSweeper(
+  intervalMs: number = RETENTION_SWEEP_INTERVAL_MS
+): () => void {
+  let sweeping = false;
+  const sweep = (): void => {
+    if (sweeping) return;
+    sweeping = true;
+    pruneExpiredMemories()
+      .catch((error) => {
+        logger.error({
+          event: 'memory_retention_sweep_failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        sweeping = false;
+      });
+  };
+
+  sweep();
+  const timer = setInterval(sweep, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,103 @@
+/**
+ * SQLite Memory Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SqliteMemoryStore } from './sqlite-store.js';
+import type { Memory } from './index.js';
+
+const conversation: Memory = {
+  type: 'conversation',
+  key: 'C1_1.1',
+  content: 'The team moved the release to Thursday because of the deploy freeze.',
+  metadata: {
+    createdAt: '2025-01-01T00:00:00.000Z',
+    channelId: 'C1',
+    threadTs: '1.1',
+    participants: ['U1', 'U2'],
+    topics: ['release date'],
+  },
+};
+
+describe('SqliteMemoryStore', () => {
+  let store: SqliteMemoryStore;
+
+  beforeEach(() => {
+    store = new SqliteMemoryStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('round-trips memories with their metadata', async () => {
+    await store.put(conversation);
+
+    expect(await store.get('conversation', 'C1_1.1')).toEqual({
+      ...conversation,
+      metadata: { ...conversation.metadata, updatedAt: expect.any(String) },
+    });
+    expect(await store.get('knowledge', 'C1_1.1')).toBeNull();
+  });
+
+  it('replaces memories with the same type and key', async () => {
+    await store.put(conversation);
+    await store.put({ ...conversation, content: 'Release stays on Friday.' });
+
+    expect((await store.get('conversation', 'C1_1.1'))?.content).toBe('Release stays on Friday.');
+    expect(await store.list('conversation')).toEqual(['C1_1.1']);
+  });
+
+  it('lists keys by prefix without treating them as patterns', async () => {
+    await store.put(conversation);
+    await store.put({ ...conversation, key: 'C1_2.2' });
+    await store.put({ ...conversation, key: 'C10_3.3' });
+    await store.put({ ...conversation, key: 'C%_4.4' });
+
+    expect(await store.list('conversation', 'C1_')).toEqual(['C1_1.1', 'C1_2.2']);
+    expect(await store.list('conversation', 'C%')).toEqual(['C%_4.4']);
+  });
+
+  it('deletes memories', async () => {
+    await store.put(conversation);
+
+    await store.delete('conversation', 'C1_1.1');
+
+    expect(await store.get('conversation', 'C1_1.1')).toBeNull();
+  });
+
+  it('searches across types or within one type', async () => {
+    await store.put(conversation);
+    await store.put({
+      type: 'knowledge',
+      key: 'deploys',
+      content: 'Deploy freeze starts every Friday at noon.',
+      metadata: { createdAt: '2025-01-01T00:00:00.000Z' },
+    });
+
+    const all = await store.search('deploy freeze');
+    const knowledgeOnly = await store.search('deploy freeze', 'knowledge');
+
+    expect(all.map((r) => r.memory.key).sort()).toEqual(['C1_1.1', 'deploys']);
+    expect(knowledgeOnly.map((r) => r.memory.key)).toEqual(['deploys']);
+  });
+
+  it('persists to a file, creating its directory', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'orion-memory-'));
+    const path = join(dir, 'nested', 'memory.db');
+    try {
+      const fileStore = new SqliteMemoryStore(path);
+      await fileStore.put(conversation);
+      fileStore.close();
+
+      const reopened = new SqliteMemoryStore(path);
+      expect((await reopened.get('conversation', 'C1_1.1'))?.content).toBe(conversation.content);
+      reopened.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
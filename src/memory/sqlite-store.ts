@@ -0,0 +1,125 @@
+/**
+ * SQLite Memory Store
+ *
+ * Stores every memory in a single SQLite file (MEMORY_SQLITE_PATH, default
+ * orion-context/memory.db), for self-hosted deployments that want one durable
+ * file instead of a directory tree or an external KV service.
+ *
+ * Table `memories` (type, key) → content + JSON metadata + timestamps.
+ */
+
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import type { Memory, MemorySearchResult, MemoryTypeValue } from './index.js';
+import { SEARCHABLE_MEMORY_TYPES, rankMemories, type MemoryStore } from './store.js';
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS memories (
+  type TEXT NOT NULL,
+  key TEXT NOT NULL,
+  content TEXT NOT NULL,
+  metadata TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (type, key)
+)`;
+
+interface MemoryRow {
+  type: MemoryTypeValue;
+  key: string;
+  content: string;
+  metadata: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Memory store backed by a SQLite file
+ */
+export class SqliteMemoryStore implements MemoryStore {
+  readonly backend = 'sqlite' as const;
+  private readonly db: Database.Database;
+
+  /**
+   * @param path - Database file (created if missing), or `:memory:`
+   */
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  async list(type: MemoryTypeValue, prefix = ''): Promise<string[]> {
+    const rows = this.db
+      .prepare('SELECT key FROM memories WHERE type = ? AND substr(key, 1, ?) = ? ORDER BY key')
+      .all(type, prefix.length, prefix) as Pick<MemoryRow, 'key'>[];
+    return rows.map((row) => row.key);
+  }
+
+  async get(type: MemoryTypeValue, key: string): Promise<Memory | null> {
+    const row = this.db
+      .prepare('SELECT * FROM memories WHERE type = ? AND key = ?')
+      .get(type, key) as MemoryRow | undefined;
+    return row ? toMemory(row) : null;
+  }
+
+  async put(memory: Memory): Promise<void> {
+    const { createdAt, updatedAt, ...metadata } = memory.metadata;
+    const now = new Date().toISOString();
+
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO memories (type, key, content, metadata, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        memory.type,
+        memory.key,
+        memory.content,
+        JSON.stringify(metadata),
+        createdAt || now,
+        updatedAt || now
+      );
+  }
+
+  async delete(type: MemoryTypeValue, key: string): Promise<void> {
+    this.db.prepare('DELETE FROM memories WHERE type = ? AND key = ?').run(type, key);
+  }
+
+  async search(query: string, type?: MemoryTypeValue): Promise<MemorySearchResult[]> {
+    const types = type ? [type] : SEARCHABLE_MEMORY_TYPES;
+    const rows = this.db
+      .prepare(`SELECT * FROM memories WHERE type IN (${types.map(() => '?').join(', ')})`)
+      .all(...types) as MemoryRow[];
+
+    return rankMemories(this, query, rows.map(toMemory));
+  }
+
+  documentId(type: MemoryTypeValue, key: string): string {
+    return `sqlite:${type}:${key}`;
+  }
+
+  /**
+   * Close the database
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toMemory(row: MemoryRow): Memory {
+  return {
+    type: row.type,
+    key: row.key,
+    content: row.content,
+    metadata: {
+      ...(JSON.parse(row.metadata) as Record<string, unknown>),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    },
+  };
+}
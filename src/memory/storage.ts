@@ -24,6 +24,8 @@ export const TYPE_DIRECTORIES: Record<MemoryTypeValue, string> = {
   conversation: 'conversations',
   preference: 'user-preferences',
   knowledge: 'knowledge',
+  feedback: 'feedback',
+  credential: 'credentials',
 };
 
 /**
@@ -36,6 +38,27 @@ export function getTypeDirectory(type: MemoryTypeValue): string {
   return join(ORION_CONTEXT_ROOT, TYPE_DIRECTORIES[type]);
 }
 
+/**
+ * Get the file extension for a memory type
+ *
+ * @param type - Memory type
+ * @returns `.yaml` for preferences, `.md` otherwise
+ */
+export function getMemoryFileExtension(type: MemoryTypeValue): string {
+  return type === 'preference' ? '.yaml' : '.md';
+}
+
+/**
+ * Get the file path for a memory item
+ *
+ * @param type - Memory type
+ * @param key - Memory key (may contain `/` for subdirectories, e.g. `notes/U123-1700000000000`)
+ * @returns Full file path for the memory
+ */
+export function getMemoryFilePath(type: MemoryTypeValue, key: string): string {
+  return join(getTypeDirectory(type), `${key}${getMemoryFileExtension(type)}`);
+}
+
 /**
  * List all memory files in a directory
  *
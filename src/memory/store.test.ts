@@ -0,0 +1,91 @@
+/**
+ * Memory Store Helper Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fromDocument, parseMemoryBackend, toDocument, toFrontmatter } from './store.js';
+import type { Memory } from './index.js';
+
+describe('memory/store', () => {
+  describe('parseMemoryBackend', () => {
+    it('accepts known backends case-insensitively', () => {
+      expect(parseMemoryBackend('fs')).toBe('fs');
+      expect(parseMemoryBackend(' SQLite ')).toBe('sqlite');
+      expect(parseMemoryBackend('redis')).toBeNull();
+    });
+  });
+
+  describe('documents', () => {
+    const conversation: Memory = {
+      type: 'conversation',
+      key: 'C1_1.1',
+      content: 'Moved the release to Thursday.',
+      metadata: {
+        createdAt: '2025-01-01T00:00:00.000Z',
+        channelId: 'C1',
+        threadTs: '1.1',
+        participants: ['U1'],
+        topics: ['release'],
+        userId: undefined,
+      },
+    };
+
+    it('stores content under the type-specific field and round-trips', () => {
+      const document = toDocument(conversation);
+
+      expect(document).toEqual({
+        createdAt: '2025-01-01T00:00:00.000Z',
+        channelId: 'C1',
+        threadTs: '1.1',
+        participants: ['U1'],
+        topics: ['release'],
+        summary: 'Moved the release to Thursday.',
+      });
+      expect(fromDocument('conversation', 'C1_1.1', document)).toEqual({
+        type: 'conversation',
+        key: 'C1_1.1',
+        content: 'Moved the release to Thursday.',
+        metadata: {
+          createdAt: '2025-01-01T00:00:00.000Z',
+          channelId: 'C1',
+          threadTs: '1.1',
+          participants: ['U1'],
+          topics: ['release'],
+        },
+      });
+    });
+
+    it('keeps preferences as a key-value map', () => {
+      const preference: Memory = {
+        type: 'preference',
+        key: 'U1',
+        content: JSON.stringify({ tone: 'concise' }),
+        metadata: { createdAt: '2025-01-01T00:00:00.000Z', userId: 'U1' },
+      };
+
+      const document = toDocument(preference);
+
+      expect(document.preferences).toEqual({ tone: 'concise' });
+      expect(fromDocument('preference', 'U1', document).content).toBe('{"tone":"concise"}');
+    });
+
+    it('normalizes Date timestamps and falls back to envelope timestamps', () => {
+      const memory = fromDocument(
+        'knowledge',
+        'k',
+        { type: 'knowledge', content: 'x', createdAt: new Date('2025-02-01T00:00:00.000Z') },
+        { updatedAt: '2025-03-01T00:00:00.000Z' }
+      );
+
+      expect(memory.metadata).toEqual({
+        createdAt: '2025-02-01T00:00:00.000Z',
+        updatedAt: '2025-03-01T00:00:00.000Z',
+      });
+    });
+
+    it('builds frontmatter without undefined fields', () => {
+      expect(toFrontmatter(conversation)).not.toHaveProperty('userId');
+      expect(toFrontmatter(conversation).type).toBe('conversation');
+    });
+  });
+});
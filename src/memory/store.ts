@@ -0,0 +1,214 @@
+/**
+ * Memory Store Interface
+ *
+ * A single storage abstraction for preferences, conversation summaries,
+ * knowledge and feedback. Backends (selected by MEMORY_BACKEND, see getMemoryStore in index.ts):
+ * - `fs`: files in orion-context/ (file-store.ts)
+ * - `kv`: Vercel KV (kv-store.ts)
+ * - `sqlite`: a single SQLite file (sqlite-store.ts)
+ *
+ * Stores persist `Memory` items keyed by (type, key). Backends that hold
+ * structured documents (YAML preferences, KV values) use `toDocument` /
+ * `fromDocument` so every backend stores the same shape.
+ */
+
+import { rankDocuments } from '../retrieval/index.js';
+import type { Memory, MemorySearchResult, MemoryTypeValue } from './index.js';
+
+/** Supported memory backends */
+export type MemoryBackend = 'fs' | 'kv' | 'sqlite';
+
+export const MEMORY_BACKENDS: readonly MemoryBackend[] = ['fs', 'kv', 'sqlite'];
+
+/** Every memory type, in the order stores list them */
+export const MEMORY_TYPES: readonly MemoryTypeValue[] = [
+  'preference',
+  'conversation',
+  'knowledge',
+  'feedback',
+  'credential',
+];
+
+/**
+ * Memory types searched when no type is given. Feedback records are only read
+ * back for user-data exports and credentials only by MCP OAuth; neither is ever
+ * surfaced as context.
+ */
+export const SEARCHABLE_MEMORY_TYPES: readonly MemoryTypeValue[] = [
+  'preference',
+  'conversation',
+  'knowledge',
+];
+
+/**
+ * Storage backend for memories
+ */
+export interface MemoryStore {
+  /** Backend name (for logs) */
+  readonly backend: MemoryBackend;
+
+  /**
+   * List keys of a memory type
+   *
+   * @param type - Memory type
+   * @param prefix - Only keys starting with this prefix
+   */
+  list(type: MemoryTypeValue, prefix?: string): Promise<string[]>;
+
+  /**
+   * Load a memory
+   *
+   * @returns The memory, or null if not found
+   */
+  get(type: MemoryTypeValue, key: string): Promise<Memory | null>;
+
+  /**
+   * Create or replace a memory
+   */
+  put(memory: Memory): Promise<void>;
+
+  /**
+   * Delete a memory (no-op if it does not exist)
+   */
+  delete(type: MemoryTypeValue, key: string): Promise<void>;
+
+  /**
+   * Rank stored memories against a query (hybrid BM25 + embedding similarity)
+   *
+   * @param query - Search query string
+   * @param type - Optional memory type to filter by (default: SEARCHABLE_MEMORY_TYPES)
+   * @returns Top matches with relevance scores
+   */
+  search(query: string, type?: MemoryTypeValue): Promise<MemorySearchResult[]>;
+
+  /**
+   * Retrieval index ID for a stored memory
+   */
+  documentId(type: MemoryTypeValue, key: string): string;
+}
+
+/**
+ * Parse a backend name
+ *
+ * @returns The backend, or null if unknown
+ */
+export function parseMemoryBackend(value: string): MemoryBackend | null {
+  const normalized = value.trim().toLowerCase();
+  return (MEMORY_BACKENDS as readonly string[]).includes(normalized)
+    ? (normalized as MemoryBackend)
+    : null;
+}
+
+/** Document field holding a memory's content, per type */
+const CONTENT_FIELDS: Record<MemoryTypeValue, string> = {
+  preference: 'preferences',
+  conversation: 'summary',
+  knowledge: 'content',
+  feedback: 'rating',
+  credential: 'sealed',
+};
+
+/**
+ * Convert a memory into a structured document
+ *
+ * Preferences keep their key-value map under `preferences` (content is JSON);
+ * conversations store content as `summary`, knowledge as `content`,
+ * feedback as `rating` and credentials (encrypted) as `sealed`.
+ */
+export function toDocument(memory: Memory): Record<string, unknown> {
+  const field = CONTENT_FIELDS[memory.type];
+  const value = memory.type === 'preference' ? parseJSONObject(memory.content) : memory.content;
+  return { ...withoutUndefined(memory.metadata), [field]: value };
+}
+
+/**
+ * Build Markdown frontmatter for a memory (content goes in the body)
+ */
+export function toFrontmatter(memory: Memory): Record<string, unknown> {
+  return { type: memory.type, ...withoutUndefined(memory.metadata) };
+}
+
+/**
+ * Convert a structured document back into a memory
+ *
+ * @param type - Memory type
+ * @param key - Memory key
+ * @param document - Stored document
+ * @param timestamps - Fallback timestamps (e.g. from a KV envelope)
+ */
+export function fromDocument(
+  type: MemoryTypeValue,
+  key: string,
+  document: Record<string, unknown>,
+  timestamps: { createdAt?: string; updatedAt?: string } = {}
+): Memory {
+  const field = CONTENT_FIELDS[type];
+  const metadata: Record<string, unknown> = { ...document };
+  const value = metadata[field];
+  delete metadata[field];
+  delete metadata.type;
+
+  const content =
+    type === 'preference' ? JSON.stringify(value ?? {}) : typeof value === 'string' ? value : '';
+
+  const createdAt =
+    toTimestamp(metadata.createdAt) ?? timestamps.createdAt ?? new Date().toISOString();
+  const updatedAt = toTimestamp(metadata.updatedAt) ?? timestamps.updatedAt;
+
+  return {
+    type,
+    key,
+    content,
+    metadata: { ...metadata, createdAt, ...(updatedAt ? { updatedAt } : {}) },
+  };
+}
+
+/**
+ * Rank memories against a query in the shared retrieval index
+ *
+ * @param store - Store the memories came from (provides index IDs)
+ * @param query - Search query string
+ * @param memories - Candidate memories
+ */
+export async function rankMemories(
+  store: MemoryStore,
+  query: string,
+  memories: Memory[]
+): Promise<MemorySearchResult[]> {
+  const ranked = await rankDocuments(
+    query,
+    memories.map((memory) => ({
+      id: store.documentId(memory.type, memory.key),
+      text: memory.content,
+      metadata: memory,
+    }))
+  );
+
+  return ranked.map((r) => ({
+    memory: r.document.metadata as Memory,
+    relevance: r.score,
+    rawScore: r.matchedTerms,
+    vectorScore: r.vectorScore,
+  }));
+}
+
+/**
+ * Normalize a timestamp (YAML frontmatter may parse dates as Date objects)
+ */
+function toTimestamp(value: unknown): string | undefined {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function parseJSONObject(content: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return { value: content };
+  }
+}
+
+function withoutUndefined(metadata: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(metadata).filter(([, v]) => v !== undefined));
+}
@@ -0,0 +1,175 @@
+/**
+ * User Data Export and Erase Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({ admins: ['UADMIN'] })),
+}));
+
+vi.mock('../observability/costs.js', () => ({
+  listUserCosts: vi.fn(async (userId: string) =>
+    userId === 'U1' ? { '2025-01-06': { runs: 3, costUsd: 0.125 } } : {}
+  ),
+  eraseUserCosts: vi.fn(async () => 1),
+}));
+
+import {
+  ERASED_USER_PLACEHOLDER,
+  canManageUserData,
+  eraseUserData,
+  exportUserData,
+  formatUserDataMarkdown,
+} from './user-data.js';
+import { setMemoryStore } from './index.js';
+import { SqliteMemoryStore } from './sqlite-store.js';
+
+async function seed(store: SqliteMemoryStore): Promise<void> {
+  await store.put({
+    type: 'preference',
+    key: 'U1',
+    content: '{"tone":"concise"}',
+    metadata: { createdAt: '2025-01-01T00:00:00.000Z', userId: 'U1' },
+  });
+  await store.put({
+    type: 'knowledge',
+    key: 'notes/U1-1',
+    content: 'Standup is at 9:30',
+    metadata: { createdAt: '2025-01-02T00:00:00.000Z', userId: 'U1', tags: ['user-note'] },
+  });
+  await store.put({
+    type: 'knowledge',
+    key: 'runbook',
+    content: 'Restart the worker with U1 watching',
+    metadata: { createdAt: '2025-01-02T00:00:00.000Z' },
+  });
+  await store.put({
+    type: 'conversation',
+    key: 'C1_1.1',
+    content: 'U1 asked about the deploy freeze.',
+    metadata: {
+      createdAt: '2025-01-03T00:00:00.000Z',
+      channelId: 'C1',
+      threadTs: '1.1',
+      participants: ['U1'],
+      topics: [],
+    },
+  });
+  await store.put({
+    type: 'conversation',
+    key: 'C1_2.2',
+    content: '<@U1> and <@U2|bob> moved the release to Thursday.',
+    metadata: {
+      createdAt: '2025-01-04T00:00:00.000Z',
+      channelId: 'C1',
+      threadTs: '2.2',
+      participants: ['U1', 'U2'],
+      topics: ['release'],
+    },
+  });
+  await store.put({
+    type: 'conversation',
+    key: 'C2_3.3',
+    content: 'U2 fixed the build.',
+    metadata: {
+      createdAt: '2025-01-05T00:00:00.000Z',
+      channelId: 'C2',
+      threadTs: '3.3',
+      participants: ['U2'],
+      topics: [],
+    },
+  });
+  await store.put({
+    type: 'feedback',
+    key: 'U1/C1_2.2',
+    content: 'positive',
+    metadata: {
+      createdAt: '2025-01-06T00:00:00.000Z',
+      userId: 'U1',
+      channelId: 'C1',
+      messageTs: '2.2',
+    },
+  });
+}
+
+describe('memory/user-data', () => {
+  let store: SqliteMemoryStore;
+
+  beforeEach(async () => {
+    store = new SqliteMemoryStore(':memory:');
+    setMemoryStore(store);
+    await seed(store);
+  });
+
+  afterEach(() => {
+    setMemoryStore(null);
+    store.close();
+  });
+
+  it('lets users manage their own data and admins manage anyone', () => {
+    expect(canManageUserData('U1', 'U1')).toBe(true);
+    expect(canManageUserData('U2', 'U1')).toBe(false);
+    expect(canManageUserData('UADMIN', 'U1')).toBe(true);
+  });
+
+  it('exports preferences, notes, conversations and feedback for the user', async () => {
+    const data = await exportUserData('U1');
+
+    expect(data.userId).toBe('U1');
+    expect(data.preferences?.preferences).toEqual({ tone: 'concise' });
+    expect(data.notes).toEqual([
+      {
+        content: 'Standup is at 9:30',
+        createdAt: '2025-01-02T00:00:00.000Z',
+        channelId: undefined,
+      },
+    ]);
+    expect(data.conversations.map((c) => c.threadTs)).toEqual(['1.1', '2.2']);
+    expect(data.feedback).toEqual([
+      expect.objectContaining({ messageTs: '2.2', isPositive: true }),
+    ]);
+    expect(data.costs).toEqual({ '2025-01-06': { runs: 3, costUsd: 0.125 } });
+  });
+
+  it('renders the export as Markdown', async () => {
+    const markdown = formatUserDataMarkdown(await exportUserData('U1'));
+
+    expect(markdown).toContain('# Orion data export for U1');
+    expect(markdown).toContain('- `tone`: concise');
+    expect(markdown).toContain('## Conversation summaries (2)');
+    expect(markdown).toContain('positive on message 2.2 in C1');
+    expect(markdown).toContain('- 2025-01-06: 3 runs, $0.1250');
+  });
+
+  it("erases the user's data and redacts shared conversations", async () => {
+    const erasure = await eraseUserData('U1', 'UADMIN');
+
+    expect(erasure).toEqual({
+      preferences: true,
+      notes: 1,
+      feedback: 1,
+      mcpConnections: 0,
+      costDays: 1,
+      conversationsDeleted: 1,
+      conversationsRedacted: 1,
+    });
+    expect(await store.get('preference', 'U1')).toBeNull();
+    expect(await store.list('knowledge')).toEqual(['runbook']);
+    expect(await store.list('feedback')).toEqual([]);
+    expect(await store.list('conversation')).toEqual(['C1_2.2', 'C2_3.3']);
+
+    const shared = await store.get('conversation', 'C1_2.2');
+    expect(shared?.content).toBe(
+      `${ERASED_USER_PLACEHOLDER} and <@U2|bob> moved the release to Thursday.`
+    );
+    expect(shared?.metadata.participants).toEqual(['U2']);
+
+    const after = await exportUserData('U1');
+    expect(after).toMatchObject({ preferences: null, notes: [], conversations: [], feedback: [] });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * User Data Export and Erase
+ *
+ * Lets users see and delete what Orion stored about them (GDPR-style access
+ * and erasure requests), via `/orion data export|erase`:
+ *
+ * - preferences
+ * - notes the user asked Orion to remember
+ * - conversation summaries the user took part in or is mentioned in
+ * - feedback (thumbs up/down) records
+ * - MCP servers the user connected with OAuth (names and dates only; tokens are
+ *   never exported, and erasing disconnects them)
+ * - per-user cost records (erasing folds them into `unknown`, so spend totals
+ *   are unchanged)
+ *
+ * Exports are a single JSON document plus a Markdown rendering of it. Erasing
+ * deletes the user's own memories; a conversation summary shared with other
+ * participants is kept for them, with the user removed from its participants
+ * and mentions of the user redacted.
+ *
+ * Scores already sent to Langfuse are not affected; delete those in Langfuse.
+ */
+
+import { loadOrionConfig } from '../config/orion-config.js';
+import { logger } from '../utils/logger.js';
+import { forgetAllUserMemories, listUserMemories } from './index.js';
+import {
+  deleteConversationSummary,
+  listConversationsWithUser,
+  saveConversationSummary,
+  type ConversationSummary,
+} from './conversations.js';
+import { deleteUserFeedback, listUserFeedback, type FeedbackRecord } from './feedback.js';
+import { deleteUserMcpCredentials, listUserMcpConnections } from './credentials.js';
+import { deleteUserPreference, loadUserPreference, type UserPreference } from './preferences.js';
+import { eraseUserCosts, listUserCosts, type CostTotals } from '../observability/costs.js';
+
+/** Replaces mentions of an erased user in shared conversation summaries */
+export const ERASED_USER_PLACEHOLDER = '[erased user]';
+
+/**
+ * Everything Orion stores about a user
+ */
+export interface UserDataExport {
+  /** Slack user ID */
+  userId: string;
+  /** When the export was generated (ISO 8601) */
+  exportedAt: string;
+  preferences: UserPreference | null;
+  notes: Array<{ content: string; createdAt: string; channelId?: string }>;
+  conversations: ConversationSummary[];
+  feedback: FeedbackRecord[];
+  /** MCP servers connected with the user's own account */
+  mcpConnections: Array<{ serverName: string; connectedAt: string }>;
+  /** Cost of the user's agent runs per UTC day */
+  costs: Record<string, CostTotals>;
+}
+
+/**
+ * What an erase removed
+ */
+export interface UserDataErasure {
+  /** Whether saved preferences were deleted */
+  preferences: boolean;
+  notes: number;
+  feedback: number;
+  /** MCP server connections removed */
+  mcpConnections: number;
+  /** Days of per-user cost records removed */
+  costDays: number;
+  /** Summaries of conversations only the user took part in */
+  conversationsDeleted: number;
+  /** Summaries shared with others, kept with the user redacted */
+  conversationsRedacted: number;
+}
+
+/**
+ * Whether a Slack user may export or erase another user's data
+ *
+ * Users can always manage their own data; `admins` in .orion/config.yaml can
+ * manage anyone's.
+ */
+export function canManageUserData(requesterId: string, targetUserId: string): boolean {
+  if (requesterId === targetUserId) return true;
+  return loadOrionConfig().admins?.includes(requesterId) ?? false;
+}
+
+/**
+ * Collect everything Orion stores about a user
+ *
+ * @param userId - Slack user ID
+ */
+export async function exportUserData(userId: string): Promise<UserDataExport> {
+  const [preferences, notes, conversations, feedback, mcpConnections, costs] = await Promise.all([
+    loadUserPreference(userId),
+    listUserMemories(userId),
+    listConversationsWithUser(userId),
+    listUserFeedback(userId),
+    listUserMcpConnections(userId),
+    listUserCosts(userId),
+  ]);
+
+  logger.info({
+    event: 'user_data_exported',
+    userId,
+    notes: notes.length,
+    conversations: conversations.length,
+    feedback: feedback.length,
+  });
+
+  return {
+    userId,
+    exportedAt: new Date().toISOString(),
+    preferences,
+    notes: notes.map((note) => ({
+      content: note.content.trim(),
+      createdAt: note.metadata.createdAt,
+      channelId: note.metadata.channelId,
+    })),
+    conversations,
+    feedback,
+    mcpConnections,
+    costs,
+  };
+}
+
+/**
+ * Render an export as Markdown
+ */
+export function formatUserDataMarkdown(data: UserDataExport): string {
+  const lines = [`# Orion data export for ${data.userId}`, '', `Exported ${data.exportedAt}`, ''];
+
+  const preferences = Object.entries(data.preferences?.preferences ?? {});
+  lines.push('## Preferences', '');
+  lines.push(
+    ...(preferences.length > 0
+      ? preferences.map(([key, value]) => `- \`${key}\`: ${String(value)}`)
+      : ['_None_']),
+    ''
+  );
+
+  lines.push(`## Notes (${data.notes.length})`, '');
+  lines.push(
+    ...(data.notes.length > 0
+      ? data.notes.map((note) => `- ${note.createdAt}: ${note.content}`)
+      : ['_None_']),
+    ''
+  );
+
+  lines.push(`## Conversation summaries (${data.conversations.length})`, '');
+  if (data.conversations.length === 0) lines.push('_None_', '');
+  for (const conversation of data.conversations) {
+    lines.push(
+      `### ${conversation.channelId} / ${conversation.threadTs} (${conversation.createdAt})`,
+      '',
+      `Participants: ${conversation.participants.join(', ') || '_none_'}`,
+      `Topics: ${conversation.topics.join(', ') || '_none_'}`,
+      '',
+      conversation.summary.trim(),
+      ''
+    );
+  }
+
+  lines.push(`## Feedback (${data.feedback.length})`, '');
+  lines.push(
+    ...(data.feedback.length > 0
+      ? data.feedback.map(
+          (f) =>
+            `- ${f.createdAt}: ${f.isPositive ? 'positive' : 'negative'} on message ${f.messageTs} in ${f.channelId}`
+        )
+      : ['_None_']),
+    ''
+  );
+
+  lines.push(`## Connected MCP servers (${data.mcpConnections.length})`, '');
+  lines.push(
+    ...(data.mcpConnections.length > 0
+      ? data.mcpConnections.map((c) => `- ${c.serverName} (connected ${c.connectedAt})`)
+      : ['_None_']),
+    ''
+  );
+
+  const costDays = Object.entries(data.costs);
+  lines.push(`## Agent run costs (${costDays.length} days)`, '');
+  lines.push(
+    ...(costDays.length > 0
+      ? costDays.map(
+          ([day, totals]) => `- ${day}: ${totals.runs} runs, $${totals.costUsd.toFixed(4)}`
+        )
+      : ['_None_']),
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Delete everything Orion stores about a user
+ *
+ * @param userId - Slack user ID
+ * @param requestedBy - Slack user ID who asked for the erase (for the audit log)
+ */
+export async function eraseUserData(
+  userId: string,
+  requestedBy: string = userId
+): Promise<UserDataErasure> {
+  const erasure: UserDataErasure = {
+    preferences: await deleteUserPreference(userId),
+    notes: await forgetAllUserMemories(userId),
+    feedback: await deleteUserFeedback(userId),
+    mcpConnections: await deleteUserMcpCredentials(userId),
+    costDays: await eraseUserCosts(userId),
+    conversationsDeleted: 0,
+    conversationsRedacted: 0,
+  };
+
+  for (const conversation of await listConversationsWithUser(userId)) {
+    const participants = conversation.participants.filter((p) => p !== userId);
+    if (participants.length === 0 && conversation.participants.includes(userId)) {
+      await deleteConversationSummary(conversation.channelId, conversation.threadTs);
+      erasure.conversationsDeleted++;
+    } else {
+      await saveConversationSummary({
+        ...conversation,
+        participants,
+        summary: redactUser(conversation.summary, userId),
+      });
+      erasure.conversationsRedacted++;
+    }
+  }
+
+  logger.info({ event: 'user_data_erased', userId, requestedBy, ...erasure });
+  return erasure;
+}
+
+/**
+ * Replace mentions of a user (`<@U123>`, `<@U123|name>` or the bare ID)
+ */
+function redactUser(text: string, userId: string): string {
+  return text
+    .replace(new RegExp(`<@${userId}(\\|[^>]*)?>`, 'g'), ERASED_USER_PLACEHOLDER)
+    .replace(new RegExp(`\\b${userId}\\b`, 'g'), ERASED_USER_PLACEHOLDER);
+}
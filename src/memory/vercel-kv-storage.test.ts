@@ -236,6 +236,18 @@ describe('memory/vercel-kv-storage', () => {
       expect(keys).toEqual(['C1_ts1', 'C2_ts2']);
     });
 
+    it('should list keys of every memory type', async () => {
+      const { listKVKeys } = await import('./vercel-kv-storage.js');
+
+      mockKV.scanIterator.mockReturnValueOnce(
+        createAsyncIterable(['orion:credential:U1/github', 'orion:credential:U1/google'])
+      );
+
+      const keys = await listKVKeys('credential', 'U1/');
+
+      expect(keys).toEqual(['U1/github', 'U1/google']);
+    });
+
     it('should filter with additional pattern', async () => {
       const { listKVKeys } = await import('./vercel-kv-storage.js');
 
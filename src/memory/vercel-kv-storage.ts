@@ -7,6 +7,9 @@
  * Key format: `orion:{type}:{key}`
  * - orion:preference:{userId}
  * - orion:conversation:{channelId}:{threadTs}
+ * - orion:run:{traceId} (agent run journal, see src/agent/run-journal.ts)
+ * - orion:quota:{scope}:{id} (usage quotas, see src/agent/quotas.ts)
+ * - orion:credential:{userId}/{serverName} (MCP OAuth tokens, see src/memory/credentials.ts)
  *
  * @see Story 2.8 - Task 9: Implement Vercel KV Adapter
  */
@@ -17,7 +20,20 @@ import { logger } from '../utils/logger.js';
 /**
  * Memory types that can be stored in Vercel KV
  */
-export type KVMemoryType = 'preference' | 'conversation' | 'knowledge';
+export const KV_MEMORY_TYPES = [
+  'preference',
+  'conversation',
+  'knowledge',
+  'feedback',
+  'credential',
+  'run',
+  'quota',
+  'cost',
+] as const;
+
+export type KVMemoryType = (typeof KV_MEMORY_TYPES)[number];
+
+const KV_KEY_PATTERN = new RegExp(`^orion:(${KV_MEMORY_TYPES.join('|')}):(.+)$`);
 
 /**
  * Build a Vercel KV key from type and identifier
@@ -37,7 +53,7 @@ export function buildKVKey(type: KVMemoryType, key: string): string {
  * @returns Parsed type and key, or null if invalid format
  */
 export function parseKVKey(kvKey: string): { type: KVMemoryType; key: string } | null {
-  const match = kvKey.match(/^orion:(preference|conversation|knowledge):(.+)$/);
+  const match = kvKey.match(KV_KEY_PATTERN);
   if (!match) return null;
   return { type: match[1] as KVMemoryType, key: match[2] };
 }
@@ -0,0 +1,193 @@
+/**
+ * Cost Ledger Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { files } = vi.hoisted(() => ({ files: new Map<string, string>() }));
+
+vi.mock('fs/promises', () => ({
+  mkdir: vi.fn(async () => undefined),
+  writeFile: vi.fn(async (path: string, data: string) => {
+    files.set(path, data);
+  }),
+  readFile: vi.fn(async (path: string) => {
+    const data = files.get(path);
+    if (data === undefined) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+    return data;
+  }),
+  readdir: vi.fn(async () => [...files.keys()].map((p) => p.split('/').pop())),
+}));
+
+vi.mock('../memory/vercel-kv-storage.js', () => ({
+  saveToKV: vi.fn(async () => undefined),
+  loadFromKV: vi.fn(async () => null),
+  listKVKeys: vi.fn(async () => []),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  eraseUserCosts,
+  getCostReport,
+  listUserCosts,
+  recordRunCost,
+  toLangfuseCostDetails,
+  type RunCost,
+} from './costs.js';
+import { saveToKV } from '../memory/vercel-kv-storage.js';
+
+function run(overrides: Partial<RunCost> = {}): RunCost {
+  return {
+    traceId: 'trace-1',
+    userId: 'U1',
+    channelId: 'C1',
+    usage: { inputTokens: 1000, outputTokens: 200, cacheReadInputTokens: 5000 },
+    costUsd: 0.01,
+    byModel: {
+      'claude-sonnet-4-20250514': {
+        usage: { inputTokens: 1000, outputTokens: 200, cacheReadInputTokens: 5000 },
+        costUsd: 0.01,
+      },
+    },
+    at: new Date('2025-03-10T12:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+describe('observability/costs', () => {
+  beforeEach(() => {
+    files.clear();
+    delete process.env.KV_REST_API_URL;
+  });
+
+  afterEach(() => {
+    delete process.env.KV_REST_API_URL;
+  });
+
+  it('aggregates runs per day, user, channel and model', async () => {
+    await recordRunCost(run());
+    await recordRunCost(run({ userId: 'U2', costUsd: 0.02 }));
+    await recordRunCost(run({ channelId: undefined, at: new Date('2025-03-11T08:00:00.000Z') }));
+
+    const report = await getCostReport({ from: '2025-03-01', to: '2025-03-31' });
+
+    expect(report.totals).toEqual({
+      runs: 3,
+      costUsd: expect.closeTo(0.04, 10),
+      inputTokens: 3000,
+      outputTokens: 600,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 15000,
+    });
+    expect(Object.keys(report.byDay)).toEqual(['2025-03-10', '2025-03-11']);
+    expect(report.byDay['2025-03-10'].runs).toBe(2);
+    expect(report.byUser.U1.runs).toBe(2);
+    expect(report.byUser.U2.costUsd).toBeCloseTo(0.02);
+    expect(report.byChannel).toMatchObject({ C1: { runs: 2 }, unknown: { runs: 1 } });
+    expect(report.byModel['claude-sonnet-4-20250514'].runs).toBe(3);
+  });
+
+  it('splits runs that used several models across those models', async () => {
+    await recordRunCost(
+      run({
+        usage: { inputTokens: 300, outputTokens: 60 },
+        costUsd: 0.004,
+        byModel: {
+          'claude-3-5-haiku-20241022': {
+            usage: { inputTokens: 100, outputTokens: 20 },
+            costUsd: 0.001,
+          },
+          'claude-sonnet-4-20250514': {
+            usage: { inputTokens: 200, outputTokens: 40 },
+            costUsd: 0.003,
+          },
+        },
+      })
+    );
+
+    const report = await getCostReport({ from: '2025-03-10', to: '2025-03-10' });
+
+    expect(report.totals).toMatchObject({ runs: 1, inputTokens: 300, outputTokens: 60 });
+    expect(report.byModel['claude-3-5-haiku-20241022']).toMatchObject({
+      runs: 1,
+      inputTokens: 100,
+      costUsd: 0.001,
+    });
+    expect(report.byModel['claude-sonnet-4-20250514']).toMatchObject({
+      runs: 1,
+      inputTokens: 200,
+      costUsd: 0.003,
+    });
+  });
+
+  it('serializes concurrent updates to the same day', async () => {
+    await Promise.all([recordRunCost(run()), recordRunCost(run()), recordRunCost(run())]);
+
+    const report = await getCostReport({ from: '2025-03-10', to: '2025-03-10' });
+    expect(report.totals.runs).toBe(3);
+  });
+
+  it('defaults to month-to-date', async () => {
+    await recordRunCost(run({ at: new Date('2025-02-28T23:00:00.000Z') }));
+    await recordRunCost(run());
+
+    const report = await getCostReport({ now: new Date('2025-03-15T00:00:00.000Z') });
+
+    expect(report.from).toBe('2025-03-01');
+    expect(report.to).toBe('2025-03-15');
+    expect(report.totals.runs).toBe(1);
+  });
+
+  it('rejects malformed, reversed and oversized ranges', async () => {
+    await expect(getCostReport({ from: '03/01/2025' })).rejects.toThrow('YYYY-MM-DD');
+    await expect(getCostReport({ from: '2025-03-10', to: '2025-03-01' })).rejects.toThrow(
+      'Invalid range'
+    );
+    await expect(getCostReport({ from: '2023-01-01', to: '2025-01-01' })).rejects.toThrow(
+      'Range exceeds'
+    );
+  });
+
+  it("lists and erases a user's per-user records", async () => {
+    await recordRunCost(run());
+    await recordRunCost(run({ userId: 'U2', costUsd: 0.02 }));
+    await recordRunCost(run({ at: new Date('2025-03-11T08:00:00.000Z') }));
+
+    expect(Object.keys(await listUserCosts('U1'))).toEqual(['2025-03-10', '2025-03-11']);
+    expect(await eraseUserCosts('U1')).toBe(2);
+    expect(await listUserCosts('U1')).toEqual({});
+
+    const report = await getCostReport({ from: '2025-03-01', to: '2025-03-31' });
+    expect(report.totals.runs).toBe(3);
+    expect(report.byUser.unknown.runs).toBe(2);
+    expect(report.byUser.U2.runs).toBe(1);
+  });
+
+  it('stores ledgers in KV when configured', async () => {
+    process.env.KV_REST_API_URL = 'https://kv.example.com';
+
+    await recordRunCost(run());
+
+    expect(saveToKV).toHaveBeenCalledWith(
+      'cost',
+      '2025-03-10',
+      expect.objectContaining({ totals: expect.objectContaining({ runs: 1 }) })
+    );
+    expect(files.size).toBe(0);
+  });
+
+  it('maps a cost breakdown to Langfuse cost details', () => {
+    expect(
+      toLangfuseCostDetails({ input: 1, output: 2, cacheWrite: 0.5, cacheRead: 0.1, total: 3.6 })
+    ).toEqual({
+      input: 1,
+      output: 2,
+      cache_creation_input_tokens: 0.5,
+      cache_read_input_tokens: 0.1,
+      total: 3.6,
+    });
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Cost Ledger
+ *
+ * Aggregates the dollar cost of agent runs (token usage priced with
+ * MODEL_PRICING in src/config/models.ts) per UTC day, user, channel and model,
+ * so "how much did Orion cost us this month" is a single `getCostReport()`
+ * call (served at /health/costs).
+ *
+ * `executeAgentLoop` records every completed run. LLM calls made outside the
+ * agent loop (thread summaries, compaction, the groundedness judge) are not
+ * included. A run that used several models (routing, escalation) is split
+ * across them in `byModel` and counts as a run for each.
+ *
+ * ## Storage Backend
+ * - **Vercel/KV configured**: Vercel KV (`orion:cost:{YYYY-MM-DD}`)
+ * - **Local / Cloud Run without KV**: JSON files in orion-context/costs/
+ *
+ * One document per day. Updates are read-modify-write, serialized within a
+ * process; concurrent instances may occasionally drop an update. Failures are
+ * logged and never fail the run.
+ *
+ * Per-user records are included in user data exports and folded into
+ * `unknown` when a user's data is erased (see src/memory/user-data.ts).
+ */
+
+import { mkdir, readFile, readdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { CostBreakdown, TokenUsage } from '../config/models.js';
+import { ORION_CONTEXT_ROOT } from '../memory/storage.js';
+import { listKVKeys, loadFromKV, saveToKV } from '../memory/vercel-kv-storage.js';
+import { logger } from '../utils/logger.js';
+
+/** Directory for daily cost files (local storage) */
+const COSTS_DIR = join(ORION_CONTEXT_ROOT, 'costs');
+
+/** Longest range a report may cover */
+export const MAX_REPORT_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Ledger key for runs without a user or channel */
+const UNKNOWN = 'unknown';
+
+/**
+ * Accumulated usage and cost
+ */
+export interface CostTotals {
+  runs: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+/**
+ * Stored costs for one UTC day
+ */
+export interface DailyCostLedger {
+  /** YYYY-MM-DD */
+  day: string;
+  totals: CostTotals;
+  byUser: Record<string, CostTotals>;
+  byChannel: Record<string, CostTotals>;
+  byModel: Record<string, CostTotals>;
+}
+
+/**
+ * Usage and cost of the calls a run made with one model
+ */
+export interface ModelCost {
+  usage: TokenUsage;
+  costUsd: number;
+}
+
+/**
+ * One completed run to account for
+ */
+export interface RunCost {
+  traceId?: string;
+  userId?: string;
+  channelId?: string;
+  /** Run totals */
+  usage: TokenUsage;
+  costUsd: number;
+  /** Per-model share of the run, keyed by model ID */
+  byModel: Record<string, ModelCost>;
+  /** When the run finished (default: now) */
+  at?: Date;
+}
+
+/**
+ * Costs over a date range
+ */
+export interface CostReport {
+  /** First day (YYYY-MM-DD, inclusive) */
+  from: string;
+  /** Last day (YYYY-MM-DD, inclusive) */
+  to: string;
+  totals: CostTotals;
+  byDay: Record<string, CostTotals>;
+  byUser: Record<string, CostTotals>;
+  byChannel: Record<string, CostTotals>;
+  byModel: Record<string, CostTotals>;
+}
+
+/**
+ * Check if running with Vercel KV (same switch as the memory modules)
+ */
+function isVercelKVAvailable(): boolean {
+  return Boolean(process.env.KV_REST_API_URL);
+}
+
+/**
+ * UTC day (YYYY-MM-DD) of a date
+ */
+export function toCostDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function emptyTotals(): CostTotals {
+  return {
+    runs: 0,
+    costUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+  };
+}
+
+function emptyLedger(day: string): DailyCostLedger {
+  return { day, totals: emptyTotals(), byUser: {}, byChannel: {}, byModel: {} };
+}
+
+function addTotals(target: CostTotals, source: CostTotals): void {
+  target.runs += source.runs;
+  target.costUsd += source.costUsd;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cacheCreationInputTokens += source.cacheCreationInputTokens;
+  target.cacheReadInputTokens += source.cacheReadInputTokens;
+}
+
+function toTotals(usage: TokenUsage, costUsd: number): CostTotals {
+  return {
+    runs: 1,
+    costUsd,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cacheCreationInputTokens: usage.cacheCreationInputTokens ?? 0,
+    cacheReadInputTokens: usage.cacheReadInputTokens ?? 0,
+  };
+}
+
+function addTo(group: Record<string, CostTotals>, key: string, totals: CostTotals): void {
+  group[key] ??= emptyTotals();
+  addTotals(group[key], totals);
+}
+
+async function loadLedger(day: string): Promise<DailyCostLedger | null> {
+  try {
+    if (isVercelKVAvailable()) {
+      const stored = await loadFromKV<DailyCostLedger>('cost', day);
+      return stored?.data ?? null;
+    }
+    const raw = await readFile(join(COSTS_DIR, `${day}.json`), 'utf-8');
+    return JSON.parse(raw) as DailyCostLedger;
+  } catch {
+    // Missing day (nothing recorded) or unreadable file
+    return null;
+  }
+}
+
+async function saveLedger(ledger: DailyCostLedger): Promise<void> {
+  if (isVercelKVAvailable()) {
+    await saveToKV('cost', ledger.day, ledger);
+    return;
+  }
+  await mkdir(COSTS_DIR, { recursive: true });
+  await writeFile(join(COSTS_DIR, `${ledger.day}.json`), JSON.stringify(ledger));
+}
+
+async function listLedgerDays(): Promise<string[]> {
+  try {
+    if (isVercelKVAvailable()) {
+      return (await listKVKeys('cost')).sort();
+    }
+    const files = await readdir(COSTS_DIR);
+    return files
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => f.slice(0, -'.json'.length))
+      .sort();
+  } catch {
+    // Directory may not exist yet
+    return [];
+  }
+}
+
+let pendingWrites: Promise<void> = Promise.resolve();
+
+/**
+ * Add a completed run to its day's ledger (best-effort).
+ */
+export function recordRunCost(run: RunCost): Promise<void> {
+  const totals = toTotals(run.usage, run.costUsd);
+  const day = toCostDay(run.at ?? new Date());
+
+  pendingWrites = pendingWrites.then(async () => {
+    try {
+      const ledger = (await loadLedger(day)) ?? emptyLedger(day);
+      addTotals(ledger.totals, totals);
+      addTo(ledger.byUser, run.userId || UNKNOWN, totals);
+      addTo(ledger.byChannel, run.channelId || UNKNOWN, totals);
+      for (const [model, modelCost] of Object.entries(run.byModel)) {
+        addTo(ledger.byModel, model, toTotals(modelCost.usage, modelCost.costUsd));
+      }
+      await saveLedger(ledger);
+    } catch (error) {
+      logger.warn({
+        event: 'cost_ledger.record_failed',
+        day,
+        error: error instanceof Error ? error.message : String(error),
+        traceId: run.traceId,
+      });
+    }
+  });
+  return pendingWrites;
+}
+
+/**
+ * A user's recorded costs per UTC day (for data exports).
+ */
+export async function listUserCosts(userId: string): Promise<Record<string, CostTotals>> {
+  const byDay: Record<string, CostTotals> = {};
+  for (const day of await listLedgerDays()) {
+    const totals = (await loadLedger(day))?.byUser[userId];
+    if (totals) byDay[day] = totals;
+  }
+  return byDay;
+}
+
+/**
+ * Fold a user's per-user records into `unknown` (for erasure requests).
+ * Day, channel and model totals are unchanged.
+ *
+ * @returns Number of days rewritten
+ */
+export function eraseUserCosts(userId: string): Promise<number> {
+  const erase = pendingWrites.then(async () => {
+    let erased = 0;
+    for (const day of await listLedgerDays()) {
+      const ledger = await loadLedger(day);
+      const totals = ledger?.byUser[userId];
+      if (!ledger || !totals) continue;
+
+      delete ledger.byUser[userId];
+      addTo(ledger.byUser, UNKNOWN, totals);
+      await saveLedger(ledger);
+      erased++;
+    }
+    return erased;
+  });
+  // Keep later writes queued behind the erase even if it fails
+  pendingWrites = erase.then(
+    () => undefined,
+    () => undefined
+  );
+  return erase;
+}
+
+/**
+ * Aggregate costs over a range of UTC days.
+ *
+ * @param range.from - First day, YYYY-MM-DD (default: first day of `to`'s month)
+ * @param range.to - Last day, YYYY-MM-DD (default: today)
+ * @param range.now - Current time (for testing)
+ * @throws Error if a day is malformed, `from` is after `to`, or the range exceeds MAX_REPORT_DAYS
+ */
+export async function getCostReport(
+  range: { from?: string; to?: string; now?: Date } = {}
+): Promise<CostReport> {
+  const to = range.to ?? toCostDay(range.now ?? new Date());
+  const from = range.from ?? `${to.slice(0, 7)}-01`;
+  if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to)) {
+    throw new Error('Dates must be YYYY-MM-DD');
+  }
+
+  const start = Date.parse(`${from}T00:00:00Z`);
+  const end = Date.parse(`${to}T00:00:00Z`);
+  if (Number.isNaN(start) || Number.isNaN(end) || start > end) {
+    throw new Error(`Invalid range ${from}..${to}`);
+  }
+  if ((end - start) / DAY_MS + 1 > MAX_REPORT_DAYS) {
+    throw new Error(`Range exceeds ${MAX_REPORT_DAYS} days`);
+  }
+
+  const report: CostReport = {
+    from,
+    to,
+    totals: emptyTotals(),
+    byDay: {},
+    byUser: {},
+    byChannel: {},
+    byModel: {},
+  };
+
+  for (let time = start; time <= end; time += DAY_MS) {
+    const ledger = await loadLedger(toCostDay(new Date(time)));
+    if (!ledger) continue;
+
+    addTotals(report.totals, ledger.totals);
+    addTo(report.byDay, ledger.day, ledger.totals);
+    for (const [id, totals] of Object.entries(ledger.byUser)) addTo(report.byUser, id, totals);
+    for (const [id, totals] of Object.entries(ledger.byChannel))
+      addTo(report.byChannel, id, totals);
+    for (const [id, totals] of Object.entries(ledger.byModel)) addTo(report.byModel, id, totals);
+  }
+
+  return report;
+}
+
+/**
+ * Langfuse `costDetails` for a generation (keys match Anthropic usage details)
+ */
+export function toLangfuseCostDetails(cost: CostBreakdown): Record<string, number> {
+  return {
+    input: cost.input,
+    output: cost.output,
+    cache_creation_input_tokens: cost.cacheWrite,
+    cache_read_input_tokens: cost.cacheRead,
+    total: cost.total,
+  };
+}
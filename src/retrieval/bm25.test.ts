@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { bm25Score, inverseDocumentFrequency, termFrequencies } from './bm25.js';
+
+describe('bm25', () => {
+  const stats = {
+    documentCount: 3,
+    averageLength: 4,
+    documentFrequency: (term: string) => ({ release: 1, notes: 3 })[term] ?? 0,
+  };
+
+  it('counts term frequencies', () => {
+    expect(termFrequencies(['a', 'b', 'a'])).toEqual(
+      new Map([
+        ['a', 2],
+        ['b', 1],
+      ])
+    );
+  });
+
+  it('weights rare terms above common ones', () => {
+    expect(inverseDocumentFrequency(3, 1)).toBeGreaterThan(inverseDocumentFrequency(3, 3));
+    expect(inverseDocumentFrequency(3, 3)).toBeGreaterThan(0);
+  });
+
+  it('scores documents by matching query terms', () => {
+    const rare = bm25Score(['release'], new Map([['release', 1]]), 4, stats);
+    const common = bm25Score(['notes'], new Map([['notes', 1]]), 4, stats);
+    const none = bm25Score(['release'], new Map([['budget', 1]]), 4, stats);
+
+    expect(rare).toBeGreaterThan(common);
+    expect(none).toBe(0);
+  });
+
+  it('penalizes longer documents for the same term frequency', () => {
+    const short = bm25Score(['release'], new Map([['release', 1]]), 2, stats);
+    const long = bm25Score(['release'], new Map([['release', 1]]), 20, stats);
+
+    expect(short).toBeGreaterThan(long);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * BM25 lexical scoring (Okapi BM25, Lucene-style non-negative IDF).
+ */
+
+/** Term frequency saturation */
+export const BM25_K1 = 1.2;
+/** Document length normalization */
+export const BM25_B = 0.75;
+
+/**
+ * Corpus statistics needed to score a document.
+ */
+export interface Bm25CorpusStats {
+  /** Number of documents in the corpus */
+  documentCount: number;
+  /** Average document length in terms */
+  averageLength: number;
+  /** Number of documents containing a term */
+  documentFrequency: (term: string) => number;
+}
+
+/**
+ * Count term occurrences.
+ */
+export function termFrequencies(terms: string[]): Map<string, number> {
+  const freq = new Map<string, number>();
+  for (const term of terms) {
+    freq.set(term, (freq.get(term) ?? 0) + 1);
+  }
+  return freq;
+}
+
+/**
+ * Inverse document frequency. Always > 0 so rare-in-small-corpus terms still count.
+ */
+export function inverseDocumentFrequency(documentCount: number, documentFrequency: number): number {
+  return Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+/**
+ * Score a single document against query terms.
+ *
+ * @param queryTerms - Unique query terms
+ * @param docTermFreq - Term frequencies for the document
+ * @param docLength - Document length in terms
+ * @param stats - Corpus statistics
+ */
+export function bm25Score(
+  queryTerms: Iterable<string>,
+  docTermFreq: ReadonlyMap<string, number>,
+  docLength: number,
+  stats: Bm25CorpusStats
+): number {
+  if (stats.documentCount === 0 || docLength === 0) return 0;
+
+  const avgLength = stats.averageLength > 0 ? stats.averageLength : docLength;
+  let score = 0;
+
+  for (const term of queryTerms) {
+    const tf = docTermFreq.get(term) ?? 0;
+    if (tf === 0) continue;
+
+    const idf = inverseDocumentFrequency(stats.documentCount, stats.documentFrequency(term));
+    const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (docLength / avgLength));
+    score += idf * ((tf * (BM25_K1 + 1)) / norm);
+  }
+
+  return score;
+}
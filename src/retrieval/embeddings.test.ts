@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  HashedNgramEmbeddingProvider,
+  HttpEmbeddingProvider,
+  cosineSimilarity,
+  l2Normalize,
+} from './embeddings.js';
+
+describe('HashedNgramEmbeddingProvider', () => {
+  const provider = new HashedNgramEmbeddingProvider();
+
+  it('returns deterministic unit vectors of the configured size', async () => {
+    const [a, b] = await provider.embed(['release checklist', 'release checklist']);
+
+    expect(a).toHaveLength(512);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 6);
+  });
+
+  it('scores morphological variants above unrelated text', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'how do we deploy the service',
+      'Deployment runbook: steps for deploying services',
+      'Weekly notes about hiring and budget',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(provider.minSimilarity);
+    expect(cosineSimilarity(query, unrelated)).toBeLessThan(provider.minSimilarity);
+  });
+
+  it('returns a zero vector for text with no terms', async () => {
+    const [vector] = await provider.embed(['a an the']);
+    expect(vector.every((v) => v === 0)).toBe(true);
+  });
+});
+
+describe('HttpEmbeddingProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts an OpenAI-compatible request and normalizes vectors in index order', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        data: [
+          { index: 1, embedding: [0, 2] },
+          { index: 0, embedding: [3, 4] },
+        ],
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new HttpEmbeddingProvider({
+      url: 'https://embeddings.example.com/v1/embeddings',
+      apiKey: 'secret',
+      model: 'test-embed',
+    });
+    const vectors = await provider.embed(['first', 'second']);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://embeddings.example.com/v1/embeddings',
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ Authorization: 'Bearer secret' }),
+        body: JSON.stringify({ input: ['first', 'second'], model: 'test-embed' }),
+      })
+    );
+    expect(vectors).toEqual([
+      [0.6, 0.8],
+      [0, 1],
+    ]);
+  });
+
+  it('throws on HTTP errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: false, status: 429, statusText: 'Too Many Requests' })
+    );
+
+    const provider = new HttpEmbeddingProvider({ url: 'https://x', model: 'm' });
+
+    await expect(provider.embed(['text'])).rejects.toThrow('HTTP 429');
+  });
+});
+
+describe('vector helpers', () => {
+  it('normalizes to unit length and leaves zero vectors alone', () => {
+    expect(l2Normalize([3, 4])).toEqual([0.6, 0.8]);
+    expect(l2Normalize([0, 0])).toEqual([0, 0]);
+  });
+
+  it('returns 0 similarity for mismatched dimensions', () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Embedding providers for semantic retrieval.
+ *
+ * - `HashedNgramEmbeddingProvider`: local, offline, deterministic. Hashes word unigrams
+ *   and character trigrams into a fixed-size signed vector (feature hashing). Catches
+ *   morphological variants ("deploy" / "deploying" / "deployment") with no network.
+ * - `HttpEmbeddingProvider`: any OpenAI-compatible `/embeddings` endpoint (Voyage, OpenAI,
+ *   a self-hosted model server) for true semantic similarity ("deploy" ≈ "release").
+ *
+ * All providers return L2-normalized vectors so cosine similarity is a dot product.
+ */
+
+import { tokenize } from './tokenizer.js';
+
+/**
+ * Pluggable embedding provider.
+ */
+export interface EmbeddingProvider {
+  /** Provider identifier (logged with retrieval events) */
+  readonly name: string;
+  /**
+   * Cosine similarity at which a document counts as related without any keyword overlap.
+   * Similarity baselines differ widely between embedding models.
+   */
+  readonly minSimilarity?: number;
+  /**
+   * Embed a batch of texts.
+   *
+   * @returns One L2-normalized vector per input, in input order
+   * @throws Error on provider failure (callers degrade to lexical-only scoring)
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Default dimensionality for the hashed provider */
+export const DEFAULT_HASHED_DIMENSIONS = 512;
+
+/** Character n-gram size for the hashed provider */
+const CHAR_NGRAM_SIZE = 3;
+
+/** Character n-grams carry less signal than whole words */
+const CHAR_NGRAM_WEIGHT = 0.5;
+
+/**
+ * 32-bit FNV-1a hash.
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged).
+ */
+export function l2Normalize(vector: number[]): number[] {
+  let sumSquares = 0;
+  for (const v of vector) sumSquares += v * v;
+  if (sumSquares === 0) return vector;
+  const norm = Math.sqrt(sumSquares);
+  return vector.map((v) => v / norm);
+}
+
+/**
+ * Cosine similarity for L2-normalized vectors (dot product).
+ * Returns 0 for mismatched dimensions.
+ */
+export function cosineSimilarity(a: readonly number[], b: readonly number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Local hashed bag-of-ngrams embeddings (offline fallback, used in tests).
+ */
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashed-ngram';
+  readonly minSimilarity = 0.25;
+
+  constructor(readonly dimensions: number = DEFAULT_HASHED_DIMENSIONS) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    const addFeature = (feature: string, weight: number): void => {
+      const hash = fnv1a(feature);
+      // Signed hashing keeps collisions from systematically inflating similarity.
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight;
+    };
+
+    for (const token of tokenize(text)) {
+      addFeature(`w:${token}`, 1);
+      const padded = `^${token}$`;
+      for (let i = 0; i + CHAR_NGRAM_SIZE <= padded.length; i++) {
+        addFeature(`c:${padded.slice(i, i + CHAR_NGRAM_SIZE)}`, CHAR_NGRAM_WEIGHT);
+      }
+    }
+
+    return l2Normalize(vector);
+  }
+}
+
+export interface HttpEmbeddingProviderConfig {
+  /** Full endpoint URL, e.g. https://api.voyageai.com/v1/embeddings */
+  url: string;
+  /** Bearer token */
+  apiKey?: string;
+  /** Model name sent in the request body */
+  model: string;
+  /** Request timeout (default 10s) */
+  timeoutMs?: number;
+  /** Max texts per request (default 64) */
+  batchSize?: number;
+  /** Cosine threshold for vector-only matches (model-specific) */
+  minSimilarity?: number;
+}
+
+interface OpenAICompatibleEmbeddingResponse {
+  data?: Array<{ embedding: number[]; index?: number }>;
+}
+
+/**
+ * OpenAI-compatible HTTP embeddings (`POST { input, model }` → `{ data: [{ embedding }] }`).
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly minSimilarity?: number;
+  private readonly timeoutMs: number;
+  private readonly batchSize: number;
+
+  constructor(private readonly config: HttpEmbeddingProviderConfig) {
+    this.name = `http:${config.model}`;
+    this.minSimilarity = config.minSimilarity;
+    this.timeoutMs = config.timeoutMs ?? 10_000;
+    this.batchSize = config.batchSize ?? 64;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      vectors.push(...(await this.embedBatch(texts.slice(i, i + this.batchSize))));
+    }
+    return vectors;
+  }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ input: texts, model: this.config.model }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed: HTTP ${response.status} ${response.statusText}`);
+      }
+
+      const body = (await response.json()) as OpenAICompatibleEmbeddingResponse;
+      const data = body.data ?? [];
+      if (data.length !== texts.length) {
+        throw new Error(`Embedding response size mismatch: expected ${texts.length}, got ${data.length}`);
+      }
+
+      return [...data]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map((d) => l2Normalize(d.embedding));
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { HybridIndex } from './hybrid-index.js';
+import { HashedNgramEmbeddingProvider, type EmbeddingProvider } from './embeddings.js';
+import { logger } from '../utils/logger.js';
+
+describe('HybridIndex', () => {
+  let provider: HashedNgramEmbeddingProvider;
+  let index: HybridIndex;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    provider = new HashedNgramEmbeddingProvider();
+    index = new HybridIndex(provider);
+  });
+
+  it('ranks lexical and semantic matches and skips unrelated documents', async () => {
+    await index.upsert([
+      { id: 'runbook', text: 'Deployment runbook: steps for deploying services to production' },
+      { id: 'deploy', text: 'How to deploy the service' },
+      { id: 'hiring', text: 'Weekly notes about hiring and budget' },
+    ]);
+
+    const results = await index.search('deploy the service');
+
+    expect(results.map((r) => r.document.id)).toEqual(['deploy', 'runbook']);
+    expect(results[0].matchedTerms).toBe(2);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[0].score).toBeLessThanOrEqual(1);
+  });
+
+  it('only re-embeds documents whose text changed', async () => {
+    const embed = vi.spyOn(provider, 'embed');
+
+    await expect(index.upsert({ id: 'a', text: 'release notes' })).resolves.toBe(1);
+    await expect(index.upsert({ id: 'a', text: 'release notes' })).resolves.toBe(0);
+    await expect(index.upsert({ id: 'a', text: 'release notes v2' })).resolves.toBe(1);
+
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(index.size).toBe(1);
+  });
+
+  it('removes documents from lexical statistics', async () => {
+    await index.upsert([
+      { id: 'a', text: 'release notes' },
+      { id: 'b', text: 'release calendar' },
+    ]);
+
+    expect(index.remove('a')).toBe(true);
+    expect(index.remove('a')).toBe(false);
+
+    const results = await index.search('release notes');
+    expect(results.map((r) => r.document.id)).toEqual(['b']);
+  });
+
+  it('restricts search to the given ids', async () => {
+    await index.upsert([
+      { id: 'a', text: 'release notes' },
+      { id: 'b', text: 'release calendar' },
+    ]);
+
+    const results = await index.search('release', { ids: ['b'] });
+    expect(results.map((r) => r.document.id)).toEqual(['b']);
+  });
+
+  it('degrades to BM25-only when the provider fails', async () => {
+    const failing: EmbeddingProvider = {
+      name: 'failing',
+      embed: vi.fn().mockRejectedValue(new Error('network down')),
+    };
+    const lexicalIndex = new HybridIndex(failing);
+
+    await lexicalIndex.upsert([
+      { id: 'a', text: 'release notes for March' },
+      { id: 'b', text: 'Deployment runbook' },
+    ]);
+    const results = await lexicalIndex.search('release notes', { traceId: 't-1' });
+
+    expect(results.map((r) => r.document.id)).toEqual(['a']);
+    expect(results[0].vectorScore).toBe(0);
+    expect(results[0].score).toBe(1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'retrieval.embed_failed', provider: 'failing' })
+    );
+  });
+
+  it('returns nothing for queries without terms', async () => {
+    await index.upsert({ id: 'a', text: 'release notes' });
+    await expect(index.search('the and')).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * In-memory hybrid retrieval index (BM25 + embedding cosine).
+ *
+ * Documents are re-tokenized and re-embedded only when their text changes
+ * (content hash), so callers can upsert on every scan/save cheaply.
+ * If the embedding provider fails, documents are still indexed lexically and
+ * search degrades to BM25-only rather than failing.
+ */
+
+import { createHash } from 'node:crypto';
+import { logger } from '../utils/logger.js';
+import { bm25Score, termFrequencies } from './bm25.js';
+import { cosineSimilarity, type EmbeddingProvider } from './embeddings.js';
+import { tokenize } from './tokenizer.js';
+
+/** Default weight of the vector score in the hybrid blend (0 = BM25 only, 1 = vector only) */
+export const DEFAULT_VECTOR_WEIGHT = 0.5;
+
+/** Cosine similarity needed for a document with no lexical match, when the provider does not set one */
+export const DEFAULT_MIN_VECTOR_SCORE = 0.35;
+
+/**
+ * Document to index.
+ */
+export interface IndexedDocument<TMeta = Record<string, unknown>> {
+  /** Stable document ID (file path, KV key, ...) */
+  id: string;
+  /** Text to index */
+  text: string;
+  /** Caller metadata returned with search results */
+  metadata?: TMeta;
+}
+
+/**
+ * Hybrid search hit.
+ */
+export interface HybridSearchResult<TMeta = Record<string, unknown>> {
+  document: IndexedDocument<TMeta>;
+  /** Blended score in [0, 1] */
+  score: number;
+  /** Raw BM25 score */
+  bm25Score: number;
+  /** Cosine similarity in [0, 1] (0 when embeddings are unavailable) */
+  vectorScore: number;
+  /** Number of distinct query terms present in the document */
+  matchedTerms: number;
+}
+
+export interface HybridSearchOptions {
+  /** Max results (default 10) */
+  limit?: number;
+  /** Restrict search to these document IDs */
+  ids?: Iterable<string>;
+  /** Vector weight in the blend (default 0.5) */
+  vectorWeight?: number;
+  /** Minimum cosine for vector-only matches (default: provider.minSimilarity, else 0.35) */
+  minVectorScore?: number;
+  /** Trace ID for logs */
+  traceId?: string;
+}
+
+interface IndexEntry<TMeta> {
+  document: IndexedDocument<TMeta>;
+  hash: string;
+  termFreq: Map<string, number>;
+  length: number;
+  vector?: number[];
+}
+
+function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+export class HybridIndex<TMeta = Record<string, unknown>> {
+  private readonly entries = new Map<string, IndexEntry<TMeta>>();
+  private readonly documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(private readonly provider: EmbeddingProvider) {}
+
+  /** Number of indexed documents */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Embedding provider backing this index */
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Add or update documents. Unchanged documents (same text) only refresh metadata.
+   *
+   * @returns Number of documents (re)indexed
+   */
+  async upsert(
+    documents: IndexedDocument<TMeta> | IndexedDocument<TMeta>[],
+    traceId?: string
+  ): Promise<number> {
+    const docs = Array.isArray(documents) ? documents : [documents];
+    const changed: Array<{ doc: IndexedDocument<TMeta>; hash: string }> = [];
+
+    for (const doc of docs) {
+      const hash = hashText(doc.text);
+      const existing = this.entries.get(doc.id);
+      // Unchanged text: keep the cached embedding (retry if a previous embed failed).
+      if (existing && existing.hash === hash && existing.vector) {
+        existing.document = doc;
+        continue;
+      }
+      changed.push({ doc, hash });
+    }
+
+    if (changed.length === 0) return 0;
+
+    let vectors: number[][] | undefined;
+    try {
+      vectors = await this.provider.embed(changed.map((c) => c.doc.text));
+    } catch (error) {
+      logger.warn({
+        event: 'retrieval.embed_failed',
+        provider: this.provider.name,
+        documents: changed.length,
+        error: error instanceof Error ? error.message : String(error),
+        traceId,
+      });
+    }
+
+    changed.forEach(({ doc, hash }, i) => {
+      this.remove(doc.id);
+      const terms = tokenize(doc.text);
+      const termFreq = termFrequencies(terms);
+      for (const term of termFreq.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+      this.totalLength += terms.length;
+      this.entries.set(doc.id, {
+        document: doc,
+        hash,
+        termFreq,
+        length: terms.length,
+        vector: vectors?.[i],
+      });
+    });
+
+    return changed.length;
+  }
+
+  /**
+   * Remove a document.
+   *
+   * @returns true if the document was indexed
+   */
+  remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+
+    for (const term of entry.termFreq.keys()) {
+      const df = (this.documentFrequency.get(term) ?? 1) - 1;
+      if (df <= 0) this.documentFrequency.delete(term);
+      else this.documentFrequency.set(term, df);
+    }
+    this.totalLength -= entry.length;
+    this.entries.delete(id);
+    return true;
+  }
+
+  /**
+   * Rank documents by blended BM25 + vector similarity.
+   *
+   * A document is a candidate if it shares a query term or its cosine similarity
+   * reaches `minVectorScore`. BM25 is normalized by the best candidate's score.
+   */
+  async search(query: string, options: HybridSearchOptions = {}): Promise<HybridSearchResult<TMeta>[]> {
+    const limit = options.limit ?? 10;
+    const vectorWeight = options.vectorWeight ?? DEFAULT_VECTOR_WEIGHT;
+    const minVectorScore =
+      options.minVectorScore ?? this.provider.minSimilarity ?? DEFAULT_MIN_VECTOR_SCORE;
+    const queryTerms = new Set(tokenize(query));
+
+    if (queryTerms.size === 0 || this.entries.size === 0) return [];
+
+    let queryVector: number[] | undefined;
+    try {
+      [queryVector] = await this.provider.embed([query]);
+    } catch (error) {
+      logger.warn({
+        event: 'retrieval.embed_failed',
+        provider: this.provider.name,
+        documents: 0,
+        error: error instanceof Error ? error.message : String(error),
+        traceId: options.traceId,
+      });
+    }
+
+    const stats = {
+      documentCount: this.entries.size,
+      averageLength: this.totalLength / this.entries.size,
+      documentFrequency: (term: string) => this.documentFrequency.get(term) ?? 0,
+    };
+
+    const candidateIds = options.ids ? new Set(options.ids) : undefined;
+    const candidates: Array<Omit<HybridSearchResult<TMeta>, 'score'>> = [];
+
+    for (const [id, entry] of this.entries) {
+      if (candidateIds && !candidateIds.has(id)) continue;
+
+      let matchedTerms = 0;
+      for (const term of queryTerms) {
+        if (entry.termFreq.has(term)) matchedTerms += 1;
+      }
+
+      const lexical = matchedTerms > 0 ? bm25Score(queryTerms, entry.termFreq, entry.length, stats) : 0;
+      const vectorScore =
+        queryVector && entry.vector ? Math.max(0, cosineSimilarity(queryVector, entry.vector)) : 0;
+
+      if (matchedTerms === 0 && vectorScore < minVectorScore) continue;
+
+      candidates.push({ document: entry.document, bm25Score: lexical, vectorScore, matchedTerms });
+    }
+
+    if (candidates.length === 0) return [];
+
+    const maxBm25 = Math.max(...candidates.map((c) => c.bm25Score));
+    // Without embeddings, fall back to pure lexical ranking.
+    const weight = queryVector ? vectorWeight : 0;
+
+    return candidates
+      .map((c) => ({
+        ...c,
+        score: Math.min(
+          1,
+          weight * c.vectorScore + (1 - weight) * (maxBm25 > 0 ? c.bm25Score / maxBm25 : 0)
+        ),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
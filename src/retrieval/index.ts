@@ -0,0 +1,173 @@
+/**
+ * Retrieval Module
+ *
+ * Shared semantic retrieval for the gather phase and memory search:
+ * hybrid BM25 + embedding scoring over orion-context/ files and stored memories.
+ *
+ * Provider selection (EMBEDDING_PROVIDER):
+ * - `local` (default): hashed bag-of-ngrams, offline and deterministic
+ * - `http`: OpenAI-compatible endpoint (EMBEDDING_API_URL / EMBEDDING_API_KEY / EMBEDDING_MODEL,
+ *   optional EMBEDDING_MIN_SIMILARITY for vector-only matches)
+ *
+ * The shared index is keyed by document ID (absolute file path or `kv:<type>:<key>`)
+ * and re-embeds only changed text, so `saveMemory` can re-index incrementally.
+ */
+
+import { config } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import {
+  HashedNgramEmbeddingProvider,
+  HttpEmbeddingProvider,
+  type EmbeddingProvider,
+} from './embeddings.js';
+import {
+  HybridIndex,
+  type HybridSearchOptions,
+  type HybridSearchResult,
+  type IndexedDocument,
+} from './hybrid-index.js';
+
+export {
+  HashedNgramEmbeddingProvider,
+  HttpEmbeddingProvider,
+  cosineSimilarity,
+  type EmbeddingProvider,
+} from './embeddings.js';
+export {
+  HybridIndex,
+  type HybridSearchOptions,
+  type HybridSearchResult,
+  type IndexedDocument,
+} from './hybrid-index.js';
+export { tokenize, STOPWORDS } from './tokenizer.js';
+
+export interface EmbeddingProviderOptions {
+  provider?: string;
+  apiUrl?: string;
+  apiKey?: string;
+  model?: string;
+  minSimilarity?: number;
+}
+
+/**
+ * Build an embedding provider from options.
+ * Falls back to the local provider when `http` is selected without a URL/model.
+ */
+export function createEmbeddingProvider(options: EmbeddingProviderOptions): EmbeddingProvider {
+  if (options.provider === 'http') {
+    if (options.apiUrl && options.model) {
+      return new HttpEmbeddingProvider({
+        url: options.apiUrl,
+        apiKey: options.apiKey,
+        model: options.model,
+        minSimilarity: options.minSimilarity,
+      });
+    }
+    logger.warn({
+      event: 'retrieval.provider_misconfigured',
+      provider: 'http',
+      reason: 'EMBEDDING_API_URL and EMBEDDING_MODEL are required; using local embeddings',
+    });
+  }
+  return new HashedNgramEmbeddingProvider();
+}
+
+let embeddingProvider: EmbeddingProvider | null = null;
+let sharedIndex: HybridIndex | null = null;
+
+/**
+ * Get the configured embedding provider (created on first use).
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = createEmbeddingProvider({
+      provider: config.embeddingProvider,
+      apiUrl: config.embeddingApiUrl,
+      apiKey: config.embeddingApiKey,
+      model: config.embeddingModel,
+      minSimilarity: config.embeddingMinSimilarity,
+    });
+  }
+  return embeddingProvider;
+}
+
+/**
+ * Swap the embedding provider. Clears the shared index (vectors are provider-specific).
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider): void {
+  embeddingProvider = provider;
+  sharedIndex = null;
+}
+
+/**
+ * Shared index over orion-context/ files and stored memories.
+ */
+export function getRetrievalIndex(): HybridIndex {
+  if (!sharedIndex) {
+    sharedIndex = new HybridIndex(getEmbeddingProvider());
+  }
+  return sharedIndex;
+}
+
+/**
+ * Index (or re-index) a single document in the shared index.
+ * Never throws — retrieval is best-effort and must not block writes.
+ */
+export async function indexDocument(document: IndexedDocument, traceId?: string): Promise<void> {
+  try {
+    await getRetrievalIndex().upsert(document, traceId);
+  } catch (error) {
+    logger.warn({
+      event: 'retrieval.index_failed',
+      documentId: document.id,
+      error: error instanceof Error ? error.message : String(error),
+      traceId,
+    });
+  }
+}
+
+/**
+ * Remove a document from the shared index.
+ */
+export function removeDocument(id: string): void {
+  sharedIndex?.remove(id);
+}
+
+export interface RankDocumentsOptions extends Omit<HybridSearchOptions, 'ids'> {
+  /**
+   * Rank in a throwaway index instead of the shared one
+   * (for ephemeral text such as thread messages).
+   */
+  transient?: boolean;
+}
+
+/**
+ * Upsert candidate documents and rank them against a query.
+ * Only the given documents are considered.
+ */
+export async function rankDocuments<TMeta = Record<string, unknown>>(
+  query: string,
+  documents: IndexedDocument<TMeta>[],
+  options: RankDocumentsOptions = {}
+): Promise<HybridSearchResult<TMeta>[]> {
+  if (documents.length === 0) return [];
+
+  const index = options.transient
+    ? new HybridIndex<TMeta>(getEmbeddingProvider())
+    : (getRetrievalIndex() as unknown as HybridIndex<TMeta>);
+
+  await index.upsert(documents, options.traceId);
+  const results = await index.search(query, { ...options, ids: documents.map((d) => d.id) });
+
+  // Return the caller's documents (the shared index may hold another caller's metadata).
+  const byId = new Map(documents.map((d) => [d.id, d]));
+  return results.map((r) => ({ ...r, document: byId.get(r.document.id) ?? r.document }));
+}
+
+/**
+ * Reset provider + shared index (tests only).
+ */
+export function __resetForTests(): void {
+  embeddingProvider = null;
+  sharedIndex = null;
+}
@@ -0,0 +1,53 @@
+/**
+ * Shared tokenizer for retrieval (BM25 terms + local embedding features).
+ *
+ * Lowercases, splits on non-alphanumerics, drops short tokens and common stopwords.
+ */
+
+export const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'but',
+  'by',
+  'do',
+  'for',
+  'from',
+  'how',
+  'i',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'so',
+  'that',
+  'the',
+  'then',
+  'to',
+  'we',
+  'what',
+  'when',
+  'where',
+  'why',
+  'with',
+  'you',
+  'your',
+]);
+
+/**
+ * Tokenize text into retrieval terms (length >= 3, stopwords removed).
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(/\s+/)
+    .map((t) => t.trim())
+    .filter((t) => t.length >= 3 && !STOPWORDS.has(t));
+}
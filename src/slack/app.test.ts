@@ -12,6 +12,18 @@
 import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
 import { App, ExpressReceiver } from '@slack/bolt';
 
+// Mock MCP OAuth completion for the callback endpoint tests
+const completeMcpAuthorizationMock = vi.hoisted(() =>
+  vi.fn(async ({ code }: { state: string; code: string }) =>
+    code === 'good'
+      ? { success: true, data: { userId: 'U1', serverName: 'github' } }
+      : {
+          success: false,
+          error: { code: 'TOOL_INVALID_INPUT', message: 'This connect link is invalid or has expired.', retryable: false },
+        }
+  )
+);
+
 // Mock MCP modules for /health/mcp endpoint tests
 vi.mock('../tools/mcp/index.js', () => ({
   getMcpServersConfig: vi.fn(() => ({
@@ -22,6 +34,28 @@ vi.mock('../tools/mcp/index.js', () => ({
     { name: 'brave-search', available: true, failureCount: 0 },
     { name: 'github', available: false, failureCount: 2, lastError: 'Connection refused', lastErrorTime: new Date('2025-01-01T00:00:00Z') },
   ]),
+  OAUTH_CALLBACK_PATH: '/mcp/oauth/callback',
+  completeMcpAuthorization: completeMcpAuthorizationMock,
+}));
+
+vi.mock('./mcp-connect.js', () => ({
+  MCP_CONNECT_ACTION_ID: 'orion_mcp_connect',
+}));
+
+// Mock cost ledger for /health/costs endpoint tests
+vi.mock('../observability/costs.js', () => ({
+  getCostReport: vi.fn(async (range: { from?: string; to?: string }) => {
+    if (range.from === 'yesterday') throw new Error('Dates must be YYYY-MM-DD');
+    return {
+      from: range.from ?? '2025-01-01',
+      to: range.to ?? '2025-01-15',
+      totals: { runs: 2, costUsd: 0.42 },
+      byDay: {},
+      byUser: { U1: { runs: 2, costUsd: 0.42 } },
+      byChannel: {},
+      byModel: {},
+    };
+  }),
 }));
 
 interface CapturedConfig {
@@ -52,6 +86,7 @@ vi.mock('@slack/bolt', () => {
       message: vi.fn(),
       assistant: vi.fn(),
       action: vi.fn(),
+      command: vi.fn(),
       start: vi.fn().mockResolvedValue(undefined),
     };
   });
@@ -228,6 +263,22 @@ describe('Slack App Configuration', () => {
     expect(app.action).toHaveBeenCalledWith('orion_feedback', expect.any(Function));
   });
 
+  it('should register tool approval action handlers', async () => {
+    const { createSlackApp } = await import('./app.js');
+    const { app } = createSlackApp();
+
+    expect(app.action).toHaveBeenCalledWith('orion_tool_approve', expect.any(Function));
+    expect(app.action).toHaveBeenCalledWith('orion_tool_deny', expect.any(Function));
+    expect(app.action).toHaveBeenCalledWith('orion_mcp_connect', expect.any(Function));
+  });
+
+  it('should register the /orion slash command', async () => {
+    const { createSlackApp } = await import('./app.js');
+    const { app } = createSlackApp();
+
+    expect(app.command).toHaveBeenCalledWith('/orion', expect.any(Function));
+  });
+
   describe('/health/mcp endpoint (Story 3.1)', () => {
     it('should register /health/mcp endpoint on receiver router', async () => {
       const { createSlackApp } = await import('./app.js');
@@ -282,6 +333,8 @@ describe('Slack App Configuration', () => {
           throw new Error('Config load failed');
         }),
         getAllServerHealth: vi.fn(() => []),
+        OAUTH_CALLBACK_PATH: '/mcp/oauth/callback',
+        completeMcpAuthorization: completeMcpAuthorizationMock,
       }));
 
       const { createSlackApp } = await import('./app.js');
@@ -313,4 +366,126 @@ describe('Slack App Configuration', () => {
       expect(responseData.error).toBe('Config load failed');
     });
   });
+
+  describe('/health/costs endpoint', () => {
+    type CostsHandler = (
+      req: { query: Record<string, unknown>; headers: Record<string, string | undefined> },
+      res: { status: (code: number) => { json: (data: unknown) => void } }
+    ) => Promise<void>;
+
+    async function callCostsHandler(
+      query: Record<string, unknown>,
+      headers: Record<string, string | undefined> = { authorization: 'Bearer admin-token' }
+    ): Promise<{ statusCode: number; responseData: Record<string, unknown> }> {
+      process.env.ORION_ADMIN_TOKEN = 'admin-token';
+      const { createSlackApp } = await import('./app.js');
+      createSlackApp();
+
+      const routeHandlers = (globalThis as Record<string, unknown>).__routeHandlers as Record<string, unknown>;
+      const handler = routeHandlers['/health/costs'] as CostsHandler;
+
+      let responseData: Record<string, unknown> = {};
+      let statusCode = 0;
+      await handler(
+        { query, headers },
+        {
+          status: (code: number) => {
+            statusCode = code;
+            return {
+              json: (data: unknown) => {
+                responseData = data as Record<string, unknown>;
+              },
+            };
+          },
+        }
+      );
+      return { statusCode, responseData };
+    }
+
+    it('should return the cost report for the requested range', async () => {
+      const { statusCode, responseData } = await callCostsHandler({
+        from: '2025-01-01',
+        to: '2025-01-31',
+      });
+
+      expect(statusCode).toBe(200);
+      expect(responseData).toMatchObject({
+        status: 'ok',
+        from: '2025-01-01',
+        to: '2025-01-31',
+        totals: { runs: 2, costUsd: 0.42 },
+        byUser: { U1: { runs: 2, costUsd: 0.42 } },
+      });
+    });
+
+    it('should return 401 without the admin token', async () => {
+      const { getCostReport } = await import('../observability/costs.js');
+
+      for (const authorization of [undefined, 'Bearer wrong-token', 'admin-token']) {
+        const { statusCode, responseData } = await callCostsHandler({}, { authorization });
+        expect(statusCode).toBe(401);
+        expect(responseData).toMatchObject({ status: 'error', error: 'Unauthorized' });
+      }
+      expect(getCostReport).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid range', async () => {
+      const { statusCode, responseData } = await callCostsHandler({ from: 'yesterday' });
+
+      expect(statusCode).toBe(400);
+      expect(responseData.status).toBe('error');
+      expect(responseData.error).toBe('Dates must be YYYY-MM-DD');
+    });
+  });
+
+  describe('MCP OAuth callback endpoint', () => {
+    type CallbackHandler = (
+      req: { query: Record<string, unknown> },
+      res: { status: (code: number) => { send: (body: string) => void } }
+    ) => Promise<void>;
+
+    async function callCallbackHandler(
+      query: Record<string, unknown>
+    ): Promise<{ statusCode: number; body: string }> {
+      const { createSlackApp } = await import('./app.js');
+      createSlackApp();
+
+      const routeHandlers = (globalThis as Record<string, unknown>).__routeHandlers as Record<string, unknown>;
+      const handler = routeHandlers['/mcp/oauth/callback'] as CallbackHandler;
+
+      let body = '';
+      let statusCode = 0;
+      await handler(
+        { query },
+        {
+          status: (code: number) => {
+            statusCode = code;
+            return {
+              send: (data: string) => {
+                body = data;
+              },
+            };
+          },
+        }
+      );
+      return { statusCode, body };
+    }
+
+    it('should complete the authorization and confirm the connection', async () => {
+      const { statusCode, body } = await callCallbackHandler({ state: 'sealed', code: 'good' });
+
+      expect(statusCode).toBe(200);
+      expect(body).toContain('Your github account is connected');
+    });
+
+    it('should return 400 for invalid links and provider errors', async () => {
+      const invalid = await callCallbackHandler({ state: 'sealed', code: 'stale' });
+      expect(invalid.statusCode).toBe(400);
+      expect(invalid.body).toContain('invalid or has expired');
+
+      const denied = await callCallbackHandler({ error: '<access_denied>' });
+      expect(denied.statusCode).toBe(400);
+      expect(denied.body).toContain('&lt;access_denied&gt;');
+    });
+  });
 });
@@ -13,6 +13,7 @@
  * @see Story 1.6 - Docker & Cloud Run Deployment
  */
 
+import { timingSafeEqual } from 'node:crypto';
 import bolt from '@slack/bolt';
 import type {
   App as AppType,
@@ -20,7 +21,17 @@ import type {
 } from '@slack/bolt';
 import { config } from '../config/environment.js';
 import { handleFeedback } from './handlers/feedback.js';
-import { getMcpServersConfig, getAllServerHealth } from '../tools/mcp/index.js';
+import { handleToolApproval } from './handlers/tool-approval.js';
+import { handleOrionCommand } from './handlers/slash-command.js';
+import { TOOL_APPROVE_ACTION_ID, TOOL_DENY_ACTION_ID } from './approval-block.js';
+import { MCP_CONNECT_ACTION_ID } from './mcp-connect.js';
+import {
+  getMcpServersConfig,
+  getAllServerHealth,
+  completeMcpAuthorization,
+  OAUTH_CALLBACK_PATH,
+} from '../tools/mcp/index.js';
+import { getCostReport } from '../observability/costs.js';
 
 const { App, ExpressReceiver, LogLevel } = bolt;
 
@@ -88,9 +99,96 @@ export function createReceiver(): ExpressReceiverType {
     }
   });
 
+  /**
+   * Costs endpoint - dollar cost of agent runs by day, user, channel and model.
+   *
+   * Requires `Authorization: Bearer ${ORION_ADMIN_TOKEN}` (401 otherwise).
+   * Query: `from` / `to` (YYYY-MM-DD, inclusive, UTC). Defaults to month-to-date.
+   * Returns 400 for malformed or oversized ranges.
+   */
+  receiver.router.get('/health/costs', async (req, res) => {
+    if (!isAdminRequest(req.headers.authorization)) {
+      res.status(401).json({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        error: 'Unauthorized',
+      });
+      return;
+    }
+
+    const from = typeof req.query.from === 'string' ? req.query.from : undefined;
+    const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+
+    let report;
+    try {
+      report = await getCostReport({ from, to });
+    } catch (error) {
+      res.status(400).json({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      ...report,
+    });
+  });
+
+  /**
+   * MCP OAuth callback - providers redirect here after a user connects their
+   * account (see src/tools/mcp/oauth.ts). Answers with a small HTML page.
+   */
+  receiver.router.get(OAUTH_CALLBACK_PATH, async (req, res) => {
+    const state = typeof req.query.state === 'string' ? req.query.state : '';
+    const code = typeof req.query.code === 'string' ? req.query.code : '';
+
+    if (!state || !code) {
+      const reason = typeof req.query.error === 'string' ? req.query.error : 'missing code';
+      res.status(400).send(oauthResultPage(`Connection failed: ${reason}.`));
+      return;
+    }
+
+    const result = await completeMcpAuthorization({ state, code });
+    if (!result.success) {
+      res.status(400).send(oauthResultPage(`Connection failed: ${result.error.message}`));
+      return;
+    }
+
+    res
+      .status(200)
+      .send(
+        oauthResultPage(
+          `Your ${result.data.serverName} account is connected. You can close this tab and ask Orion again in Slack.`
+        )
+      );
+  });
+
   return receiver;
 }
 
+/**
+ * Whether an Authorization header carries the admin token.
+ * Always false when ORION_ADMIN_TOKEN is not configured.
+ */
+function isAdminRequest(authorization: string | undefined): boolean {
+  if (!config.adminApiToken || !authorization?.startsWith('Bearer ')) return false;
+  const given = Buffer.from(authorization.slice('Bearer '.length));
+  const expected = Buffer.from(config.adminApiToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function oauthResultPage(message: string): string {
+  const escaped = message.replace(
+    /[&<>"]/g,
+    (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c] ?? c
+  );
+  return `<!doctype html><html><head><title>Orion</title></head><body><p>${escaped}</p></body></html>`;
+}
+
 /**
  * Creates and configures a Slack Bolt App instance.
  *
@@ -118,6 +216,16 @@ export function createSlackApp(): { app: AppType; receiver: ExpressReceiverType
     // Register feedback button action handler (Story 1.8)
     app.action('orion_feedback', handleFeedback);
 
+    // Register tool approval button handlers
+    app.action(TOOL_APPROVE_ACTION_ID, handleToolApproval);
+    app.action(TOOL_DENY_ACTION_ID, handleToolApproval);
+
+    // MCP connect buttons open a URL; just acknowledge the click
+    app.action(MCP_CONNECT_ACTION_ID, async ({ ack }) => ack());
+
+    // Register /orion slash command
+    app.command('/orion', handleOrionCommand);
+
     return { app, receiver: null };
   }
 
@@ -133,6 +241,16 @@ export function createSlackApp(): { app: AppType; receiver: ExpressReceiverType
   // Register feedback button action handler (Story 1.8)
   app.action('orion_feedback', handleFeedback);
 
+  // Register tool approval button handlers
+  app.action(TOOL_APPROVE_ACTION_ID, handleToolApproval);
+  app.action(TOOL_DENY_ACTION_ID, handleToolApproval);
+
+  // MCP connect buttons open a URL; just acknowledge the click
+  app.action(MCP_CONNECT_ACTION_ID, async ({ ack }) => ack());
+
+  // Register /orion slash command
+  app.command('/orion', handleOrionCommand);
+
   return { app, receiver };
 }
 
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createToolApprovalBlocks,
+  createToolApprovalResultBlocks,
+  formatToolInputPreview,
+  TOOL_APPROVE_ACTION_ID,
+  TOOL_DENY_ACTION_ID,
+} from './approval-block.js';
+
+describe('approval-block', () => {
+  it('renders the tool, input and Approve/Deny buttons carrying the approval ID', () => {
+    const blocks = createToolApprovalBlocks({
+      approvalId: 'appr-1',
+      toolName: 'jira__create_issue',
+      input: { summary: 'Broken build' },
+      requesterId: 'U123',
+    });
+
+    expect(JSON.stringify(blocks[0])).toContain('jira__create_issue');
+    expect(JSON.stringify(blocks[0])).toContain('Broken build');
+    expect(JSON.stringify(blocks[1])).toContain('<@U123>');
+
+    const actions = blocks[2];
+    expect(actions.type).toBe('actions');
+    if (actions.type !== 'actions') return;
+    expect(actions.elements.map((e) => [e.action_id, e.value])).toEqual([
+      [TOOL_APPROVE_ACTION_ID, 'appr-1'],
+      [TOOL_DENY_ACTION_ID, 'appr-1'],
+    ]);
+  });
+
+  it('truncates long input and keeps it inside the code block', () => {
+    const preview = formatToolInputPreview({ body: 'x'.repeat(5000), note: '```' });
+    expect(preview.length).toBeLessThan(1600);
+    expect(preview).not.toContain('```');
+  });
+
+  it('summarizes each outcome without buttons', () => {
+    const approved = createToolApprovalResultBlocks({
+      toolName: 't',
+      outcome: 'approved',
+      decidedBy: 'U1',
+    });
+    const denied = createToolApprovalResultBlocks({ toolName: 't', outcome: 'denied', decidedBy: 'U1' });
+    const timedOut = createToolApprovalResultBlocks({ toolName: 't', outcome: 'timeout' });
+
+    expect(JSON.stringify(approved)).toContain('approved by <@U1>');
+    expect(JSON.stringify(denied)).toContain('denied by <@U1>');
+    expect(JSON.stringify(timedOut)).toContain('not approved in time');
+    expect([...approved, ...denied, ...timedOut].every((b) => b.type !== 'actions')).toBe(true);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tool Approval Block Kit Module
+ *
+ * Interactive message asking a user to approve or deny a tool call before it
+ * runs (see src/tools/approval-policy.ts). Buttons carry the pending approval
+ * ID; clicks are handled by `handleToolApproval`.
+ */
+
+import type { ToolApprovalOutcome } from '../tools/approvals.js';
+
+/** action_id of the Approve button */
+export const TOOL_APPROVE_ACTION_ID = 'orion_tool_approve';
+
+/** action_id of the Deny button */
+export const TOOL_DENY_ACTION_ID = 'orion_tool_deny';
+
+/** Max characters of tool input shown in the request */
+const MAX_INPUT_PREVIEW_CHARS = 1500;
+
+interface ButtonElement {
+  type: 'button';
+  action_id: string;
+  text: { type: 'plain_text'; text: string };
+  value: string;
+  style?: 'primary' | 'danger';
+}
+
+export type ToolApprovalBlock =
+  | { type: 'section'; text: { type: 'mrkdwn'; text: string } }
+  | { type: 'context'; elements: Array<{ type: 'mrkdwn'; text: string }> }
+  | { type: 'actions'; block_id: string; elements: ButtonElement[] };
+
+/**
+ * Render tool input as a truncated JSON preview.
+ */
+export function formatToolInputPreview(input: unknown): string {
+  let json: string;
+  try {
+    json = JSON.stringify(input ?? {}, null, 2) ?? '{}';
+  } catch {
+    json = String(input);
+  }
+  // Keep the preview inside its code block.
+  json = json.replaceAll('```', "'''");
+  return json.length > MAX_INPUT_PREVIEW_CHARS
+    ? `${json.slice(0, MAX_INPUT_PREVIEW_CHARS)}\n…`
+    : json;
+}
+
+/**
+ * Fallback text for notifications and clients without Block Kit.
+ */
+export function toolApprovalText(toolName: string): string {
+  return `Approval needed: Orion wants to run \`${toolName}\``;
+}
+
+/**
+ * Blocks for a pending approval request.
+ *
+ * @param params.approvalId - Pending approval ID (button value)
+ * @param params.toolName - Tool to run
+ * @param params.input - Tool input shown to the approver
+ * @param params.requesterId - Slack user whose request triggered the call
+ */
+export function createToolApprovalBlocks(params: {
+  approvalId: string;
+  toolName: string;
+  input: unknown;
+  requesterId: string;
+}): ToolApprovalBlock[] {
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `:raised_hand: *Approval needed*\nOrion wants to run \`${params.toolName}\` with:\n\`\`\`${formatToolInputPreview(params.input)}\`\`\``,
+      },
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `Requested for <@${params.requesterId}>` }],
+    },
+    {
+      type: 'actions',
+      block_id: `orion_tool_approval_${params.approvalId}`,
+      elements: [
+        {
+          type: 'button',
+          action_id: TOOL_APPROVE_ACTION_ID,
+          text: { type: 'plain_text', text: 'Approve' },
+          value: params.approvalId,
+          style: 'primary',
+        },
+        {
+          type: 'button',
+          action_id: TOOL_DENY_ACTION_ID,
+          text: { type: 'plain_text', text: 'Deny' },
+          value: params.approvalId,
+          style: 'danger',
+        },
+      ],
+    },
+  ];
+}
+
+/**
+ * Blocks replacing the request once it is decided (buttons removed).
+ */
+export function createToolApprovalResultBlocks(params: {
+  toolName: string;
+  outcome: ToolApprovalOutcome;
+  decidedBy?: string;
+}): ToolApprovalBlock[] {
+  const summary =
+    params.outcome === 'approved'
+      ? `:white_check_mark: \`${params.toolName}\` approved by <@${params.decidedBy}>`
+      : params.outcome === 'denied'
+      ? `:no_entry_sign: \`${params.toolName}\` denied by <@${params.decidedBy}>`
+      : params.outcome === 'unavailable'
+      ? `:warning: Approval for \`${params.toolName}\` could not be requested, so it did not run`
+      : `:hourglass: \`${params.toolName}\` was not approved in time and did not run`;
+
+  return [{ type: 'section', text: { type: 'mrkdwn', text: summary } }];
+}
@@ -0,0 +1,168 @@
+/**
+ * Slack Attachments Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  MAX_ATTACHMENTS,
+  MAX_IMAGE_BYTES,
+  MAX_TEXT_CHARS,
+  decodeTextAttachment,
+  loadSlackAttachments,
+  type SlackFile,
+} from './attachments.js';
+
+const fetchMock = vi.fn();
+
+function fileResponse(body: string | Buffer, contentType = 'application/octet-stream'): Response {
+  return new Response(typeof body === 'string' ? body : new Uint8Array(body), {
+    status: 200,
+    headers: { 'content-type': contentType },
+  });
+}
+
+function slackFile(overrides: Partial<SlackFile> = {}): SlackFile {
+  return {
+    id: 'F1',
+    name: 'error.png',
+    mimetype: 'image/png',
+    filetype: 'png',
+    size: 3,
+    url_private_download: 'https://files.slack.com/files-pri/T1-F1/download/error.png',
+    permalink: 'https://acme.slack.com/files/U1/F1/error.png',
+    ...overrides,
+  };
+}
+
+describe('slack/attachments', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('downloads images with the bot token and returns image blocks', async () => {
+    fetchMock.mockResolvedValueOnce(fileResponse(Buffer.from('png'), 'image/png'));
+
+    const result = await loadSlackAttachments([slackFile()], { token: 'xoxb-test' });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://files.slack.com/files-pri/T1-F1/download/error.png',
+      expect.objectContaining({ headers: { Authorization: 'Bearer xoxb-test' } })
+    );
+    expect(result.content).toEqual([
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'cG5n' } },
+    ]);
+    expect(result.sources).toEqual([
+      {
+        type: 'attachment',
+        title: 'error.png',
+        reference: 'slack-file:F1',
+        url: 'https://acme.slack.com/files/U1/F1/error.png',
+      },
+    ]);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('sends PDFs as base64 documents and text files as text documents', async () => {
+    fetchMock
+      .mockResolvedValueOnce(fileResponse(Buffer.from('%PDF'), 'application/pdf'))
+      .mockResolvedValueOnce(fileResponse('ts,level\n1,ERROR', 'text/csv'));
+
+    const result = await loadSlackAttachments(
+      [
+        slackFile({ id: 'F1', name: 'runbook.pdf', mimetype: 'application/pdf', filetype: 'pdf' }),
+        slackFile({ id: 'F2', name: 'errors.csv', mimetype: 'text/csv', filetype: 'csv' }),
+      ],
+      { token: 'xoxb-test' }
+    );
+
+    expect(result.content).toEqual([
+      {
+        type: 'document',
+        title: 'runbook.pdf',
+        source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERg==' },
+      },
+      {
+        type: 'document',
+        title: 'errors.csv',
+        source: { type: 'text', media_type: 'text/plain', data: 'ts,level\n1,ERROR' },
+      },
+    ]);
+    expect(result.sources[1]).toMatchObject({ title: 'errors.csv', excerpt: 'ts,level\n1,ERROR' });
+  });
+
+  it('reads code snippets by Slack file type', async () => {
+    fetchMock.mockResolvedValueOnce(fileResponse('print("hi")', 'text/plain'));
+
+    const result = await loadSlackAttachments(
+      [slackFile({ name: 'job.py', mimetype: 'application/octet-stream', filetype: 'python' })],
+      { token: 'xoxb-test' }
+    );
+
+    expect(result.content[0]).toMatchObject({ type: 'document', title: 'job.py' });
+  });
+
+  it('skips unsupported, oversized and extra files with a note for the model', async () => {
+    const files = [
+      slackFile({ id: 'F1', name: 'archive.zip', mimetype: 'application/zip', filetype: 'zip' }),
+      slackFile({ id: 'F2', name: 'huge.png', size: MAX_IMAGE_BYTES + 1 }),
+      ...Array.from({ length: MAX_ATTACHMENTS }, (_, i) => slackFile({ id: `F${i + 3}` })),
+    ];
+    fetchMock.mockImplementation(async () => fileResponse(Buffer.from('png'), 'image/png'));
+
+    const result = await loadSlackAttachments(files, { token: 'xoxb-test' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(MAX_ATTACHMENTS - 2);
+    expect(result.skipped.map((s) => s.name)).toEqual([
+      'archive.zip',
+      'huge.png',
+      'error.png',
+      'error.png',
+    ]);
+    expect(result.skipped[0].reason).toContain('unsupported file type');
+    expect(result.content[result.content.length - 1]).toEqual({
+      type: 'text',
+      text: expect.stringContaining('Some attached files could not be read:\n- archive.zip'),
+    });
+  });
+
+  it('reports failed downloads instead of throwing', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('nope', { status: 403 }))
+      .mockResolvedValueOnce(fileResponse('<html>Sign in</html>', 'text/html; charset=utf-8'))
+      .mockRejectedValueOnce(new Error('socket hang up'));
+
+    const result = await loadSlackAttachments(
+      [slackFile({ id: 'F1' }), slackFile({ id: 'F2' }), slackFile({ id: 'F3' })],
+      { token: 'xoxb-test' }
+    );
+
+    expect(result.sources).toEqual([]);
+    expect(result.skipped.map((s) => s.reason)).toEqual([
+      'download failed (HTTP 403)',
+      expect.stringContaining('files:read'),
+      'socket hang up',
+    ]);
+  });
+
+  describe('decodeTextAttachment', () => {
+    it('truncates long text', () => {
+      const text = decodeTextAttachment(Buffer.from('x'.repeat(MAX_TEXT_CHARS + 10)));
+      expect(text?.startsWith('x'.repeat(MAX_TEXT_CHARS))).toBe(true);
+      expect(text).toContain(`showing the first ${MAX_TEXT_CHARS} of ${MAX_TEXT_CHARS + 10}`);
+    });
+
+    it('rejects binary content', () => {
+      expect(decodeTextAttachment(Buffer.from([0x50, 0x00, 0x4b]))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Slack file attachments for the agent request.
+ *
+ * Files shared with a message are downloaded with the bot token (`files:read`)
+ * and turned into Anthropic content blocks sent ahead of the message text:
+ * - images (PNG, JPEG, GIF, WebP) → image blocks
+ * - PDFs → base64 document blocks
+ * - CSVs, logs, code and other text files → plain-text document blocks,
+ *   truncated to MAX_TEXT_CHARS
+ *
+ * Each attachment read is recorded as a ContextSource so it shows up in the
+ * sources block. Files that are too large, unsupported or fail to download are
+ * skipped and listed in a short note so the model can tell the user.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import type { MessageAttachments } from '../agent/orion.js';
+import type { ContextSource } from '../agent/gather.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Subset of a Slack file object (message `files[]`) used here
+ */
+export interface SlackFile {
+  id: string;
+  name?: string;
+  title?: string;
+  mimetype?: string;
+  /** Slack file type, e.g. `png`, `csv`, `python` */
+  filetype?: string;
+  /** Size in bytes */
+  size?: number;
+  url_private?: string;
+  url_private_download?: string;
+  permalink?: string;
+}
+
+/**
+ * File that could not be attached, and why
+ */
+export interface SkippedAttachment {
+  name: string;
+  reason: string;
+}
+
+export interface LoadAttachmentsResult extends MessageAttachments {
+  skipped: SkippedAttachment[];
+}
+
+/** Most files read from one message */
+export const MAX_ATTACHMENTS = 5;
+
+/** Largest image the API accepts */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const MAX_PDF_BYTES = 10 * 1024 * 1024;
+
+/** Largest text file downloaded (it is truncated to MAX_TEXT_CHARS afterwards) */
+export const MAX_TEXT_BYTES = 1024 * 1024;
+
+/** Characters of a text file kept in the request */
+export const MAX_TEXT_CHARS = 50_000;
+
+/** Cap on bytes downloaded across all attachments of one message */
+export const MAX_TOTAL_BYTES = 20 * 1024 * 1024;
+
+const DOWNLOAD_TIMEOUT_MS = 15_000;
+
+/** Message text used when a user shares files without typing anything */
+export const ATTACHMENT_ONLY_MESSAGE = 'Please take a look at the attached file(s).';
+
+type ImageMediaType = Anthropic.Base64ImageSource['media_type'];
+
+const IMAGE_MEDIA_TYPES: Record<string, ImageMediaType> = {
+  'image/png': 'image/png',
+  'image/jpeg': 'image/jpeg',
+  'image/jpg': 'image/jpeg',
+  'image/gif': 'image/gif',
+  'image/webp': 'image/webp',
+};
+
+const TEXT_MIME_TYPES = new Set([
+  'application/json',
+  'application/xml',
+  'application/yaml',
+  'application/x-yaml',
+  'application/javascript',
+  'application/x-sh',
+  'application/sql',
+  'application/csv',
+]);
+
+/** Slack `filetype` values for text, snippet and code files */
+const TEXT_FILETYPES = new Set([
+  'text',
+  'csv',
+  'tsv',
+  'log',
+  'markdown',
+  'json',
+  'yaml',
+  'xml',
+  'css',
+  'diff',
+  'javascript',
+  'typescript',
+  'python',
+  'go',
+  'java',
+  'kotlin',
+  'ruby',
+  'php',
+  'rust',
+  'c',
+  'cpp',
+  'csharp',
+  'swift',
+  'scala',
+  'shell',
+  'powershell',
+  'sql',
+  'dockerfile',
+  'terraform',
+]);
+
+type AttachmentKind =
+  | { kind: 'image'; mediaType: ImageMediaType; maxBytes: number }
+  | { kind: 'pdf'; maxBytes: number }
+  | { kind: 'text'; maxBytes: number };
+
+function fileName(file: SlackFile): string {
+  return file.name ?? file.title ?? file.id;
+}
+
+/**
+ * Decide how a file is read, or null when it is not supported.
+ */
+function classifyFile(file: SlackFile): AttachmentKind | null {
+  const mimetype = file.mimetype?.toLowerCase() ?? '';
+  const filetype = file.filetype?.toLowerCase() ?? '';
+
+  const mediaType = IMAGE_MEDIA_TYPES[mimetype];
+  if (mediaType) return { kind: 'image', mediaType, maxBytes: MAX_IMAGE_BYTES };
+  if (mimetype === 'application/pdf' || filetype === 'pdf') {
+    return { kind: 'pdf', maxBytes: MAX_PDF_BYTES };
+  }
+  // HTML is indistinguishable from Slack's sign-in page (see downloadFile)
+  if (mimetype === 'text/html') return null;
+  if (
+    mimetype.startsWith('text/') ||
+    TEXT_MIME_TYPES.has(mimetype) ||
+    TEXT_FILETYPES.has(filetype)
+  ) {
+    return { kind: 'text', maxBytes: MAX_TEXT_BYTES };
+  }
+  return null;
+}
+
+async function downloadFile(url: string, token: string, maxBytes: number): Promise<Buffer> {
+  const response = await fetch(url, {
+    headers: { Authorization: `Bearer ${token}` },
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`download failed (HTTP ${response.status})`);
+  }
+  // Without files:read Slack answers with its HTML sign-in page instead of the file
+  if (response.headers.get('content-type')?.startsWith('text/html')) {
+    throw new Error('download returned an HTML page (is the files:read scope granted?)');
+  }
+
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > maxBytes) {
+    throw new Error(`file is larger than ${formatBytes(maxBytes)}`);
+  }
+  return data;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${Math.round(bytes / (1024 * 1024))} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+}
+
+/**
+ * Decode a text attachment, truncating it to MAX_TEXT_CHARS.
+ *
+ * @returns The text, or null when the bytes look binary
+ */
+export function decodeTextAttachment(data: Buffer): string | null {
+  if (data.includes(0)) return null;
+  const text = data.toString('utf8');
+  if (text.length <= MAX_TEXT_CHARS) return text;
+  return (
+    `${text.slice(0, MAX_TEXT_CHARS)}\n\n` +
+    `[truncated: showing the first ${MAX_TEXT_CHARS} of ${text.length} characters]`
+  );
+}
+
+function toContentBlock(
+  kind: AttachmentKind,
+  data: Buffer,
+  title: string
+): Anthropic.ImageBlockParam | Anthropic.DocumentBlockParam | null {
+  switch (kind.kind) {
+    case 'image':
+      return {
+        type: 'image',
+        source: { type: 'base64', media_type: kind.mediaType, data: data.toString('base64') },
+      };
+    case 'pdf':
+      return {
+        type: 'document',
+        title,
+        source: { type: 'base64', media_type: 'application/pdf', data: data.toString('base64') },
+      };
+    case 'text': {
+      const text = decodeTextAttachment(data);
+      if (text === null) return null;
+      return {
+        type: 'document',
+        title,
+        source: { type: 'text', media_type: 'text/plain', data: text },
+      };
+    }
+  }
+}
+
+function toSource(
+  file: SlackFile,
+  kind: AttachmentKind,
+  block: Anthropic.ContentBlockParam
+): ContextSource {
+  const excerpt =
+    kind.kind === 'text' && block.type === 'document' && block.source.type === 'text'
+      ? block.source.data.slice(0, 500)
+      : undefined;
+  return {
+    type: 'attachment',
+    title: fileName(file),
+    reference: `slack-file:${file.id}`,
+    url: file.permalink,
+    ...(excerpt !== undefined && { excerpt }),
+  };
+}
+
+/**
+ * Download and convert the files shared with a message.
+ *
+ * Never throws: files that cannot be read end up in `skipped`, and a note
+ * listing them is appended to `content`.
+ */
+export async function loadSlackAttachments(
+  files: SlackFile[],
+  options: { token: string; traceId?: string }
+): Promise<LoadAttachmentsResult> {
+  const content: Anthropic.ContentBlockParam[] = [];
+  const sources: ContextSource[] = [];
+  const skipped: SkippedAttachment[] = [];
+  let totalBytes = 0;
+
+  for (const [index, file] of files.entries()) {
+    const name = fileName(file);
+    if (index >= MAX_ATTACHMENTS) {
+      skipped.push({ name, reason: `only the first ${MAX_ATTACHMENTS} files are read` });
+      continue;
+    }
+
+    const kind = classifyFile(file);
+    if (!kind) {
+      skipped.push({
+        name,
+        reason: `unsupported file type (${file.mimetype ?? file.filetype ?? 'unknown'})`,
+      });
+      continue;
+    }
+    if (file.size !== undefined && file.size > kind.maxBytes) {
+      skipped.push({ name, reason: `file is larger than ${formatBytes(kind.maxBytes)}` });
+      continue;
+    }
+    if (totalBytes + (file.size ?? 0) > MAX_TOTAL_BYTES) {
+      skipped.push({ name, reason: `attachments exceed ${formatBytes(MAX_TOTAL_BYTES)} in total` });
+      continue;
+    }
+    const url = file.url_private_download ?? file.url_private;
+    if (!url) {
+      skipped.push({ name, reason: 'no download URL' });
+      continue;
+    }
+
+    try {
+      const data = await downloadFile(url, options.token, kind.maxBytes);
+      totalBytes += data.length;
+      const block = toContentBlock(kind, data, name);
+      if (!block) {
+        skipped.push({ name, reason: 'file is not readable text' });
+        continue;
+      }
+      content.push(block);
+      sources.push(toSource(file, kind, block));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn({
+        event: 'slack.attachment.download_failed',
+        fileId: file.id,
+        error: reason,
+        traceId: options.traceId,
+      });
+      skipped.push({ name, reason });
+    }
+  }
+
+  if (skipped.length > 0) {
+    content.push({
+      type: 'text',
+      text:
+        'Some attached files could not be read:\n' +
+        skipped.map((s) => `- ${s.name}: ${s.reason}`).join('\n'),
+    });
+  }
+
+  logger.info({
+    event: 'slack.attachments.loaded',
+    fileCount: files.length,
+    attachedCount: sources.length,
+    skippedCount: skipped.length,
+    totalBytes,
+    traceId: options.traceId,
+  });
+
+  return { content, sources, skipped };
+}
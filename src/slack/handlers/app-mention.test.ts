@@ -28,9 +28,16 @@ vi.mock('../../agent/orion.js', () => ({
   }),
 }));
 
-// Mock the agent loader
-vi.mock('../../agent/loader.js', () => ({
-  loadAgentPrompt: vi.fn().mockResolvedValue('You are Orion, a helpful assistant.'),
+// Mock the agent router
+vi.mock('../../agent/router.js', () => ({
+  DEFAULT_AGENT_NAME: 'orion',
+  routeAgent: vi.fn(async ({ messageText }: { messageText: string }) => ({
+    agentName: 'orion',
+    reason: 'default',
+    systemPrompt: 'You are Orion, a helpful assistant.',
+    responseMode: 'verified',
+    messageText,
+  })),
 }));
 
 // Mock config
@@ -76,6 +83,23 @@ vi.mock('../feedback-block.js', () => ({
   feedbackBlock: { type: 'section', text: { type: 'mrkdwn', text: 'Feedback' } },
 }));
 
+// Mock the workflow engine (no workflow runs in these threads)
+vi.mock('../../workflows/engine.js', () => ({
+  resolveWorkflowRequest: vi.fn(async () => null),
+  runWorkflowTurn: vi.fn(),
+}));
+
+vi.mock('../thread-summarizer.js', () => ({
+  recordThreadActivity: vi.fn(),
+}));
+
+// Mock usage quotas
+vi.mock('../../agent/quotas.js', () => ({
+  checkQuota: vi.fn(async () => ({ allowed: true })),
+  recordQuotaUsage: vi.fn(async () => {}),
+  formatQuotaExceededMessage: vi.fn(() => "You've reached the limit of 30 requests per hour."),
+}));
+
 // Mock the logger
 vi.mock('../../utils/logger.js', () => ({
   logger: {
@@ -384,4 +408,60 @@ describe('App Mention Handler', () => {
       );
     });
   });
+
+  describe('Usage quotas', () => {
+    it('should reply ephemerally and skip the agent when a quota is reached', async () => {
+      const { checkQuota } = await import('../../agent/quotas.js');
+      vi.mocked(checkQuota).mockResolvedValueOnce({
+        allowed: false,
+        scope: 'user',
+        metric: 'requests',
+        limit: 30,
+        used: 30,
+        windowSeconds: 3600,
+        retryAfterMs: 600_000,
+      });
+      const args = createAppMentionEvent();
+      const client = args.client as unknown as {
+        chat: Record<string, ReturnType<typeof vi.fn>>;
+        reactions: { add: ReturnType<typeof vi.fn> };
+      };
+      client.chat.postEphemeral = vi.fn().mockResolvedValue({ ok: true });
+
+      await handleAppMention(args);
+
+      expect(checkQuota).toHaveBeenCalledWith({ userId: 'U123456', channelId: 'C123456', teamId: 'T123456' });
+      expect(client.chat.postEphemeral).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'C123456',
+          user: 'U123456',
+          text: "You've reached the limit of 30 requests per hour.",
+        })
+      );
+      expect(runOrionAgent).not.toHaveBeenCalled();
+      expect(client.reactions.add).not.toHaveBeenCalled();
+    });
+
+    it('should record token and tool usage after the run', async () => {
+      const { recordQuotaUsage } = await import('../../agent/quotas.js');
+      await handleAppMention(createAppMentionEvent());
+
+      expect(recordQuotaUsage).toHaveBeenCalledWith(
+        { userId: 'U123456', channelId: 'C123456', teamId: 'T123456' },
+        { inputTokens: 100, outputTokens: 50, toolCalls: undefined },
+        { traceId: 'mock-trace-id' }
+      );
+    });
+
+    it('should record thread activity for the idle thread summarizer', async () => {
+      const { recordThreadActivity } = await import('../thread-summarizer.js');
+      await handleAppMention(createAppMentionEvent());
+
+      expect(recordThreadActivity).toHaveBeenCalledWith({
+        channelId: 'C123456',
+        threadTs: '1234567890.123456',
+        userId: 'U123456',
+      });
+    });
+  });
 });
@@ -21,16 +21,26 @@ import {
   setTraceIdForMessage,
   type TraceWrapper,
 } from '../../observability/tracing.js';
+import { toLangfuseCostDetails } from '../../observability/costs.js';
 import { logger } from '../../utils/logger.js';
 import { formatSlackMrkdwn } from '../../utils/formatting.js';
 import { fetchThreadHistory } from '../thread-context.js';
+import { recordThreadActivity } from '../thread-summarizer.js';
 import { feedbackBlock } from '../feedback-block.js';
 import { createSourcesContextBlock, type SourceCitation } from '../sources-block.js';
-import { runOrionAgent, type AgentResult } from '../../agent/orion.js';
-import { loadAgentPrompt } from '../../agent/loader.js';
+import { createSlackToolApprovalRequester } from '../tool-approval.js';
+import { ATTACHMENT_ONLY_MESSAGE, loadSlackAttachments, type SlackFile } from '../attachments.js';
+import { runOrionAgent, type AgentOptions, type AgentResult } from '../../agent/orion.js';
+import { resolveWorkflowRequest, runWorkflowTurn } from '../../workflows/engine.js';
+import { checkQuota, formatQuotaExceededMessage, recordQuotaUsage } from '../../agent/quotas.js';
+import { routeAgent, DEFAULT_AGENT_NAME, type AgentRoute } from '../../agent/router.js';
+import { DEFAULT_RESPONSE_MODE } from '../../agent/response-mode.js';
 import { config } from '../../config/environment.js';
 import { getChannelName, getUserDisplayName } from '../identity.js';
 
+/** Minimum interval between partial "thinking" message edits in passthrough mode */
+const PASSTHROUGH_UPDATE_INTERVAL_MS = 1000;
+
 /**
  * Extract message text by stripping the leading bot mention.
  *
@@ -64,8 +74,12 @@ export async function handleAppMention({
 }: AllMiddlewareArgs & SlackEventMiddlewareArgs<'app_mention'>): Promise<void> {
   const mentionEvent = event;
 
+  // Files shared with the mention; the event carries full file objects despite the narrower type
+  const files = (mentionEvent.files ?? []) as SlackFile[];
+
   // Extract message text (strip leading bot mention)
-  const messageText = extractMessageText(mentionEvent.text);
+  const messageText =
+    extractMessageText(mentionEvent.text) || (files.length > 0 ? ATTACHMENT_ONLY_MESSAGE : '');
   const userId = mentionEvent.user;
   const channelId = mentionEvent.channel;
 
@@ -74,6 +88,23 @@ export async function handleAppMention({
   const threadTs = mentionEvent.thread_ts ?? mentionEvent.ts;
   const messageReceiptTime = Date.now();
 
+  // Usage quotas: refuse before doing any work (no reaction, no thinking message)
+  const quotaSubject = { userId, channelId, teamId: context.teamId };
+  const quota = await checkQuota(quotaSubject);
+  if (!quota.allowed) {
+    if (userId) {
+      await client.chat
+        .postEphemeral({
+          channel: channelId,
+          user: userId,
+          thread_ts: mentionEvent.thread_ts,
+          text: formatQuotaExceededMessage(quota),
+        })
+        .catch(() => {});
+    }
+    return;
+  }
+
   // Add 👀 reaction to acknowledge message receipt (AC#2)
   try {
     await client.reactions.add({
@@ -167,19 +198,32 @@ export async function handleAppMention({
           traceId: trace.id,
         });
 
-        // Load system prompt from .orion/agents/orion.md
-        let systemPrompt: string;
+        const attachments =
+          files.length > 0
+            ? await loadSlackAttachments(files, { token: config.slackBotToken, traceId: trace.id })
+            : undefined;
+
+        // Route to an agent (.orion/agents/*.md) and load its system prompt
+        let agentRoute: AgentRoute;
         try {
-          systemPrompt = await loadAgentPrompt('orion');
+          agentRoute = await routeAgent({ messageText, channelId, traceId: trace.id });
         } catch (error) {
           logger.warn({
             event: 'agent_prompt_fallback',
             error: error instanceof Error ? error.message : String(error),
             traceId: trace.id,
           });
-          systemPrompt =
-            'You are Orion, a helpful AI assistant. Use Slack mrkdwn formatting: *bold* for emphasis, _italic_ for secondary emphasis. Never use blockquotes.';
+          agentRoute = {
+            agentName: DEFAULT_AGENT_NAME,
+            reason: 'default',
+            systemPrompt:
+              'You are Orion, a helpful AI assistant. Use Slack mrkdwn formatting: *bold* for emphasis, _italic_ for secondary emphasis. Never use blockquotes.',
+            responseMode: DEFAULT_RESPONSE_MODE,
+            messageText,
+          };
         }
+        const agentMessage = agentRoute.messageText;
+        const agentModel = agentRoute.model ?? config.anthropicModel;
 
         // Update trace with context
         trace.update({
@@ -187,21 +231,50 @@ export async function handleAppMention({
             text: messageText,
             historyLength: anthropicHistory.length,
           },
+          metadata: {
+            agentName: agentRoute.agentName,
+            routeReason: agentRoute.reason,
+            model: agentModel,
+            responseMode: agentRoute.responseMode,
+          },
         });
 
         // Run Orion agent with full tool calling capability (AC#5)
         agentSpan = trace.startSpan('agent.orion', {
-          input: { messageText, historyLength: anthropicHistory.length },
+          input: { messageText: agentMessage, historyLength: anthropicHistory.length },
+          metadata: { agentName: agentRoute.agentName, routeReason: agentRoute.reason },
         });
 
-        const agentResponse = runOrionAgent(messageText, {
+        // Passthrough mode: a corrected retry replaces the text shown so far
+        let replacementResponse: string | undefined;
+
+        const agentOptions: AgentOptions = {
           context: {
             threadHistory: anthropicHistory,
             userId: userId ?? 'unknown',
             channelId,
             traceId: trace.id,
           },
-          systemPrompt,
+          systemPrompt: agentRoute.systemPrompt,
+          model: agentRoute.model,
+          pinModel: agentRoute.pinModel,
+          allowedTools: agentRoute.tools,
+          thinkingBudget: agentRoute.thinkingBudget,
+          attachments,
+          agentName: agentRoute.agentName,
+          journal: {
+            delivery: { channelId, threadTs, statusMessageTs: thinkingMessageTs },
+          },
+          requestApproval: createSlackToolApprovalRequester({
+            client,
+            channelId,
+            threadTs,
+            userId: userId ?? 'unknown',
+          }),
+          responseMode: agentRoute.responseMode,
+          replaceResponse: (text) => {
+            replacementResponse = text;
+          },
           trace: trace._span,
           setStatus: ({ toolName }) =>
             void logger.debug({
@@ -209,12 +282,25 @@ export async function handleAppMention({
               toolName,
               traceId: trace.id,
             }),
+        };
+
+        // Step-file workflows (`run <workflow>`, or a reply in a thread with a waiting run)
+        const workflowRequest = await resolveWorkflowRequest({
+          messageText: agentMessage,
+          channelId,
+          threadTs,
+          userId: userId ?? 'unknown',
         });
+        const agentResponse = workflowRequest
+          ? runWorkflowTurn(workflowRequest, agentOptions)
+          : runOrionAgent(agentMessage, agentOptions);
 
         // Collect full response from agent
         let fullResponse = '';
         let agentResult: AgentResult | undefined;
 
+        let lastProgressUpdate = Date.now();
+
         while (true) {
           const next = await agentResponse.next();
           if (next.done) {
@@ -222,6 +308,34 @@ export async function handleAppMention({
             break;
           }
           fullResponse += next.value;
+
+          // Passthrough: show partial text in the "thinking" message as it arrives
+          if (
+            agentRoute.responseMode === 'passthrough' &&
+            thinkingMessageTs &&
+            Date.now() - lastProgressUpdate >= PASSTHROUGH_UPDATE_INTERVAL_MS
+          ) {
+            lastProgressUpdate = Date.now();
+            await client.chat
+              .update({ channel: channelId, ts: thinkingMessageTs, text: formatSlackMrkdwn(fullResponse) })
+              .catch(() => {});
+          }
+        }
+
+        if (replacementResponse !== undefined) {
+          fullResponse = replacementResponse;
+        }
+
+        if (agentResult) {
+          void recordQuotaUsage(
+            quotaSubject,
+            {
+              inputTokens: agentResult.inputTokens,
+              outputTokens: agentResult.outputTokens,
+              toolCalls: agentResult.toolCount,
+            },
+            { traceId: trace.id }
+          );
         }
 
         // Format for Slack
@@ -241,15 +355,18 @@ export async function handleAppMention({
 
         // Log generation for Langfuse
         const generation = trace.startGeneration('orion-response', {
-          model: config.anthropicModel,
-          input: { message: messageText, historyLength: anthropicHistory.length },
+          model: agentResult?.model ?? agentModel,
+          input: { message: agentMessage, historyLength: anthropicHistory.length },
           output: { response: fullResponse.slice(0, 500) },
           ...(agentResult && {
             usageDetails: {
               input: agentResult.inputTokens,
               output: agentResult.outputTokens,
               total: agentResult.inputTokens + agentResult.outputTokens,
+              cache_creation_input_tokens: agentResult.cacheCreationInputTokens ?? 0,
+              cache_read_input_tokens: agentResult.cacheReadInputTokens ?? 0,
             },
+            ...(agentResult.cost && { costDetails: toLangfuseCostDetails(agentResult.cost) }),
           }),
         });
         generation.end();
@@ -348,6 +465,9 @@ export async function handleAppMention({
           },
         });
 
+        // Summarized into conversation memory once the thread goes idle
+        recordThreadActivity({ channelId, threadTs, userId });
+
         logger.info({
           event: 'app_mention_handled',
           userId,
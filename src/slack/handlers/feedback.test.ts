@@ -8,6 +8,12 @@ vi.mock('../../observability/langfuse.js', () => ({
   logFeedbackScore: (...args: unknown[]) => mockLogFeedbackScore(...args),
 }));
 
+const mockSaveFeedback = vi.fn();
+
+vi.mock('../../memory/feedback.js', () => ({
+  saveFeedback: (...args: unknown[]) => mockSaveFeedback(...args),
+}));
+
 vi.mock('../../observability/tracing.js', () => ({
   getTraceIdFromMessageTs: vi.fn(),
 }));
@@ -39,6 +45,7 @@ describe('handleFeedback', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockLogFeedbackScore.mockResolvedValue({ scored: true, orphan: false, metadata: {} });
+    mockSaveFeedback.mockResolvedValue(undefined);
   });
 
   it('should export handleFeedback function', () => {
@@ -202,5 +209,36 @@ describe('handleFeedback', () => {
 
     expect(mockAck).toHaveBeenCalled();
   });
-});
 
+  it('should save a feedback record for the user', async () => {
+    const { getTraceIdFromMessageTs } = await import('../../observability/tracing.js');
+    vi.mocked(getTraceIdFromMessageTs).mockReturnValue('trace-123');
+
+    await handleFeedback({
+      ack: mockAck,
+      body: createBody('negative', '1234.5678'),
+      client: mockClient,
+    } as unknown as Parameters<typeof handleFeedback>[0]);
+
+    expect(mockSaveFeedback).toHaveBeenCalledWith({
+      userId: 'U123',
+      channelId: 'C456',
+      messageTs: '1234.5678',
+      traceId: 'trace-123',
+      isPositive: false,
+      createdAt: expect.any(String),
+    });
+  });
+
+  it('should still acknowledge the user when saving the record fails', async () => {
+    mockSaveFeedback.mockRejectedValue(new Error('disk full'));
+
+    await handleFeedback({
+      ack: mockAck,
+      body: createBody('positive', '1234.5678'),
+      client: mockClient,
+    } as unknown as Parameters<typeof handleFeedback>[0]);
+
+    expect(mockPostEphemeral).toHaveBeenCalled();
+  });
+});
@@ -2,7 +2,8 @@
  * Feedback Action Handler
  *
  * Handles user feedback button clicks (thumbs up/down) on Orion responses.
- * Logs feedback to Langfuse for quality tracking and analytics.
+ * Logs feedback to Langfuse for quality tracking and analytics, and keeps a
+ * per-user record in memory so it can be exported or erased on request.
  *
  * @see FR48 - User feedback via Slack's native feedback_buttons
  * @see FR49 - Feedback logging to Langfuse
@@ -15,6 +16,7 @@ import type {
   SlackActionMiddlewareArgs,
 } from '@slack/bolt';
 import { logFeedbackScore } from '../../observability/langfuse.js';
+import { saveFeedback } from '../../memory/feedback.js';
 import { getTraceIdFromMessageTs } from '../../observability/tracing.js';
 import { logger } from '../../utils/logger.js';
 
@@ -29,7 +31,8 @@ type FeedbackActionArgs = SlackActionMiddlewareArgs<BlockAction> &
  * 2. Extract feedback value and message context
  * 3. Look up trace ID from cache or message metadata
  * 4. Log score to Langfuse (or orphan event if no trace)
- * 5. Send ephemeral acknowledgment to user
+ * 5. Save the user's feedback record (user-data export/erase)
+ * 6. Send ephemeral acknowledgment to user
  *
  * @see AC#1 - Feedback logged to Langfuse as score
  * @see AC#3 - Positive feedback shows ephemeral acknowledgment
@@ -101,6 +104,24 @@ export async function handleFeedback({
     });
   }
 
+  try {
+    await saveFeedback({
+      userId,
+      channelId,
+      messageTs,
+      traceId,
+      isPositive,
+      createdAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error({
+      event: 'feedback.save_failed',
+      error: error instanceof Error ? error.message : String(error),
+      messageTs,
+      userId,
+    });
+  }
+
   // Send ephemeral acknowledgment to user
   try {
     await client.chat.postEphemeral({
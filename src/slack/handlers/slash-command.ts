@@ -0,0 +1,554 @@
+/**
+ * /orion Slash Command Handler
+ *
+ * One slash command with subcommands, each backed by the same modules the
+ * conversational handlers use:
+ *
+ * - `/orion ask <question>`: run the agent, answer in the channel
+ * - `/orion remember <fact>`: save a note to the user's memory
+ * - `/orion forget <text>`: delete the user's best-matching note
+ * - `/orion prefs [set <key> <value>]`: show or update preferences
+ * - `/orion tools`: list the tools the agent can call
+ * - `/orion status`: version, uptime and MCP server health
+ * - `/orion workflow run <name>`: start a step-file workflow in a new thread
+ * - `/orion data export|erase [@user]`: export or erase what Orion stores about
+ *   a user (admins may name another user; erase needs `confirm`)
+ *
+ * Everything except `ask` and `workflow run` replies ephemerally; exports are
+ * sent to the requester as files in a DM.
+ */
+
+import type { AllMiddlewareArgs, SlackCommandMiddlewareArgs } from '@slack/bolt';
+import { startActiveObservation, type TraceWrapper } from '../../observability/tracing.js';
+import { logger } from '../../utils/logger.js';
+import { formatSlackMrkdwn } from '../../utils/formatting.js';
+import { createSlackToolApprovalRequester } from '../tool-approval.js';
+import { runOrionAgent, type AgentOptions, type AgentResult } from '../../agent/orion.js';
+import { routeAgent } from '../../agent/router.js';
+import { checkQuota, formatQuotaExceededMessage, recordQuotaUsage, type QuotaSubject } from '../../agent/quotas.js';
+import { forgetUserMemory, listUserMemories } from '../../memory/index.js';
+import { loadUserPreference } from '../../memory/preferences.js';
+import { redactSecrets, saveKnowledgeTool, setPreferenceTool } from '../../tools/memory-tools.js';
+import {
+  canManageUserData,
+  eraseUserData,
+  exportUserData,
+  formatUserDataMarkdown,
+} from '../../memory/user-data.js';
+import { parseMcpToolName, toolRegistry, type ToolCallContext } from '../../tools/registry.js';
+import { getMcpServersConfig, isServerAvailable } from '../../tools/mcp/index.js';
+import { listWorkflowIds, loadWorkflow } from '../../workflows/loader.js';
+import { resolveWorkflowRequest, runWorkflowTurn } from '../../workflows/engine.js';
+
+export type OrionSubcommand =
+  | 'help'
+  | 'ask'
+  | 'remember'
+  | 'forget'
+  | 'prefs'
+  | 'tools'
+  | 'status'
+  | 'workflow'
+  | 'data';
+
+const SUBCOMMANDS: readonly OrionSubcommand[] = [
+  'help',
+  'ask',
+  'remember',
+  'forget',
+  'prefs',
+  'tools',
+  'status',
+  'workflow',
+  'data',
+];
+
+/** Notes shown by `/orion remember` with no text */
+const MAX_LISTED_NOTES = 10;
+
+export const ORION_COMMAND_USAGE = [
+  '*Usage:*',
+  '• `/orion ask <question>` - ask Orion; the answer is posted in the channel',
+  '• `/orion remember <fact>` - remember something for you (`/orion remember` lists your notes)',
+  '• `/orion forget <text>` - forget the note that best matches',
+  '• `/orion prefs` - show your preferences; `/orion prefs set <key> <value>` to change one',
+  '• `/orion tools` - list available tools',
+  '• `/orion status` - show Orion and MCP server status',
+  '• `/orion workflow run <name>` - start a workflow in a new thread',
+  '• `/orion data export` - get a copy of everything Orion stores about you',
+  '• `/orion data erase confirm` - delete everything Orion stores about you',
+].join('\n');
+
+const DATA_USAGE =
+  'Usage: `/orion data export [@user]` or `/orion data erase [@user] confirm` (only admins can name another user)';
+
+/**
+ * Split `/orion` command text into a subcommand and its argument.
+ *
+ * Unknown subcommands map to `help`.
+ */
+export function parseOrionCommand(text: string): { subcommand: OrionSubcommand; args: string } {
+  const trimmed = text.trim();
+  const [first = '', ...rest] = trimmed.split(/\s+/);
+  const name = first.toLowerCase() as OrionSubcommand;
+  if (!SUBCOMMANDS.includes(name)) {
+    return { subcommand: 'help', args: trimmed };
+  }
+  return { subcommand: name, args: rest.join(' ') };
+}
+
+/**
+ * Parse a preference value typed in Slack (`true`, `false` and numbers are typed).
+ */
+export function parsePreferenceValue(raw: string): string | number | boolean {
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return Number(raw);
+  return raw;
+}
+
+type CommandArgs = AllMiddlewareArgs & SlackCommandMiddlewareArgs;
+
+/**
+ * Tool call context for memory writes made from the slash command, so they go
+ * through the same validation and redaction as the agent's memory tools.
+ */
+function memoryToolContext(command: CommandArgs['command']): ToolCallContext {
+  return { userId: command.user_id, channelId: command.channel_id, traceId: command.trigger_id };
+}
+
+/**
+ * Handles the `/orion` slash command.
+ *
+ * Acknowledges immediately (Slack requires it within 3 seconds) and replies
+ * through `respond` / the Web API once the subcommand finishes.
+ */
+export async function handleOrionCommand(args: CommandArgs): Promise<void> {
+  const { ack, command, respond } = args;
+  await ack();
+
+  const { subcommand, args: text } = parseOrionCommand(command.text ?? '');
+
+  logger.info({
+    event: 'slash_command_received',
+    subcommand,
+    userId: command.user_id,
+    channelId: command.channel_id,
+  });
+
+  try {
+    switch (subcommand) {
+      case 'ask':
+        return await handleAsk(args, text);
+      case 'remember':
+        return await handleRemember(args, text);
+      case 'forget':
+        return await handleForget(args, text);
+      case 'prefs':
+        return await handlePrefs(args, text);
+      case 'tools':
+        return await respond({ response_type: 'ephemeral', text: formatToolList() });
+      case 'status':
+        return await respond({ response_type: 'ephemeral', text: formatStatus() });
+      case 'workflow':
+        return await handleWorkflow(args, text);
+      case 'data':
+        return await handleData(args, text);
+      default:
+        return await respond({ response_type: 'ephemeral', text: ORION_COMMAND_USAGE });
+    }
+  } catch (error) {
+    logger.error({
+      event: 'slash_command_error',
+      subcommand,
+      userId: command.user_id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await respond({
+      response_type: 'ephemeral',
+      text: 'Sorry, I encountered an error processing your command.',
+    }).catch(() => {});
+  }
+}
+
+async function handleAsk({ command, respond, client }: CommandArgs, question: string): Promise<void> {
+  if (!question) {
+    await respond({ response_type: 'ephemeral', text: 'Usage: `/orion ask <question>`' });
+    return;
+  }
+
+  const quotaSubject = getQuotaSubject(command);
+  if (!(await checkQuotaOrRespond(quotaSubject, respond))) return;
+
+  await startActiveObservation(
+    {
+      name: `slash-command ask #${command.channel_name} @${command.user_name}`,
+      userId: command.user_id,
+      input: { text: question },
+      metadata: {
+        teamId: command.team_id,
+        channelId: command.channel_id,
+        eventType: 'slash_command',
+      },
+    },
+    async (trace: TraceWrapper) => {
+      const route = await routeAgent({ messageText: question, channelId: command.channel_id, traceId: trace.id });
+      const { text, result } = await collectAgentResponse((replaceResponse) =>
+        runOrionAgent(route.messageText, {
+          ...baseAgentOptions(command, client, trace.id),
+          systemPrompt: route.systemPrompt,
+          model: route.model,
+          pinModel: route.pinModel,
+          allowedTools: route.tools,
+          thinkingBudget: route.thinkingBudget,
+          agentName: route.agentName,
+          responseMode: route.responseMode,
+          replaceResponse,
+          trace: trace._span,
+        })
+      );
+
+      await respond({
+        response_type: 'in_channel',
+        text: `<@${command.user_id}> asked: _${question}_\n\n${formatSlackMrkdwn(text)}`,
+      });
+      recordUsage(quotaSubject, result, trace.id);
+
+      trace.update({
+        output: { response: text.slice(0, 500), inputTokens: result.inputTokens, outputTokens: result.outputTokens },
+      });
+      logger.info({
+        event: 'slash_command_ask_handled',
+        userId: command.user_id,
+        responseLength: text.length,
+        traceId: trace.id,
+      });
+      return text;
+    }
+  );
+}
+
+async function handleRemember({ command, respond }: CommandArgs, fact: string): Promise<void> {
+  if (!fact) {
+    const notes = await listUserMemories(command.user_id);
+    const text =
+      notes.length === 0
+        ? "You haven't asked me to remember anything yet. Try `/orion remember <fact>`."
+        : ['*Things you asked me to remember:*', ...notes.slice(0, MAX_LISTED_NOTES).map((n) => `• ${n.content}`)].join(
+            '\n'
+          );
+    await respond({ response_type: 'ephemeral', text });
+    return;
+  }
+
+  const saved = await saveKnowledgeTool({ content: fact }, memoryToolContext(command));
+  if (!saved.success) {
+    await respond({ response_type: 'ephemeral', text: `I couldn't save that: ${saved.error.message}` });
+    return;
+  }
+  const note = saved.data.redactions > 0 ? ' (secrets were redacted before saving)' : '';
+  await respond({ response_type: 'ephemeral', text: `Got it, I'll remember: _${redactSecrets(fact).text}_${note}` });
+}
+
+async function handleForget({ command, respond }: CommandArgs, query: string): Promise<void> {
+  if (!query) {
+    await respond({ response_type: 'ephemeral', text: 'Usage: `/orion forget <text>`' });
+    return;
+  }
+
+  const forgotten = await forgetUserMemory(command.user_id, query);
+  await respond({
+    response_type: 'ephemeral',
+    text: forgotten
+      ? `Forgotten: _${forgotten.content}_`
+      : `I couldn't find anything you asked me to remember matching _${query}_.`,
+  });
+}
+
+async function handlePrefs({ command, respond }: CommandArgs, text: string): Promise<void> {
+  const setMatch = text.match(/^set\s+([a-zA-Z0-9_.-]+)\s+(.+)$/i);
+  if (setMatch) {
+    const [, key, raw] = setMatch;
+    const saved = await setPreferenceTool(
+      { key, value: parsePreferenceValue(raw.trim()) },
+      memoryToolContext(command)
+    );
+    if (!saved.success) {
+      await respond({ response_type: 'ephemeral', text: `I couldn't save that preference: ${saved.error.message}` });
+      return;
+    }
+    await respond({ response_type: 'ephemeral', text: `Saved preference \`${key}\` = \`${raw.trim()}\`` });
+    return;
+  }
+  if (text) {
+    await respond({ response_type: 'ephemeral', text: 'Usage: `/orion prefs` or `/orion prefs set <key> <value>`' });
+    return;
+  }
+
+  const prefs = await loadUserPreference(command.user_id);
+  const entries = Object.entries(prefs?.preferences ?? {});
+  await respond({
+    response_type: 'ephemeral',
+    text:
+      entries.length === 0
+        ? 'You have no preferences saved. Use `/orion prefs set <key> <value>` to add one.'
+        : ['*Your preferences:*', ...entries.map(([k, v]) => `• \`${k}\`: ${String(v)}`)].join('\n'),
+  });
+}
+
+async function handleWorkflow({ command, respond, client }: CommandArgs, text: string): Promise<void> {
+  const runMatch = text.match(/^run\s+([a-z0-9][a-z0-9_-]*)$/i);
+  if (!runMatch) {
+    await respond({ response_type: 'ephemeral', text: 'Usage: `/orion workflow run <name>`' });
+    return;
+  }
+
+  const name = runMatch[1].toLowerCase();
+  const workflow = await loadWorkflow(name);
+  if (!workflow) {
+    const available = await listWorkflowIds();
+    await respond({
+      response_type: 'ephemeral',
+      text: `Unknown workflow \`${name}\`. Available: ${
+        available.length > 0 ? available.map((id) => `\`${id}\``).join(', ') : '_none_'
+      }`,
+    });
+    return;
+  }
+
+  const quotaSubject = getQuotaSubject(command);
+  if (!(await checkQuotaOrRespond(quotaSubject, respond))) return;
+
+  // The workflow runs in a thread under a new parent message so replies can continue it
+  const parent = await client.chat.postMessage({
+    channel: command.channel_id,
+    text: `<@${command.user_id}> started the *${workflow.name}* workflow.`,
+  });
+  const threadTs = parent.ts;
+  if (!threadTs) throw new Error('workflow parent message has no ts');
+
+  const request = await resolveWorkflowRequest({
+    messageText: `run ${workflow.id}`,
+    channelId: command.channel_id,
+    threadTs,
+    userId: command.user_id,
+  });
+  if (!request) throw new Error(`workflow ${workflow.id} could not be started`);
+
+  await startActiveObservation(
+    {
+      name: `slash-command workflow ${workflow.id} @${command.user_name}`,
+      userId: command.user_id,
+      sessionId: threadTs,
+      input: { workflowId: workflow.id },
+      metadata: { teamId: command.team_id, channelId: command.channel_id, eventType: 'slash_command' },
+    },
+    async (trace: TraceWrapper) => {
+      const route = await routeAgent({ messageText: request.userMessage, channelId: command.channel_id, traceId: trace.id });
+      const { text: reply, result } = await collectAgentResponse((replaceResponse) =>
+        runWorkflowTurn(request, {
+          ...baseAgentOptions(command, client, trace.id, threadTs),
+          systemPrompt: route.systemPrompt,
+          model: route.model,
+          pinModel: route.pinModel,
+          allowedTools: route.tools,
+          thinkingBudget: route.thinkingBudget,
+          agentName: route.agentName,
+          responseMode: route.responseMode,
+          replaceResponse,
+          trace: trace._span,
+        })
+      );
+
+      await client.chat.postMessage({
+        channel: command.channel_id,
+        thread_ts: threadTs,
+        text: formatSlackMrkdwn(reply || `The *${workflow.name}* workflow finished without output.`),
+      });
+      recordUsage(quotaSubject, result, trace.id);
+
+      logger.info({
+        event: 'slash_command_workflow_handled',
+        workflowId: workflow.id,
+        userId: command.user_id,
+        traceId: trace.id,
+      });
+      return reply;
+    }
+  );
+}
+
+async function handleData({ command, respond, client }: CommandArgs, text: string): Promise<void> {
+  const [action = '', ...rest] = text.trim().toLowerCase().split(/\s+/);
+  const confirmed = rest[rest.length - 1] === 'confirm';
+  const targetArgs = confirmed ? rest.slice(0, -1) : rest;
+  const targetUserId = targetArgs.length === 0 ? command.user_id : parseUserMention(targetArgs.join(' '));
+
+  if ((action !== 'export' && action !== 'erase') || !targetUserId) {
+    await respond({ response_type: 'ephemeral', text: DATA_USAGE });
+    return;
+  }
+  if (!canManageUserData(command.user_id, targetUserId)) {
+    await respond({ response_type: 'ephemeral', text: "Only admins can manage another user's data." });
+    return;
+  }
+
+  const subject = targetUserId === command.user_id ? 'you' : `<@${targetUserId}>`;
+
+  if (action === 'export') {
+    const data = await exportUserData(targetUserId);
+    const dm = await client.conversations.open({ users: command.user_id });
+    const channelId = dm.channel?.id;
+    if (!channelId) throw new Error('could not open a DM for the data export');
+
+    await client.files.uploadV2({
+      channel_id: channelId,
+      initial_comment: `Here is everything Orion stores about ${subject}.`,
+      file_uploads: [
+        { filename: `orion-data-${targetUserId}.json`, content: JSON.stringify(data, null, 2) },
+        { filename: `orion-data-${targetUserId}.md`, content: formatUserDataMarkdown(data) },
+      ],
+    });
+    await respond({ response_type: 'ephemeral', text: 'I sent the data export to you in a DM.' });
+    return;
+  }
+
+  if (!confirmed) {
+    const confirmCommand =
+      targetUserId === command.user_id ? '/orion data erase confirm' : `/orion data erase <@${targetUserId}> confirm`;
+    await respond({
+      response_type: 'ephemeral',
+      text: `This permanently deletes the preferences, notes and feedback Orion stores about ${subject}, and removes ${subject} from saved conversation summaries. Run \`${confirmCommand}\` to continue.`,
+    });
+    return;
+  }
+
+  const erasure = await eraseUserData(targetUserId, command.user_id);
+  await respond({
+    response_type: 'ephemeral',
+    text: [
+      `Erased the data Orion stores about ${subject}:`,
+      `• preferences: ${erasure.preferences ? 'deleted' : 'none saved'}`,
+      `• notes: ${erasure.notes}`,
+      `• feedback: ${erasure.feedback}`,
+      `• connected MCP servers: ${erasure.mcpConnections}`,
+      `• days of per-user cost records: ${erasure.costDays}`,
+      `• conversation summaries: ${erasure.conversationsDeleted} deleted, ${erasure.conversationsRedacted} redacted`,
+      ...(erasure.feedback > 0 ? ['_Feedback scores already sent to Langfuse are not affected._'] : []),
+    ].join('\n'),
+  });
+}
+
+/**
+ * Parse a Slack user reference (`<@U123>`, `<@U123|name>` or a bare `U123` ID).
+ */
+function parseUserMention(text: string): string | null {
+  const match = text.match(/^<@([UW][A-Z0-9]+)(?:\|[^>]*)?>$/i) ?? text.match(/^([UW][A-Z0-9]+)$/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Options shared by `ask` and `workflow run`: no thread history, approvals
+ * posted to the channel (or the workflow thread).
+ */
+function baseAgentOptions(
+  command: CommandArgs['command'],
+  client: CommandArgs['client'],
+  traceId: string | undefined,
+  threadTs?: string
+): Omit<AgentOptions, 'systemPrompt'> {
+  return {
+    context: {
+      threadHistory: [],
+      userId: command.user_id,
+      channelId: command.channel_id,
+      traceId,
+    },
+    requestApproval: createSlackToolApprovalRequester({
+      client,
+      channelId: command.channel_id,
+      threadTs,
+      userId: command.user_id,
+    }),
+  };
+}
+
+/**
+ * Drain an agent (or workflow) generator into the final reply text.
+ *
+ * Honors passthrough-mode replacements like the message handlers do.
+ */
+async function collectAgentResponse(
+  start: (replaceResponse: (text: string) => void) => AsyncGenerator<string, AgentResult, undefined>
+): Promise<{ text: string; result: AgentResult }> {
+  let replacement: string | undefined;
+  const agent = start((text) => {
+    replacement = text;
+  });
+
+  let text = '';
+  for (;;) {
+    const next = await agent.next();
+    if (next.done) {
+      return { text: replacement ?? text, result: next.value };
+    }
+    text += next.value;
+  }
+}
+
+function getQuotaSubject(command: CommandArgs['command']): QuotaSubject {
+  return { userId: command.user_id, channelId: command.channel_id, teamId: command.team_id };
+}
+
+async function checkQuotaOrRespond(subject: QuotaSubject, respond: CommandArgs['respond']): Promise<boolean> {
+  const quota = await checkQuota(subject);
+  if (!quota.allowed) {
+    await respond({ response_type: 'ephemeral', text: formatQuotaExceededMessage(quota) });
+    return false;
+  }
+  return true;
+}
+
+function recordUsage(subject: QuotaSubject, result: AgentResult, traceId: string | undefined): void {
+  void recordQuotaUsage(
+    subject,
+    { inputTokens: result.inputTokens, outputTokens: result.outputTokens, toolCalls: result.toolCount },
+    { traceId }
+  );
+}
+
+function formatToolList(): string {
+  const tools = toolRegistry.getToolsForClaude();
+  if (tools.length === 0) {
+    return 'No tools are available yet. MCP servers are connected on first use.';
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const tool of tools) {
+    const group = parseMcpToolName(tool.name)?.serverName ?? 'built-in';
+    const description = tool.description?.split('\n')[0];
+    const line = description ? `• \`${tool.name}\` - ${description}` : `• \`${tool.name}\``;
+    groups.set(group, [...(groups.get(group) ?? []), line]);
+  }
+
+  return [...groups.entries()].map(([group, lines]) => [`*${group}*`, ...lines].join('\n')).join('\n\n');
+}
+
+function formatStatus(): string {
+  const uptimeMinutes = Math.floor(process.uptime() / 60);
+  const uptime =
+    uptimeMinutes >= 60 ? `${Math.floor(uptimeMinutes / 60)}h ${uptimeMinutes % 60}m` : `${uptimeMinutes}m`;
+  const tools = toolRegistry.getToolsForClaude();
+  const servers = Object.keys(getMcpServersConfig()).map((name) => {
+    const toolCount = tools.filter((t) => parseMcpToolName(t.name)?.serverName === name).length;
+    const state = isServerAvailable(name) ? ':large_green_circle: available' : ':red_circle: unavailable';
+    return `• \`${name}\`: ${state}, ${toolCount} tools`;
+  });
+
+  return [
+    `*Orion* v${process.env.npm_package_version || '0.1.0'}, up ${uptime}`,
+    `*Tools:* ${tools.length}`,
+    '*MCP servers:*',
+    ...(servers.length > 0 ? servers : ['• _none configured_']),
+  ].join('\n');
+}
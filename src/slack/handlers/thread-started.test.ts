@@ -32,6 +32,12 @@ vi.mock('../../utils/logger.js', () => ({
   },
 }));
 
+// MCP prompt templates (none by default)
+vi.mock('../../tools/mcp/prompts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../tools/mcp/prompts.js')>()),
+  listMcpPrompts: vi.fn(async () => []),
+}));
+
 describe('Thread Started Handler', () => {
   let handleThreadStarted: typeof import('./thread-started.js').handleThreadStarted;
   let mockSay: ReturnType<typeof vi.fn>;
@@ -39,6 +45,7 @@ describe('Thread Started Handler', () => {
   let mockSaveThreadContext: ReturnType<typeof vi.fn>;
   let startActiveObservation: ReturnType<typeof vi.fn>;
   let logger: { info: ReturnType<typeof vi.fn> };
+  let listMcpPrompts: ReturnType<typeof vi.fn>;
 
   beforeEach(async () => {
     vi.resetModules();
@@ -52,6 +59,9 @@ describe('Thread Started Handler', () => {
       info: ReturnType<typeof vi.fn>;
     };
 
+    const promptsModule = await import('../../tools/mcp/prompts.js');
+    listMcpPrompts = promptsModule.listMcpPrompts as ReturnType<typeof vi.fn>;
+
     const handlerModule = await import('./thread-started.js');
     handleThreadStarted = handlerModule.handleThreadStarted;
 
@@ -132,6 +142,40 @@ describe('Thread Started Handler', () => {
     );
   });
 
+  it('should lead suggested prompts with MCP prompt templates', async () => {
+    listMcpPrompts.mockResolvedValueOnce([
+      { serverName: 'ops', prompt: { name: 'weekly-report', title: 'Weekly ops report' } },
+      {
+        serverName: 'ops',
+        prompt: { name: 'triage', arguments: [{ name: 'service', required: true }] },
+      },
+      { serverName: 'docs', prompt: { name: 'onboarding' } },
+    ]);
+
+    await handleThreadStarted(createThreadStartedEvent());
+
+    const { prompts } = mockSetSuggestedPrompts.mock.calls[0][0];
+    expect(prompts).toHaveLength(4);
+    expect(prompts.slice(0, 2)).toEqual([
+      { title: 'Weekly ops report', message: 'prompt ops/weekly-report' },
+      { title: 'onboarding', message: 'prompt docs/onboarding' },
+    ]);
+    expect(prompts[2].title).toBe('Research a topic');
+  });
+
+  it('should fall back to the default prompts when listing MCP prompts fails', async () => {
+    listMcpPrompts.mockRejectedValueOnce(new Error('boom'));
+
+    await handleThreadStarted(createThreadStartedEvent());
+
+    const { prompts } = mockSetSuggestedPrompts.mock.calls[0][0];
+    expect(prompts.map((p: { title: string }) => p.title)).toEqual([
+      'Research a topic',
+      'Summarize a thread',
+      'Answer a question',
+    ]);
+  });
+
   it('should save thread context', async () => {
     const event = createThreadStartedEvent();
     await handleThreadStarted(event);
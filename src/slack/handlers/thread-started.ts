@@ -12,13 +12,36 @@
 import type { AssistantThreadStartedMiddleware } from '@slack/bolt';
 import { startActiveObservation } from '../../observability/tracing.js';
 import { logger } from '../../utils/logger.js';
+import { withTimeout } from '../../utils/errors.js';
+import { listMcpPrompts, toSuggestedPrompts } from '../../tools/mcp/prompts.js';
+
+/** Slack shows at most four suggested prompts */
+const MAX_SUGGESTED_PROMPTS = 4;
+
+/** Don't hold up the greeting for slow MCP servers */
+const MCP_PROMPTS_TIMEOUT_MS = 2000;
+
+const DEFAULT_SUGGESTED_PROMPTS = [
+  {
+    title: 'Research a topic',
+    message: 'Research the latest developments in...',
+  },
+  {
+    title: 'Summarize a thread',
+    message: 'Summarize the conversation in #channel',
+  },
+  {
+    title: 'Answer a question',
+    message: 'What is our policy on...',
+  },
+];
 
 /**
  * Handle assistant_thread_started event.
  * Called when a user opens a new thread with Orion.
  *
  * - Sends greeting message
- * - Sets suggested prompts for user guidance
+ * - Sets suggested prompts for user guidance, led by MCP server prompt templates
  * - Saves initial thread context
  * - Wraps all processing in Langfuse trace
  */
@@ -57,29 +80,19 @@ export const handleThreadStarted: AssistantThreadStartedMiddleware = async ({
       );
 
       // Set suggested prompts to help users discover capabilities
+      const mcpPrompts = toSuggestedPrompts(
+        await withTimeout(listMcpPrompts(trace.id), MCP_PROMPTS_TIMEOUT_MS).catch(() => [])
+      );
       await setSuggestedPrompts({
         title: 'Try asking me to:',
-        prompts: [
-          {
-            title: 'Research a topic',
-            message: 'Research the latest developments in...',
-          },
-          {
-            title: 'Summarize a thread',
-            message: 'Summarize the conversation in #channel',
-          },
-          {
-            title: 'Answer a question',
-            message: 'What is our policy on...',
-          },
-        ],
+        prompts: [...mcpPrompts, ...DEFAULT_SUGGESTED_PROMPTS].slice(0, MAX_SUGGESTED_PROMPTS),
       });
 
       // Save initial thread context
       await saveThreadContext();
 
       trace.update({
-        output: { greeting: 'sent', suggestedPrompts: 'set' },
+        output: { greeting: 'sent', suggestedPrompts: 'set', mcpPromptCount: mcpPrompts.length },
       });
 
       logger.info({
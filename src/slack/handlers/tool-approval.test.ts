@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({ approvals: { approvers: ['U_ADMIN'] } })),
+}));
+
+import { handleToolApproval } from './tool-approval.js';
+import { clearPendingApprovals, createPendingApproval } from '../../tools/approvals.js';
+import { TOOL_APPROVE_ACTION_ID, TOOL_DENY_ACTION_ID } from '../approval-block.js';
+
+describe('handleToolApproval', () => {
+  const mockAck = vi.fn().mockResolvedValue(undefined);
+  const mockPostEphemeral = vi.fn().mockResolvedValue({});
+  const mockClient = { chat: { postEphemeral: mockPostEphemeral } };
+
+  const click = (actionId: string, value: string, userId = 'U123') =>
+    handleToolApproval({
+      ack: mockAck,
+      body: {
+        type: 'block_actions' as const,
+        user: { id: userId },
+        channel: { id: 'C456' },
+        actions: [{ action_id: actionId, value }],
+      },
+      client: mockClient,
+    } as unknown as Parameters<typeof handleToolApproval>[0]);
+
+  const pendingApproval = () =>
+    createPendingApproval({
+      request: { toolName: 'jira__delete_issue', toolUseId: 'toolu_1', input: {} },
+      requesterId: 'U123',
+      timeoutMs: 60_000,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    clearPendingApprovals();
+  });
+
+  it('approves when the requester clicks Approve', async () => {
+    const { id, decision } = pendingApproval();
+
+    await click(TOOL_APPROVE_ACTION_ID, id);
+
+    expect(mockAck).toHaveBeenCalled();
+    await expect(decision).resolves.toEqual({ outcome: 'approved', decidedBy: 'U123' });
+    expect(mockPostEphemeral).not.toHaveBeenCalled();
+  });
+
+  it('denies when a configured approver clicks Deny', async () => {
+    const { id, decision } = pendingApproval();
+
+    await click(TOOL_DENY_ACTION_ID, id, 'U_ADMIN');
+
+    await expect(decision).resolves.toEqual({ outcome: 'denied', decidedBy: 'U_ADMIN' });
+  });
+
+  it('ignores clicks from other users', async () => {
+    const { id } = pendingApproval();
+
+    await click(TOOL_APPROVE_ACTION_ID, id, 'U_OTHER');
+
+    expect(mockPostEphemeral).toHaveBeenCalledWith(
+      expect.objectContaining({
+        user: 'U_OTHER',
+        text: expect.stringContaining('Only <@U123>'),
+      })
+    );
+  });
+
+  it('tells the user when the request has expired', async () => {
+    await click(TOOL_APPROVE_ACTION_ID, 'expired-id');
+
+    expect(mockPostEphemeral).toHaveBeenCalledWith(
+      expect.objectContaining({ text: expect.stringContaining('expired') })
+    );
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tool Approval Action Handler
+ *
+ * Handles Approve/Deny button clicks on tool approval requests
+ * (see src/slack/approval-block.ts) and resolves the waiting tool call.
+ */
+
+import type {
+  BlockAction,
+  AllMiddlewareArgs,
+  SlackActionMiddlewareArgs,
+} from '@slack/bolt';
+import { canDecideApproval } from '../../tools/approval-policy.js';
+import { getPendingApproval, resolvePendingApproval } from '../../tools/approvals.js';
+import { logger } from '../../utils/logger.js';
+import { TOOL_APPROVE_ACTION_ID } from '../approval-block.js';
+
+type ToolApprovalActionArgs = SlackActionMiddlewareArgs<BlockAction> &
+  AllMiddlewareArgs;
+
+/**
+ * Handle Approve/Deny clicks.
+ *
+ * Flow:
+ * 1. Acknowledge action immediately (Slack 3s timeout)
+ * 2. Look up the pending approval by button value
+ * 3. Reject clicks from users who may not decide it (ephemeral notice)
+ * 4. Resolve the approval; the requester updates the message with the outcome
+ */
+export async function handleToolApproval({
+  ack,
+  body,
+  client,
+}: ToolApprovalActionArgs): Promise<void> {
+  await ack();
+
+  const action = body.actions[0];
+  if (!action || !('value' in action) || !action.value) {
+    logger.warn({ event: 'tool_approval.invalid_action', body: JSON.stringify(body) });
+    return;
+  }
+
+  const approvalId = action.value;
+  const channelId = body.channel?.id ?? '';
+  const userId = body.user.id;
+  const approved = action.action_id === TOOL_APPROVE_ACTION_ID;
+
+  const notify = async (text: string): Promise<void> => {
+    try {
+      await client.chat.postEphemeral({ channel: channelId, user: userId, text });
+    } catch (error) {
+      logger.error({
+        event: 'tool_approval.ephemeral_failed',
+        error: error instanceof Error ? error.message : String(error),
+        userId,
+        channelId,
+      });
+    }
+  };
+
+  const pending = getPendingApproval(approvalId);
+  if (!pending) {
+    logger.warn({ event: 'tool_approval.unknown', approvalId, userId, channelId });
+    await notify('This approval request has expired or was already decided.');
+    return;
+  }
+
+  if (!canDecideApproval(userId, pending.requesterId)) {
+    logger.warn({
+      event: 'tool_approval.unauthorized',
+      approvalId,
+      userId,
+      toolName: pending.request.toolName,
+      traceId: pending.request.traceId,
+    });
+    await notify(`Only <@${pending.requesterId}> can approve or deny this action.`);
+    return;
+  }
+
+  const resolved = resolvePendingApproval(approvalId, {
+    outcome: approved ? 'approved' : 'denied',
+    decidedBy: userId,
+  });
+
+  if (!resolved) {
+    await notify('This approval request has expired or was already decided.');
+  }
+}
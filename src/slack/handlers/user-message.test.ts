@@ -14,6 +14,7 @@ const mockStreamerInstance = {
   start: vi.fn().mockResolvedValue(undefined),
   append: vi.fn().mockResolvedValue(undefined),
   stop: vi.fn().mockResolvedValue({ totalDuration: 100, totalChars: 50 }),
+  replace: vi.fn().mockResolvedValue(true),
 };
 
 vi.mock('../../utils/streaming.js', () => ({
@@ -39,14 +40,22 @@ vi.mock('../../agent/orion.js', () => ({
   }),
 }));
 
-// Mock the agent loader
-vi.mock('../../agent/loader.js', () => ({
-  loadAgentPrompt: vi.fn().mockResolvedValue('You are Orion, a helpful assistant.'),
+// Mock the agent router
+vi.mock('../../agent/router.js', () => ({
+  DEFAULT_AGENT_NAME: 'orion',
+  routeAgent: vi.fn(async ({ messageText }: { messageText: string }) => ({
+    agentName: 'orion',
+    reason: 'default',
+    systemPrompt: 'You are Orion, a helpful assistant.',
+    responseMode: 'verified',
+    messageText,
+  })),
 }));
 
 // Mock config
 vi.mock('../../config/environment.js', () => ({
   config: {
+    slackBotToken: 'xoxb-test',
     anthropicModel: 'claude-sonnet-4-20250514',
     anthropicMaxContextTokens: 200000,
     compactionThreshold: undefined,
@@ -110,6 +119,38 @@ vi.mock('../../agent/compaction.js', () => ({
   resolveMaxContextTokens: vi.fn(() => 200000),
 }));
 
+// Mock the workflow engine (no workflow runs in these threads)
+vi.mock('../../workflows/engine.js', () => ({
+  resolveWorkflowRequest: vi.fn(async () => null),
+  runWorkflowTurn: vi.fn(),
+}));
+
+vi.mock('../thread-summarizer.js', () => ({
+  recordThreadActivity: vi.fn(),
+}));
+
+// Mock usage quotas
+vi.mock('../../agent/quotas.js', () => ({
+  checkQuota: vi.fn(async () => ({ allowed: true })),
+  recordQuotaUsage: vi.fn(async () => {}),
+  formatQuotaExceededMessage: vi.fn(() => "You've reached the limit of 30 requests per hour."),
+}));
+
+// Mock Slack file downloads
+vi.mock('../attachments.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../attachments.js')>()),
+  loadSlackAttachments: vi.fn(async () => ({
+    content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'aW1n' } }],
+    sources: [{ type: 'attachment', title: 'error.png', reference: 'slack-file:F1' }],
+    skipped: [],
+  })),
+}));
+
+// Mock MCP prompt expansion (ordinary messages are not invocations)
+vi.mock('../../tools/mcp/prompts.js', () => ({
+  expandPromptInvocation: vi.fn(async () => null),
+}));
+
 // Mock Anthropic SDK
 vi.mock('@anthropic-ai/sdk', () => ({
   default: vi.fn().mockImplementation(() => ({
@@ -128,7 +169,7 @@ describe('Assistant User Message Handler', () => {
   let createStreamer: ReturnType<typeof vi.fn>;
   let formatSlackMrkdwn: ReturnType<typeof vi.fn>;
   let runOrionAgent: ReturnType<typeof vi.fn>;
-  let loadAgentPrompt: ReturnType<typeof vi.fn>;
+  let routeAgent: ReturnType<typeof vi.fn>;
   let logger: { info: ReturnType<typeof vi.fn>; warn: ReturnType<typeof vi.fn>; error: ReturnType<typeof vi.fn> };
 
   beforeEach(async () => {
@@ -153,8 +194,8 @@ describe('Assistant User Message Handler', () => {
     const agentModule = await import('../../agent/orion.js');
     runOrionAgent = agentModule.runOrionAgent as ReturnType<typeof vi.fn>;
 
-    const loaderModule = await import('../../agent/loader.js');
-    loadAgentPrompt = loaderModule.loadAgentPrompt as ReturnType<typeof vi.fn>;
+    const routerModule = await import('../../agent/router.js');
+    routeAgent = routerModule.routeAgent as ReturnType<typeof vi.fn>;
 
     const loggerModule = await import('../../utils/logger.js');
     logger = loggerModule.logger as unknown as {
@@ -230,11 +271,37 @@ describe('Assistant User Message Handler', () => {
     );
   });
 
-  it('should load system prompt from agent loader (AC#2)', async () => {
+  it('should route the message to an agent for its system prompt (AC#2)', async () => {
     const args = createAssistantArgs();
     await handleAssistantUserMessage(args);
 
-    expect(loadAgentPrompt).toHaveBeenCalledWith('orion');
+    expect(routeAgent).toHaveBeenCalledWith(
+      expect.objectContaining({ messageText: 'Hello Orion', channelId: 'D123456' })
+    );
+  });
+
+  it('should pass routed agent model, tools and stripped message to the agent', async () => {
+    routeAgent.mockResolvedValueOnce({
+      agentName: 'release-manager',
+      reason: 'explicit',
+      systemPrompt: 'You are the release manager.',
+      model: 'claude-opus-4-20250514',
+      tools: ['rube__github_*'],
+      responseMode: 'verified',
+      messageText: 'what shipped?',
+    });
+
+    const args = createAssistantArgs();
+    await handleAssistantUserMessage(args);
+
+    expect(runOrionAgent).toHaveBeenCalledWith(
+      'what shipped?',
+      expect.objectContaining({
+        systemPrompt: 'You are the release manager.',
+        model: 'claude-opus-4-20250514',
+        allowedTools: ['rube__github_*'],
+      })
+    );
   });
 
   it('should stream response using chatStream API (AC#3)', async () => {
@@ -473,8 +540,36 @@ describe('Assistant User Message Handler', () => {
     });
   });
 
+  it('should edit the streamed message in place when a passthrough response is replaced', async () => {
+    routeAgent.mockResolvedValueOnce({
+      agentName: 'orion',
+      reason: 'channel',
+      systemPrompt: 'You are Orion.',
+      responseMode: 'passthrough',
+      messageText: 'Hello Orion',
+    });
+    runOrionAgent.mockImplementationOnce(async function* (
+      _message: string,
+      options: { replaceResponse?: (text: string) => void }
+    ) {
+      yield 'This is **wrong**';
+      options.replaceResponse?.('This is *right*');
+      return { inputTokens: 1, outputTokens: 1, durationMs: 10, nfr1Met: true, responseReplaced: true };
+    });
+
+    const args = createAssistantArgs();
+    await handleAssistantUserMessage(args);
+
+    expect(runOrionAgent).toHaveBeenCalledWith(
+      'Hello Orion',
+      expect.objectContaining({ responseMode: 'passthrough', replaceResponse: expect.any(Function) })
+    );
+    expect(mockStreamerInstance.append).toHaveBeenCalledWith('This is **wrong**');
+    expect(mockStreamerInstance.replace).toHaveBeenCalledWith('This is *right*');
+  });
+
   it('should fallback to minimal prompt on loader error', async () => {
-    loadAgentPrompt.mockRejectedValueOnce(new Error('File not found'));
+    routeAgent.mockRejectedValueOnce(new Error('File not found'));
 
     const args = createAssistantArgs();
     await handleAssistantUserMessage(args);
@@ -798,4 +893,164 @@ describe('Assistant User Message Handler', () => {
       expect(mockCompact).not.toHaveBeenCalled();
     });
   });
+
+  describe('Usage quotas', () => {
+    it('should reply ephemerally and skip the agent when a quota is reached', async () => {
+      const { checkQuota } = await import('../../agent/quotas.js');
+      vi.mocked(checkQuota).mockResolvedValueOnce({
+        allowed: false,
+        scope: 'user',
+        metric: 'requests',
+        limit: 30,
+        used: 30,
+        windowSeconds: 3600,
+        retryAfterMs: 600_000,
+      });
+      const args = createAssistantArgs({ thread_ts: '1234567880.000000' });
+      const client = args.client as unknown as { chat: Record<string, ReturnType<typeof vi.fn>> };
+      client.chat.postEphemeral = vi.fn().mockResolvedValue({ ok: true });
+
+      await handleAssistantUserMessage(args);
+
+      expect(client.chat.postEphemeral).toHaveBeenCalledWith({
+        channel: 'D123456',
+        user: 'U123456',
+        thread_ts: '1234567880.000000',
+        text: "You've reached the limit of 30 requests per hour.",
+      });
+      expect(runOrionAgent).not.toHaveBeenCalled();
+      expect(createStreamer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Workflows', () => {
+    it('should run a workflow turn instead of the agent when the message targets a workflow', async () => {
+      const { resolveWorkflowRequest, runWorkflowTurn } = await import('../../workflows/engine.js');
+      const request = { action: 'start', userMessage: 'run jira-story-sync' };
+      vi.mocked(resolveWorkflowRequest).mockResolvedValueOnce(request as never);
+      vi.mocked(runWorkflowTurn).mockImplementationOnce(async function* () {
+        yield 'Initializing...';
+        return { inputTokens: 10, outputTokens: 5, durationMs: 100, nfr1Met: true };
+      });
+
+      const args = createAssistantArgs({ text: 'run jira-story-sync', thread_ts: '1234567880.000000' });
+      await handleAssistantUserMessage(args);
+
+      expect(resolveWorkflowRequest).toHaveBeenCalledWith({
+        messageText: 'run jira-story-sync',
+        channelId: 'D123456',
+        threadTs: '1234567880.000000',
+        userId: 'U123456',
+      });
+      expect(runWorkflowTurn).toHaveBeenCalledWith(
+        request,
+        expect.objectContaining({ systemPrompt: expect.any(String) })
+      );
+      expect(runOrionAgent).not.toHaveBeenCalled();
+      expect(mockStreamerInstance.append).toHaveBeenCalledWith('Initializing...');
+    });
+  });
+
+  describe('File attachments', () => {
+    const screenshot = {
+      id: 'F1',
+      name: 'error.png',
+      mimetype: 'image/png',
+      url_private_download: 'https://files.slack.com/files-pri/T1-F1/download/error.png',
+    };
+
+    it('should pass shared files to the agent as attachments', async () => {
+      const { loadSlackAttachments } = await import('../attachments.js');
+
+      await handleAssistantUserMessage(
+        createAssistantArgs({ text: 'What does this error mean?', files: [screenshot] })
+      );
+
+      expect(loadSlackAttachments).toHaveBeenCalledWith([screenshot], {
+        token: 'xoxb-test',
+        traceId: 'mock-trace-id',
+      });
+      expect(runOrionAgent).toHaveBeenCalledWith(
+        'What does this error mean?',
+        expect.objectContaining({
+          attachments: expect.objectContaining({
+            sources: [expect.objectContaining({ type: 'attachment', title: 'error.png' })],
+          }),
+        })
+      );
+    });
+
+    it('should handle file shares without text', async () => {
+      const { ATTACHMENT_ONLY_MESSAGE } = await import('../attachments.js');
+
+      await handleAssistantUserMessage(createAssistantArgs({ text: '', files: [screenshot] }));
+
+      expect(runOrionAgent).toHaveBeenCalledWith(
+        ATTACHMENT_ONLY_MESSAGE,
+        expect.objectContaining({ attachments: expect.any(Object) })
+      );
+    });
+
+    it('should not download anything for text-only messages', async () => {
+      const { loadSlackAttachments } = await import('../attachments.js');
+
+      await handleAssistantUserMessage(createAssistantArgs());
+
+      expect(loadSlackAttachments).not.toHaveBeenCalled();
+      expect(runOrionAgent).toHaveBeenCalledWith(
+        'Hello Orion',
+        expect.objectContaining({ attachments: undefined })
+      );
+    });
+  });
+
+  describe('MCP prompt templates', () => {
+    it('should send the rendered prompt for a suggested prompt invocation', async () => {
+      const { expandPromptInvocation } = await import('../../tools/mcp/prompts.js');
+      vi.mocked(expandPromptInvocation).mockResolvedValueOnce({
+        success: true,
+        data: 'Write the weekly ops report.',
+      });
+
+      await handleAssistantUserMessage(createAssistantArgs({ text: 'prompt ops/weekly-report' }));
+
+      expect(expandPromptInvocation).toHaveBeenCalledWith('prompt ops/weekly-report', 'mock-trace-id');
+      expect(routeAgent).toHaveBeenCalledWith(
+        expect.objectContaining({ messageText: 'Write the weekly ops report.' })
+      );
+      expect(runOrionAgent).toHaveBeenCalledWith(
+        'Write the weekly ops report.',
+        expect.any(Object)
+      );
+    });
+
+    it('should tell the agent when the prompt could not be loaded', async () => {
+      const { expandPromptInvocation } = await import('../../tools/mcp/prompts.js');
+      vi.mocked(expandPromptInvocation).mockResolvedValueOnce({
+        success: false,
+        error: { code: 'TOOL_NOT_FOUND', message: 'No MCP server "ops"', retryable: false },
+      });
+
+      await handleAssistantUserMessage(createAssistantArgs({ text: 'prompt ops/weekly-report' }));
+
+      expect(runOrionAgent).toHaveBeenCalledWith(
+        expect.stringContaining('The MCP prompt could not be loaded: No MCP server "ops"'),
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('Conversation summaries', () => {
+    it('should record thread activity for the idle thread summarizer', async () => {
+      const { recordThreadActivity } = await import('../thread-summarizer.js');
+
+      await handleAssistantUserMessage(createAssistantArgs({ thread_ts: '1234567880.000000' }));
+
+      expect(recordThreadActivity).toHaveBeenCalledWith({
+        channelId: 'D123456',
+        threadTs: '1234567880.000000',
+        userId: 'U123456',
+      });
+    });
+  });
 });
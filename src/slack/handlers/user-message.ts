@@ -27,13 +27,21 @@ import { logger } from '../../utils/logger.js';
 import { createStreamer } from '../../utils/streaming.js';
 import { formatSlackMrkdwn } from '../../utils/formatting.js';
 import { fetchThreadHistory } from '../thread-context.js';
+import { recordThreadActivity } from '../thread-summarizer.js';
 import { feedbackBlock } from '../feedback-block.js';
 import { createSourcesContextBlock, type SourceCitation } from '../sources-block.js';
-import { runOrionAgent, type AgentResult } from '../../agent/orion.js';
+import { createSlackToolApprovalRequester } from '../tool-approval.js';
+import { ATTACHMENT_ONLY_MESSAGE, loadSlackAttachments, type SlackFile } from '../attachments.js';
+import { runOrionAgent, type AgentOptions, type AgentResult } from '../../agent/orion.js';
+import { resolveWorkflowRequest, runWorkflowTurn } from '../../workflows/engine.js';
+import { checkQuota, formatQuotaExceededMessage, recordQuotaUsage } from '../../agent/quotas.js';
 import { detectUncitedClaims } from '../../agent/citations.js';
 import { getLangfuse } from '../../observability/langfuse.js';
+import { toLangfuseCostDetails } from '../../observability/costs.js';
 import { recordCitationOutcome } from '../../observability/citation-rate.js';
-import { loadAgentPrompt } from '../../agent/loader.js';
+import { routeAgent, DEFAULT_AGENT_NAME, type AgentRoute } from '../../agent/router.js';
+import { expandPromptInvocation } from '../../tools/mcp/prompts.js';
+import { DEFAULT_RESPONSE_MODE } from '../../agent/response-mode.js';
 import {
   shouldTriggerCompaction,
   compactThreadHistory,
@@ -80,12 +88,16 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
     client,
     context,
   }) => {
-    // Skip if no text content
-    if (!('text' in message) || !message.text) {
+    // Files shared with the message (screenshots, logs, PDFs...)
+    const files = ('files' in message && message.files ? message.files : []) as SlackFile[];
+    const text = 'text' in message ? message.text : undefined;
+
+    // Skip if there is neither text nor a file to read
+    if (!text && files.length === 0) {
       return;
     }
 
-    const messageText = message.text;
+    const messageText = text || ATTACHMENT_ONLY_MESSAGE;
     const userId = 'user' in message ? message.user : undefined;
     const channelId = message.channel;
     const threadTs = 'thread_ts' in message ? message.thread_ts : message.ts;
@@ -114,6 +126,23 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
     }
     const messageReceiptTime = Date.now();
 
+    // Usage quotas: refuse before starting a stream or status indicator
+    const quotaSubject = { userId, channelId, teamId: context.teamId };
+    const quota = await checkQuota(quotaSubject);
+    if (!quota.allowed) {
+      if (userId) {
+        await client.chat
+          .postEphemeral({
+            channel: channelId,
+            user: userId,
+            thread_ts: threadTs,
+            text: formatQuotaExceededMessage(quota),
+          })
+          .catch(() => {});
+      }
+      return;
+    }
+
     // Add eyes emoji to acknowledge message receipt
     try {
       await client.reactions.add({
@@ -137,6 +166,7 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
           teamId: context.teamId,
           channelId,
           isDm,
+          fileCount: files.length,
         },
       },
       async (trace: TraceWrapper) => {
@@ -265,10 +295,33 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
             traceId: trace.id,
           });
 
-          // Load system prompt from .orion/agents/orion.md (AC#2)
-          let systemPrompt: string;
+          const attachments =
+            files.length > 0
+              ? await loadSlackAttachments(files, { token: config.slackBotToken, traceId: trace.id })
+              : undefined;
+
+          // Suggested MCP prompts arrive as `prompt <server>/<name>`; send the rendered template
+          const expandedPrompt = await expandPromptInvocation(messageText, trace.id);
+          let requestText = messageText;
+          if (expandedPrompt?.success) {
+            requestText = expandedPrompt.data;
+          } else if (expandedPrompt) {
+            logger.warn({
+              event: 'mcp_prompt_expand_failed',
+              error: expandedPrompt.error.message,
+              traceId: trace.id,
+            });
+            requestText = `${messageText}\n\n(The MCP prompt could not be loaded: ${expandedPrompt.error.message})`;
+          }
+
+          // Route to an agent (.orion/agents/*.md) and load its system prompt (AC#2)
+          let agentRoute: AgentRoute;
           try {
-            systemPrompt = await loadAgentPrompt('orion');
+            agentRoute = await routeAgent({
+              messageText: requestText,
+              channelId,
+              traceId: trace.id,
+            });
           } catch (error) {
             logger.warn({
               event: 'agent_prompt_fallback',
@@ -276,8 +329,17 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
               traceId: trace.id,
             });
             // Fallback to minimal prompt
-            systemPrompt = 'You are Orion, a helpful AI assistant. Use Slack mrkdwn formatting: *bold* for emphasis, _italic_ for secondary emphasis. Never use blockquotes.';
+            agentRoute = {
+              agentName: DEFAULT_AGENT_NAME,
+              reason: 'default',
+              systemPrompt: 'You are Orion, a helpful AI assistant. Use Slack mrkdwn formatting: *bold* for emphasis, _italic_ for secondary emphasis. Never use blockquotes.',
+              responseMode: DEFAULT_RESPONSE_MODE,
+              messageText: requestText,
+            };
           }
+          const systemPrompt = agentRoute.systemPrompt;
+          const agentMessage = agentRoute.messageText;
+          const agentModel = agentRoute.model ?? config.anthropicModel;
 
           // Update trace with context for observability
           trace.update({
@@ -285,6 +347,12 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
               text: messageText,
               historyLength: anthropicHistory.length,
             },
+            metadata: {
+              agentName: agentRoute.agentName,
+              routeReason: agentRoute.reason,
+              model: agentModel,
+              responseMode: agentRoute.responseMode,
+            },
           });
 
           // Story 2.6: Context compaction before Anthropic call
@@ -292,7 +360,7 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
           const estimatedTokens = estimateContextTokens({
             systemPrompt,
             threadHistory: anthropicHistory,
-            userMessage: messageText,
+            userMessage: agentMessage,
           });
           const needsCompaction = shouldTriggerCompaction({
             estimatedTokens,
@@ -326,7 +394,7 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
               const compactionResult = await withTimeout(
                 compactThreadHistory({
                   threadHistory: anthropicHistory,
-                  userMessage: messageText,
+                  userMessage: agentMessage,
                   systemPrompt,
                   anthropic,
                   model: config.anthropicModel,
@@ -390,10 +458,14 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
 
           // Run Orion agent with Anthropic API (AC#1)
           agentSpan = trace.startSpan('agent.orion', {
-            input: { messageText, historyLength: historyForAgent.length },
+            input: { messageText: agentMessage, historyLength: historyForAgent.length },
+            metadata: { agentName: agentRoute.agentName, routeReason: agentRoute.reason },
           });
 
-          const agentResponse = runOrionAgent(messageText, {
+          // Passthrough mode: a corrected retry replaces the already-streamed text after stop()
+          let replacementResponse: string | undefined;
+
+          const agentOptions: AgentOptions = {
             context: {
               threadHistory: historyForAgent,
               userId: userId ?? 'unknown',
@@ -401,14 +473,45 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
               traceId: trace.id,
             },
             systemPrompt,
+            model: agentRoute.model,
+            pinModel: agentRoute.pinModel,
+            allowedTools: agentRoute.tools,
+            thinkingBudget: agentRoute.thinkingBudget,
+            attachments,
+            agentName: agentRoute.agentName,
+            journal: threadTs ? { delivery: { channelId, threadTs } } : undefined,
+            requestApproval: createSlackToolApprovalRequester({
+              client,
+              channelId,
+              threadTs,
+              userId: userId ?? 'unknown',
+            }),
+            responseMode: agentRoute.responseMode,
+            replaceResponse: (text) => {
+              replacementResponse = text;
+            },
             // Pass the underlying span for the agent loop to create nested observations
             trace: trace._span,
-            setStatus: ({ toolName }) =>
+            setStatus: ({ toolName, reasoning }) =>
               safeSetStatus({
                 status: 'working...',
-                loading_messages: buildLoadingMessages({ toolName: toolName ?? undefined }),
+                loading_messages: buildLoadingMessages({
+                  toolName: toolName ?? undefined,
+                  reasoning,
+                }),
               }),
+          };
+
+          // Step-file workflows (`run <workflow>`, or a reply in a thread with a waiting run)
+          const workflowRequest = await resolveWorkflowRequest({
+            messageText: agentMessage,
+            channelId,
+            threadTs,
+            userId: userId ?? 'unknown',
           });
+          const agentResponse = workflowRequest
+            ? runWorkflowTurn(workflowRequest, agentOptions)
+            : runOrionAgent(agentMessage, agentOptions);
 
           // Stream formatted response (AC#3)
           let fullResponse = '';
@@ -440,6 +543,22 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
             }
           }
 
+          if (replacementResponse !== undefined) {
+            fullResponse = replacementResponse;
+          }
+
+          if (agentResult) {
+            void recordQuotaUsage(
+              quotaSubject,
+              {
+                inputTokens: agentResult.inputTokens,
+                outputTokens: agentResult.outputTokens,
+                toolCalls: agentResult.toolCount,
+              },
+              { traceId: trace.id }
+            );
+          }
+
           agentSpan.update({
             output: {
               responseLength: fullResponse.length,
@@ -454,8 +573,8 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
 
           // Log generation for Langfuse (AC#4) using new SDK
           const generation = trace.startGeneration('orion-response', {
-            model: config.anthropicModel,
-            input: { message: messageText, historyLength: anthropicHistory.length },
+            model: agentResult?.model ?? agentModel,
+            input: { message: agentMessage, historyLength: anthropicHistory.length },
             output: agentResult
               ? { response: fullResponse.slice(0, 500) }
               : { response: fullResponse.slice(0, 500), incomplete: true },
@@ -464,7 +583,10 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
                 input: agentResult.inputTokens,
                 output: agentResult.outputTokens,
                 total: agentResult.inputTokens + agentResult.outputTokens,
+                cache_creation_input_tokens: agentResult.cacheCreationInputTokens ?? 0,
+                cache_read_input_tokens: agentResult.cacheReadInputTokens ?? 0,
               },
+              ...(agentResult.cost && { costDetails: toLangfuseCostDetails(agentResult.cost) }),
             }),
           });
           generation.end();
@@ -478,6 +600,11 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
           // Stop streaming and get metrics
           const metrics = await streamer.stop();
 
+          // Passthrough: edit the streamed message in place with the verified retry
+          if (replacementResponse !== undefined) {
+            await streamer.replace(formatSlackMrkdwn(replacementResponse));
+          }
+
           // Story 2.7: Post sources block if sources were gathered
           const sourcesGathered = agentResult?.sources ?? [];
           const sourcesGatheredCount = sourcesGathered.length;
@@ -633,6 +760,11 @@ export const handleAssistantUserMessage: AssistantUserMessageMiddleware =
             },
           });
 
+          // Summarized into conversation memory once the thread goes idle
+          if (threadTs) {
+            recordThreadActivity({ channelId, threadTs, userId });
+          }
+
           logger.info({
             event: 'user_message_handled',
             userId,
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../tools/mcp/oauth.js', () => ({
+  AUTHORIZATION_TTL_MS: 10 * 60 * 1000,
+  setMcpAuthorizationNotifier: vi.fn(),
+}));
+
+import { mcpConnectText, registerMcpConnectLinks, sendMcpConnectLink } from './mcp-connect.js';
+import { setMcpAuthorizationNotifier } from '../tools/mcp/oauth.js';
+
+describe('MCP connect links', () => {
+  const client = { chat: { postMessage: vi.fn().mockResolvedValue({ ok: true }) } };
+  const request = {
+    userId: 'U1',
+    serverName: 'github',
+    description: 'GitHub issues and PRs',
+    url: 'https://github.example.com/login/oauth/authorize?state=abc',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('DMs the user a connect button', async () => {
+    await sendMcpConnectLink(client as never, request);
+
+    const message = client.chat.postMessage.mock.calls[0][0];
+    expect(message.channel).toBe('U1');
+    expect(message.text).toBe(mcpConnectText('github'));
+    expect(message.blocks[0].text.text).toContain('*github* (GitHub issues and PRs)');
+    expect(message.blocks[0].accessory).toMatchObject({
+      type: 'button',
+      url: request.url,
+      text: { text: 'Connect github' },
+    });
+    expect(message.blocks[1].elements[0].text).toContain('10 minutes');
+    expect(message.blocks[1].elements[0].text).toContain("don't share it");
+  });
+
+  it('registers the DM as the authorization notifier', async () => {
+    registerMcpConnectLinks(client as never);
+
+    const notifier = vi.mocked(setMcpAuthorizationNotifier).mock.calls[0][0];
+    await notifier?.(request);
+
+    expect(client.chat.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'U1' })
+    );
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * MCP Connect Links
+ *
+ * Delivers per-user MCP OAuth connect links (see src/tools/mcp/oauth.ts) as a
+ * direct message with a button, so only the requesting user sees the link.
+ */
+
+import type { WebClient } from '@slack/web-api';
+import {
+  AUTHORIZATION_TTL_MS,
+  setMcpAuthorizationNotifier,
+  type McpAuthorizationRequest,
+} from '../tools/mcp/oauth.js';
+
+/** action_id of the Connect button (link buttons still send an action to acknowledge) */
+export const MCP_CONNECT_ACTION_ID = 'orion_mcp_connect';
+
+type ConnectClient = Pick<WebClient, 'chat'>;
+
+/**
+ * Fallback text for notifications and clients without Block Kit.
+ */
+export function mcpConnectText(serverName: string): string {
+  return `Connect your ${serverName} account so Orion can use ${serverName} tools as you`;
+}
+
+/**
+ * DM a user the link to connect their account for an MCP server.
+ */
+export async function sendMcpConnectLink(
+  client: ConnectClient,
+  request: McpAuthorizationRequest
+): Promise<void> {
+  const minutes = Math.round(AUTHORIZATION_TTL_MS / 60_000);
+  const about = request.description ? ` (${request.description})` : '';
+
+  await client.chat.postMessage({
+    channel: request.userId,
+    text: mcpConnectText(request.serverName),
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text:
+            `To use *${request.serverName}*${about} tools, Orion needs to act as you. ` +
+            'Connect your account, then ask again.',
+        },
+        accessory: {
+          type: 'button',
+          action_id: MCP_CONNECT_ACTION_ID,
+          text: { type: 'plain_text', text: `Connect ${request.serverName}` },
+          url: request.url,
+          style: 'primary',
+        },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `This is a private link, don't share it. It expires in ${minutes} minutes.`,
+          },
+        ],
+      },
+    ],
+  });
+}
+
+/**
+ * Send connect links through this Slack client (called at startup).
+ */
+export function registerMcpConnectLinks(client: ConnectClient): void {
+  setMcpAuthorizationNotifier((request) => sendMcpConnectLink(client, request));
+}
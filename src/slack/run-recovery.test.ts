@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../agent/orion.js', () => ({
+  runOrionAgent: vi.fn(),
+}));
+
+vi.mock('../agent/run-journal.js', () => ({
+  RUN_STALE_AFTER_MS: 120_000,
+  listOrphanedRuns: vi.fn(),
+  listUnconfirmedRuns: vi.fn(async () => []),
+  getJournaledAttachments: vi.fn(() => undefined),
+  claimRun: vi.fn(async (run: { resumeCount: number }) => ({ ...run, resumeCount: run.resumeCount + 1 })),
+  removeRun: vi.fn(async () => undefined),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { recoverInterruptedRuns, startRunRecovery } from './run-recovery.js';
+import { runOrionAgent } from '../agent/orion.js';
+import {
+  claimRun,
+  listOrphanedRuns,
+  listUnconfirmedRuns,
+  removeRun,
+  type RunJournalEntry,
+} from '../agent/run-journal.js';
+import { getUserMessage } from '../utils/errors.js';
+
+function makeRun(overrides: Partial<RunJournalEntry> = {}): RunJournalEntry {
+  return {
+    traceId: 'trace-1',
+    userId: 'U123',
+    userMessage: 'Deploy status?',
+    threadHistory: [],
+    delivery: { channelId: 'C1', threadTs: '111.222' },
+    systemPrompt: 'You are Orion.',
+    agentName: 'oncall',
+    verificationAttempt: 1,
+    iteration: 2,
+    messages: [{ role: 'user', content: 'Deploy status?' }],
+    toolCount: 2,
+    resumeCount: 0,
+    instanceId: 'dead-instance',
+    startedAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+async function* agentStream(chunks: string[]): AsyncGenerator<string, { inputTokens: number }> {
+  for (const chunk of chunks) yield chunk;
+  return { inputTokens: 0 };
+}
+
+describe('recoverInterruptedRuns', () => {
+  const client = {
+    chat: {
+      postMessage: vi.fn(async () => ({ ok: true })),
+      update: vi.fn(async () => ({ ok: true })),
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('resumes orphaned runs from their checkpoint and posts the answer in the thread', async () => {
+    vi.mocked(listOrphanedRuns).mockResolvedValue([makeRun()]);
+    vi.mocked(runOrionAgent).mockReturnValue(agentStream(['Deploy ', '**is** green']) as never);
+
+    const summary = await recoverInterruptedRuns(client as never);
+
+    expect(summary).toEqual({ resumed: 1, failed: 0, skipped: 0 });
+    expect(runOrionAgent).toHaveBeenCalledWith(
+      'Deploy status?',
+      expect.objectContaining({
+        systemPrompt: 'You are Orion.',
+        agentName: 'oncall',
+        context: expect.objectContaining({ traceId: 'trace-1', channelId: 'C1' }),
+        resumeFrom: expect.objectContaining({ traceId: 'trace-1', resumeCount: 1 }),
+      })
+    );
+    expect(client.chat.postMessage).toHaveBeenCalledWith({
+      channel: 'C1',
+      thread_ts: '111.222',
+      text: 'Deploy *is* green',
+    });
+  });
+
+  it('updates the thinking placeholder when one was recorded', async () => {
+    vi.mocked(listOrphanedRuns).mockResolvedValue([
+      makeRun({ delivery: { channelId: 'C1', threadTs: '111.222', statusMessageTs: '333.444' } }),
+    ]);
+    vi.mocked(runOrionAgent).mockReturnValue(agentStream(['Done']) as never);
+
+    await recoverInterruptedRuns(client as never);
+
+    expect(client.chat.update).toHaveBeenCalledWith({ channel: 'C1', ts: '333.444', text: 'Done' });
+    expect(client.chat.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('posts a failure instead of resuming a run that was already resumed', async () => {
+    vi.mocked(listOrphanedRuns).mockResolvedValue([makeRun({ resumeCount: 1 })]);
+
+    const summary = await recoverInterruptedRuns(client as never);
+
+    expect(summary).toEqual({ resumed: 0, failed: 1, skipped: 0 });
+    expect(runOrionAgent).not.toHaveBeenCalled();
+    expect(removeRun).toHaveBeenCalledWith('trace-1');
+    expect(client.chat.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ text: getUserMessage('RUN_INTERRUPTED') })
+    );
+  });
+
+  it('posts a failure when the resumed run throws', async () => {
+    vi.mocked(listOrphanedRuns).mockResolvedValue([makeRun()]);
+    vi.mocked(runOrionAgent).mockImplementation(() => {
+      throw new Error('anthropic down');
+    });
+
+    const summary = await recoverInterruptedRuns(client as never);
+
+    expect(summary.failed).toBe(1);
+    expect(client.chat.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ thread_ts: '111.222', text: getUserMessage('RUN_INTERRUPTED') })
+    );
+  });
+
+  it('skips runs another instance claimed first', async () => {
+    vi.mocked(listOrphanedRuns).mockResolvedValue([makeRun()]);
+    vi.mocked(claimRun).mockResolvedValueOnce(null);
+
+    const summary = await recoverInterruptedRuns(client as never);
+
+    expect(summary).toEqual({ resumed: 0, failed: 0, skipped: 1 });
+    expect(runOrionAgent).not.toHaveBeenCalled();
+  });
+});
+
+describe('startRunRecovery', () => {
+  const client = {
+    chat: {
+      postMessage: vi.fn(async () => ({ ok: true })),
+      update: vi.fn(async () => ({ ok: true })),
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:01:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('recovers a run interrupted seconds before startup once its heartbeat goes stale', async () => {
+    // Previous process died 10s before this one started
+    const run = makeRun({ updatedAt: '2025-01-01T00:00:50.000Z' });
+    vi.mocked(listOrphanedRuns).mockResolvedValueOnce([]).mockResolvedValueOnce([run]);
+    vi.mocked(listUnconfirmedRuns).mockResolvedValueOnce([run]).mockResolvedValueOnce([]);
+    vi.mocked(runOrionAgent).mockReturnValue(agentStream(['Recovered']) as never);
+
+    const stop = startRunRecovery(client as never);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(runOrionAgent).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(110_000);
+
+    expect(listOrphanedRuns).toHaveBeenCalledTimes(2);
+    expect(client.chat.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ thread_ts: '111.222', text: 'Recovered' })
+    );
+    stop();
+  });
+
+  it('stops sweeping once no unconfirmed runs remain', async () => {
+    vi.mocked(listOrphanedRuns).mockResolvedValue([]);
+
+    const stop = startRunRecovery(client as never);
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+
+    expect(listOrphanedRuns).toHaveBeenCalledTimes(1);
+    stop();
+  });
+});
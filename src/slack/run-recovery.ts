@@ -0,0 +1,209 @@
+/**
+ * Interrupted Run Recovery
+ *
+ * Startup sweep over the run journal (src/agent/run-journal.ts). For each run
+ * whose owning process died mid-flight:
+ * - resume it from its last checkpoint (once) and deliver the answer to the thread, or
+ * - if it was already resumed before (or resuming fails), post a clear failure
+ *   message so the user is not left with a "thinking" placeholder.
+ *
+ * Resumed runs always use `verified` delivery: the answer is posted once, complete.
+ *
+ * A restart usually takes seconds, so the previous process's runs are not stale
+ * yet when the first sweep runs. The sweep is repeated until every run that had
+ * not checked in before startup is either recovered or shown to have a live owner.
+ */
+
+import type { WebClient } from '@slack/web-api';
+import { runOrionAgent } from '../agent/orion.js';
+import {
+  RUN_STALE_AFTER_MS,
+  claimRun,
+  getJournaledAttachments,
+  listOrphanedRuns,
+  listUnconfirmedRuns,
+  removeRun,
+  type RunJournalEntry,
+} from '../agent/run-journal.js';
+import { createSlackToolApprovalRequester } from './tool-approval.js';
+import { formatSlackMrkdwn } from '../utils/formatting.js';
+import { getUserMessage } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/** Resume attempts per run before giving up (guards against runs that crash the process) */
+export const MAX_RUN_RESUMES = 1;
+
+/** Shortest wait between repeated sweeps */
+const MIN_SWEEP_DELAY_MS = 1_000;
+
+export interface RunRecoverySummary {
+  resumed: number;
+  failed: number;
+  skipped: number;
+}
+
+type RecoveryClient = Pick<WebClient, 'chat'>;
+
+async function deliver(client: RecoveryClient, run: RunJournalEntry, text: string): Promise<void> {
+  const { channelId, threadTs, statusMessageTs } = run.delivery;
+  if (statusMessageTs) {
+    await client.chat.update({ channel: channelId, ts: statusMessageTs, text });
+    return;
+  }
+  await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text });
+}
+
+async function resumeRun(client: RecoveryClient, run: RunJournalEntry): Promise<void> {
+  const agentResponse = runOrionAgent(run.userMessage, {
+    context: {
+      threadHistory: run.threadHistory,
+      userId: run.userId,
+      channelId: run.delivery.channelId,
+      traceId: run.traceId,
+    },
+    systemPrompt: run.systemPrompt,
+    model: run.model,
+    pinModel: run.pinModel,
+    allowedTools: run.allowedTools,
+    thinkingBudget: run.thinkingBudget,
+    attachments: getJournaledAttachments(run),
+    agentName: run.agentName,
+    journal: { delivery: run.delivery },
+    resumeFrom: run,
+    requestApproval: createSlackToolApprovalRequester({
+      client,
+      channelId: run.delivery.channelId,
+      threadTs: run.delivery.threadTs,
+      userId: run.userId,
+    }),
+  });
+
+  let response = '';
+  let next = await agentResponse.next();
+  while (!next.done) {
+    response += next.value;
+    next = await agentResponse.next();
+  }
+
+  await deliver(client, run, formatSlackMrkdwn(response));
+}
+
+/**
+ * Resume or fail every orphaned run in the journal.
+ *
+ * Never throws; each run is handled independently.
+ *
+ * @param client - Slack Web API client used to deliver results
+ */
+export async function recoverInterruptedRuns(client: RecoveryClient): Promise<RunRecoverySummary> {
+  const summary: RunRecoverySummary = { resumed: 0, failed: 0, skipped: 0 };
+
+  let orphaned: RunJournalEntry[];
+  try {
+    orphaned = await listOrphanedRuns();
+  } catch (error) {
+    logger.error({
+      event: 'run_recovery.list_failed',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return summary;
+  }
+
+  for (const run of orphaned) {
+    const claimed = await claimRun(run);
+    if (!claimed) {
+      summary.skipped++;
+      continue;
+    }
+
+    const canResume = claimed.resumeCount <= MAX_RUN_RESUMES && claimed.messages.length > 0;
+
+    try {
+      if (!canResume) {
+        throw new Error('resume limit reached');
+      }
+      await resumeRun(client, claimed);
+      summary.resumed++;
+      logger.info({
+        event: 'run_recovery.resumed',
+        channelId: claimed.delivery.channelId,
+        verificationAttempt: claimed.verificationAttempt,
+        iteration: claimed.iteration,
+        resumeCount: claimed.resumeCount,
+        traceId: claimed.traceId,
+      });
+    } catch (error) {
+      summary.failed++;
+      logger.warn({
+        event: 'run_recovery.failed',
+        channelId: claimed.delivery.channelId,
+        resumeCount: claimed.resumeCount,
+        error: error instanceof Error ? error.message : String(error),
+        traceId: claimed.traceId,
+      });
+      await removeRun(claimed.traceId);
+      try {
+        await deliver(client, claimed, getUserMessage('RUN_INTERRUPTED'));
+      } catch (postError) {
+        logger.error({
+          event: 'run_recovery.notify_failed',
+          channelId: claimed.delivery.channelId,
+          error: postError instanceof Error ? postError.message : String(postError),
+          traceId: claimed.traceId,
+        });
+      }
+    }
+  }
+
+  if (orphaned.length > 0) {
+    logger.info({ event: 'run_recovery.complete', ...summary });
+  }
+
+  return summary;
+}
+
+/**
+ * Sweep the journal now, then again whenever a run that had not checked in
+ * before startup is due to go stale.
+ *
+ * @param client - Slack Web API client used to deliver results
+ * @returns Function that cancels pending sweeps
+ */
+export function startRunRecovery(client: RecoveryClient): () => void {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  const sweep = async (): Promise<void> => {
+    await recoverInterruptedRuns(client);
+    if (stopped) return;
+
+    let pending: RunJournalEntry[];
+    try {
+      pending = await listUnconfirmedRuns(startedAt);
+    } catch (error) {
+      logger.error({
+        event: 'run_recovery.list_failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    if (stopped || pending.length === 0) return;
+
+    const nextStaleAt = Math.min(
+      ...pending.map((run) => Date.parse(run.updatedAt) + RUN_STALE_AFTER_MS)
+    );
+    const delayMs = Math.max(nextStaleAt - Date.now(), MIN_SWEEP_DELAY_MS);
+    logger.info({ event: 'run_recovery.rescheduled', pending: pending.length, delayMs });
+
+    timer = setTimeout(() => void sweep(), delayMs);
+    timer.unref?.();
+  };
+
+  void sweep();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
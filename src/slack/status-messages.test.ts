@@ -20,6 +20,13 @@ describe('buildLoadingMessages', () => {
     const msgs = buildLoadingMessages({ toolName: 'web_search' });
     expect(msgs[0]).toBe('Searching the web…');
   });
-});
-
 
+  it('should lead with the reasoning summary when provided', () => {
+    const msgs = buildLoadingMessages({
+      toolName: 'web_search',
+      reasoning: 'Checking which deploy introduced the regression.',
+    });
+    expect(msgs[0]).toBe('Thinking: Checking which deploy introduced the regression.');
+    expect(msgs[1]).toBe('Searching the web…');
+  });
+});
@@ -7,6 +7,8 @@
 
 export function buildLoadingMessages(params?: {
   toolName?: string | null;
+  /** Extended thinking summary, shown first when present */
+  reasoning?: string;
 }): string[] {
   const base = [
     'Gathering context…',
@@ -23,11 +25,11 @@ export function buildLoadingMessages(params?: {
     web_search: 'Searching the web…',
   };
 
+  // Put the reasoning summary, then any tool-specific message, first for best UX.
   const toolMsg = toolSpecific[toolName];
-  if (!toolMsg) return base;
+  const messages = toolMsg ? [toolMsg, ...base.filter((m) => m !== toolMsg)] : base;
 
-  // Put tool-specific message first for best UX.
-  return [toolMsg, ...base.filter((m) => m !== toolMsg)];
+  return params?.reasoning ? [`Thinking: ${params.reasoning}`, ...messages] : messages;
 }
 
 
@@ -245,6 +245,26 @@ describe('Thread Context Utilities', () => {
       expect(result.map((m) => m.text)).toEqual(['m4', 'm5']);
     });
 
+    it('should keep the latest message when includeLatest is set', async () => {
+      mockClient.conversations.replies.mockResolvedValue({
+        messages: [
+          { user: 'U1', text: 'm1', ts: '1.1' },
+          { user: 'U1', text: 'm2', ts: '1.2' },
+          { user: 'U1', text: 'm3', ts: '1.3' },
+        ],
+      });
+
+      const result = await fetchThreadHistory({
+        client: mockClient as unknown as WebClient,
+        channel: 'C123',
+        threadTs: '1.1',
+        keepLastN: 2,
+        includeLatest: true,
+      });
+
+      expect(result.map((m) => m.text)).toEqual(['m2', 'm3']);
+    });
+
     it('should respect custom maxTokens parameter', async () => {
       mockClient.conversations.replies.mockResolvedValue({
         messages: [
@@ -36,6 +36,8 @@ export interface FetchThreadHistoryParams {
   keepLastN?: number;
   /** Trace ID for observability (passed through to logs) */
   traceId?: string;
+  /** Keep the latest message (default: false, it is the message being handled) */
+  includeLatest?: boolean;
 }
 
 /**
@@ -63,6 +65,7 @@ export async function fetchThreadHistory({
   maxTokens = DEFAULT_MAX_TOKENS,
   keepLastN = 50,
   traceId,
+  includeLatest = false,
 }: FetchThreadHistoryParams): Promise<ThreadMessage[]> {
   const recentMessages: ThreadMessage[] = [];
   let cursor: string | undefined;
@@ -130,7 +133,7 @@ export async function fetchThreadHistory({
 
     // Filter out the current message (last one) to avoid duplication
     // Keep all previous messages for context
-    return recentMessages.slice(0, -1);
+    return includeLatest ? recentMessages : recentMessages.slice(0, -1);
   } catch (error) {
     logger.error({
       event: 'fetch_thread_history_failed',
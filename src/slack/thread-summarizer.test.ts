@@ -0,0 +1,160 @@
+/**
+ * Tests for the Idle Thread Summarizer
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type Anthropic from '@anthropic-ai/sdk';
+import type { WebClient } from '@slack/web-api';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../config/environment.js', () => ({
+  config: {
+    anthropicApiKey: 'test-key',
+    anthropicModel: 'claude-sonnet-4-20250514',
+    threadSummaryIdleMinutes: undefined,
+  },
+}));
+
+vi.mock('./thread-context.js', () => ({
+  fetchThreadHistory: vi.fn(async () => [
+    { user: 'U1', text: 'Should we ship on Friday?', ts: '1.1', isBot: false },
+    { user: 'B1', text: 'The deploy freeze starts Friday.', ts: '1.2', isBot: true },
+    { user: 'U2', text: 'Then we ship Thursday.', ts: '1.3', isBot: false },
+  ]),
+}));
+
+vi.mock('../memory/conversations.js', () => ({
+  saveConversationSummary: vi.fn(async () => undefined),
+}));
+
+import {
+  clearThreadActivity,
+  extractTopics,
+  recordThreadActivity,
+  summarizeIdleThreads,
+  summarizeThread,
+} from './thread-summarizer.js';
+import { fetchThreadHistory } from './thread-context.js';
+import { saveConversationSummary } from '../memory/conversations.js';
+import { logger } from '../utils/logger.js';
+
+const client = {} as WebClient;
+
+function createMockAnthropic(text: string) {
+  const create = vi.fn().mockResolvedValue({ content: [{ type: 'text', text }] });
+  return { anthropic: { messages: { create } } as unknown as Anthropic, create };
+}
+
+describe('thread summarizer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearThreadActivity();
+  });
+
+  describe('extractTopics', () => {
+    it('parses the topics line out of the summary', () => {
+      expect(
+        extractTopics(
+          'Team moved the release to Thursday.\nTopics: Release Date, deploy freeze.',
+          []
+        )
+      ).toEqual({
+        summary: 'Team moved the release to Thursday.',
+        topics: ['release date', 'deploy freeze'],
+      });
+    });
+
+    it('falls back to frequent conversation terms', () => {
+      const { summary, topics } = extractTopics('Release moved.', [
+        { role: 'user', content: 'release release deploy' },
+        { role: 'assistant', content: 'deploy release freeze' },
+      ]);
+
+      expect(summary).toBe('Release moved.');
+      expect(topics.slice(0, 2)).toEqual(['release', 'deploy']);
+    });
+  });
+
+  describe('summarizeThread', () => {
+    it('saves a summary with participants and topics', async () => {
+      const { anthropic, create } = createMockAnthropic(
+        'Release moved to Thursday because of the deploy freeze.\nTopics: release date, deploy freeze'
+      );
+
+      const result = await summarizeThread(
+        client,
+        { channelId: 'C1', threadTs: '1.1', participants: ['U3'] },
+        anthropic
+      );
+
+      expect(fetchThreadHistory).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'C1', threadTs: '1.1', includeLatest: true })
+      );
+      expect(create.mock.calls[0][0].system).toContain('Topics:');
+      expect(result).toEqual({
+        channelId: 'C1',
+        threadTs: '1.1',
+        summary: 'Release moved to Thursday because of the deploy freeze.',
+        participants: ['U3', 'U1', 'U2'],
+        topics: ['release date', 'deploy freeze'],
+        createdAt: expect.any(String),
+      });
+      expect(saveConversationSummary).toHaveBeenCalledWith(result);
+    });
+
+    it('skips threads that are too short', async () => {
+      vi.mocked(fetchThreadHistory).mockResolvedValueOnce([
+        { user: 'U1', text: 'hi', ts: '1.1', isBot: false },
+      ]);
+      const { anthropic, create } = createMockAnthropic('unused');
+
+      expect(
+        await summarizeThread(client, { channelId: 'C1', threadTs: '1.1' }, anthropic)
+      ).toBeNull();
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('returns null and warns when summarizing fails', async () => {
+      const anthropic = {
+        messages: { create: vi.fn().mockRejectedValue(new Error('overloaded')) },
+      } as unknown as Anthropic;
+
+      expect(
+        await summarizeThread(client, { channelId: 'C1', threadTs: '1.1' }, anthropic)
+      ).toBeNull();
+      expect(saveConversationSummary).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'thread_summary_failed', error: 'overloaded' })
+      );
+    });
+  });
+
+  describe('summarizeIdleThreads', () => {
+    it('summarizes idle threads once and leaves active ones alone', async () => {
+      const { anthropic } = createMockAnthropic('Summary.\nTopics: release');
+      recordThreadActivity({ channelId: 'C1', threadTs: '1.1', userId: 'U1', now: 0 });
+      recordThreadActivity({ channelId: 'C2', threadTs: '2.1', userId: 'U2', now: 50_000 });
+
+      const saved = await summarizeIdleThreads(client, { idleMs: 60_000, now: 60_000, anthropic });
+      const again = await summarizeIdleThreads(client, { idleMs: 60_000, now: 60_000, anthropic });
+
+      expect(saved).toBe(1);
+      expect(again).toBe(0);
+      expect(fetchThreadHistory).toHaveBeenCalledTimes(1);
+      expect(fetchThreadHistory).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'C1', threadTs: '1.1' })
+      );
+    });
+
+    it('uses the default idle window of 30 minutes', async () => {
+      const { anthropic } = createMockAnthropic('Summary.');
+      recordThreadActivity({ channelId: 'C1', threadTs: '1.1', now: 0 });
+
+      expect(await summarizeIdleThreads(client, { now: 29 * 60_000, anthropic })).toBe(0);
+      expect(await summarizeIdleThreads(client, { now: 30 * 60_000, anthropic })).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Idle Thread Summarizer
+ *
+ * Background job that turns finished conversations into conversation memory.
+ * Handlers record activity for each thread Orion answers in; once a thread has
+ * been idle for `THREAD_SUMMARY_IDLE_MINUTES` (default 30), the job fetches it
+ * from Slack, summarizes it with the compaction summarizer and saves a
+ * ConversationSummary (participants + topics), so later memory searches can
+ * recall "what did we decide about X last week".
+ *
+ * Activity is tracked in memory: threads that go idle across a restart are not
+ * summarized. A thread that becomes active again is re-summarized in full
+ * (the summary for a thread is overwritten).
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { WebClient } from '@slack/web-api';
+import { summarizeMessages, type HistoryMessage } from '../agent/compaction.js';
+import { saveConversationSummary, type ConversationSummary } from '../memory/conversations.js';
+import { tokenize } from '../retrieval/index.js';
+import { config } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import { fetchThreadHistory } from './thread-context.js';
+
+/** Minutes without activity before a thread is summarized */
+export const DEFAULT_IDLE_MINUTES = 30;
+
+/** How often the job looks for idle threads */
+export const SWEEP_INTERVAL_MS = 60_000;
+
+/** Threads with fewer messages are not worth summarizing */
+const MIN_MESSAGES_TO_SUMMARIZE = 2;
+
+/** Topics stored per summary */
+const MAX_TOPICS = 5;
+
+const MAX_SUMMARY_TOKENS = 800;
+
+/** Asks the summarizer for a machine-readable topics line */
+const TOPICS_INSTRUCTIONS = `This conversation has ended. Summarize the whole conversation.
+On the last line, list up to ${MAX_TOPICS} short topics (2-4 words each) in the form:
+Topics: topic one, topic two`;
+
+const TOPICS_LINE_PATTERN = /^\s*\**Topics:?\**:?\s*(.+)$/im;
+
+interface ThreadActivity {
+  channelId: string;
+  threadTs: string;
+  lastActivityAt: number;
+  participants: Set<string>;
+}
+
+const activeThreads = new Map<string, ThreadActivity>();
+
+/**
+ * Note activity in a thread (call after Orion handles a message in it).
+ */
+export function recordThreadActivity(params: {
+  channelId: string;
+  threadTs: string;
+  userId?: string;
+  now?: number;
+}): void {
+  const key = `${params.channelId}:${params.threadTs}`;
+  const entry = activeThreads.get(key) ?? {
+    channelId: params.channelId,
+    threadTs: params.threadTs,
+    lastActivityAt: 0,
+    participants: new Set<string>(),
+  };
+  entry.lastActivityAt = params.now ?? Date.now();
+  if (params.userId) entry.participants.add(params.userId);
+  activeThreads.set(key, entry);
+}
+
+/**
+ * Split the summarizer's reply into summary text and topics.
+ *
+ * Falls back to the most frequent terms in the conversation when the reply
+ * has no topics line.
+ */
+export function extractTopics(
+  summaryText: string,
+  messages: HistoryMessage[]
+): { summary: string; topics: string[] } {
+  const match = summaryText.match(TOPICS_LINE_PATTERN);
+  if (match) {
+    const topics = match[1]
+      .split(',')
+      .map((t) => t.trim().replace(/\.$/, '').toLowerCase())
+      .filter((t) => t.length > 0)
+      .slice(0, MAX_TOPICS);
+    return { summary: summaryText.replace(match[0], '').trim(), topics };
+  }
+
+  const counts = new Map<string, number>();
+  for (const term of tokenize(messages.map((m) => m.content).join('\n'))) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  const topics = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_TOPICS)
+    .map(([term]) => term);
+  return { summary: summaryText.trim(), topics };
+}
+
+/**
+ * Summarize one thread and save it as conversation memory.
+ *
+ * @returns The saved summary, or null if the thread was too short or summarizing failed
+ */
+export async function summarizeThread(
+  client: WebClient,
+  thread: { channelId: string; threadTs: string; participants?: Iterable<string> },
+  anthropic: Anthropic = new Anthropic({ apiKey: config.anthropicApiKey })
+): Promise<ConversationSummary | null> {
+  const { channelId, threadTs } = thread;
+  const history = await fetchThreadHistory({
+    client,
+    channel: channelId,
+    threadTs,
+    limit: 200,
+    maxTokens: 20_000,
+    keepLastN: 200,
+    includeLatest: true,
+  });
+
+  const messages: HistoryMessage[] = history
+    .filter((msg) => msg.text.length > 0)
+    .map((msg) => ({ role: msg.isBot ? 'assistant' : 'user', content: msg.text }));
+  if (messages.length < MIN_MESSAGES_TO_SUMMARIZE) {
+    return null;
+  }
+
+  const participants = new Set(thread.participants ?? []);
+  for (const msg of history) {
+    if (!msg.isBot && msg.user !== 'unknown') participants.add(msg.user);
+  }
+
+  try {
+    const text = await summarizeMessages({
+      messages,
+      anthropic,
+      model: config.anthropicModel,
+      maxSummaryTokens: MAX_SUMMARY_TOKENS,
+      instructions: TOPICS_INSTRUCTIONS,
+    });
+    const { summary, topics } = extractTopics(text, messages);
+
+    const conversation: ConversationSummary = {
+      channelId,
+      threadTs,
+      summary,
+      participants: [...participants],
+      topics,
+      createdAt: new Date().toISOString(),
+    };
+    await saveConversationSummary(conversation);
+    return conversation;
+  } catch (error) {
+    logger.warn({
+      event: 'thread_summary_failed',
+      channelId,
+      threadTs,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Summarize every tracked thread idle for longer than `idleMs`.
+ *
+ * @returns Number of summaries saved
+ */
+export async function summarizeIdleThreads(
+  client: WebClient,
+  options: { idleMs?: number; now?: number; anthropic?: Anthropic } = {}
+): Promise<number> {
+  const idleMs =
+    options.idleMs ?? (config.threadSummaryIdleMinutes ?? DEFAULT_IDLE_MINUTES) * 60_000;
+  const now = options.now ?? Date.now();
+
+  const idle = [...activeThreads.entries()].filter(([, t]) => now - t.lastActivityAt >= idleMs);
+  let saved = 0;
+
+  for (const [key, thread] of idle) {
+    // Untrack first: new activity during summarization starts a fresh idle timer
+    activeThreads.delete(key);
+    const summary = await summarizeThread(client, thread, options.anthropic);
+    if (summary) saved += 1;
+  }
+
+  if (idle.length > 0) {
+    logger.info({ event: 'thread_summaries_swept', idleThreads: idle.length, saved });
+  }
+  return saved;
+}
+
+/**
+ * Start the background job.
+ *
+ * @returns Function that stops the job
+ */
+export function startThreadSummarizer(
+  client: WebClient,
+  intervalMs: number = SWEEP_INTERVAL_MS
+): () => void {
+  let sweeping = false;
+  const timer = setInterval(() => {
+    if (sweeping) return;
+    sweeping = true;
+    summarizeIdleThreads(client)
+      .catch((error) => {
+        logger.error({
+          event: 'thread_summary_sweep_failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        sweeping = false;
+      });
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Forget all tracked threads.
+ */
+export function clearThreadActivity(): void {
+  activeThreads.clear();
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({})),
+}));
+
+import { createSlackToolApprovalRequester } from './tool-approval.js';
+import { clearPendingApprovals, resolvePendingApproval } from '../tools/approvals.js';
+
+const request = {
+  toolName: 'jira__delete_issue',
+  toolUseId: 'toolu_1',
+  input: { key: 'ABC-1' },
+  traceId: 'trace-1',
+};
+
+describe('createSlackToolApprovalRequester', () => {
+  const postMessage = vi.fn();
+  const update = vi.fn();
+  const client = { chat: { postMessage, update } } as never;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    postMessage.mockResolvedValue({ ok: true, ts: '999.000' });
+    update.mockResolvedValue({ ok: true });
+  });
+
+  afterEach(() => {
+    clearPendingApprovals();
+    vi.useRealTimers();
+  });
+
+  function approvalIdFromPost(): string {
+    const blocks = postMessage.mock.calls[0][0].blocks as Array<{
+      type: string;
+      elements?: Array<{ value: string }>;
+    }>;
+    return blocks.find((b) => b.type === 'actions')!.elements![0].value;
+  }
+
+  it('posts buttons in the thread and resolves with the click', async () => {
+    const requestApproval = createSlackToolApprovalRequester({
+      client,
+      channelId: 'C1',
+      threadTs: '111.222',
+      userId: 'U1',
+    });
+
+    const pending = requestApproval(request);
+    await vi.waitFor(() => expect(postMessage).toHaveBeenCalled());
+
+    expect(postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'C1', thread_ts: '111.222' })
+    );
+    resolvePendingApproval(approvalIdFromPost(), { outcome: 'approved', decidedBy: 'U1' });
+
+    await expect(pending).resolves.toEqual({ outcome: 'approved', decidedBy: 'U1' });
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'C1', ts: '999.000' })
+    );
+    expect(JSON.stringify(update.mock.calls[0][0].blocks)).toContain('approved by <@U1>');
+  });
+
+  it('resolves as timeout when nobody clicks', async () => {
+    vi.useFakeTimers();
+    const requestApproval = createSlackToolApprovalRequester({
+      client,
+      channelId: 'C1',
+      userId: 'U1',
+      timeoutMs: 1000,
+    });
+
+    const pending = requestApproval(request);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(pending).resolves.toEqual({ outcome: 'timeout' });
+    expect(JSON.stringify(update.mock.calls[0][0].blocks)).toContain('not approved in time');
+  });
+
+  it('reports the request as unavailable when it cannot be posted', async () => {
+    postMessage.mockRejectedValueOnce(new Error('channel_not_found'));
+    const requestApproval = createSlackToolApprovalRequester({
+      client,
+      channelId: 'C1',
+      userId: 'U1',
+    });
+
+    await expect(requestApproval(request)).resolves.toEqual({ outcome: 'unavailable' });
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Slack Tool Approval Requests
+ *
+ * Builds the `requestApproval` hook the agent loop calls before running a tool
+ * that requires approval: posts Approve/Deny buttons in the thread, waits for
+ * a click (or the configured timeout) and replaces the buttons with the outcome.
+ */
+
+import type { WebClient } from '@slack/web-api';
+import { getApprovalTimeoutMs } from '../tools/approval-policy.js';
+import {
+  createPendingApproval,
+  type RequestToolApproval,
+  type ToolApprovalDecision,
+} from '../tools/approvals.js';
+import { logger } from '../utils/logger.js';
+import {
+  createToolApprovalBlocks,
+  createToolApprovalResultBlocks,
+  toolApprovalText,
+} from './approval-block.js';
+
+type ApprovalClient = Pick<WebClient, 'chat'>;
+
+/**
+ * Create an approval hook that asks in a Slack thread.
+ *
+ * @param params.client - Slack Web API client
+ * @param params.channelId - Channel of the conversation
+ * @param params.threadTs - Thread to post in (top-level when omitted, e.g. DMs)
+ * @param params.userId - Requesting user (may always decide)
+ * @param params.timeoutMs - Override the configured approval timeout
+ */
+export function createSlackToolApprovalRequester(params: {
+  client: ApprovalClient;
+  channelId: string;
+  threadTs?: string;
+  userId: string;
+  timeoutMs?: number;
+}): RequestToolApproval {
+  return async (request): Promise<ToolApprovalDecision> => {
+    const { id, decision } = createPendingApproval({
+      request,
+      requesterId: params.userId,
+      timeoutMs: params.timeoutMs ?? getApprovalTimeoutMs(),
+    });
+
+    let messageTs: string | undefined;
+    try {
+      const posted = await params.client.chat.postMessage({
+        channel: params.channelId,
+        thread_ts: params.threadTs,
+        text: toolApprovalText(request.toolName),
+        blocks: createToolApprovalBlocks({
+          approvalId: id,
+          toolName: request.toolName,
+          input: request.input,
+          requesterId: params.userId,
+        }),
+      });
+      messageTs = posted.ts;
+    } catch (error) {
+      logger.error({
+        event: 'tool_approval.post_failed',
+        toolName: request.toolName,
+        channelId: params.channelId,
+        error: error instanceof Error ? error.message : String(error),
+        traceId: request.traceId,
+      });
+      // Can't ask, so the call must not run. The pending entry expires on its own.
+      return { outcome: 'unavailable' };
+    }
+
+    logger.info({
+      event: 'tool_approval.requested',
+      approvalId: id,
+      toolName: request.toolName,
+      userId: params.userId,
+      channelId: params.channelId,
+      traceId: request.traceId,
+    });
+
+    const result = await decision;
+
+    logger.info({
+      event: 'tool_approval.decided',
+      approvalId: id,
+      toolName: request.toolName,
+      outcome: result.outcome,
+      decidedBy: result.decidedBy,
+      channelId: params.channelId,
+      traceId: request.traceId,
+    });
+
+    if (messageTs) {
+      try {
+        await params.client.chat.update({
+          channel: params.channelId,
+          ts: messageTs,
+          text: toolApprovalText(request.toolName),
+          blocks: createToolApprovalResultBlocks({
+            toolName: request.toolName,
+            outcome: result.outcome,
+            decidedBy: result.decidedBy,
+          }),
+        });
+      } catch (error) {
+        logger.warn({
+          event: 'tool_approval.update_failed',
+          approvalId: id,
+          error: error instanceof Error ? error.message : String(error),
+          traceId: request.traceId,
+        });
+      }
+    }
+
+    return result;
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({})),
+}));
+
+import {
+  canDecideApproval,
+  DEFAULT_APPROVAL_TIMEOUT_MS,
+  getApprovalTimeoutMs,
+  isDestructiveAnnotation,
+  matchesToolPattern,
+  requiresToolApproval,
+} from './approval-policy.js';
+import { toolRegistry } from './registry.js';
+
+const tool = (name: string) => ({
+  name,
+  input_schema: { type: 'object' as const, properties: {} },
+});
+
+describe('approval-policy', () => {
+  beforeEach(() => {
+    toolRegistry.__resetForTests();
+  });
+
+  describe('matchesToolPattern', () => {
+    it('matches exact names and * wildcards case-insensitively', () => {
+      expect(matchesToolPattern('jira__create_issue', 'jira__create_issue')).toBe(true);
+      expect(matchesToolPattern('rube__GMAIL_SEND_EMAIL', 'rube__*send*')).toBe(true);
+      expect(matchesToolPattern('rube__GMAIL_FETCH', 'rube__*send*')).toBe(false);
+    });
+
+    it('treats regex metacharacters literally', () => {
+      expect(matchesToolPattern('a.b', 'a.b')).toBe(true);
+      expect(matchesToolPattern('axb', 'a.b')).toBe(false);
+    });
+  });
+
+  describe('isDestructiveAnnotation', () => {
+    it('requires an explicit destructive hint on a non-read-only tool', () => {
+      expect(isDestructiveAnnotation(undefined)).toBe(false);
+      expect(isDestructiveAnnotation({ destructiveHint: true })).toBe(true);
+      expect(isDestructiveAnnotation({ destructiveHint: true, readOnlyHint: true })).toBe(false);
+      expect(isDestructiveAnnotation({ destructiveHint: false })).toBe(false);
+    });
+  });
+
+  describe('requiresToolApproval', () => {
+    it('requires approval for configured patterns', () => {
+      expect(requiresToolApproval('jira__create_issue', { require: ['jira__create_*'] })).toBe(true);
+      expect(requiresToolApproval('jira__search', { require: ['jira__create_*'] })).toBe(false);
+    });
+
+    it('lets exempt patterns win over require patterns', () => {
+      expect(
+        requiresToolApproval('jira__create_issue', {
+          require: ['jira__*'],
+          exempt: ['jira__create_issue'],
+        })
+      ).toBe(false);
+    });
+
+    it('requires approval for MCP tools annotated as destructive', () => {
+      toolRegistry.registerMcpTools('files', [
+        { originalName: 'delete', claudeTool: tool('files__delete'), annotations: { destructiveHint: true } },
+        { originalName: 'read', claudeTool: tool('files__read'), annotations: { readOnlyHint: true } },
+      ]);
+
+      expect(requiresToolApproval('files__delete', {})).toBe(true);
+      expect(requiresToolApproval('files__read', {})).toBe(false);
+      expect(requiresToolApproval('files__delete', { mcp_destructive_hint: false })).toBe(false);
+    });
+
+    it('reads the approvals section from .orion/config.yaml by default', async () => {
+      const { loadOrionConfig } = await import('../config/orion-config.js');
+      vi.mocked(loadOrionConfig).mockReturnValueOnce({ approvals: { require: ['send_*'] } });
+
+      expect(requiresToolApproval('send_email')).toBe(true);
+    });
+  });
+
+  describe('getApprovalTimeoutMs', () => {
+    it('uses timeout_seconds when valid', () => {
+      expect(getApprovalTimeoutMs({ timeout_seconds: 60 })).toBe(60_000);
+      expect(getApprovalTimeoutMs({ timeout_seconds: 0 })).toBe(DEFAULT_APPROVAL_TIMEOUT_MS);
+      expect(getApprovalTimeoutMs({})).toBe(DEFAULT_APPROVAL_TIMEOUT_MS);
+    });
+  });
+
+  describe('canDecideApproval', () => {
+    it('allows the requester and configured approvers only', () => {
+      expect(canDecideApproval('U1', 'U1', {})).toBe(true);
+      expect(canDecideApproval('U2', 'U1', {})).toBe(false);
+      expect(canDecideApproval('U2', 'U1', { approvers: ['U2'] })).toBe(true);
+    });
+  });
+});
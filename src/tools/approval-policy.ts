@@ -0,0 +1,79 @@
+/**
+ * Tool approval policy.
+ *
+ * Decides which tool calls must be approved by a human before they run
+ * (`approvals` in .orion/config.yaml):
+ * - `exempt` patterns never require approval
+ * - `require` patterns always require approval
+ * - MCP tools annotated `destructiveHint: true` (and not `readOnlyHint: true`)
+ *   require approval unless `mcp_destructive_hint: false`
+ *
+ * Patterns match the registered tool name (`server__tool` for MCP tools),
+ * case-insensitively, with `*` as a wildcard.
+ */
+
+import { loadOrionConfig, type ApprovalsConfig } from '../config/orion-config.js';
+import type { McpToolAnnotations } from './mcp/types.js';
+import { toolRegistry } from './registry.js';
+
+/** Default wait for an approval decision */
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * Check whether a tool name matches a `*` wildcard pattern (case-insensitive).
+ */
+export function matchesToolPattern(toolName: string, pattern: string): boolean {
+  const escaped = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i').test(toolName);
+}
+
+function matchesAny(toolName: string, patterns: string[] | undefined): boolean {
+  return (patterns ?? []).some((p) => matchesToolPattern(toolName, p));
+}
+
+/**
+ * Whether MCP annotations mark a tool as destructive.
+ */
+export function isDestructiveAnnotation(annotations: McpToolAnnotations | undefined): boolean {
+  return annotations?.destructiveHint === true && annotations.readOnlyHint !== true;
+}
+
+/**
+ * Decide whether a tool call needs human approval.
+ *
+ * @param toolName - Registered tool name
+ * @param approvals - Approvals config (default: .orion/config.yaml)
+ */
+export function requiresToolApproval(
+  toolName: string,
+  approvals: ApprovalsConfig = loadOrionConfig().approvals ?? {}
+): boolean {
+  if (matchesAny(toolName, approvals.exempt)) return false;
+  if (matchesAny(toolName, approvals.require)) return true;
+  if (approvals.mcp_destructive_hint === false) return false;
+  return isDestructiveAnnotation(toolRegistry.getMcpTool(toolName)?.annotations);
+}
+
+/**
+ * How long to wait for a decision before treating the call as denied.
+ */
+export function getApprovalTimeoutMs(
+  approvals: ApprovalsConfig = loadOrionConfig().approvals ?? {}
+): number {
+  const seconds = approvals.timeout_seconds;
+  return typeof seconds === 'number' && seconds > 0 ? seconds * 1000 : DEFAULT_APPROVAL_TIMEOUT_MS;
+}
+
+/**
+ * Whether a Slack user may decide an approval requested on behalf of `requesterId`.
+ */
+export function canDecideApproval(
+  userId: string,
+  requesterId: string,
+  approvals: ApprovalsConfig = loadOrionConfig().approvals ?? {}
+): boolean {
+  return userId === requesterId || (approvals.approvers ?? []).includes(userId);
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  clearPendingApprovals,
+  createPendingApproval,
+  getPendingApproval,
+  resolvePendingApproval,
+} from './approvals.js';
+
+const request = { toolName: 'jira__delete_issue', toolUseId: 'toolu_1', input: { key: 'ABC-1' } };
+
+describe('pending tool approvals', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    clearPendingApprovals();
+    vi.useRealTimers();
+  });
+
+  it('resolves with the first decision', async () => {
+    const { id, decision } = createPendingApproval({ request, requesterId: 'U1', timeoutMs: 1000 });
+
+    expect(getPendingApproval(id)).toEqual(
+      expect.objectContaining({ id, request, requesterId: 'U1' })
+    );
+    expect(resolvePendingApproval(id, { outcome: 'approved', decidedBy: 'U1' })).toBe(true);
+    expect(resolvePendingApproval(id, { outcome: 'denied', decidedBy: 'U1' })).toBe(false);
+
+    await expect(decision).resolves.toEqual({ outcome: 'approved', decidedBy: 'U1' });
+    expect(getPendingApproval(id)).toBeUndefined();
+  });
+
+  it('resolves as timeout when nobody decides', async () => {
+    const { id, decision } = createPendingApproval({ request, requesterId: 'U1', timeoutMs: 1000 });
+
+    vi.advanceTimersByTime(1000);
+
+    await expect(decision).resolves.toEqual({ outcome: 'timeout' });
+    expect(resolvePendingApproval(id, { outcome: 'approved', decidedBy: 'U1' })).toBe(false);
+  });
+
+  it('returns false for unknown approvals', () => {
+    expect(resolvePendingApproval('missing', { outcome: 'denied', decidedBy: 'U1' })).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Pending tool approvals.
+ *
+ * In-process registry connecting a tool call waiting in the agent loop with
+ * the Slack button click that decides it. Each pending approval resolves
+ * exactly once: on the first decision or when its timeout fires.
+ *
+ * The registry lives in memory, so the click must reach the instance that
+ * posted the request; clicks for unknown (expired or foreign) approvals are
+ * reported back to the user by the action handler.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+/**
+ * A tool call awaiting approval.
+ */
+export interface ToolApprovalRequest {
+  toolName: string;
+  toolUseId: string;
+  input: unknown;
+  traceId?: string;
+}
+
+/** `unavailable`: the request could not be shown to anyone (e.g. posting it failed) */
+export type ToolApprovalOutcome = 'approved' | 'denied' | 'timeout' | 'unavailable';
+
+export interface ToolApprovalDecision {
+  outcome: ToolApprovalOutcome;
+  /** Slack user who clicked (absent on timeout) */
+  decidedBy?: string;
+}
+
+/**
+ * Hook the agent loop calls before running a tool that requires approval.
+ * Implementations must resolve (never reject) — a timeout resolves as `timeout`.
+ */
+export type RequestToolApproval = (request: ToolApprovalRequest) => Promise<ToolApprovalDecision>;
+
+/**
+ * Metadata kept for a pending approval (used by the action handler).
+ */
+export interface PendingToolApproval {
+  id: string;
+  request: ToolApprovalRequest;
+  /** Slack user whose request triggered the tool call */
+  requesterId: string;
+  createdAt: number;
+}
+
+interface PendingEntry extends PendingToolApproval {
+  resolve: (decision: ToolApprovalDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const pending = new Map<string, PendingEntry>();
+
+/**
+ * Register a pending approval.
+ *
+ * @returns Approval ID (button value) and a promise for the decision
+ */
+export function createPendingApproval(params: {
+  request: ToolApprovalRequest;
+  requesterId: string;
+  timeoutMs: number;
+}): { id: string; decision: Promise<ToolApprovalDecision> } {
+  const id = randomUUID();
+
+  const decision = new Promise<ToolApprovalDecision>((resolve) => {
+    const timer = setTimeout(() => {
+      pending.delete(id);
+      resolve({ outcome: 'timeout' });
+    }, params.timeoutMs);
+    timer.unref?.();
+
+    pending.set(id, {
+      id,
+      request: params.request,
+      requesterId: params.requesterId,
+      createdAt: Date.now(),
+      resolve,
+      timer,
+    });
+  });
+
+  return { id, decision };
+}
+
+/**
+ * Look up a pending approval.
+ */
+export function getPendingApproval(id: string): PendingToolApproval | undefined {
+  const entry = pending.get(id);
+  if (!entry) return undefined;
+  const { id: entryId, request, requesterId, createdAt } = entry;
+  return { id: entryId, request, requesterId, createdAt };
+}
+
+/**
+ * Decide a pending approval.
+ *
+ * @returns false if the approval is unknown or already decided/expired
+ */
+export function resolvePendingApproval(
+  id: string,
+  decision: { outcome: 'approved' | 'denied'; decidedBy: string }
+): boolean {
+  const entry = pending.get(id);
+  if (!entry) return false;
+  pending.delete(id);
+  clearTimeout(entry.timer);
+  entry.resolve(decision);
+  return true;
+}
+
+/**
+ * Drop all pending approvals without resolving them (for testing)
+ */
+export function clearPendingApprovals(): void {
+  for (const entry of pending.values()) {
+    clearTimeout(entry.timer);
+  }
+  pending.clear();
+}
@@ -8,11 +8,17 @@
  * Claude Agent SDK handles tool discovery natively via mcpServers config.
  * This module now provides a static summary — SDK discovers specifics on-demand.
  *
+ * Tool lookups (`getToolDetails`, `searchTools`) read the unified registry; search
+ * uses the tool index (tool-index.ts) that also picks the tools sent per request.
+ *
  * @see Story 3.0 - Vercel Sandbox Agent Runtime
  * @see AR17 - Minimal tools in context
  */
 
+import type Anthropic from '@anthropic-ai/sdk';
 import { getMcpServersConfig } from './mcp/config.js';
+import { parseMcpToolName, toolRegistry } from './registry.js';
+import { rankTools } from './tool-index.js';
 
 /**
  * Essential tool patterns that should always be mentioned in context
@@ -59,38 +65,44 @@ Common tool categories include: ${ESSENTIAL_TOOL_PATTERNS.join(', ')}.`;
 }
 
 /**
- * ToolSchema type for compatibility
- * (Simplified - SDK handles actual schemas)
+ * Tool summary for lookups and search
  */
 export interface ToolSchema {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
+  /** MCP server name, or '' for static tools */
   server: string;
 }
 
+function toToolSchema(tool: Anthropic.Tool): ToolSchema {
+  return {
+    name: tool.name,
+    description: tool.description ?? '',
+    inputSchema: tool.input_schema as Record<string, unknown>,
+    server: parseMcpToolName(tool.name)?.serverName ?? '',
+  };
+}
+
 /**
- * Get detailed schema for a specific tool
- * NOTE: With SDK-native discovery, this returns undefined.
- * The SDK handles tool schemas internally.
+ * Get the schema of a registered tool
  *
- * @param _toolName - Name of the tool to look up
- * @returns undefined (SDK handles tool schemas)
+ * @param toolName - Claude-facing tool name (`server__tool` for MCP tools)
+ * @returns The schema, or undefined if the tool is not registered or its server is down
  */
-export function getToolDetails(_toolName: string): ToolSchema | undefined {
-  // SDK handles tool discovery and schemas natively
-  return undefined;
+export function getToolDetails(toolName: string): ToolSchema | undefined {
+  const tool = toolRegistry.getToolsForClaude().find((t) => t.name === toolName);
+  return tool ? toToolSchema(tool) : undefined;
 }
 
 /**
- * Search tools by keyword
- * NOTE: With SDK-native discovery, this returns empty array.
- * The SDK handles tool discovery internally.
+ * Search registered tools by what they do (see tool-index.ts)
  *
- * @param _keyword - Search term
- * @returns Empty array (SDK handles tool discovery)
+ * @param keyword - Search text
+ * @param limit - Max results (default 10)
+ * @returns Matching tools, best match first
  */
-export function searchTools(_keyword: string): ToolSchema[] {
-  // SDK handles tool discovery natively
-  return [];
+export async function searchTools(keyword: string, limit: number = 10): Promise<ToolSchema[]> {
+  const tools = await rankTools(keyword, toolRegistry.getToolsForClaude(), { limit });
+  return tools.map(toToolSchema);
 }
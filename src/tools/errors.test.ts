@@ -56,6 +56,14 @@ describe('formatErrorForClaude', () => {
     expect(msg).toContain('search');
     expect(msg.toLowerCase()).toContain('rate');
   });
-});
-
 
+  it('tells Claude when the user has to connect their account', () => {
+    const msg = formatErrorForClaude('github__create_issue', {
+      code: 'AUTH_REQUIRED',
+      message: 'A connect link was sent to them by direct message.',
+      retryable: false,
+    });
+    expect(msg).toContain("needs the user's own account");
+    expect(msg).toContain('direct message');
+  });
+});
@@ -89,6 +89,10 @@ export function formatErrorForClaude(toolName: string, error: ToolError): string
   if (error.code === 'MCP_CONNECTION_FAILED') {
     return `I couldn't reach the ${toolName} tool service. Try again in a moment.`;
   }
+  if (error.code === 'AUTH_REQUIRED') {
+    // The message says whether a connect link was sent to the user
+    return `The ${toolName} tool needs the user's own account. ${error.message}`;
+  }
   if (error.code === 'TOOL_UNAVAILABLE') {
     return `The ${toolName} tool is unavailable right now.`;
   }
@@ -35,6 +35,17 @@ describe('executeTool', () => {
     expect(endToolExecuteSpan).toHaveBeenCalled();
   });
 
+  it('forwards the caller context to the router', async () => {
+    const route = vi.fn().mockResolvedValue({ success: true, data: 'ok' } satisfies ToolResult);
+    const context = { userId: 'U1', channelId: 'C1', traceId: 'trace-1' };
+
+    const resultPromise = executeTool('test', 'id-1', {}, route, { traceId: 'trace-1', context });
+    await vi.runAllTimersAsync();
+    await resultPromise;
+
+    expect(route).toHaveBeenCalledWith(expect.objectContaining({ context }));
+  });
+
   it('retries on retryable error and logs tool.retry', async () => {
     const route = vi
       .fn()
@@ -14,6 +14,7 @@ import { formatErrorForClaude, toToolError } from './errors.js';
 import { withRetry } from './retry.js';
 import { withTimeout } from './timeout.js';
 import { endToolExecuteSpan, logToolRetry, startToolExecuteSpan } from './observability.js';
+import type { ToolCallContext } from './registry.js';
 
 const DEFAULT_TIMEOUT_MS = 30_000;
 const DEFAULT_MAX_RETRIES = 3;
@@ -22,6 +23,8 @@ export interface ExecuteToolOptions {
   timeoutMs?: number;
   maxRetries?: number;
   traceId: string;
+  /** Requesting user/channel, forwarded to routeToolCall */
+  context?: ToolCallContext;
 }
 
 export type RouteToolCall = (input: {
@@ -30,6 +33,7 @@ export type RouteToolCall = (input: {
   args: Record<string, unknown>;
   traceId: string;
   signal: AbortSignal;
+  context?: ToolCallContext;
 }) => Promise<ToolResult<unknown>>;
 
 export async function executeTool(
@@ -61,6 +65,7 @@ export async function executeTool(
               args,
               traceId,
               signal,
+              context: options.context,
             }),
           timeoutMs
         );
@@ -163,7 +168,8 @@ function normalizeToolError(error: ToolError): ToolError {
     error.code === 'MCP_CONNECTION_FAILED' ||
     error.code === 'TOOL_INVALID_INPUT' ||
     error.code === 'TOOL_UNAVAILABLE' ||
-    error.code === 'TOOL_NOT_FOUND'
+    error.code === 'TOOL_NOT_FOUND' ||
+    error.code === 'AUTH_REQUIRED'
   ) {
     return error;
   }
@@ -11,7 +11,7 @@
  * @see Story 3.3 - Tool Execution with Timeout
  */
 
-// Context (simplified - SDK handles discovery)
+// Context summary and tool lookups
 export {
   getToolContextSummary,
   getToolDetails,
@@ -20,6 +20,17 @@ export {
   type ToolSchema,
 } from './context.js';
 
+// Relevance-ranked tool selection
+export {
+  selectTools,
+  rankTools,
+  searchToolCatalog,
+  searchToolsDefinition,
+  SEARCH_TOOLS_NAME,
+  DEFAULT_TOOL_SELECTION_LIMIT,
+  type ToolSelection,
+} from './tool-index.js';
+
 // Tool Execution (Story 3.3)
 export {
   withToolTimeout,
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./client.js', () => ({
+  McpClient: vi.fn((name: string, config: unknown) => ({ name, config })),
+}));
+
+const { stdioTransport } = vi.hoisted(() => ({ stdioTransport: { request: vi.fn() } }));
+
+vi.mock('./stdio-transport.js', () => ({
+  getStdioTransport: vi.fn(() => stdioTransport),
+}));
+
+import { createMcpClient } from './client-factory.js';
+import { McpClient } from './client.js';
+import { getStdioTransport } from './stdio-transport.js';
+
+const base = {
+  name: 'github',
+  enabled: true,
+  connectionTimeoutMs: 5000,
+  requestTimeoutMs: 60000,
+};
+
+describe('createMcpClient', () => {
+  it('passes url, auth, headers and timeouts to the HTTP client', () => {
+    const result = createMcpClient({
+      ...base,
+      type: 'http',
+      url: 'https://gh.internal/mcp',
+      bearerToken: 'tok',
+      headers: { 'X-Team': 'platform' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(McpClient).toHaveBeenCalledWith('github', {
+      url: 'https://gh.internal/mcp',
+      bearerToken: 'tok',
+      headers: { 'X-Team': 'platform' },
+      connectionTimeoutMs: 5000,
+      requestTimeoutMs: 60000,
+    });
+  });
+
+  it('returns TOOL_INVALID_INPUT when an http/sse server has no url', () => {
+    const result = createMcpClient({ ...base, type: 'sse', url: '' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error.code).toBe('TOOL_INVALID_INPUT');
+  });
+
+  it('uses the shared stdio transport for stdio servers', () => {
+    const result = createMcpClient({ ...base, type: 'stdio', command: 'npx', args: ['server-git'] });
+
+    expect(result.success).toBe(true);
+    expect(getStdioTransport).toHaveBeenCalledWith(expect.objectContaining({ name: 'github' }));
+    expect(McpClient).toHaveBeenLastCalledWith('github', {
+      transport: stdioTransport,
+      connectionTimeoutMs: 5000,
+      requestTimeoutMs: 60000,
+    });
+  });
+
+  it('returns TOOL_INVALID_INPUT when a stdio server has no command', () => {
+    const result = createMcpClient({ ...base, type: 'stdio' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error.code).toBe('TOOL_INVALID_INPUT');
+  });
+});
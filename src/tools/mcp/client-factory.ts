@@ -0,0 +1,71 @@
+/**
+ * MCP client construction from server config.
+ *
+ * Shared by discovery and tool routing so every transport and per-server
+ * setting (headers, auth, timeouts) is applied the same way. Tool routing passes
+ * a user's own OAuth token for servers with per-user auth (see oauth.ts).
+ *
+ * Never throws; returns ToolResult<McpClient>.
+ */
+
+import type { McpServerConfig } from '../../config/mcp-servers.js';
+import type { ToolResult } from '../../utils/tool-result.js';
+import { McpClient } from './client.js';
+import { getStdioTransport } from './stdio-transport.js';
+
+/**
+ * Create a client for a configured MCP server.
+ *
+ * stdio servers share one long-lived process per server (see stdio-transport.ts).
+ *
+ * @param options.bearerToken - Token used instead of the server's `bearer_token`
+ *   (http / sse only)
+ * @returns Client, or TOOL_INVALID_INPUT when the server config is incomplete
+ */
+export function createMcpClient(
+  server: McpServerConfig,
+  options: { bearerToken?: string } = {}
+): ToolResult<McpClient> {
+  if (server.type === 'stdio') {
+    if (!server.command) {
+      return {
+        success: false,
+        error: {
+          code: 'TOOL_INVALID_INPUT',
+          message: `Invalid MCP server config for "${server.name}": missing command`,
+          retryable: false,
+        },
+      };
+    }
+    return {
+      success: true,
+      data: new McpClient(server.name, {
+        transport: getStdioTransport(server),
+        connectionTimeoutMs: server.connectionTimeoutMs,
+        requestTimeoutMs: server.requestTimeoutMs,
+      }),
+    };
+  }
+
+  if (!server.url) {
+    return {
+      success: false,
+      error: {
+        code: 'TOOL_INVALID_INPUT',
+        message: `Invalid MCP server config for "${server.name}": missing url`,
+        retryable: false,
+      },
+    };
+  }
+
+  return {
+    success: true,
+    data: new McpClient(server.name, {
+      url: server.url,
+      bearerToken: options.bearerToken ?? server.bearerToken,
+      headers: server.headers,
+      connectionTimeoutMs: server.connectionTimeoutMs,
+      requestTimeoutMs: server.requestTimeoutMs,
+    }),
+  };
+}
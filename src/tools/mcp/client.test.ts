@@ -11,7 +11,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { McpClient } from './client.js';
+import { __resetMcpSessionsForTests, McpClient } from './client.js';
+import { __resetServerHealthForTests, getAllServerHealth } from './health.js';
 import type { McpClientConfig } from './types.js';
 
 // Mock fetch globally
@@ -29,6 +30,8 @@ describe('McpClient', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.useFakeTimers();
+    __resetServerHealthForTests();
+    __resetMcpSessionsForTests();
   });
 
   afterEach(() => {
@@ -151,6 +154,22 @@ describe('McpClient', () => {
       }
     });
 
+    it('returns AUTH_REQUIRED on HTTP 401', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+      });
+
+      const client = new McpClient('test-server', testConfig);
+      const result = await client.listTools();
+
+      expect(result).toEqual({
+        success: false,
+        error: { code: 'AUTH_REQUIRED', message: 'HTTP 401: Unauthorized', retryable: false },
+      });
+    });
+
     it('returns TOOL_EXECUTION_FAILED on invalid JSON', async () => {
       // Arrange
       mockFetch.mockResolvedValueOnce({
@@ -216,6 +235,130 @@ describe('McpClient', () => {
     });
   });
 
+  describe('transport details', () => {
+    it('sends configured headers and accepts SSE-framed responses', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ 'content-type': 'text/event-stream' }),
+        text: () =>
+          Promise.resolve(
+            'event: message\ndata: {"jsonrpc":"2.0","method":"notifications/progress"}\n\n' +
+              'event: message\ndata: {"jsonrpc":"2.0","id":1,"result":{"tools":[]}}\n\n'
+          ),
+      });
+
+      const client = new McpClient('docs', {
+        url: 'https://docs.internal/mcp',
+        headers: { 'X-Api-Key': 'k' },
+      });
+      const result = await client.listTools();
+
+      expect(result).toEqual({ success: true, data: [] });
+      const headers = mockFetch.mock.calls[0][1].headers;
+      expect(headers['X-Api-Key']).toBe('k');
+      expect(headers['Accept']).toContain('text/event-stream');
+    });
+
+    it('returns TOOL_EXECUTION_FAILED when the event stream has no matching response', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ 'content-type': 'text/event-stream' }),
+        text: () => Promise.resolve('data: {"jsonrpc":"2.0","id":99,"result":{}}\n\n'),
+      });
+
+      const client = new McpClient('docs', { url: 'https://docs.internal/mcp' });
+      const result = await client.listTools();
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('TOOL_EXECUTION_FAILED');
+    });
+  });
+
+  describe('sessions', () => {
+    function reply(result: unknown, sessionId?: string) {
+      return {
+        ok: true,
+        status: 200,
+        headers: { get: (name: string) => (name === 'Mcp-Session-Id' ? sessionId ?? null : null) },
+        json: () => Promise.resolve({ jsonrpc: '2.0', id: 1, result }),
+      };
+    }
+
+    function rejected(status: number) {
+      return { ok: false, status, statusText: status === 400 ? 'Bad Request' : 'Not Found' };
+    }
+
+    const sentMethods = (): string[] =>
+      mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body as string).method);
+    const sentSessions = (): Array<string | undefined> =>
+      mockFetch.mock.calls.map(([, init]) => init.headers['Mcp-Session-Id']);
+
+    it('initializes a session when the server requires one and retries once', async () => {
+      mockFetch
+        .mockResolvedValueOnce(rejected(400))
+        .mockResolvedValueOnce(reply({ protocolVersion: '2025-03-26' }, 'session-1'))
+        .mockResolvedValueOnce({ ok: true, status: 202 })
+        .mockResolvedValueOnce(reply({ tools: [] }));
+
+      const result = await new McpClient('test-server', testConfig).listTools();
+
+      expect(result).toEqual({ success: true, data: [] });
+      expect(sentMethods()).toEqual([
+        'tools/list',
+        'initialize',
+        'notifications/initialized',
+        'tools/list',
+      ]);
+      expect(sentSessions()).toEqual([undefined, undefined, 'session-1', 'session-1']);
+    });
+
+    it('reuses the session across clients for the same server and token', async () => {
+      mockFetch
+        .mockResolvedValueOnce(reply({ tools: [] }, 'session-1'))
+        .mockResolvedValueOnce(reply({ tools: [] }))
+        .mockResolvedValueOnce(reply({ tools: [] }));
+
+      await new McpClient('test-server', testConfig).listTools();
+      await new McpClient('test-server', testConfig).listTools();
+      await new McpClient('test-server', { ...testConfig, bearerToken: 'other-user' }).listTools();
+
+      expect(sentSessions()).toEqual([undefined, 'session-1', undefined]);
+    });
+
+    it('starts a new session when the server ended the old one', async () => {
+      mockFetch
+        .mockResolvedValueOnce(reply({ tools: [] }, 'session-1'))
+        .mockResolvedValueOnce(rejected(404))
+        .mockResolvedValueOnce(reply({ protocolVersion: '2025-03-26' }, 'session-2'))
+        .mockResolvedValueOnce({ ok: true, status: 202 })
+        .mockResolvedValueOnce(reply({ content: [] }));
+
+      const client = new McpClient('test-server', testConfig);
+      await client.listTools();
+      const result = await client.callTool('search', {});
+
+      expect(result.success).toBe(true);
+      expect(sentMethods().slice(1)).toEqual([
+        'tools/call',
+        'initialize',
+        'notifications/initialized',
+        'tools/call',
+      ]);
+      expect(sentSessions().at(-1)).toBe('session-2');
+    });
+
+    it('reports the original error when the server issues no session', async () => {
+      mockFetch
+        .mockResolvedValueOnce(rejected(400))
+        .mockResolvedValueOnce(reply({ protocolVersion: '2025-03-26' }));
+
+      const result = await new McpClient('test-server', testConfig).listTools();
+
+      expect(result.success === false && result.error.message).toContain('400');
+      expect(sentMethods()).toEqual(['tools/list', 'initialize']);
+    });
+  });
+
   describe('callTool()', () => {
     it('returns success with content on valid response', async () => {
       // Arrange
@@ -317,6 +460,190 @@ describe('McpClient', () => {
     });
   });
 
+  describe('circuit breaker', () => {
+    const okToolsList = (): unknown => ({
+      ok: true,
+      json: () => Promise.resolve({ jsonrpc: '2.0', id: 1, result: { tools: [] } }),
+    });
+    const okCall = (): unknown => ({
+      ok: true,
+      json: () => Promise.resolve({ jsonrpc: '2.0', id: 2, result: { content: [] } }),
+    });
+
+    async function tripCircuit(client: McpClient): Promise<void> {
+      mockFetch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      for (let i = 0; i < 3; i++) {
+        await client.callTool('search', {});
+      }
+      mockFetch.mockReset();
+    }
+
+    it('opens after consecutive failures and rejects without calling the server', async () => {
+      const client = new McpClient('flaky-server', testConfig);
+      await tripCircuit(client);
+
+      const result = await client.callTool('search', {});
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('TOOL_UNAVAILABLE');
+        expect(result.error.retryable).toBe(true);
+        expect(result.error.message).toContain('temporarily unavailable');
+      }
+      expect(getAllServerHealth()).toEqual([
+        expect.objectContaining({ name: 'flaky-server', circuitState: 'open', available: false }),
+      ]);
+    });
+
+    it('does not count tool-level errors from a responsive server', async () => {
+      const client = new McpClient('flaky-server', testConfig);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({ jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'Bad params' } }),
+      });
+
+      for (let i = 0; i < 5; i++) {
+        await client.callTool('search', {});
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+    });
+
+    it('probes with tools/list after the cooldown and closes on success', async () => {
+      const client = new McpClient('flaky-server', testConfig);
+      await tripCircuit(client);
+      vi.advanceTimersByTime(30_000);
+      mockFetch.mockResolvedValueOnce(okToolsList()).mockResolvedValueOnce(okCall());
+
+      const result = await client.callTool('search', {});
+
+      expect(result.success).toBe(true);
+      const methods = mockFetch.mock.calls.map((call) => JSON.parse(call[1].body).method);
+      expect(methods).toEqual(['tools/list', 'tools/call']);
+      expect(getAllServerHealth()[0]).toMatchObject({ circuitState: 'closed', consecutiveFailures: 0 });
+    });
+
+    it('reopens when the probe fails', async () => {
+      const client = new McpClient('flaky-server', testConfig);
+      await tripCircuit(client);
+      vi.advanceTimersByTime(30_000);
+      mockFetch.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      await client.callTool('search', {});
+      const next = await client.callTool('search', {});
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(next.success).toBe(false);
+      expect(getAllServerHealth()[0].circuitState).toBe('open');
+    });
+  });
+
+  describe('resources and prompts', () => {
+    const rpcResult = (result: unknown): unknown => ({
+      ok: true,
+      json: () => Promise.resolve({ jsonrpc: '2.0', id: 1, result }),
+    });
+    const sentBodies = (): Array<{ method: string; params: Record<string, unknown> }> =>
+      mockFetch.mock.calls.map((call) => JSON.parse(call[1].body));
+
+    it('lists resources across pages', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          rpcResult({ resources: [{ uri: 'runbook://db', name: 'db' }], nextCursor: 'p2' })
+        )
+        .mockResolvedValueOnce(rpcResult({ resources: [{ uri: 'runbook://api', name: 'api' }] }));
+
+      const client = new McpClient('test-server', testConfig);
+      const result = await client.listResources();
+
+      expect(result).toEqual({
+        success: true,
+        data: [
+          { uri: 'runbook://db', name: 'db' },
+          { uri: 'runbook://api', name: 'api' },
+        ],
+      });
+      expect(sentBodies().map((b) => [b.method, b.params])).toEqual([
+        ['resources/list', {}],
+        ['resources/list', { cursor: 'p2' }],
+      ]);
+    });
+
+    it('reads a resource', async () => {
+      mockFetch.mockResolvedValueOnce(
+        rpcResult({ contents: [{ uri: 'runbook://db', mimeType: 'text/markdown', text: '# DB' }] })
+      );
+
+      const client = new McpClient('test-server', testConfig);
+      const result = await client.readResource('runbook://db');
+
+      expect(result).toEqual({
+        success: true,
+        data: [{ uri: 'runbook://db', mimeType: 'text/markdown', text: '# DB' }],
+      });
+      expect(sentBodies()[0]).toMatchObject({
+        method: 'resources/read',
+        params: { uri: 'runbook://db' },
+      });
+    });
+
+    it('lists prompts and renders one with arguments', async () => {
+      mockFetch
+        .mockResolvedValueOnce(rpcResult({ prompts: [{ name: 'triage', title: 'Triage' }] }))
+        .mockResolvedValueOnce(
+          rpcResult({ messages: [{ role: 'user', content: { type: 'text', text: 'Triage api' } }] })
+        );
+
+      const client = new McpClient('test-server', testConfig);
+      const prompts = await client.listPrompts();
+      const rendered = await client.getPrompt('triage', { service: 'api' });
+
+      expect(prompts).toEqual({ success: true, data: [{ name: 'triage', title: 'Triage' }] });
+      expect(rendered.success && rendered.data.messages).toHaveLength(1);
+      expect(sentBodies()[1]).toMatchObject({
+        method: 'prompts/get',
+        params: { name: 'triage', arguments: { service: 'api' } },
+      });
+    });
+
+    it('returns JSON-RPC errors (e.g. method not found) without throwing', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            jsonrpc: '2.0',
+            id: 1,
+            error: { code: -32601, message: 'Method not found' },
+          }),
+      });
+
+      const client = new McpClient('test-server', testConfig);
+      const result = await client.listPrompts();
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('TOOL_EXECUTION_FAILED');
+        expect(result.error.message).toContain('-32601');
+      }
+    });
+
+    it('is gated by the circuit breaker', async () => {
+      const client = new McpClient('flaky-server', testConfig);
+      mockFetch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      for (let i = 0; i < 3; i++) {
+        await client.listResources();
+      }
+      mockFetch.mockReset();
+
+      const result = await client.readResource('runbook://db');
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('client state', () => {
     it('tracks lastSuccessAt on successful call', async () => {
       // Arrange
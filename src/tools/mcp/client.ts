@@ -2,13 +2,23 @@
  * MCP HTTP Streamable Transport Client
  *
  * Generic MCP client that connects to any MCP-compatible server using
- * JSON-RPC over HTTP (MCP HTTP Streamable Transport).
+ * JSON-RPC over HTTP (MCP HTTP Streamable Transport), or over a pluggable
+ * `McpTransport` such as stdio (see stdio-transport.ts).
  *
  * Features:
  * - Lazy connection (no startup connect)
- * - Bearer token authentication
+ * - Bearer token authentication and custom headers; HTTP 401 is reported as
+ *   AUTH_REQUIRED (per-user OAuth, see oauth.ts)
+ * - JSON or single-response SSE (`text/event-stream`) replies
+ * - Sessions: servers that require one (HTTP 400 without `Mcp-Session-Id`, or
+ *   404 once it ends) get an `initialize` handshake and the request is retried
+ *   once. Session IDs are cached per server URL and token, since clients are
+ *   created per call (see client-factory.ts).
  * - Configurable timeouts (5s connection, 30s request)
  * - Never throws from public APIs - returns ToolResult<T>
+ * - Resources (resources/list, resources/read) and prompts (prompts/list, prompts/get)
+ * - Per-server circuit breaker: fast rejection while open, tools/list probe
+ *   after the cooldown (see health.ts)
  * - Structured logging with traceId
  * - Langfuse spans when trace is provided
  *
@@ -20,19 +30,29 @@
  * @see AC#7 - Structured logs with traceId, Langfuse spans
  */
 
+import { createHash } from 'node:crypto';
 import type {
   McpClientConfig,
   McpClientState,
   McpTool,
   McpContent,
   McpToolsListResult,
+  McpResource,
+  McpResourcesListResult,
+  McpResourceContents,
+  McpResourceReadResult,
+  McpPrompt,
+  McpPromptsListResult,
+  McpPromptGetResult,
   McpJsonRpcRequest,
   McpJsonRpcResponse,
+  McpTransport,
 } from './types.js';
-import type { ToolResult } from '../../utils/tool-result.js';
+import type { ToolError, ToolResult } from '../../utils/tool-result.js';
 import { isRetryable } from '../../utils/tool-result.js';
 import { logger } from '../../utils/logger.js';
 import type { TraceWrapper } from '../../observability/tracing.js';
+import { beginServerRequest, circuitOpenError, recordServerResult } from './health.js';
 
 /** Default connection timeout per project-context.md */
 const DEFAULT_CONNECTION_TIMEOUT_MS = 5000;
@@ -40,6 +60,52 @@ const DEFAULT_CONNECTION_TIMEOUT_MS = 5000;
 /** Default request timeout */
 const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
 
+/** Most pages followed for paginated list methods */
+const MAX_LIST_PAGES = 10;
+
+/** Protocol version sent in `initialize` */
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+const SESSION_HEADER = 'Mcp-Session-Id';
+
+/** Session IDs by server URL + token hash */
+const sessionIds = new Map<string, string>();
+
+function buildSessionKey(url: string, bearerToken: string): string {
+  const token = bearerToken ? createHash('sha256').update(bearerToken).digest('hex') : '';
+  return `${url} ${token}`;
+}
+
+/**
+ * Forget cached session IDs (tests only).
+ */
+export function __resetMcpSessionsForTests(): void {
+  sessionIds.clear();
+}
+
+/**
+ * Extract the JSON-RPC response for `requestId` from an SSE response body.
+ *
+ * @throws Error if no matching `data:` message is present
+ */
+export function parseEventStreamResponse<T>(
+  body: string,
+  requestId: string | number
+): McpJsonRpcResponse<T> {
+  for (const event of body.split(/\r?\n\r?\n/)) {
+    const data = event
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice('data:'.length).trimStart())
+      .join('\n');
+    if (!data) continue;
+
+    const message = JSON.parse(data) as McpJsonRpcResponse<T>;
+    if (message.id === requestId) return message;
+  }
+  throw new Error('No JSON-RPC response in event stream');
+}
+
 /**
  * MCP Client for HTTP Streamable Transport
  *
@@ -56,14 +122,17 @@ const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
  */
 export class McpClient {
   private readonly serverName: string;
-  private readonly config: Required<McpClientConfig>;
+  private readonly config: Required<Omit<McpClientConfig, 'transport'>>;
+  private readonly transport?: McpTransport;
   private state: McpClientState = {};
   private requestId = 0;
+  private readonly sessionKey: string;
 
   constructor(serverName: string, config: McpClientConfig) {
     this.serverName = serverName;
+    this.transport = config.transport;
     this.config = {
-      url: config.url,
+      url: config.url ?? '',
       bearerToken: config.bearerToken ?? '',
       requestTimeoutMs: config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
       // Note: connectionTimeoutMs is stored for future use but not separately enforced.
@@ -71,7 +140,9 @@ export class McpClient {
       // The requestTimeoutMs covers the entire request including TCP connect.
       // Connection failures (ECONNREFUSED, DNS) fail immediately without waiting for timeout.
       connectionTimeoutMs: config.connectionTimeoutMs ?? DEFAULT_CONNECTION_TIMEOUT_MS,
+      headers: config.headers ?? {},
     };
+    this.sessionKey = buildSessionKey(this.config.url, this.config.bearerToken);
   }
 
   /**
@@ -95,12 +166,22 @@ export class McpClient {
       traceId,
     });
 
+    // With an open circuit, a tools/list after the cooldown is itself the probe.
+    const gate = beginServerRequest(this.serverName);
+    if (!gate.allowed) {
+      const error = this.rejectOpenCircuit(gate.retryAfterMs, traceId);
+      span?.update({ output: { success: false, error: error.code, circuitOpen: true } });
+      span?.end();
+      return { success: false, error };
+    }
+
     try {
       const response = await this.sendRequest<McpToolsListResult>(
         'tools/list',
         {},
         traceId
       );
+      recordServerResult(this.serverName, response);
 
       if (!response.success) {
         this.updateErrorState(response.error.message);
@@ -192,13 +273,33 @@ export class McpClient {
       traceId,
     });
 
+    const gate = beginServerRequest(this.serverName);
+    if (!gate.allowed) {
+      const error = this.rejectOpenCircuit(gate.retryAfterMs, traceId);
+      span?.update({ output: { success: false, error: error.code, circuitOpen: true } });
+      span?.end();
+      return { success: false, error };
+    }
+
     try {
+      if (gate.probe) {
+        const probe = await this.sendRequest<McpToolsListResult>('tools/list', {}, traceId, signal);
+        recordServerResult(this.serverName, probe);
+        if (!probe.success) {
+          this.updateErrorState(probe.error.message);
+          span?.update({ output: { success: false, error: probe.error.code, probeFailed: true } });
+          span?.end();
+          return probe;
+        }
+      }
+
       const response = await this.sendRequest<McpContent>(
         'tools/call',
         { name: toolName, arguments: args },
         traceId,
         signal
       );
+      recordServerResult(this.serverName, response);
 
       if (!response.success) {
         this.updateErrorState(response.error.message);
@@ -261,6 +362,132 @@ export class McpClient {
     }
   }
 
+  /**
+   * List resources published by the server, following pagination.
+   *
+   * @returns ToolResult<McpResource[]> - never throws
+   */
+  async listResources(traceId?: string): Promise<ToolResult<McpResource[]>> {
+    return this.listAll<McpResourcesListResult, McpResource>(
+      'resources/list',
+      (page) => page.resources,
+      traceId
+    );
+  }
+
+  /**
+   * Read the contents of a resource.
+   *
+   * @returns ToolResult<McpResourceContents[]> - never throws
+   */
+  async readResource(uri: string, traceId?: string): Promise<ToolResult<McpResourceContents[]>> {
+    const result = await this.request<McpResourceReadResult>('resources/read', { uri }, traceId);
+    if (!result.success) return result;
+    return { success: true, data: result.data.contents ?? [] };
+  }
+
+  /**
+   * List prompt templates published by the server, following pagination.
+   *
+   * @returns ToolResult<McpPrompt[]> - never throws
+   */
+  async listPrompts(traceId?: string): Promise<ToolResult<McpPrompt[]>> {
+    return this.listAll<McpPromptsListResult, McpPrompt>(
+      'prompts/list',
+      (page) => page.prompts,
+      traceId
+    );
+  }
+
+  /**
+   * Render a prompt template with its arguments.
+   *
+   * @returns ToolResult<McpPromptGetResult> - never throws
+   */
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {},
+    traceId?: string
+  ): Promise<ToolResult<McpPromptGetResult>> {
+    const result = await this.request<McpPromptGetResult>(
+      'prompts/get',
+      { name, arguments: args },
+      traceId
+    );
+    if (!result.success) return result;
+    return { success: true, data: { ...result.data, messages: result.data.messages ?? [] } };
+  }
+
+  private async listAll<TPage extends { nextCursor?: string }, TItem>(
+    method: string,
+    items: (page: TPage) => TItem[] | undefined,
+    traceId?: string
+  ): Promise<ToolResult<TItem[]>> {
+    const all: TItem[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const result = await this.request<TPage>(method, cursor ? { cursor } : {}, traceId);
+      if (!result.success) return result;
+      all.push(...(items(result.data) ?? []));
+      cursor = result.data.nextCursor;
+      if (!cursor) break;
+    }
+    return { success: true, data: all };
+  }
+
+  /**
+   * Gated request for the resources and prompts methods (the request itself is
+   * the probe when the circuit is half-open).
+   */
+  private async request<T>(
+    method: string,
+    params: Record<string, unknown>,
+    traceId?: string
+  ): Promise<ToolResult<T>> {
+    const gate = beginServerRequest(this.serverName);
+    if (!gate.allowed) {
+      return { success: false, error: this.rejectOpenCircuit(gate.retryAfterMs, traceId) };
+    }
+
+    const startTime = Date.now();
+    const response = await this.sendRequest<T>(method, params, traceId);
+    recordServerResult(this.serverName, response);
+    const durationMs = Date.now() - startTime;
+
+    if (!response.success) {
+      this.updateErrorState(response.error.message);
+      logger.warn({
+        event: 'mcp.request.failed',
+        serverName: this.serverName,
+        method,
+        error: response.error.message,
+        durationMs,
+        traceId,
+      });
+      return response;
+    }
+
+    this.updateSuccessState(durationMs);
+    logger.debug({
+      event: 'mcp.request.success',
+      serverName: this.serverName,
+      method,
+      durationMs,
+      traceId,
+    });
+    return response;
+  }
+
+  private rejectOpenCircuit(retryAfterMs: number, traceId?: string): ToolError {
+    logger.warn({
+      event: 'mcp.circuit.rejected',
+      serverName: this.serverName,
+      retryAfterMs,
+      traceId,
+    });
+    return circuitOpenError(this.serverName, retryAfterMs);
+  }
+
   /**
    * Get current client state for debugging/health checks.
    *
@@ -289,8 +516,17 @@ export class McpClient {
     method: string,
     params: Record<string, unknown>,
     traceId?: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    allowHandshake = true
   ): Promise<ToolResult<T>> {
+    if (this.transport) {
+      return this.transport.request<T>(method, params, {
+        traceId,
+        signal,
+        timeoutMs: this.config.requestTimeoutMs,
+      });
+    }
+
     const requestId = ++this.requestId;
 
     const request: McpJsonRpcRequest = {
@@ -300,14 +536,8 @@ export class McpClient {
       params,
     };
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
-    };
-
-    if (this.config.bearerToken) {
-      headers['Authorization'] = `Bearer ${this.config.bearerToken}`;
-    }
+    const sentSessionId = sessionIds.get(this.sessionKey);
+    const headers = this.buildHeaders(sentSessionId);
 
     // Create abort controller for timeout + upstream cancellation propagation.
     const controller = new AbortController();
@@ -331,6 +561,29 @@ export class McpClient {
       clearTimeout(timeoutId);
       if (signal) signal.removeEventListener('abort', onAbort);
 
+      const returnedSessionId = response.headers?.get?.(SESSION_HEADER);
+      if (returnedSessionId) sessionIds.set(this.sessionKey, returnedSessionId);
+
+      const sessionRejected =
+        (response.status === 400 && !sentSessionId) ||
+        (response.status === 404 && sentSessionId !== undefined);
+      if (sessionRejected && allowHandshake && method !== 'initialize') {
+        if (await this.initializeSession(traceId, signal)) {
+          return this.sendRequest<T>(method, params, traceId, signal, false);
+        }
+      }
+
+      if (response.status === 401) {
+        return {
+          success: false,
+          error: {
+            code: 'AUTH_REQUIRED',
+            message: `HTTP 401: ${response.statusText || 'Unauthorized'}`,
+            retryable: false,
+          },
+        };
+      }
+
       if (!response.ok) {
         const isServerError = response.status >= 500;
         return {
@@ -345,7 +598,10 @@ export class McpClient {
 
       let jsonResponse: McpJsonRpcResponse<T>;
       try {
-        jsonResponse = (await response.json()) as McpJsonRpcResponse<T>;
+        const contentType = response.headers?.get?.('content-type') ?? '';
+        jsonResponse = contentType.includes('text/event-stream')
+          ? parseEventStreamResponse<T>(await response.text(), requestId)
+          : ((await response.json()) as McpJsonRpcResponse<T>);
       } catch {
         return {
           success: false,
@@ -425,6 +681,66 @@ export class McpClient {
     }
   }
 
+  private buildHeaders(sessionId?: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...this.config.headers,
+      'Content-Type': 'application/json',
+      // Streamable HTTP servers may answer with a single-response SSE stream.
+      Accept: 'application/json, text/event-stream',
+    };
+
+    if (this.config.bearerToken) {
+      headers['Authorization'] = `Bearer ${this.config.bearerToken}`;
+    }
+    if (sessionId) {
+      headers[SESSION_HEADER] = sessionId;
+    }
+    return headers;
+  }
+
+  /**
+   * Start a new session: `initialize`, then the `notifications/initialized`
+   * notification the server expects before other requests.
+   *
+   * @returns true when the server issued a session ID
+   */
+  private async initializeSession(traceId?: string, signal?: AbortSignal): Promise<boolean> {
+    sessionIds.delete(this.sessionKey);
+    const initialized = await this.sendRequest(
+      'initialize',
+      {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'orion', version: process.env.npm_package_version ?? '0.1.0' },
+      },
+      traceId,
+      signal,
+      false
+    );
+    const sessionId = sessionIds.get(this.sessionKey);
+    if (!initialized.success || !sessionId) return false;
+
+    try {
+      await fetch(this.config.url, {
+        method: 'POST',
+        headers: this.buildHeaders(sessionId),
+        body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+        signal: AbortSignal.timeout(this.config.requestTimeoutMs),
+      });
+    } catch (error) {
+      // No response is expected; the retried request reports real failures.
+      logger.warn({
+        event: 'mcp.session.notify_failed',
+        serverName: this.serverName,
+        error: error instanceof Error ? error.message : String(error),
+        traceId,
+      });
+    }
+
+    logger.info({ event: 'mcp.session.initialized', serverName: this.serverName, traceId });
+    return true;
+  }
+
   private updateSuccessState(latencyMs: number): void {
     this.state = {
       ...this.state,
@@ -198,4 +198,30 @@ mcp_servers:
 
     expect(readFileSync).toHaveBeenCalledTimes(1);
   });
+
+  it('interpolates env vars and maps bearer_token to an Authorization header', () => {
+    process.env.TEST_MCP_URL = 'https://pd.internal/mcp';
+    process.env.TEST_MCP_TOKEN = 'secret';
+    const mockYaml = `
+mcp_servers:
+  pagerduty:
+    enabled: \${TEST_MCP_ENABLED:-true}
+    type: http
+    url: \${TEST_MCP_URL}
+    bearer_token: \${TEST_MCP_TOKEN}
+`;
+    vi.mocked(readFileSync).mockReturnValue(mockYaml);
+
+    const config = loadMcpServersConfig('/test/path');
+
+    expect(config).toEqual({
+      pagerduty: {
+        type: 'http',
+        url: 'https://pd.internal/mcp',
+        headers: { Authorization: 'Bearer secret' },
+      },
+    });
+    delete process.env.TEST_MCP_URL;
+    delete process.env.TEST_MCP_TOKEN;
+  });
 });
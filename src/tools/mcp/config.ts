@@ -1,56 +1,33 @@
-import { readFileSync } from 'fs';
-import { join } from 'path';
-import { parse as parseYaml } from 'yaml';
 import { logger } from '../../utils/logger.js';
-import type { 
-  McpServersConfig, 
-  McpServerConfig, 
-  ClaudeSdkMcpConfig 
-} from './types.js';
+import {
+  clearMcpServerConfigCache,
+  interpolateEnv,
+  parseEnabled,
+  readMcpServerEntries,
+} from '../../config/mcp-servers.js';
+import type { McpServerConfig, ClaudeSdkMcpConfig } from './types.js';
 
 let cachedConfig: Record<string, ClaudeSdkMcpConfig> | null = null;
 
 /**
  * Load MCP server configurations from .orion/config.yaml
- * Transforms to Claude SDK format, filtering to enabled servers only.
- * 
- * @throws Error if config file is missing or malformed
+ * Transforms to Claude SDK format (env vars interpolated), filtering to enabled servers only.
+ *
+ * Reads the same `mcp_servers` section as `getMcpServerConfigs` (src/config/mcp-servers.ts).
+ *
+ * @throws Error if an enabled server entry is malformed
  */
 export function loadMcpServersConfig(basePath: string = process.cwd()): Record<string, ClaudeSdkMcpConfig> {
   if (cachedConfig) {
     return cachedConfig;
   }
 
-  const configPath = join(basePath, '.orion', 'config.yaml');
-  
-  let content: string;
-  try {
-    content = readFileSync(configPath, 'utf-8');
-  } catch (error) {
-    logger.warn({
-      event: 'mcp_config_not_found',
-      path: configPath,
-      message: 'MCP config not found, using empty config',
-    });
-    cachedConfig = {};
-    return cachedConfig;
-  }
-
-  const config = parseYaml(content) as McpServersConfig;
-  
-  if (!config.mcp_servers) {
-    logger.warn({
-      event: 'mcp_config_empty',
-      message: 'No mcp_servers section in .orion/config.yaml',
-    });
-    cachedConfig = {};
-    return cachedConfig;
-  }
+  const entries = readMcpServerEntries(basePath);
+  const config: Record<string, ClaudeSdkMcpConfig> = {};
 
-  cachedConfig = {};
-
-  for (const [name, serverConfig] of Object.entries(config.mcp_servers)) {
-    if (!serverConfig.enabled) {
+  for (const [name, entry] of Object.entries(entries)) {
+    const serverConfig = interpolateEnv(entry);
+    if (!parseEnabled(serverConfig.enabled)) {
       logger.debug({
         event: 'mcp_server_disabled',
         server: name,
@@ -59,18 +36,30 @@ export function loadMcpServersConfig(basePath: string = process.cwd()): Record<s
       continue;
     }
 
-    cachedConfig[name] = transformToSdkConfig(name, serverConfig);
+    config[name] = transformToSdkConfig(name, serverConfig);
   }
 
-  logger.info({
-    event: 'mcp_config_loaded',
-    serverCount: Object.keys(cachedConfig).length,
-    servers: Object.keys(cachedConfig),
-  });
+  cachedConfig = config;
+
+  if (Object.keys(entries).length > 0) {
+    logger.info({
+      event: 'mcp_config_loaded',
+      serverCount: Object.keys(cachedConfig).length,
+      servers: Object.keys(cachedConfig),
+    });
+  }
 
   return cachedConfig;
 }
 
+function withBearerToken(
+  headers: Record<string, string> | undefined,
+  bearerToken: string | undefined
+): Record<string, string> | undefined {
+  if (!bearerToken) return headers;
+  return { ...headers, Authorization: `Bearer ${bearerToken}` };
+}
+
 function transformToSdkConfig(name: string, config: McpServerConfig): ClaudeSdkMcpConfig {
   if (config.type === 'stdio') {
     if (!config.command) {
@@ -95,8 +84,9 @@ function transformToSdkConfig(name: string, config: McpServerConfig): ClaudeSdkM
       type: 'http',
       url: config.url,
     };
-    if (config.headers) {
-      (sdkConfig as { headers?: Record<string, string> }).headers = config.headers;
+    const headers = withBearerToken(config.headers, config.bearer_token);
+    if (headers) {
+      (sdkConfig as { headers?: Record<string, string> }).headers = headers;
     }
     return sdkConfig;
   }
@@ -109,8 +99,9 @@ function transformToSdkConfig(name: string, config: McpServerConfig): ClaudeSdkM
       type: 'sse',
       url: config.url,
     };
-    if (config.headers) {
-      (sdkConfig as { headers?: Record<string, string> }).headers = config.headers;
+    const headers = withBearerToken(config.headers, config.bearer_token);
+    if (headers) {
+      (sdkConfig as { headers?: Record<string, string> }).headers = headers;
     }
     return sdkConfig;
   }
@@ -131,4 +122,5 @@ export function getMcpServersConfig(): Record<string, ClaudeSdkMcpConfig> {
  */
 export function clearMcpConfigCache(): void {
   cachedConfig = null;
+  clearMcpServerConfigCache();
 }
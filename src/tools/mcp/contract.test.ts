@@ -0,0 +1,308 @@
+/**
+ * MCP contract tests
+ *
+ * Runs McpClient, discovery, routing and tool execution end to end against the
+ * in-process test server (test-server.ts) over real HTTP. When adding a new MCP
+ * server integration, reproduce its transport behaviour here.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { __resetMcpSessionsForTests, McpClient } from './client.js';
+import { discoverAllTools } from './discovery.js';
+import { __resetServerHealthForTests } from './health.js';
+import { startTestMcpServer, type TestMcpServer, type TestMcpTool } from './test-server.js';
+import { toolRegistry } from '../registry.js';
+import { executeToolCall } from '../router.js';
+import { executeTool } from '../executor.js';
+
+vi.mock('../../utils/logger.js');
+
+const tools: TestMcpTool[] = [
+  {
+    name: 'echo',
+    description: 'Echo the given text',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string', description: 'Text to echo' } },
+      required: ['text'],
+    },
+    annotations: { readOnlyHint: true },
+    handler: (args) => ({ content: [{ type: 'text', text: String(args.text) }] }),
+  },
+  {
+    name: 'explode',
+    description: 'Always fails',
+    handler: () => {
+      throw new Error('upstream exploded');
+    },
+  },
+  {
+    name: 'slow',
+    description: 'Answers after 500ms',
+    delayMs: 500,
+    handler: () => ({ content: [{ type: 'text', text: 'done' }] }),
+  },
+];
+
+describe('MCP contract (in-process server)', () => {
+  let server: TestMcpServer;
+
+  beforeEach(async () => {
+    __resetServerHealthForTests();
+    __resetMcpSessionsForTests();
+    toolRegistry.__resetForTests();
+    server = await startTestMcpServer({ tools });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    delete process.env.RUBE_MCP_ENABLED;
+    delete process.env.RUBE_MCP_URL;
+    delete process.env.RUBE_API_KEY;
+  });
+
+  function useAsRube(target: TestMcpServer, apiKey?: string): void {
+    process.env.RUBE_MCP_ENABLED = 'true';
+    process.env.RUBE_MCP_URL = target.url;
+    if (apiKey) process.env.RUBE_API_KEY = apiKey;
+  }
+
+  describe('McpClient', () => {
+    it('lists tools with schemas and annotations', async () => {
+      const client = new McpClient('contract', { url: server.url });
+
+      const result = await client.listTools();
+
+      expect(result.success && result.data.map((t) => t.name)).toEqual(['echo', 'explode', 'slow']);
+      expect(result.success && result.data[0]).toEqual({
+        name: 'echo',
+        description: 'Echo the given text',
+        inputSchema: tools[0].inputSchema,
+        annotations: { readOnlyHint: true },
+      });
+    });
+
+    it('calls tools and passes tool failures through as isError results', async () => {
+      const client = new McpClient('contract', { url: server.url });
+
+      expect(await client.callTool('echo', { text: 'hi' })).toEqual({
+        success: true,
+        data: { content: [{ type: 'text', text: 'hi' }] },
+      });
+      expect(await client.callTool('explode', {})).toEqual({
+        success: true,
+        data: { isError: true, content: [{ type: 'text', text: 'upstream exploded' }] },
+      });
+    });
+
+    it('reports JSON-RPC errors as non-retryable failures', async () => {
+      const client = new McpClient('contract', { url: server.url });
+
+      const result = await client.callTool('missing', {});
+
+      expect(result).toEqual({
+        success: false,
+        error: {
+          code: 'TOOL_EXECUTION_FAILED',
+          message: 'Unknown tool: missing (code: -32602)',
+          retryable: false,
+        },
+      });
+    });
+
+    it('reads single-response SSE replies', async () => {
+      const sseServer = await startTestMcpServer({ tools, sse: true });
+      try {
+        const client = new McpClient('contract', { url: sseServer.url });
+        const result = await client.callTool('echo', { text: 'streamed' });
+        expect(result.success && result.data.content).toEqual([{ type: 'text', text: 'streamed' }]);
+      } finally {
+        await sseServer.close();
+      }
+    });
+
+    it('sends the bearer token and reports rejected tokens as AUTH_REQUIRED', async () => {
+      const secured = await startTestMcpServer({ tools, bearerToken: 'secret' });
+      try {
+        const ok = await new McpClient('contract', {
+          url: secured.url,
+          bearerToken: 'secret',
+        }).listTools();
+        const denied = await new McpClient('contract', {
+          url: secured.url,
+          bearerToken: 'wrong',
+        }).listTools();
+
+        expect(ok.success).toBe(true);
+        expect(secured.requests[0].authorization).toBe('Bearer secret');
+        expect(denied.success === false && denied.error.code).toBe('AUTH_REQUIRED');
+      } finally {
+        await secured.close();
+      }
+    });
+
+    it('marks server errors retryable', async () => {
+      const client = new McpClient('contract', { url: server.url });
+      server.failNext(503);
+
+      const result = await client.callTool('echo', { text: 'hi' });
+
+      expect(result.success === false && result.error).toMatchObject({
+        code: 'TOOL_EXECUTION_FAILED',
+        retryable: true,
+      });
+    });
+
+    it('times out slow responses', async () => {
+      const client = new McpClient('contract', { url: server.url, requestTimeoutMs: 100 });
+
+      const result = await client.callTool('slow', {});
+
+      expect(result.success === false && result.error).toEqual({
+        code: 'TOOL_UNAVAILABLE',
+        message: 'MCP request timeout after 100ms',
+        retryable: true,
+      });
+    });
+
+    it('initializes a session on demand and starts a new one when it expires', async () => {
+      const stateful = await startTestMcpServer({ tools, requireSession: true });
+      try {
+        const client = new McpClient('contract', { url: stateful.url });
+
+        expect((await client.listTools()).success).toBe(true);
+        expect((await client.callTool('echo', { text: 'again' })).success).toBe(true);
+
+        const methods = stateful.requests.map((r) => r.method);
+        expect(methods).toEqual([
+          'tools/list',
+          'initialize',
+          'notifications/initialized',
+          'tools/list',
+          'tools/call',
+        ]);
+        const sessionId = stateful.requests[2].sessionId;
+        expect(sessionId).toBeDefined();
+        expect(stateful.requests.slice(2).every((r) => r.sessionId === sessionId)).toBe(true);
+
+        stateful.expireSessions();
+        const afterExpiry = await client.callTool('echo', { text: 'new session' });
+
+        expect(afterExpiry.success).toBe(true);
+        expect(stateful.requests.slice(5).map((r) => r.method)).toEqual([
+          'tools/call',
+          'initialize',
+          'notifications/initialized',
+          'tools/call',
+        ]);
+        expect(stateful.requests.at(-1)?.sessionId).not.toBe(sessionId);
+      } finally {
+        await stateful.close();
+      }
+    });
+  });
+
+  describe('discoverAllTools', () => {
+    it('registers server tools under the server prefix', async () => {
+      useAsRube(server, 'rube-key');
+
+      const result = await discoverAllTools('trace-contract');
+
+      expect(result).toEqual({ success: true, data: { registered: 3 } });
+      expect(toolRegistry.getMcpTool('rube__echo')).toMatchObject({
+        serverName: 'rube',
+        originalName: 'echo',
+        annotations: { readOnlyHint: true },
+      });
+      expect(server.requests[0].authorization).toBe('Bearer rube-key');
+    });
+  });
+
+  describe('executeToolCall', () => {
+    const call = (toolName: string, args: Record<string, unknown> = {}) =>
+      executeToolCall({
+        toolName,
+        toolUseId: 'toolu_contract',
+        args,
+        traceId: 'trace-contract',
+        signal: new AbortController().signal,
+      });
+
+    it('routes server__tool names to the server', async () => {
+      useAsRube(server);
+
+      const result = await call('rube__echo', { text: 'routed' });
+
+      expect(result).toEqual({
+        success: true,
+        data: { content: [{ type: 'text', text: 'routed' }] },
+      });
+    });
+
+    it('keeps one session across calls to a session-based server', async () => {
+      const stateful = await startTestMcpServer({ tools, requireSession: true });
+      try {
+        useAsRube(stateful);
+
+        expect((await call('rube__echo', { text: 'one' })).success).toBe(true);
+        expect((await call('rube__echo', { text: 'two' })).success).toBe(true);
+
+        expect(stateful.requests.map((r) => r.method)).toEqual([
+          'tools/call',
+          'initialize',
+          'notifications/initialized',
+          'tools/call',
+          'tools/call',
+        ]);
+      } finally {
+        await stateful.close();
+      }
+    });
+
+    it('turns isError results into tool errors', async () => {
+      useAsRube(server);
+
+      const result = await call('rube__explode');
+
+      expect(result.success === false && result.error).toMatchObject({
+        code: 'TOOL_EXECUTION_FAILED',
+        retryable: false,
+      });
+      expect(result.success === false && result.error.message).toContain('upstream exploded');
+    });
+  });
+
+  describe('executeTool', () => {
+    it('retries transient server failures', async () => {
+      useAsRube(server);
+      server.failNext(503);
+
+      const result = await executeTool(
+        'rube__echo',
+        'toolu_contract',
+        { text: 'retried' },
+        executeToolCall,
+        {
+          traceId: 'trace-contract',
+        }
+      );
+
+      expect(result.success && result.data).toContain('retried');
+      expect(server.requests.filter((r) => r.method === 'tools/call')).toHaveLength(2);
+    });
+
+    it('gives up on slow tools after the timeout', async () => {
+      useAsRube(server);
+
+      const result = await executeTool('rube__slow', 'toolu_contract', {}, executeToolCall, {
+        traceId: 'trace-contract',
+        timeoutMs: 100,
+        maxRetries: 1,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.success === false && result.error.message).toContain('rube__slow');
+      expect(server.requests.filter((r) => r.method === 'tools/call')).toHaveLength(1);
+    });
+  });
+});
@@ -1,13 +1,15 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { ToolResult } from '../../utils/tool-result.js';
 import { toolRegistry } from '../registry.js';
-import { discoverAllTools } from './discovery.js';
+import { discoverAllTools, reloadMcpServers } from './discovery.js';
 import { McpClient } from './client.js';
+import { DEFAULT_COOLDOWN_MS, __resetServerHealthForTests, markServerUnavailable } from './health.js';
 
 describe('discoverAllTools', () => {
   beforeEach(() => {
     vi.restoreAllMocks();
     toolRegistry.__resetForTests();
+    __resetServerHealthForTests();
     delete process.env.RUBE_MCP_ENABLED;
     delete process.env.RUBE_MCP_URL;
     delete process.env.RUBE_API_KEY;
@@ -131,6 +133,49 @@ describe('discoverAllTools', () => {
     // Cached tool still available.
     expect(toolRegistry.getMcpTool('rube__search')).toBeDefined();
   });
-});
 
+  it('probes a server with an open circuit once its cooldown has passed', async () => {
+    process.env.RUBE_MCP_ENABLED = 'true';
+    process.env.RUBE_MCP_URL = 'https://example.invalid/mcp';
+    toolRegistry.__setDiscoveryTimestampForTests('rube', Date.now());
+    for (let i = 0; i < 3; i++) markServerUnavailable('rube', new Error('down'));
+
+    const spy = vi.spyOn(McpClient.prototype, 'listTools').mockResolvedValue({
+      success: true,
+      data: [],
+    });
+
+    await discoverAllTools('trace-test');
+    expect(spy).not.toHaveBeenCalled();
 
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + DEFAULT_COOLDOWN_MS);
+    await discoverAllTools('trace-test');
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes tools of servers no longer declared in config', async () => {
+    toolRegistry.registerMcpTools('retired', [
+      {
+        originalName: 'lookup',
+        claudeTool: {
+          name: 'retired__lookup',
+          description: 'Lookup',
+          input_schema: { type: 'object', properties: {} },
+        },
+      },
+    ]);
+
+    const result = await discoverAllTools('trace-test');
+    expect(result.success).toBe(true);
+    expect(toolRegistry.getMcpTool('retired__lookup')).toBeUndefined();
+  });
+
+  it('forces rediscovery after a config reload', () => {
+    toolRegistry.__setDiscoveryTimestampForTests('rube', Date.now());
+    expect(toolRegistry.isDiscoveryStale('rube')).toBe(false);
+
+    reloadMcpServers();
+
+    expect(toolRegistry.isDiscoveryStale('rube')).toBe(true);
+  });
+});
@@ -11,10 +11,37 @@ import type Anthropic from '@anthropic-ai/sdk';
 import type { ToolResult } from '../../utils/tool-result.js';
 import { isRetryable } from '../../utils/tool-result.js';
 import { logger } from '../../utils/logger.js';
-import { getMcpServerConfigs } from '../../config/mcp-servers.js';
+import { getMcpServerConfigs, type McpServerConfig } from '../../config/mcp-servers.js';
+import { clearMcpConfigCache } from './config.js';
+import { pruneStdioTransports } from './stdio-transport.js';
 import { toolRegistry } from '../registry.js';
-import { McpClient } from './client.js';
+import { createMcpClient } from './client-factory.js';
 import { mcpToolToClaude } from './schema-converter.js';
+import type { McpToolAnnotations } from './types.js';
+import { isProbeDue } from './health.js';
+import { clearMcpResourceCache } from './resources.js';
+import { clearMcpPromptCache } from './prompts.js';
+
+/**
+ * Re-read `mcp_servers` and force rediscovery on the next refresh.
+ *
+ * Called when .orion/config.yaml changes. Tools of removed or disabled servers
+ * stay registered until that refresh removes them. Resource and prompt catalogs
+ * are fetched again on next use.
+ */
+export function reloadMcpServers(): void {
+  clearMcpConfigCache();
+  toolRegistry.clearDiscoveryCache();
+  clearMcpResourceCache();
+  clearMcpPromptCache();
+  const servers = getMcpServerConfigs();
+  // Stop stdio processes whose server was removed, disabled or changed.
+  pruneStdioTransports(servers);
+  logger.info({
+    event: 'tools.discovery.config_reloaded',
+    serverCount: servers.length,
+  });
+}
 
 export async function discoverAllTools(
   traceId?: string
@@ -27,25 +54,30 @@ export async function discoverAllTools(
     traceId,
   });
 
-  // Remove tools for disabled servers on refresh (AC#6).
-  for (const s of allServers) {
-    if (!s.enabled) {
-      const removed = toolRegistry.removeServerTools(s.name);
-      if (removed > 0) {
-        logger.info({
-          event: 'tools.registry.server.removed',
-          serverName: s.name,
-          removedCount: removed,
-          traceId,
-        });
-      }
+  // Remove tools for disabled or no-longer-declared servers on refresh (AC#6).
+  const declared = new Set(allServers.map((s) => s.name));
+  const removedServers = [
+    ...allServers.filter((s) => !s.enabled).map((s) => s.name),
+    ...toolRegistry.getMcpServerNames().filter((name) => !declared.has(name)),
+  ];
+  for (const serverName of removedServers) {
+    const removed = toolRegistry.removeServerTools(serverName);
+    if (removed > 0) {
+      logger.info({
+        event: 'tools.registry.server.removed',
+        serverName,
+        removedCount: removed,
+        traceId,
+      });
     }
   }
 
   const servers = allServers.filter((s) => s.enabled);
 
+  // Servers with an open circuit are rediscovered once their cooldown passes; that
+  // tools/list is the half-open probe.
   const discoveries = servers
-    .filter((s) => toolRegistry.isDiscoveryStale(s.name))
+    .filter((s) => toolRegistry.isDiscoveryStale(s.name) || isProbeDue(s.name))
     .map((s) => discoverServerTools(s, traceId));
 
   const results = await Promise.allSettled(discoveries);
@@ -81,33 +113,21 @@ export async function discoverAllTools(
 }
 
 async function discoverServerTools(
-  server: ReturnType<typeof getMcpServerConfigs>[number],
+  server: McpServerConfig,
   traceId?: string
 ): Promise<ToolResult<{ registered: number }>> {
   try {
-    if (!server.url) {
+    const created = createMcpClient(server);
+    if (!created.success) {
       logger.error({
         event: 'tools.discovery.server.failed',
         serverName: server.name,
-        errorMessage: 'Missing MCP server URL',
+        errorMessage: created.error.message,
         traceId,
       });
-      return {
-        success: false,
-        error: {
-          code: 'TOOL_INVALID_INPUT',
-          message: `Invalid MCP server config for "${server.name}": missing url`,
-          retryable: false,
-        },
-      };
+      return { success: false, error: created.error };
     }
-
-    const client = new McpClient(server.name, {
-      url: server.url,
-      bearerToken: server.bearerToken,
-      connectionTimeoutMs: server.connectionTimeoutMs,
-      requestTimeoutMs: server.requestTimeoutMs,
-    });
+    const client = created.data;
 
     const tools = await client.listTools(traceId);
     if (!tools.success) {
@@ -120,12 +140,15 @@ async function discoverServerTools(
       return { success: false, error: tools.error };
     }
 
-    const converted: Array<{ originalName: string; claudeTool: Anthropic.Tool }> = tools.data.map(
-      (t) => ({
-        originalName: t.name,
-        claudeTool: mcpToolToClaude(server.name, t) as unknown as Anthropic.Tool,
-      })
-    );
+    const converted: Array<{
+      originalName: string;
+      claudeTool: Anthropic.Tool;
+      annotations?: McpToolAnnotations;
+    }> = tools.data.map((t) => ({
+      originalName: t.name,
+      claudeTool: mcpToolToClaude(server.name, t) as unknown as Anthropic.Tool,
+      annotations: t.annotations,
+    }));
 
     const registered = toolRegistry.registerMcpTools(server.name, converted);
 
@@ -1,61 +1,129 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { 
-  markServerUnavailable, 
-  markServerAvailable, 
-  isServerAvailable, 
-  getAllServerHealth 
+import {
+  markServerUnavailable,
+  markServerAvailable,
+  isServerAvailable,
+  getAllServerHealth,
+  beginServerRequest,
+  isProbeDue,
+  recordServerResult,
+  DEFAULT_COOLDOWN_MS,
+  DEFAULT_FAILURE_THRESHOLD,
+  __resetServerHealthForTests,
 } from './health.js';
 import { logger } from '../../utils/logger.js';
 
 vi.mock('../../utils/logger.js');
 
+function failTimes(server: string, times: number): void {
+  for (let i = 0; i < times; i++) {
+    markServerUnavailable(server, new Error(`Fail ${i + 1}`));
+  }
+}
+
 describe('MCP Health Monitor', () => {
   beforeEach(() => {
-    // Reset internal state by clearing map? 
-    // The module uses a module-level Map. We can't easily reset it without an export.
-    // However, we can use new server names for each test.
     vi.resetAllMocks();
+    __resetServerHealthForTests();
   });
 
-  it('tracks server failure', () => {
+  it('opens the circuit after consecutive failures', () => {
     const server = 'test-server-1';
-    const error = new Error('Connection failed');
 
-    markServerUnavailable(server, error);
+    failTimes(server, DEFAULT_FAILURE_THRESHOLD - 1);
+    expect(isServerAvailable(server)).toBe(true);
+
+    markServerUnavailable(server, new Error('Connection failed'));
 
     expect(isServerAvailable(server)).toBe(false);
-    expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({
-      event: 'mcp_server_unavailable',
-      server,
-      error: 'Connection failed',
-      failureCount: 1
-    }));
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: 'mcp_server_unavailable',
+        server,
+        error: 'Connection failed',
+        failureCount: DEFAULT_FAILURE_THRESHOLD,
+      })
+    );
   });
 
   it('tracks server recovery', () => {
     const server = 'test-server-2';
-    markServerUnavailable(server, new Error('Fail'));
+    failTimes(server, DEFAULT_FAILURE_THRESHOLD);
     expect(isServerAvailable(server)).toBe(false);
 
     markServerAvailable(server);
     expect(isServerAvailable(server)).toBe(true);
-    
-    expect(logger.info).toHaveBeenCalledWith(expect.objectContaining({
-      event: 'mcp_server_recovered',
-      server
-    }));
+
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: 'mcp_server_recovered',
+        server,
+      })
+    );
   });
 
   it('assumes unknown servers are available', () => {
     expect(isServerAvailable('unknown-server')).toBe(true);
+    expect(beginServerRequest('unknown-server')).toEqual({ allowed: true, probe: false });
   });
 
-  it('increments failure count', () => {
+  it('increments failure count and resets consecutive failures on success', () => {
     const server = 'test-server-3';
     markServerUnavailable(server, new Error('Fail 1'));
+    markServerAvailable(server);
     markServerUnavailable(server, new Error('Fail 2'));
 
-    const health = getAllServerHealth().find(h => h.name === server);
-    expect(health?.failureCount).toBe(2);
+    const health = getAllServerHealth().find((h) => h.name === server);
+    expect(health).toMatchObject({
+      failureCount: 2,
+      consecutiveFailures: 1,
+      circuitState: 'closed',
+    });
+  });
+
+  it('rejects requests until the cooldown, then allows a single probe', () => {
+    const server = 'test-server-4';
+    const openedAt = Date.now();
+    failTimes(server, DEFAULT_FAILURE_THRESHOLD);
+
+    const rejected = beginServerRequest(server, openedAt + 1000);
+    expect(rejected.allowed).toBe(false);
+    if (!rejected.allowed) {
+      expect(rejected.retryAfterMs).toBeGreaterThan(DEFAULT_COOLDOWN_MS - 2000);
+    }
+
+    const probeAt = openedAt + DEFAULT_COOLDOWN_MS + 1000;
+    expect(isProbeDue(server, probeAt)).toBe(true);
+    expect(beginServerRequest(server, probeAt)).toEqual({ allowed: true, probe: true });
+    expect(beginServerRequest(server, probeAt + 10).allowed).toBe(false);
+    expect(getAllServerHealth()[0].circuitState).toBe('half_open');
+  });
+
+  it('reopens immediately when the probe fails', () => {
+    const server = 'test-server-5';
+    failTimes(server, DEFAULT_FAILURE_THRESHOLD);
+    beginServerRequest(server, Date.now() + DEFAULT_COOLDOWN_MS);
+
+    recordServerResult(server, {
+      success: false,
+      error: { code: 'TOOL_UNAVAILABLE', message: 'still down', retryable: true },
+    });
+
+    expect(getAllServerHealth()[0]).toMatchObject({
+      circuitState: 'open',
+      lastError: 'still down',
+    });
+  });
+
+  it('treats tool-level errors as a healthy response', () => {
+    const server = 'test-server-6';
+    failTimes(server, 1);
+
+    recordServerResult(server, {
+      success: false,
+      error: { code: 'TOOL_EXECUTION_FAILED', message: 'Bad params', retryable: false },
+    });
+
+    expect(getAllServerHealth()[0].consecutiveFailures).toBe(0);
   });
 });
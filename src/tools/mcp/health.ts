@@ -1,62 +1,207 @@
+/**
+ * MCP server health and circuit breaker.
+ *
+ * Each server has a circuit:
+ * - `closed`: requests flow; consecutive server failures are counted
+ * - `open`: after `failure_threshold` consecutive failures requests are rejected
+ *   fast and the server's tools are hidden from Claude
+ * - `half_open`: once `cooldown_ms` has passed, one request probes the server
+ *   with tools/list; success closes the circuit, failure opens it again
+ *
+ * Thresholds come from `mcp_servers.<name>.circuit_breaker` in .orion/config.yaml.
+ * McpClient gates every request through `beginServerRequest` and reports the
+ * outcome with `recordServerResult`.
+ */
+
 import { logger } from '../../utils/logger.js';
+import type { ToolError, ToolResult } from '../../utils/tool-result.js';
+import { getMcpServerConfig } from '../../config/mcp-servers.js';
 import type { McpServerHealth } from './types.js';
 
+/** Consecutive failures that open the circuit */
+export const DEFAULT_FAILURE_THRESHOLD = 3;
+
+/** Time an open circuit waits before a probe */
+export const DEFAULT_COOLDOWN_MS = 30_000;
+
 const serverHealth = new Map<string, McpServerHealth>();
 
 /**
- * Mark an MCP server as unavailable after an error
+ * Whether a request may be sent to a server right now
+ */
+export type ServerRequestGate =
+  | { allowed: true; /** This request is the half-open probe */ probe: boolean }
+  | { allowed: false; retryAfterMs: number };
+
+function getCircuitBreakerSettings(name: string): { failureThreshold: number; cooldownMs: number } {
+  const configured = getMcpServerConfig(name)?.circuitBreaker;
+  return {
+    failureThreshold: configured?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+    cooldownMs: configured?.cooldownMs ?? DEFAULT_COOLDOWN_MS,
+  };
+}
+
+function getHealth(name: string): McpServerHealth {
+  return (
+    serverHealth.get(name) ?? {
+      name,
+      available: true,
+      circuitState: 'closed',
+      failureCount: 0,
+      consecutiveFailures: 0,
+    }
+  );
+}
+
+/**
+ * Whether an error means the server itself is unhealthy (unreachable, timing out,
+ * 5xx/429) rather than a tool-level error from a working server.
+ */
+export function isServerFailure(error: ToolError): boolean {
+  return error.code === 'TOOL_UNAVAILABLE' || error.retryable;
+}
+
+/**
+ * Record a server failure; opens the circuit at the failure threshold, or
+ * reopens it when a half-open probe fails.
  * Logs structured error per AR12
  */
 export function markServerUnavailable(name: string, error: Error): void {
-  const existing = serverHealth.get(name) || {
-    name,
-    available: true,
-    failureCount: 0,
-  };
+  const existing = getHealth(name);
+  const { failureThreshold } = getCircuitBreakerSettings(name);
+
+  const consecutiveFailures = existing.consecutiveFailures + 1;
+  const opens =
+    existing.circuitState === 'half_open' ||
+    (existing.circuitState === 'closed' && consecutiveFailures >= failureThreshold);
 
   const updated: McpServerHealth = {
-    name,
-    available: false,
+    ...existing,
     lastError: error.message,
     lastErrorTime: new Date(),
     failureCount: existing.failureCount + 1,
+    consecutiveFailures,
   };
+  if (opens) {
+    updated.circuitState = 'open';
+    updated.available = false;
+    updated.openedAt = new Date();
+  }
 
   serverHealth.set(name, updated);
 
-  // Structured JSON logging per AR12
-  logger.error({
-    event: 'mcp_server_unavailable',
-    server: name,
-    error: error.message,
-    failureCount: updated.failureCount,
-    timestamp: new Date().toISOString(),
-  });
+  if (opens) {
+    // Structured JSON logging per AR12
+    logger.error({
+      event: 'mcp_server_unavailable',
+      server: name,
+      error: error.message,
+      failureCount: updated.failureCount,
+      consecutiveFailures,
+      reopened: existing.circuitState === 'half_open',
+      timestamp: new Date().toISOString(),
+    });
+  } else {
+    logger.warn({
+      event: 'mcp_server_failure',
+      server: name,
+      error: error.message,
+      consecutiveFailures,
+      failureThreshold,
+    });
+  }
 }
 
 /**
- * Mark an MCP server as available (recovered)
+ * Record a successful response; closes the circuit
  */
 export function markServerAvailable(name: string): void {
   const existing = serverHealth.get(name);
-  if (existing) {
-    existing.available = true;
-    serverHealth.set(name, existing);
-    
+  if (!existing) return;
+
+  const recovering = existing.circuitState !== 'closed' || existing.consecutiveFailures > 0;
+  serverHealth.set(name, {
+    ...existing,
+    available: true,
+    circuitState: 'closed',
+    consecutiveFailures: 0,
+    openedAt: undefined,
+  });
+
+  if (recovering) {
     logger.info({
       event: 'mcp_server_recovered',
       server: name,
       previousFailures: existing.failureCount,
+      previousState: existing.circuitState,
     });
   }
 }
 
 /**
- * Check if an MCP server is currently available
+ * Check if an MCP server's circuit is closed (its tools are offered to Claude)
  */
 export function isServerAvailable(name: string): boolean {
-  const health = serverHealth.get(name);
-  return health?.available ?? true; // Assume available if not tracked
+  return getHealth(name).circuitState === 'closed'; // Assume available if not tracked
+}
+
+/**
+ * Whether an open circuit has cooled down and is waiting for a probe
+ */
+export function isProbeDue(name: string, now: number = Date.now()): boolean {
+  const health = getHealth(name);
+  if (health.circuitState === 'closed' || !health.openedAt) return false;
+  return now - health.openedAt.getTime() >= getCircuitBreakerSettings(name).cooldownMs;
+}
+
+/**
+ * Gate a request to a server.
+ *
+ * Closed circuits let every request through. An open circuit rejects requests until
+ * the cooldown has passed, then lets exactly one through as the half-open probe
+ * (another probe is allowed if that one has not reported back within a cooldown).
+ */
+export function beginServerRequest(name: string, now: number = Date.now()): ServerRequestGate {
+  const health = getHealth(name);
+  if (health.circuitState === 'closed') return { allowed: true, probe: false };
+
+  const { cooldownMs } = getCircuitBreakerSettings(name);
+  const elapsed = now - (health.openedAt?.getTime() ?? 0);
+  if (elapsed < cooldownMs) {
+    return { allowed: false, retryAfterMs: cooldownMs - elapsed };
+  }
+
+  // Restart the cooldown clock so concurrent requests wait for this probe.
+  serverHealth.set(name, { ...health, circuitState: 'half_open', openedAt: new Date(now) });
+  logger.info({
+    event: 'mcp_server_probe',
+    server: name,
+    consecutiveFailures: health.consecutiveFailures,
+  });
+  return { allowed: true, probe: true };
+}
+
+/**
+ * Update the circuit from a request outcome. Tool-level errors from a
+ * responsive server count as success.
+ */
+export function recordServerResult(name: string, result: ToolResult<unknown>): void {
+  if (!result.success && isServerFailure(result.error)) {
+    markServerUnavailable(name, new Error(result.error.message));
+  } else {
+    markServerAvailable(name);
+  }
+}
+
+/**
+ * Error returned instead of calling a server whose circuit is open
+ */
+export function circuitOpenError(name: string, retryAfterMs: number): ToolError {
+  return {
+    code: 'TOOL_UNAVAILABLE',
+    message: `MCP server "${name}" is temporarily unavailable after repeated failures; retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+    retryable: true,
+  };
 }
 
 /**
@@ -65,3 +210,7 @@ export function isServerAvailable(name: string): boolean {
 export function getAllServerHealth(): McpServerHealth[] {
   return Array.from(serverHealth.values());
 }
+
+export function __resetServerHealthForTests(): void {
+  serverHealth.clear();
+}
@@ -10,6 +10,17 @@
 // MCP Client (Story 3.1)
 export { McpClient } from './client.js';
 
+// stdio transport (local server processes)
+export {
+  StdioMcpTransport,
+  getStdioTransport,
+  pruneStdioTransports,
+  closeStdioTransports,
+} from './stdio-transport.js';
+
+// Client construction from server config
+export { createMcpClient } from './client-factory.js';
+
 // Schema Conversion (Story 3.1)
 export { mcpToolToClaude, parseClaudeToolName } from './schema-converter.js';
 export type { AnthropicTool, AnthropicSchemaProperty } from './schema-converter.js';
@@ -21,13 +32,54 @@ export {
   clearMcpConfigCache,
 } from './config.js';
 
-// Health tracking
+// Health tracking and circuit breaker
 export {
   markServerUnavailable,
   markServerAvailable,
   isServerAvailable,
+  isProbeDue,
+  beginServerRequest,
+  recordServerResult,
   getAllServerHealth,
+  DEFAULT_FAILURE_THRESHOLD,
+  DEFAULT_COOLDOWN_MS,
 } from './health.js';
+export type { ServerRequestGate } from './health.js';
+
+// Resources as context and prompts as templates
+export {
+  findRelevantMcpResources,
+  clearMcpResourceCache,
+  CATALOG_TTL_MS,
+  MAX_RESOURCE_CHARS,
+} from './resources.js';
+export type { McpResourceMatch } from './resources.js';
+export {
+  listMcpPrompts,
+  toSuggestedPrompts,
+  formatPromptInvocation,
+  parsePromptInvocation,
+  renderPromptMessages,
+  expandPromptInvocation,
+  clearMcpPromptCache,
+} from './prompts.js';
+export type { McpPromptTemplate, PromptInvocation, SuggestedPrompt } from './prompts.js';
+
+// Per-user OAuth
+export {
+  OAUTH_CALLBACK_PATH,
+  AUTHORIZATION_TTL_MS,
+  setMcpAuthorizationNotifier,
+  isMcpOAuthConfigured,
+  getOAuthRedirectUri,
+  buildAuthorizationUrl,
+  getUserMcpToken,
+  requestMcpAuthorization,
+  authorizeMcpToolCall,
+  reauthorizeMcpUser,
+  completeMcpAuthorization,
+} from './oauth.js';
+export type { McpAuthorizationRequest, McpAuthorizationNotifier } from './oauth.js';
 
 // Types
 export type {
@@ -36,20 +88,35 @@ export type {
   McpJsonRpcResponse,
   McpJsonRpcError,
   McpTool,
+  McpToolAnnotations,
   McpToolInputSchema,
   McpJsonSchemaProperty,
   McpToolsListResult,
   McpContentBlock,
   McpContent,
+  McpResource,
+  McpResourcesListResult,
+  McpResourceContents,
+  McpResourceReadResult,
+  McpPrompt,
+  McpPromptArgument,
+  McpPromptsListResult,
+  McpPromptMessage,
+  McpPromptGetResult,
   McpClientConfig,
   McpClientState,
+  McpTransport,
   // Server config types
   McpServerConfig,
   McpServerStdioConfig,
   McpServerHttpConfig,
   McpServerSseConfig,
+  McpServerOAuthConfig,
+  ResolvedMcpOAuthConfig,
   McpServersConfig,
+  ResolvedMcpServerConfig,
   McpServerHealth,
+  McpCircuitState,
   ClaudeSdkMcpConfig,
   ClaudeSdkMcpStdioConfig,
   ClaudeSdkMcpHttpConfig,
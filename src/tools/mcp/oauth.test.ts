@@ -0,0 +1,243 @@
+import { createHash } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../utils/logger.js');
+
+vi.mock('../../config/environment.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../config/environment.js')>();
+  return {
+    config: {
+      ...actual.config,
+      publicUrl: 'https://orion.example.com/',
+      mcpOAuthEncryptionKey: 'test-encryption-secret',
+    },
+  };
+});
+
+const github = {
+  name: 'github',
+  type: 'http' as const,
+  url: 'https://github.example.com/mcp',
+  enabled: true,
+  connectionTimeoutMs: 10,
+  requestTimeoutMs: 10,
+  oauth: {
+    authorizationUrl: 'https://github.example.com/login/oauth/authorize',
+    tokenUrl: 'https://github.example.com/login/oauth/access_token',
+    clientId: 'client-1',
+    clientSecret: 'secret-1',
+    scopes: ['repo', 'read:org'],
+  },
+};
+
+vi.mock('../../config/mcp-servers.js', () => ({
+  getMcpServerConfig: (name: string) => (name === 'github' ? github : undefined),
+}));
+
+import { loadMcpCredential, saveMcpCredential } from '../../memory/credentials.js';
+import { setMemoryStore } from '../../memory/index.js';
+import { SqliteMemoryStore } from '../../memory/sqlite-store.js';
+import { sealSecret } from '../../utils/secret-box.js';
+import {
+  __resetMcpOAuthForTests,
+  authorizeMcpToolCall,
+  buildAuthorizationUrl,
+  completeMcpAuthorization,
+  getUserMcpToken,
+  reauthorizeMcpUser,
+  requestMcpAuthorization,
+  setMcpAuthorizationNotifier,
+} from './oauth.js';
+
+const fetchMock = vi.fn();
+
+function tokenResponse(body: Record<string, unknown>, status = 200) {
+  return { ok: status < 400, status, text: async () => JSON.stringify(body) };
+}
+
+describe('MCP OAuth', () => {
+  let store: SqliteMemoryStore;
+
+  beforeEach(() => {
+    __resetMcpOAuthForTests();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    store = new SqliteMemoryStore(':memory:');
+    setMemoryStore(store);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setMemoryStore(null);
+    store.close();
+  });
+
+  describe('buildAuthorizationUrl', () => {
+    it('builds a PKCE authorization request with an opaque state', () => {
+      const url = new URL(
+        buildAuthorizationUrl(
+          { ...github.oauth, authorizationParams: { access_type: 'offline' } },
+          { userId: 'U1', serverName: 'github' }
+        )
+      );
+
+      expect(url.origin + url.pathname).toBe(github.oauth.authorizationUrl);
+      expect(Object.fromEntries(url.searchParams)).toMatchObject({
+        access_type: 'offline',
+        response_type: 'code',
+        client_id: 'client-1',
+        redirect_uri: 'https://orion.example.com/mcp/oauth/callback',
+        scope: 'repo read:org',
+        code_challenge_method: 'S256',
+      });
+      expect(url.searchParams.get('code_challenge')).toMatch(/^[\w-]{43}$/);
+      expect(url.searchParams.get('state')).not.toContain('U1');
+    });
+  });
+
+  describe('requestMcpAuthorization', () => {
+    it('DMs a connect link once per link lifetime', async () => {
+      const notifier = vi.fn().mockResolvedValue(undefined);
+      setMcpAuthorizationNotifier(notifier);
+
+      const first = await requestMcpAuthorization(github, 'U1', 'trace-1');
+      const second = await requestMcpAuthorization(github, 'U1', 'trace-2');
+
+      expect(notifier).toHaveBeenCalledTimes(1);
+      expect(notifier).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'U1', serverName: 'github', traceId: 'trace-1' })
+      );
+      expect(first).toMatchObject({ code: 'AUTH_REQUIRED', retryable: false });
+      expect(first.message).toContain('direct message');
+      expect(second.message).toContain('already sent');
+    });
+
+    it('explains when connect links cannot be delivered', async () => {
+      const error = await requestMcpAuthorization(github, 'U1');
+
+      expect(error.code).toBe('AUTH_REQUIRED');
+      expect(error.message).toContain('not set up');
+    });
+  });
+
+  describe('completeMcpAuthorization', () => {
+    it('exchanges the code with the PKCE verifier and stores the tokens', async () => {
+      let url = '';
+      setMcpAuthorizationNotifier(async (request) => {
+        url = request.url;
+      });
+      await authorizeMcpToolCall(github, 'U1');
+      const authorize = new URL(url);
+
+      fetchMock.mockResolvedValueOnce(
+        tokenResponse({ access_token: 'gho_user', refresh_token: 'ghr_user', expires_in: 3600 })
+      );
+      const result = await completeMcpAuthorization({
+        state: authorize.searchParams.get('state') ?? '',
+        code: 'code-1',
+      });
+
+      expect(result).toEqual({ success: true, data: { userId: 'U1', serverName: 'github' } });
+
+      const [tokenUrl, init] = fetchMock.mock.calls[0];
+      const body = new URLSearchParams(init.body as URLSearchParams);
+      expect(tokenUrl).toBe(github.oauth.tokenUrl);
+      expect(body.get('grant_type')).toBe('authorization_code');
+      expect(body.get('code')).toBe('code-1');
+      expect(body.get('client_secret')).toBe('secret-1');
+      expect(
+        createHash('sha256')
+          .update(body.get('code_verifier') ?? '')
+          .digest('base64url')
+      ).toBe(authorize.searchParams.get('code_challenge'));
+
+      expect(await authorizeMcpToolCall(github, 'U1')).toEqual({ success: true, data: 'gho_user' });
+      expect(await authorizeMcpToolCall(github, 'U2')).toMatchObject({ success: false });
+    });
+
+    it('rejects tampered and expired links', async () => {
+      const expired = sealSecret(
+        JSON.stringify({ userId: 'U1', serverName: 'github', codeVerifier: 'v', expiresAt: 1 })
+      );
+
+      for (const state of ['not-a-state', expired]) {
+        const result = await completeMcpAuthorization({ state, code: 'code-1' });
+        expect(result.success === false && result.error.code).toBe('TOOL_INVALID_INPUT');
+      }
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('reports token endpoint errors', async () => {
+      const state = sealSecret(
+        JSON.stringify({
+          userId: 'U1',
+          serverName: 'github',
+          codeVerifier: 'v',
+          expiresAt: Date.now() + 60_000,
+        })
+      );
+      fetchMock.mockResolvedValueOnce(
+        tokenResponse({ error: 'bad_verification_code', error_description: 'The code expired.' })
+      );
+
+      const result = await completeMcpAuthorization({ state, code: 'code-1' });
+
+      expect(result.success === false && result.error.message).toBe('The code expired.');
+      expect(await loadMcpCredential('U1', 'github')).toBeNull();
+    });
+  });
+
+  describe('getUserMcpToken', () => {
+    const expired = {
+      userId: 'U1',
+      serverName: 'github',
+      accessToken: 'gho_old',
+      refreshToken: 'ghr_old',
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+      createdAt: '2025-01-01T00:00:00.000Z',
+    };
+
+    it('refreshes expired tokens and keeps the refresh token', async () => {
+      await saveMcpCredential(expired);
+      fetchMock.mockResolvedValueOnce(tokenResponse({ access_token: 'gho_new', expires_in: 3600 }));
+
+      expect(await getUserMcpToken(github, 'U1')).toBe('gho_new');
+
+      const body = new URLSearchParams(fetchMock.mock.calls[0][1].body as URLSearchParams);
+      expect(body.get('grant_type')).toBe('refresh_token');
+      expect(body.get('refresh_token')).toBe('ghr_old');
+      expect(await loadMcpCredential('U1', 'github')).toMatchObject({
+        accessToken: 'gho_new',
+        refreshToken: 'ghr_old',
+        createdAt: expired.createdAt,
+      });
+    });
+
+    it('forgets credentials that can no longer be refreshed', async () => {
+      await saveMcpCredential(expired);
+      fetchMock.mockResolvedValueOnce(tokenResponse({ error: 'invalid_grant' }, 400));
+
+      expect(await getUserMcpToken(github, 'U1')).toBeNull();
+      expect(await loadMcpCredential('U1', 'github')).toBeNull();
+    });
+  });
+
+  describe('reauthorizeMcpUser', () => {
+    it('forgets the rejected token and sends a new link', async () => {
+      const notifier = vi.fn().mockResolvedValue(undefined);
+      setMcpAuthorizationNotifier(notifier);
+      await saveMcpCredential({
+        userId: 'U1',
+        serverName: 'github',
+        accessToken: 'gho_revoked',
+        createdAt: '2025-01-01T00:00:00.000Z',
+      });
+
+      const error = await reauthorizeMcpUser(github, 'U1');
+
+      expect(error.code).toBe('AUTH_REQUIRED');
+      expect(notifier).toHaveBeenCalledTimes(1);
+      expect(await loadMcpCredential('U1', 'github')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Per-user OAuth for MCP servers.
+ *
+ * Servers with an `oauth` section in `mcp_servers` are called with the requesting
+ * Slack user's own access token, so GitHub, Google, etc. apply that user's
+ * identity and permissions instead of a shared service account. Tool discovery
+ * (tools/list) still uses the server's static credentials.
+ *
+ * Flow (authorization code + PKCE):
+ * 1. A tool call for a user without a token, or one rejected with HTTP 401,
+ *    returns AUTH_REQUIRED and the user gets a connect link by DM (notifier
+ *    registered at startup, see slack/mcp-connect.ts).
+ * 2. The provider redirects to `{ORION_PUBLIC_URL}/mcp/oauth/callback` on the
+ *    ExpressReceiver (see slack/app.ts); `completeMcpAuthorization` exchanges
+ *    the code for tokens.
+ * 3. Tokens are stored encrypted per user and server (memory/credentials.ts) and
+ *    refreshed with the refresh token when the access token expires.
+ *
+ * The `state` parameter is sealed with MCP_OAUTH_ENCRYPTION_KEY and carries the
+ * user, server, PKCE verifier and expiry, so any instance can complete the callback.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { config } from '../../config/environment.js';
+import { getMcpServerConfig, type McpServerConfig } from '../../config/mcp-servers.js';
+import {
+  deleteMcpCredential,
+  loadMcpCredential,
+  saveMcpCredential,
+  type McpCredential,
+} from '../../memory/credentials.js';
+import type { ToolError, ToolResult } from '../../utils/tool-result.js';
+import { isSecretBoxConfigured, openSecret, sealSecret } from '../../utils/secret-box.js';
+import { logger } from '../../utils/logger.js';
+import type { ResolvedMcpOAuthConfig } from './types.js';
+
+/** ExpressReceiver route the provider redirects to */
+export const OAUTH_CALLBACK_PATH = '/mcp/oauth/callback';
+
+/** How long a connect link stays valid */
+export const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+/** Refresh access tokens this long before they expire */
+const EXPIRY_SKEW_MS = 60 * 1000;
+
+const TOKEN_REQUEST_TIMEOUT_MS = 15_000;
+
+/**
+ * Connect link to send to a user
+ */
+export interface McpAuthorizationRequest {
+  userId: string;
+  serverName: string;
+  /** Server description from config, for the message */
+  description?: string;
+  url: string;
+  traceId?: string;
+}
+
+/**
+ * Delivers connect links to users (a Slack DM in production)
+ */
+export type McpAuthorizationNotifier = (request: McpAuthorizationRequest) => Promise<void>;
+
+interface AuthorizationState {
+  userId: string;
+  serverName: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number | string;
+  scope?: string;
+  error?: string;
+  error_description?: string;
+}
+
+let notifier: McpAuthorizationNotifier | null = null;
+
+/** When a link was last sent, per `{userId}/{serverName}` (one per link lifetime) */
+const lastNotifiedAt = new Map<string, number>();
+
+/**
+ * Register how connect links reach users (called at startup).
+ */
+export function setMcpAuthorizationNotifier(next: McpAuthorizationNotifier | null): void {
+  notifier = next;
+}
+
+/**
+ * Whether per-user OAuth can run: the public callback URL and the token
+ * encryption key are both configured.
+ */
+export function isMcpOAuthConfigured(): boolean {
+  return config.publicUrl.length > 0 && isSecretBoxConfigured();
+}
+
+/**
+ * Redirect URI to register with OAuth providers
+ */
+export function getOAuthRedirectUri(): string {
+  return `${config.publicUrl.replace(/\/+$/, '')}${OAUTH_CALLBACK_PATH}`;
+}
+
+/**
+ * Build the provider's authorization URL for a user.
+ */
+export function buildAuthorizationUrl(
+  oauth: ResolvedMcpOAuthConfig,
+  params: { userId: string; serverName: string },
+  now: number = Date.now()
+): string {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const state: AuthorizationState = {
+    userId: params.userId,
+    serverName: params.serverName,
+    codeVerifier,
+    expiresAt: now + AUTHORIZATION_TTL_MS,
+  };
+
+  const url = new URL(oauth.authorizationUrl);
+  for (const [key, value] of Object.entries(oauth.authorizationParams ?? {})) {
+    url.searchParams.set(key, value);
+  }
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', oauth.clientId);
+  url.searchParams.set('redirect_uri', getOAuthRedirectUri());
+  if (oauth.scopes.length > 0) url.searchParams.set('scope', oauth.scopes.join(' '));
+  url.searchParams.set('state', sealSecret(JSON.stringify(state)));
+  url.searchParams.set(
+    'code_challenge',
+    createHash('sha256').update(codeVerifier).digest('base64url')
+  );
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+async function requestToken(
+  oauth: ResolvedMcpOAuthConfig,
+  params: Record<string, string>
+): Promise<TokenResponse & { access_token: string }> {
+  const body = new URLSearchParams({ ...params, client_id: oauth.clientId });
+  if (oauth.clientSecret) body.set('client_secret', oauth.clientSecret);
+
+  const response = await fetch(oauth.tokenUrl, {
+    method: 'POST',
+    // GitHub answers form-encoded unless JSON is requested
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body,
+    signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT_MS),
+  });
+
+  const text = await response.text();
+  let data: TokenResponse;
+  try {
+    data = JSON.parse(text) as TokenResponse;
+  } catch {
+    data = Object.fromEntries(new URLSearchParams(text)) as TokenResponse;
+  }
+
+  if (!response.ok || data.error || !data.access_token) {
+    throw new Error(
+      data.error_description ?? data.error ?? `token endpoint returned HTTP ${response.status}`
+    );
+  }
+  return data as TokenResponse & { access_token: string };
+}
+
+function toCredential(
+  userId: string,
+  serverName: string,
+  tokens: TokenResponse & { access_token: string },
+  previous?: McpCredential
+): McpCredential {
+  const expiresIn = Number(tokens.expires_in);
+  return {
+    userId,
+    serverName,
+    accessToken: tokens.access_token,
+    // Providers may omit the refresh token on refresh; keep the previous one
+    refreshToken: tokens.refresh_token || previous?.refreshToken,
+    expiresAt: expiresIn > 0 ? new Date(Date.now() + expiresIn * 1000).toISOString() : undefined,
+    scope: tokens.scope ?? previous?.scope,
+    createdAt: previous?.createdAt ?? new Date().toISOString(),
+  };
+}
+
+/**
+ * Current access token of a user for a server, refreshed if it has expired.
+ *
+ * @returns The token, or null when the user has to connect (again)
+ */
+export async function getUserMcpToken(
+  server: McpServerConfig,
+  userId: string,
+  traceId?: string
+): Promise<string | null> {
+  const credential = await loadMcpCredential(userId, server.name);
+  if (!credential) return null;
+
+  const expiresAt = credential.expiresAt ? Date.parse(credential.expiresAt) : Infinity;
+  if (expiresAt - EXPIRY_SKEW_MS > Date.now()) return credential.accessToken;
+
+  if (!server.oauth || !credential.refreshToken) {
+    await deleteMcpCredential(userId, server.name);
+    return null;
+  }
+
+  try {
+    const tokens = await requestToken(server.oauth, {
+      grant_type: 'refresh_token',
+      refresh_token: credential.refreshToken,
+    });
+    const refreshed = toCredential(userId, server.name, tokens, credential);
+    await saveMcpCredential(refreshed);
+    logger.info({ event: 'mcp.oauth.refreshed', serverName: server.name, userId, traceId });
+    return refreshed.accessToken;
+  } catch (error) {
+    logger.warn({
+      event: 'mcp.oauth.refresh_failed',
+      serverName: server.name,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+      traceId,
+    });
+    await deleteMcpCredential(userId, server.name);
+    return null;
+  }
+}
+
+function authRequired(message: string): ToolError {
+  return { code: 'AUTH_REQUIRED', message, retryable: false };
+}
+
+/**
+ * Send the user a connect link for a server (at most once per link lifetime).
+ *
+ * @returns AUTH_REQUIRED error explaining to the model what happened
+ */
+export async function requestMcpAuthorization(
+  server: McpServerConfig,
+  userId: string,
+  traceId?: string
+): Promise<ToolError> {
+  if (!server.oauth || !isMcpOAuthConfigured() || !notifier) {
+    logger.warn({
+      event: 'mcp.oauth.not_configured',
+      serverName: server.name,
+      hasNotifier: Boolean(notifier),
+      traceId,
+    });
+    return authRequired(
+      `Connecting personal ${server.name} accounts is not set up on this Orion instance ` +
+        '(ORION_PUBLIC_URL and MCP_OAUTH_ENCRYPTION_KEY are required). Ask an admin.'
+    );
+  }
+
+  const key = `${userId}/${server.name}`;
+  const sentAt = lastNotifiedAt.get(key);
+  if (sentAt !== undefined && Date.now() - sentAt < AUTHORIZATION_TTL_MS) {
+    return authRequired(
+      `The user was already sent a link to connect their ${server.name} account by direct ` +
+        'message. Ask them to connect it and then try again.'
+    );
+  }
+
+  try {
+    await notifier({
+      userId,
+      serverName: server.name,
+      description: server.description,
+      url: buildAuthorizationUrl(server.oauth, { userId, serverName: server.name }),
+      traceId,
+    });
+    lastNotifiedAt.set(key, Date.now());
+    logger.info({ event: 'mcp.oauth.link_sent', serverName: server.name, userId, traceId });
+  } catch (error) {
+    logger.error({
+      event: 'mcp.oauth.link_failed',
+      serverName: server.name,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+      traceId,
+    });
+    return authRequired(
+      `The user needs to connect their ${server.name} account, but the connect link could not ` +
+        'be sent. Try again later.'
+    );
+  }
+
+  return authRequired(
+    `The user has not connected their ${server.name} account yet. A connect link was sent to ` +
+      'them by direct message; ask them to connect it and then try again.'
+  );
+}
+
+/**
+ * Token for a tool call on a server with per-user OAuth.
+ * Sends a connect link when the user has none. Never throws.
+ */
+export async function authorizeMcpToolCall(
+  server: McpServerConfig,
+  userId: string | undefined,
+  traceId?: string
+): Promise<ToolResult<string>> {
+  if (!userId) {
+    return {
+      success: false,
+      error: authRequired(
+        `${server.name} tools act as the requesting Slack user, but none is known.`
+      ),
+    };
+  }
+
+  try {
+    const token = await getUserMcpToken(server, userId, traceId);
+    if (token) return { success: true, data: token };
+    return { success: false, error: await requestMcpAuthorization(server, userId, traceId) };
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        code: 'TOOL_UNAVAILABLE',
+        message: `Could not load ${server.name} credentials: ${error instanceof Error ? error.message : String(error)}`,
+        retryable: true,
+      },
+    };
+  }
+}
+
+/**
+ * Forget a token the server rejected (HTTP 401) and ask the user to connect again.
+ * Never throws.
+ */
+export async function reauthorizeMcpUser(
+  server: McpServerConfig,
+  userId: string,
+  traceId?: string
+): Promise<ToolError> {
+  try {
+    await deleteMcpCredential(userId, server.name);
+  } catch (error) {
+    logger.warn({
+      event: 'mcp.oauth.revoke_failed',
+      serverName: server.name,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+      traceId,
+    });
+  }
+  return requestMcpAuthorization(server, userId, traceId);
+}
+
+/**
+ * Finish the authorization code flow from the callback's `state` and `code`.
+ * Never throws.
+ *
+ * @returns The connected user and server
+ */
+export async function completeMcpAuthorization(
+  params: { state: string; code: string },
+  traceId?: string
+): Promise<ToolResult<{ userId: string; serverName: string }>> {
+  const opened = openSecret(params.state);
+  const state = opened ? (JSON.parse(opened) as AuthorizationState) : null;
+  if (!state || state.expiresAt < Date.now()) {
+    return {
+      success: false,
+      error: {
+        code: 'TOOL_INVALID_INPUT',
+        message: 'This connect link is invalid or has expired. Ask Orion again for a new one.',
+        retryable: false,
+      },
+    };
+  }
+
+  const server = getMcpServerConfig(state.serverName);
+  if (!server?.enabled || !server.oauth) {
+    return {
+      success: false,
+      error: {
+        code: 'TOOL_NOT_FOUND',
+        message: `MCP server "${state.serverName}" no longer uses per-user OAuth.`,
+        retryable: false,
+      },
+    };
+  }
+
+  try {
+    const tokens = await requestToken(server.oauth, {
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: getOAuthRedirectUri(),
+      code_verifier: state.codeVerifier,
+    });
+    await saveMcpCredential(toCredential(state.userId, server.name, tokens));
+    lastNotifiedAt.delete(`${state.userId}/${server.name}`);
+
+    logger.info({
+      event: 'mcp.oauth.connected',
+      serverName: server.name,
+      userId: state.userId,
+      traceId,
+    });
+    return { success: true, data: { userId: state.userId, serverName: server.name } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error({
+      event: 'mcp.oauth.exchange_failed',
+      serverName: server.name,
+      userId: state.userId,
+      error: message,
+      traceId,
+    });
+    return {
+      success: false,
+      error: { code: 'TOOL_EXECUTION_FAILED', message, retryable: false },
+    };
+  }
+}
+
+export function __resetMcpOAuthForTests(): void {
+  notifier = null;
+  lastNotifiedAt.clear();
+}
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { McpClient } from './client.js';
+import { __resetServerHealthForTests } from './health.js';
+import {
+  clearMcpPromptCache,
+  expandPromptInvocation,
+  formatPromptInvocation,
+  listMcpPrompts,
+  parsePromptInvocation,
+  renderPromptMessages,
+  toSuggestedPrompts,
+} from './prompts.js';
+
+vi.mock('../../utils/logger.js');
+
+describe('MCP prompts', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    clearMcpPromptCache();
+    __resetServerHealthForTests();
+    process.env.RUBE_MCP_ENABLED = 'true';
+    process.env.RUBE_MCP_URL = 'https://example.invalid/mcp';
+  });
+
+  afterEach(() => {
+    delete process.env.RUBE_MCP_ENABLED;
+    delete process.env.RUBE_MCP_URL;
+  });
+
+  describe('parsePromptInvocation', () => {
+    it('parses the server, prompt and arguments', () => {
+      expect(
+        parsePromptInvocation('prompt ops/incident_triage service=api severity="sev 2"')
+      ).toEqual({
+        serverName: 'ops',
+        promptName: 'incident_triage',
+        args: { service: 'api', severity: 'sev 2' },
+      });
+    });
+
+    it('round-trips formatted invocations', () => {
+      expect(parsePromptInvocation(formatPromptInvocation('rube', 'weekly-report'))).toEqual({
+        serverName: 'rube',
+        promptName: 'weekly-report',
+        args: {},
+      });
+    });
+
+    it('ignores other messages', () => {
+      expect(parsePromptInvocation('prompt me to review the deploy')).toBeNull();
+      expect(parsePromptInvocation('Can you prompt ops/triage?')).toBeNull();
+    });
+  });
+
+  describe('renderPromptMessages', () => {
+    it('joins text and embedded resources', () => {
+      expect(
+        renderPromptMessages({
+          messages: [
+            { role: 'user', content: { type: 'text', text: 'Triage the api incident.' } },
+            {
+              role: 'user',
+              content: {
+                type: 'resource',
+                resource: { uri: 'runbook://api', text: 'Check the error rate first.' },
+              },
+            },
+            { role: 'assistant', content: { type: 'text', text: 'Which region?' } },
+            { role: 'user', content: { type: 'image', data: 'iVBO', mimeType: 'image/png' } },
+          ],
+        })
+      ).toBe('Triage the api incident.\n\nCheck the error rate first.\n\nAssistant: Which region?');
+    });
+  });
+
+  describe('listMcpPrompts / toSuggestedPrompts', () => {
+    it('suggests prompts that need no arguments', async () => {
+      const list = vi.spyOn(McpClient.prototype, 'listPrompts').mockResolvedValue({
+        success: true,
+        data: [
+          { name: 'weekly-report', title: 'Weekly report' },
+          { name: 'triage', arguments: [{ name: 'service', required: true }] },
+          { name: 'standup', arguments: [{ name: 'team' }] },
+        ],
+      });
+
+      const templates = await listMcpPrompts();
+      await listMcpPrompts();
+
+      expect(list).toHaveBeenCalledTimes(1);
+      expect(toSuggestedPrompts(templates)).toEqual([
+        { title: 'Weekly report', message: 'prompt rube/weekly-report' },
+        { title: 'standup', message: 'prompt rube/standup' },
+      ]);
+    });
+
+    it('returns nothing when prompts are not supported', async () => {
+      vi.spyOn(McpClient.prototype, 'listPrompts').mockResolvedValue({
+        success: false,
+        error: { code: 'TOOL_EXECUTION_FAILED', message: 'Method not found', retryable: false },
+      });
+
+      expect(await listMcpPrompts()).toEqual([]);
+    });
+  });
+
+  describe('expandPromptInvocation', () => {
+    it('returns null for ordinary messages', async () => {
+      expect(await expandPromptInvocation('What is our on-call policy?')).toBeNull();
+    });
+
+    it('renders the prompt with its arguments', async () => {
+      const get = vi.spyOn(McpClient.prototype, 'getPrompt').mockResolvedValue({
+        success: true,
+        data: { messages: [{ role: 'user', content: { type: 'text', text: 'Triage api' } }] },
+      });
+
+      const result = await expandPromptInvocation('prompt rube/triage service=api', 'trace-1');
+
+      expect(get).toHaveBeenCalledWith('triage', { service: 'api' }, 'trace-1');
+      expect(result).toEqual({ success: true, data: 'Triage api' });
+    });
+
+    it('reports unknown servers and server errors', async () => {
+      const unknown = await expandPromptInvocation('prompt nope/triage');
+      expect(unknown?.success === false && unknown.error.code).toBe('TOOL_NOT_FOUND');
+
+      vi.spyOn(McpClient.prototype, 'getPrompt').mockResolvedValue({
+        success: false,
+        error: {
+          code: 'TOOL_EXECUTION_FAILED',
+          message: 'Missing required argument: service (code: -32602)',
+          retryable: false,
+        },
+      });
+      const failed = await expandPromptInvocation('prompt rube/triage');
+      expect(failed?.success === false && failed.error.message).toContain('service');
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * MCP prompts as selectable templates.
+ *
+ * Prompt catalogs (prompts/list) of enabled servers are cached per server.
+ * When an assistant thread starts, prompts without required arguments are offered
+ * as Slack suggested prompts. Selecting one sends its invocation text
+ * (`prompt <server>/<name>`); users can also type an invocation with arguments
+ * (`prompt ops/incident_triage service=api severity="sev 2"`). The message handler
+ * expands invocations with prompts/get into the request sent to the agent.
+ *
+ * Servers opt out with `prompts: false` in their `mcp_servers` entry.
+ * Never throws.
+ */
+
+import { getMcpServerConfigs, type McpServerConfig } from '../../config/mcp-servers.js';
+import type { ToolResult } from '../../utils/tool-result.js';
+import { logger } from '../../utils/logger.js';
+import { createMcpClient } from './client-factory.js';
+import { isServerAvailable, isServerFailure } from './health.js';
+import { CATALOG_TTL_MS } from './resources.js';
+import type { McpPrompt, McpPromptGetResult } from './types.js';
+
+/**
+ * Prompt template and the server that publishes it
+ */
+export interface McpPromptTemplate {
+  serverName: string;
+  prompt: McpPrompt;
+}
+
+/**
+ * Parsed `prompt <server>/<name> key=value …` message
+ */
+export interface PromptInvocation {
+  serverName: string;
+  promptName: string;
+  args: Record<string, string>;
+}
+
+/**
+ * Slack suggested prompt (title shown on the button, message sent when selected)
+ */
+export interface SuggestedPrompt {
+  title: string;
+  message: string;
+}
+
+const INVOCATION_PATTERN = /^prompt\s+([\w.-]+)\/(\S+)(.*)$/is;
+const ARGUMENT_PATTERN = /([\w-]+)=(?:"([^"]*)"|(\S+))/g;
+
+const catalogs = new Map<string, { prompts: McpPrompt[]; fetchedAt: number }>();
+
+function promptServers(): McpServerConfig[] {
+  return getMcpServerConfigs().filter(
+    (s) => s.enabled && s.prompts !== false && isServerAvailable(s.name)
+  );
+}
+
+async function getPromptCatalog(server: McpServerConfig, traceId?: string): Promise<McpPrompt[]> {
+  const cached = catalogs.get(server.name);
+  if (cached && Date.now() - cached.fetchedAt < CATALOG_TTL_MS) return cached.prompts;
+
+  const created = createMcpClient(server);
+  if (!created.success) return [];
+
+  const listed = await created.data.listPrompts(traceId);
+  if (!listed.success) {
+    // Unreachable servers are asked again next time; unsupported ones are not.
+    if (!isServerFailure(listed.error)) {
+      catalogs.set(server.name, { prompts: [], fetchedAt: Date.now() });
+    }
+    return [];
+  }
+
+  catalogs.set(server.name, { prompts: listed.data, fetchedAt: Date.now() });
+  return listed.data;
+}
+
+/**
+ * List prompt templates across enabled servers.
+ */
+export async function listMcpPrompts(traceId?: string): Promise<McpPromptTemplate[]> {
+  try {
+    const perServer = await Promise.all(
+      promptServers().map(async (server) =>
+        (await getPromptCatalog(server, traceId)).map((prompt) => ({
+          serverName: server.name,
+          prompt,
+        }))
+      )
+    );
+    return perServer.flat();
+  } catch (error) {
+    logger.warn({
+      event: 'mcp.prompts.list_failed',
+      error: error instanceof Error ? error.message : String(error),
+      traceId,
+    });
+    return [];
+  }
+}
+
+/**
+ * Message text that invokes a prompt (see parsePromptInvocation).
+ */
+export function formatPromptInvocation(serverName: string, promptName: string): string {
+  return `prompt ${serverName}/${promptName}`;
+}
+
+/**
+ * Parse a `prompt <server>/<name> key=value …` message.
+ *
+ * @returns The invocation, or null for any other message
+ */
+export function parsePromptInvocation(text: string): PromptInvocation | null {
+  const match = INVOCATION_PATTERN.exec(text.trim());
+  if (!match) return null;
+
+  const args: Record<string, string> = {};
+  for (const arg of match[3].matchAll(ARGUMENT_PATTERN)) {
+    args[arg[1]] = arg[2] ?? arg[3];
+  }
+  return { serverName: match[1], promptName: match[2], args };
+}
+
+/**
+ * Flatten a rendered prompt into message text for the agent.
+ * Embedded text resources are inlined; images are dropped.
+ */
+export function renderPromptMessages(result: McpPromptGetResult): string {
+  return result.messages
+    .map((m) => {
+      const text = m.content.type === 'resource' ? m.content.resource?.text : m.content.text;
+      if (!text?.trim()) return '';
+      return m.role === 'assistant' ? `Assistant: ${text.trim()}` : text.trim();
+    })
+    .filter((t) => t.length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Expand a prompt invocation into the text sent to the agent.
+ *
+ * @returns null when `text` is not an invocation; otherwise the rendered prompt
+ *   or an error (unknown server, missing arguments, server failure)
+ */
+export async function expandPromptInvocation(
+  text: string,
+  traceId?: string
+): Promise<ToolResult<string> | null> {
+  const invocation = parsePromptInvocation(text);
+  if (!invocation) return null;
+
+  const server = getMcpServerConfigs().find(
+    (s) => s.name === invocation.serverName && s.enabled && s.prompts !== false
+  );
+  if (!server) {
+    return {
+      success: false,
+      error: {
+        code: 'TOOL_NOT_FOUND',
+        message: `No MCP server "${invocation.serverName}" with prompts is enabled`,
+        retryable: false,
+      },
+    };
+  }
+
+  const created = createMcpClient(server);
+  if (!created.success) return created;
+
+  const rendered = await created.data.getPrompt(invocation.promptName, invocation.args, traceId);
+  if (!rendered.success) return rendered;
+
+  const expanded = renderPromptMessages(rendered.data);
+  logger.info({
+    event: 'mcp.prompt.expanded',
+    serverName: server.name,
+    promptName: invocation.promptName,
+    argKeys: Object.keys(invocation.args),
+    messageCount: rendered.data.messages.length,
+    traceId,
+  });
+
+  if (!expanded) {
+    return {
+      success: false,
+      error: {
+        code: 'TOOL_EXECUTION_FAILED',
+        message: `Prompt "${invocation.promptName}" rendered no text`,
+        retryable: false,
+      },
+    };
+  }
+  return { success: true, data: expanded };
+}
+
+/**
+ * Suggested prompts for templates that can run without arguments.
+ */
+export function toSuggestedPrompts(templates: McpPromptTemplate[]): SuggestedPrompt[] {
+  return templates
+    .filter((t) => !(t.prompt.arguments ?? []).some((a) => a.required))
+    .map((t) => ({
+      title: t.prompt.title ?? t.prompt.name,
+      message: formatPromptInvocation(t.serverName, t.prompt.name),
+    }));
+}
+
+/**
+ * Drop cached prompt catalogs (config reloads and tests).
+ */
+export function clearMcpPromptCache(): void {
+  catalogs.clear();
+}
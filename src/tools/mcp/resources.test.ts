@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { McpClient } from './client.js';
+import { __resetServerHealthForTests, markServerUnavailable } from './health.js';
+import {
+  clearMcpResourceCache,
+  findRelevantMcpResources,
+  MAX_RESOURCE_CHARS,
+} from './resources.js';
+
+vi.mock('../../utils/logger.js');
+
+const runbooks = [
+  {
+    uri: 'runbook://db-failover',
+    name: 'db-failover',
+    title: 'Database failover',
+    description: 'Promote the replica when the primary database is down',
+  },
+  {
+    uri: 'runbook://oncall-handoff',
+    name: 'oncall-handoff',
+    description: 'Weekly on-call handoff checklist',
+  },
+];
+
+describe('findRelevantMcpResources', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    clearMcpResourceCache();
+    __resetServerHealthForTests();
+    process.env.RUBE_MCP_ENABLED = 'true';
+    process.env.RUBE_MCP_URL = 'https://example.invalid/mcp';
+  });
+
+  afterEach(() => {
+    delete process.env.RUBE_MCP_ENABLED;
+    delete process.env.RUBE_MCP_URL;
+  });
+
+  it('reads the resources that match the query', async () => {
+    vi.spyOn(McpClient.prototype, 'listResources').mockResolvedValue({
+      success: true,
+      data: runbooks,
+    });
+    const read = vi.spyOn(McpClient.prototype, 'readResource').mockResolvedValue({
+      success: true,
+      data: [{ uri: 'runbook://db-failover', text: '1. Promote the replica' }],
+    });
+
+    const matches = await findRelevantMcpResources({
+      query: 'the primary database is down, how do we fail over?',
+      limit: 3,
+    });
+
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(read).toHaveBeenCalledWith('runbook://db-failover', undefined);
+    expect(matches).toEqual([
+      { serverName: 'rube', resource: runbooks[0], text: '1. Promote the replica' },
+    ]);
+  });
+
+  it('caches catalogs, including servers without resources support', async () => {
+    const list = vi.spyOn(McpClient.prototype, 'listResources').mockResolvedValue({
+      success: false,
+      error: {
+        code: 'TOOL_EXECUTION_FAILED',
+        message: 'Method not found (code: -32601)',
+        retryable: false,
+      },
+    });
+
+    await findRelevantMcpResources({ query: 'database failover', limit: 3 });
+    const matches = await findRelevantMcpResources({ query: 'database failover', limit: 3 });
+
+    expect(matches).toEqual([]);
+    expect(list).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks an unreachable server again next time', async () => {
+    const list = vi.spyOn(McpClient.prototype, 'listResources').mockResolvedValue({
+      success: false,
+      error: { code: 'TOOL_UNAVAILABLE', message: 'timeout', retryable: true },
+    });
+
+    await findRelevantMcpResources({ query: 'database failover', limit: 3 });
+    await findRelevantMcpResources({ query: 'database failover', limit: 3 });
+
+    expect(list).toHaveBeenCalledTimes(2);
+  });
+
+  it('truncates long resources and skips binary contents', async () => {
+    vi.spyOn(McpClient.prototype, 'listResources').mockResolvedValue({
+      success: true,
+      data: runbooks,
+    });
+    vi.spyOn(McpClient.prototype, 'readResource').mockResolvedValue({
+      success: true,
+      data: [
+        { uri: 'runbook://db-failover', blob: 'JVBERg==', mimeType: 'application/pdf' },
+        { uri: 'runbook://db-failover', text: 'x'.repeat(MAX_RESOURCE_CHARS + 10) },
+      ],
+    });
+
+    const [match] = await findRelevantMcpResources({ query: 'database failover', limit: 1 });
+
+    expect(match.text).toHaveLength(MAX_RESOURCE_CHARS + 1);
+    expect(match.text.endsWith('…')).toBe(true);
+  });
+
+  it('skips disabled servers and servers with an open circuit', async () => {
+    const list = vi.spyOn(McpClient.prototype, 'listResources');
+
+    for (let i = 0; i < 3; i++) markServerUnavailable('rube', new Error('down'));
+    await findRelevantMcpResources({ query: 'database failover', limit: 3 });
+
+    process.env.RUBE_MCP_ENABLED = 'false';
+    __resetServerHealthForTests();
+    await findRelevantMcpResources({ query: 'database failover', limit: 3 });
+
+    expect(list).not.toHaveBeenCalled();
+  });
+});
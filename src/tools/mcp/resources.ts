@@ -0,0 +1,156 @@
+/**
+ * MCP resources as gather-phase context.
+ *
+ * Enabled servers are asked for their resource catalog (resources/list), cached
+ * per server for CATALOG_TTL_MS. A server that does not implement resources
+ * answers with a JSON-RPC error and is cached as having none. For each request
+ * the catalogs are ranked against the user message by name, title, description
+ * and URI, and the best matches are read with resources/read — e.g. runbooks
+ * published by internal servers. gatherContext cites them as `resource` sources.
+ *
+ * Servers opt out with `resources: false` in their `mcp_servers` entry.
+ * Servers with an open circuit are skipped. Never throws.
+ */
+
+import { getMcpServerConfigs, type McpServerConfig } from '../../config/mcp-servers.js';
+import { rankDocuments } from '../../retrieval/index.js';
+import { logger } from '../../utils/logger.js';
+import { createMcpClient } from './client-factory.js';
+import { isServerAvailable, isServerFailure } from './health.js';
+import type { McpResource } from './types.js';
+
+/** How long a server's resource catalog is reused */
+export const CATALOG_TTL_MS = 5 * 60 * 1000;
+
+/** Characters of a resource's text kept for context */
+export const MAX_RESOURCE_CHARS = 4000;
+
+/**
+ * Resource selected for a request, with its text contents
+ */
+export interface McpResourceMatch {
+  serverName: string;
+  resource: McpResource;
+  /** Text contents, truncated to MAX_RESOURCE_CHARS */
+  text: string;
+}
+
+const catalogs = new Map<string, { resources: McpResource[]; fetchedAt: number }>();
+
+async function getResourceCatalog(
+  server: McpServerConfig,
+  traceId?: string
+): Promise<McpResource[]> {
+  const cached = catalogs.get(server.name);
+  if (cached && Date.now() - cached.fetchedAt < CATALOG_TTL_MS) return cached.resources;
+
+  const created = createMcpClient(server);
+  if (!created.success) return [];
+
+  const listed = await created.data.listResources(traceId);
+  if (!listed.success) {
+    // Unreachable servers are asked again next time; unsupported ones are not.
+    if (!isServerFailure(listed.error)) {
+      catalogs.set(server.name, { resources: [], fetchedAt: Date.now() });
+    }
+    return [];
+  }
+
+  catalogs.set(server.name, { resources: listed.data, fetchedAt: Date.now() });
+  return listed.data;
+}
+
+async function readResourceText(
+  server: McpServerConfig,
+  uri: string,
+  traceId?: string
+): Promise<string | null> {
+  const created = createMcpClient(server);
+  if (!created.success) return null;
+
+  const read = await created.data.readResource(uri, traceId);
+  if (!read.success) return null;
+
+  // Binary (`blob`) contents are not used as context.
+  const text = read.data
+    .map((c) => c.text ?? '')
+    .filter((t) => t.trim().length > 0)
+    .join('\n\n');
+  if (!text) return null;
+  return text.length > MAX_RESOURCE_CHARS ? `${text.slice(0, MAX_RESOURCE_CHARS)}…` : text;
+}
+
+/**
+ * Find and read the MCP resources most relevant to a query.
+ *
+ * @returns Up to `limit` resources with text contents, best match first
+ */
+export async function findRelevantMcpResources(params: {
+  query: string;
+  limit: number;
+  traceId?: string;
+}): Promise<McpResourceMatch[]> {
+  if (params.limit <= 0) return [];
+
+  try {
+    const servers = getMcpServerConfigs().filter(
+      (s) => s.enabled && s.resources !== false && isServerAvailable(s.name)
+    );
+    if (servers.length === 0) return [];
+
+    const catalogsByServer = await Promise.all(
+      servers.map(async (server) => ({
+        server,
+        resources: await getResourceCatalog(server, params.traceId),
+      }))
+    );
+    const documents = catalogsByServer.flatMap(({ server, resources }) =>
+      resources.map((resource) => ({
+        id: `${server.name}:${resource.uri}`,
+        text: [resource.title, resource.name, resource.description, resource.uri]
+          .filter(Boolean)
+          .join('\n'),
+        metadata: { server, resource },
+      }))
+    );
+
+    const ranked = await rankDocuments(params.query, documents, {
+      transient: true,
+      limit: params.limit,
+      traceId: params.traceId,
+    });
+
+    const matches = await Promise.all(
+      ranked.map(async (r) => {
+        const { server, resource } = r.document.metadata!;
+        const text = await readResourceText(server, resource.uri, params.traceId);
+        return text === null ? null : { serverName: server.name, resource, text };
+      })
+    );
+    const found = matches.filter((m): m is McpResourceMatch => m !== null);
+
+    logger.info({
+      event: 'mcp.resources.gathered',
+      serverCount: servers.length,
+      catalogSize: documents.length,
+      matchedCount: ranked.length,
+      readCount: found.length,
+      traceId: params.traceId,
+    });
+    return found;
+  } catch (error) {
+    logger.warn({
+      event: 'mcp.resources.gather_failed',
+      error: error instanceof Error ? error.message : String(error),
+      traceId: params.traceId,
+    });
+    return [];
+  }
+}
+
+/**
+ * Drop cached resource catalogs (config reloads and tests).
+ */
+export function clearMcpResourceCache(): void {
+  catalogs.clear();
+}
@@ -0,0 +1,186 @@
+/**
+ * stdio transport tests against a real child process (a minimal MCP server script).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('./health.js', () => ({
+  markServerAvailable: vi.fn(),
+  markServerUnavailable: vi.fn(),
+  // McpClient's circuit breaker (closed)
+  beginServerRequest: vi.fn(() => ({ allowed: true, probe: false })),
+  recordServerResult: vi.fn(),
+  circuitOpenError: vi.fn(),
+}));
+
+import {
+  closeStdioTransports,
+  getStdioTransport,
+  pruneStdioTransports,
+  StdioMcpTransport,
+} from './stdio-transport.js';
+import { McpClient } from './client.js';
+import { markServerAvailable, markServerUnavailable } from './health.js';
+import type { McpServerConfig } from '../../config/mcp-servers.js';
+
+/** Minimal MCP server: initialize, tools/list, tools/call (echo | crash | slow) */
+const SERVER_SCRIPT = `
+const readline = require('readline');
+const rl = readline.createInterface({ input: process.stdin });
+const send = (msg) => process.stdout.write(JSON.stringify(msg) + '\\n');
+let initialized = false;
+rl.on('line', (line) => {
+  const msg = JSON.parse(line);
+  if (msg.method === 'notifications/initialized') { initialized = true; return; }
+  if (msg.method === 'initialize') {
+    send({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info' } });
+    return send({ jsonrpc: '2.0', id: msg.id, result: { protocolVersion: msg.params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'test', version: '1' } } });
+  }
+  if (msg.method === 'tools/list') {
+    return send({ jsonrpc: '2.0', id: msg.id, result: { tools: [{ name: 'echo', inputSchema: { type: 'object' } }] } });
+  }
+  if (msg.method === 'tools/call') {
+    const name = msg.params.name;
+    if (name === 'crash') process.exit(3);
+    if (name === 'slow') return;
+    if (name === 'whoami') return send({ jsonrpc: '2.0', id: msg.id, result: { content: [{ type: 'text', text: process.env.MCP_TEST_USER + ':' + initialized }] } });
+    return send({ jsonrpc: '2.0', id: msg.id, result: { content: [{ type: 'text', text: JSON.stringify(msg.params.arguments) }] } });
+  }
+  send({ jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: 'Method not found' } });
+});
+`;
+
+const requestOptions = { timeoutMs: 5000 };
+
+function createTransport(overrides: Partial<ConstructorParameters<typeof StdioMcpTransport>[1]> = {}) {
+  return new StdioMcpTransport('local', {
+    command: process.execPath,
+    args: ['-e', SERVER_SCRIPT],
+    restartBackoffMs: 50,
+    ...overrides,
+  });
+}
+
+describe('StdioMcpTransport', () => {
+  let transport: StdioMcpTransport | null = null;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    transport?.close();
+    transport = null;
+    closeStdioTransports();
+  });
+
+  it('initializes the server and serves tools/list and tools/call through McpClient', async () => {
+    transport = createTransport({ env: { MCP_TEST_USER: 'orion' } });
+    const client = new McpClient('local', { transport });
+
+    const tools = await client.listTools();
+    expect(tools).toEqual({
+      success: true,
+      data: [{ name: 'echo', inputSchema: { type: 'object' } }],
+    });
+
+    const whoami = await client.callTool('whoami', {});
+    expect(whoami.success && whoami.data.content[0]?.text).toBe('orion:true');
+
+    const echo = await client.callTool('echo', { q: 'hi' });
+    expect(echo.success && echo.data.content[0]?.text).toBe('{"q":"hi"}');
+
+    expect(markServerAvailable).toHaveBeenCalledWith('local');
+  });
+
+  it('returns JSON-RPC errors as TOOL_EXECUTION_FAILED', async () => {
+    transport = createTransport();
+
+    const result = await transport.request('resources/list', {}, requestOptions);
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error.code).toBe('TOOL_EXECUTION_FAILED');
+  });
+
+  it('times out slow requests without killing the process', async () => {
+    transport = createTransport();
+    await transport.request('tools/list', {}, requestOptions);
+    const pid = transport.getPid();
+
+    const result = await transport.request('tools/call', { name: 'slow' }, { timeoutMs: 100 });
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error.message).toContain('timeout');
+    expect(transport.getPid()).toBe(pid);
+  });
+
+  it('fails in-flight requests on crash, reports unavailable and restarts with backoff', async () => {
+    transport = createTransport();
+    await transport.request('tools/list', {}, requestOptions);
+    const firstPid = transport.getPid();
+
+    const crashed = await transport.request('tools/call', { name: 'crash' }, requestOptions);
+    expect(crashed.success).toBe(false);
+    if (!crashed.success) expect(crashed.error.retryable).toBe(true);
+    expect(markServerUnavailable).toHaveBeenCalledWith('local', expect.any(Error));
+    expect(transport.isRestartScheduled()).toBe(true);
+
+    // Requests during the backoff window fail fast.
+    const duringBackoff = await transport.request('tools/list', {}, requestOptions);
+    expect(duringBackoff.success).toBe(false);
+
+    await vi.waitFor(() => expect(markServerAvailable).toHaveBeenCalledTimes(2), { timeout: 5000 });
+    const afterRestart = await transport.request('tools/list', {}, requestOptions);
+    expect(afterRestart.success).toBe(true);
+    expect(transport.getPid()).not.toBe(firstPid);
+  });
+
+  it('reports a command that cannot be spawned as TOOL_UNAVAILABLE', async () => {
+    transport = createTransport({ command: '/nonexistent/mcp-server', args: [] });
+
+    const result = await transport.request('tools/list', {}, requestOptions);
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error.code).toBe('TOOL_UNAVAILABLE');
+    expect(markServerUnavailable).toHaveBeenCalled();
+  });
+});
+
+describe('stdio transport pool', () => {
+  const server: McpServerConfig = {
+    name: 'git',
+    type: 'stdio',
+    enabled: true,
+    command: process.execPath,
+    args: ['-e', SERVER_SCRIPT],
+    connectionTimeoutMs: 5000,
+    requestTimeoutMs: 30000,
+  };
+
+  afterEach(() => {
+    closeStdioTransports();
+  });
+
+  it('shares one transport per server until its command changes', () => {
+    const first = getStdioTransport(server);
+    expect(getStdioTransport({ ...server })).toBe(first);
+
+    const changed = getStdioTransport({ ...server, args: ['-e', SERVER_SCRIPT, '--verbose'] });
+    expect(changed).not.toBe(first);
+  });
+
+  it('prunes transports of removed or disabled servers', async () => {
+    const transport = getStdioTransport(server);
+    await transport.request('tools/list', {}, requestOptions);
+
+    pruneStdioTransports([{ ...server, enabled: false }]);
+
+    const result = await transport.request('tools/list', {}, requestOptions);
+    expect(result.success).toBe(false);
+    expect(getStdioTransport(server)).not.toBe(transport);
+  });
+});
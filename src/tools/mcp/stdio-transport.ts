@@ -0,0 +1,434 @@
+/**
+ * MCP stdio transport
+ *
+ * Runs a local MCP server (filesystem, git, ...) as a child process and speaks
+ * newline-delimited JSON-RPC over its stdin/stdout:
+ * - Lazy start: the process is spawned and `initialize`d on the first request
+ * - One long-lived process per server, shared by all McpClient instances (see `getStdioTransport`)
+ * - Crashes fail in-flight requests, mark the server unavailable and restart the
+ *   process with exponential backoff; a successful `initialize` marks it available again
+ * - Never throws from `request()`; returns ToolResult<T>
+ *
+ * @see https://modelcontextprotocol.io/specification/2025-06-18/basic/transports#stdio
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
+import type { McpServerConfig } from '../../config/mcp-servers.js';
+import type { ToolResult } from '../../utils/tool-result.js';
+import { logger } from '../../utils/logger.js';
+import { markServerAvailable, markServerUnavailable } from './health.js';
+import type { McpJsonRpcResponse, McpTransport } from './types.js';
+
+/** Protocol version sent in `initialize` */
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+/** First restart delay after a crash; doubles per consecutive failure */
+const DEFAULT_RESTART_BACKOFF_MS = 1000;
+
+/** Upper bound for the restart delay */
+const MAX_RESTART_BACKOFF_MS = 30_000;
+
+/** Default time allowed for spawn + initialize */
+const DEFAULT_CONNECTION_TIMEOUT_MS = 5000;
+
+/** Max stderr characters kept per line in logs */
+const MAX_STDERR_LOG_CHARS = 500;
+
+export interface StdioTransportOptions {
+  command: string;
+  args?: string[];
+  /** Extra environment variables (merged over process.env) */
+  env?: Record<string, string>;
+  /** Time allowed for spawn + initialize (default: 5000) */
+  connectionTimeoutMs?: number;
+  /** First restart delay after a crash (default: 1000) */
+  restartBackoffMs?: number;
+  /** Restart delay cap (default: 30000) */
+  maxRestartBackoffMs?: number;
+}
+
+interface PendingRequest {
+  resolve: (message: McpJsonRpcResponse<unknown>) => void;
+  reject: (error: Error) => void;
+}
+
+function unavailable<T>(message: string, retryable = true): ToolResult<T> {
+  return { success: false, error: { code: 'TOOL_UNAVAILABLE', message, retryable } };
+}
+
+/**
+ * stdio transport for one MCP server process.
+ */
+export class StdioMcpTransport implements McpTransport {
+  private readonly serverName: string;
+  private readonly options: Required<Omit<StdioTransportOptions, 'args' | 'env'>> &
+    Pick<StdioTransportOptions, 'args' | 'env'>;
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private starting: Promise<void> | null = null;
+  private readonly pending = new Map<number, PendingRequest>();
+  private nextId = 0;
+  private stdoutBuffer = '';
+  private consecutiveFailures = 0;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(serverName: string, options: StdioTransportOptions) {
+    this.serverName = serverName;
+    this.options = {
+      ...options,
+      connectionTimeoutMs: options.connectionTimeoutMs ?? DEFAULT_CONNECTION_TIMEOUT_MS,
+      restartBackoffMs: options.restartBackoffMs ?? DEFAULT_RESTART_BACKOFF_MS,
+      maxRestartBackoffMs: options.maxRestartBackoffMs ?? MAX_RESTART_BACKOFF_MS,
+    };
+  }
+
+  /**
+   * Whether a restart is pending after a crash.
+   */
+  isRestartScheduled(): boolean {
+    return this.restartTimer !== null;
+  }
+
+  /**
+   * Process ID of the running server (undefined when not running).
+   */
+  getPid(): number | undefined {
+    return this.child?.pid;
+  }
+
+  async request<T>(
+    method: string,
+    params: Record<string, unknown>,
+    options: { traceId?: string; signal?: AbortSignal; timeoutMs: number }
+  ): Promise<ToolResult<T>> {
+    if (this.closed) {
+      return unavailable(`MCP server "${this.serverName}" transport is closed`, false);
+    }
+    if (this.restartTimer) {
+      return unavailable(`MCP server "${this.serverName}" crashed and is restarting`);
+    }
+
+    try {
+      await this.start(options.traceId);
+    } catch (error) {
+      return unavailable(
+        `MCP server "${this.serverName}" failed to start: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    let response: McpJsonRpcResponse<T>;
+    try {
+      response = await this.send<T>(method, params, options.timeoutMs, options.signal);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('timeout')) {
+        logger.warn({
+          event: 'mcp.request.timeout',
+          serverName: this.serverName,
+          method,
+          timeoutMs: options.timeoutMs,
+          traceId: options.traceId,
+        });
+        return unavailable(`MCP request timeout after ${options.timeoutMs}ms`);
+      }
+      return unavailable(message);
+    }
+
+    if (response.error) {
+      return {
+        success: false,
+        error: {
+          code: 'TOOL_EXECUTION_FAILED',
+          message: `${response.error.message} (code: ${response.error.code})`,
+          retryable: false,
+        },
+      };
+    }
+
+    if (response.result === undefined) {
+      return {
+        success: false,
+        error: {
+          code: 'TOOL_EXECUTION_FAILED',
+          message: 'MCP response missing result field',
+          retryable: false,
+        },
+      };
+    }
+
+    return { success: true, data: response.result };
+  }
+
+  /**
+   * Stop the process and cancel any pending restart.
+   */
+  close(): void {
+    this.closed = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    const child = this.child;
+    this.child = null;
+    this.failPending(new Error(`MCP server "${this.serverName}" transport closed`));
+    child?.kill();
+  }
+
+  /**
+   * Spawn and initialize the process if it is not running.
+   */
+  private start(traceId?: string): Promise<void> {
+    if (this.child && !this.starting) return Promise.resolve();
+    if (this.starting) return this.starting;
+
+    this.starting = this.spawnAndInitialize(traceId).finally(() => {
+      this.starting = null;
+    });
+    return this.starting;
+  }
+
+  private async spawnAndInitialize(traceId?: string): Promise<void> {
+    const startedAt = Date.now();
+    const child = spawn(this.options.command, this.options.args ?? [], {
+      env: { ...process.env, ...this.options.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.child = child;
+    this.stdoutBuffer = '';
+
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (chunk: string) => this.onStdout(chunk));
+    child.stderr.setEncoding('utf-8');
+    child.stderr.on('data', (chunk: string) => {
+      logger.debug({
+        event: 'mcp.stdio.stderr',
+        serverName: this.serverName,
+        output: chunk.trim().slice(0, MAX_STDERR_LOG_CHARS),
+      });
+    });
+    // A server that exits while we write must not crash the bot.
+    child.stdin.on('error', () => undefined);
+    child.on('error', (error) => this.onExit(child, error));
+    child.on('exit', (code, signal) =>
+      this.onExit(child, new Error(`process exited (code ${code ?? 'null'}, signal ${signal ?? 'null'})`))
+    );
+
+    try {
+      const init = await this.send(
+        'initialize',
+        {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: 'orion', version: '1.0.0' },
+        },
+        this.options.connectionTimeoutMs
+      );
+      if (init.error) {
+        throw new Error(`initialize failed: ${init.error.message}`);
+      }
+      this.notify('notifications/initialized', {});
+    } catch (error) {
+      // Let onExit handle health + restart bookkeeping.
+      const reason = error instanceof Error ? error : new Error(String(error));
+      this.onExit(child, reason);
+      child.kill();
+      throw reason;
+    }
+
+    this.consecutiveFailures = 0;
+    markServerAvailable(this.serverName);
+    logger.info({
+      event: 'mcp.stdio.started',
+      serverName: this.serverName,
+      pid: child.pid,
+      durationMs: Date.now() - startedAt,
+      traceId,
+    });
+  }
+
+  private send<T>(
+    method: string,
+    params: Record<string, unknown>,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<McpJsonRpcResponse<T>> {
+    const child = this.child;
+    if (!child) {
+      return Promise.reject(new Error(`MCP server "${this.serverName}" is not running`));
+    }
+
+    const id = ++this.nextId;
+
+    return new Promise<McpJsonRpcResponse<T>>((resolve, reject) => {
+      const cleanup = (): void => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(id);
+      };
+      const onAbort = (): void => {
+        cleanup();
+        reject(new Error('request aborted'));
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error(`request timeout after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: (message) => {
+          cleanup();
+          resolve(message as McpJsonRpcResponse<T>);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      });
+
+      child.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', id, method, params })}\n`);
+    });
+  }
+
+  private notify(method: string, params: Record<string, unknown>): void {
+    this.child?.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', method, params })}\n`);
+  }
+
+  private onStdout(chunk: string): void {
+    this.stdoutBuffer += chunk;
+    let newline = this.stdoutBuffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.stdoutBuffer.slice(0, newline).trim();
+      this.stdoutBuffer = this.stdoutBuffer.slice(newline + 1);
+      if (line) this.onMessage(line);
+      newline = this.stdoutBuffer.indexOf('\n');
+    }
+  }
+
+  private onMessage(line: string): void {
+    let message: { id?: number | string; method?: string } & McpJsonRpcResponse<unknown>;
+    try {
+      message = JSON.parse(line) as typeof message;
+    } catch {
+      logger.debug({
+        event: 'mcp.stdio.invalid_message',
+        serverName: this.serverName,
+        output: line.slice(0, MAX_STDERR_LOG_CHARS),
+      });
+      return;
+    }
+
+    // Server → client request: answer ping, decline everything else.
+    if (message.method && message.id !== undefined) {
+      const reply =
+        message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : {
+              jsonrpc: '2.0',
+              id: message.id,
+              error: { code: -32601, message: `Method not supported: ${message.method}` },
+            };
+      this.child?.stdin.write(`${JSON.stringify(reply)}\n`);
+      return;
+    }
+
+    // Notifications (no id) are ignored.
+    if (message.id === undefined) return;
+
+    this.pending.get(Number(message.id))?.resolve(message);
+  }
+
+  private onExit(child: ChildProcessWithoutNullStreams, error: Error): void {
+    // Ignore late events from a process we already replaced or handled.
+    if (this.child !== child) return;
+    this.child = null;
+
+    this.failPending(new Error(`MCP server "${this.serverName}" ${error.message}`));
+    if (this.closed) return;
+
+    this.consecutiveFailures += 1;
+    markServerUnavailable(this.serverName, error);
+
+    const delayMs = Math.min(
+      this.options.maxRestartBackoffMs,
+      this.options.restartBackoffMs * 2 ** (this.consecutiveFailures - 1)
+    );
+    logger.warn({
+      event: 'mcp.stdio.restart_scheduled',
+      serverName: this.serverName,
+      consecutiveFailures: this.consecutiveFailures,
+      delayMs,
+    });
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (this.closed) return;
+      this.start().catch(() => {
+        // Failure already recorded and the next restart scheduled by onExit.
+      });
+    }, delayMs);
+    this.restartTimer.unref?.();
+  }
+
+  private failPending(error: Error): void {
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+}
+
+const transports = new Map<string, { signature: string; transport: StdioMcpTransport }>();
+
+function signatureOf(server: McpServerConfig): string {
+  return JSON.stringify([server.command, server.args ?? [], server.env ?? {}, server.connectionTimeoutMs]);
+}
+
+/**
+ * Shared transport for a stdio server; replaced when its command/args/env change.
+ */
+export function getStdioTransport(server: McpServerConfig): StdioMcpTransport {
+  const signature = signatureOf(server);
+  const existing = transports.get(server.name);
+  if (existing?.signature === signature) return existing.transport;
+
+  existing?.transport.close();
+  const transport = new StdioMcpTransport(server.name, {
+    command: server.command ?? '',
+    args: server.args,
+    env: server.env,
+    connectionTimeoutMs: server.connectionTimeoutMs,
+  });
+  transports.set(server.name, { signature, transport });
+  return transport;
+}
+
+/**
+ * Stop processes of servers that are no longer declared, enabled or unchanged.
+ *
+ * @param servers - Current server configs
+ */
+export function pruneStdioTransports(servers: McpServerConfig[]): void {
+  for (const [name, entry] of transports) {
+    const server = servers.find((s) => s.name === name);
+    if (!server || !server.enabled || server.type !== 'stdio' || signatureOf(server) !== entry.signature) {
+      entry.transport.close();
+      transports.delete(name);
+    }
+  }
+}
+
+/**
+ * Stop every stdio server process (shutdown and tests).
+ */
+export function closeStdioTransports(): void {
+  for (const entry of transports.values()) {
+    entry.transport.close();
+  }
+  transports.clear();
+}
@@ -0,0 +1,270 @@
+/**
+ * In-process MCP test server (HTTP Streamable Transport).
+ *
+ * A local stand-in for real MCP servers, used by the contract tests
+ * (contract.test.ts) to run `McpClient`, discovery and tool routing end to end
+ * over real HTTP instead of hand-written fetch mocks.
+ *
+ * Supports:
+ * - `initialize`, `tools/list`, `tools/call` and `notifications/initialized`
+ * - JSON-RPC errors (parse error, unknown method, unknown tool) and
+ *   `isError` tool results for handlers that throw
+ * - Single-response SSE replies (`sse: true`)
+ * - Bearer token checks (HTTP 401)
+ * - Sessions (`requireSession: true`): HTTP 400 without `Mcp-Session-Id`,
+ *   HTTP 404 for unknown or expired sessions
+ * - Injected HTTP failures (`failNext`) and slow responses (`delayMs`)
+ *
+ * Every request is recorded in `requests` for assertions.
+ *
+ * @example
+ * const server = await startTestMcpServer({
+ *   tools: [{ name: 'echo', handler: (args) => ({ content: [{ type: 'text', text: String(args.text) }] }) }],
+ * });
+ * const client = new McpClient('test', { url: server.url });
+ * await server.close();
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import type {
+  McpContent,
+  McpJsonRpcRequest,
+  McpTool,
+  McpToolAnnotations,
+  McpToolInputSchema,
+} from './types.js';
+
+/**
+ * Tool served by the test server
+ */
+export interface TestMcpTool {
+  name: string;
+  description?: string;
+  inputSchema?: McpToolInputSchema;
+  annotations?: McpToolAnnotations;
+  /** Delay before the result is sent (slow tools) */
+  delayMs?: number;
+  /** Tool result; a thrown error becomes an `isError` result */
+  handler: (args: Record<string, unknown>) => McpContent | Promise<McpContent>;
+}
+
+export interface TestMcpServerOptions {
+  tools?: TestMcpTool[];
+  /** Require `initialize` and a session ID on every other request */
+  requireSession?: boolean;
+  /** Answer with single-response SSE streams instead of JSON */
+  sse?: boolean;
+  /** Reject requests without this bearer token (HTTP 401) */
+  bearerToken?: string;
+  /** Delay before every response */
+  delayMs?: number;
+}
+
+/**
+ * A request the server received
+ */
+export interface TestMcpRequest {
+  method: string;
+  sessionId?: string;
+  authorization?: string;
+}
+
+export interface TestMcpServer {
+  /** Endpoint URL (`http://127.0.0.1:<port>/mcp`) */
+  url: string;
+  requests: TestMcpRequest[];
+  /** Answer the next `count` requests with this HTTP status */
+  failNext(status: number, count?: number): void;
+  /** End all sessions (next requests with their IDs get HTTP 404) */
+  expireSessions(): void;
+  close(): Promise<void>;
+}
+
+const JSON_RPC_PARSE_ERROR = -32700;
+const JSON_RPC_METHOD_NOT_FOUND = -32601;
+const JSON_RPC_INVALID_PARAMS = -32602;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function toTool(tool: TestMcpTool): McpTool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.inputSchema ?? { type: 'object', properties: {} },
+    ...(tool.annotations ? { annotations: tool.annotations } : {}),
+  };
+}
+
+/**
+ * Start a test server on a free local port.
+ */
+export async function startTestMcpServer(
+  options: TestMcpServerOptions = {}
+): Promise<TestMcpServer> {
+  const tools = new Map((options.tools ?? []).map((tool) => [tool.name, tool]));
+  const sessions = new Set<string>();
+  const requests: TestMcpRequest[] = [];
+  const timers = new Set<NodeJS.Timeout>();
+  let failures: { status: number; remaining: number } | null = null;
+
+  const wait = (ms: number): Promise<void> =>
+    new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        resolve();
+      }, ms);
+      timers.add(timer);
+    });
+
+  const send = (res: ServerResponse, status: number, message?: unknown): void => {
+    // The client may have given up (timeout/abort) while a slow response was pending
+    if (res.destroyed || res.writableEnded) return;
+    if (message === undefined) {
+      res.writeHead(status).end();
+      return;
+    }
+    if (options.sse) {
+      res
+        .writeHead(status, { 'Content-Type': 'text/event-stream' })
+        .end(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(message));
+  };
+
+  async function handle(request: McpJsonRpcRequest, res: ServerResponse): Promise<void> {
+    const reply = (result: unknown): void =>
+      send(res, 200, { jsonrpc: '2.0', id: request.id, result });
+    const fail = (code: number, message: string): void =>
+      send(res, 200, { jsonrpc: '2.0', id: request.id, error: { code, message } });
+
+    switch (request.method) {
+      case 'initialize': {
+        if (options.requireSession) {
+          const id = randomUUID();
+          sessions.add(id);
+          res.setHeader('Mcp-Session-Id', id);
+        }
+        reply({
+          protocolVersion: request.params?.protocolVersion ?? '2025-03-26',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'orion-test-server', version: '1.0.0' },
+        });
+        return;
+      }
+      case 'notifications/initialized':
+        send(res, 202);
+        return;
+      case 'tools/list':
+        reply({ tools: Array.from(tools.values()).map(toTool) });
+        return;
+      case 'tools/call': {
+        const name = String(request.params?.name ?? '');
+        const tool = tools.get(name);
+        if (!tool) {
+          fail(JSON_RPC_INVALID_PARAMS, `Unknown tool: ${name}`);
+          return;
+        }
+        if (tool.delayMs) await wait(tool.delayMs);
+        try {
+          const args = (request.params?.arguments ?? {}) as Record<string, unknown>;
+          reply(await tool.handler(args));
+        } catch (error) {
+          reply({
+            isError: true,
+            content: [
+              { type: 'text', text: error instanceof Error ? error.message : String(error) },
+            ],
+          });
+        }
+        return;
+      }
+      default:
+        fail(JSON_RPC_METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+  }
+
+  const server = createServer((req, res) => {
+    void (async (): Promise<void> => {
+      const body = await readBody(req);
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+      let request: McpJsonRpcRequest;
+      try {
+        request = JSON.parse(body) as McpJsonRpcRequest;
+      } catch {
+        requests.push({ method: '(invalid)', sessionId });
+        send(res, 200, {
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: JSON_RPC_PARSE_ERROR, message: 'Parse error' },
+        });
+        return;
+      }
+
+      requests.push({
+        method: request.method,
+        sessionId,
+        authorization: req.headers.authorization,
+      });
+
+      if (options.delayMs) await wait(options.delayMs);
+
+      if (failures && failures.remaining > 0) {
+        failures.remaining -= 1;
+        send(res, failures.status);
+        return;
+      }
+
+      if (options.bearerToken && req.headers.authorization !== `Bearer ${options.bearerToken}`) {
+        send(res, 401);
+        return;
+      }
+
+      if (options.requireSession && request.method !== 'initialize') {
+        if (!sessionId) {
+          send(res, 400);
+          return;
+        }
+        if (!sessions.has(sessionId)) {
+          send(res, 404);
+          return;
+        }
+      }
+
+      await handle(request, res);
+    })().catch(() => send(res, 500));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    requests,
+    failNext(status: number, count = 1): void {
+      failures = { status, remaining: count };
+    },
+    expireSessions(): void {
+      sessions.clear();
+    },
+    close(): Promise<void> {
+      for (const timer of timers) clearTimeout(timer);
+      timers.clear();
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -11,6 +11,8 @@
  * @see Story 3.1 - Generic MCP Client
  */
 
+import type { ToolResult } from '../../utils/tool-result.js';
+
 // ─────────────────────────────────────────────────────────────────────────────
 // MCP Protocol Types (JSON-RPC over HTTP Streamable Transport)
 // @see https://spec.modelcontextprotocol.io/specification/transport/http/
@@ -53,6 +55,22 @@ export interface McpTool {
   name: string;
   description?: string;
   inputSchema: McpToolInputSchema;
+  /** Behavior hints (untrusted unless the server is trusted) */
+  annotations?: McpToolAnnotations;
+}
+
+/**
+ * MCP tool annotations from tools/list
+ * @see https://modelcontextprotocol.io/specification/2025-06-18/server/tools#tool-annotations
+ */
+export interface McpToolAnnotations {
+  title?: string;
+  /** Tool does not modify its environment */
+  readOnlyHint?: boolean;
+  /** Tool may perform destructive updates (only meaningful when not read-only) */
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
 }
 
 /**
@@ -99,6 +117,8 @@ export interface McpContentBlock {
   data?: string;
   mimeType?: string;
   uri?: string;
+  /** Embedded resource (`type: 'resource'`) */
+  resource?: McpResourceContents;
 }
 
 /**
@@ -110,19 +130,118 @@ export interface McpContent {
   isError?: boolean;
 }
 
+/**
+ * MCP resource from resources/list
+ * @see https://modelcontextprotocol.io/specification/2025-06-18/server/resources
+ */
+export interface McpResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  /** Size in bytes, when the server knows it */
+  size?: number;
+}
+
+/**
+ * MCP resources/list response result
+ */
+export interface McpResourcesListResult {
+  resources: McpResource[];
+  nextCursor?: string;
+}
+
+/**
+ * Contents of a resource from resources/read; exactly one of `text` or `blob` (base64)
+ */
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * MCP resources/read response result
+ */
+export interface McpResourceReadResult {
+  contents: McpResourceContents[];
+}
+
+/**
+ * Argument accepted by an MCP prompt
+ */
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * MCP prompt template from prompts/list
+ * @see https://modelcontextprotocol.io/specification/2025-06-18/server/prompts
+ */
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+/**
+ * MCP prompts/list response result
+ */
+export interface McpPromptsListResult {
+  prompts: McpPrompt[];
+  nextCursor?: string;
+}
+
+/**
+ * Message of a rendered prompt
+ */
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: McpContentBlock;
+}
+
+/**
+ * MCP prompts/get response result
+ */
+export interface McpPromptGetResult {
+  description?: string;
+  messages: McpPromptMessage[];
+}
+
 /**
  * MCP client connection configuration
  * @see AC#1 - MCP server URL and optional bearer auth
  */
 export interface McpClientConfig {
   /** Server URL (required for HTTP transport) */
-  url: string;
+  url?: string;
+  /** Non-HTTP transport (e.g. stdio); when set, `url` is ignored */
+  transport?: McpTransport;
   /** Optional bearer token for authentication */
   bearerToken?: string;
   /** Request timeout in ms (default: 30000) */
   requestTimeoutMs?: number;
   /** Connection timeout in ms (default: 5000) */
   connectionTimeoutMs?: number;
+  /** Extra request headers (e.g. API keys for internal servers) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * JSON-RPC transport used by McpClient instead of HTTP (e.g. stdio).
+ * Implementations never throw; failures are returned as ToolResult errors.
+ */
+export interface McpTransport {
+  request<T>(
+    method: string,
+    params: Record<string, unknown>,
+    options: { traceId?: string; signal?: AbortSignal; timeoutMs: number }
+  ): Promise<ToolResult<T>>;
 }
 
 /**
@@ -141,8 +260,24 @@ export interface McpClientState {
 // ─────────────────────────────────────────────────────────────────────────────
 
 export interface McpServerConfigBase {
-  enabled: boolean;
+  /** Boolean, or a string such as `${RUBE_MCP_ENABLED:-false}` resolved at load time */
+  enabled: boolean | string;
   description?: string;
+  /** Connection timeout in ms (default: 5000) */
+  connection_timeout_ms?: number;
+  /** Per-request timeout in ms, also used as the tool call timeout (default: 30000) */
+  request_timeout_ms?: number;
+  /** Circuit breaker thresholds (see health.ts) */
+  circuit_breaker?: {
+    /** Consecutive failures that open the circuit (default: 3) */
+    failure_threshold?: number;
+    /** Wait before probing an open circuit with tools/list (default: 30000) */
+    cooldown_ms?: number;
+  };
+  /** Offer the server's resources as gather-phase context (default: true) */
+  resources?: boolean | string;
+  /** Offer the server's prompts as suggested prompts (default: true) */
+  prompts?: boolean | string;
 }
 
 export interface McpServerStdioConfig extends McpServerConfigBase {
@@ -152,16 +287,37 @@ export interface McpServerStdioConfig extends McpServerConfigBase {
   env?: Record<string, string>;
 }
 
+/**
+ * Per-user OAuth (authorization code + PKCE) for an http/sse server (see oauth.ts)
+ */
+export interface McpServerOAuthConfig {
+  authorization_url: string;
+  token_url: string;
+  client_id: string;
+  client_secret?: string;
+  scopes?: string[];
+  /** Extra authorization request parameters (e.g. Google's `access_type: offline`) */
+  authorization_params?: Record<string, string>;
+}
+
 export interface McpServerHttpConfig extends McpServerConfigBase {
   type: 'http';
   url: string;
   headers?: Record<string, string>;
+  /** Sent as `Authorization: Bearer <token>` */
+  bearer_token?: string;
+  /** Tool calls use each Slack user's own token instead of `bearer_token` */
+  oauth?: McpServerOAuthConfig;
 }
 
 export interface McpServerSseConfig extends McpServerConfigBase {
   type: 'sse';
   url: string;
   headers?: Record<string, string>;
+  /** Sent as `Authorization: Bearer <token>` */
+  bearer_token?: string;
+  /** Tool calls use each Slack user's own token instead of `bearer_token` */
+  oauth?: McpServerOAuthConfig;
 }
 
 export type McpServerConfig = McpServerStdioConfig | McpServerHttpConfig | McpServerSseConfig;
@@ -170,6 +326,47 @@ export interface McpServersConfig {
   mcp_servers: Record<string, McpServerConfig>;
 }
 
+/**
+ * Runtime MCP server config: one `mcp_servers` entry with env vars interpolated
+ * and defaults applied. Consumed by discovery and tool routing.
+ */
+export interface ResolvedMcpServerConfig {
+  name: string;
+  type: McpServerConfig['type'];
+  enabled: boolean;
+  description?: string;
+  /** http / sse */
+  url?: string;
+  headers?: Record<string, string>;
+  bearerToken?: string;
+  /** stdio */
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  connectionTimeoutMs: number;
+  requestTimeoutMs: number;
+  /** Set when `circuit_breaker` is configured; health.ts applies defaults */
+  circuitBreaker?: { failureThreshold?: number; cooldownMs?: number };
+  /** Set when `resources` is configured; only `false` turns resource context off */
+  resources?: boolean;
+  /** Set when `prompts` is configured; only `false` turns prompt templates off */
+  prompts?: boolean;
+  /** http / sse: per-user OAuth, set when `oauth` is configured with all required fields */
+  oauth?: ResolvedMcpOAuthConfig;
+}
+
+/**
+ * Runtime per-user OAuth settings of a server
+ */
+export interface ResolvedMcpOAuthConfig {
+  authorizationUrl: string;
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+  authorizationParams?: Record<string, string>;
+}
+
 /**
  * Claude SDK McpServerConfig format
  * These match the SDK's discriminated union types exactly.
@@ -197,13 +394,25 @@ export type ClaudeSdkMcpSseConfig = {
 
 export type ClaudeSdkMcpConfig = ClaudeSdkMcpStdioConfig | ClaudeSdkMcpHttpConfig | ClaudeSdkMcpSseConfig;
 
+/**
+ * Circuit breaker state of an MCP server (see health.ts)
+ */
+export type McpCircuitState = 'closed' | 'open' | 'half_open';
+
 /**
  * MCP server health status
  */
 export interface McpServerHealth {
   name: string;
+  /** Whether the circuit is closed */
   available: boolean;
+  circuitState: McpCircuitState;
   lastError?: string;
   lastErrorTime?: Date;
+  /** Total failures since startup */
   failureCount: number;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  /** When the circuit last opened (or the current probe started) */
+  openedAt?: Date;
 }
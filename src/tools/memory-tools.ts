@@ -0,0 +1,405 @@
+/**
+ * Memory Tools
+ *
+ * Static tools that let the agent write to and read from the memory layer
+ * during a conversation ("remember this", "forget that", "I prefer ..."):
+ *
+ * - `memory_save_knowledge`: save a fact as a note owned by the requesting user
+ * - `memory_set_preference`: set one of the requesting user's preferences
+ * - `memory_search`: search saved memories
+ * - `memory_delete`: delete the requesting user's best-matching note
+ *
+ * Guardrails:
+ * - The user is always taken from the tool call context, never from tool input,
+ *   so one user's memories cannot be written under another user's ID
+ * - Content is capped (MAX_KNOWLEDGE_CHARS, MAX_PREFERENCE_VALUE_CHARS)
+ * - Secrets (API keys, tokens, passwords, private keys) are redacted before saving
+ *
+ * Handlers return ToolResult and never throw.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import type { ToolResult } from '../utils/tool-result.js';
+import { logger } from '../utils/logger.js';
+import {
+  MemoryType,
+  SEARCHABLE_MEMORY_TYPES,
+  forgetUserMemory,
+  rememberForUser,
+  searchMemoryWithScores,
+  type Memory,
+} from '../memory/index.js';
+import { saveUserPreference } from '../memory/preferences.js';
+import { toolRegistry, type ToolCallContext, type ToolRegistry } from './registry.js';
+
+/** Longest fact `memory_save_knowledge` accepts */
+export const MAX_KNOWLEDGE_CHARS = 2000;
+
+/** Longest preference value `memory_set_preference` accepts */
+export const MAX_PREFERENCE_VALUE_CHARS = 200;
+
+/** Results returned by `memory_search` */
+const MAX_SEARCH_RESULTS = 5;
+
+/** Content returned per search result */
+const MAX_SEARCH_RESULT_CHARS = 1000;
+
+const PREFERENCE_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_.-]{0,63}$/;
+
+/** Marker left in place of a redacted secret */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Patterns for secrets that must never be persisted.
+ * Assignment-style patterns keep the label and redact only the value.
+ */
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g, // Slack tokens
+  /\bxapp-\d-[A-Za-z0-9-]{10,}/g, // Slack app tokens
+  /\bgh[pousr]_[A-Za-z0-9]{30,}/g, // GitHub tokens
+  /\bgithub_pat_[A-Za-z0-9_]{30,}/g,
+  /\bsk-(?:ant-)?[A-Za-z0-9_-]{20,}/g, // Anthropic / OpenAI keys
+  /\bAKIA[0-9A-Z]{16}\b/g, // AWS access key IDs
+  /\bAIza[0-9A-Za-z_-]{35}\b/g, // Google API keys
+  /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g, // JWTs
+  /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g,
+];
+
+const SECRET_ASSIGNMENT_PATTERN =
+  /\b(password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)(\s*[:=]\s*|\s+is\s+)(["']?)[^\s"']{4,}\3/gi;
+
+/**
+ * Replace secrets in text with REDACTED.
+ *
+ * @returns Redacted text and the number of secrets removed
+ */
+export function redactSecrets(text: string): { text: string; redactions: number } {
+  let redactions = 0;
+  let result = text;
+
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, () => {
+      redactions += 1;
+      return REDACTED;
+    });
+  }
+
+  result = result.replace(
+    SECRET_ASSIGNMENT_PATTERN,
+    (match, label: string, separator: string, quote: string) => {
+      if (match.includes(REDACTED)) return match;
+      redactions += 1;
+      return `${label}${separator}${quote}${REDACTED}${quote}`;
+    }
+  );
+
+  return { text: result, redactions };
+}
+
+function invalidInput(message: string): ToolResult<never> {
+  return { success: false, error: { code: 'TOOL_INVALID_INPUT', message, retryable: false } };
+}
+
+function missingContext(toolName: string): ToolResult<never> {
+  return {
+    success: false,
+    error: {
+      code: 'TOOL_UNAVAILABLE',
+      message: `${toolName} needs the requesting user and cannot run here`,
+      retryable: false,
+    },
+  };
+}
+
+function executionFailed(error: unknown): ToolResult<never> {
+  return {
+    success: false,
+    error: {
+      code: 'TOOL_EXECUTION_FAILED',
+      message: error instanceof Error ? error.message : String(error),
+      retryable: false,
+    },
+  };
+}
+
+function asRecord(input: unknown): Record<string, unknown> {
+  return input && typeof input === 'object' && !Array.isArray(input)
+    ? (input as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Tool input may not name a user; reject attempts to act for someone else.
+ */
+function checkUserScope(
+  args: Record<string, unknown>,
+  context: ToolCallContext
+): ToolResult<never> | null {
+  const requested = args.userId ?? args.user_id ?? args.user;
+  if (requested !== undefined && requested !== context.userId) {
+    logger.warn({
+      event: 'memory_tool.user_scope_rejected',
+      userId: context.userId,
+      requestedUserId: String(requested),
+      traceId: context.traceId,
+    });
+    return invalidInput("Memory tools only act on the requesting user's own memories");
+  }
+  return null;
+}
+
+/**
+ * `memory_save_knowledge`: save a fact for the requesting user.
+ */
+export async function saveKnowledgeTool(
+  input: unknown,
+  context?: ToolCallContext
+): Promise<ToolResult<{ saved: true; key: string; redactions: number }>> {
+  if (!context) return missingContext('memory_save_knowledge');
+  const args = asRecord(input);
+  const scopeError = checkUserScope(args, context);
+  if (scopeError) return scopeError;
+
+  const content = typeof args.content === 'string' ? args.content.trim() : '';
+  if (!content) return invalidInput('content is required');
+  if (content.length > MAX_KNOWLEDGE_CHARS) {
+    return invalidInput(
+      `content is ${content.length} characters; the limit is ${MAX_KNOWLEDGE_CHARS}. Summarize it first.`
+    );
+  }
+
+  const { text, redactions } = redactSecrets(content);
+  try {
+    const memory = await rememberForUser(context.userId, text, context.channelId);
+    logger.info({
+      event: 'memory_tool.knowledge_saved',
+      userId: context.userId,
+      key: memory.key,
+      redactions,
+      traceId: context.traceId,
+    });
+    return { success: true, data: { saved: true, key: memory.key, redactions } };
+  } catch (error) {
+    return executionFailed(error);
+  }
+}
+
+/**
+ * `memory_set_preference`: set one preference for the requesting user.
+ */
+export async function setPreferenceTool(
+  input: unknown,
+  context?: ToolCallContext
+): Promise<ToolResult<{ saved: true; key: string; value: string | number | boolean }>> {
+  if (!context) return missingContext('memory_set_preference');
+  const args = asRecord(input);
+  const scopeError = checkUserScope(args, context);
+  if (scopeError) return scopeError;
+
+  const key = typeof args.key === 'string' ? args.key.trim() : '';
+  if (!PREFERENCE_KEY_PATTERN.test(key)) {
+    return invalidInput(
+      'key must start with a letter and contain only letters, digits, _, . or - (max 64)'
+    );
+  }
+
+  const value = args.value;
+  if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+    return invalidInput('value must be a string, number or boolean');
+  }
+  if (typeof value === 'string') {
+    if (value.length > MAX_PREFERENCE_VALUE_CHARS) {
+      return invalidInput(`value is limited to ${MAX_PREFERENCE_VALUE_CHARS} characters`);
+    }
+    if (redactSecrets(value).redactions > 0) {
+      return invalidInput('value looks like a secret; secrets are not stored as preferences');
+    }
+  }
+
+  try {
+    await saveUserPreference(context.userId, { [key]: value });
+    logger.info({
+      event: 'memory_tool.preference_saved',
+      userId: context.userId,
+      key,
+      traceId: context.traceId,
+    });
+    return { success: true, data: { saved: true, key, value } };
+  } catch (error) {
+    return executionFailed(error);
+  }
+}
+
+/**
+ * Whether a memory may be shown to a user: knowledge without an owner is
+ * shared, notes and preferences are visible only to the user they belong to,
+ * and conversation summaries only to the thread's participants.
+ */
+function isVisibleTo(memory: Memory, userId: string): boolean {
+  if (memory.type === MemoryType.CONVERSATION) {
+    const participants = memory.metadata.participants;
+    return Array.isArray(participants)
+      ? participants.includes(userId)
+      : memory.metadata.userId === userId;
+  }
+  return !memory.metadata.userId || memory.metadata.userId === userId;
+}
+
+/**
+ * `memory_search`: search saved memories.
+ */
+export async function searchMemoryTool(
+  input: unknown,
+  context?: ToolCallContext
+): Promise<
+  ToolResult<{
+    results: Array<{ type: string; content: string; createdAt: string; relevance: number }>;
+  }>
+> {
+  if (!context) return missingContext('memory_search');
+  const args = asRecord(input);
+
+  const query = typeof args.query === 'string' ? args.query.trim() : '';
+  if (!query) return invalidInput('query is required');
+
+  const type = args.type;
+  if (type !== undefined && !SEARCHABLE_MEMORY_TYPES.includes(type as Memory['type'])) {
+    return invalidInput(`type must be one of: ${SEARCHABLE_MEMORY_TYPES.join(', ')}`);
+  }
+
+  try {
+    const results = await searchMemoryWithScores(query, type as Memory['type'] | undefined);
+    return {
+      success: true,
+      data: {
+        results: results
+          .filter((r) => isVisibleTo(r.memory, context.userId))
+          .slice(0, MAX_SEARCH_RESULTS)
+          .map((r) => ({
+            type: r.memory.type,
+            content: r.memory.content.trim().slice(0, MAX_SEARCH_RESULT_CHARS),
+            createdAt: String(r.memory.metadata.createdAt),
+            relevance: Math.round(r.relevance * 100) / 100,
+          })),
+      },
+    };
+  } catch (error) {
+    return executionFailed(error);
+  }
+}
+
+/**
+ * `memory_delete`: delete the requesting user's note that best matches a query.
+ */
+export async function deleteMemoryTool(
+  input: unknown,
+  context?: ToolCallContext
+): Promise<ToolResult<{ deleted: boolean; content?: string }>> {
+  if (!context) return missingContext('memory_delete');
+  const args = asRecord(input);
+  const scopeError = checkUserScope(args, context);
+  if (scopeError) return scopeError;
+
+  const query = typeof args.query === 'string' ? args.query.trim() : '';
+  if (!query) return invalidInput('query is required');
+
+  try {
+    const forgotten = await forgetUserMemory(context.userId, query);
+    return {
+      success: true,
+      data: forgotten ? { deleted: true, content: forgotten.content.trim() } : { deleted: false },
+    };
+  } catch (error) {
+    return executionFailed(error);
+  }
+}
+
+export const MEMORY_TOOL_DEFINITIONS: Anthropic.Tool[] = [
+  {
+    name: 'memory_save_knowledge',
+    description:
+      'Remember a fact the user asked you to remember (e.g. "remember that our deploy freeze starts Friday"). ' +
+      'Save concise, self-contained facts. Never save credentials or secrets.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        content: {
+          type: 'string',
+          description: `The fact to remember (max ${MAX_KNOWLEDGE_CHARS} characters)`,
+        },
+      },
+      required: ['content'],
+    },
+  },
+  {
+    name: 'memory_set_preference',
+    description:
+      "Save one of the current user's preferences (e.g. response style, timezone, default Jira project). " +
+      'Always applies to the user you are talking to.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        key: {
+          type: 'string',
+          description: 'Preference name, e.g. "response_style" or "timezone"',
+        },
+        value: {
+          type: ['string', 'number', 'boolean'],
+          description: `Preference value (strings max ${MAX_PREFERENCE_VALUE_CHARS} characters)`,
+        },
+      },
+      required: ['key', 'value'],
+    },
+  },
+  {
+    name: 'memory_search',
+    description:
+      "Search saved knowledge, the current user's preferences and past conversation summaries.",
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What to look for' },
+        type: {
+          type: 'string',
+          enum: [...SEARCHABLE_MEMORY_TYPES],
+          description: 'Only search one kind of memory',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'memory_delete',
+    description:
+      'Forget something the current user previously asked you to remember. Deletes their saved fact that best matches the query.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Text describing the fact to forget' },
+      },
+      required: ['query'],
+    },
+  },
+];
+
+const MEMORY_TOOL_HANDLERS: Record<
+  string,
+  (input: unknown, context?: ToolCallContext) => Promise<ToolResult<unknown>>
+> = {
+  memory_save_knowledge: saveKnowledgeTool,
+  memory_set_preference: setPreferenceTool,
+  memory_search: searchMemoryTool,
+  memory_delete: deleteMemoryTool,
+};
+
+/**
+ * Register the memory tools as static tools.
+ *
+ * @param registry - Registry to add them to (default: the shared registry)
+ */
+export function registerMemoryTools(registry: ToolRegistry = toolRegistry): void {
+  for (const definition of MEMORY_TOOL_DEFINITIONS) {
+    registry.registerStaticTool(definition.name, MEMORY_TOOL_HANDLERS[definition.name], definition);
+  }
+}
@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, it } from 'vitest';
 import { toolRegistry, parseMcpToolName } from './registry.js';
+import { __resetServerHealthForTests, markServerAvailable, markServerUnavailable } from './mcp/health.js';
 
 describe('parseMcpToolName (Task 1)', () => {
   it('parses server__tool (split on first __ only)', () => {
@@ -24,6 +25,7 @@ describe('parseMcpToolName (Task 1)', () => {
 describe('ToolRegistry (Task 1 conflict policy)', () => {
   beforeEach(() => {
     toolRegistry.__resetForTests();
+    __resetServerHealthForTests();
   });
 
   it('excludes MCP tool if its unprefixed name conflicts with a static tool name', () => {
@@ -114,6 +116,20 @@ describe('ToolRegistry (Task 1 conflict policy)', () => {
     const names = toolRegistry.getToolsForClaude().map((t) => t.name);
     expect(names).toEqual(['aaa', 'rube__bbb']);
   });
-});
 
+  it('hides tools of servers whose circuit is open until they recover', () => {
+    toolRegistry.registerMcpTools('rube', [
+      {
+        originalName: 'search',
+        claudeTool: { name: 'rube__search', input_schema: { type: 'object', properties: {} } },
+      },
+    ]);
+    for (let i = 0; i < 3; i++) markServerUnavailable('rube', new Error('down'));
+
+    expect(toolRegistry.getToolsForClaude()).toEqual([]);
+    expect(toolRegistry.getMcpTool('rube__search')).toBeDefined();
 
+    markServerAvailable('rube');
+    expect(toolRegistry.getToolsForClaude().map((t) => t.name)).toEqual(['rube__search']);
+  });
+});
@@ -10,6 +10,8 @@
 
 import type Anthropic from '@anthropic-ai/sdk';
 import { logger } from '../utils/logger.js';
+import type { McpToolAnnotations } from './mcp/types.js';
+import { isServerAvailable } from './mcp/health.js';
 
 export function isSnakeCase(value: string): boolean {
   return /^[a-z][a-z0-9_]*$/.test(value);
@@ -40,12 +42,25 @@ export type RegisteredTool = {
   claudeTool: Anthropic.Tool;
   serverName: string | null;
   originalName: string;
+  /** MCP tool annotations reported by the server (used by the approval policy) */
+  annotations?: McpToolAnnotations;
 };
 
+/**
+ * Who a tool call runs for. Passed to static tool handlers so they can scope
+ * what they read and write to the requesting user.
+ */
+export type ToolCallContext = {
+  userId: string;
+  channelId?: string;
+  traceId: string;
+};
+
+export type StaticToolHandler = (input: unknown, context?: ToolCallContext) => Promise<unknown>;
+
 export type RegisteredStaticTool = {
   claudeTool: Anthropic.Tool;
-  // Handler is reserved for Story 3.3 routing/execution.
-  handler: (input: unknown) => Promise<unknown>;
+  handler: StaticToolHandler;
 };
 
 type DiscoveryCacheEntry = { lastDiscoveryMs: number; toolCount: number };
@@ -59,7 +74,7 @@ export class ToolRegistry {
 
   registerStaticTool(
     name: string,
-    handler: (input: unknown) => Promise<unknown>,
+    handler: StaticToolHandler,
     toolDefinition: Anthropic.Tool
   ): void {
     this.staticTools.set(name, { handler, claudeTool: toolDefinition });
@@ -72,7 +87,11 @@ export class ToolRegistry {
 
   registerMcpTools(
     serverName: string,
-    tools: Array<{ originalName: string; claudeTool: Anthropic.Tool }>
+    tools: Array<{
+      originalName: string;
+      claudeTool: Anthropic.Tool;
+      annotations?: McpToolAnnotations;
+    }>
   ): number {
     // Replace server tools on each successful discovery.
     const removed = this.removeServerTools(serverName);
@@ -91,6 +110,7 @@ export class ToolRegistry {
         serverName,
         originalName: t.originalName,
         claudeTool: t.claudeTool,
+        annotations: t.annotations,
       });
       registered += 1;
     }
@@ -125,9 +145,12 @@ export class ToolRegistry {
     return removed;
   }
 
+  /** Static tools plus MCP tools of servers whose circuit is closed (see mcp/health.ts) */
   getToolsForClaude(): Anthropic.Tool[] {
     const staticTools = Array.from(this.staticTools.values()).map((t) => t.claudeTool);
-    const mcpTools = Array.from(this.mcpTools.values()).map((t) => t.claudeTool);
+    const mcpTools = Array.from(this.mcpTools.values())
+      .filter((t) => !t.serverName || isServerAvailable(t.serverName))
+      .map((t) => t.claudeTool);
     return [...staticTools, ...mcpTools].sort((a, b) => a.name.localeCompare(b.name));
   }
 
@@ -139,6 +162,19 @@ export class ToolRegistry {
     return this.mcpTools.get(toolName);
   }
 
+  getMcpServerNames(): string[] {
+    const names = new Set<string>();
+    for (const tool of this.mcpTools.values()) {
+      if (tool.serverName) names.add(tool.serverName);
+    }
+    return Array.from(names);
+  }
+
+  /** Force rediscovery of every server on the next refresh (e.g. after config reload). */
+  clearDiscoveryCache(): void {
+    this.discoveryCache.clear();
+  }
+
   isDiscoveryStale(serverName: string): boolean {
     const entry = this.discoveryCache.get(serverName);
     if (!entry) return true;
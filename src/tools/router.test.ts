@@ -1,5 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { toolRegistry } from './registry.js';
+import { McpClient } from './mcp/client.js';
+import { authorizeMcpToolCall, reauthorizeMcpUser } from './mcp/oauth.js';
 
 const callToolMock = vi.fn();
 
@@ -9,23 +11,50 @@ vi.mock('./mcp/client.js', () => ({
   })),
 }));
 
-vi.mock('../config/mcp-servers.js', () => ({
-  getMcpServerConfigs: () => [
+vi.mock('../config/mcp-servers.js', () => {
+  const servers = [
     {
       name: 'rube',
+      type: 'http',
       url: 'https://example.com/mcp',
       enabled: true,
       bearerToken: 'token',
       connectionTimeoutMs: 10,
       requestTimeoutMs: 10,
     },
-  ],
+    {
+      name: 'github',
+      type: 'http',
+      url: 'https://github.example.com/mcp',
+      enabled: true,
+      bearerToken: 'service-token',
+      connectionTimeoutMs: 10,
+      requestTimeoutMs: 10,
+      oauth: {
+        authorizationUrl: 'https://github.example.com/login/oauth/authorize',
+        tokenUrl: 'https://github.example.com/login/oauth/access_token',
+        clientId: 'client-1',
+        scopes: ['repo'],
+      },
+    },
+  ];
+  return {
+    getMcpServerConfigs: () => servers,
+    getMcpServerConfig: (name: string) => servers.find((s) => s.name === name),
+  };
+});
+
+vi.mock('./mcp/oauth.js', () => ({
+  authorizeMcpToolCall: vi.fn(),
+  reauthorizeMcpUser: vi.fn(),
 }));
 
 describe('executeToolCall (router)', () => {
   beforeEach(() => {
     toolRegistry.__resetForTests();
     callToolMock.mockReset();
+    vi.mocked(authorizeMcpToolCall).mockReset();
+    vi.mocked(reauthorizeMcpUser).mockReset();
   });
 
   it('returns TOOL_NOT_FOUND for unknown tools', async () => {
@@ -118,6 +147,133 @@ describe('executeToolCall (router)', () => {
       expect(result.data).toEqual({ echoed: { a: 1 } });
     }
   });
-});
 
+  it('passes the caller context to static tools and keeps their ToolResult errors', async () => {
+    const { executeToolCall } = await import('./router.js');
+    const handler = vi.fn(async () => ({
+      success: false,
+      error: { code: 'TOOL_INVALID_INPUT', message: 'bad key', retryable: false },
+    }));
+
+    toolRegistry.registerStaticTool('scoped_tool', handler, {
+      name: 'scoped_tool',
+      input_schema: { type: 'object', properties: {} },
+    });
+
+    const context = { userId: 'U1', channelId: 'C1', traceId: 'trace-5' };
+    const result = await executeToolCall({
+      toolName: 'scoped_tool',
+      toolUseId: 'toolu_5',
+      args: { key: '' },
+      traceId: 'trace-5',
+      signal: new AbortController().signal,
+      context,
+    });
+
+    expect(handler).toHaveBeenCalledWith({ key: '' }, context);
+    expect(result).toEqual({
+      success: false,
+      error: { code: 'TOOL_INVALID_INPUT', message: 'bad key', retryable: false },
+    });
+  });
+
+  describe('per-user OAuth servers', () => {
+    const authRequired = {
+      code: 'AUTH_REQUIRED' as const,
+      message: 'A connect link was sent to them by direct message.',
+      retryable: false,
+    };
+
+    it("calls the server with the requesting user's token", async () => {
+      const { executeToolCall } = await import('./router.js');
+      vi.mocked(authorizeMcpToolCall).mockResolvedValueOnce({ success: true, data: 'user-token' });
+      callToolMock.mockResolvedValueOnce({ success: true, data: { content: [] } });
+
+      const result = await executeToolCall({
+        toolName: 'github__create_issue',
+        toolUseId: 'toolu_6',
+        args: {},
+        traceId: 'trace-6',
+        signal: new AbortController().signal,
+        context: { userId: 'U1', traceId: 'trace-6' },
+      });
+
+      expect(authorizeMcpToolCall).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'github' }),
+        'U1',
+        'trace-6'
+      );
+      expect(McpClient).toHaveBeenLastCalledWith(
+        'github',
+        expect.objectContaining({ bearerToken: 'user-token' })
+      );
+      expect(result.success).toBe(true);
+    });
+
+    it('returns AUTH_REQUIRED without calling the server when the user has not connected', async () => {
+      const { executeToolCall } = await import('./router.js');
+      vi.mocked(authorizeMcpToolCall).mockResolvedValueOnce({
+        success: false,
+        error: authRequired,
+      });
+
+      const result = await executeToolCall({
+        toolName: 'github__create_issue',
+        toolUseId: 'toolu_7',
+        args: {},
+        traceId: 'trace-7',
+        signal: new AbortController().signal,
+        context: { userId: 'U1', traceId: 'trace-7' },
+      });
+
+      expect(callToolMock).not.toHaveBeenCalled();
+      expect(result).toEqual({ success: false, error: authRequired });
+    });
+
+    it('asks the user to connect again when the server rejects their token', async () => {
+      const { executeToolCall } = await import('./router.js');
+      vi.mocked(authorizeMcpToolCall).mockResolvedValueOnce({ success: true, data: 'revoked' });
+      vi.mocked(reauthorizeMcpUser).mockResolvedValueOnce(authRequired);
+      callToolMock.mockResolvedValueOnce({
+        success: false,
+        error: { code: 'AUTH_REQUIRED', message: 'HTTP 401: Unauthorized', retryable: false },
+      });
+
+      const result = await executeToolCall({
+        toolName: 'github__create_issue',
+        toolUseId: 'toolu_8',
+        args: {},
+        traceId: 'trace-8',
+        signal: new AbortController().signal,
+        context: { userId: 'U1', traceId: 'trace-8' },
+      });
+
+      expect(reauthorizeMcpUser).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'github' }),
+        'U1',
+        'trace-8'
+      );
+      expect(result).toEqual({ success: false, error: authRequired });
+    });
+
+    it('keeps using static credentials for servers without OAuth', async () => {
+      const { executeToolCall } = await import('./router.js');
+      callToolMock.mockResolvedValueOnce({ success: true, data: { content: [] } });
 
+      await executeToolCall({
+        toolName: 'rube__search',
+        toolUseId: 'toolu_9',
+        args: {},
+        traceId: 'trace-9',
+        signal: new AbortController().signal,
+        context: { userId: 'U1', traceId: 'trace-9' },
+      });
+
+      expect(authorizeMcpToolCall).not.toHaveBeenCalled();
+      expect(McpClient).toHaveBeenLastCalledWith(
+        'rube',
+        expect.objectContaining({ bearerToken: 'token' })
+      );
+    });
+  });
+});
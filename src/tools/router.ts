@@ -12,10 +12,11 @@
  */
 
 import type { ToolResult } from '../utils/tool-result.js';
-import { getMcpServerConfigs } from '../config/mcp-servers.js';
+import { getMcpServerConfig } from '../config/mcp-servers.js';
 import { toToolError } from './errors.js';
-import { McpClient } from './mcp/client.js';
-import { parseMcpToolName, toolRegistry } from './registry.js';
+import { createMcpClient } from './mcp/client-factory.js';
+import { authorizeMcpToolCall, reauthorizeMcpUser } from './mcp/oauth.js';
+import { parseMcpToolName, toolRegistry, type ToolCallContext } from './registry.js';
 
 export async function executeToolCall(params: {
   toolName: string;
@@ -23,12 +24,14 @@ export async function executeToolCall(params: {
   args: Record<string, unknown>;
   traceId: string;
   signal: AbortSignal;
+  /** Requesting user/channel, passed to static tool handlers and used for per-user MCP OAuth */
+  context?: ToolCallContext;
 }): Promise<ToolResult<unknown>> {
   try {
     const mcp = parseMcpToolName(params.toolName);
     if (mcp) {
-      const server = getMcpServerConfigs().find((s) => s.name === mcp.serverName);
-      if (!server || !server.enabled || !server.url) {
+      const server = getMcpServerConfig(mcp.serverName);
+      if (!server || !server.enabled) {
         return {
           success: false,
           error: {
@@ -39,12 +42,21 @@ export async function executeToolCall(params: {
         };
       }
 
-      const client = new McpClient(server.name, {
-        url: server.url,
-        bearerToken: server.bearerToken,
-        connectionTimeoutMs: server.connectionTimeoutMs,
-        requestTimeoutMs: server.requestTimeoutMs,
-      });
+      // Servers with per-user OAuth are called with the requesting user's own token
+      let bearerToken: string | undefined;
+      if (server.oauth) {
+        const authorized = await authorizeMcpToolCall(
+          server,
+          params.context?.userId,
+          params.traceId
+        );
+        if (!authorized.success) return authorized;
+        bearerToken = authorized.data;
+      }
+
+      const created = createMcpClient(server, { bearerToken });
+      if (!created.success) return created;
+      const client = created.data;
 
       const result = await client.callTool(
         mcp.toolName,
@@ -54,7 +66,16 @@ export async function executeToolCall(params: {
         params.signal
       );
 
-      if (!result.success) return result;
+      if (!result.success) {
+        if (server.oauth && result.error.code === 'AUTH_REQUIRED' && params.context?.userId) {
+          // Token revoked or rejected: ask the user to connect again
+          return {
+            success: false,
+            error: await reauthorizeMcpUser(server, params.context.userId, params.traceId),
+          };
+        }
+        return result;
+      }
 
       // MCP can return { isError: true, content: [...] } as a "successful" payload.
       // Normalize it to ToolResult error (AC#6).
@@ -71,8 +92,9 @@ export async function executeToolCall(params: {
     const staticTool = toolRegistry.getStaticTool(params.toolName);
     if (staticTool) {
       try {
-        const data = await staticTool.handler(params.args);
-        return { success: true, data };
+        const data = await staticTool.handler(params.args, params.context);
+        // Handlers may return a ToolResult to report typed errors
+        return isToolResult(data) ? data : { success: true, data };
       } catch (e) {
         return { success: false, error: toToolError(e) };
       }
@@ -91,4 +113,8 @@ export async function executeToolCall(params: {
   }
 }
 
-
+function isToolResult(value: unknown): value is ToolResult<unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as { success?: unknown; data?: unknown; error?: unknown };
+  return (v.success === true && 'data' in v) || (v.success === false && typeof v.error === 'object');
+}
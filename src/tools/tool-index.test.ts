@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type Anthropic from '@anthropic-ai/sdk';
+
+vi.mock('../utils/logger.js');
+
+import {
+  __resetToolIndexForTests,
+  MAX_SEARCH_RESULTS,
+  rankTools,
+  SEARCH_TOOLS_NAME,
+  searchToolCatalog,
+  selectTools,
+} from './tool-index.js';
+
+function tool(name: string, description: string, properties: string[] = []): Anthropic.Tool {
+  return {
+    name,
+    description,
+    input_schema: {
+      type: 'object',
+      properties: Object.fromEntries(properties.map((p) => [p, { type: 'string' }])),
+    },
+  };
+}
+
+const catalog = [
+  tool('remember', 'Save a note for the user', ['text']),
+  tool('rube__jira_create_issue', 'Create an issue in a Jira project', ['project_key', 'summary']),
+  tool('rube__jira_search', 'Search Jira issues with JQL', ['jql']),
+  tool('rube__github_create_pull_request', 'Open a pull request on GitHub', ['repo', 'title']),
+  tool('rube__gmail_send_email', 'Send an email from Gmail', ['to', 'subject', 'body']),
+  tool('rube__google_calendar_list_events', 'List events on a Google Calendar', ['calendar_id']),
+];
+
+describe('tool index', () => {
+  beforeEach(() => {
+    __resetToolIndexForTests();
+  });
+
+  describe('rankTools', () => {
+    it('ranks tools by name, description and parameters', async () => {
+      const ranked = await rankTools('open a pull request for my repo', catalog, { limit: 2 });
+      expect(ranked[0].name).toBe('rube__github_create_pull_request');
+
+      const email = await rankTools('send an email', catalog, { limit: 1 });
+      expect(email.map((t) => t.name)).toEqual(['rube__gmail_send_email']);
+    });
+
+    it('returns nothing for an empty query', async () => {
+      expect(await rankTools('  ', catalog, { limit: 3 })).toEqual([]);
+    });
+  });
+
+  describe('selectTools', () => {
+    it('sends the whole catalog when it fits the limit', async () => {
+      const selection = await selectTools({
+        userMessage: 'hi',
+        threadHistory: [],
+        tools: catalog,
+        limit: catalog.length,
+      });
+
+      expect(selection).toEqual({ tools: catalog, totalCount: catalog.length, limited: false });
+    });
+
+    it('keeps static tools and the best MCP matches, plus search_tools', async () => {
+      const selection = await selectTools({
+        userMessage: 'and file it as a bug too',
+        threadHistory: [{ role: 'user', content: 'What Jira issues are open for checkout?' }],
+        tools: catalog,
+        limit: 3,
+      });
+
+      const names = selection.tools.map((t) => t.name);
+      expect(selection).toMatchObject({ totalCount: catalog.length, limited: true });
+      expect(names).toContain('remember');
+      expect(names).toContain('rube__jira_search');
+      expect(names).not.toContain('rube__gmail_send_email');
+      expect(names.at(-1)).toBe(SEARCH_TOOLS_NAME);
+      expect(names.length).toBeLessThanOrEqual(4);
+    });
+
+    it('sends every tool when the limit is 0', async () => {
+      const selection = await selectTools({
+        userMessage: 'hi',
+        threadHistory: [],
+        tools: catalog,
+        limit: 0,
+      });
+
+      expect(selection.limited).toBe(false);
+      expect(selection.tools).toHaveLength(catalog.length);
+    });
+  });
+
+  describe('searchToolCatalog', () => {
+    it('skips loaded tools and caps the number of results', async () => {
+      const found = await searchToolCatalog({
+        input: { query: 'jira issue', limit: 50 },
+        catalog,
+        loaded: new Set(['rube__jira_search']),
+      });
+
+      expect(found[0].name).toBe('rube__jira_create_issue');
+      expect(found.map((t) => t.name)).not.toContain('rube__jira_search');
+      expect(found.length).toBeLessThanOrEqual(MAX_SEARCH_RESULTS);
+    });
+
+    it('finds nothing without a query', async () => {
+      expect(await searchToolCatalog({ input: {}, catalog, loaded: new Set() })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tool index: relevance-ranked tool selection.
+ *
+ * With large MCP catalogs (Rube alone exposes 500+ integrations), sending every
+ * tool schema on every call is slow and expensive. The agent loop instead sends
+ * the tools that best match the user message and recent thread, plus
+ * `search_tools`, which Claude calls to load more schemas mid-loop.
+ *
+ * - Static tools are always sent (few, and core to Orion).
+ * - MCP tools are ranked with the retrieval module's hybrid BM25 + embedding
+ *   scoring over tool name, description and parameter names.
+ * - Catalogs at or under the limit are sent whole, without `search_tools`.
+ *
+ * Limit: TOOL_SELECTION_LIMIT (default 25; 0 sends every tool).
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { config } from '../config/environment.js';
+import { getEmbeddingProvider, HybridIndex, type EmbeddingProvider } from '../retrieval/index.js';
+import { logger } from '../utils/logger.js';
+import { parseMcpToolName } from './registry.js';
+
+/** Tools sent per request when TOOL_SELECTION_LIMIT is not set */
+export const DEFAULT_TOOL_SELECTION_LIMIT = 25;
+
+/** Name of the meta-tool that loads more tools */
+export const SEARCH_TOOLS_NAME = 'search_tools';
+
+/** Tools loaded per search_tools call when Claude does not ask for a number */
+export const DEFAULT_SEARCH_RESULTS = 5;
+
+/** Upper bound on tools loaded per search_tools call */
+export const MAX_SEARCH_RESULTS = 10;
+
+/** Recent thread messages added to the ranking query */
+const THREAD_QUERY_MESSAGES = 4;
+
+export const searchToolsDefinition: Anthropic.Tool = {
+  name: SEARCH_TOOLS_NAME,
+  description:
+    'Find more tools by what they should do. Only the tools most relevant to the request are ' +
+    'loaded; call this when none of them fits. Matching tools can be called right after.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description:
+          'What the tool should do, e.g. "create a Jira issue" or "list calendar events"',
+      },
+      limit: {
+        type: 'integer',
+        description: `Max tools to load (default ${DEFAULT_SEARCH_RESULTS}, max ${MAX_SEARCH_RESULTS})`,
+      },
+    },
+    required: ['query'],
+  },
+};
+
+/**
+ * Tools chosen for a request
+ */
+export interface ToolSelection {
+  /** Tools to send to Claude */
+  tools: Anthropic.Tool[];
+  /** Tools available before selection */
+  totalCount: number;
+  /** True when only part of the catalog is sent (search_tools is included) */
+  limited: boolean;
+}
+
+let index: HybridIndex<{ name: string }> | null = null;
+let indexProvider: EmbeddingProvider | null = null;
+
+/** Dedicated index, so tool text does not skew memory/context retrieval statistics */
+function getToolIndex(): HybridIndex<{ name: string }> {
+  const provider = getEmbeddingProvider();
+  if (!index || indexProvider !== provider) {
+    index = new HybridIndex<{ name: string }>(provider);
+    indexProvider = provider;
+  }
+  return index;
+}
+
+function toolText(tool: Anthropic.Tool): string {
+  const mcp = parseMcpToolName(tool.name);
+  const name = (mcp ? `${mcp.serverName} ${mcp.toolName}` : tool.name).replace(/_/g, ' ');
+  const properties = Object.keys(tool.input_schema.properties ?? {}).map((p) =>
+    p.replace(/_/g, ' ')
+  );
+  return [name, tool.description ?? '', properties.join(' ')].filter(Boolean).join('\n');
+}
+
+function messageText(message: Anthropic.MessageParam): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map((block) => (block.type === 'text' ? block.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Rank tools against a query, best match first.
+ * Tools that match nothing are left out.
+ */
+export async function rankTools(
+  query: string,
+  tools: Anthropic.Tool[],
+  options: { limit: number; traceId?: string }
+): Promise<Anthropic.Tool[]> {
+  if (tools.length === 0 || options.limit <= 0 || !query.trim()) return [];
+
+  const toolIndex = getToolIndex();
+  await toolIndex.upsert(
+    tools.map((tool) => ({ id: tool.name, text: toolText(tool), metadata: { name: tool.name } })),
+    options.traceId
+  );
+  const results = await toolIndex.search(query, {
+    ids: tools.map((tool) => tool.name),
+    limit: options.limit,
+    traceId: options.traceId,
+  });
+
+  const byName = new Map(tools.map((tool) => [tool.name, tool]));
+  return results
+    .map((r) => byName.get(r.document.id))
+    .filter((tool): tool is Anthropic.Tool => tool !== undefined);
+}
+
+/**
+ * Choose the tools to send for a request.
+ * Falls back to the whole catalog if ranking fails. Never throws.
+ */
+export async function selectTools(params: {
+  userMessage: string;
+  threadHistory: Anthropic.MessageParam[];
+  tools: Anthropic.Tool[];
+  /** Default: TOOL_SELECTION_LIMIT, else DEFAULT_TOOL_SELECTION_LIMIT */
+  limit?: number;
+  traceId?: string;
+}): Promise<ToolSelection> {
+  const limit = params.limit ?? config.toolSelectionLimit ?? DEFAULT_TOOL_SELECTION_LIMIT;
+  const totalCount = params.tools.length;
+  if (limit <= 0 || totalCount <= limit) {
+    return { tools: params.tools, totalCount, limited: false };
+  }
+
+  const pinned = params.tools.filter((tool) => !parseMcpToolName(tool.name));
+  const candidates = params.tools.filter((tool) => parseMcpToolName(tool.name));
+  const query = [
+    ...params.threadHistory.slice(-THREAD_QUERY_MESSAGES).map(messageText),
+    params.userMessage,
+  ].join('\n');
+
+  try {
+    const ranked = await rankTools(query, candidates, {
+      limit: Math.max(0, limit - pinned.length),
+      traceId: params.traceId,
+    });
+    const tools = [...pinned, ...ranked].sort((a, b) => a.name.localeCompare(b.name));
+
+    logger.info({
+      event: 'tools.selection',
+      totalCount,
+      selectedCount: tools.length,
+      limit,
+      traceId: params.traceId,
+    });
+    return { tools: [...tools, searchToolsDefinition], totalCount, limited: true };
+  } catch (error) {
+    logger.warn({
+      event: 'tools.selection_failed',
+      totalCount,
+      error: error instanceof Error ? error.message : String(error),
+      traceId: params.traceId,
+    });
+    return { tools: params.tools, totalCount, limited: false };
+  }
+}
+
+/**
+ * Run a search_tools call: rank the catalog against the query, skipping tools
+ * Claude already has.
+ *
+ * @returns The tools to add to the request
+ */
+export async function searchToolCatalog(params: {
+  input: unknown;
+  catalog: Anthropic.Tool[];
+  loaded: ReadonlySet<string>;
+  traceId?: string;
+}): Promise<Anthropic.Tool[]> {
+  const input = (params.input ?? {}) as { query?: unknown; limit?: unknown };
+  const query = typeof input.query === 'string' ? input.query : '';
+  const limit =
+    typeof input.limit === 'number' && input.limit > 0
+      ? Math.min(Math.floor(input.limit), MAX_SEARCH_RESULTS)
+      : DEFAULT_SEARCH_RESULTS;
+
+  const found = await rankTools(
+    query,
+    params.catalog.filter((tool) => !params.loaded.has(tool.name)),
+    { limit, traceId: params.traceId }
+  );
+
+  logger.info({
+    event: 'tools.search',
+    query,
+    foundCount: found.length,
+    tools: found.map((tool) => tool.name),
+    traceId: params.traceId,
+  });
+  return found;
+}
+
+/**
+ * Drop the tool index (tests only).
+ */
+export function __resetToolIndexForTests(): void {
+  index = null;
+  indexProvider = null;
+}
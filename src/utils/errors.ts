@@ -31,6 +31,8 @@ export const ErrorCode = {
   SANDBOX_SETUP_FAILED: 'SANDBOX_SETUP_FAILED',
   SANDBOX_TIMEOUT: 'SANDBOX_TIMEOUT',
   AGENT_EXECUTION_FAILED: 'AGENT_EXECUTION_FAILED',
+  // Run journal recovery
+  RUN_INTERRUPTED: 'RUN_INTERRUPTED',
 } as const;
 
 export type ErrorCodeType = (typeof ErrorCode)[keyof typeof ErrorCode];
@@ -221,6 +223,14 @@ Something went wrong while processing.
 *What you can try:*
 • 💡 Try again in a moment
 • 💡 Simplify your request`,
+
+    RUN_INTERRUPTED: `⚠️ *Couldn't finish your request*
+
+I was restarted while working on this and couldn't pick up where I left off.
+
+*What you can try:*
+• 💡 Ask again in this thread
+• 💡 Break your request into smaller parts`,
   };
 
   return templates[code];
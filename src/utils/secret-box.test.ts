@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { isSecretBoxConfigured, openSecret, sealSecret } from './secret-box.js';
+
+const SECRET = 'test-encryption-secret';
+
+describe('secret-box', () => {
+  it('round-trips values without exposing the plaintext', () => {
+    const sealed = sealSecret('gho_refresh_token', SECRET);
+
+    expect(sealed).toMatch(/^v1\./);
+    expect(sealed).not.toContain('gho_refresh_token');
+    expect(openSecret(sealed, SECRET)).toBe('gho_refresh_token');
+  });
+
+  it('uses a fresh IV for every value', () => {
+    expect(sealSecret('same', SECRET)).not.toBe(sealSecret('same', SECRET));
+  });
+
+  it('rejects tampered values and other keys', () => {
+    const sealed = sealSecret('token', SECRET);
+    const [version, iv, tag, ciphertext] = sealed.split('.');
+    const flipped = Buffer.from(ciphertext, 'base64url');
+    flipped[0] ^= 0xff;
+    const tampered = [version, iv, tag, flipped.toString('base64url')].join('.');
+
+    expect(openSecret(sealed, 'another-secret')).toBeNull();
+    expect(openSecret(tampered, SECRET)).toBeNull();
+    expect(openSecret('not-sealed', SECRET)).toBeNull();
+  });
+
+  it('refuses to seal without a secret', () => {
+    expect(isSecretBoxConfigured('')).toBe(false);
+    expect(() => sealSecret('token', '')).toThrow('MCP_OAUTH_ENCRYPTION_KEY');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Symmetric encryption for secrets at rest.
+ *
+ * AES-256-GCM with a key derived (SHA-256) from MCP_OAUTH_ENCRYPTION_KEY.
+ * Sealed values are `v1.<iv>.<tag>.<ciphertext>` (base64url), so they can be
+ * stored in any memory backend or passed as a URL parameter. Opening fails
+ * (returns null) for tampered values or values sealed with another key.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { config } from '../config/environment.js';
+
+const VERSION = 'v1';
+const IV_BYTES = 12;
+
+function deriveKey(secret: string): Buffer {
+  return createHash('sha256').update(secret, 'utf8').digest();
+}
+
+/**
+ * Whether an encryption secret is configured
+ */
+export function isSecretBoxConfigured(secret: string = config.mcpOAuthEncryptionKey): boolean {
+  return secret.length > 0;
+}
+
+/**
+ * Encrypt a string.
+ *
+ * @throws Error when no secret is configured
+ */
+export function sealSecret(
+  plaintext: string,
+  secret: string = config.mcpOAuthEncryptionKey
+): string {
+  if (!isSecretBoxConfigured(secret)) {
+    throw new Error('MCP_OAUTH_ENCRYPTION_KEY is not set');
+  }
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.');
+}
+
+/**
+ * Decrypt a value produced by sealSecret.
+ *
+ * @returns The plaintext, or null when the value is malformed, tampered with or
+ *   sealed with a different secret
+ */
+export function openSecret(
+  sealed: string,
+  secret: string = config.mcpOAuthEncryptionKey
+): string | null {
+  const [version, iv, tag, ciphertext] = sealed.split('.');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined || !secret) return null;
+
+  try {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      deriveKey(secret),
+      Buffer.from(iv, 'base64url')
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
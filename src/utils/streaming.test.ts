@@ -146,6 +146,46 @@ describe('SlackStreamer', () => {
     });
   });
 
+  describe('replace()', () => {
+    it('should edit the streamed message in place using the ts from stop()', async () => {
+      const update = vi.fn().mockResolvedValue({ ok: true });
+      (mockClient as unknown as { chat: { update: typeof update } }).chat = { update };
+      mockStreamer.stop.mockResolvedValueOnce({ ok: true, ts: '1234567890.999999' });
+
+      const streamer = new SlackStreamer(config);
+      await streamer.start();
+      await streamer.stop();
+
+      expect(streamer.getMessageTs()).toBe('1234567890.999999');
+      await expect(streamer.replace('Corrected *answer*')).resolves.toBe(true);
+      expect(update).toHaveBeenCalledWith({
+        channel: 'C123456',
+        ts: '1234567890.999999',
+        text: 'Corrected *answer*',
+      });
+    });
+
+    it('should skip replacement when no message ts is known', async () => {
+      const streamer = new SlackStreamer(config);
+      await streamer.start();
+      await streamer.stop();
+
+      await expect(streamer.replace('Corrected')).resolves.toBe(false);
+    });
+
+    it('should not throw when chat.update fails', async () => {
+      const update = vi.fn().mockRejectedValue(new Error('message_not_found'));
+      (mockClient as unknown as { chat: { update: typeof update } }).chat = { update };
+      mockStreamer.stop.mockResolvedValueOnce({ ok: true, ts: '1.2' });
+
+      const streamer = new SlackStreamer(config);
+      await streamer.start();
+      await streamer.stop();
+
+      await expect(streamer.replace('Corrected')).resolves.toBe(false);
+    });
+  });
+
   describe('error handling', () => {
     it('should log append errors gracefully (debounced mode)', async () => {
       vi.useFakeTimers();
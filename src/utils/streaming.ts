@@ -31,8 +31,8 @@ export interface StreamMetrics {
 
 // Type for the chatStream return value
 interface ChatStreamHandle {
-  append: (params: { markdown_text: string }) => Promise<void>;
-  stop: () => Promise<void>;
+  append: (params: { markdown_text: string }) => Promise<unknown>;
+  stop: () => Promise<{ ts?: string } | void>;
 }
 
 /** Minimum time between Slack updates (AC#7) */
@@ -71,6 +71,7 @@ export class SlackStreamer {
   private streamer: ChatStreamHandle | null = null;
   private startTime: number = 0;
   private totalChars: number = 0;
+  private messageTs: string | undefined;
 
   // Debounce state (AC#7)
   private pendingContent: string = '';
@@ -236,7 +237,8 @@ export class SlackStreamer {
       await this.flushPendingContent();
     }
 
-    await this.streamer.stop();
+    const stopResponse = await this.streamer.stop();
+    this.messageTs = stopResponse?.ts ?? this.messageTs;
 
     const metrics: StreamMetrics = {
       totalDuration: Date.now() - this.startTime,
@@ -252,6 +254,56 @@ export class SlackStreamer {
 
     return metrics;
   }
+
+  /**
+   * Timestamp of the streamed message (available after stop())
+   */
+  getMessageTs(): string | undefined {
+    return this.messageTs;
+  }
+
+  /**
+   * Replace the streamed message text in place (after stop()).
+   * Used when a passthrough response fails verification and a corrected retry is ready.
+   * Content should already be formatted as Slack mrkdwn.
+   *
+   * @returns true if the message was updated
+   */
+  async replace(text: string): Promise<boolean> {
+    if (!this.messageTs) {
+      logger.warn({
+        event: 'stream_replace_skipped',
+        channel: this.channel,
+        threadTs: this.threadTs,
+        reason: 'missing_message_ts',
+      });
+      return false;
+    }
+
+    try {
+      await this.client.chat.update({
+        channel: this.channel,
+        ts: this.messageTs,
+        text,
+      });
+
+      logger.info({
+        event: 'stream_replaced',
+        channel: this.channel,
+        threadTs: this.threadTs,
+        totalChars: text.length,
+      });
+      return true;
+    } catch (error) {
+      logger.error({
+        event: 'stream_replace_failed',
+        channel: this.channel,
+        threadTs: this.threadTs,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
 }
 
 /**
@@ -11,6 +11,7 @@ const _allToolErrorCodes: ToolErrorCode[] = [
   'RATE_LIMITED',
   'MCP_CONNECTION_FAILED',
   'TOOL_NOT_FOUND',
+  'AUTH_REQUIRED',
 ];
 
 describe('tool-result', () => {
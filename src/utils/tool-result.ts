@@ -13,7 +13,9 @@ export type ToolErrorCode =
   | 'TOOL_EXECUTION_FAILED'
   | 'RATE_LIMITED'
   | 'MCP_CONNECTION_FAILED'
-  | 'TOOL_NOT_FOUND';
+  | 'TOOL_NOT_FOUND'
+  /** The user must connect their account (per-user MCP OAuth) */
+  | 'AUTH_REQUIRED';
 
 export type ToolError = {
   code: ToolErrorCode;
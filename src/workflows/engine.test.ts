@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { states } = vi.hoisted(() => ({ states: new Map<string, unknown>() }));
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({})),
+}));
+
+vi.mock('../agent/orion.js', () => ({
+  runOrionAgent: vi.fn(),
+}));
+
+vi.mock('./state.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./state.js')>();
+  return {
+    ...actual,
+    loadWorkflowState: vi.fn(async (channelId: string, threadTs: string) => states.get(`${channelId}:${threadTs}`) ?? null),
+    saveWorkflowState: vi.fn(async (state: { channelId: string; threadTs: string }) => {
+      states.set(`${state.channelId}:${state.threadTs}`, state);
+      return state;
+    }),
+  };
+});
+
+import { parseStepStatus, resolveWorkflowRequest, runWorkflowTurn } from './engine.js';
+import { runOrionAgent, type AgentOptions, type AgentResult } from '../agent/orion.js';
+import type { WorkflowRunState } from './state.js';
+
+const thread = { channelId: 'C1', threadTs: '111.222', userId: 'U1' };
+
+const agentOptions: AgentOptions = {
+  context: { threadHistory: [], userId: 'U1', channelId: 'C1', traceId: 'trace-1' },
+  systemPrompt: 'You are Orion.',
+};
+
+/** Queue agent replies, one per step run */
+function mockAgentReplies(...replies: string[]): void {
+  for (const reply of replies) {
+    vi.mocked(runOrionAgent).mockImplementationOnce(async function* () {
+      yield reply;
+      return { inputTokens: 10, outputTokens: 5, durationMs: 100, nfr1Met: true, toolCount: 1 };
+    });
+  }
+}
+
+async function runTurn(messageText: string): Promise<{ text: string; result: AgentResult }> {
+  const request = await resolveWorkflowRequest({ messageText, ...thread });
+  if (!request) throw new Error('expected a workflow request');
+
+  const turn = runWorkflowTurn(request, agentOptions);
+  let text = '';
+  for (;;) {
+    const next = await turn.next();
+    if (next.done) return { text, result: next.value };
+    text += next.value;
+  }
+}
+
+function savedState(): WorkflowRunState {
+  return states.get('C1:111.222') as WorkflowRunState;
+}
+
+// Uses the workflow shipped in orion/workflows/jira-story-sync.
+describe('workflow engine', () => {
+  beforeEach(() => {
+    states.clear();
+    vi.clearAllMocks();
+  });
+
+  describe('parseStepStatus', () => {
+    it('reads and strips the status line', () => {
+      expect(parseStepStatus('Done.\nSTEP_STATUS: complete')).toEqual({ status: 'complete', text: 'Done.' });
+    });
+
+    it('treats a missing status line as waiting', () => {
+      expect(parseStepStatus('Which project key?')).toEqual({ status: 'waiting', text: 'Which project key?' });
+    });
+  });
+
+  describe('resolveWorkflowRequest', () => {
+    it('ignores regular messages and unknown workflows', async () => {
+      expect(await resolveWorkflowRequest({ messageText: 'what shipped?', ...thread })).toBeNull();
+      expect(await resolveWorkflowRequest({ messageText: 'run the tests', ...thread })).toBeNull();
+      expect(
+        await resolveWorkflowRequest({ messageText: 'run jira-story-sync', ...thread, threadTs: undefined })
+      ).toBeNull();
+    });
+
+    it('starts a workflow from "run <workflow>"', async () => {
+      const request = await resolveWorkflowRequest({ messageText: 'run jira-story-sync', ...thread });
+
+      expect(request?.action).toBe('start');
+      expect(request?.state.currentStep).toBe('steps/step-01-init.md');
+    });
+  });
+
+  describe('runWorkflowTurn', () => {
+    it('runs auto-proceed steps in one turn and stops when a step waits for input', async () => {
+      mockAgentReplies(
+        'Initialization complete.\nSTEP_STATUS: complete',
+        'Found 3 stories.\nSTEP_STATUS: complete',
+        'Plan: create 3. [C] Continue?\nSTEP_STATUS: waiting'
+      );
+
+      const { text, result } = await runTurn('run jira-story-sync');
+
+      expect(text).toBe('Initialization complete.\n\nFound 3 stories.\n\nPlan: create 3. [C] Continue?');
+      expect(result).toEqual(expect.objectContaining({ inputTokens: 30, outputTokens: 15, toolCount: 3 }));
+      expect(savedState()).toEqual(
+        expect.objectContaining({
+          status: 'waiting',
+          currentStep: 'steps/step-03-plan.md',
+          stepsCompleted: ['steps/step-01-init.md', 'steps/step-02-discover.md'],
+        })
+      );
+    });
+
+    it('loads only the current step into the system prompt', async () => {
+      mockAgentReplies('Which project?\nSTEP_STATUS: waiting');
+
+      await runTurn('run jira-story-sync');
+
+      const { systemPrompt } = vi.mocked(runOrionAgent).mock.calls[0][1];
+      expect(systemPrompt).toContain('You are Orion.');
+      expect(systemPrompt).toContain('# Workflow: Jira Story Sync');
+      expect(systemPrompt).toContain('Step 1: Initialize');
+      expect(systemPrompt).toContain('bmad_to_jira');
+      expect(systemPrompt).not.toContain('Step 2: Discover');
+      expect(systemPrompt).toContain('STEP_STATUS: complete');
+    });
+
+    it('continues a waiting run with the user reply in the same thread', async () => {
+      mockAgentReplies('Plan ready.\nSTEP_STATUS: waiting');
+      await runTurn('run jira-story-sync');
+
+      mockAgentReplies('Starting.\nSTEP_STATUS: complete', 'Created 3 issues.\nSTEP_STATUS: waiting');
+      const { text } = await runTurn('C');
+
+      expect(vi.mocked(runOrionAgent).mock.calls[1][0]).toBe('C');
+      expect(text).toBe('Starting.\n\nCreated 3 issues.');
+      expect(savedState().currentStep).toBe('steps/step-02-discover.md');
+    });
+
+    it('resumes the unfinished run when "run <workflow>" is repeated', async () => {
+      states.set('C1:111.222', {
+        workflowId: 'jira-story-sync',
+        ...thread,
+        status: 'waiting',
+        currentStep: 'steps/step-04-execute.md',
+        stepsCompleted: ['steps/step-01-init.md', 'steps/step-02-discover.md', 'steps/step-03-plan.md'],
+        startedAt: '',
+        updatedAt: '',
+      });
+      mockAgentReplies('Synced.\nSTEP_STATUS: complete', 'Report written.\nSTEP_STATUS: complete');
+
+      await runTurn('run jira-story-sync');
+
+      expect(vi.mocked(runOrionAgent).mock.calls[0][1].systemPrompt).toContain('step 4 of 5');
+      expect(savedState()).toEqual(
+        expect.objectContaining({ status: 'completed', stepsCompleted: expect.arrayContaining(['steps/step-05-complete.md']) })
+      );
+      // Completed runs no longer capture thread replies
+      expect(await resolveWorkflowRequest({ messageText: 'thanks!', ...thread })).toBeNull();
+    });
+
+    it('marks the run halted when a step cannot continue', async () => {
+      mockAgentReplies('Jira connection inactive.\nSTEP_STATUS: halted');
+
+      await runTurn('run jira-story-sync');
+
+      expect(savedState().status).toBe('halted');
+    });
+
+    it('uses the verified replacement text in passthrough mode', async () => {
+      vi.mocked(runOrionAgent).mockImplementationOnce(async function* (_message, options) {
+        yield 'Draft **bold**';
+        await options.replaceResponse?.('Fixed *bold*\nSTEP_STATUS: waiting');
+        return { inputTokens: 1, outputTokens: 1, durationMs: 1, nfr1Met: true };
+      });
+
+      const { text } = await runTurn('run jira-story-sync');
+
+      expect(text).toBe('Fixed *bold*');
+    });
+
+    it('cancels a waiting run without calling the agent', async () => {
+      mockAgentReplies('Which project?\nSTEP_STATUS: waiting');
+      await runTurn('run jira-story-sync');
+
+      const { text } = await runTurn('cancel workflow');
+
+      expect(text).toContain('Stopped the *Jira Story Sync* workflow');
+      expect(runOrionAgent).toHaveBeenCalledTimes(1);
+      expect(savedState().status).toBe('cancelled');
+    });
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Workflow Engine
+ *
+ * Runs step-file workflows (see loader.ts) through the agent loop, one step
+ * at a time, inside a Slack thread:
+ *
+ * - `run <workflow>` starts a workflow (or resumes an unfinished run in the thread)
+ * - any other message in a thread with a waiting run continues the current step
+ * - `cancel workflow` stops the run
+ *
+ * Each step is a separate `runOrionAgent` call whose system prompt holds the
+ * routed agent's prompt, the workflow instructions and ONLY the current step
+ * file (loaded just-in-time). The model ends every reply with a
+ * `STEP_STATUS: complete | waiting | halted` line; `complete` advances to the
+ * step's `nextStepFile` and runs it in the same turn, `waiting` stops until
+ * the user replies. Progress is saved to the thread's sidecar state file
+ * (state.ts) after every step.
+ *
+ * Step output is yielded once the step finishes (the status line has to be
+ * stripped first), so workflow replies do not stream token by token.
+ */
+
+import { runOrionAgent, type AgentOptions, type AgentResult, type ContextSource } from '../agent/orion.js';
+import { logger } from '../utils/logger.js';
+import { loadWorkflow, loadWorkflowStep, type WorkflowDefinition, type WorkflowStep } from './loader.js';
+import {
+  createWorkflowState,
+  loadWorkflowState,
+  saveWorkflowState,
+  type WorkflowRunState,
+} from './state.js';
+
+/** Upper bound on steps run for one user message (guards against step cycles) */
+export const MAX_STEPS_PER_TURN = 10;
+
+/** `run jira-story-sync`, `start workflow jira-story-sync`, `resume jira-story-sync` */
+const RUN_COMMAND_PATTERN = /^(?:run|start|resume)\s+(?:(?:the\s+)?workflow\s+)?([a-z0-9][a-z0-9_-]*)\s*[.!]?$/i;
+
+/** `cancel workflow`, `stop the workflow` */
+const CANCEL_COMMAND_PATTERN = /^(?:cancel|stop|exit)\s+(?:the\s+)?workflow\s*[.!]?$/i;
+
+/** Status line the model ends each step reply with */
+const STEP_STATUS_PATTERN = /^[ \t]*STEP_STATUS:[ \t]*(complete|waiting|halted)[ \t]*$/gim;
+
+export type StepStatus = 'complete' | 'waiting' | 'halted';
+
+export type WorkflowAction = 'start' | 'resume' | 'continue' | 'cancel';
+
+/**
+ * A message resolved to a workflow turn.
+ */
+export interface WorkflowRequest {
+  action: WorkflowAction;
+  workflow: WorkflowDefinition;
+  state: WorkflowRunState;
+  /** The user's message (input for the current step on `continue`) */
+  userMessage: string;
+}
+
+/**
+ * Decide whether a Slack message starts, continues or cancels a workflow.
+ *
+ * @returns Workflow request, or null when the message is for the regular agent
+ */
+export async function resolveWorkflowRequest(params: {
+  messageText: string;
+  channelId: string;
+  threadTs?: string;
+  userId: string;
+}): Promise<WorkflowRequest | null> {
+  const { channelId, threadTs, userId } = params;
+  if (!threadTs) return null;
+
+  const text = params.messageText.trim();
+  const existing = await loadWorkflowState(channelId, threadTs);
+  const active = existing && (existing.status === 'waiting' || existing.status === 'running') ? existing : null;
+
+  const runMatch = text.match(RUN_COMMAND_PATTERN);
+  if (runMatch) {
+    const workflow = await loadWorkflow(runMatch[1].toLowerCase());
+    if (workflow) {
+      if (active?.workflowId === workflow.id) {
+        return { action: 'resume', workflow, state: active, userMessage: text };
+      }
+      const state = createWorkflowState({
+        workflowId: workflow.id,
+        channelId,
+        threadTs,
+        userId,
+        firstStep: workflow.steps[0],
+      });
+      return { action: 'start', workflow, state, userMessage: text };
+    }
+  }
+
+  if (!active) return null;
+
+  const workflow = await loadWorkflow(active.workflowId);
+  if (!workflow) {
+    logger.warn({ event: 'workflow.not_found', workflowId: active.workflowId, channelId, threadTs });
+    return null;
+  }
+
+  if (CANCEL_COMMAND_PATTERN.test(text)) {
+    return { action: 'cancel', workflow, state: active, userMessage: text };
+  }
+  return { action: 'continue', workflow, state: active, userMessage: text };
+}
+
+/**
+ * Split a step reply into its text and status line.
+ *
+ * A reply without a status line is treated as `waiting` so the workflow never
+ * advances without an explicit signal.
+ */
+export function parseStepStatus(output: string): { status: StepStatus; text: string } {
+  const matches = [...output.matchAll(STEP_STATUS_PATTERN)];
+  const last = matches[matches.length - 1];
+  return {
+    status: last ? (last[1].toLowerCase() as StepStatus) : 'waiting',
+    text: output.replace(STEP_STATUS_PATTERN, '').trim(),
+  };
+}
+
+/**
+ * Build the system prompt for one step.
+ */
+export function buildStepSystemPrompt(
+  basePrompt: string,
+  workflow: WorkflowDefinition,
+  step: WorkflowStep,
+  state: WorkflowRunState
+): string {
+  const stepNumber = workflow.steps.indexOf(step.file) + 1;
+  const position = stepNumber > 0 ? ` (step ${stepNumber} of ${workflow.steps.length})` : '';
+  const dataSection = step.dataFiles
+    .map((d) => `#### ${d.file}\n\n\`\`\`\n${d.content.trim()}\n\`\`\``)
+    .join('\n\n');
+
+  return [
+    basePrompt,
+    '---',
+    `# Workflow: ${workflow.name}`,
+    workflow.instructions,
+    `## Current step: ${step.name}${position}`,
+    state.stepsCompleted.length > 0 ? `Steps completed: ${state.stepsCompleted.join(', ')}` : '',
+    step.body,
+    dataSection ? `### Referenced files\n\n${dataSection}` : '',
+    '## Workflow engine protocol',
+    [
+      '- The engine loads step files for you. Only the current step is shown; do not try to read or load step files yourself.',
+      '- End every reply with exactly one status line:',
+      '  - `STEP_STATUS: complete` when this step is finished and the workflow should move to the next step',
+      '  - `STEP_STATUS: waiting` when you need input from the user (a menu, missing configuration, a confirmation)',
+      '  - `STEP_STATUS: halted` when the workflow cannot continue',
+      '- Progress is saved after every step, so the user can reply in this thread later to continue.',
+    ].join('\n'),
+  ]
+    .filter((section) => section.trim().length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Run one user turn of a workflow.
+ *
+ * Same contract as `runOrionAgent` (yields reply text, returns usage), so
+ * handlers can swap it in. Crash journaling (`journal`/`resumeFrom`) is not
+ * used for workflow turns; the sidecar state is what lets a run resume.
+ *
+ * @param request - Resolved workflow request (see resolveWorkflowRequest)
+ * @param options - Options the handler would pass to runOrionAgent
+ */
+export async function* runWorkflowTurn(
+  request: WorkflowRequest,
+  options: AgentOptions
+): AsyncGenerator<string, AgentResult, undefined> {
+  const { workflow } = request;
+  const traceId = options.context.traceId;
+  let state = request.state;
+
+  const result: AgentResult & { sources: ContextSource[]; toolCount: number } = {
+    inputTokens: 0,
+    outputTokens: 0,
+    durationMs: 0,
+    nfr1Met: true,
+    toolCount: 0,
+    sources: [],
+  };
+
+  logger.info({
+    event: 'workflow.turn_started',
+    workflowId: workflow.id,
+    action: request.action,
+    currentStep: state.currentStep,
+    channelId: state.channelId,
+    threadTs: state.threadTs,
+    traceId,
+  });
+
+  if (request.action === 'cancel') {
+    await saveWorkflowState({ ...state, status: 'cancelled' });
+    yield `Stopped the *${workflow.name}* workflow. Say \`run ${workflow.id}\` to start it again.`;
+    return result;
+  }
+
+  let userMessage =
+    request.action === 'start'
+      ? `Start the "${workflow.name}" workflow.`
+      : request.action === 'resume'
+        ? 'Resume the workflow at the current step.'
+        : request.userMessage;
+  let history = [...options.context.threadHistory];
+  let emitted = false;
+
+  for (let i = 0; i < MAX_STEPS_PER_TURN; i++) {
+    let step: WorkflowStep;
+    try {
+      step = await loadWorkflowStep(workflow, state.currentStep);
+    } catch (error) {
+      logger.error({
+        event: 'workflow.step_load_failed',
+        workflowId: workflow.id,
+        step: state.currentStep,
+        error: error instanceof Error ? error.message : String(error),
+        traceId,
+      });
+      state = await saveWorkflowState({ ...state, status: 'halted' });
+      yield `${emitted ? '\n\n' : ''}The *${workflow.name}* workflow stopped: step \`${state.currentStep}\` could not be loaded.`;
+      return result;
+    }
+
+    state = await saveWorkflowState({ ...state, status: 'running' });
+
+    let output = '';
+    let replacement: string | undefined;
+    const agent = runOrionAgent(userMessage, {
+      ...options,
+      context: { ...options.context, threadHistory: history },
+      systemPrompt: buildStepSystemPrompt(options.systemPrompt, workflow, step, state),
+      journal: undefined,
+      resumeFrom: undefined,
+      replaceResponse: (text) => {
+        replacement = text;
+      },
+    });
+
+    for (;;) {
+      const next = await agent.next();
+      if (next.done) {
+        result.inputTokens += next.value.inputTokens;
+        result.outputTokens += next.value.outputTokens;
+        result.durationMs += next.value.durationMs;
+        result.nfr1Met = result.nfr1Met && next.value.nfr1Met;
+        result.toolCount += next.value.toolCount ?? 0;
+        result.sources.push(...(next.value.sources ?? []));
+        break;
+      }
+      output += next.value;
+    }
+
+    const { status, text } = parseStepStatus(replacement ?? output);
+    if (text) {
+      yield emitted ? `\n\n${text}` : text;
+      emitted = true;
+    }
+    history = [...history, { role: 'user', content: userMessage }, { role: 'assistant', content: text }];
+
+    logger.info({
+      event: 'workflow.step_finished',
+      workflowId: workflow.id,
+      step: step.file,
+      status,
+      traceId,
+    });
+
+    if (status !== 'complete') {
+      state = await saveWorkflowState({ ...state, status: status === 'halted' ? 'halted' : 'waiting' });
+      return result;
+    }
+
+    const stepsCompleted = [...state.stepsCompleted, step.file];
+    const nextStep = step.nextStepFile ?? workflow.steps[workflow.steps.indexOf(step.file) + 1];
+    if (!nextStep) {
+      state = await saveWorkflowState({ ...state, stepsCompleted, status: 'completed' });
+      logger.info({ event: 'workflow.completed', workflowId: workflow.id, traceId });
+      return result;
+    }
+
+    state = await saveWorkflowState({ ...state, stepsCompleted, currentStep: nextStep, status: 'running' });
+    userMessage = `Step "${step.name}" is complete. Execute the current step.`;
+  }
+
+  // Step budget for this turn used up: wait for the user before running more.
+  state = await saveWorkflowState({ ...state, status: 'waiting' });
+  logger.warn({
+    event: 'workflow.turn_step_limit',
+    workflowId: workflow.id,
+    step: state.currentStep,
+    traceId,
+  });
+  return result;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../config/orion-config.js', () => ({
+  loadOrionConfig: vi.fn(() => ({ paths: { workflows: '.orion/workflows' } })),
+}));
+
+import {
+  getWorkflowDirs,
+  listWorkflowIds,
+  loadWorkflow,
+  loadWorkflowStep,
+  parseFrontmatter,
+  resolvePlaceholders,
+} from './loader.js';
+import { loadOrionConfig } from '../config/orion-config.js';
+
+// Uses the workflow shipped in orion/workflows/jira-story-sync.
+describe('workflow loader', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseFrontmatter', () => {
+    it('splits YAML frontmatter from the body', () => {
+      expect(parseFrontmatter("---\nname: 'step-01'\n# comment\nnext: b.md\n---\n\n# Body\n")).toEqual({
+        data: { name: 'step-01', next: 'b.md' },
+        body: '# Body',
+      });
+    });
+
+    it('treats files without frontmatter as body-only', () => {
+      expect(parseFrontmatter('# Just markdown')).toEqual({ data: {}, body: '# Just markdown' });
+    });
+  });
+
+  describe('resolvePlaceholders', () => {
+    it('replaces known placeholders and keeps unknown ones', () => {
+      expect(resolvePlaceholders('{project-root}/x/{count}', { 'project-root': '.' })).toBe('./x/{count}');
+    });
+  });
+
+  describe('getWorkflowDirs', () => {
+    it('searches the configured path first, then the defaults, without duplicates', () => {
+      vi.mocked(loadOrionConfig).mockReturnValueOnce({ paths: { workflows: 'custom/workflows' } });
+
+      expect(getWorkflowDirs('/repo')).toEqual([
+        '/repo/custom/workflows',
+        '/repo/.orion/workflows',
+        '/repo/orion/workflows',
+      ]);
+    });
+  });
+
+  describe('loadWorkflow', () => {
+    it('loads workflow.md and the ordered step files', async () => {
+      const workflow = await loadWorkflow('jira-story-sync');
+
+      expect(workflow).toEqual(
+        expect.objectContaining({
+          id: 'jira-story-sync',
+          name: 'Jira Story Sync',
+          steps: [
+            'steps/step-01-init.md',
+            'steps/step-02-discover.md',
+            'steps/step-03-plan.md',
+            'steps/step-04-execute.md',
+            'steps/step-05-complete.md',
+          ],
+        })
+      );
+      expect(workflow?.instructions).toContain('step-file architecture');
+    });
+
+    it('returns null for unknown or unsafe ids', async () => {
+      expect(await loadWorkflow('does-not-exist')).toBeNull();
+      expect(await loadWorkflow('../agents')).toBeNull();
+    });
+
+    it('lists available workflows', async () => {
+      expect(await listWorkflowIds()).toContain('jira-story-sync');
+    });
+  });
+
+  describe('loadWorkflowStep', () => {
+    it('resolves placeholders, the next step and referenced data files', async () => {
+      const workflow = await loadWorkflow('jira-story-sync');
+      const step = await loadWorkflowStep(workflow!, 'steps/step-01-init.md');
+
+      expect(step.name).toBe('step-01-init');
+      expect(step.nextStepFile).toBe('steps/step-02-discover.md');
+      expect(step.body).toContain('execute `orion/workflows/jira-story-sync/steps/step-02-discover.md`');
+      expect(step.body).not.toContain('{nextStepFile}');
+      expect(step.dataFiles).toEqual([
+        expect.objectContaining({ key: 'statusMappingFile', file: 'data/status-mapping.yaml' }),
+      ]);
+      expect(step.dataFiles[0].content).toContain('bmad_to_jira');
+    });
+
+    it('has no next step for the last step', async () => {
+      const workflow = await loadWorkflow('jira-story-sync');
+      const step = await loadWorkflowStep(workflow!, 'steps/step-05-complete.md');
+
+      expect(step.nextStepFile).toBeUndefined();
+    });
+
+    it('rejects step files outside the workflow directory', async () => {
+      const workflow = await loadWorkflow('jira-story-sync');
+
+      await expect(loadWorkflowStep(workflow!, '../../../.orion/config.yaml')).rejects.toThrow(
+        'outside workflow'
+      );
+    });
+  });
+});
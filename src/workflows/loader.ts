@@ -0,0 +1,253 @@
+/**
+ * Workflow Loader
+ *
+ * Loads step-file workflows: a directory containing `workflow.md` (frontmatter
+ * + instructions), `steps/step-NN-*.md` step files and optional `data/` files.
+ *
+ * Workflows are discovered in the configured `paths.workflows` directory
+ * (.orion/config.yaml) and in `orion/workflows/`. The directory name is the
+ * workflow id users type (`run jira-story-sync`).
+ *
+ * Step files are only read when the engine reaches them (just-in-time), so a
+ * workflow never sees instructions for future steps.
+ */
+
+import { readFile, readdir } from 'fs/promises';
+import { isAbsolute, join, relative, resolve } from 'path';
+import YAML from 'yaml';
+import { loadOrionConfig } from '../config/orion-config.js';
+import { logger } from '../utils/logger.js';
+
+/** Workflow directories searched after the configured `paths.workflows` */
+export const DEFAULT_WORKFLOW_DIRS = ['.orion/workflows', 'orion/workflows'];
+
+/** Workflow ids are directory names: lowercase letters, digits, `-` and `_` */
+const WORKFLOW_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/** Frontmatter keys that point at other step/workflow files rather than data to inline */
+const NON_DATA_FILE_KEYS = new Set(['thisStepFile', 'nextStepFile', 'workflowFile', 'sidecarFile']);
+
+/** Largest data file inlined into a step prompt */
+const MAX_DATA_FILE_CHARS = 20_000;
+
+/**
+ * Workflow parsed from `workflow.md`.
+ */
+export interface WorkflowDefinition {
+  /** Directory name (what users type after `run`) */
+  id: string;
+  /** Display name from frontmatter (default: id) */
+  name: string;
+  description: string;
+  /** Absolute workflow directory */
+  dir: string;
+  /** Markdown body of workflow.md */
+  instructions: string;
+  /** Step files relative to `dir`, in order (e.g. `steps/step-01-init.md`) */
+  steps: string[];
+}
+
+/**
+ * Step parsed from a step file, with `{placeholders}` resolved.
+ */
+export interface WorkflowStep {
+  /** Step file relative to the workflow directory */
+  file: string;
+  /** Step name from frontmatter (default: file name) */
+  name: string;
+  description: string;
+  /** Markdown body with placeholders resolved */
+  body: string;
+  /** Next step file relative to the workflow directory (undefined = last step) */
+  nextStepFile?: string;
+  /** Data files referenced in frontmatter that exist inside the workflow directory */
+  dataFiles: Array<{ key: string; file: string; content: string }>;
+}
+
+/**
+ * Split a markdown file into YAML frontmatter and body.
+ */
+export function parseFrontmatter(content: string): { data: Record<string, unknown>; body: string } {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) return { data: {}, body: content.trim() };
+
+  let data: Record<string, unknown> = {};
+  try {
+    const parsed = YAML.parse(match[1]) as unknown;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      data = parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Malformed frontmatter: treat the file as body-only
+  }
+  return { data, body: match[2].trim() };
+}
+
+/**
+ * Replace `{name}` placeholders, leaving unknown ones untouched.
+ */
+export function resolvePlaceholders(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{([A-Za-z][\w-]*)\}/g, (whole, name: string) => variables[name] ?? whole);
+}
+
+/**
+ * Directories searched for workflows, in priority order.
+ */
+export function getWorkflowDirs(basePath: string = process.cwd()): string[] {
+  const configured = loadOrionConfig().paths?.workflows;
+  const dirs = configured ? [configured, ...DEFAULT_WORKFLOW_DIRS] : DEFAULT_WORKFLOW_DIRS;
+  return [...new Set(dirs.map((d) => resolve(basePath, d)))];
+}
+
+/**
+ * List workflow ids available in the workflow directories.
+ *
+ * @returns Sorted ids of directories containing a workflow.md
+ */
+export async function listWorkflowIds(basePath: string = process.cwd()): Promise<string[]> {
+  const ids = new Set<string>();
+  for (const dir of getWorkflowDirs(basePath)) {
+    let entries: string[];
+    try {
+      entries = await readdir(dir);
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (!WORKFLOW_ID_PATTERN.test(entry)) continue;
+      try {
+        await readFile(join(dir, entry, 'workflow.md'), 'utf-8');
+        ids.add(entry);
+      } catch {
+        // Not a workflow directory
+      }
+    }
+  }
+  return [...ids].sort();
+}
+
+/**
+ * Load a workflow definition by id.
+ *
+ * @returns Workflow, or null if no workflow directory has that id
+ */
+export async function loadWorkflow(
+  id: string,
+  basePath: string = process.cwd()
+): Promise<WorkflowDefinition | null> {
+  if (!WORKFLOW_ID_PATTERN.test(id)) return null;
+
+  for (const root of getWorkflowDirs(basePath)) {
+    const dir = join(root, id);
+    let content: string;
+    try {
+      content = await readFile(join(dir, 'workflow.md'), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const { data, body } = parseFrontmatter(content);
+    let steps: string[] = [];
+    try {
+      steps = (await readdir(join(dir, 'steps')))
+        .filter((f) => f.endsWith('.md'))
+        .sort()
+        .map((f) => `steps/${f}`);
+    } catch {
+      // No steps directory
+    }
+
+    if (steps.length === 0) {
+      logger.warn({ event: 'workflow.no_steps', workflowId: id, dir });
+      return null;
+    }
+
+    return {
+      id,
+      name: typeof data.name === 'string' ? data.name : id,
+      description: typeof data.description === 'string' ? data.description : '',
+      dir,
+      instructions: body,
+      steps,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Convert a resolved path to one relative to the workflow directory.
+ *
+ * @returns Relative path, or null if it points outside the workflow
+ */
+function toWorkflowRelative(workflow: WorkflowDefinition, path: string, basePath: string): string | null {
+  const absolute = resolve(basePath, path);
+  const rel = relative(workflow.dir, absolute);
+  return rel.startsWith('..') || isAbsolute(rel) ? null : rel.split('\\').join('/');
+}
+
+/**
+ * Load one step file (just-in-time).
+ *
+ * Frontmatter string values become placeholder variables (`{nextStepFile}`,
+ * `{statusMappingFile}`, ...) alongside `{project-root}` and `{workflow_path}`.
+ * Paths resolve relative to the project root (no absolute server paths in
+ * prompts), and `workflow_path` always points at the directory the workflow
+ * was loaded from.
+ * Referenced data files inside the workflow directory are read so the step
+ * prompt can include them.
+ *
+ * @param workflow - Loaded workflow
+ * @param file - Step file relative to the workflow directory
+ * @throws Error if the step file cannot be read
+ */
+export async function loadWorkflowStep(
+  workflow: WorkflowDefinition,
+  file: string,
+  basePath: string = process.cwd()
+): Promise<WorkflowStep> {
+  const stepPath = resolve(workflow.dir, file);
+  if (toWorkflowRelative(workflow, stepPath, basePath) === null) {
+    throw new Error(`Step file outside workflow: ${file}`);
+  }
+
+  const content = await readFile(stepPath, 'utf-8');
+  const { data, body } = parseFrontmatter(content);
+
+  const variables: Record<string, string> = {
+    'project-root': '.',
+    workflow_path: relative(resolve(basePath), workflow.dir) || '.',
+  };
+  const rawVariables = Object.entries(data).filter(
+    (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[0] !== 'workflow_path'
+  );
+  for (const [key, value] of rawVariables) {
+    variables[key] = resolvePlaceholders(value, variables);
+  }
+
+  const nextStepFile = variables.nextStepFile
+    ? toWorkflowRelative(workflow, variables.nextStepFile, basePath) ?? undefined
+    : undefined;
+
+  const dataFiles: WorkflowStep['dataFiles'] = [];
+  for (const [key] of rawVariables) {
+    if (!key.endsWith('File') || NON_DATA_FILE_KEYS.has(key)) continue;
+    const rel = toWorkflowRelative(workflow, variables[key], basePath);
+    if (!rel) continue;
+    try {
+      const dataContent = await readFile(resolve(workflow.dir, rel), 'utf-8');
+      dataFiles.push({ key, file: rel, content: dataContent.slice(0, MAX_DATA_FILE_CHARS) });
+    } catch {
+      // Referenced file not shipped with the workflow
+    }
+  }
+
+  return {
+    file,
+    name: typeof data.name === 'string' ? data.name : file,
+    description: typeof data.description === 'string' ? data.description : '',
+    body: resolvePlaceholders(body, variables),
+    nextStepFile,
+    dataFiles,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { files } = vi.hoisted(() => ({ files: new Map<string, string>() }));
+
+vi.mock('fs/promises', () => ({
+  mkdir: vi.fn(async () => undefined),
+  writeFile: vi.fn(async (path: string, data: string) => {
+    files.set(path, data);
+  }),
+  readFile: vi.fn(async (path: string) => {
+    const data = files.get(path);
+    if (data === undefined) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+    return data;
+  }),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { createWorkflowState, loadWorkflowState, saveWorkflowState } from './state.js';
+import { writeFile } from 'fs/promises';
+import { logger } from '../utils/logger.js';
+
+const params = {
+  workflowId: 'jira-story-sync',
+  channelId: 'C1',
+  threadTs: '111.222',
+  userId: 'U1',
+  firstStep: 'steps/step-01-init.md',
+};
+
+describe('workflow state', () => {
+  beforeEach(() => {
+    files.clear();
+    vi.clearAllMocks();
+  });
+
+  it('creates a running state at the first step', () => {
+    expect(createWorkflowState(params)).toEqual(
+      expect.objectContaining({
+        workflowId: 'jira-story-sync',
+        status: 'running',
+        currentStep: 'steps/step-01-init.md',
+        stepsCompleted: [],
+      })
+    );
+  });
+
+  it('round-trips state through a per-thread YAML sidecar file', async () => {
+    const state = createWorkflowState(params);
+    await saveWorkflowState({ ...state, status: 'waiting', stepsCompleted: ['steps/step-01-init.md'] });
+
+    expect([...files.keys()]).toEqual(['orion-context/workflows/C1_111_222.yaml']);
+    expect(files.get('orion-context/workflows/C1_111_222.yaml')).toContain('status: waiting');
+
+    const loaded = await loadWorkflowState('C1', '111.222');
+    expect(loaded).toEqual(
+      expect.objectContaining({ status: 'waiting', stepsCompleted: ['steps/step-01-init.md'] })
+    );
+    expect(await loadWorkflowState('C1', '999.000')).toBeNull();
+  });
+
+  it('logs and returns the state when the write fails', async () => {
+    vi.mocked(writeFile).mockRejectedValueOnce(new Error('EACCES'));
+
+    const saved = await saveWorkflowState(createWorkflowState(params));
+
+    expect(saved.workflowId).toBe('jira-story-sync');
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'workflow.state_save_failed' })
+    );
+  });
+});
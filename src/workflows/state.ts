@@ -0,0 +1,117 @@
+/**
+ * Workflow Run State
+ *
+ * Sidecar state file for a workflow run, one per Slack thread, so a user can
+ * leave a workflow waiting on input and pick it up later in the same thread.
+ *
+ * Stored as YAML in orion-context/workflows/{channelId}_{threadTs}.yaml.
+ * `stepsCompleted` mirrors the step-file convention used by the workflows
+ * themselves (see orion/workflows/*\/workflow.md).
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import YAML from 'yaml';
+import { ORION_CONTEXT_ROOT } from '../memory/storage.js';
+import { logger } from '../utils/logger.js';
+
+/** Directory for workflow sidecar state files */
+const WORKFLOW_STATE_DIR = join(ORION_CONTEXT_ROOT, 'workflows');
+
+/**
+ * - running: a step is executing
+ * - waiting: the current step asked the user for input
+ * - completed: the last step finished
+ * - halted: a step stopped the workflow (e.g. failed validation); `run` starts over
+ * - cancelled: the user stopped the workflow
+ */
+export type WorkflowRunStatus = 'running' | 'waiting' | 'completed' | 'halted' | 'cancelled';
+
+/**
+ * Persisted progress of one workflow run.
+ */
+export interface WorkflowRunState {
+  workflowId: string;
+  channelId: string;
+  threadTs: string;
+  /** User who started the run */
+  userId: string;
+  status: WorkflowRunStatus;
+  /** Step file (relative to the workflow directory) to run next, or the one waiting on input */
+  currentStep: string;
+  /** Step files finished, in order */
+  stepsCompleted: string[];
+  startedAt: string;
+  updatedAt: string;
+}
+
+function getStatePath(channelId: string, threadTs: string): string {
+  const safe = `${channelId}_${threadTs}`.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return join(WORKFLOW_STATE_DIR, `${safe}.yaml`);
+}
+
+/**
+ * Load the workflow state for a thread.
+ *
+ * @returns State, or null if the thread has no workflow run
+ */
+export async function loadWorkflowState(
+  channelId: string,
+  threadTs: string
+): Promise<WorkflowRunState | null> {
+  try {
+    const raw = await readFile(getStatePath(channelId, threadTs), 'utf-8');
+    const parsed = YAML.parse(raw) as WorkflowRunState | null;
+    return parsed && typeof parsed.workflowId === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the workflow state for its thread (updates `updatedAt`).
+ *
+ * Best-effort: failures are logged, the run continues in memory.
+ *
+ * @returns The saved state
+ */
+export async function saveWorkflowState(state: WorkflowRunState): Promise<WorkflowRunState> {
+  const saved = { ...state, updatedAt: new Date().toISOString() };
+  try {
+    await mkdir(WORKFLOW_STATE_DIR, { recursive: true });
+    await writeFile(getStatePath(state.channelId, state.threadTs), YAML.stringify(saved));
+  } catch (error) {
+    logger.warn({
+      event: 'workflow.state_save_failed',
+      workflowId: state.workflowId,
+      channelId: state.channelId,
+      threadTs: state.threadTs,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return saved;
+}
+
+/**
+ * Create the initial state for a new run.
+ */
+export function createWorkflowState(params: {
+  workflowId: string;
+  channelId: string;
+  threadTs: string;
+  userId: string;
+  firstStep: string;
+}): WorkflowRunState {
+  const now = new Date().toISOString();
+  return {
+    workflowId: params.workflowId,
+    channelId: params.channelId,
+    threadTs: params.threadTs,
+    userId: params.userId,
+    status: 'running',
+    currentStep: params.firstStep,
+    stepsCompleted: [],
+    startedAt: now,
+    updatedAt: now,
+  };
+}